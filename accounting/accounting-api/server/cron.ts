@@ -0,0 +1,149 @@
+/**
+ * Cron Jobs
+ *
+ * Background jobs that run on a fixed interval. Each job first runs shortly
+ * after startup, to catch up on anything missed while the server was down,
+ * and a run still in progress when the next one comes due is skipped.
+ */
+
+import { recurringJournalService } from "./services/recurring-journal-service";
+import { bankFeedSyncService } from "./services/bank-feed-sync-service";
+import { clientQuestionService } from "./services/client-question-service";
+import { recurringInvoiceService } from "./services/recurring-invoice-service";
+import { dunningService } from "./services/dunning-service";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+interface CronJob {
+  name: string;
+  intervalMs: number;
+  startupDelayMs: number;
+  run: () => Promise<void>;
+}
+
+const jobs: CronJob[] = [
+  {
+    // Post due recurring journal entries; occurrences already posted are skipped
+    name: "Recurring journals",
+    intervalMs: HOUR_MS,
+    startupDelayMs: 60 * 1000,
+    run: async () => {
+      const results = await recurringJournalService.runDue();
+      const posted = results.reduce((sum, result) => sum + result.posted.length, 0);
+      const skipped = results.reduce((sum, result) => sum + result.skipped.length, 0);
+      const failed = results.filter((result) => result.error).length;
+
+      if (results.length > 0) {
+        console.log(
+          `🔁 Recurring journals: ${posted} posted, ${skipped} skipped (locked or already posted), ${failed} templates failed`
+        );
+      }
+    },
+  },
+  {
+    // Sync bank feed connections that are due; each connection carries its own
+    // next sync time, backed off after failures
+    name: "Bank feed sync",
+    intervalMs: 5 * 60 * 1000,
+    startupDelayMs: 90 * 1000,
+    run: async () => {
+      const results = await bankFeedSyncService.runDue();
+      const imported = results.reduce((sum, result) => sum + (result.run?.importedCount || 0), 0);
+      const failed = results.filter((result) => result.run?.status === "error").length;
+
+      if (results.length > 0) {
+        console.log(
+          `🏦 Bank feeds: ${results.length} connections synced, ${imported} transactions imported, ${failed} failed`
+        );
+      }
+    },
+  },
+  {
+    // Remind clients of transaction questions left unanswered longer than the
+    // firm's reminder interval; intervals are whole days, so hourly is plenty
+    name: "Client question reminders",
+    intervalMs: HOUR_MS,
+    startupDelayMs: 2 * 60 * 1000,
+    run: async () => {
+      const reminded = await clientQuestionService.sendReminders();
+      if (reminded > 0) {
+        console.log(`❓ Client questions: reminders sent to ${reminded} clients`);
+      }
+    },
+  },
+  {
+    // Generate due recurring invoices; each billing cycle is recorded once per
+    // profile, so catching up after downtime never double-bills
+    name: "Recurring invoices",
+    intervalMs: HOUR_MS,
+    startupDelayMs: 90 * 1000,
+    run: async () => {
+      const results = await recurringInvoiceService.runDue();
+      const generated = results.reduce((sum, result) => sum + result.generated.length, 0);
+      const sent = results.reduce((sum, result) => sum + result.generated.filter((invoice) => invoice.sent).length, 0);
+      const skipped = results.reduce((sum, result) => sum + result.skipped.length, 0);
+      const failed = results.filter((result) => result.error).length;
+
+      if (results.length > 0) {
+        console.log(
+          `🧾 Recurring invoices: ${generated} generated (${sent} emailed), ${skipped} skipped, ${failed} profiles failed`
+        );
+      }
+    },
+  },
+  {
+    // Take due dunning steps for every client with an active sequence; a step
+    // is taken once per invoice, so a restart never sends a notice twice
+    name: "Dunning",
+    intervalMs: 24 * HOUR_MS,
+    startupDelayMs: 3 * 60 * 1000,
+    run: async () => {
+      const results = await dunningService.runAll();
+      const actions = results.flatMap((result) => result.actions);
+      const sent = actions.filter((action) => action.status === "sent").length;
+      const failed = actions.filter((action) => action.status === "failed").length;
+      const held = results.reduce((sum, result) => sum + result.skipped.length, 0);
+
+      if (actions.length > 0 || held > 0) {
+        console.log(
+          `📨 Dunning: ${sent} sent, ${failed} failed, ${actions.length - sent - failed} without email, ${held} customers excluded or on hold`
+        );
+      }
+    },
+  },
+];
+
+const timers: NodeJS.Timeout[] = [];
+
+function schedule(job: CronJob) {
+  let running = false;
+  const tick = async () => {
+    if (running) return;
+    running = true;
+    try {
+      await job.run();
+    } catch (error) {
+      console.error(`❌ ${job.name} run failed:`, error);
+    } finally {
+      running = false;
+    }
+  };
+
+  timers.push(setTimeout(tick, job.startupDelayMs));
+  timers.push(setInterval(tick, job.intervalMs));
+}
+
+export function initializeCronJobs(): void {
+  if (timers.length > 0) return;
+
+  for (const job of jobs) {
+    schedule(job);
+  }
+  console.log(`⏰ Cron jobs started: ${jobs.map((job) => job.name).join(", ")}`);
+}
+
+export function stopCronJobs(): void {
+  for (const timer of timers.splice(0)) {
+    clearTimeout(timer);
+  }
+}
@@ -6,6 +6,7 @@ import cors from "cors";
 import { registerAILearningRoutes } from "./routes/ai-learning-routes";
 import { registerMiltonAIRoutes } from "./routes/milton-ai-routes";
 import simpleImportRouter from "./simple-import";
+import { screenBulkImport } from "./routes/duplicate-routes";
 import timeTrackingRoutes from "./routes/time-tracking-routes";
 import calendarIntegrationRoutes from "./routes/calendar-integration-routes";
 import firmCalendarSettingsRoutes from "./routes/firm-calendar-settings-routes";
@@ -394,7 +395,9 @@ app.get('/test-uploads', (req, res) => {
   // Register Milton AI routes
   registerMiltonAIRoutes(app);
 
-  // Register simple import routes (no authentication)
+  // Register simple import routes (no authentication); bulk imports are
+  // screened for duplicates first
+  app.post("/api/simple/bulk-import", screenBulkImport);
   app.use("/api/simple", simpleImportRouter);
 
   // Register time tracking routes
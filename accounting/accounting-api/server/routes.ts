@@ -55,6 +55,55 @@ import locationRoutes from "./routes/location-routes";
 import classRoutes from "./routes/class-routes";
 import miltonRoutes from "./routes/milton"; // Unified Milton routes
 import approvalRoutes from "./routes/approval-routes";
+import periodLockRoutes from "./routes/period-lock-routes";
+import { periodLockService, PeriodLockedError, toDateKey } from "./services/period-lock-service";
+import { duplicateDetectionService, DuplicateError } from "./services/duplicate-detection-service";
+import { importBatchService, toRowError, type ImportedRecord } from "./services/import-batch-service";
+import { mappingProfileService } from "./services/mapping-profile-service";
+import {
+  parseBankStatement,
+  detectStatementFormat,
+  isStatementFileName,
+  StatementParseError,
+} from "./services/bank-statement-parser";
+import { bankStatementImportService } from "./services/bank-statement-import-service";
+import statementImportRoutes from "./routes/statement-import-routes";
+import reconciliationMatchRoutes from "./routes/reconciliation-match-routes";
+import reconciliationReportRoutes from "./routes/reconciliation-report-routes";
+import { reconciliationReportService } from "./services/reconciliation-report-service";
+import currencyRoutes from "./routes/currency-routes";
+import { currencyService, CurrencyError } from "./services/currency-service";
+import recurringJournalRoutes from "./routes/recurring-journal-routes";
+import budgetRoutes from "./routes/budget-routes";
+import fixedAssetRoutes from "./routes/fixed-asset-routes";
+import consolidationRoutes from "./routes/consolidation-routes";
+import cashFlowRoutes from "./routes/cash-flow-routes";
+import drillDownRoutes from "./routes/drill-down-routes";
+import bankRuleRoutes from "./routes/bank-rule-routes";
+import transferRoutes from "./routes/transfer-routes";
+import duplicateRoutes from "./routes/duplicate-routes";
+import importBatchRoutes from "./routes/import-batch-routes";
+import mappingProfileRoutes from "./routes/mapping-profile-routes";
+import bankFeedSyncRoutes from "./routes/bank-feed-sync-routes";
+import receiptMatchingRoutes from "./routes/receipt-matching-routes";
+import clientQuestionRoutes from "./routes/client-question-routes";
+import recurringInvoiceRoutes from "./routes/recurring-invoice-routes";
+import dunningRoutes from "./routes/dunning-routes";
+import customerPaymentRoutes from "./routes/customer-payment-routes";
+import billApprovalRoutes from "./routes/bill-approval-routes";
+import vendorPaymentRunRoutes from "./routes/vendor-payment-run-routes";
+import { cashFlowService } from "./services/cash-flow-service";
+import { budgetService, BudgetError } from "./services/budget-service";
+import { customerPaymentService } from "./services/customer-payment-service";
+import { billApprovalService, BillApprovalError } from "./services/bill-approval-service";
+import {
+  comparativeReportService,
+  ComparativeReportError,
+  parseReportOptions,
+  priorYearDate,
+  trailingTwelveMonthsStart,
+  type ReportOptions,
+} from "./services/comparative-report-service";
 import {
   insertChequeSchema,
   insertChequeLineSchema,
@@ -397,6 +446,12 @@ function processAmount(amount: string | number | null | undefined): number {
   return 0;
 }
 
+// Ties the realized FX on a CRM invoice or bill payment to the payment's
+// journal entry, the row that identifies the payment and is deleted to undo it
+function crmPaymentSettlementRef(documentType: "invoice" | "bill", journalEntryId: number): string {
+  return `crm_${documentType}_payment:${journalEntryId}`;
+}
+
 /**
  * Validates Chart of Accounts structure only (no balances)
  * @param accounts The array of accounts to validate
@@ -3331,6 +3386,26 @@ ${firmName}
           );
         }
 
+        // Transactions on foreign-currency accounts are booked at the home-currency equivalent
+        const foreignAmount =
+          transactionData.clientId && !transactionData.lines
+            ? await currencyService.toHomeCurrency({
+                clientId: parseInt(transactionData.clientId),
+                firmId: req.user?.firmId,
+                currency: await currencyService.bookingCurrency(
+                  parseInt(transactionData.clientId),
+                  transactionData.accountId,
+                  transactionData.currency
+                ),
+                amount: processAmount(transactionData.amount),
+                date: transactionData.transactionDate || transactionData.date || new Date(),
+                exchangeRate: transactionData.exchangeRate,
+              })
+            : null;
+        if (foreignAmount) {
+          transactionData.amount = foreignAmount.homeAmount.toString();
+        }
+
         // Check if the transaction has tax applied
         let applyTax = false;
         let taxRate = 0;
@@ -3510,6 +3585,47 @@ ${firmName}
           transactionData.transactionGroupId = uuidv4();
         }
 
+        if (transactionData.clientId) {
+          await periodLockService.assertPeriodOpen(
+            parseInt(transactionData.clientId),
+            [transactionData.transactionDate || transactionData.date],
+            req.user
+          );
+        }
+
+        // Hold likely re-entries of a transaction already in the ledger for review,
+        // unless staff force it in with a reason
+        const { forceImport, forceReason } = transactionData;
+        delete transactionData.forceImport;
+        delete transactionData.forceReason;
+        let duplicateMatch = null;
+        const duplicateCandidate =
+          transactionData.clientId && transactionData.type !== "journal"
+            ? duplicateDetectionService.manualCandidate(transactionData)
+            : null;
+        if (duplicateCandidate) {
+          if (forceImport && !forceReason?.trim()) {
+            throw new DuplicateError("A reason is required to force import a duplicate");
+          }
+          const clientId = parseInt(transactionData.clientId);
+          duplicateMatch = await duplicateDetectionService.findDuplicate(clientId, duplicateCandidate);
+          if (duplicateMatch && !forceImport) {
+            const reviewItem = await duplicateDetectionService.queue(
+              clientId,
+              duplicateCandidate,
+              duplicateMatch,
+              "manual",
+              req.user
+            );
+            return res.status(202).json({
+              queued: true,
+              message: "This looks like a transaction already in the ledger and was held for duplicate review",
+              reviewItemId: reviewItem.id,
+              match: duplicateMatch,
+            });
+          }
+        }
+
         // FINAL CHECK: Log transaction data before creation
         console.log(`FINAL CHECK before transaction creation:`, {
           type: transactionData.type,
@@ -3522,6 +3638,34 @@ ${firmName}
         // Create the transaction
         const transaction = await storage.createTransaction(transactionData);
 
+        if (duplicateMatch && forceImport) {
+          await duplicateDetectionService.logOverride(parseInt(transactionData.clientId), {
+            source: "manual",
+            transactionId: transaction.id,
+            match: duplicateMatch,
+            description: transactionData.description,
+            amount: duplicateCandidate?.amount,
+            reason: forceReason,
+            user: req.user,
+          });
+        }
+
+        if (foreignAmount && transaction.accountId) {
+          // Stored debit-positive: income credits its account, everything else debits it
+          const sign = (transaction as any).type === "income" ? -1 : 1;
+          await currencyService.recordForeignAmount({
+            clientId: parseInt(transactionData.clientId),
+            accountId: transaction.accountId,
+            entryDate: transactionData.transactionDate || transactionData.date || new Date(),
+            transactionId: transaction.id,
+            info: {
+              ...foreignAmount,
+              foreignAmount: sign * foreignAmount.foreignAmount,
+              homeAmount: sign * foreignAmount.homeAmount,
+            },
+          });
+        }
+
         // For simple income and expense transactions, create appropriate transaction items
         if ((transaction as any).type === "income" && transaction.accountId) {
           // Create transaction items for income (credit to income account, debit to asset account)
@@ -3714,6 +3858,12 @@ ${firmName}
 
         res.status(201).json(transaction);
       } catch (error) {
+        if (error instanceof PeriodLockedError) {
+          return res.status(error.status).json(error.toResponse());
+        }
+        if (error instanceof CurrencyError || error instanceof DuplicateError) {
+          return res.status(error.status).json({ error: error.message, message: error.message });
+        }
         console.error("Error creating transaction:", error);
         res.status(500).json({ error: "Failed to create transaction" });
       }
@@ -3786,6 +3936,12 @@ ${firmName}
           return res.status(404).json({ error: "Transaction not found" });
         }
 
+        await periodLockService.assertPeriodOpen(
+          transaction.clientId,
+          [transaction.transactionDate, updateData.transactionDate],
+          req.user
+        );
+
         // Simply categorize the transaction without creating automatic double entries
         // This allows for proper single-entry import where categorization happens separately
         if (
@@ -4110,6 +4266,9 @@ ${firmName}
 
         res.json(updatedTransaction);
       } catch (error) {
+        if (error instanceof PeriodLockedError) {
+          return res.status(error.status).json(error.toResponse());
+        }
         console.error("Error updating transaction:", error);
         res.status(500).json({ error: "Failed to update transaction" });
       }
@@ -4202,6 +4361,34 @@ ${firmName}
         let rows: any[][] = [];
         let headers: string[] = [];
 
+        // Structured statements (OFX/QFX/QBO, CAMT) come back pre-mapped with FITIDs
+        if (
+          isStatementFileName(req.file.originalname) ||
+          detectStatementFormat(fileBuffer.toString("utf8", 0, 4096), req.file.originalname)
+        ) {
+          const statement = parseBankStatement(fileBuffer, req.file.originalname);
+          const clientId = parseInt(req.body.clientId);
+          const accountId = req.body.accountId ? parseInt(req.body.accountId) : undefined;
+          const preview = await bankStatementImportService.buildImportPreview(
+            statement,
+            clientId,
+            accountId
+          );
+
+          console.log("Statement parsed successfully:", {
+            format: statement.format,
+            accountNumber: statement.accountNumber,
+            transactions: statement.transactions.length,
+            duplicates: preview.duplicateFitIds.length,
+          });
+
+          return res.json({
+            success: true,
+            format: statement.format,
+            ...preview,
+          });
+        }
+
         try {
           if (fileExtension === ".csv") {
             const csvContent = fileBuffer.toString("utf8");
@@ -4291,10 +4478,30 @@ ${firmName}
             }
           });
 
+          // A saved mapping profile for this export layout replaces the guesses
+          const clientId = parseInt(req.body.clientId) || null;
+          const mappingProfile = await mappingProfileService.detectForUpload(
+            clientId,
+            req.user,
+            "transactions",
+            [headers, ...rows]
+          );
+          if (mappingProfile?.autoApplied) {
+            rows = [headers, ...rows].slice(mappingProfile.headerRowOffset + 1);
+            headers = mappingProfile.headers;
+            for (const key of Object.keys(suggestions)) delete suggestions[key];
+            for (const [field, index] of Object.entries(mappingProfile.columns)) {
+              if (index !== null) suggestions[field] = index;
+            }
+          }
+
           console.log("File parsed successfully:", {
             headers: headers.length,
             rows: rows.length,
             suggestions,
+            mappingProfile: mappingProfile
+              ? `${mappingProfile.profile.name} (${mappingProfile.confidence})`
+              : null,
           });
 
           res.json({
@@ -4302,11 +4509,15 @@ ${firmName}
             headers,
             rows,
             suggestions,
+            mappingProfile,
           });
         } catch (parseError) {
           throw parseError;
         }
       } catch (error) {
+        if (error instanceof StatementParseError) {
+          return res.status(400).json({ error: error.message, message: error.message });
+        }
         console.error("File parsing error:", error);
         res.status(500).json({
           error: "Failed to parse file",
@@ -4741,6 +4952,22 @@ ${firmName}
           );
           const accounts = await storage.getAccounts(clientId);
 
+          // Saved mapping profile for this export layout, offered to the mapper
+          const mappingProfile = await mappingProfileService.detectForUpload(
+            req.body.clientId || req.query.clientId ? clientId : null,
+            req.user,
+            "general_ledger",
+            rawData
+          );
+          // Rows below the recognised header row, keyed by header, for the column mapper
+          const profileRows = mappingProfile
+            ? rawData
+                .slice(mappingProfile.headerRowOffset + 1)
+                .map((row) =>
+                  Object.fromEntries(mappingProfile.headers.map((header, index) => [header, row[index] ?? ""]))
+                )
+            : undefined;
+
           let parsedAnalysis;
 
           // Check if this is Journal Entry or General Ledger format
@@ -5557,6 +5784,9 @@ ${firmName}
             summary: parsedAnalysis.summary || {}, // Include summary statistics
             columnStructure: parsedAnalysis.columnStructure,
             rawSample: rawData.slice(0, 10), // Raw data preview
+            mappingProfile,
+            headers: mappingProfile?.headers,
+            data: profileRows,
           });
         } catch (parseError) {
           console.error("GL parsing error:", parseError);
@@ -5577,6 +5807,9 @@ ${firmName}
     "/general-ledger/import",
     requireAuth,
     async (req: Request, res: Response) => {
+      // Everything created is recorded on an import batch so it can be rolled back
+      let importBatch = null;
+      const batchRecords: ImportedRecord[] = [];
       try {
         const {
           clientId,
@@ -5584,6 +5817,7 @@ ${firmName}
           journalEntries,
           accountMatches,
           createMissingAccounts,
+          batch: batchMeta,
         } = req.body;
 
         const totalExtractedTransactions = extractedData?.length || 0;
@@ -5698,6 +5932,24 @@ ${firmName}
         const batchSize = 100; // STABILITY: Smaller batches prevent server overload
         let processedCount = 0;
 
+        importBatch = await importBatchService.startBatch(
+          parseInt(clientId),
+          "general_ledger",
+          {
+            ...batchMeta,
+            mapping: batchMeta?.mapping ?? accountMatches,
+            rowCount: totalImportItems,
+            rows: { extractedData, journalEntries },
+          },
+          req.user
+        );
+
+        // Entries dated in a locked period are skipped and reported as errors
+        const assertPeriodOpen = await periodLockService.createGuard(
+          parseInt(clientId),
+          req.user
+        );
+
         // PROCESS JOURNAL ENTRIES FIRST (complete multi-line entries)
         if (journalEntries && journalEntries.length > 0) {
           console.log(
@@ -5743,6 +5995,8 @@ ${firmName}
                 parsedDate = new Date();
               }
 
+              assertPeriodOpen(parsedDate);
+
               // Resolve all accounts for this journal entry
               const resolvedLines = [];
               let allAccountsResolved = true;
@@ -5830,6 +6084,12 @@ ${firmName}
                 status: "posted",
               });
 
+              batchRecords.push({
+                recordType: "journal_entry",
+                recordId: createdJournalEntry.id,
+                recordDate: parsedDate,
+              });
+
               // Create all journal entry lines
               for (const line of resolvedLines) {
                 await storage.createJournalEntryLine({
@@ -5987,6 +6247,8 @@ ${firmName}
                   parsedDate = new Date();
                 }
 
+                assertPeriodOpen(parsedDate);
+
                 // FIXED: Create journal entry with correct date field and reference
                 const journalEntry = await storage.createJournalEntry({
                   clientId: parseInt(clientId),
@@ -6001,6 +6263,12 @@ ${firmName}
                   status: "posted",
                 });
 
+                batchRecords.push({
+                  recordType: "journal_entry",
+                  recordId: journalEntry.id,
+                  recordDate: parsedDate,
+                });
+
                 // Create debit/credit lines efficiently with RESOLVED account
                 if (transaction.debit > 0) {
                   await storage.createJournalEntryLine({
@@ -6068,14 +6336,27 @@ ${firmName}
           global.importProgress.endTime = new Date();
         }
 
+        importBatch = await importBatchService.finishBatch(importBatch.id, {
+          records: batchRecords,
+          skippedCount,
+          failedCount: errors.length,
+          errors: errors.map((message) => toRowError(null, new Error(message))),
+        });
+
         res.json({
           success: true,
+          batchId: importBatch.id,
           imported: importedCount,
           skipped: skippedCount,
           errors: errors.length > 0 ? errors : null,
           message: `Successfully imported ${importedCount} items (${totalJournalEntries} journal entries + ${totalExtractedTransactions} individual transactions). ${skippedCount} items were skipped.`,
         });
       } catch (error) {
+        if (importBatch) {
+          await importBatchService
+            .finishBatch(importBatch.id, { records: batchRecords, errors: [toRowError(null, error)], failed: true })
+            .catch((batchError) => console.error("Failed to close import batch:", batchError));
+        }
         console.error("General ledger import error:", error);
         res.status(500).json({
           error: "Failed to import general ledger data",
@@ -6095,24 +6376,32 @@ ${firmName}
     async (req: Request, res: Response) => {
       try {
         const clientId = parseInt(req.params.clientId);
-        const { description, transactionDate, entries } = req.body;
+        const { description, transactionDate } = req.body;
 
         console.log(`Creating journal entry for client ${clientId}:`, {
           description,
           transactionDate,
-          entries,
+          entries: req.body.entries,
         });
 
         // Validate entries are balanced
         let totalDebits = 0;
         let totalCredits = 0;
 
-        if (!entries || !Array.isArray(entries)) {
+        if (!req.body.entries || !Array.isArray(req.body.entries)) {
           return res
             .status(400)
             .json({ error: "Journal entries are required" });
         }
 
+        // Lines entered in a foreign currency are booked at their home-currency equivalent
+        const { entries, foreign: foreignAmounts } = await currencyService.convertJournalLines(
+          clientId,
+          req.user?.firmId,
+          transactionDate,
+          req.body.entries
+        );
+
         entries.forEach((entry: any) => {
           const debit = parseFloat(entry.debitAmount || "0");
           const credit = parseFloat(entry.creditAmount || "0");
@@ -6128,6 +6417,8 @@ ${firmName}
           });
         }
 
+        await periodLockService.assertPeriodOpen(clientId, [transactionDate], req.user);
+
         // Create journal entry
         const journalEntry = await storage.createJournalEntry({
           clientId,
@@ -6153,11 +6444,29 @@ ${firmName}
           )
         );
 
+        for (let i = 0; i < lines.length; i++) {
+          if (foreignAmounts[i]) {
+            await currencyService.recordForeignAmount({
+              clientId,
+              accountId: entries[i].accountId,
+              entryDate: transactionDate,
+              journalEntryLineId: lines[i].id,
+              info: foreignAmounts[i]!,
+            });
+          }
+        }
+
         console.log(
           `Journal entry created: ID=${journalEntry.id}, Lines=${lines.length}`
         );
         res.json({ ...journalEntry, lines });
       } catch (error) {
+        if (error instanceof PeriodLockedError) {
+          return res.status(error.status).json(error.toResponse());
+        }
+        if (error instanceof CurrencyError) {
+          return res.status(error.status).json({ error: error.message, message: error.message });
+        }
         console.error("Error creating journal entry:", error);
         res.status(500).json({ error: "Failed to create journal entry" });
       }
@@ -6181,6 +6490,22 @@ ${firmName}
           return res.status(404).json({ error: "Journal entry not found" });
         }
 
+        await periodLockService.assertPeriodOpen(
+          journalEntry.clientId,
+          [journalEntry.entryDate],
+          req.user
+        );
+
+        // Deleting a CRM payment's entry voids the payment, so its realized FX goes too
+        for (const documentType of ["invoice", "bill"] as const) {
+          await currencyService.reverseSettlement(
+            journalEntry.clientId,
+            crmPaymentSettlementRef(documentType, entryId),
+            toDateKey(journalEntry.entryDate)!,
+            req.user
+          );
+        }
+
         console.log(
           `🗑️ Deleting journal entry: ${journalEntry.description} (ID: ${entryId})`
         );
@@ -6209,6 +6534,9 @@ ${firmName}
         );
         res.status(204).send();
       } catch (error) {
+        if (error instanceof PeriodLockedError) {
+          return res.status(error.status).json(error.toResponse());
+        }
         console.error("Error deleting journal entry:", error);
         res.status(500).json({ error: "Failed to delete journal entry" });
       }
@@ -6270,6 +6598,13 @@ ${firmName}
           });
         }
 
+        // Both the original date and the new date must be in open periods
+        await periodLockService.assertPeriodOpen(
+          journalEntry.clientId,
+          [journalEntry.entryDate, safeDate],
+          req.user
+        );
+
         console.log(
           `📝 Updating journal entry: ${journalEntry.description} (ID: ${entryId})`
         );
@@ -6319,6 +6654,9 @@ ${firmName}
 
         res.json({ ...updatedEntry, lines });
       } catch (error) {
+        if (error instanceof PeriodLockedError) {
+          return res.status(error.status).json(error.toResponse());
+        }
         console.error("Error updating journal entry:", error);
         res.status(500).json({ error: "Failed to update journal entry" });
       }
@@ -6332,6 +6670,11 @@ ${firmName}
     async (req: Request, res: Response) => {
       try {
         const journalEntryData = req.body;
+        await periodLockService.assertPeriodOpen(
+          parseInt(journalEntryData.clientId),
+          [journalEntryData.entryDate || journalEntryData.date],
+          req.user
+        );
         const journalEntry = await storage.createJournalEntry(journalEntryData);
 
         // Create journal entry lines
@@ -6350,6 +6693,9 @@ ${firmName}
           res.json(journalEntry);
         }
       } catch (error) {
+        if (error instanceof PeriodLockedError) {
+          return res.status(error.status).json(error.toResponse());
+        }
         console.error("Error creating journal entry:", error);
         res.status(500).json({ error: "Failed to create journal entry" });
       }
@@ -6361,9 +6707,11 @@ ${firmName}
     "/journal-entries/:clientId/import",
     requireAuth,
     async (req: Request, res: Response) => {
+      let importBatch = null;
+      const batchRecords: ImportedRecord[] = [];
       try {
         const clientId = parseInt(req.params.clientId);
-        const { entries } = req.body;
+        const { entries, batch: batchMeta } = req.body;
 
         if (!entries || !Array.isArray(entries)) {
           return res.status(400).json({ error: "Entries array is required" });
@@ -6382,8 +6730,16 @@ ${firmName}
         let imported = 0;
         let failed = 0;
         const errors = [];
+        const rowErrors = [];
+        const assertPeriodOpen = await periodLockService.createGuard(clientId, req.user);
+        importBatch = await importBatchService.startBatch(
+          clientId,
+          "journal_entries",
+          { ...batchMeta, rowCount: entries.length, rows: entries },
+          req.user
+        );
 
-        for (const entry of entries) {
+        for (const [index, entry] of entries.entries()) {
           try {
             // DEBUG: Log each entry being processed
             console.log(`\n📝 PROCESSING ENTRY: "${entry.description}"`);
@@ -6419,6 +6775,7 @@ ${firmName}
             }
 
             const formattedDate = entryDate.toISOString().split("T")[0];
+            assertPeriodOpen(formattedDate);
             dateStats.validDates.push({
               entry: entry.description,
               rawDate: entry.date,
@@ -6456,6 +6813,7 @@ ${firmName}
             });
 
             console.log(`   🆔 Created journal entry ID: ${journalEntry.id}`);
+            batchRecords.push({ recordType: "journal_entry", recordId: journalEntry.id, recordDate: formattedDate });
 
             // Create journal entry lines (debit and credit)
             await storage.createJournalEntryLine({
@@ -6480,6 +6838,7 @@ ${firmName}
             failed++;
             const errorMsg = `Entry "${entry.description}": ${error.message}`;
             errors.push(errorMsg);
+            rowErrors.push(toRowError(index + 1, error));
             console.error(`   ❌ Failed to import: ${errorMsg}`);
           }
         }
@@ -6509,8 +6868,15 @@ ${firmName}
           );
         }
 
+        importBatch = await importBatchService.finishBatch(importBatch.id, {
+          records: batchRecords,
+          failedCount: failed,
+          errors: rowErrors,
+        });
+
         res.json({
           success: true,
+          batchId: importBatch.id,
           message: `Import complete: ${imported} entries imported, ${failed} failed`,
           imported,
           failed,
@@ -6525,6 +6891,11 @@ ${firmName}
           },
         });
       } catch (error) {
+        if (importBatch) {
+          await importBatchService
+            .finishBatch(importBatch.id, { records: batchRecords, errors: [toRowError(null, error)], failed: true })
+            .catch((batchError) => console.error("Failed to close import batch:", batchError));
+        }
         console.error("Journal entries import error:", error);
         res.status(500).json({
           error: "Failed to import journal entries",
@@ -6539,9 +6910,11 @@ ${firmName}
     "/general-ledger/:clientId/import",
     requireAuth,
     async (req: Request, res: Response) => {
+      let importBatch = null;
+      const batchRecords: ImportedRecord[] = [];
       try {
         const clientId = parseInt(req.params.clientId);
-        const { entries } = req.body;
+        const { entries, batch: batchMeta } = req.body;
 
         if (!entries || !Array.isArray(entries)) {
           return res.status(400).json({ error: "Entries array is required" });
@@ -6550,6 +6923,14 @@ ${firmName}
         let imported = 0;
         let failed = 0;
         const errors = [];
+        const rowErrors = [];
+        const assertPeriodOpen = await periodLockService.createGuard(clientId, req.user);
+        importBatch = await importBatchService.startBatch(
+          clientId,
+          "general_ledger",
+          { ...batchMeta, rowCount: entries.length, rows: entries },
+          req.user
+        );
 
         // Group entries by description to create balanced journal entries
         const groupedEntries = {};
@@ -6615,16 +6996,20 @@ ${firmName}
 
             if (validLines.length === 0) continue;
 
+            const entryDate = new Date();
+            assertPeriodOpen(entryDate);
+
             // Create journal entry
             const journalEntry = await storage.createJournalEntry({
               clientId,
               description,
-              entryDate: new Date(),
+              entryDate,
               totalDebit: totalDebits,
               totalCredit: totalCredits,
               status: "posted",
               isBalanced: Math.abs(totalDebits - totalCredits) < 0.01,
             });
+            batchRecords.push({ recordType: "journal_entry", recordId: journalEntry.id, recordDate: entryDate });
 
             // Create journal entry lines
             for (const line of validLines) {
@@ -6638,17 +7023,30 @@ ${firmName}
           } catch (error) {
             failed++;
             errors.push(`Entry group "${description}": ${error.message}`);
+            rowErrors.push(toRowError(null, error, `Entry group "${description}"`));
           }
         }
 
+        importBatch = await importBatchService.finishBatch(importBatch.id, {
+          records: batchRecords,
+          failedCount: failed,
+          errors: rowErrors,
+        });
+
         res.json({
           success: true,
+          batchId: importBatch.id,
           message: `Import complete: ${imported} journal entries created from ${entries.length} general ledger entries, ${failed} failed`,
           imported,
           failed,
           errors: errors.slice(0, 10),
         });
       } catch (error) {
+        if (importBatch) {
+          await importBatchService
+            .finishBatch(importBatch.id, { records: batchRecords, errors: [toRowError(null, error)], failed: true })
+            .catch((batchError) => console.error("Failed to close import batch:", batchError));
+        }
         console.error("General ledger import error:", error);
         res.status(500).json({
           error: "Failed to import general ledger entries",
@@ -6738,7 +7136,7 @@ ${firmName}
 
       console.log(`✅ Trial Balance generated with ${accounts.length} accounts in standard accounting order`);
 
-      res.json({
+      const report = {
         clientId,
         asOfDate: asOfDate,
         accounts: accounts,
@@ -6746,9 +7144,19 @@ ${firmName}
         totalCredits: parseFloat(totalCredits.toFixed(2)),
         isBalanced: isBalanced,
         summary: summary
-      });
+      };
+
+      res.json(await currencyService.presentReport(report, {
+        clientId,
+        firmId: req.user?.firmId,
+        currency: req.query.presentationCurrency as string | undefined,
+        date: asOfDate,
+      }));
 
     } catch (error) {
+      if (error instanceof CurrencyError) {
+        return res.status(error.status).json({ error: error.message, message: error.message });
+      }
       console.error("Trial Balance generation error:", error);
       res.status(500).json({ error: "Failed to generate Trial Balance" });
     }
@@ -7187,6 +7595,10 @@ ${firmName}
           return new Date(invoice.issueDate) <= filterDate;
         });
 
+        // Paid-to-date and unapplied credit both count only what was applied by the as-of date
+        const asOfKey = filterDate.toISOString().split("T")[0];
+        const paidAsOf = await customerPaymentService.invoicePaymentsAsOf(clientId, asOfKey);
+
         // Process A/R balances by customer
         const customerBalances = {};
 
@@ -7202,13 +7614,14 @@ ${firmName}
               customerName: customerName,
               totalInvoiced: 0,
               totalPaid: 0,
+              unappliedCredit: 0,
               balance: 0,
               invoices: [],
             };
           }
 
           const amountDue = parseFloat(invoice.amountDue || "0");
-          const amountPaid = parseFloat(invoice.amountPaid || "0");
+          const amountPaid = paidAsOf.get(invoice.id) ?? parseFloat(invoice.amountPaid || "0");
           const balance = amountDue - amountPaid;
 
           customerBalances[invoice.customerId].totalInvoiced += amountDue;
@@ -7240,9 +7653,28 @@ ${firmName}
           }
         }
 
+        // Unapplied payments and credit notes reduce the customer's balance
+        const unappliedCredits = await customerPaymentService.unappliedCreditsByCustomer(clientId, asOfKey);
+        for (const [customerId, credit] of Array.from(unappliedCredits.entries())) {
+          if (!customerBalances[customerId]) {
+            const customer = await storage.getCustomer(customerId);
+            customerBalances[customerId] = {
+              customerId,
+              customerName: customer ? customer.name : `Customer ${customerId}`,
+              totalInvoiced: 0,
+              totalPaid: 0,
+              unappliedCredit: 0,
+              balance: 0,
+              invoices: [],
+            };
+          }
+          customerBalances[customerId].unappliedCredit = credit;
+          customerBalances[customerId].balance -= credit;
+        }
+
         // Convert to array and sort by balance descending
         const customerArray = Object.values(customerBalances)
-          .filter((customer: any) => customer.balance > 0)
+          .filter((customer: any) => customer.invoices.length > 0 || customer.unappliedCredit > 0)
           .sort((a: any, b: any) => b.balance - a.balance);
 
         // Calculate totals
@@ -7258,6 +7690,10 @@ ${firmName}
           (sum: number, customer: any) => sum + customer.totalPaid,
           0
         );
+        const totalUnappliedCredits = customerArray.reduce(
+          (sum: number, customer: any) => sum + customer.unappliedCredit,
+          0
+        );
 
         // Aging analysis
         const agingBuckets = {
@@ -7296,6 +7732,7 @@ ${firmName}
             totalOutstanding: parseFloat(totalOutstanding.toFixed(2)),
             totalInvoiced: parseFloat(totalInvoiced.toFixed(2)),
             totalPaid: parseFloat(totalPaid.toFixed(2)),
+            totalUnappliedCredits: parseFloat(totalUnappliedCredits.toFixed(2)),
             customerCount: customerArray.length,
           },
           aging: {
@@ -7303,6 +7740,7 @@ ${firmName}
             days31to60: parseFloat(agingBuckets.days31to60.toFixed(2)),
             days61to90: parseFloat(agingBuckets.days61to90.toFixed(2)),
             over90: parseFloat(agingBuckets.over90.toFixed(2)),
+            unappliedCredits: parseFloat((-totalUnappliedCredits).toFixed(2)),
           },
         });
       } catch (error) {
@@ -7488,6 +7926,16 @@ ${firmName}
           fiscalYearEnd
         );
 
+        // A closed year is locked so filed balances cannot change afterwards
+        if (result?.success !== false) {
+          const periodLock = await periodLockService.closeThrough(
+            clientId,
+            fiscalYearEnd,
+            req.user
+          );
+          return res.json({ ...result, periodLock });
+        }
+
         res.json(result);
       } catch (error) {
         console.error("Year-end closing error:", error);
@@ -7500,339 +7948,371 @@ ${firmName}
     }
   );
 
-  // Balance Sheet Report - Built from Transactions (OPTIMIZED)
-  apiRouter.get(
-    "/reports/balance-sheet/:clientId",
-    async (req: Request, res: Response) => {
-      try {
-        const clientId = parseInt(req.params.clientId);
-        
-        // Validate clientId
-        if (!clientId || isNaN(clientId) || clientId <= 0) {
-          return res.status(400).json({ error: "Valid client ID is required" });
-        }
-        
-        console.log(`📊 Balance Sheet API called for client ${clientId}`);
-        
-        const { date, startDate } = req.query;
+  // Helper function to generate the Balance Sheet report as of a date (startDate
+  // defaults to the start of the fiscal year containing endDate)
+  async function generateBalanceSheet(clientId: number, endDate: string, startDate?: string) {
+    // Always fetch fiscal year settings for the client (needed for response)
+    // Note: getClientBookkeepingSettings returns a single object, not an array
+    const bookkeepingSettings = await storage.getClientBookkeepingSettings(clientId);
+    const fiscalYearEndMonth = bookkeepingSettings?.fiscalYearEndMonth || 12;
+    const fiscalYearEndDay = bookkeepingSettings?.fiscalYearEndDay || 31;
+
+    // Use startDate if provided, otherwise calculate from fiscal year settings
+    let periodStartDate = startDate;
+    
+    if (!periodStartDate) {
+      
+      // Calculate fiscal year start based on the endDate
+      const endDateObj = new Date(endDate);
+      const endYear = endDateObj.getFullYear();
+      const endMonth = endDateObj.getMonth() + 1;
+      const endDay = endDateObj.getDate();
+      
+      // Determine which fiscal year we're in
+      let fiscalYearEnd: Date;
+      if (endMonth > fiscalYearEndMonth || 
+          (endMonth === fiscalYearEndMonth && endDay > fiscalYearEndDay)) {
+        // We're past the fiscal year end for this calendar year
+        fiscalYearEnd = new Date(endYear, fiscalYearEndMonth - 1, fiscalYearEndDay);
+      } else {
+        // We're before the fiscal year end, so fiscal year started last calendar year
+        fiscalYearEnd = new Date(endYear - 1, fiscalYearEndMonth - 1, fiscalYearEndDay);
+      }
+      
+      // Fiscal year start is one day after the previous fiscal year end
+      const fiscalYearStart = new Date(fiscalYearEnd);
+      fiscalYearStart.setDate(fiscalYearStart.getDate() + 1);
+      
+      periodStartDate = `${fiscalYearStart.getFullYear()}-${String(fiscalYearStart.getMonth() + 1).padStart(2, '0')}-${String(fiscalYearStart.getDate()).padStart(2, '0')}`;
+    }
 
-        const endDate = date
-          ? new Date(date as string).toISOString().split("T")[0]
-          : new Date().toISOString().split("T")[0];
+    console.log(
+      `📊 Generating Balance Sheet for client ${clientId} as of ${endDate} (from ${periodStartDate})`
+    );
 
-        // Always fetch fiscal year settings for the client (needed for response)
-        // Note: getClientBookkeepingSettings returns a single object, not an array
-        const bookkeepingSettings = await storage.getClientBookkeepingSettings(clientId);
-        const fiscalYearEndMonth = bookkeepingSettings?.fiscalYearEndMonth || 12;
-        const fiscalYearEndDay = bookkeepingSettings?.fiscalYearEndDay || 31;
+    // Use the updated TrialBalanceService with virtual year-end close
+    const { trialBalanceService } = await import("./trial-balance-service");
+    const trialBalanceEntries =
+      await trialBalanceService.generateTrialBalance(clientId, endDate, periodStartDate);
+
+    // Convert trial balance entries to expected format for balance sheet grouping
+    const accountBalances = {};
+    trialBalanceEntries.forEach((entry) => {
+      accountBalances[entry.accountId] = {
+        debit: entry.debitBalance,
+        credit: entry.creditBalance,
+        netBalance: entry.netBalance,
+      };
+    });
 
-        // Use startDate from query if provided, otherwise calculate from fiscal year settings
-        let periodStartDate = startDate as string | undefined;
-        
-        if (!periodStartDate) {
-          
-          // Calculate fiscal year start based on the endDate
-          const endDateObj = new Date(endDate);
-          const endYear = endDateObj.getFullYear();
-          const endMonth = endDateObj.getMonth() + 1;
-          const endDay = endDateObj.getDate();
-          
-          // Determine which fiscal year we're in
-          let fiscalYearEnd: Date;
-          if (endMonth > fiscalYearEndMonth || 
-              (endMonth === fiscalYearEndMonth && endDay > fiscalYearEndDay)) {
-            // We're past the fiscal year end for this calendar year
-            fiscalYearEnd = new Date(endYear, fiscalYearEndMonth - 1, fiscalYearEndDay);
-          } else {
-            // We're before the fiscal year end, so fiscal year started last calendar year
-            fiscalYearEnd = new Date(endYear - 1, fiscalYearEndMonth - 1, fiscalYearEndDay);
-          }
-          
-          // Fiscal year start is one day after the previous fiscal year end
-          const fiscalYearStart = new Date(fiscalYearEnd);
-          fiscalYearStart.setDate(fiscalYearStart.getDate() + 1);
-          
-          periodStartDate = `${fiscalYearStart.getFullYear()}-${String(fiscalYearStart.getMonth() + 1).padStart(2, '0')}-${String(fiscalYearStart.getDate()).padStart(2, '0')}`;
-        }
+    // Group balance sheet accounts with proper subtotals
+    const assets = {
+      currentAssets: { accounts: [], total: 0 },
+      fixedAssets: { accounts: [], total: 0 },
+      otherAssets: { accounts: [], total: 0 },
+      total: 0,
+    };
 
-        console.log(
-          `📊 Generating Balance Sheet for client ${clientId} as of ${endDate} (from ${periodStartDate})`
-        );
+    const liabilities = {
+      currentLiabilities: { accounts: [], total: 0 },
+      longTermLiabilities: { accounts: [], total: 0 },
+      total: 0,
+    };
 
-        // Use the updated TrialBalanceService with virtual year-end close
-        const { trialBalanceService } = await import("./trial-balance-service");
-        const trialBalanceEntries =
-          await trialBalanceService.generateTrialBalance(clientId, endDate, periodStartDate);
-
-        // Convert trial balance entries to expected format for balance sheet grouping
-        const accountBalances = {};
-        trialBalanceEntries.forEach((entry) => {
-          accountBalances[entry.accountId] = {
-            debit: entry.debitBalance,
-            credit: entry.creditBalance,
-            netBalance: entry.netBalance,
-          };
-        });
+    const equity: {
+      accounts: { id: number | string; name: string; accountNumber: string | null; balance: number }[];
+      total: number;
+    } = {
+      accounts: [],
+      total: 0,
+    };
 
-        // Group balance sheet accounts with proper subtotals
-        const assets = {
-          currentAssets: { accounts: [], total: 0 },
-          fixedAssets: { accounts: [], total: 0 },
-          otherAssets: { accounts: [], total: 0 },
-          total: 0,
-        };
+    // NOTE: Income and expense accounts are NOT included in Balance Sheet
+    // They are shown on the Profit & Loss report. Only Net Income appears in equity section.
+
+    // Process trial balance entries directly (already filtered by TrialBalanceService)
+    trialBalanceEntries.forEach((entry) => {
+      // Use the net balance directly from TrialBalanceService (includes virtual year-end close)
+      const balance = entry.netBalance;
 
-        const liabilities = {
-          currentLiabilities: { accounts: [], total: 0 },
-          longTermLiabilities: { accounts: [], total: 0 },
-          total: 0,
+      if (entry.accountType === "asset" && balance !== 0) {
+        const assetInfo = {
+          id: entry.accountId,
+          name: entry.accountName,
+          accountNumber: entry.accountNumber,
+          balance: balance,
         };
 
-        const equity: {
-          accounts: { id: number | string; name: string; accountNumber: string | null; balance: number }[];
-          total: number;
-        } = {
-          accounts: [],
-          total: 0,
+        // Group assets by type - default to current assets for bank/cash
+        if (
+          entry.subtype === "bank" ||
+          entry.subtype === "cash" ||
+          entry.accountName.toLowerCase().includes("cash") ||
+          entry.accountName.toLowerCase().includes("receivable") ||
+          entry.accountName.toLowerCase().includes("inventory") ||
+          entry.accountName.toLowerCase().includes("petty")
+        ) {
+          assets.currentAssets.accounts.push(assetInfo);
+          assets.currentAssets.total += balance;
+        } else if (
+          entry.accountName.toLowerCase().includes("equipment") ||
+          entry.accountName.toLowerCase().includes("building") ||
+          entry.accountName.toLowerCase().includes("vehicle") ||
+          entry.accountName.toLowerCase().includes("office") ||
+          entry.accountName.toLowerCase().includes("computer") ||
+          entry.accountName.toLowerCase().includes("furniture")
+        ) {
+          assets.fixedAssets.accounts.push(assetInfo);
+          assets.fixedAssets.total += balance;
+        } else {
+          // Default all other assets to current assets
+          assets.currentAssets.accounts.push(assetInfo);
+          assets.currentAssets.total += balance;
+        }
+        assets.total += balance;
+      } else if (entry.accountType === "liability" && balance !== 0) {
+        const liabilityInfo = {
+          id: entry.accountId,
+          name: entry.accountName,
+          accountNumber: entry.accountNumber,
+          balance: balance,
         };
 
-        // NOTE: Income and expense accounts are NOT included in Balance Sheet
-        // They are shown on the Profit & Loss report. Only Net Income appears in equity section.
+        // Group liabilities by subtype
+        if (
+          entry.subtype === "current_liability" ||
+          entry.subtype === "payable"
+        ) {
+          liabilities.currentLiabilities.accounts.push(liabilityInfo);
+          liabilities.currentLiabilities.total += balance;
+        } else if (entry.subtype === "long_term_liability") {
+          liabilities.longTermLiabilities.accounts.push(liabilityInfo);
+          liabilities.longTermLiabilities.total += balance;
+        } else {
+          // Default to current liabilities
+          liabilities.currentLiabilities.accounts.push(liabilityInfo);
+          liabilities.currentLiabilities.total += balance;
+        }
+        liabilities.total += balance;
+      } else if (entry.accountType === "equity" && balance !== 0) {
+        // Skip retained earnings here - it will be added explicitly below to ensure proper placement
+        const isRetainedEarnings =
+          entry.accountNumber === "283-000" ||
+          entry.accountName.toLowerCase().includes("retained earnings") ||
+          entry.accountName.toLowerCase().includes("retained earning");
+
+        if (!isRetainedEarnings) {
+          equity.accounts.push({
+            id: entry.accountId,
+            name: entry.accountName,
+            accountNumber: entry.accountNumber,
+            balance: balance,
+          });
+          equity.total += balance;
+        }
+        // console.log(`🏛️ Added ${account.name} to equity: $${balance}`);
+      }
+      // NOTE: Income and expense accounts (income, expense, cost_of_sales, other_income, other_expense)
+      // are intentionally excluded from Balance Sheet - they appear on Profit & Loss report
 
-        // Process trial balance entries directly (already filtered by TrialBalanceService)
-        trialBalanceEntries.forEach((entry) => {
-          // Use the net balance directly from TrialBalanceService (includes virtual year-end close)
-          const balance = entry.netBalance;
+      // Debug output for each account (commented out for performance)
+      // if (balance !== 0) {
+      //   console.log(`🔍 Account: ${account.name} (${account.type})`);
+      //   console.log(`   Debit: $${balances.debit.toFixed(2)}, Credit: $${balances.credit.toFixed(2)}`);
+      //   console.log(`   Normal: ${account.isDebitNormal ? 'Debit' : 'Credit'}, Balance: $${balance.toFixed(2)}`);
+      // }
+    });
 
-          if (entry.accountType === "asset" && balance !== 0) {
-            const assetInfo = {
-              id: entry.accountId,
-              name: entry.accountName,
-              accountNumber: entry.accountNumber,
-              balance: balance,
-            };
+    // Calculate Net Income from P&L accounts using TrialBalanceService data
+    let netIncome = 0;
 
-            // Group assets by type - default to current assets for bank/cash
-            if (
-              entry.subtype === "bank" ||
-              entry.subtype === "cash" ||
-              entry.accountName.toLowerCase().includes("cash") ||
-              entry.accountName.toLowerCase().includes("receivable") ||
-              entry.accountName.toLowerCase().includes("inventory") ||
-              entry.accountName.toLowerCase().includes("petty")
-            ) {
-              assets.currentAssets.accounts.push(assetInfo);
-              assets.currentAssets.total += balance;
-            } else if (
-              entry.accountName.toLowerCase().includes("equipment") ||
-              entry.accountName.toLowerCase().includes("building") ||
-              entry.accountName.toLowerCase().includes("vehicle") ||
-              entry.accountName.toLowerCase().includes("office") ||
-              entry.accountName.toLowerCase().includes("computer") ||
-              entry.accountName.toLowerCase().includes("furniture")
-            ) {
-              assets.fixedAssets.accounts.push(assetInfo);
-              assets.fixedAssets.total += balance;
-            } else {
-              // Default all other assets to current assets
-              assets.currentAssets.accounts.push(assetInfo);
-              assets.currentAssets.total += balance;
-            }
-            assets.total += balance;
-          } else if (entry.accountType === "liability" && balance !== 0) {
-            const liabilityInfo = {
-              id: entry.accountId,
-              name: entry.accountName,
-              accountNumber: entry.accountNumber,
-              balance: balance,
-            };
+    trialBalanceEntries.forEach((entry) => {
+      if (entry.accountType === "income") {
+        netIncome += entry.netBalance;
+      } else if (
+        entry.accountType === "expense" ||
+        entry.accountType === "cost_of_sales"
+      ) {
+        netIncome -= entry.netBalance;
+      }
+    });
 
-            // Group liabilities by subtype
-            if (
-              entry.subtype === "current_liability" ||
-              entry.subtype === "payable"
-            ) {
-              liabilities.currentLiabilities.accounts.push(liabilityInfo);
-              liabilities.currentLiabilities.total += balance;
-            } else if (entry.subtype === "long_term_liability") {
-              liabilities.longTermLiabilities.accounts.push(liabilityInfo);
-              liabilities.longTermLiabilities.total += balance;
-            } else {
-              // Default to current liabilities
-              liabilities.currentLiabilities.accounts.push(liabilityInfo);
-              liabilities.currentLiabilities.total += balance;
-            }
-            liabilities.total += balance;
-          } else if (entry.accountType === "equity" && balance !== 0) {
-            // Skip retained earnings here - it will be added explicitly below to ensure proper placement
-            const isRetainedEarnings =
-              entry.accountNumber === "283-000" ||
-              entry.accountName.toLowerCase().includes("retained earnings") ||
-              entry.accountName.toLowerCase().includes("retained earning");
-
-            if (!isRetainedEarnings) {
-              equity.accounts.push({
-                id: entry.accountId,
-                name: entry.accountName,
-                accountNumber: entry.accountNumber,
-                balance: balance,
-              });
-              equity.total += balance;
-            }
-            // console.log(`🏛️ Added ${account.name} to equity: $${balance}`);
-          }
-          // NOTE: Income and expense accounts (income, expense, cost_of_sales, other_income, other_expense)
-          // are intentionally excluded from Balance Sheet - they appear on Profit & Loss report
-
-          // Debug output for each account (commented out for performance)
-          // if (balance !== 0) {
-          //   console.log(`🔍 Account: ${account.name} (${account.type})`);
-          //   console.log(`   Debit: $${balances.debit.toFixed(2)}, Credit: $${balances.credit.toFixed(2)}`);
-          //   console.log(`   Normal: ${account.isDebitNormal ? 'Debit' : 'Credit'}, Balance: $${balance.toFixed(2)}`);
-          // }
-        });
+    // SIMPLIFIED FISCAL YEAR LOGIC - Using already computed balances
+    // For Balance Sheet, we already have all the balances computed via aggregation
+    // Net income is already calculated above from the account balances
+    console.log(
+      `📅 Fiscal Year: Using aggregated balances as of ${endDate}`
+    );
 
-        // Calculate Net Income from P&L accounts using TrialBalanceService data
-        let netIncome = 0;
+    // ALWAYS show the actual net income for the year being viewed
+    // The trial balance service already handles prior year closes by moving
+    // old net income to retained earnings. So the netIncome here is ALWAYS
+    // for the current fiscal year of the date being viewed.
+    const displayNetIncome = netIncome;
 
-        trialBalanceEntries.forEach((entry) => {
-          if (entry.accountType === "income") {
-            netIncome += entry.netBalance;
-          } else if (
-            entry.accountType === "expense" ||
-            entry.accountType === "cost_of_sales"
-          ) {
-            netIncome -= entry.netBalance;
-          }
-        });
+    console.log(
+      `📊 Net Income for fiscal year ending ${endDate}: $${displayNetIncome.toFixed(
+        2
+      )}`
+    );
 
-        // SIMPLIFIED FISCAL YEAR LOGIC - Using already computed balances
-        const asOfDate = date ? new Date(date as string) : new Date();
+    // Simplified retained earnings calculation
+    // CRITICAL: Sum ALL retained earnings accounts (there may be multiple from imports)
+    let totalRetainedEarnings = 0;
+
+    // Find ALL retained earnings accounts from trial balance entries
+    const retainedEarningsEntries = trialBalanceEntries.filter(
+      (entry) =>
+        entry.accountType === "equity" &&
+        (entry.accountNumber === "283-000" ||
+          entry.accountNumber === "320-000" ||
+          entry.accountNumber?.startsWith("32") ||
+          entry.accountName.toLowerCase().includes("retained earnings") ||
+          entry.accountName.toLowerCase().includes("retained earning") ||
+          entry.accountName.toLowerCase().includes("accumulated earnings") ||
+          entry.accountName.toLowerCase().includes("accumulated deficit"))
+    );
 
-        // For Balance Sheet, we already have all the balances computed via aggregation
-        // Net income is already calculated above from the account balances
-        console.log(
-          `📅 Fiscal Year: Using aggregated balances as of ${endDate}`
-        );
+    // Sum all RE accounts into a single display line
+    if (retainedEarningsEntries.length > 0) {
+      for (const reEntry of retainedEarningsEntries) {
+        totalRetainedEarnings += reEntry.netBalance;
+      }
+      // Display as a single combined retained earnings line
+      equity.accounts.push({
+        id: retainedEarningsEntries[0].accountId,
+        name: "Retained Earnings",
+        accountNumber: retainedEarningsEntries[0].accountNumber,
+        balance: totalRetainedEarnings,
+      });
+      console.log(`📋 Combined ${retainedEarningsEntries.length} RE accounts: total=$${totalRetainedEarnings.toFixed(2)}`);
+    } else {
+      // Create placeholder if no retained earnings account exists
+      equity.accounts.push({
+        id: "retained-earnings-placeholder",
+        name: "RETAINED EARNINGS",
+        accountNumber: "283-000",
+        balance: totalRetainedEarnings,
+      });
+    }
+    equity.total += totalRetainedEarnings;
+    // console.log(`📋 Added $${totalRetainedEarnings.toFixed(2)} to retained earnings from prior years`);
 
-        // ALWAYS show the actual net income for the year being viewed
-        // The trial balance service already handles prior year closes by moving
-        // old net income to retained earnings. So the netIncome here is ALWAYS
-        // for the current fiscal year of the date being viewed.
-        const displayNetIncome = netIncome;
+    // Always show current period net income (even if $0)
+    equity.accounts.push({
+      id: "net-income",
+      name: "Net Income (Current Period)",
+      accountNumber: "",
+      balance: parseFloat(displayNetIncome.toFixed(2)),
+    });
+    equity.total += displayNetIncome;
 
-        console.log(
-          `📊 Net Income for fiscal year ending ${endDate}: $${displayNetIncome.toFixed(
-            2
-          )}`
-        );
+    // Round totals
+    assets.total = parseFloat(assets.total.toFixed(2));
+    assets.currentAssets.total = parseFloat(
+      assets.currentAssets.total.toFixed(2)
+    );
+    assets.fixedAssets.total = parseFloat(
+      assets.fixedAssets.total.toFixed(2)
+    );
+    assets.otherAssets.total = parseFloat(
+      assets.otherAssets.total.toFixed(2)
+    );
 
-        // Simplified retained earnings calculation
-        // CRITICAL: Sum ALL retained earnings accounts (there may be multiple from imports)
-        let totalRetainedEarnings = 0;
+    liabilities.total = parseFloat(liabilities.total.toFixed(2));
+    liabilities.currentLiabilities.total = parseFloat(
+      liabilities.currentLiabilities.total.toFixed(2)
+    );
+    liabilities.longTermLiabilities.total = parseFloat(
+      liabilities.longTermLiabilities.total.toFixed(2)
+    );
 
-        // Find ALL retained earnings accounts from trial balance entries
-        const retainedEarningsEntries = trialBalanceEntries.filter(
-          (entry) =>
-            entry.accountType === "equity" &&
-            (entry.accountNumber === "283-000" ||
-              entry.accountNumber === "320-000" ||
-              entry.accountNumber?.startsWith("32") ||
-              entry.accountName.toLowerCase().includes("retained earnings") ||
-              entry.accountName.toLowerCase().includes("retained earning") ||
-              entry.accountName.toLowerCase().includes("accumulated earnings") ||
-              entry.accountName.toLowerCase().includes("accumulated deficit"))
-        );
+    equity.total = parseFloat(equity.total.toFixed(2));
 
-        // Sum all RE accounts into a single display line
-        if (retainedEarningsEntries.length > 0) {
-          for (const reEntry of retainedEarningsEntries) {
-            totalRetainedEarnings += reEntry.netBalance;
-          }
-          // Display as a single combined retained earnings line
-          equity.accounts.push({
-            id: retainedEarningsEntries[0].accountId,
-            name: "Retained Earnings",
-            accountNumber: retainedEarningsEntries[0].accountNumber,
-            balance: totalRetainedEarnings,
-          });
-          console.log(`📋 Combined ${retainedEarningsEntries.length} RE accounts: total=$${totalRetainedEarnings.toFixed(2)}`);
-        } else {
-          // Create placeholder if no retained earnings account exists
-          equity.accounts.push({
-            id: "retained-earnings-placeholder",
-            name: "RETAINED EARNINGS",
-            accountNumber: "283-000",
-            balance: totalRetainedEarnings,
-          });
-        }
-        equity.total += totalRetainedEarnings;
-        // console.log(`📋 Added $${totalRetainedEarnings.toFixed(2)} to retained earnings from prior years`);
+    const totalLiabilitiesAndEquity = liabilities.total + equity.total;
+    const difference = assets.total - totalLiabilitiesAndEquity;
+    const isBalanced = Math.abs(difference) < 0.02;
 
-        // Always show current period net income (even if $0)
-        equity.accounts.push({
-          id: "net-income",
-          name: "Net Income (Current Period)",
-          accountNumber: "",
-          balance: parseFloat(displayNetIncome.toFixed(2)),
-        });
-        equity.total += displayNetIncome;
+    // console.log(`📊 Balance Sheet Summary:`);
+    // console.log(`   Assets: $${assets.total} (Current: $${assets.currentAssets.total}, Fixed: $${assets.fixedAssets.total})`);
+    // console.log(`   Liabilities: $${liabilities.total} (Current: $${liabilities.currentLiabilities.total}, Long-term: $${liabilities.longTermLiabilities.total})`);
+    // console.log(`   Equity: $${equity.total} (Net Income: $${netIncome.toFixed(2)})`);
+    // console.log(`   ${isBalanced ? 'BALANCED' : 'UNBALANCED'} - Difference: $${difference.toFixed(2)}`);
 
-        // Round totals
-        assets.total = parseFloat(assets.total.toFixed(2));
-        assets.currentAssets.total = parseFloat(
-          assets.currentAssets.total.toFixed(2)
-        );
-        assets.fixedAssets.total = parseFloat(
-          assets.fixedAssets.total.toFixed(2)
-        );
-        assets.otherAssets.total = parseFloat(
-          assets.otherAssets.total.toFixed(2)
-        );
+    const report = {
+      clientId,
+      asOfDate: new Date(endDate).toISOString(),
+      assets,
+      liabilities,
+      equity,
+      netIncome: parseFloat(netIncome.toFixed(2)),
+      totals: {
+        totalAssets: assets.total,
+        totalLiabilities: liabilities.total,
+        totalEquity: equity.total,
+        totalLiabilitiesAndEquity: parseFloat(
+          totalLiabilitiesAndEquity.toFixed(2)
+        ),
+      },
+      isBalanced,
+      difference: parseFloat(difference.toFixed(2)),
+      fiscalYearEndMonth,
+      fiscalYearEndDay,
+    };
 
-        liabilities.total = parseFloat(liabilities.total.toFixed(2));
-        liabilities.currentLiabilities.total = parseFloat(
-          liabilities.currentLiabilities.total.toFixed(2)
-        );
-        liabilities.longTermLiabilities.total = parseFloat(
-          liabilities.longTermLiabilities.total.toFixed(2)
-        );
+    return report;
+  }
 
-        equity.total = parseFloat(equity.total.toFixed(2));
+  // Balance Sheet Report - Built from Transactions (OPTIMIZED)
+  apiRouter.get(
+    "/reports/balance-sheet/:clientId",
+    async (req: Request, res: Response) => {
+      try {
+        const clientId = parseInt(req.params.clientId);
+        
+        // Validate clientId
+        if (!clientId || isNaN(clientId) || clientId <= 0) {
+          return res.status(400).json({ error: "Valid client ID is required" });
+        }
+        
+        console.log(`📊 Balance Sheet API called for client ${clientId}`);
+        
+        const { date, startDate } = req.query;
+        const reportOptions = parseReportOptions(req.query);
 
-        const totalLiabilitiesAndEquity = liabilities.total + equity.total;
-        const difference = assets.total - totalLiabilitiesAndEquity;
-        const isBalanced = Math.abs(difference) < 0.02;
+        const endDate = date
+          ? new Date(date as string).toISOString().split("T")[0]
+          : new Date().toISOString().split("T")[0];
 
-        // console.log(`📊 Balance Sheet Summary:`);
-        // console.log(`   Assets: $${assets.total} (Current: $${assets.currentAssets.total}, Fixed: $${assets.fixedAssets.total})`);
-        // console.log(`   Liabilities: $${liabilities.total} (Current: $${liabilities.currentLiabilities.total}, Long-term: $${liabilities.longTermLiabilities.total})`);
-        // console.log(`   Equity: $${equity.total} (Net Income: $${netIncome.toFixed(2)})`);
-        // console.log(`   ${isBalanced ? 'BALANCED' : 'UNBALANCED'} - Difference: $${difference.toFixed(2)}`);
+        const report: any = await generateBalanceSheet(clientId, endDate, startDate as string | undefined);
 
-        res.json({
+        // Prior-year and common-size (% of total assets) columns
+        if (reportOptions.compare || reportOptions.commonSize) {
+          const priorReport = reportOptions.compare
+            ? await generateBalanceSheet(
+                clientId,
+                priorYearDate(endDate),
+                startDate ? priorYearDate(new Date(startDate as string).toISOString().split("T")[0]) : undefined
+              )
+            : null;
+          comparativeReportService.applyToBalanceSheet(report, priorReport, reportOptions);
+        }
+
+        // Budget, variance and variance-% columns against the month-end budgeted balances
+        if (req.query.budgetId) {
+          await budgetService.applyToBalanceSheet(report, clientId, parseInt(req.query.budgetId as string), endDate);
+        }
+
+        res.json(await currencyService.presentReport(report, {
           clientId,
-          asOfDate: date
-            ? new Date(date as string).toISOString()
-            : new Date().toISOString(),
-          assets,
-          liabilities,
-          equity,
-          netIncome: parseFloat(netIncome.toFixed(2)),
-          totals: {
-            totalAssets: assets.total,
-            totalLiabilities: liabilities.total,
-            totalEquity: equity.total,
-            totalLiabilitiesAndEquity: parseFloat(
-              totalLiabilitiesAndEquity.toFixed(2)
-            ),
-          },
-          isBalanced,
-          difference: parseFloat(difference.toFixed(2)),
-          fiscalYearEndMonth,
-          fiscalYearEndDay,
-        });
+          firmId: req.user?.firmId,
+          currency: req.query.presentationCurrency as string | undefined,
+          date: endDate,
+        }));
       } catch (error) {
+        if (error instanceof CurrencyError || error instanceof BudgetError || error instanceof ComparativeReportError) {
+          return res.status(error.status).json({ error: error.message, message: error.message });
+        }
         console.error("Balance Sheet generation error:", error);
         res
           .status(500)
@@ -8153,6 +8633,10 @@ ${firmName}
           return new Date(invoice.issueDate) <= filterDate;
         });
 
+        // Paid-to-date and unapplied credit both count only what was applied by the as-of date
+        const asOfKey = filterDate.toISOString().split("T")[0];
+        const paidAsOf = await customerPaymentService.invoicePaymentsAsOf(clientId, asOfKey);
+
         // Process A/R balances by customer
         const customerBalances = {};
 
@@ -8168,13 +8652,14 @@ ${firmName}
               customerName: customerName,
               totalInvoiced: 0,
               totalPaid: 0,
+              unappliedCredit: 0,
               balance: 0,
               invoices: [],
             };
           }
 
           const amountDue = parseFloat(invoice.amountDue || "0");
-          const amountPaid = parseFloat(invoice.amountPaid || "0");
+          const amountPaid = paidAsOf.get(invoice.id) ?? parseFloat(invoice.amountPaid || "0");
           const balance = amountDue - amountPaid;
 
           customerBalances[invoice.customerId].totalInvoiced += amountDue;
@@ -8206,9 +8691,28 @@ ${firmName}
           }
         }
 
+        // Unapplied payments and credit notes reduce the customer's balance
+        const unappliedCredits = await customerPaymentService.unappliedCreditsByCustomer(clientId, asOfKey);
+        for (const [customerId, credit] of Array.from(unappliedCredits.entries())) {
+          if (!customerBalances[customerId]) {
+            const customer = await storage.getCustomer(customerId);
+            customerBalances[customerId] = {
+              customerId,
+              customerName: customer ? customer.name : `Customer ${customerId}`,
+              totalInvoiced: 0,
+              totalPaid: 0,
+              unappliedCredit: 0,
+              balance: 0,
+              invoices: [],
+            };
+          }
+          customerBalances[customerId].unappliedCredit = credit;
+          customerBalances[customerId].balance -= credit;
+        }
+
         // Convert to array and sort by balance descending
         const customerArray = Object.values(customerBalances)
-          .filter((customer: any) => customer.balance > 0)
+          .filter((customer: any) => customer.invoices.length > 0 || customer.unappliedCredit > 0)
           .sort((a: any, b: any) => b.balance - a.balance);
 
         // Calculate totals
@@ -8224,6 +8728,10 @@ ${firmName}
           (sum: number, customer: any) => sum + customer.totalPaid,
           0
         );
+        const totalUnappliedCredits = customerArray.reduce(
+          (sum: number, customer: any) => sum + customer.unappliedCredit,
+          0
+        );
 
         // Aging analysis
         const agingBuckets = {
@@ -8262,6 +8770,7 @@ ${firmName}
             totalOutstanding: parseFloat(totalOutstanding.toFixed(2)),
             totalInvoiced: parseFloat(totalInvoiced.toFixed(2)),
             totalPaid: parseFloat(totalPaid.toFixed(2)),
+            totalUnappliedCredits: parseFloat(totalUnappliedCredits.toFixed(2)),
             customerCount: customerArray.length,
           },
           aging: {
@@ -8269,6 +8778,7 @@ ${firmName}
             days31to60: parseFloat(agingBuckets.days31to60.toFixed(2)),
             days61to90: parseFloat(agingBuckets.days61to90.toFixed(2)),
             over90: parseFloat(agingBuckets.over90.toFixed(2)),
+            unappliedCredits: parseFloat((-totalUnappliedCredits).toFixed(2)),
           },
         });
       } catch (error) {
@@ -8454,6 +8964,16 @@ ${firmName}
           fiscalYearEnd
         );
 
+        // A closed year is locked so filed balances cannot change afterwards
+        if (result?.success !== false) {
+          const periodLock = await periodLockService.closeThrough(
+            clientId,
+            fiscalYearEnd,
+            req.user
+          );
+          return res.json({ ...result, periodLock });
+        }
+
         res.json(result);
       } catch (error) {
         console.error("Year-end closing error:", error);
@@ -8476,7 +8996,9 @@ ${firmName}
     locationId?: string,
     classId?: string,
     fiscalYearStartDate?: string,
-    res?: Response
+    res?: Response,
+    budgetId?: string,
+    reportOptions?: ReportOptions
   ) {
     console.log(
       `📊 Generating columnar P&L: ${periodType} from ${startDate} to ${endDate}, FY Start: ${fiscalYearStartDate || 'not provided'}`
@@ -8935,6 +9457,20 @@ ${firmName}
       } periods + total`
     );
 
+    const dimensionFilter = {
+      projectId: projectId ? parseInt(projectId) : null,
+      locationId: locationId ? parseInt(locationId) : null,
+      classId: classId ? parseInt(classId) : null,
+    };
+
+    if (budgetId) {
+      await budgetService.applyToColumnarProfitLoss(columnarData, clientId, parseInt(budgetId), periods, dimensionFilter);
+    }
+
+    if (reportOptions?.compare || reportOptions?.commonSize) {
+      await comparativeReportService.applyToColumnarProfitLoss(columnarData, clientId, periods, dimensionFilter, reportOptions);
+    }
+
     res.json({
       ...columnarData,
       isColumnar: true,
@@ -8950,7 +9486,7 @@ ${firmName}
       try {
         const clientId = parseInt(req.params.clientId);
         const {
-          startDate,
+          startDate: requestedStartDate,
           endDate,
           closeBooks,
           periodType,
@@ -8964,6 +9500,14 @@ ${firmName}
         // Parse hideZeroBalances - default to true (hide zero balances by default)
         const shouldHideZeroBalances = hideZeroBalances !== "false"; // Only show if explicitly set to 'false'
 
+        // Trailing twelve months replaces the requested start date
+        const reportOptions = parseReportOptions(req.query);
+        const startDate = reportOptions.period === "trailing12"
+          ? trailingTwelveMonthsStart(
+              endDate ? new Date(endDate as string).toISOString().split("T")[0] : new Date().toISOString().split("T")[0]
+            )
+          : (requestedStartDate as string | undefined);
+
         console.log(
           `📊 Generating Journal Entry-Based P&L for client ${clientId} from ${startDate} to ${endDate} (Period Type: ${periodType || "single"
           }, Hide Zero: ${shouldHideZeroBalances})`
@@ -8980,7 +9524,9 @@ ${firmName}
             locationId as string,
             classId as string,
             fiscalYearStartDate as string | undefined,
-            res
+            res,
+            req.query.budgetId as string | undefined,
+            reportOptions
           );
         }
 
@@ -9316,7 +9862,7 @@ ${firmName}
           `   📊 Year to Date (${formattedFiscalYearStartDate} to ${ytdEndDateForLog}): Income $${income.ytdTotal}, Expenses $${expenses.ytdTotal}, Net Income $${ytdNetIncome}`
         );
 
-        res.json({
+        const report = {
           income,
           costOfSales,
           expenses,
@@ -9337,8 +9883,43 @@ ${firmName}
             locationId: locationId ? parseInt(locationId as string) : null,
             classId: classId ? parseInt(classId as string) : null,
           },
-        });
+        };
+
+        // Budget, variance and variance-% columns
+        if (req.query.budgetId) {
+          await budgetService.applyToProfitLoss(
+            report,
+            clientId,
+            parseInt(req.query.budgetId as string),
+            formattedStartDate,
+            formattedEndDate,
+            report.dimensionFilter
+          );
+        }
+
+        // Prior-year and common-size (% of revenue) columns
+        if (reportOptions.compare || reportOptions.commonSize) {
+          await comparativeReportService.applyToProfitLoss(
+            report,
+            clientId,
+            formattedStartDate,
+            formattedEndDate,
+            report.dimensionFilter,
+            reportOptions
+          );
+        }
+
+        // P&L amounts are translated at the period-end rate
+        res.json(await currencyService.presentReport(report, {
+          clientId,
+          firmId: req.user?.firmId,
+          currency: req.query.presentationCurrency as string | undefined,
+          date: formattedEndDate,
+        }));
       } catch (error) {
+        if (error instanceof CurrencyError || error instanceof BudgetError || error instanceof ComparativeReportError) {
+          return res.status(error.status).json({ error: error.message, message: error.message });
+        }
         console.error("Profit & Loss generation error:", error);
         res
           .status(500)
@@ -9362,6 +9943,16 @@ ${firmName}
       const formattedStartDate = startDate ? new Date(startDate as string).toISOString().split('T')[0] : new Date(new Date().getFullYear(), 0, 1).toISOString().split('T')[0];
       const formattedEndDate = endDate ? new Date(endDate as string).toISOString().split('T')[0] : new Date().toISOString().split('T')[0];
 
+      // Indirect method: built from balance sheet movements and checked against the cash accounts
+      if (method !== 'direct') {
+        const statement = await cashFlowService.generateIndirect(clientId, formattedStartDate, formattedEndDate);
+        const client = await storage.getClient(clientId);
+
+        console.log(`💰 Cash Flow Summary: Operating $${statement.operatingActivities.total}, Investing $${statement.investingActivities.total}, Financing $${statement.financingActivities.total}, Net Change $${statement.netCashChange} (difference to cash $${statement.reconciliation.difference})`);
+
+        return res.json({ ...statement, clientName: client?.name || 'Client' });
+      }
+
       // Get journal entries for the period - PERFORMANCE FIX
       const journalEntries = await storage.getJournalEntries(clientId, 1000000, 0, formattedStartDate, formattedEndDate);
 
@@ -9383,101 +9974,42 @@ ${firmName}
         accountTotals[accountId].credit += parseFloat(line.creditAmount || '0');
       });
 
-      // Get Net Income from P&L (we'll use this for indirect method)
-      let netIncome = 0;
-      accounts.forEach(account => {
-        const totals = accountTotals[account.id] || { debit: 0, credit: 0 };
-        if (account.type === 'income' || account.type === 'other_income') {
-          netIncome += (totals.credit - totals.debit);
-        } else if (account.type === 'expense' || account.type === 'cost_of_sales' || account.type === 'other_expense') {
-          netIncome -= (totals.debit - totals.credit);
-        }
-      });
-
       // Calculate cash flow components
       const operatingActivities = { activities: [], total: 0 };
       const investingActivities = { activities: [], total: 0 };
       const financingActivities = { activities: [], total: 0 };
 
-      if (method === 'direct') {
-        // DIRECT METHOD - Show actual cash receipts and payments
-
-        // Operating Activities (Direct Method)
-        operatingActivities.activities = [
-          { description: 'Cash received from customers', amount: 0 },
-          { description: 'Cash paid to suppliers', amount: 0 },
-          { description: 'Cash paid for operating expenses', amount: 0 },
-          { description: 'Cash paid for interest', amount: 0 },
-          { description: 'Cash paid for taxes', amount: 0 }
-        ];
-
-        // For direct method, we'd need to analyze actual cash account movements
-        // This is a simplified version - in reality, you'd analyze cash account transactions
-        accounts.forEach(account => {
-          const totals = accountTotals[account.id] || { debit: 0, credit: 0 };
-          const amount = totals.debit - totals.credit;
-
-          if (account.type === 'asset' && (account.name?.toLowerCase().includes('cash') || account.name?.toLowerCase().includes('checking'))) {
-            // This is a simplified approach - analyze cash movements by transaction descriptions
-            // In a real implementation, you'd categorize based on transaction details
-            if (amount > 0) {
-              operatingActivities.activities[0].amount += amount; // Cash received
-            } else {
-              operatingActivities.activities[1].amount += Math.abs(amount); // Cash paid
-            }
-          }
-        });
-
-        operatingActivities.total = operatingActivities.activities.reduce((sum, activity) => {
-          return sum + (activity.description.includes('received') ? activity.amount : -activity.amount);
-        }, 0);
-
-      } else {
-        // INDIRECT METHOD - Start with net income and adjust for non-cash items
-
-        operatingActivities.activities = [
-          { description: 'Net Income', amount: netIncome },
-          { description: 'Adjustments to reconcile net income:', amount: 0 },
-          { description: '  Depreciation and amortization', amount: 0 },
-          { description: '  Changes in operating assets and liabilities:', amount: 0 },
-          { description: '    Accounts receivable', amount: 0 },
-          { description: '    Inventory', amount: 0 },
-          { description: '    Prepaid expenses', amount: 0 },
-          { description: '    Accounts payable', amount: 0 },
-          { description: '    Accrued liabilities', amount: 0 }
-        ];
-
-        // Calculate changes in working capital (simplified)
-        accounts.forEach(account => {
-          const totals = accountTotals[account.id] || { debit: 0, credit: 0 };
-          let amount = 0;
+      // DIRECT METHOD - Operating activities as cash receipts and payments
+      operatingActivities.activities = [
+        { description: 'Cash received from customers', amount: 0 },
+        { description: 'Cash paid to suppliers', amount: 0 },
+        { description: 'Cash paid for operating expenses', amount: 0 },
+        { description: 'Cash paid for interest', amount: 0 },
+        { description: 'Cash paid for taxes', amount: 0 }
+      ];
 
-          if (account.type === 'asset') {
-            amount = totals.debit - totals.credit;
-          } else if (account.type === 'liability') {
-            amount = totals.credit - totals.debit;
-          }
+      // For direct method, we'd need to analyze actual cash account movements
+      // This is a simplified version - in reality, you'd analyze cash account transactions
+      accounts.forEach(account => {
+        const totals = accountTotals[account.id] || { debit: 0, credit: 0 };
+        const amount = totals.debit - totals.credit;
 
-          // Categorize based on account type and name
-          if (account.name?.toLowerCase().includes('depreciation')) {
-            operatingActivities.activities[2].amount += Math.abs(amount);
-          } else if (account.name?.toLowerCase().includes('receivable')) {
-            operatingActivities.activities[4].amount -= amount; // Increase in A/R reduces cash
-          } else if (account.name?.toLowerCase().includes('inventory')) {
-            operatingActivities.activities[5].amount -= amount;
-          } else if (account.name?.toLowerCase().includes('prepaid')) {
-            operatingActivities.activities[6].amount -= amount;
-          } else if (account.name?.toLowerCase().includes('payable')) {
-            operatingActivities.activities[7].amount += amount; // Increase in A/P increases cash
-          } else if (account.name?.toLowerCase().includes('accrued')) {
-            operatingActivities.activities[8].amount += amount;
+        if (account.type === 'asset' && (account.name?.toLowerCase().includes('cash') || account.name?.toLowerCase().includes('checking'))) {
+          // This is a simplified approach - analyze cash movements by transaction descriptions
+          // In a real implementation, you'd categorize based on transaction details
+          if (amount > 0) {
+            operatingActivities.activities[0].amount += amount; // Cash received
+          } else {
+            operatingActivities.activities[1].amount += Math.abs(amount); // Cash paid
           }
-        });
+        }
+      });
 
-        operatingActivities.total = operatingActivities.activities.reduce((sum, activity) => sum + activity.amount, 0);
-      }
+      operatingActivities.total = operatingActivities.activities.reduce((sum, activity) => {
+        return sum + (activity.description.includes('received') ? activity.amount : -activity.amount);
+      }, 0);
 
-      // INVESTING ACTIVITIES (same for both methods)
+      // INVESTING ACTIVITIES
       investingActivities.activities = [
         { description: 'Purchase of property, plant, and equipment', amount: 0 },
         { description: 'Sale of property, plant, and equipment', amount: 0 },
@@ -9507,7 +10039,7 @@ ${firmName}
 
       investingActivities.total = investingActivities.activities.reduce((sum, activity) => sum + activity.amount, 0);
 
-      // FINANCING ACTIVITIES (same for both methods)
+      // FINANCING ACTIVITIES
       financingActivities.activities = [
         { description: 'Proceeds from long-term debt', amount: 0 },
         { description: 'Repayment of long-term debt', amount: 0 },
@@ -9890,6 +10422,77 @@ ${firmName}
   // Mount Notification routes (Phase 6)
   app.use(notificationApiRoutes);
 
+  // Payments on foreign-currency invoices and bills post the realized FX gain
+  // or loss once the CRM routes have recorded the payment, before the
+  // response is sent so a failure reaches the caller
+  const settleCrmPayment = (documentType: "invoice" | "bill") =>
+    async (req: Request, res: Response, next: NextFunction) => {
+      try {
+        const documentId = parseInt(req.params.id);
+        const document = await currencyService.getDocumentCurrency(documentType, documentId);
+        if (!document) return next();
+
+        const amount = parseFloat(req.body?.amount);
+        const settlementDate = toDateKey(req.body?.paymentDate) || toDateKey(new Date())!;
+        await currencyService.assertCanSettle(document.clientId, documentType, [documentId]);
+        await periodLockService.assertPeriodOpen(document.clientId, [settlementDate], req.user);
+
+        const send = res.json.bind(res);
+        res.json = ((body: any) => {
+          if (res.statusCode < 200 || res.statusCode >= 300) return send(body);
+
+          const payment = body?.data?.payment ?? body?.payment ?? body?.data;
+          const journalEntryId = parseInt(payment?.journalEntryId);
+          const settle = Number.isNaN(journalEntryId)
+            ? Promise.reject(new Error("the payment has no journal entry to settle against"))
+            : currencyService.settleDocuments({
+                clientId: document.clientId,
+                documentType,
+                settlements: [{ documentId, amount }],
+                settlementDate,
+                settlementRef: crmPaymentSettlementRef(documentType, journalEntryId),
+                user: req.user,
+              });
+          settle
+            .then(() => send(body))
+            .catch((error) => {
+              console.error(`Failed to post realized FX on ${documentType} ${documentId}:`, error);
+              const status = error instanceof CurrencyError || error instanceof PeriodLockedError ? error.status : 500;
+              res.status(status);
+              send({
+                success: false,
+                message: `The payment was recorded but its realized FX gain/loss could not be posted: ${error.message}`,
+              });
+            });
+          return res;
+        }) as Response["json"];
+        next();
+      } catch (error) {
+        if (error instanceof CurrencyError) {
+          return res.status(error.status).json({ success: false, message: error.message });
+        }
+        if (error instanceof PeriodLockedError) {
+          return res.status(error.status).json(error.toResponse());
+        }
+        next(error);
+      }
+    };
+
+  app.post("/api/crm/invoice/:id/payment", requireAuthHybrid, settleCrmPayment("invoice"));
+
+  // Bills awaiting approval cannot be paid; checked before the bill routes record the payment
+  app.post("/api/crm/bill/:id/payment", requireAuthHybrid, async (req: Request, res: Response, next: NextFunction) => {
+    try {
+      await billApprovalService.assertPayable([parseInt(req.params.id)]);
+      next();
+    } catch (error) {
+      if (error instanceof BillApprovalError) {
+        return res.status(error.status).json({ success: false, message: error.message });
+      }
+      next(error);
+    }
+  }, settleCrmPayment("bill"));
+
   // Mount CRM routes
   app.use("/api/crm", crmRoutes);
 
@@ -10162,7 +10765,25 @@ ${firmName}
       }
 
       const chequeData = parseResult.data;
+
+      // Cheques may only pay approved bills
+      const billIdsToPay: number[] = Array.isArray(req.body.appliedBillIds)
+        ? req.body.appliedBillIds.map((id: any) => parseInt(id))
+        : req.body.appliedToBillId
+          ? [parseInt(req.body.appliedToBillId)]
+          : [];
+      try {
+        await billApprovalService.assertPayable(billIdsToPay);
+        await currencyService.assertCanSettle(chequeData.clientId, "bill", billIdsToPay);
+      } catch (error) {
+        if (error instanceof BillApprovalError || error instanceof CurrencyError) {
+          return res.status(error.status).json({ success: false, message: error.message });
+        }
+        throw error;
+      }
+
       const newCheque = await storage.createCheque(chequeData);
+      const billSettlements: Array<{ documentId: number; amount: number }> = [];
 
       // Create cheque lines if provided
       if (req.body.lines && Array.isArray(req.body.lines)) {
@@ -10256,6 +10877,7 @@ ${firmName}
               undefined,
               chequeData.bankAccountId
             );
+            billSettlements.push({ documentId: bill.id, amount: proportionalAmount });
             console.log(`✅ V2 API: Recorded payment of $${proportionalAmount.toFixed(2)} for bill ${bill.id}`);
           }
         }
@@ -10277,6 +10899,7 @@ ${firmName}
           undefined,
           chequeData.bankAccountId
         );
+        billSettlements.push({ documentId: parseInt(appliedToBillId), amount: appliedAmount });
         console.log(`✅ V2 API: Recorded payment of $${appliedAmount.toFixed(2)} for bill ${appliedToBillId}`);
 
         // Update cheque status to "paid" since bill is being paid
@@ -10287,6 +10910,16 @@ ${firmName}
         }
       }
 
+      // Realized FX on any foreign-currency bills the cheque paid
+      await currencyService.settleDocuments({
+        clientId: newCheque.clientId,
+        documentType: "bill",
+        settlements: billSettlements,
+        settlementDate: toDateKey(chequeData.chequeDate)!,
+        settlementRef: `cheque:${newCheque.id}`,
+        user: req.user,
+      });
+
       console.log(
         `✅ V2 API: Created cheque #${newCheque.chequeNumber} with ID ${newCheque.id}`
       );
@@ -10679,6 +11312,12 @@ ${firmName}
     try {
       const id = parseInt(req.params.id);
       const result = await storage.voidChequeWithAccounting(id);
+      await currencyService.reverseSettlement(
+        result.cheque.clientId,
+        `cheque:${id}`,
+        toDateKey(result.cheque.chequeDate)!,
+        req.user
+      );
 
       console.log(`✅ V2 API: Voided cheque ${id} with accounting reversal`);
       console.log(`   Reversal Entry: ${result.reversalEntry.description}`);
@@ -11585,7 +12224,31 @@ ${firmName}
   );
 
   // Mount additional route modules FIRST before catch-all
+  app.use("/api/rules", requireAuthHybrid, bankRuleRoutes);
   app.use("/api/rules", rulesRoutes);
+  app.use("/api/period-locks", requireAuthHybrid, periodLockRoutes);
+  app.use("/api/currency", requireAuthHybrid, currencyRoutes);
+  app.use("/api/recurring-journals", requireAuthHybrid, recurringJournalRoutes);
+  app.use("/api/budgets", requireAuthHybrid, budgetRoutes);
+  app.use("/api/fixed-assets", requireAuthHybrid, fixedAssetRoutes);
+  app.use("/api/consolidation", requireAuthHybrid, consolidationRoutes);
+  app.use("/api/cash-flow", requireAuthHybrid, cashFlowRoutes);
+  app.use("/api/drill-down", requireAuthHybrid, drillDownRoutes);
+  app.use("/api/transfers", requireAuthHybrid, transferRoutes);
+  app.use("/api/duplicates", requireAuthHybrid, duplicateRoutes);
+  app.use("/api/import-batches", requireAuthHybrid, importBatchRoutes);
+  app.use("/api/mapping-profiles", requireAuthHybrid, mappingProfileRoutes);
+  app.use("/api/bank-feed-sync", requireAuthHybrid, bankFeedSyncRoutes);
+  app.use("/api/receipt-matching", requireAuthHybrid, receiptMatchingRoutes);
+  app.use("/api/client-questions", requireAuthHybrid, clientQuestionRoutes);
+  app.use("/api/recurring-invoices", requireAuthHybrid, recurringInvoiceRoutes);
+  app.use("/api/dunning", requireAuthHybrid, dunningRoutes);
+  app.use("/api/customer-payments", requireAuthHybrid, customerPaymentRoutes);
+  app.use("/api/bill-approvals", requireAuthHybrid, billApprovalRoutes);
+  app.use("/api/payment-runs", requireAuthHybrid, vendorPaymentRunRoutes);
+  app.use("/api/reconciliation", statementImportRoutes);
+  app.use("/api/reconciliation", reconciliationMatchRoutes);
+  app.use("/api/reconciliation", reconciliationReportRoutes);
   app.use("/api/reconciliation", reconciliationRoutes);
   app.use("/", chequeUploadRoutes);
   // COMMENT OUT CONFLICTING TAX SETTINGS FOR NOW
@@ -11626,7 +12289,10 @@ ${firmName}
         const cashData = await cashSectionService.getCashSectionData(
           parseInt(clientId)
         );
-        res.json(cashData);
+        // Finalized bank reconciliations are filed with the section as working papers
+        const bankReconciliations =
+          await reconciliationReportService.getFinalizedReports(parseInt(clientId));
+        res.json({ ...cashData, bankReconciliations });
       } catch (error) {
         console.error("Error fetching cash section:", error);
         res.status(500).json({ error: "Failed to fetch cash section data" });
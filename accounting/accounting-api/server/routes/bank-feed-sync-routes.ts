@@ -0,0 +1,138 @@
+/**
+ * Bank Feed Sync Routes
+ *
+ * Bank feed connections, their sync history and health. Syncs normally run
+ * from the cron job in server/cron.ts; these routes add connections, link
+ * provider accounts to ledger accounts, trigger a sync and clear a connection
+ * after the account holder has logged in again. Mounted at /api/bank-feed-sync.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { bankFeedSyncService, BankFeedSyncError } from "../services/bank-feed-sync-service";
+import { BankFeedProviderError } from "../services/bank-feed-providers";
+
+const router = Router();
+
+const accountLinkSchema = z.object({
+  externalAccountId: z.string().min(1),
+  accountId: z.coerce.number().int().positive().nullable(),
+  name: z.string().nullable().optional(),
+  mask: z.string().nullable().optional(),
+});
+
+const createConnectionSchema = z.object({
+  provider: z.string().min(1),
+  externalId: z.string().min(1),
+  accessToken: z.string().min(1),
+  institutionName: z.string().nullable().optional(),
+  accountLinks: z.array(accountLinkSchema).optional(),
+});
+
+const updateConnectionSchema = z.object({
+  accountLinks: z.array(accountLinkSchema).optional(),
+  syncEnabled: z.boolean().optional(),
+  institutionName: z.string().nullable().optional(),
+});
+
+const reauthenticatedSchema = z.object({
+  accessToken: z.string().min(1).optional(),
+});
+
+const healthQuerySchema = z.object({
+  clientId: z.coerce.number().int().positive().optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof BankFeedSyncError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof BankFeedProviderError) {
+    return res.status(400).json({ error: error.message, message: error.message, code: error.code });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/bank-feed-sync/health?clientId= - One client's connections, or the whole firm's
+router.get("/health", async (req: Request, res: Response) => {
+  try {
+    const { clientId } = healthQuerySchema.parse(req.query);
+    res.json(await bankFeedSyncService.getHealth({ clientId, firmId: req.user?.firmId ?? null }));
+  } catch (error) {
+    handleError(res, error, "Failed to load bank feed health");
+  }
+});
+
+router.get("/:clientId/connections", async (req: Request, res: Response) => {
+  try {
+    res.json({ connections: await bankFeedSyncService.listConnections(parseInt(req.params.clientId)) });
+  } catch (error) {
+    handleError(res, error, "Failed to load bank feed connections");
+  }
+});
+
+router.post("/:clientId/connections", async (req: Request, res: Response) => {
+  try {
+    const data = createConnectionSchema.parse(req.body);
+    res.status(201).json(await bankFeedSyncService.createConnection(parseInt(req.params.clientId), data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to add bank feed connection");
+  }
+});
+
+router.patch("/:clientId/connections/:connectionId", async (req: Request, res: Response) => {
+  try {
+    const data = updateConnectionSchema.parse(req.body);
+    res.json(
+      await bankFeedSyncService.updateConnection(
+        parseInt(req.params.clientId),
+        parseInt(req.params.connectionId),
+        data
+      )
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to update bank feed connection");
+  }
+});
+
+// POST /api/bank-feed-sync/:clientId/connections/:connectionId/sync - Sync now instead of waiting for the schedule
+router.post("/:clientId/connections/:connectionId/sync", async (req: Request, res: Response) => {
+  try {
+    res.json(
+      await bankFeedSyncService.syncNow(parseInt(req.params.clientId), parseInt(req.params.connectionId))
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to sync bank feed");
+  }
+});
+
+router.post("/:clientId/connections/:connectionId/reauthenticated", async (req: Request, res: Response) => {
+  try {
+    const { accessToken } = reauthenticatedSchema.parse(req.body || {});
+    res.json(
+      await bankFeedSyncService.markReauthenticated(
+        parseInt(req.params.clientId),
+        parseInt(req.params.connectionId),
+        accessToken
+      )
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to reconnect bank feed");
+  }
+});
+
+router.get("/:clientId/connections/:connectionId/runs", async (req: Request, res: Response) => {
+  try {
+    res.json({
+      runs: await bankFeedSyncService.getRuns(parseInt(req.params.clientId), parseInt(req.params.connectionId)),
+    });
+  } catch (error) {
+    handleError(res, error, "Failed to load bank feed sync history");
+  }
+});
+
+export default router;
@@ -0,0 +1,154 @@
+/**
+ * Bank Rule Routes
+ *
+ * Compound bank rules per client: create/update/delete, priority order and
+ * apply with dry run. POST /apply handles the compound rules and then hands
+ * over to the legacy pattern-rule router, which categorizes what is left.
+ * Mounted at /api/rules, ahead of the legacy rules router.
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import {
+  bankRuleService,
+  BankRuleError,
+  RULE_CONDITION_FIELDS,
+  RULE_CONDITION_OPERATORS,
+} from "../services/bank-rule-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const conditionSchema = z.object({
+  field: z.enum(RULE_CONDITION_FIELDS),
+  operator: z.enum(RULE_CONDITION_OPERATORS),
+  value: z.coerce.string().min(1, "Condition value is required"),
+  valueTo: z.coerce.string().nullable().optional(),
+});
+
+const splitSchema = z.object({
+  accountId: z.coerce.number().int(),
+  splitType: z.enum(["percent", "fixed"]),
+  amount: z.coerce.number().positive(),
+  memo: z.string().nullable().optional(),
+});
+
+const optionalId = z.coerce.number().int().positive().nullable().optional();
+
+const ruleSchema = z.object({
+  clientId: z.coerce.number().int(),
+  name: z.string().min(1, "Name is required"),
+  description: z.string().nullable().optional(),
+  conditionLogic: z.enum(["all", "any"]).default("all"),
+  stopProcessing: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  conditions: z.array(conditionSchema).min(1, "At least one condition is required"),
+  splits: z.array(splitSchema).default([]),
+  projectId: optionalId,
+  locationId: optionalId,
+  classId: optionalId,
+  payeeContactId: optionalId,
+  payeeContactType: z.enum(["vendor", "customer"]).nullable().optional(),
+  excludeAsTransfer: z.boolean().optional(),
+});
+
+const prioritySchema = z.object({
+  clientId: z.coerce.number().int(),
+  ruleIds: z.array(z.coerce.number().int()),
+});
+
+const applySchema = z.object({
+  clientId: z.coerce.number().int(),
+  dryRun: z.boolean().optional(),
+  transactionIds: z.array(z.coerce.number().int()).optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof BankRuleError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/rules/compound?clientId= - Rules in priority order
+router.get("/compound", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.query.clientId as string);
+    if (isNaN(clientId)) {
+      return res.status(400).json({ error: "clientId is required" });
+    }
+    res.json({ rules: await bankRuleService.listRules(clientId) });
+  } catch (error) {
+    handleError(res, error, "Failed to load bank rules");
+  }
+});
+
+// POST /api/rules/compound
+router.post("/compound", async (req: Request, res: Response) => {
+  try {
+    const { clientId, ...input } = ruleSchema.parse(req.body);
+    const rule = await bankRuleService.createRule(clientId, input, req.user);
+    res.status(201).json(rule);
+  } catch (error) {
+    handleError(res, error, "Failed to create bank rule");
+  }
+});
+
+// PUT /api/rules/compound/priorities - Reorder; registered before /:id
+router.put("/compound/priorities", async (req: Request, res: Response) => {
+  try {
+    const { clientId, ruleIds } = prioritySchema.parse(req.body);
+    res.json({ rules: await bankRuleService.reorderRules(clientId, ruleIds) });
+  } catch (error) {
+    handleError(res, error, "Failed to reorder bank rules");
+  }
+});
+
+// PUT /api/rules/compound/:id
+router.put("/compound/:id", async (req: Request, res: Response) => {
+  try {
+    const { clientId, ...input } = ruleSchema.parse(req.body);
+    const rule = await bankRuleService.updateRule(clientId, parseInt(req.params.id), input);
+    res.json(rule);
+  } catch (error) {
+    handleError(res, error, "Failed to update bank rule");
+  }
+});
+
+// DELETE /api/rules/compound/:id?clientId=
+router.delete("/compound/:id", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.query.clientId as string);
+    if (isNaN(clientId)) {
+      return res.status(400).json({ error: "clientId is required" });
+    }
+    res.json(await bankRuleService.deleteRule(clientId, parseInt(req.params.id)));
+  } catch (error) {
+    handleError(res, error, "Failed to delete bank rule");
+  }
+});
+
+// POST /api/rules/apply - { dryRun: true } previews the compound rules only;
+// otherwise they are posted and the legacy pattern rules run on the remainder
+router.post("/apply", async (req: Request, res: Response, next: NextFunction) => {
+  try {
+    const { clientId, dryRun, transactionIds } = applySchema.parse(req.body);
+    const result = await bankRuleService.apply(clientId, { dryRun: !!dryRun, transactionIds }, req.user);
+    if (dryRun) {
+      return res.json(result);
+    }
+    res.locals.compoundRuleResult = result;
+    next();
+  } catch (error) {
+    handleError(res, error, "Failed to apply bank rules");
+  }
+});
+
+export default router;
@@ -0,0 +1,200 @@
+/**
+ * Bill Approval Routes
+ *
+ * Per-client approval chains for vendor bills, the approval queue with
+ * approve / reject / resubmit, the audit trail, and the client portal's
+ * approve / reject for its own approvers.
+ * Mounted at /api/bill-approvals.
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { billApprovalService, BillApprovalError } from "../services/bill-approval-service";
+
+const router = Router();
+
+const chainSchema = z.object({
+  levels: z
+    .array(
+      z.object({
+        name: z.string().trim().min(1, "Level name is required").max(100),
+        minAmount: z.coerce.number().min(0),
+        approverUserIds: z.array(z.coerce.number().int().positive()),
+      })
+    )
+    .max(5, "An approval chain can have at most 5 levels"),
+});
+
+const statusSchema = z.enum(["not_required", "pending", "approved", "rejected"]).optional();
+
+const approveSchema = z.object({
+  comment: z.string().trim().max(1000).nullable().optional(),
+});
+
+const rejectSchema = z.object({
+  comment: z.string().trim().min(1, "Give a reason for rejecting the bill").max(1000),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof BillApprovalError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// Client portal users only see the /portal routes
+function requireStaff(req: Request, res: Response, next: NextFunction) {
+  const role = (req.user as any)?.role;
+  if (role === "client_admin" || role === "client_user") {
+    return res.status(403).json({ error: "Insufficient permissions" });
+  }
+  next();
+}
+
+// GET /api/bill-approvals/portal/bills - Bills waiting for the signed-in client approver
+router.get("/portal/bills", async (req: Request, res: Response) => {
+  try {
+    res.json({ bills: await billApprovalService.portalBills(req.user) });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch bills awaiting approval");
+  }
+});
+
+// GET /api/bill-approvals/portal/bills/:billId/history
+router.get("/portal/bills/:billId/history", async (req: Request, res: Response) => {
+  try {
+    res.json(await billApprovalService.portalHistory(req.user, parseInt(req.params.billId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch bill approval history");
+  }
+});
+
+// POST /api/bill-approvals/portal/bills/:billId/approve
+router.post("/portal/bills/:billId/approve", async (req: Request, res: Response) => {
+  try {
+    const { comment } = approveSchema.parse(req.body);
+    res.json(await billApprovalService.portalApprove(req.user, parseInt(req.params.billId), comment));
+  } catch (error) {
+    handleError(res, error, "Failed to approve bill");
+  }
+});
+
+// POST /api/bill-approvals/portal/bills/:billId/reject
+router.post("/portal/bills/:billId/reject", async (req: Request, res: Response) => {
+  try {
+    const { comment } = rejectSchema.parse(req.body);
+    res.json(await billApprovalService.portalReject(req.user, parseInt(req.params.billId), comment));
+  } catch (error) {
+    handleError(res, error, "Failed to reject bill");
+  }
+});
+
+// GET /api/bill-approvals/:clientId/chain
+router.get("/:clientId/chain", requireStaff, async (req: Request, res: Response) => {
+  try {
+    res.json(await billApprovalService.getChain(parseInt(req.params.clientId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch approval chain");
+  }
+});
+
+// PUT /api/bill-approvals/:clientId/chain - Replace the approval levels
+router.put("/:clientId/chain", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const { levels } = chainSchema.parse(req.body);
+    res.json(await billApprovalService.saveChain(clientId, levels, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to save approval chain");
+  }
+});
+
+// GET /api/bill-approvals/:clientId/approvers - Staff and portal users who can approve
+router.get("/:clientId/approvers", requireStaff, async (req: Request, res: Response) => {
+  try {
+    res.json(await billApprovalService.listApprovers(parseInt(req.params.clientId), req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch approvers");
+  }
+});
+
+// GET /api/bill-approvals/:clientId/bills?status=
+router.get("/:clientId/bills", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const status = statusSchema.parse(req.query.status || undefined);
+    res.json(await billApprovalService.listBills(clientId, req.user, status));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch bill approvals");
+  }
+});
+
+// GET /api/bill-approvals/:clientId/statuses - Approval state keyed by bill id
+router.get("/:clientId/statuses", requireStaff, async (req: Request, res: Response) => {
+  try {
+    res.json(await billApprovalService.statusesByBill(parseInt(req.params.clientId), req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch bill approval statuses");
+  }
+});
+
+// GET /api/bill-approvals/:clientId/audit?limit=
+router.get("/:clientId/audit", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const limit = req.query.limit ? Math.min(parseInt(req.query.limit as string) || 200, 1000) : undefined;
+    res.json(await billApprovalService.auditTrail(parseInt(req.params.clientId), limit));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch approval audit trail");
+  }
+});
+
+// GET /api/bill-approvals/:clientId/bills/:billId/history
+router.get("/:clientId/bills/:billId/history", requireStaff, async (req: Request, res: Response) => {
+  try {
+    res.json(await billApprovalService.history(parseInt(req.params.clientId), parseInt(req.params.billId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch bill approval history");
+  }
+});
+
+// POST /api/bill-approvals/:clientId/bills/:billId/approve
+router.post("/:clientId/bills/:billId/approve", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const { comment } = approveSchema.parse(req.body);
+    res.json(
+      await billApprovalService.approve(parseInt(req.params.clientId), parseInt(req.params.billId), req.user, comment)
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to approve bill");
+  }
+});
+
+// POST /api/bill-approvals/:clientId/bills/:billId/reject
+router.post("/:clientId/bills/:billId/reject", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const { comment } = rejectSchema.parse(req.body);
+    res.json(
+      await billApprovalService.reject(parseInt(req.params.clientId), parseInt(req.params.billId), req.user, comment)
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to reject bill");
+  }
+});
+
+// POST /api/bill-approvals/:clientId/bills/:billId/resubmit - Restart approval after a rejection
+router.post("/:clientId/bills/:billId/resubmit", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const { comment } = approveSchema.parse(req.body);
+    res.json(
+      await billApprovalService.resubmit(parseInt(req.params.clientId), parseInt(req.params.billId), req.user, comment)
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to resubmit bill");
+  }
+});
+
+export default router;
@@ -0,0 +1,180 @@
+/**
+ * Budget Routes
+ *
+ * Client budgets by account and month (optionally by project/location/class):
+ * manual entry, creation from prior-year actuals and Excel/CSV import.
+ * Budget-vs-actual columns are added to the P&L and Balance Sheet reports with
+ * the `budgetId` query parameter.
+ * Mounted at /api/budgets.
+ */
+
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { budgetService, BudgetError } from "../services/budget-service";
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}(-\d{2})?$/, "Date must be in YYYY-MM-DD format")
+  .transform((value) => (value.length === 7 ? `${value}-01` : value));
+
+const dimensionId = z.coerce.number().int().positive().nullable().optional();
+
+const lineSchema = z.object({
+  accountId: z.coerce.number().int(),
+  projectId: dimensionId,
+  locationId: dimensionId,
+  classId: dimensionId,
+  periodMonth: dateString,
+  amount: z.coerce.number(),
+});
+
+const createSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  startDate: dateString,
+  months: z.coerce.number().int().min(1).max(36).optional(),
+  notes: z.string().nullable().optional(),
+  lines: z.array(lineSchema).optional(),
+});
+
+const priorYearSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  startDate: dateString,
+  months: z.coerce.number().int().min(1).max(36).optional(),
+  growthPercent: z.coerce.number().min(-100).max(1000).optional(),
+  splitBy: z.enum(["projectId", "locationId", "classId"]).nullable().optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof BudgetError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/budgets/:clientId
+router.get("/:clientId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const clientBudgets = await budgetService.listBudgets(clientId);
+    res.json(clientBudgets);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch budgets");
+  }
+});
+
+// POST /api/budgets/:clientId - Create a budget (optionally with lines)
+router.post("/:clientId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = createSchema.parse(req.body);
+    const budget = await budgetService.createBudget(clientId, data, req.user);
+    res.status(201).json(budget);
+  } catch (error) {
+    handleError(res, error, "Failed to create budget");
+  }
+});
+
+// POST /api/budgets/:clientId/from-prior-year - Build a budget from prior-year actuals with growth
+router.post("/:clientId/from-prior-year", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = priorYearSchema.parse(req.body);
+    const result = await budgetService.createFromPriorYear(clientId, data, req.user);
+
+    console.log(`📐 Created budget "${data.name}" for client ${clientId} from prior-year actuals (${result.lines} lines)`);
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to create budget from prior-year actuals");
+  }
+});
+
+// POST /api/budgets/:clientId/import - Create a budget from an Excel/CSV sheet (file field "file")
+router.post("/:clientId/import", upload.single("file"), async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    const name = (req.body.name as string) || req.file.originalname.replace(/\.[^.]+$/, "");
+    const result = await budgetService.importFromSpreadsheet(
+      clientId,
+      req.file.buffer,
+      { name, notes: req.body.notes || null },
+      req.user
+    );
+
+    console.log(`📐 Imported budget "${name}" for client ${clientId}: ${result.lines} lines, ${result.errors.length} rows skipped`);
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to import budget");
+  }
+});
+
+// GET /api/budgets/:clientId/:budgetId - Budget with lines
+router.get("/:clientId/:budgetId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const budgetId = parseInt(req.params.budgetId);
+    const budget = await budgetService.getBudget(clientId, budgetId);
+    res.json(budget);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch budget");
+  }
+});
+
+// PUT /api/budgets/:clientId/:budgetId - Rename or update notes
+router.put("/:clientId/:budgetId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const budgetId = parseInt(req.params.budgetId);
+    const data = z
+      .object({ name: z.string().min(1).optional(), notes: z.string().nullable().optional() })
+      .parse(req.body);
+    const budget = await budgetService.updateBudget(clientId, budgetId, data);
+    res.json(budget);
+  } catch (error) {
+    handleError(res, error, "Failed to update budget");
+  }
+});
+
+// PUT /api/budgets/:clientId/:budgetId/lines - Replace all budget lines
+router.put("/:clientId/:budgetId/lines", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const budgetId = parseInt(req.params.budgetId);
+    const lines = z.array(lineSchema).parse(req.body.lines);
+    const result = await budgetService.saveLines(clientId, budgetId, lines);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to save budget lines");
+  }
+});
+
+// DELETE /api/budgets/:clientId/:budgetId
+router.delete("/:clientId/:budgetId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const budgetId = parseInt(req.params.budgetId);
+    const result = await budgetService.deleteBudget(clientId, budgetId);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to delete budget");
+  }
+});
+
+export default router;
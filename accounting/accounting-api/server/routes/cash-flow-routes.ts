@@ -0,0 +1,57 @@
+/**
+ * Cash Flow Routes
+ *
+ * Per-client classification of balance sheet accounts for the indirect-method
+ * statement of cash flows (cash, operating, non-cash, investing, financing).
+ * The statement itself is served by /api/reports/cash-flow/:clientId.
+ * Mounted at /api/cash-flow.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { cashFlowService, CashFlowError, CASH_FLOW_CATEGORIES } from "../services/cash-flow-service";
+
+const router = Router();
+
+const categorySchema = z.object({
+  category: z.enum(CASH_FLOW_CATEGORIES).nullable(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof CashFlowError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/cash-flow/:clientId/accounts - Balance sheet accounts with their cash-flow category
+router.get("/:clientId/accounts", async (req: Request, res: Response) => {
+  try {
+    const accounts = await cashFlowService.getAccountCategories(parseInt(req.params.clientId));
+    res.json(accounts);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch cash-flow categories");
+  }
+});
+
+// PUT /api/cash-flow/:clientId/accounts/:accountId - Set a category (null restores the default)
+router.put("/:clientId/accounts/:accountId", async (req: Request, res: Response) => {
+  try {
+    const { category } = categorySchema.parse(req.body);
+    const result = await cashFlowService.setAccountCategory(
+      parseInt(req.params.clientId),
+      parseInt(req.params.accountId),
+      category,
+      req.user
+    );
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to update cash-flow category");
+  }
+});
+
+export default router;
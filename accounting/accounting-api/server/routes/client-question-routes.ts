@@ -0,0 +1,220 @@
+/**
+ * Client Question Routes
+ *
+ * Questions staff ask clients about uncategorized transactions: asking from
+ * the ledger, answers from the client portal (with an optional receipt),
+ * resolving answered questions and the firm's reminder interval.
+ * Mounted at /api/client-questions.
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import multer from "multer";
+import path from "path";
+import fs from "fs";
+import { z } from "zod";
+import { clientQuestionService, ClientQuestionError } from "../services/client-question-service";
+
+const router = Router();
+
+const attachmentStorage = multer.diskStorage({
+  destination: (req, file, cb) => {
+    const uploadDir = path.join(process.cwd(), "uploads", "client-questions");
+    if (!fs.existsSync(uploadDir)) {
+      fs.mkdirSync(uploadDir, { recursive: true });
+    }
+    cb(null, uploadDir);
+  },
+  filename: (req, file, cb) => {
+    const uniqueSuffix = Date.now() + "-" + Math.round(Math.random() * 1e9);
+    cb(null, `question-${req.params.questionId}-${uniqueSuffix}${path.extname(file.originalname)}`);
+  },
+});
+
+const attachmentUpload = multer({
+  storage: attachmentStorage,
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+  fileFilter: (req, file, cb) => {
+    const allowedTypes = ["image/jpeg", "image/png", "image/gif", "image/webp", "image/heic", "application/pdf"];
+    if (allowedTypes.includes(file.mimetype)) {
+      cb(null, true);
+    } else {
+      cb(new ClientQuestionError("Only images (JPEG, PNG, GIF, WebP, HEIC) and PDF files can be attached"));
+    }
+  },
+});
+
+const askSchema = z.object({
+  transactionIds: z.array(z.coerce.number().int().positive()).min(1).max(500),
+  question: z.string().trim().min(1).max(2000),
+});
+
+const answerSchema = z.object({
+  description: z.string().trim().min(1).max(2000),
+  categoryHint: z.string().trim().max(200).nullable().optional(),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(["open", "answered", "resolved", "cancelled"]).optional(),
+});
+
+const resolveSchema = z.object({
+  resolutions: z
+    .array(
+      z.object({
+        questionId: z.coerce.number().int().positive(),
+        accountId: z.coerce.number().int().positive().nullable().optional(),
+      })
+    )
+    .min(1)
+    .max(500),
+});
+
+const settingsSchema = z.object({
+  reminderDays: z.coerce.number().int().min(1).max(60),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof ClientQuestionError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof multer.MulterError) {
+    return res.status(400).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// Client portal users only see the /portal routes
+function requireStaff(req: Request, res: Response, next: NextFunction) {
+  const role = (req.user as any)?.role;
+  if (role === "client_admin" || role === "client_user") {
+    return res.status(403).json({ error: "Insufficient permissions" });
+  }
+  next();
+}
+
+function sendAttachment(res: Response, attachment: { filePath: string; fileName: string; mimeType: string }) {
+  res.setHeader("Content-Type", attachment.mimeType);
+  res.download(attachment.filePath, attachment.fileName);
+}
+
+// GET /api/client-questions/portal/questions - Questions waiting for the signed-in client
+router.get("/portal/questions", async (req: Request, res: Response) => {
+  try {
+    res.json({ questions: await clientQuestionService.listForPortal(req.user) });
+  } catch (error) {
+    handleError(res, error, "Failed to load questions");
+  }
+});
+
+// POST /api/client-questions/portal/questions/:questionId/answer - Answer with an optional receipt ("attachment")
+router.post("/portal/questions/:questionId/answer", (req: Request, res: Response) => {
+  attachmentUpload.single("attachment")(req, res, async (uploadError?: unknown) => {
+    if (uploadError) return handleError(res, uploadError, "Failed to upload attachment");
+    const file = (req as any).file;
+    try {
+      const answer = answerSchema.parse(req.body);
+      res.json(
+        await clientQuestionService.answer(
+          req.user,
+          parseInt(req.params.questionId),
+          answer,
+          file ? { path: file.path, originalName: file.originalname, mimeType: file.mimetype } : null
+        )
+      );
+    } catch (error) {
+      if (file && error instanceof z.ZodError) fs.unlink(file.path, () => undefined);
+      handleError(res, error, "Failed to save answer");
+    }
+  });
+});
+
+router.get("/portal/questions/:questionId/attachment", async (req: Request, res: Response) => {
+  try {
+    sendAttachment(res, await clientQuestionService.getAttachment(parseInt(req.params.questionId), req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to load attachment");
+  }
+});
+
+// GET /api/client-questions/settings - Firm reminder interval
+router.get("/settings", requireStaff, async (req: Request, res: Response) => {
+  try {
+    res.json(await clientQuestionService.getSettings(req.user?.firmId));
+  } catch (error) {
+    handleError(res, error, "Failed to load client question settings");
+  }
+});
+
+// PUT /api/client-questions/settings
+router.put("/settings", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const data = settingsSchema.parse(req.body);
+    res.json(await clientQuestionService.updateSettings(req.user?.firmId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to save client question settings");
+  }
+});
+
+router.get("/:clientId/questions", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const { status } = listQuerySchema.parse(req.query);
+    res.json({ questions: await clientQuestionService.listForClient(parseInt(req.params.clientId), status) });
+  } catch (error) {
+    handleError(res, error, "Failed to load client questions");
+  }
+});
+
+// POST /api/client-questions/:clientId/questions - Ask the client about transactions
+router.post("/:clientId/questions", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const { transactionIds, question } = askSchema.parse(req.body);
+    res.json(
+      await clientQuestionService.askQuestions(parseInt(req.params.clientId), transactionIds, question, req.user)
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to ask client");
+  }
+});
+
+router.post("/:clientId/questions/:questionId/cancel", requireStaff, async (req: Request, res: Response) => {
+  try {
+    res.json(await clientQuestionService.cancel(parseInt(req.params.clientId), parseInt(req.params.questionId)));
+  } catch (error) {
+    handleError(res, error, "Failed to cancel question");
+  }
+});
+
+router.get("/:clientId/questions/:questionId/attachment", requireStaff, async (req: Request, res: Response) => {
+  try {
+    sendAttachment(
+      res,
+      await clientQuestionService.getAttachment(
+        parseInt(req.params.questionId),
+        req.user,
+        parseInt(req.params.clientId)
+      )
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to load attachment");
+  }
+});
+
+// POST /api/client-questions/:clientId/resolve - Close answered questions once classified
+router.post("/:clientId/resolve", requireStaff, async (req: Request, res: Response) => {
+  try {
+    const { resolutions } = resolveSchema.parse(req.body);
+    res.json({
+      questions: await clientQuestionService.resolve(parseInt(req.params.clientId), resolutions, req.user),
+    });
+  } catch (error) {
+    handleError(res, error, "Failed to resolve questions");
+  }
+});
+
+export default router;
@@ -0,0 +1,286 @@
+/**
+ * Consolidation Routes
+ *
+ * Client groups and consolidated financial statements: group membership, the
+ * group's common chart and the mapping of each member's accounts to it,
+ * intercompany elimination rules on designated accounts, and the consolidated
+ * Balance Sheet / Profit & Loss (entity columns, eliminations, consolidated).
+ * Mounted at /api/consolidation.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { consolidationService, ConsolidationError } from "../services/consolidation-service";
+
+const router = Router();
+
+const sectionSchema = z.enum([
+  "current_assets",
+  "fixed_assets",
+  "other_assets",
+  "current_liabilities",
+  "long_term_liabilities",
+  "equity",
+  "income",
+  "cost_of_sales",
+  "expense",
+  "other_income",
+  "other_expense",
+]);
+
+const memberSchema = z.object({
+  clientId: z.coerce.number().int().positive(),
+  label: z.string().nullable().optional(),
+});
+
+const groupSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().nullable().optional(),
+  members: z.array(memberSchema).optional(),
+});
+
+const accountSchema = z.object({
+  code: z.string().nullable().optional(),
+  name: z.string().min(1, "Name is required"),
+  section: sectionSchema,
+  sortOrder: z.coerce.number().int().optional(),
+});
+
+const mappingsSchema = z.object({
+  mappings: z.array(
+    z.object({
+      clientId: z.coerce.number().int().positive(),
+      accountId: z.coerce.number().int().positive(),
+      consolidationAccountId: z.coerce.number().int().positive().nullable(),
+    })
+  ),
+});
+
+const ruleSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  differenceAccountId: z.coerce.number().int().positive().nullable().optional(),
+  isActive: z.boolean().optional(),
+  notes: z.string().nullable().optional(),
+  accounts: z.array(
+    z.object({
+      clientId: z.coerce.number().int().positive(),
+      accountId: z.coerce.number().int().positive(),
+    })
+  ),
+});
+
+function parseDate(value: unknown): string | undefined {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+}
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof ConsolidationError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/consolidation/groups
+router.get("/groups", async (req: Request, res: Response) => {
+  try {
+    const groups = await consolidationService.listGroups(req.user);
+    res.json(groups);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch client groups");
+  }
+});
+
+// POST /api/consolidation/groups
+router.post("/groups", async (req: Request, res: Response) => {
+  try {
+    const data = groupSchema.parse(req.body);
+    const group = await consolidationService.createGroup(data, req.user);
+    res.status(201).json(group);
+  } catch (error) {
+    handleError(res, error, "Failed to create client group");
+  }
+});
+
+// GET /api/consolidation/groups/:groupId
+router.get("/groups/:groupId", async (req: Request, res: Response) => {
+  try {
+    const group = await consolidationService.getGroup(parseInt(req.params.groupId), req.user);
+    res.json(group);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch client group");
+  }
+});
+
+// PUT /api/consolidation/groups/:groupId
+router.put("/groups/:groupId", async (req: Request, res: Response) => {
+  try {
+    const data = groupSchema.omit({ members: true }).parse(req.body);
+    const group = await consolidationService.updateGroup(parseInt(req.params.groupId), data, req.user);
+    res.json(group);
+  } catch (error) {
+    handleError(res, error, "Failed to update client group");
+  }
+});
+
+// DELETE /api/consolidation/groups/:groupId
+router.delete("/groups/:groupId", async (req: Request, res: Response) => {
+  try {
+    const result = await consolidationService.deleteGroup(parseInt(req.params.groupId), req.user);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to delete client group");
+  }
+});
+
+// PUT /api/consolidation/groups/:groupId/members - Replace members, in column order
+router.put("/groups/:groupId/members", async (req: Request, res: Response) => {
+  try {
+    const { members } = z.object({ members: z.array(memberSchema) }).parse(req.body);
+    const result = await consolidationService.setMembers(parseInt(req.params.groupId), members, req.user);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to update group members");
+  }
+});
+
+// POST /api/consolidation/groups/:groupId/accounts - Add a common chart line
+router.post("/groups/:groupId/accounts", async (req: Request, res: Response) => {
+  try {
+    const data = accountSchema.parse(req.body);
+    const account = await consolidationService.createAccount(parseInt(req.params.groupId), data, req.user);
+    res.status(201).json(account);
+  } catch (error) {
+    handleError(res, error, "Failed to create common chart line");
+  }
+});
+
+// PUT /api/consolidation/groups/:groupId/accounts/:accountId
+router.put("/groups/:groupId/accounts/:accountId", async (req: Request, res: Response) => {
+  try {
+    const data = accountSchema.parse(req.body);
+    const account = await consolidationService.updateAccount(
+      parseInt(req.params.groupId),
+      parseInt(req.params.accountId),
+      data,
+      req.user
+    );
+    res.json(account);
+  } catch (error) {
+    handleError(res, error, "Failed to update common chart line");
+  }
+});
+
+// DELETE /api/consolidation/groups/:groupId/accounts/:accountId
+router.delete("/groups/:groupId/accounts/:accountId", async (req: Request, res: Response) => {
+  try {
+    const result = await consolidationService.deleteAccount(
+      parseInt(req.params.groupId),
+      parseInt(req.params.accountId),
+      req.user
+    );
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to delete common chart line");
+  }
+});
+
+// GET /api/consolidation/groups/:groupId/mappings - Member accounts with their common chart line
+router.get("/groups/:groupId/mappings", async (req: Request, res: Response) => {
+  try {
+    const mappings = await consolidationService.getMappings(parseInt(req.params.groupId), req.user);
+    res.json(mappings);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch account mappings");
+  }
+});
+
+// PUT /api/consolidation/groups/:groupId/mappings
+router.put("/groups/:groupId/mappings", async (req: Request, res: Response) => {
+  try {
+    const { mappings } = mappingsSchema.parse(req.body);
+    const result = await consolidationService.saveMappings(parseInt(req.params.groupId), mappings, req.user);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to save account mappings");
+  }
+});
+
+// POST /api/consolidation/groups/:groupId/mappings/auto - Map by account number, then name
+router.post("/groups/:groupId/mappings/auto", async (req: Request, res: Response) => {
+  try {
+    const result = await consolidationService.autoMap(parseInt(req.params.groupId), req.user);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to auto-map accounts");
+  }
+});
+
+// POST /api/consolidation/groups/:groupId/rules - Add an intercompany elimination rule
+router.post("/groups/:groupId/rules", async (req: Request, res: Response) => {
+  try {
+    const data = ruleSchema.parse(req.body);
+    const rule = await consolidationService.createRule(parseInt(req.params.groupId), data, req.user);
+    res.status(201).json(rule);
+  } catch (error) {
+    handleError(res, error, "Failed to create elimination rule");
+  }
+});
+
+// PUT /api/consolidation/groups/:groupId/rules/:ruleId
+router.put("/groups/:groupId/rules/:ruleId", async (req: Request, res: Response) => {
+  try {
+    const data = ruleSchema.parse(req.body);
+    const rule = await consolidationService.updateRule(
+      parseInt(req.params.groupId),
+      parseInt(req.params.ruleId),
+      data,
+      req.user
+    );
+    res.json(rule);
+  } catch (error) {
+    handleError(res, error, "Failed to update elimination rule");
+  }
+});
+
+// DELETE /api/consolidation/groups/:groupId/rules/:ruleId
+router.delete("/groups/:groupId/rules/:ruleId", async (req: Request, res: Response) => {
+  try {
+    const result = await consolidationService.deleteRule(
+      parseInt(req.params.groupId),
+      parseInt(req.params.ruleId),
+      req.user
+    );
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to delete elimination rule");
+  }
+});
+
+// GET /api/consolidation/groups/:groupId/balance-sheet?date=YYYY-MM-DD
+router.get("/groups/:groupId/balance-sheet", async (req: Request, res: Response) => {
+  try {
+    const date = parseDate(req.query.date) || new Date().toISOString().split("T")[0];
+    const report = await consolidationService.getBalanceSheet(parseInt(req.params.groupId), date, req.user);
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, "Failed to generate consolidated balance sheet");
+  }
+});
+
+// GET /api/consolidation/groups/:groupId/profit-loss?startDate=YYYY-MM-DD&endDate=YYYY-MM-DD
+router.get("/groups/:groupId/profit-loss", async (req: Request, res: Response) => {
+  try {
+    const endDate = parseDate(req.query.endDate) || new Date().toISOString().split("T")[0];
+    const startDate = parseDate(req.query.startDate) || `${endDate.slice(0, 4)}-01-01`;
+    const report = await consolidationService.getProfitLoss(parseInt(req.params.groupId), startDate, endDate, req.user);
+    res.json(report);
+  } catch (error) {
+    handleError(res, error, "Failed to generate consolidated profit & loss");
+  }
+});
+
+export default router;
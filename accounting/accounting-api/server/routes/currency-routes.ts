@@ -0,0 +1,223 @@
+/**
+ * Currency Routes
+ *
+ * Exchange rates (firm-wide), client home currency and FX accounts, account
+ * and invoice/bill currencies, FX adjustment history and period-end
+ * revaluation. Realized gain/loss is posted by the payment paths themselves.
+ * Mounted at /api/currency.
+ */
+
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import { z } from "zod";
+import { currencyService, CurrencyError } from "../services/currency-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+});
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const currencyCode = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO code");
+
+const rateSchema = z.object({
+  fromCurrency: currencyCode,
+  toCurrency: currencyCode,
+  rateDate: dateString,
+  rate: z.coerce.number().positive(),
+});
+
+const settingsSchema = z.object({
+  homeCurrency: currencyCode.optional(),
+  realizedFxAccountId: z.number().int().nullable().optional(),
+  unrealizedFxAccountId: z.number().int().nullable().optional(),
+});
+
+const documentTypeSchema = z.enum(["invoice", "bill"]);
+
+const documentCurrencySchema = z.object({
+  currency: currencyCode.nullable(),
+  documentDate: dateString,
+  exchangeRate: z.coerce.number().positive().nullable().optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof CurrencyError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/currency/rates - Firm exchange rates (?from=USD&to=CAD&startDate&endDate)
+router.get("/rates", async (req: Request, res: Response) => {
+  try {
+    const rates = await currencyService.listRates(req.user?.firmId, {
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+      startDate: req.query.startDate as string | undefined,
+      endDate: req.query.endDate as string | undefined,
+    });
+    res.json(rates);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch exchange rates");
+  }
+});
+
+// GET /api/currency/rates/lookup - Rate in effect on a date (?from=USD&to=CAD&date=2024-12-31)
+router.get("/rates/lookup", async (req: Request, res: Response) => {
+  try {
+    const from = currencyCode.parse(req.query.from);
+    const to = currencyCode.parse(req.query.to);
+    const date = (req.query.date as string) || new Date().toISOString().split("T")[0];
+
+    const result = await currencyService.getRate(req.user?.firmId, from, to, date);
+    res.json({ from: from.toUpperCase(), to: to.toUpperCase(), date, ...result });
+  } catch (error) {
+    handleError(res, error, "Failed to look up exchange rate");
+  }
+});
+
+// POST /api/currency/rates - Add or replace a single rate
+router.post("/rates", async (req: Request, res: Response) => {
+  try {
+    const data = rateSchema.parse(req.body);
+    const rate = await currencyService.saveRate({
+      firmId: req.user?.firmId ?? null,
+      ...data,
+      user: req.user,
+    });
+    res.json(rate);
+  } catch (error) {
+    handleError(res, error, "Failed to save exchange rate");
+  }
+});
+
+// POST /api/currency/rates/import - CSV upload (file field "file", or { csv } in the body)
+router.post("/rates/import", upload.single("file"), async (req: Request, res: Response) => {
+  try {
+    const csvContent = req.file ? req.file.buffer.toString("utf8") : req.body.csv;
+    if (!csvContent) {
+      return res.status(400).json({ error: "No CSV file uploaded" });
+    }
+
+    const result = await currencyService.importRatesCsv(
+      req.user?.firmId ?? null,
+      csvContent,
+      req.user,
+      req.body.toCurrency
+    );
+
+    console.log(`💱 Imported ${result.imported} exchange rates (${result.errors.length} rows skipped)`);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to import exchange rates");
+  }
+});
+
+// GET /api/currency/:clientId/settings - Home currency and FX gain/loss accounts
+router.get("/:clientId/settings", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const settings = await currencyService.getSettings(clientId);
+    const accountCurrencies = await currencyService.getAccountCurrencies(clientId);
+    res.json({ ...settings, accountCurrencies });
+  } catch (error) {
+    handleError(res, error, "Failed to fetch currency settings");
+  }
+});
+
+// PUT /api/currency/:clientId/settings
+router.put("/:clientId/settings", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = settingsSchema.parse(req.body);
+    const settings = await currencyService.updateSettings(clientId, data, req.user);
+    res.json(settings);
+  } catch (error) {
+    handleError(res, error, "Failed to update currency settings");
+  }
+});
+
+// PUT /api/currency/:clientId/accounts/:accountId - Set an account's currency (home currency or null clears it)
+router.put("/:clientId/accounts/:accountId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const accountId = parseInt(req.params.accountId);
+    const currency = currencyCode.nullable().parse(req.body.currency ?? null);
+
+    const result = await currencyService.setAccountCurrency(clientId, accountId, currency);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to update account currency");
+  }
+});
+
+// GET /api/currency/:clientId/documents - Foreign-currency invoices and bills (?documentType=invoice|bill)
+router.get("/:clientId/documents", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const documentType = documentTypeSchema.optional().parse(req.query.documentType || undefined);
+    res.json(await currencyService.listDocumentCurrencies(clientId, documentType));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch document currencies");
+  }
+});
+
+// PUT /api/currency/:clientId/documents/:documentType/:documentId - Set an invoice or bill's currency and rate
+router.put("/:clientId/documents/:documentType/:documentId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const documentType = documentTypeSchema.parse(req.params.documentType);
+    const documentId = parseInt(req.params.documentId);
+    const data = documentCurrencySchema.parse(req.body);
+
+    const result = await currencyService.setDocumentCurrency(clientId, documentType, documentId, data, req.user);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to update document currency");
+  }
+});
+
+// GET /api/currency/:clientId/adjustments - Realized and unrealized FX history (?kind=realized|unrealized)
+router.get("/:clientId/adjustments", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const adjustments = await currencyService.getAdjustments(clientId, req.query.kind as string | undefined);
+    res.json(adjustments);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch FX adjustments");
+  }
+});
+
+// POST /api/currency/:clientId/revaluations - Period-end unrealized revaluation with automatic reversal
+router.post("/:clientId/revaluations", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const asOfDate = dateString.parse(req.body.asOfDate);
+
+    const result = await currencyService.revalue(clientId, asOfDate, req.user);
+    console.log(`💱 FX revaluation for client ${clientId} as of ${asOfDate}: ${result.amount}`);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to revalue foreign currency balances");
+  }
+});
+
+export default router;
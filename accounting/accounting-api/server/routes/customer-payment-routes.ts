@@ -0,0 +1,239 @@
+/**
+ * Customer Payment Routes
+ *
+ * Receive-payment across many invoices, credit notes, applying and refunding
+ * unapplied customer credit, voids, and the customer statement built from
+ * those allocations.
+ * Mounted at /api/customer-payments.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { customerPaymentService, CustomerPaymentError } from "../services/customer-payment-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+import { CurrencyError } from "../services/currency-service";
+
+const router = Router();
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const methodSchema = z.enum(["cash", "cheque", "e_transfer", "eft", "credit_card", "other"]);
+
+const allocationSchema = z.object({
+  invoiceId: z.coerce.number().int().positive(),
+  amount: z.coerce.number().positive(),
+});
+
+const paymentSchema = z.object({
+  customerId: z.coerce.number().int().positive(),
+  paymentDate: dateString,
+  amount: z.coerce.number().positive(),
+  method: methodSchema,
+  reference: z.string().trim().max(100).nullable().optional(),
+  depositAccountId: z.coerce.number().int().positive(),
+  arAccountId: z.coerce.number().int().positive().nullable().optional(),
+  currency: z.string().regex(/^[A-Za-z]{3}$/, "Currency must be a 3-letter ISO code").nullable().optional(),
+  exchangeRate: z.coerce.number().positive().nullable().optional(),
+  memo: z.string().trim().max(500).nullable().optional(),
+  allocations: z.array(allocationSchema).default([]),
+});
+
+const creditNoteSchema = z.object({
+  customerId: z.coerce.number().int().positive(),
+  issueDate: dateString,
+  invoiceId: z.coerce.number().int().positive().nullable().optional(),
+  reason: z.string().trim().max(500).nullable().optional(),
+  lines: z
+    .array(
+      z.object({
+        description: z.string().trim().min(1, "Line description is required"),
+        amount: z.coerce.number().positive(),
+        accountId: z.coerce.number().int().positive(),
+      })
+    )
+    .min(1, "At least one line is required"),
+  taxAmount: z.coerce.number().min(0).optional(),
+  taxAccountId: z.coerce.number().int().positive().nullable().optional(),
+  arAccountId: z.coerce.number().int().positive().nullable().optional(),
+  applyToInvoice: z.boolean().optional(),
+});
+
+const sourceSchema = {
+  source: z.enum(["payment", "credit_note"]),
+  sourceId: z.coerce.number().int().positive(),
+};
+
+const applySchema = z.object({
+  ...sourceSchema,
+  appliedDate: dateString.optional(),
+  allocations: z.array(allocationSchema).min(1, "Select at least one invoice"),
+});
+
+const refundSchema = z.object({
+  ...sourceSchema,
+  amount: z.coerce.number().positive(),
+  refundDate: dateString,
+  bankAccountId: z.coerce.number().int().positive(),
+  method: methodSchema,
+  reference: z.string().trim().max(100).nullable().optional(),
+});
+
+const statementQuerySchema = z.object({
+  startDate: dateString.optional(),
+  endDate: dateString.optional(),
+});
+
+function optionalId(value: unknown): number | undefined {
+  return value ? parseInt(value as string) : undefined;
+}
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof CustomerPaymentError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  if (error instanceof CurrencyError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/customer-payments/:clientId/open-invoices?customerId=
+router.get("/:clientId/open-invoices", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await customerPaymentService.listOpenInvoices(clientId, optionalId(req.query.customerId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch open invoices");
+  }
+});
+
+// GET /api/customer-payments/:clientId/payments?customerId=
+router.get("/:clientId/payments", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await customerPaymentService.listPayments(clientId, optionalId(req.query.customerId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch customer payments");
+  }
+});
+
+// POST /api/customer-payments/:clientId/payments - Receive one payment across many invoices
+router.post("/:clientId/payments", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = paymentSchema.parse(req.body);
+    res.status(201).json(await customerPaymentService.receivePayment(clientId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to record customer payment");
+  }
+});
+
+// POST /api/customer-payments/:clientId/payments/:paymentId/void
+router.post("/:clientId/payments/:paymentId/void", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const paymentId = parseInt(req.params.paymentId);
+    res.json(await customerPaymentService.voidPayment(clientId, paymentId, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to void customer payment");
+  }
+});
+
+// GET /api/customer-payments/:clientId/credit-notes?customerId=
+router.get("/:clientId/credit-notes", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await customerPaymentService.listCreditNotes(clientId, optionalId(req.query.customerId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch credit notes");
+  }
+});
+
+// POST /api/customer-payments/:clientId/credit-notes
+router.post("/:clientId/credit-notes", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = creditNoteSchema.parse(req.body);
+    res.status(201).json(await customerPaymentService.createCreditNote(clientId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to create credit note");
+  }
+});
+
+// POST /api/customer-payments/:clientId/credit-notes/:creditNoteId/void
+router.post("/:clientId/credit-notes/:creditNoteId/void", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const creditNoteId = parseInt(req.params.creditNoteId);
+    res.json(await customerPaymentService.voidCreditNote(clientId, creditNoteId, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to void credit note");
+  }
+});
+
+// GET /api/customer-payments/:clientId/credits?customerId=&asOfDate= - Unapplied credit by payment / credit note
+router.get("/:clientId/credits", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const asOfDate = req.query.asOfDate ? dateString.parse(req.query.asOfDate) : undefined;
+    res.json(await customerPaymentService.listAvailableCredits(clientId, optionalId(req.query.customerId), asOfDate));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch customer credits");
+  }
+});
+
+// POST /api/customer-payments/:clientId/credits/apply
+router.post("/:clientId/credits/apply", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = applySchema.parse(req.body);
+    res.json(await customerPaymentService.applyCredit(clientId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to apply customer credit");
+  }
+});
+
+// POST /api/customer-payments/:clientId/credits/refund
+router.post("/:clientId/credits/refund", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = refundSchema.parse(req.body);
+    res.status(201).json(await customerPaymentService.refundCredit(clientId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to refund customer credit");
+  }
+});
+
+// DELETE /api/customer-payments/:clientId/applications/:applicationId - Un-apply credit from an invoice
+router.delete("/:clientId/applications/:applicationId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const applicationId = parseInt(req.params.applicationId);
+    res.json(await customerPaymentService.removeApplication(clientId, applicationId, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to remove credit application");
+  }
+});
+
+// GET /api/customer-payments/:clientId/customers/:customerId/statement?startDate=&endDate=
+router.get("/:clientId/customers/:customerId/statement", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const customerId = parseInt(req.params.customerId);
+    const range = statementQuerySchema.parse(req.query);
+    res.json(await customerPaymentService.getStatement(clientId, customerId, range));
+  } catch (error) {
+    handleError(res, error, "Failed to build customer statement");
+  }
+});
+
+export default router;
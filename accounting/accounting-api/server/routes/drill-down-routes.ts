@@ -0,0 +1,52 @@
+/**
+ * Drill-Down Routes
+ *
+ * Journal-entry lines and source documents behind a report balance. Shared by
+ * the financial statements, trial balance and binder sections so every report
+ * line drills down the same way.
+ * Mounted at /api/drill-down.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { drillDownService, DrillDownError } from "../services/drill-down-service";
+
+const router = Router();
+
+const dateKey = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Dates must be YYYY-MM-DD");
+const dimensionId = z.coerce.number().int().positive().optional();
+
+const drillDownQuerySchema = z.object({
+  startDate: dateKey.optional(),
+  endDate: dateKey,
+  projectId: dimensionId,
+  locationId: dimensionId,
+  classId: dimensionId,
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof DrillDownError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/drill-down/:clientId/accounts/:accountId - Lines behind an account balance
+router.get("/:clientId/accounts/:accountId", async (req: Request, res: Response) => {
+  try {
+    const query = drillDownQuerySchema.parse(req.query);
+    const result = await drillDownService.getAccountLines(parseInt(req.params.clientId), {
+      ...query,
+      accountId: parseInt(req.params.accountId),
+    });
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to load account drill-down");
+  }
+});
+
+export default router;
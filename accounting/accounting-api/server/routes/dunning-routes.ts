@@ -0,0 +1,173 @@
+/**
+ * Dunning Routes
+ *
+ * Per-client dunning: sequences of collection steps, customer exclusions and
+ * holds, the customer dunning log, the dry-run report of who would get what
+ * today, and a manual run. Due steps are also taken by the daily cron job in
+ * server/cron.ts.
+ * Mounted at /api/dunning.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { dunningService, DunningError } from "../services/dunning-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const stepSchema = z.object({
+  id: z.coerce.number().int().positive().nullable().optional(),
+  name: z.string().trim().min(1, "Step name is required"),
+  daysOverdue: z.coerce.number().int().min(1).max(3650),
+  templateId: z.coerce.number().int().positive().nullable().optional(),
+  emailSubject: z.string().trim().min(1, "Email subject is required").max(200),
+  includeStatement: z.boolean().optional(),
+  lateFeeType: z.enum(["none", "flat", "percent"]).optional(),
+  lateFeeValue: z.coerce.number().min(0).nullable().optional(),
+  lateFeeAccountId: z.coerce.number().int().positive().nullable().optional(),
+});
+
+const sequenceSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  isDefault: z.boolean().optional(),
+  isActive: z.boolean().optional(),
+  steps: z.array(stepSchema).min(1, "At least one step is required").max(20),
+});
+
+const customerSettingSchema = z.object({
+  excluded: z.boolean().optional(),
+  holdUntil: dateString.nullable().optional(),
+  reason: z.string().trim().max(500).nullable().optional(),
+  sequenceId: z.coerce.number().int().positive().nullable().optional(),
+});
+
+const runSchema = z.object({
+  asOfDate: dateString.optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof DunningError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/dunning/:clientId/sequences
+router.get("/:clientId/sequences", async (req: Request, res: Response) => {
+  try {
+    res.json(await dunningService.listSequences(parseInt(req.params.clientId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch dunning sequences");
+  }
+});
+
+// POST /api/dunning/:clientId/sequences
+router.post("/:clientId/sequences", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = sequenceSchema.parse(req.body);
+    res.status(201).json(await dunningService.createSequence(clientId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to create dunning sequence");
+  }
+});
+
+// PUT /api/dunning/:clientId/sequences/:sequenceId
+router.put("/:clientId/sequences/:sequenceId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const sequenceId = parseInt(req.params.sequenceId);
+    const data = sequenceSchema.parse(req.body);
+    res.json(await dunningService.updateSequence(clientId, sequenceId, data));
+  } catch (error) {
+    handleError(res, error, "Failed to update dunning sequence");
+  }
+});
+
+// DELETE /api/dunning/:clientId/sequences/:sequenceId
+router.delete("/:clientId/sequences/:sequenceId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const sequenceId = parseInt(req.params.sequenceId);
+    res.json(await dunningService.deleteSequence(clientId, sequenceId));
+  } catch (error) {
+    handleError(res, error, "Failed to delete dunning sequence");
+  }
+});
+
+// GET /api/dunning/:clientId/customers - Exclusions, holds and sequence overrides
+router.get("/:clientId/customers", async (req: Request, res: Response) => {
+  try {
+    res.json(await dunningService.listCustomerSettings(parseInt(req.params.clientId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch dunning customer settings");
+  }
+});
+
+// PUT /api/dunning/:clientId/customers/:customerId
+router.put("/:clientId/customers/:customerId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const customerId = parseInt(req.params.customerId);
+    const data = customerSettingSchema.parse(req.body);
+    res.json(await dunningService.updateCustomerSetting(clientId, customerId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to save dunning customer setting");
+  }
+});
+
+// DELETE /api/dunning/:clientId/customers/:customerId - Back to the default sequence
+router.delete("/:clientId/customers/:customerId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const customerId = parseInt(req.params.customerId);
+    res.json(await dunningService.clearCustomerSetting(clientId, customerId));
+  } catch (error) {
+    handleError(res, error, "Failed to clear dunning customer setting");
+  }
+});
+
+// GET /api/dunning/:clientId/log?customerId= - Steps taken, with send status
+router.get("/:clientId/log", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const customerId = req.query.customerId ? parseInt(req.query.customerId as string) : undefined;
+    res.json(await dunningService.listActions(clientId, customerId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch dunning log");
+  }
+});
+
+// GET /api/dunning/:clientId/dry-run?asOfDate= - Who would get what, without sending
+router.get("/:clientId/dry-run", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const { asOfDate } = runSchema.parse(req.query);
+    res.json(await dunningService.run(clientId, { asOfDate, dryRun: true }, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to build dunning report");
+  }
+});
+
+// POST /api/dunning/:clientId/run - Take today's due steps now
+router.post("/:clientId/run", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await dunningService.run(clientId, {}, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to run dunning");
+  }
+});
+
+export default router;
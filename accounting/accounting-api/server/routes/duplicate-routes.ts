@@ -0,0 +1,167 @@
+/**
+ * Duplicate Transaction Routes
+ *
+ * Screening of import and feed batches for transactions already in the
+ * ledger, the review queue of suspected duplicates, forced imports with a
+ * logged reason, and the override log. Mounted at /api/duplicates.
+ * screenBulkImport screens /api/simple/bulk-import batches before they post.
+ */
+
+import { Router, Request, Response, NextFunction } from "express";
+import { z } from "zod";
+import { duplicateDetectionService, DuplicateError } from "../services/duplicate-detection-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const screenSchema = z.object({
+  source: z.enum(["import", "feed"]).default("import"),
+  accountId: z.coerce.number().int().optional(),
+  rows: z
+    .array(
+      z
+        .object({
+          date: z.string().min(1),
+          description: z.string().default(""),
+          debitAmount: z.union([z.string(), z.number()]).optional(),
+          creditAmount: z.union([z.string(), z.number()]).optional(),
+          amount: z.union([z.string(), z.number()]).optional(),
+          fitId: z.string().nullable().optional(),
+          referenceNumber: z.string().nullable().optional(),
+          accountId: z.coerce.number().int().nullable().optional(),
+        })
+        .passthrough()
+    )
+    .max(5000),
+  force: z.object({ reason: z.string().trim().min(1, "A reason is required") }).optional(),
+});
+
+const bulkImportSchema = z
+  .object({
+    clientId: z.coerce.number().int().positive(),
+    accountId: z.coerce.number().int().optional(),
+    transactions: screenSchema.shape.rows,
+    force: screenSchema.shape.force,
+  })
+  .passthrough();
+
+const forceSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof DuplicateError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// POST /api/duplicates/:clientId/screen - Split a batch into rows to post, skipped repeats and queued suspects
+router.post("/:clientId/screen", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = screenSchema.parse(req.body);
+    const candidates = data.rows.map((row) => duplicateDetectionService.importCandidate(clientId, row, data.accountId));
+    const result = await duplicateDetectionService.screen(clientId, candidates, {
+      source: data.source,
+      user: req.user,
+      force: data.force,
+    });
+    res.json({
+      acceptedIndexes: result.accepted.map((entry) => entry.index),
+      skipped: result.skipped,
+      queued: result.queued,
+      summary: result.summary,
+    });
+  } catch (error) {
+    handleError(res, error, "Failed to check for duplicates");
+  }
+});
+
+/**
+ * Screens a bulk import before the simple import routes post it: repeats are
+ * dropped, suspects are held for review and only the rest go through. The
+ * response gains a `duplicates` summary.
+ */
+export async function screenBulkImport(req: Request, res: Response, next: NextFunction) {
+  try {
+    const data = bulkImportSchema.parse(req.body);
+    const candidates = data.transactions.map((row) =>
+      duplicateDetectionService.importCandidate(data.clientId, row, data.accountId)
+    );
+    const result = await duplicateDetectionService.screen(data.clientId, candidates, {
+      source: "import",
+      user: req.user,
+      force: data.force,
+    });
+
+    if (result.accepted.length === 0) {
+      return res.json({ success: true, imported: 0, duplicates: result.summary });
+    }
+
+    req.body = { ...req.body, transactions: result.accepted.map((entry) => data.transactions[entry.index]) };
+    delete req.body.force;
+
+    const json = res.json.bind(res);
+    res.json = (body: any) =>
+      json(body && typeof body === "object" && !Array.isArray(body) ? { ...body, duplicates: result.summary } : body);
+    next();
+  } catch (error) {
+    handleError(res, error, "Failed to check for duplicates");
+  }
+}
+
+// GET /api/duplicates/:clientId/queue - ?status=pending|imported|discarded
+router.get("/:clientId/queue", async (req: Request, res: Response) => {
+  try {
+    const status = typeof req.query.status === "string" ? req.query.status : "pending";
+    res.json({ items: await duplicateDetectionService.listQueue(parseInt(req.params.clientId), status) });
+  } catch (error) {
+    handleError(res, error, "Failed to load duplicate review queue");
+  }
+});
+
+// POST /api/duplicates/:clientId/queue/:itemId/import - Force a held transaction into the ledger
+router.post("/:clientId/queue/:itemId/import", async (req: Request, res: Response) => {
+  try {
+    const { reason } = forceSchema.parse(req.body);
+    const result = await duplicateDetectionService.forceImport(
+      parseInt(req.params.clientId),
+      parseInt(req.params.itemId),
+      reason,
+      req.user
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to import transaction");
+  }
+});
+
+// POST /api/duplicates/:clientId/queue/:itemId/discard - Drop a held transaction as a true duplicate
+router.post("/:clientId/queue/:itemId/discard", async (req: Request, res: Response) => {
+  try {
+    res.json(
+      await duplicateDetectionService.discard(parseInt(req.params.clientId), parseInt(req.params.itemId), req.user)
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to discard transaction");
+  }
+});
+
+// GET /api/duplicates/:clientId/overrides - Forced imports and their reasons
+router.get("/:clientId/overrides", async (req: Request, res: Response) => {
+  try {
+    res.json({ overrides: await duplicateDetectionService.getOverrides(parseInt(req.params.clientId)) });
+  } catch (error) {
+    handleError(res, error, "Failed to load duplicate overrides");
+  }
+});
+
+export default router;
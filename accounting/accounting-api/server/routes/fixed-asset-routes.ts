@@ -0,0 +1,231 @@
+/**
+ * Fixed Asset Routes
+ *
+ * Per-client fixed asset register: assets with CCA class and book depreciation
+ * settings, disposals, monthly book depreciation posting (with preview), the
+ * T2 Schedule 8 CCA continuity with opening UCC / claimed CCA per class and
+ * year, and the fixed-asset working paper (download, or attach to the Binder's
+ * generated working papers).
+ * Mounted at /api/fixed-assets.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { fixedAssetService, FixedAssetError } from "../services/fixed-asset-service";
+import { CCA_CLASSES } from "../services/cca-schedule";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const accountId = z.coerce.number().int().positive().nullable().optional();
+
+const assetSchema = z.object({
+  assetNumber: z.string().nullable().optional(),
+  name: z.string().min(1, "Name is required"),
+  description: z.string().nullable().optional(),
+  acquisitionDate: dateString,
+  cost: z.coerce.number().positive("Cost must be greater than zero"),
+  ccaClass: z.string().min(1, "CCA class is required"),
+  ccaRate: z.coerce.number().min(0).max(100).nullable().optional(),
+  ccaRule: z.enum(["half_year", "aiip", "none"]).optional(),
+  bookMethod: z.enum(["straight_line", "declining_balance", "none"]).optional(),
+  usefulLifeMonths: z.coerce.number().int().positive().nullable().optional(),
+  bookRate: z.coerce.number().positive().max(100).nullable().optional(),
+  salvageValue: z.coerce.number().min(0).optional(),
+  openingAccumulatedDepreciation: z.coerce.number().min(0).optional(),
+  openingDepreciationDate: dateString.nullable().optional(),
+  assetAccountId: accountId,
+  accumulatedDepreciationAccountId: accountId,
+  depreciationExpenseAccountId: accountId,
+  notes: z.string().nullable().optional(),
+});
+
+const disposalSchema = z.object({
+  disposalDate: dateString,
+  proceeds: z.coerce.number().min(0),
+  proceedsAccountId: accountId,
+  gainLossAccountId: accountId,
+});
+
+const classYearSchema = z.object({
+  ccaClass: z.string().min(1),
+  taxYearEnd: dateString,
+  openingUcc: z.coerce.number().nullable().optional(),
+  ccaClaimed: z.coerce.number().min(0).nullable().optional(),
+});
+
+function parseDate(value: unknown): string | undefined {
+  return typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+}
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof FixedAssetError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/fixed-assets/cca-classes - Common CCA classes and rates
+router.get("/cca-classes", (_req: Request, res: Response) => {
+  res.json(
+    Object.entries(CCA_CLASSES).map(([ccaClass, info]) => ({ ccaClass, ...info }))
+  );
+});
+
+// GET /api/fixed-assets/:clientId
+router.get("/:clientId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const assets = await fixedAssetService.listAssets(clientId);
+    res.json(assets);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch fixed assets");
+  }
+});
+
+// POST /api/fixed-assets/:clientId
+router.post("/:clientId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = assetSchema.parse(req.body);
+    const asset = await fixedAssetService.createAsset(clientId, data, req.user);
+    res.status(201).json(asset);
+  } catch (error) {
+    handleError(res, error, "Failed to create fixed asset");
+  }
+});
+
+// GET /api/fixed-assets/:clientId/depreciation/preview?through=YYYY-MM-DD
+router.get("/:clientId/depreciation/preview", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const through = parseDate(req.query.through) || new Date().toISOString().split("T")[0];
+    const plan = await fixedAssetService.previewDepreciation(clientId, through, req.user);
+    res.json(plan);
+  } catch (error) {
+    handleError(res, error, "Failed to preview depreciation");
+  }
+});
+
+// POST /api/fixed-assets/:clientId/depreciation/post - Post book depreciation through a month end
+router.post("/:clientId/depreciation/post", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const { through } = z.object({ through: dateString }).parse(req.body);
+    const result = await fixedAssetService.postDepreciation(clientId, through, req.user);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to post depreciation");
+  }
+});
+
+// GET /api/fixed-assets/:clientId/schedule-8?date=YYYY-MM-DD - CCA continuity for the tax year containing date
+router.get("/:clientId/schedule-8", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const continuity = await fixedAssetService.getContinuity(clientId, parseDate(req.query.date));
+    res.json(continuity);
+  } catch (error) {
+    handleError(res, error, "Failed to build CCA schedule");
+  }
+});
+
+// PUT /api/fixed-assets/:clientId/cca-class-years - Opening UCC and/or CCA claimed for a class and year
+router.put("/:clientId/cca-class-years", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = classYearSchema.parse(req.body);
+    const row = await fixedAssetService.setClassYear(clientId, data);
+    res.json(row);
+  } catch (error) {
+    handleError(res, error, "Failed to save CCA class year");
+  }
+});
+
+// GET /api/fixed-assets/:clientId/working-paper?date=YYYY-MM-DD - Download the working paper workbook
+router.get("/:clientId/working-paper", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const { buffer, fileName } = await fixedAssetService.buildWorkingPaper(clientId, parseDate(req.query.date));
+
+    res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+    res.setHeader("Content-Disposition", `attachment; filename=${fileName}`);
+    res.send(buffer);
+  } catch (error) {
+    handleError(res, error, "Failed to generate fixed asset working paper");
+  }
+});
+
+// POST /api/fixed-assets/:clientId/working-paper/attach - Save the working paper for the Binder PP&E section
+router.post("/:clientId/working-paper/attach", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const result = await fixedAssetService.attachWorkingPaper(clientId, parseDate(req.body?.date));
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to attach fixed asset working paper");
+  }
+});
+
+// GET /api/fixed-assets/:clientId/:assetId
+router.get("/:clientId/:assetId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const assetId = parseInt(req.params.assetId);
+    const asset = await fixedAssetService.getAsset(clientId, assetId);
+    res.json(asset);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch fixed asset");
+  }
+});
+
+// PUT /api/fixed-assets/:clientId/:assetId
+router.put("/:clientId/:assetId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const assetId = parseInt(req.params.assetId);
+    const data = assetSchema.parse(req.body);
+    const asset = await fixedAssetService.updateAsset(clientId, assetId, data);
+    res.json(asset);
+  } catch (error) {
+    handleError(res, error, "Failed to update fixed asset");
+  }
+});
+
+// POST /api/fixed-assets/:clientId/:assetId/dispose
+router.post("/:clientId/:assetId/dispose", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const assetId = parseInt(req.params.assetId);
+    const data = disposalSchema.parse(req.body);
+    const asset = await fixedAssetService.disposeAsset(clientId, assetId, data, req.user);
+    res.json(asset);
+  } catch (error) {
+    handleError(res, error, "Failed to dispose fixed asset");
+  }
+});
+
+// DELETE /api/fixed-assets/:clientId/:assetId
+router.delete("/:clientId/:assetId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const assetId = parseInt(req.params.assetId);
+    const result = await fixedAssetService.deleteAsset(clientId, assetId);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to delete fixed asset");
+  }
+});
+
+export default router;
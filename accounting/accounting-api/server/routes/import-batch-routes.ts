@@ -0,0 +1,128 @@
+/**
+ * Import Batch Routes
+ *
+ * Per-client import history, rollback of a whole import, the mapping of the
+ * last import from a source, and bank transaction imports recorded as a
+ * batch. Mounted at /api/import-batches.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { importBatchService, ImportBatchError } from "../services/import-batch-service";
+import { DuplicateError } from "../services/duplicate-detection-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const sourceSchema = z.enum(["general_ledger", "journal_entries", "transactions"]);
+
+const batchMetaSchema = z.object({
+  fileName: z.string().nullable().optional(),
+  fileHash: z.string().nullable().optional(),
+  sourceName: z.string().nullable().optional(),
+  mapping: z.unknown().optional(),
+});
+
+const transactionImportSchema = z.object({
+  accountId: z.coerce.number().int().optional(),
+  rows: z
+    .array(
+      z
+        .object({
+          date: z.string().min(1),
+          description: z.string().default(""),
+          debitAmount: z.union([z.string(), z.number()]).optional(),
+          creditAmount: z.union([z.string(), z.number()]).optional(),
+          amount: z.union([z.string(), z.number()]).optional(),
+          referenceNumber: z.string().nullable().optional(),
+          accountId: z.coerce.number().int().nullable().optional(),
+        })
+        .passthrough()
+    )
+    .min(1)
+    .max(5000),
+  batch: batchMetaSchema.optional(),
+  force: z.object({ reason: z.string().trim().min(1, "A reason is required") }).optional(),
+});
+
+const rollbackSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required"),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof ImportBatchError || error instanceof DuplicateError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/import-batches/:clientId - Import history, newest first
+router.get("/:clientId", async (req: Request, res: Response) => {
+  try {
+    res.json({ batches: await importBatchService.listBatches(parseInt(req.params.clientId)) });
+  } catch (error) {
+    handleError(res, error, "Failed to load import history");
+  }
+});
+
+// GET /api/import-batches/:clientId/mapping - ?source=&sourceName= mapping of the last import from that source
+router.get("/:clientId/mapping", async (req: Request, res: Response) => {
+  try {
+    const source = sourceSchema.parse(req.query.source);
+    const sourceName = typeof req.query.sourceName === "string" ? req.query.sourceName : undefined;
+    res.json({ lastMapping: await importBatchService.getLastMapping(parseInt(req.params.clientId), source, sourceName) });
+  } catch (error) {
+    handleError(res, error, "Failed to load import mapping");
+  }
+});
+
+// POST /api/import-batches/:clientId/transactions - Import bank lines as one batch
+router.post("/:clientId/transactions", async (req: Request, res: Response) => {
+  try {
+    const data = transactionImportSchema.parse(req.body);
+    const result = await importBatchService.importTransactions(
+      parseInt(req.params.clientId),
+      data.rows,
+      { ...data.batch, accountId: data.accountId, force: data.force },
+      req.user
+    );
+    res.status(201).json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to import transactions");
+  }
+});
+
+// GET /api/import-batches/:clientId/:batchId
+router.get("/:clientId/:batchId", async (req: Request, res: Response) => {
+  try {
+    res.json(await importBatchService.getBatch(parseInt(req.params.clientId), parseInt(req.params.batchId)));
+  } catch (error) {
+    handleError(res, error, "Failed to load import batch");
+  }
+});
+
+// POST /api/import-batches/:clientId/:batchId/rollback - Delete everything the import created
+router.post("/:clientId/:batchId/rollback", async (req: Request, res: Response) => {
+  try {
+    const { reason } = rollbackSchema.parse(req.body);
+    res.json(
+      await importBatchService.rollback(
+        parseInt(req.params.clientId),
+        parseInt(req.params.batchId),
+        reason,
+        req.user
+      )
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to roll back import");
+  }
+});
+
+export default router;
@@ -0,0 +1,96 @@
+/**
+ * Mapping Profile Routes
+ *
+ * Saved column mappings for bank and source system file exports, per firm.
+ * The parse-file endpoints apply them automatically; these routes list, save
+ * and remove them. Mounted at /api/mapping-profiles.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  mappingProfileService,
+  MappingProfileError,
+  MAPPING_SOURCES,
+  AMOUNT_MODES,
+  SIGN_CONVENTIONS,
+  DATE_FORMATS,
+  DECIMAL_SEPARATORS,
+} from "../services/mapping-profile-service";
+
+const router = Router();
+
+const profileSchema = z.object({
+  name: z.string().trim().min(1, "Name is required"),
+  source: z.enum(MAPPING_SOURCES),
+  // Leave empty to share the profile with every client of the firm
+  clientId: z.coerce.number().int().positive().nullable().optional(),
+  institution: z.string().nullable().optional(),
+  headers: z.array(z.coerce.string()).min(1, "A header row is required"),
+  headerRowOffset: z.coerce.number().int().min(0).max(50).optional(),
+  columnMapping: z.record(z.string().min(1)),
+  amountMode: z.enum(AMOUNT_MODES).optional(),
+  signConvention: z.enum(SIGN_CONVENTIONS).optional(),
+  dateFormat: z.enum(DATE_FORMATS).optional(),
+  decimalSeparator: z.enum(DECIMAL_SEPARATORS).optional(),
+});
+
+const listQuerySchema = z.object({
+  source: z.enum(MAPPING_SOURCES).optional(),
+  clientId: z.coerce.number().int().positive().optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof MappingProfileError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/mapping-profiles?source=&clientId= - Shared profiles plus the client's own
+router.get("/", async (req: Request, res: Response) => {
+  try {
+    const filter = listQuerySchema.parse(req.query);
+    const firmId = await mappingProfileService.resolveFirmId(filter.clientId ?? null, req.user);
+    res.json({ profiles: await mappingProfileService.listProfiles(firmId, filter) });
+  } catch (error) {
+    handleError(res, error, "Failed to load mapping profiles");
+  }
+});
+
+router.post("/", async (req: Request, res: Response) => {
+  try {
+    const data = profileSchema.parse(req.body);
+    const firmId = await mappingProfileService.resolveFirmId(data.clientId ?? null, req.user);
+    res.status(201).json(await mappingProfileService.createProfile(firmId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to save mapping profile");
+  }
+});
+
+router.put("/:profileId", async (req: Request, res: Response) => {
+  try {
+    const data = profileSchema.parse(req.body);
+    const firmId = await mappingProfileService.resolveFirmId(data.clientId ?? null, req.user);
+    res.json(await mappingProfileService.updateProfile(firmId, parseInt(req.params.profileId), data));
+  } catch (error) {
+    handleError(res, error, "Failed to update mapping profile");
+  }
+});
+
+router.delete("/:profileId", async (req: Request, res: Response) => {
+  try {
+    const { clientId } = listQuerySchema.parse(req.query);
+    const firmId = await mappingProfileService.resolveFirmId(clientId ?? null, req.user);
+    await mappingProfileService.deleteProfile(firmId, parseInt(req.params.profileId));
+    res.json({ success: true });
+  } catch (error) {
+    handleError(res, error, "Failed to delete mapping profile");
+  }
+});
+
+export default router;
@@ -0,0 +1,119 @@
+/**
+ * Period Lock Routes
+ *
+ * Per-client "closed through" and staff soft-lock dates, controlled reopen
+ * and the lock audit trail. Mounted at /api/period-locks.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  periodLockService,
+  PeriodLockChangeError,
+} from "../services/period-lock-service";
+
+const router = Router();
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const updateLockSchema = z.object({
+  closedThroughDate: dateString.nullable().optional(),
+  softLockDate: dateString.nullable().optional(),
+  reason: z.string().optional(),
+});
+
+const reopenSchema = z.object({
+  closedThroughDate: dateString.nullable().optional(),
+  softLockDate: dateString.nullable().optional(),
+  reason: z.string().min(1, "A reason is required to reopen a period"),
+}).refine(
+  (data) => data.closedThroughDate !== undefined || data.softLockDate !== undefined,
+  { message: "Specify the new closedThroughDate or softLockDate (null to clear)" }
+);
+
+// GET /api/period-locks/:clientId - Current lock dates for a client
+router.get("/:clientId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const lock = await periodLockService.getLock(clientId);
+
+    res.json({
+      clientId,
+      closedThroughDate: lock?.closedThroughDate ?? null,
+      softLockDate: lock?.softLockDate ?? null,
+      updatedBy: lock?.updatedBy ?? null,
+      updatedAt: lock?.updatedAt ?? null,
+    });
+  } catch (error) {
+    console.error("Error fetching period lock:", error);
+    res.status(500).json({ error: "Failed to fetch period lock" });
+  }
+});
+
+// PUT /api/period-locks/:clientId - Set or advance lock dates (manager only)
+router.put("/:clientId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = updateLockSchema.parse(req.body);
+
+    const lock = await periodLockService.updateLock({
+      clientId,
+      ...data,
+      user: req.user,
+    });
+
+    res.json(lock);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid lock data", details: error.errors });
+    }
+    if (error instanceof PeriodLockChangeError) {
+      return res.status(error.status).json({ error: error.message, message: error.message });
+    }
+    console.error("Error updating period lock:", error);
+    res.status(500).json({ error: "Failed to update period lock" });
+  }
+});
+
+// POST /api/period-locks/:clientId/reopen - Move lock dates back with a stated reason (manager only)
+router.post("/:clientId/reopen", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = reopenSchema.parse(req.body);
+
+    const lock = await periodLockService.updateLock({
+      clientId,
+      closedThroughDate: data.closedThroughDate,
+      softLockDate: data.softLockDate,
+      reason: data.reason,
+      user: req.user,
+    });
+
+    res.json(lock);
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return res.status(400).json({ error: "Invalid reopen request", details: error.errors });
+    }
+    if (error instanceof PeriodLockChangeError) {
+      return res.status(error.status).json({ error: error.message, message: error.message });
+    }
+    console.error("Error reopening period:", error);
+    res.status(500).json({ error: "Failed to reopen period" });
+  }
+});
+
+// GET /api/period-locks/:clientId/audit - Lock and reopen history
+router.get("/:clientId/audit", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const history = await periodLockService.getAuditLog(clientId);
+    res.json(history);
+  } catch (error) {
+    console.error("Error fetching period lock audit log:", error);
+    res.status(500).json({ error: "Failed to fetch period lock audit log" });
+  }
+});
+
+export default router;
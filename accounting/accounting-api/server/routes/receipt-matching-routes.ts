@@ -0,0 +1,126 @@
+/**
+ * Receipt Matching Routes
+ *
+ * Matching of processed receipts to the transactions that paid them, the
+ * "awaiting transaction" queue and the receipts attached to a transaction.
+ * Mounted at /api/receipt-matching.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { receiptMatchingService, ReceiptMatchError } from "../services/receipt-matching-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const recordReceiptsSchema = z.object({
+  receipts: z
+    .array(
+      z.object({
+        receiptId: z.coerce.string().min(1),
+        fileName: z.string().nullable().optional(),
+        extractedData: z.record(z.any()).nullable(),
+      })
+    )
+    .min(1)
+    .max(200),
+});
+
+const listQuerySchema = z.object({
+  status: z.enum(["awaiting_transaction", "matched", "dismissed"]).optional(),
+});
+
+const matchSchema = z.object({
+  transactionId: z.coerce.number().int().positive(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof ReceiptMatchError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+router.get("/:clientId/receipts", async (req: Request, res: Response) => {
+  try {
+    const { status } = listQuerySchema.parse(req.query);
+    res.json({ receipts: await receiptMatchingService.listReceipts(parseInt(req.params.clientId), status) });
+  } catch (error) {
+    handleError(res, error, "Failed to load receipt matches");
+  }
+});
+
+// POST /api/receipt-matching/:clientId/receipts - Record OCR fields of processed receipts and match them
+router.post("/:clientId/receipts", async (req: Request, res: Response) => {
+  try {
+    const { receipts } = recordReceiptsSchema.parse(req.body);
+    res.json({
+      receipts: await receiptMatchingService.recordReceipts(parseInt(req.params.clientId), receipts, req.user),
+    });
+  } catch (error) {
+    handleError(res, error, "Failed to match receipts");
+  }
+});
+
+// POST /api/receipt-matching/:clientId/match-awaiting - Retry the awaiting transaction queue
+router.post("/:clientId/match-awaiting", async (req: Request, res: Response) => {
+  try {
+    res.json(await receiptMatchingService.matchAwaiting(parseInt(req.params.clientId), req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to match awaiting receipts");
+  }
+});
+
+router.get("/:clientId/transactions/:transactionId", async (req: Request, res: Response) => {
+  try {
+    res.json({
+      receipts: await receiptMatchingService.getForTransaction(
+        parseInt(req.params.clientId),
+        parseInt(req.params.transactionId)
+      ),
+    });
+  } catch (error) {
+    handleError(res, error, "Failed to load transaction receipts");
+  }
+});
+
+router.post("/:clientId/receipts/:receiptId/match", async (req: Request, res: Response) => {
+  try {
+    const { transactionId } = matchSchema.parse(req.body);
+    res.json(
+      await receiptMatchingService.matchManually(
+        parseInt(req.params.clientId),
+        req.params.receiptId,
+        transactionId,
+        req.user
+      )
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to match receipt");
+  }
+});
+
+router.post("/:clientId/receipts/:receiptId/unmatch", async (req: Request, res: Response) => {
+  try {
+    res.json(await receiptMatchingService.unmatch(parseInt(req.params.clientId), req.params.receiptId, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to unmatch receipt");
+  }
+});
+
+router.post("/:clientId/receipts/:receiptId/dismiss", async (req: Request, res: Response) => {
+  try {
+    res.json(await receiptMatchingService.dismiss(parseInt(req.params.clientId), req.params.receiptId));
+  } catch (error) {
+    handleError(res, error, "Failed to dismiss receipt");
+  }
+});
+
+export default router;
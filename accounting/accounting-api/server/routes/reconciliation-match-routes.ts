@@ -0,0 +1,128 @@
+/**
+ * Reconciliation Match Routes
+ *
+ * Matching engine for reconciliation sessions: proposed 1:1, 1:N and N:1
+ * matches with confidence and reasons, accepting and undoing matches, the
+ * client's matching tolerances and learned payee aliases.
+ * Mounted at /api/reconciliation ahead of the main reconciliation routes.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { requireAuthHybrid } from "../auth";
+import {
+  reconciliationMatchService,
+  ReconciliationMatchError,
+} from "../services/reconciliation-match-service";
+
+const router = Router();
+
+const tolerancesSchema = z.object({
+  amountTolerance: z.coerce.number().min(0).max(1000).optional(),
+  dateWindowDays: z.coerce.number().int().min(0).max(60).optional(),
+  minConfidence: z.coerce.number().int().min(0).max(100).optional(),
+  maxGroupSize: z.coerce.number().int().min(2).max(10).optional(),
+});
+
+const acceptMatchSchema = z.object({
+  itemIds: z.array(z.coerce.number().int()).min(1, "Select at least one statement line"),
+  transactionIds: z.array(z.coerce.number().int()).min(1, "Select at least one book transaction"),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof ReconciliationMatchError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/reconciliation/match-settings/:clientId
+router.get("/match-settings/:clientId", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json(await reconciliationMatchService.getSettings(parseInt(req.params.clientId)));
+  } catch (error) {
+    handleError(res, error, "Failed to load matching settings");
+  }
+});
+
+// PUT /api/reconciliation/match-settings/:clientId
+router.put("/match-settings/:clientId", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    const data = tolerancesSchema.parse(req.body);
+    res.json(await reconciliationMatchService.updateSettings(parseInt(req.params.clientId), data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to save matching settings");
+  }
+});
+
+// POST /api/reconciliation/sessions/:sessionId/match-proposals - Body overrides the saved tolerances for this run
+router.post("/sessions/:sessionId/match-proposals", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    const overrides = tolerancesSchema.parse(req.body || {});
+    res.json(await reconciliationMatchService.proposeMatches(parseInt(req.params.sessionId), overrides));
+  } catch (error) {
+    handleError(res, error, "Failed to find matches");
+  }
+});
+
+// GET /api/reconciliation/sessions/:sessionId/matches - Accepted matches
+router.get("/sessions/:sessionId/matches", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json({ matches: await reconciliationMatchService.listMatches(parseInt(req.params.sessionId)) });
+  } catch (error) {
+    handleError(res, error, "Failed to load matches");
+  }
+});
+
+// POST /api/reconciliation/sessions/:sessionId/matches - Accept a proposed or manual match
+router.post("/sessions/:sessionId/matches", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    const { itemIds, transactionIds } = acceptMatchSchema.parse(req.body);
+    const match = await reconciliationMatchService.acceptMatch(
+      parseInt(req.params.sessionId),
+      itemIds,
+      transactionIds,
+      req.user
+    );
+    res.status(201).json(match);
+  } catch (error) {
+    handleError(res, error, "Failed to accept match");
+  }
+});
+
+// DELETE /api/reconciliation/sessions/:sessionId/matches/:matchId
+router.delete("/sessions/:sessionId/matches/:matchId", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json(
+      await reconciliationMatchService.removeMatch(parseInt(req.params.sessionId), parseInt(req.params.matchId))
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to remove match");
+  }
+});
+
+// GET /api/reconciliation/payee-aliases/:clientId
+router.get("/payee-aliases/:clientId", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json({ aliases: await reconciliationMatchService.listAliases(parseInt(req.params.clientId)) });
+  } catch (error) {
+    handleError(res, error, "Failed to load payee aliases");
+  }
+});
+
+// DELETE /api/reconciliation/payee-aliases/:clientId/:aliasId
+router.delete("/payee-aliases/:clientId/:aliasId", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json(
+      await reconciliationMatchService.deleteAlias(parseInt(req.params.clientId), parseInt(req.params.aliasId))
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to delete payee alias");
+  }
+});
+
+export default router;
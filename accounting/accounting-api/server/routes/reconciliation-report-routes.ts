@@ -0,0 +1,93 @@
+/**
+ * Reconciliation Report Routes
+ *
+ * Bank reconciliation report (statement balance, outstanding cheques,
+ * deposits in transit, adjusted book balance), finalizing a session into a
+ * locked snapshot, undoing the last finalized reconciliation and the
+ * finalized reports pulled into the binder cash section.
+ * Mounted at /api/reconciliation ahead of the main reconciliation routes.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { requireAuthHybrid } from "../auth";
+import {
+  reconciliationReportService,
+  ReconciliationReportError,
+} from "../services/reconciliation-report-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const reopenSchema = z.object({
+  reason: z.string().trim().min(1, "A reason is required to reopen a reconciliation").max(500),
+});
+
+const finalizedQuerySchema = z.object({
+  asOfDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof ReconciliationReportError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/reconciliation/sessions/:sessionId/report - Finalized snapshot, or the live draft
+router.get("/sessions/:sessionId/report", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json(await reconciliationReportService.getReport(parseInt(req.params.sessionId)));
+  } catch (error) {
+    handleError(res, error, "Failed to build reconciliation report");
+  }
+});
+
+// POST /api/reconciliation/sessions/:sessionId/finalize
+router.post("/sessions/:sessionId/finalize", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json(await reconciliationReportService.finalize(parseInt(req.params.sessionId), req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to finalize reconciliation");
+  }
+});
+
+// POST /api/reconciliation/sessions/:sessionId/reopen - Undo the account's last finalized reconciliation
+router.post("/sessions/:sessionId/reopen", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    const { reason } = reopenSchema.parse(req.body);
+    res.json(await reconciliationReportService.reopen(parseInt(req.params.sessionId), reason, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to reopen reconciliation");
+  }
+});
+
+// GET /api/reconciliation/sessions/:sessionId/audit-trail
+router.get("/sessions/:sessionId/audit-trail", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    res.json({ events: await reconciliationReportService.getAuditTrail(parseInt(req.params.sessionId)) });
+  } catch (error) {
+    handleError(res, error, "Failed to load reconciliation history");
+  }
+});
+
+// GET /api/reconciliation/reports/:clientId/finalized - Latest finalized report per bank account
+router.get("/reports/:clientId/finalized", requireAuthHybrid, async (req: Request, res: Response) => {
+  try {
+    const { asOfDate } = finalizedQuerySchema.parse(req.query);
+    res.json({
+      reports: await reconciliationReportService.getFinalizedReports(parseInt(req.params.clientId), asOfDate),
+    });
+  } catch (error) {
+    handleError(res, error, "Failed to load finalized reconciliations");
+  }
+});
+
+export default router;
@@ -0,0 +1,245 @@
+/**
+ * Recurring Invoice Routes
+ *
+ * Recurring invoice profiles for a client's customers: create/update/delete,
+ * scheduled price changes, the next month's billing preview, skipping a cycle,
+ * pausing/resuming a profile, billing history per customer and a manual
+ * "run now". Due invoices are also generated by the hourly cron job in
+ * server/cron.ts.
+ * Mounted at /api/recurring-invoices.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  recurringInvoiceService,
+  RecurringInvoiceError,
+} from "../services/recurring-invoice-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const monthString = z.string().regex(/^\d{4}-\d{2}$/, "Month must be in YYYY-MM format");
+
+const lineSchema = z.object({
+  id: z.coerce.number().int().positive().nullable().optional(),
+  description: z.string().trim().min(1, "Line description is required"),
+  quantity: z.coerce.number().positive().default(1),
+  rate: z.coerce.number().min(0),
+  accountId: z.coerce.number().int(),
+});
+
+const profileSchema = z.object({
+  customerId: z.coerce.number().int().positive(),
+  name: z.string().trim().min(1, "Name is required"),
+  frequency: z.enum(["monthly", "quarterly", "annually"]),
+  dayOfMonth: z.coerce.number().int().min(1).max(31).nullable().optional(),
+  startDate: dateString,
+  endDate: dateString.nullable().optional(),
+  paymentTermsDays: z.coerce.number().int().min(0).max(365).optional(),
+  taxRate: z.coerce.number().min(0).max(1).optional(),
+  taxAccountId: z.coerce.number().int().nullable().optional(),
+  arAccountId: z.coerce.number().int().nullable().optional(),
+  templateId: z.coerce.number().int().nullable().optional(),
+  notes: z.string().nullable().optional(),
+  autoSend: z.boolean().optional(),
+  lines: z.array(lineSchema).min(1, "At least one line is required"),
+});
+
+const priceChangeSchema = z.object({
+  lineId: z.coerce.number().int().positive(),
+  effectiveDate: dateString,
+  rate: z.coerce.number().min(0),
+});
+
+const skipSchema = z.object({
+  occurrenceDate: dateString,
+  reason: z.string().trim().max(500).nullable().optional(),
+});
+
+const runsQuerySchema = z.object({
+  profileId: z.coerce.number().int().positive().optional(),
+  customerId: z.coerce.number().int().positive().optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof RecurringInvoiceError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/recurring-invoices/:clientId/profiles
+router.get("/:clientId/profiles", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await recurringInvoiceService.listProfiles(clientId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch recurring invoice profiles");
+  }
+});
+
+// GET /api/recurring-invoices/:clientId/preview?month=YYYY-MM - Billing run for a month (next month by default)
+router.get("/:clientId/preview", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const month = req.query.month ? monthString.parse(req.query.month) : undefined;
+    res.json(await recurringInvoiceService.previewMonth(clientId, month, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to preview recurring invoices");
+  }
+});
+
+// GET /api/recurring-invoices/:clientId/runs?customerId=&profileId= - Billing history
+router.get("/:clientId/runs", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const filters = runsQuerySchema.parse(req.query);
+    res.json(await recurringInvoiceService.listRuns(clientId, filters));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch recurring invoice history");
+  }
+});
+
+// POST /api/recurring-invoices/:clientId/profiles
+router.post("/:clientId/profiles", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = profileSchema.parse(req.body);
+    const profile = await recurringInvoiceService.createProfile(clientId, data, req.user);
+
+    console.log(`🧾 Created recurring invoice profile "${profile.name}" for client ${clientId}`);
+    res.status(201).json(profile);
+  } catch (error) {
+    handleError(res, error, "Failed to create recurring invoice profile");
+  }
+});
+
+// GET /api/recurring-invoices/:clientId/profiles/:profileId - Profile with price changes and history
+router.get("/:clientId/profiles/:profileId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    res.json(await recurringInvoiceService.getProfile(clientId, profileId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch recurring invoice profile");
+  }
+});
+
+// PUT /api/recurring-invoices/:clientId/profiles/:profileId
+router.put("/:clientId/profiles/:profileId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    const data = profileSchema.parse(req.body);
+    res.json(await recurringInvoiceService.updateProfile(clientId, profileId, data));
+  } catch (error) {
+    handleError(res, error, "Failed to update recurring invoice profile");
+  }
+});
+
+// DELETE /api/recurring-invoices/:clientId/profiles/:profileId
+router.delete("/:clientId/profiles/:profileId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    res.json(await recurringInvoiceService.deleteProfile(clientId, profileId));
+  } catch (error) {
+    handleError(res, error, "Failed to delete recurring invoice profile");
+  }
+});
+
+// POST /api/recurring-invoices/:clientId/profiles/:profileId/pause
+router.post("/:clientId/profiles/:profileId/pause", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    res.json(await recurringInvoiceService.pauseProfile(clientId, profileId));
+  } catch (error) {
+    handleError(res, error, "Failed to pause recurring invoice profile");
+  }
+});
+
+// POST /api/recurring-invoices/:clientId/profiles/:profileId/resume - Resume from the next cycle on or after today
+router.post("/:clientId/profiles/:profileId/resume", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    res.json(await recurringInvoiceService.resumeProfile(clientId, profileId));
+  } catch (error) {
+    handleError(res, error, "Failed to resume recurring invoice profile");
+  }
+});
+
+// POST /api/recurring-invoices/:clientId/profiles/:profileId/skip - Skip one upcoming cycle
+router.post("/:clientId/profiles/:profileId/skip", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    const { occurrenceDate, reason } = skipSchema.parse(req.body);
+    res.json(await recurringInvoiceService.skipOccurrence(clientId, profileId, occurrenceDate, reason, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to skip billing cycle");
+  }
+});
+
+// DELETE /api/recurring-invoices/:clientId/profiles/:profileId/skip/:occurrenceDate - Undo a skip
+router.delete("/:clientId/profiles/:profileId/skip/:occurrenceDate", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    const occurrenceDate = dateString.parse(req.params.occurrenceDate);
+    res.json(await recurringInvoiceService.unskipOccurrence(clientId, profileId, occurrenceDate));
+  } catch (error) {
+    handleError(res, error, "Failed to restore billing cycle");
+  }
+});
+
+// POST /api/recurring-invoices/:clientId/profiles/:profileId/price-changes - Schedule a new line rate
+router.post("/:clientId/profiles/:profileId/price-changes", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    const data = priceChangeSchema.parse(req.body);
+    res.status(201).json(await recurringInvoiceService.addPriceChange(clientId, profileId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to schedule price change");
+  }
+});
+
+// DELETE /api/recurring-invoices/:clientId/profiles/:profileId/price-changes/:changeId
+router.delete("/:clientId/profiles/:profileId/price-changes/:changeId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    const changeId = parseInt(req.params.changeId);
+    res.json(await recurringInvoiceService.deletePriceChange(clientId, profileId, changeId));
+  } catch (error) {
+    handleError(res, error, "Failed to delete price change");
+  }
+});
+
+// POST /api/recurring-invoices/:clientId/profiles/:profileId/run - Generate due invoices now
+router.post("/:clientId/profiles/:profileId/run", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const profileId = parseInt(req.params.profileId);
+    const asOfDate = req.body.asOfDate ? dateString.parse(req.body.asOfDate) : undefined;
+    res.json(await recurringInvoiceService.runProfileNow(clientId, profileId, asOfDate, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to run recurring invoice profile");
+  }
+});
+
+export default router;
@@ -0,0 +1,176 @@
+/**
+ * Recurring Journal Routes
+ *
+ * Recurring journal-entry templates per client: create/update/delete, preview
+ * of upcoming postings (saved templates and unsaved drafts), posting history
+ * and a manual "run now". Due occurrences are also posted by the hourly cron
+ * job in server/cron.ts.
+ * Mounted at /api/recurring-journals.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import {
+  recurringJournalService,
+  RecurringJournalError,
+} from "../services/recurring-journal-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const scheduleSchema = z.object({
+  frequency: z.enum(["monthly", "quarterly", "fiscal_year_end"]),
+  dayOfMonth: z.coerce.number().int().min(1).max(31).nullable().optional(),
+  startDate: dateString,
+  endDate: dateString.nullable().optional(),
+  maxOccurrences: z.coerce.number().int().positive().nullable().optional(),
+  autoReverse: z.boolean().optional(),
+});
+
+const lineSchema = z.object({
+  accountId: z.coerce.number().int(),
+  debitAmount: z.coerce.number().min(0).default(0),
+  creditAmount: z.coerce.number().min(0).default(0),
+  memo: z.string().nullable().optional(),
+});
+
+const templateSchema = scheduleSchema.extend({
+  name: z.string().min(1, "Name is required"),
+  description: z.string().min(1, "Description is required"),
+  isActive: z.boolean().optional(),
+  lines: z.array(lineSchema).min(2, "At least two lines are required"),
+});
+
+function parsePreviewCount(value: unknown): number {
+  const count = parseInt(value as string);
+  return Number.isFinite(count) && count > 0 ? Math.min(count, 60) : 12;
+}
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof RecurringJournalError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/recurring-journals/:clientId/templates
+router.get("/:clientId/templates", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const templates = await recurringJournalService.listTemplates(clientId);
+    res.json(templates);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch recurring journal templates");
+  }
+});
+
+// POST /api/recurring-journals/:clientId/preview - Upcoming dates for an unsaved schedule
+router.post("/:clientId/preview", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const schedule = scheduleSchema.parse(req.body);
+    const upcoming = await recurringJournalService.previewSchedule(
+      clientId,
+      schedule,
+      parsePreviewCount(req.body.count),
+      req.user
+    );
+    res.json(upcoming);
+  } catch (error) {
+    handleError(res, error, "Failed to preview recurring schedule");
+  }
+});
+
+// POST /api/recurring-journals/:clientId/templates
+router.post("/:clientId/templates", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = templateSchema.parse(req.body);
+    const template = await recurringJournalService.createTemplate(clientId, data, req.user);
+
+    res.status(201).json(template);
+  } catch (error) {
+    handleError(res, error, "Failed to create recurring journal template");
+  }
+});
+
+// GET /api/recurring-journals/:clientId/templates/:templateId - Template with posting history
+router.get("/:clientId/templates/:templateId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const templateId = parseInt(req.params.templateId);
+    const template = await recurringJournalService.getTemplate(clientId, templateId);
+    res.json(template);
+  } catch (error) {
+    handleError(res, error, "Failed to fetch recurring journal template");
+  }
+});
+
+// PUT /api/recurring-journals/:clientId/templates/:templateId
+router.put("/:clientId/templates/:templateId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const templateId = parseInt(req.params.templateId);
+    const data = templateSchema.parse(req.body);
+    const template = await recurringJournalService.updateTemplate(clientId, templateId, data);
+    res.json(template);
+  } catch (error) {
+    handleError(res, error, "Failed to update recurring journal template");
+  }
+});
+
+// DELETE /api/recurring-journals/:clientId/templates/:templateId
+router.delete("/:clientId/templates/:templateId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const templateId = parseInt(req.params.templateId);
+    const result = await recurringJournalService.deleteTemplate(clientId, templateId);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to delete recurring journal template");
+  }
+});
+
+// GET /api/recurring-journals/:clientId/templates/:templateId/preview?count=12
+router.get("/:clientId/templates/:templateId/preview", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const templateId = parseInt(req.params.templateId);
+    const upcoming = await recurringJournalService.previewTemplate(
+      clientId,
+      templateId,
+      parsePreviewCount(req.query.count),
+      req.user
+    );
+    res.json(upcoming);
+  } catch (error) {
+    handleError(res, error, "Failed to preview recurring journal template");
+  }
+});
+
+// POST /api/recurring-journals/:clientId/templates/:templateId/run - Post due occurrences now
+router.post("/:clientId/templates/:templateId/run", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const templateId = parseInt(req.params.templateId);
+    const asOfDate = req.body.asOfDate ? dateString.parse(req.body.asOfDate) : undefined;
+
+    const result = await recurringJournalService.runTemplateNow(clientId, templateId, asOfDate, req.user);
+    res.json(result);
+  } catch (error) {
+    handleError(res, error, "Failed to run recurring journal template");
+  }
+});
+
+export default router;
@@ -0,0 +1,65 @@
+/**
+ * Statement Import Routes
+ *
+ * Loads structured bank statements (OFX/QFX/QBO, CAMT.053/052) into a
+ * reconciliation session and seeds its period and statement balance.
+ * Mounted at /api/reconciliation ahead of the main reconciliation routes.
+ */
+
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import { requireAuthHybrid } from "../auth";
+import { parseBankStatement, StatementParseError } from "../services/bank-statement-parser";
+import {
+  bankStatementImportService,
+  StatementImportError,
+} from "../services/bank-statement-import-service";
+
+const router = Router();
+
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 10 * 1024 * 1024, // 10MB limit
+  },
+});
+
+// POST /api/reconciliation/sessions/:sessionId/import-statement - Load an OFX/QFX/QBO/CAMT file into a session
+router.post(
+  "/sessions/:sessionId/import-statement",
+  requireAuthHybrid,
+  upload.single("statement"),
+  async (req: Request, res: Response) => {
+    try {
+      if (!req.file) {
+        return res.status(400).json({ error: "No statement file uploaded" });
+      }
+
+      const sessionId = parseInt(req.params.sessionId);
+      const statement = parseBankStatement(req.file.buffer, req.file.originalname);
+
+      const result = await bankStatementImportService.importToReconciliationSession({
+        sessionId,
+        statement,
+        fileName: req.file.originalname,
+        user: req.user,
+      });
+
+      console.log(
+        `🏦 Statement imported into reconciliation session ${sessionId}: ${result.extractedCount} lines, ${result.duplicateCount} already loaded`
+      );
+      res.json({ success: true, ...result });
+    } catch (error) {
+      if (error instanceof StatementParseError) {
+        return res.status(400).json({ error: error.message, message: error.message });
+      }
+      if (error instanceof StatementImportError) {
+        return res.status(error.status).json({ error: error.message, message: error.message });
+      }
+      console.error("Error importing bank statement:", error);
+      res.status(500).json({ error: "Failed to import bank statement" });
+    }
+  }
+);
+
+export default router;
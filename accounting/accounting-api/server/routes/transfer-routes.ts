@@ -0,0 +1,182 @@
+/**
+ * Transfer Routes
+ *
+ * Inter-account transfer detection across a client's bank and credit card
+ * feeds: proposals, accepting a pair as one transfer entry, posting or linking
+ * unmatched halves, and the firm's window and internal account settings.
+ * Mounted at /api/transfers.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { transferDetectionService, TransferError } from "../services/transfer-detection-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+
+const router = Router();
+
+const settingsSchema = z.object({
+  dateWindowDays: z.coerce.number().int().min(0).max(30).optional(),
+  includeCreditCards: z.boolean().optional(),
+});
+
+const internalAccountsSchema = z.object({
+  accountIds: z.array(z.coerce.number().int()),
+});
+
+const pairSchema = z.object({
+  fromTransactionId: z.coerce.number().int(),
+  toTransactionId: z.coerce.number().int(),
+});
+
+const oneSidedSchema = z.object({
+  transactionId: z.coerce.number().int(),
+  counterpartAccountId: z.coerce.number().int(),
+});
+
+const linkSchema = z.object({
+  transactionId: z.coerce.number().int(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof TransferError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/transfers/settings - Firm date window and default internal accounts
+router.get("/settings", async (req: Request, res: Response) => {
+  try {
+    res.json(await transferDetectionService.getSettings(req.user?.firmId));
+  } catch (error) {
+    handleError(res, error, "Failed to load transfer settings");
+  }
+});
+
+// PUT /api/transfers/settings
+router.put("/settings", async (req: Request, res: Response) => {
+  try {
+    const data = settingsSchema.parse(req.body);
+    res.json(await transferDetectionService.updateSettings(req.user?.firmId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to save transfer settings");
+  }
+});
+
+// GET /api/transfers/:clientId/internal-accounts
+router.get("/:clientId/internal-accounts", async (req: Request, res: Response) => {
+  try {
+    res.json(await transferDetectionService.getInternalAccounts(parseInt(req.params.clientId), req.user?.firmId));
+  } catch (error) {
+    handleError(res, error, "Failed to load internal accounts");
+  }
+});
+
+// PUT /api/transfers/:clientId/internal-accounts - Empty list returns to the firm defaults
+router.put("/:clientId/internal-accounts", async (req: Request, res: Response) => {
+  try {
+    const { accountIds } = internalAccountsSchema.parse(req.body);
+    res.json(await transferDetectionService.setInternalAccounts(parseInt(req.params.clientId), accountIds, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to save internal accounts");
+  }
+});
+
+// GET /api/transfers/:clientId/proposals - ?startDate limits how far back to look
+router.get("/:clientId/proposals", async (req: Request, res: Response) => {
+  try {
+    const startDate = typeof req.query.startDate === "string" ? req.query.startDate : undefined;
+    res.json(await transferDetectionService.detect(parseInt(req.params.clientId), req.user?.firmId, { startDate }));
+  } catch (error) {
+    handleError(res, error, "Failed to detect transfers");
+  }
+});
+
+// GET /api/transfers/:clientId - Posted transfers
+router.get("/:clientId", async (req: Request, res: Response) => {
+  try {
+    res.json({ transfers: await transferDetectionService.listTransfers(parseInt(req.params.clientId)) });
+  } catch (error) {
+    handleError(res, error, "Failed to load transfers");
+  }
+});
+
+// POST /api/transfers/:clientId/accept - Post a detected pair as one transfer
+router.post("/:clientId/accept", async (req: Request, res: Response) => {
+  try {
+    const { fromTransactionId, toTransactionId } = pairSchema.parse(req.body);
+    const pair = await transferDetectionService.acceptPair(
+      parseInt(req.params.clientId),
+      fromTransactionId,
+      toTransactionId,
+      req.user
+    );
+    res.status(201).json(pair);
+  } catch (error) {
+    handleError(res, error, "Failed to post transfer");
+  }
+});
+
+// POST /api/transfers/:clientId/dismiss - Stop proposing a pair
+router.post("/:clientId/dismiss", async (req: Request, res: Response) => {
+  try {
+    const { fromTransactionId, toTransactionId } = pairSchema.parse(req.body);
+    res.json(
+      await transferDetectionService.dismissPair(parseInt(req.params.clientId), fromTransactionId, toTransactionId, req.user)
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to dismiss transfer");
+  }
+});
+
+// POST /api/transfers/:clientId/one-sided - Post an unmatched half against a chosen account
+router.post("/:clientId/one-sided", async (req: Request, res: Response) => {
+  try {
+    const { transactionId, counterpartAccountId } = oneSidedSchema.parse(req.body);
+    const pair = await transferDetectionService.postOneSided(
+      parseInt(req.params.clientId),
+      transactionId,
+      counterpartAccountId,
+      req.user
+    );
+    res.status(201).json(pair);
+  } catch (error) {
+    handleError(res, error, "Failed to post transfer");
+  }
+});
+
+// POST /api/transfers/:clientId/:pairId/link - Attach the other half to a one-sided transfer
+router.post("/:clientId/:pairId/link", async (req: Request, res: Response) => {
+  try {
+    const { transactionId } = linkSchema.parse(req.body);
+    res.json(
+      await transferDetectionService.linkCounterpart(
+        parseInt(req.params.clientId),
+        parseInt(req.params.pairId),
+        transactionId
+      )
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to link transfer");
+  }
+});
+
+// DELETE /api/transfers/:clientId/:pairId - Undo a transfer or a dismissal
+router.delete("/:clientId/:pairId", async (req: Request, res: Response) => {
+  try {
+    res.json(
+      await transferDetectionService.removeTransfer(parseInt(req.params.clientId), parseInt(req.params.pairId), req.user)
+    );
+  } catch (error) {
+    handleError(res, error, "Failed to remove transfer");
+  }
+});
+
+export default router;
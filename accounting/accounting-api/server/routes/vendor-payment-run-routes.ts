@@ -0,0 +1,250 @@
+/**
+ * Vendor Payment Run Routes
+ *
+ * Batch payment of vendor bills: the outstanding bill list and a proposal
+ * capped at the bank balance, generating a run of sequential cheques and a
+ * CPA-005 EFT file, remittance advice per vendor, voiding a run, and the EFT
+ * setup (originator settings and vendor bank details).
+ * Mounted at /api/payment-runs.
+ */
+
+import { Router, Request, Response } from "express";
+import { z } from "zod";
+import { vendorPaymentRunService, VendorPaymentRunError } from "../services/vendor-payment-run-service";
+import { PeriodLockedError } from "../services/period-lock-service";
+import { CurrencyError } from "../services/currency-service";
+
+const router = Router();
+
+const dateString = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be in YYYY-MM-DD format");
+
+const digits = (length: number, label: string) =>
+  z.string().trim().regex(new RegExp(`^\\d{${length}}$`), `${label} must be ${length} digits`);
+
+const billFilterSchema = z.object({
+  dueOnOrBefore: dateString.optional(),
+  vendorIds: z.array(z.coerce.number().int().positive()).optional(),
+});
+
+const proposalSchema = billFilterSchema.extend({
+  bankAccountId: z.coerce.number().int().positive(),
+  paymentDate: dateString,
+  amountCap: z.coerce.number().min(0).nullable().optional(),
+});
+
+const generateSchema = z.object({
+  bankAccountId: z.coerce.number().int().positive(),
+  apAccountId: z.coerce.number().int().positive().nullable().optional(),
+  paymentDate: dateString,
+  amountCap: z.coerce.number().min(0).nullable().optional(),
+  firstChequeNumber: z.coerce.number().int().positive().nullable().optional(),
+  payments: z
+    .array(
+      z.object({
+        billId: z.coerce.number().int().positive(),
+        amount: z.coerce.number().min(0),
+      })
+    )
+    .min(1, "Select at least one bill to pay"),
+});
+
+const bankDetailsSchema = z.object({
+  institutionNumber: digits(3, "Institution number"),
+  transitNumber: digits(5, "Transit number"),
+  accountNumber: z.string().trim().regex(/^\d{5,12}$/, "Account number must be 5 to 12 digits"),
+  accountHolderName: z.string().trim().max(30).nullable().optional(),
+  remittanceEmail: z.string().trim().email().nullable().optional().or(z.literal("")),
+});
+
+const eftSettingsSchema = z.object({
+  originatorId: z.string().trim().min(1, "Originator ID is required").max(10),
+  shortName: z.string().trim().min(1, "Short name is required").max(15),
+  longName: z.string().trim().min(1, "Long name is required").max(30),
+  destinationDataCentre: digits(5, "Destination data centre"),
+  returnInstitutionNumber: digits(3, "Return institution number"),
+  returnTransitNumber: digits(5, "Return transit number"),
+  returnAccountNumber: z.string().trim().regex(/^\d{5,12}$/, "Return account number must be 5 to 12 digits"),
+});
+
+const emailSchema = z.object({
+  paymentIds: z.array(z.coerce.number().int().positive()).optional(),
+});
+
+function handleError(res: Response, error: unknown, fallback: string) {
+  if (error instanceof z.ZodError) {
+    return res.status(400).json({ error: "Invalid request", details: error.errors });
+  }
+  if (error instanceof VendorPaymentRunError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  if (error instanceof PeriodLockedError) {
+    return res.status(error.status).json(error.toResponse());
+  }
+  if (error instanceof CurrencyError) {
+    return res.status(error.status).json({ error: error.message, message: error.message });
+  }
+  console.error(`${fallback}:`, error);
+  res.status(500).json({ error: fallback });
+}
+
+// GET /api/payment-runs/:clientId/outstanding-bills?dueOnOrBefore=&vendorIds=1,2 - Unpaid bills by due date
+router.get("/:clientId/outstanding-bills", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const filters = billFilterSchema.parse({
+      dueOnOrBefore: req.query.dueOnOrBefore || undefined,
+      vendorIds: req.query.vendorIds ? String(req.query.vendorIds).split(",") : undefined,
+    });
+    res.json(await vendorPaymentRunService.listOutstandingBills(clientId, filters));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch outstanding bills");
+  }
+});
+
+// POST /api/payment-runs/:clientId/propose - Proposed payments up to the bank balance or cap
+router.post("/:clientId/propose", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = proposalSchema.parse(req.body);
+    res.json(await vendorPaymentRunService.propose(clientId, data));
+  } catch (error) {
+    handleError(res, error, "Failed to propose payments");
+  }
+});
+
+// GET /api/payment-runs/:clientId/runs
+router.get("/:clientId/runs", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await vendorPaymentRunService.listRuns(clientId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch payment runs");
+  }
+});
+
+// POST /api/payment-runs/:clientId/runs - Generate a run: cheques, EFT file and journal entries
+router.post("/:clientId/runs", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = generateSchema.parse(req.body);
+    res.status(201).json(await vendorPaymentRunService.generate(clientId, data, req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to generate payment run");
+  }
+});
+
+// GET /api/payment-runs/:clientId/runs/:runId
+router.get("/:clientId/runs/:runId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await vendorPaymentRunService.getRun(clientId, parseInt(req.params.runId)));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch payment run");
+  }
+});
+
+// GET /api/payment-runs/:clientId/runs/:runId/eft-file - Download the CPA-005 file
+router.get("/:clientId/runs/:runId/eft-file", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const file = await vendorPaymentRunService.getEftFile(clientId, parseInt(req.params.runId));
+    res.setHeader("Content-Type", "text/plain; charset=us-ascii");
+    res.setHeader("Content-Disposition", `attachment; filename="${file.fileName}"`);
+    res.send(file.content);
+  } catch (error) {
+    handleError(res, error, "Failed to download EFT file");
+  }
+});
+
+// GET /api/payment-runs/:clientId/runs/:runId/payments/:paymentId/remittance - Remittance advice as HTML
+router.get("/:clientId/runs/:runId/payments/:paymentId/remittance", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const remittance = await vendorPaymentRunService.getRemittance(
+      clientId,
+      parseInt(req.params.runId),
+      parseInt(req.params.paymentId)
+    );
+    res.setHeader("Content-Type", "text/html; charset=utf-8");
+    res.send(remittance.html);
+  } catch (error) {
+    handleError(res, error, "Failed to build remittance advice");
+  }
+});
+
+// POST /api/payment-runs/:clientId/runs/:runId/email-remittances
+router.post("/:clientId/runs/:runId/email-remittances", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const { paymentIds } = emailSchema.parse(req.body ?? {});
+    res.json(await vendorPaymentRunService.emailRemittances(clientId, parseInt(req.params.runId), paymentIds));
+  } catch (error) {
+    handleError(res, error, "Failed to email remittance advice");
+  }
+});
+
+// POST /api/payment-runs/:clientId/runs/:runId/void - Reverse every payment in the run
+router.post("/:clientId/runs/:runId/void", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await vendorPaymentRunService.voidRun(clientId, parseInt(req.params.runId), req.user));
+  } catch (error) {
+    handleError(res, error, "Failed to void payment run");
+  }
+});
+
+// GET /api/payment-runs/:clientId/eft-settings
+router.get("/:clientId/eft-settings", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await vendorPaymentRunService.getEftSettings(clientId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch EFT settings");
+  }
+});
+
+// PUT /api/payment-runs/:clientId/eft-settings
+router.put("/:clientId/eft-settings", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = eftSettingsSchema.parse(req.body);
+    res.json(await vendorPaymentRunService.saveEftSettings(clientId, data));
+  } catch (error) {
+    handleError(res, error, "Failed to save EFT settings");
+  }
+});
+
+// GET /api/payment-runs/:clientId/vendor-bank-details
+router.get("/:clientId/vendor-bank-details", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await vendorPaymentRunService.listBankDetails(clientId));
+  } catch (error) {
+    handleError(res, error, "Failed to fetch vendor bank details");
+  }
+});
+
+// PUT /api/payment-runs/:clientId/vendor-bank-details/:vendorId
+router.put("/:clientId/vendor-bank-details/:vendorId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    const data = bankDetailsSchema.parse(req.body);
+    res.json(await vendorPaymentRunService.saveBankDetails(clientId, parseInt(req.params.vendorId), data));
+  } catch (error) {
+    handleError(res, error, "Failed to save vendor bank details");
+  }
+});
+
+// DELETE /api/payment-runs/:clientId/vendor-bank-details/:vendorId
+router.delete("/:clientId/vendor-bank-details/:vendorId", async (req: Request, res: Response) => {
+  try {
+    const clientId = parseInt(req.params.clientId);
+    res.json(await vendorPaymentRunService.deleteBankDetails(clientId, parseInt(req.params.vendorId)));
+  } catch (error) {
+    handleError(res, error, "Failed to delete vendor bank details");
+  }
+});
+
+export default router;
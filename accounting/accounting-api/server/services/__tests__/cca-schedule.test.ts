@@ -0,0 +1,138 @@
+import { describe, it, expect } from "vitest";
+import { computeClassYear, taxYearFor } from "../cca-schedule";
+import type { FixedAsset } from "@shared/database/fixed-asset-entities";
+
+const YEAR_2025 = { start: "2025-01-01", end: "2025-12-31" };
+
+function asset(overrides: Partial<FixedAsset>): FixedAsset {
+  return {
+    id: 1,
+    acquisitionDate: "2025-06-01",
+    cost: "10000.00",
+    ccaRule: "half_year",
+    disposalDate: null,
+    disposalProceeds: null,
+    ...overrides,
+  } as FixedAsset;
+}
+
+describe("taxYearFor", () => {
+  it("finds the tax year containing a date for a non-calendar year end", () => {
+    expect(taxYearFor("2025-03-31", 3, 31)).toEqual({ start: "2024-04-01", end: "2025-03-31" });
+    expect(taxYearFor("2025-04-01", 3, 31)).toEqual({ start: "2025-04-01", end: "2026-03-31" });
+  });
+});
+
+describe("computeClassYear", () => {
+  it("applies the half-year rule to additions", () => {
+    const row = computeClassYear("8", 20, 0, [asset({})], YEAR_2025, null);
+
+    expect(row.additions).toBe(10000);
+    expect(row.halfYearAdjustment).toBe(5000);
+    expect(row.reducedUcc).toBe(5000);
+    expect(row.cca).toBe(1000);
+    expect(row.closingUcc).toBe(9000);
+  });
+
+  it("grosses up AIIP additions for property available before 2024", () => {
+    const row = computeClassYear(
+      "8",
+      20,
+      0,
+      [asset({ acquisitionDate: "2023-06-01", ccaRule: "aiip" })],
+      { start: "2023-01-01", end: "2023-12-31" },
+      null
+    );
+
+    expect(row.aiipAdjustment).toBe(5000);
+    expect(row.halfYearAdjustment).toBe(0);
+    expect(row.cca).toBe(3000);
+    expect(row.closingUcc).toBe(7000);
+  });
+
+  it("suspends the half-year rule for AIIP property from 2024", () => {
+    const row = computeClassYear("8", 20, 0, [asset({ ccaRule: "aiip" })], YEAR_2025, null);
+
+    expect(row.aiipAdjustment).toBe(0);
+    expect(row.halfYearAdjustment).toBe(0);
+    expect(row.cca).toBe(2000);
+  });
+
+  it("gives full-expensing classes their first-year percentage", () => {
+    const row = computeClassYear("53", 50, 0, [asset({ ccaRule: "aiip" })], YEAR_2025, null);
+
+    expect(row.cca).toBe(7500);
+  });
+
+  it("recaptures proceeds above the pool", () => {
+    const owned = asset({ id: 1, acquisitionDate: "2020-01-01" });
+    const sold = asset({ id: 2, acquisitionDate: "2020-01-01", cost: "5000.00", disposalDate: "2025-05-01", disposalProceeds: "3000.00" });
+    const row = computeClassYear("8", 20, 1000, [owned, sold], YEAR_2025, null);
+
+    expect(row.recapture).toBe(2000);
+    expect(row.cca).toBe(0);
+    expect(row.closingUcc).toBe(0);
+  });
+
+  it("takes a terminal loss when the class is emptied and splits off capital gains", () => {
+    const sold = asset({ acquisitionDate: "2020-01-01", cost: "5000.00", disposalDate: "2025-05-01", disposalProceeds: "1000.00" });
+    const loss = computeClassYear("8", 20, 5000, [sold], YEAR_2025, null);
+
+    expect(loss.terminalLoss).toBe(4000);
+    expect(loss.closingUcc).toBe(0);
+
+    const gain = computeClassYear("8", 20, 6000, [{ ...sold, disposalProceeds: "7000.00" }], YEAR_2025, null);
+    expect(gain.proceeds).toBe(5000);
+    expect(gain.capitalGains).toBe(2000);
+  });
+
+  it("claims less than the maximum when a lower claim is given", () => {
+    const row = computeClassYear("8", 20, 0, [asset({})], YEAR_2025, 500);
+
+    expect(row.maximumCca).toBe(1000);
+    expect(row.cca).toBe(500);
+    expect(row.claimOverridden).toBe(true);
+    expect(row.closingUcc).toBe(9500);
+  });
+});
+
+describe("class 10.1 capital cost", () => {
+  const additionsFor = (acquisitionDate: string, cost = "50000.00", ccaClass = "10.1") => {
+    const year = acquisitionDate.slice(0, 4);
+    return computeClassYear(
+      ccaClass,
+      30,
+      0,
+      [asset({ acquisitionDate, cost })],
+      { start: `${year}-01-01`, end: `${year}-12-31` },
+      null
+    ).additions;
+  };
+
+  it("caps the cost at the prescribed limit for the year acquired", () => {
+    expect(additionsFor("2026-02-01")).toBe(37000);
+    expect(additionsFor("2024-02-01")).toBe(37000);
+    expect(additionsFor("2023-02-01")).toBe(36000);
+    expect(additionsFor("2022-02-01")).toBe(34000);
+    expect(additionsFor("2021-02-01")).toBe(30000);
+    expect(additionsFor("2001-02-01")).toBe(30000);
+    expect(additionsFor("2000-02-01")).toBe(27000);
+    expect(additionsFor("1999-02-01")).toBe(26000);
+  });
+
+  it("leaves cheaper vehicles and other classes at cost", () => {
+    expect(additionsFor("2024-02-01", "20000.00")).toBe(20000);
+    expect(additionsFor("2024-02-01", "50000.00", "10")).toBe(50000);
+  });
+
+  it("prorates proceeds to the capped cost and allows half a year's CCA on disposal", () => {
+    const sold = asset({ acquisitionDate: "2022-02-01", cost: "50000.00", disposalDate: "2025-05-01", disposalProceeds: "25000.00" });
+    const row = computeClassYear("10.1", 30, 20000, [sold], YEAR_2025, null);
+
+    expect(row.proceeds).toBe(17000);
+    expect(row.recapture).toBe(0);
+    expect(row.terminalLoss).toBe(0);
+    expect(row.cca).toBe(3000);
+    expect(row.closingUcc).toBe(0);
+  });
+});
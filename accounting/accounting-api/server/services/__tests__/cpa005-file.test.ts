@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  buildCpa005File,
+  cpa005Date,
+  validateCanadianBankAccount,
+  Cpa005Error,
+  CPA005_RECORD_LENGTH,
+  type Cpa005Credit,
+  type Cpa005Originator,
+} from "../cpa005-file";
+
+const originator: Cpa005Originator = {
+  originatorId: "ACME000001",
+  shortName: "ACME LTD",
+  longName: "ACME MANUFACTURING LTD",
+  destinationDataCentre: "00120",
+  returnInstitutionNumber: "001",
+  returnTransitNumber: "12345",
+  returnAccountNumber: "1234567",
+};
+
+function credit(overrides: Partial<Cpa005Credit> = {}): Cpa005Credit {
+  return {
+    amount: 125.5,
+    payeeName: "Northern Supply",
+    institutionNumber: "004",
+    transitNumber: "54321",
+    accountNumber: "7654321",
+    crossReference: "PR-0001 V12",
+    ...overrides,
+  };
+}
+
+// Record prefix: type (1), record number (9), originator ID (10), file creation number (4)
+const PREFIX_LENGTH = 24;
+
+function records(content: string): string[] {
+  return content.split("\r\n").slice(0, -1);
+}
+
+describe("cpa005Date", () => {
+  it("writes 0YYDDD with the day of the year", () => {
+    expect(cpa005Date("2025-01-01")).toBe("025001");
+    expect(cpa005Date("2025-02-01")).toBe("025032");
+    expect(cpa005Date("2024-12-31")).toBe("024366");
+  });
+});
+
+describe("validateCanadianBankAccount", () => {
+  it("accepts 3-digit institution, 5-digit transit and 5 to 12 digit account", () => {
+    expect(validateCanadianBankAccount({ institutionNumber: "004", transitNumber: "54321", accountNumber: "12345" })).toBeNull();
+  });
+
+  it("names the field that is wrong", () => {
+    expect(validateCanadianBankAccount({ institutionNumber: "04", transitNumber: "54321", accountNumber: "12345" })).toMatch(/Institution/);
+    expect(validateCanadianBankAccount({ institutionNumber: "004", transitNumber: "5432", accountNumber: "12345" })).toMatch(/Transit/);
+    expect(validateCanadianBankAccount({ institutionNumber: "004", transitNumber: "54321", accountNumber: "1234567890123" })).toMatch(/Account/);
+  });
+});
+
+describe("buildCpa005File", () => {
+  const build = (credits: Cpa005Credit[], fileCreationNumber = 7) =>
+    buildCpa005File({ originator, fileCreationNumber, creationDate: "2025-03-01", paymentDate: "2025-03-03", credits });
+
+  it("writes fixed-length CRLF records with a header, credit records and a trailer", () => {
+    const file = build([credit()]);
+    const lines = records(file.content);
+
+    expect(file.content.endsWith("\r\n")).toBe(true);
+    expect(lines).toHaveLength(3);
+    expect(lines.every((line) => line.length === CPA005_RECORD_LENGTH)).toBe(true);
+    expect(lines.map((line) => line[0])).toEqual(["A", "C", "Z"]);
+    expect(lines[0].slice(0, PREFIX_LENGTH)).toBe("A000000001ACME0000010007");
+    expect(lines[0].slice(PREFIX_LENGTH, PREFIX_LENGTH + 11)).toBe("02506000120");
+  });
+
+  it("writes the payment segment with the transaction code, cents and payee", () => {
+    const segment = records(build([credit()]).content)[1].slice(PREFIX_LENGTH, PREFIX_LENGTH + 240);
+
+    expect(segment.slice(0, 3)).toBe("460");
+    expect(segment.slice(3, 13)).toBe("0000012550");
+    expect(segment.slice(13, 19)).toBe("025062");
+    expect(segment.slice(19, 28)).toBe("000454321");
+    expect(segment.slice(80, 110)).toBe("Northern Supply".padEnd(30, " "));
+  });
+
+  it("puts at most six payments in a credit record", () => {
+    const file = build(Array.from({ length: 7 }, () => credit()));
+    const lines = records(file.content);
+
+    expect(file.recordCount).toBe(4);
+    expect(lines.map((line) => line[0])).toEqual(["A", "C", "C", "Z"]);
+    expect(lines[1].slice(PREFIX_LENGTH + 6 * 240).trim()).toBe("");
+    expect(lines[2].slice(1, 10)).toBe("000000003");
+  });
+
+  it("totals the trailer from the same cents as the segments", () => {
+    const file = build([credit({ amount: 0.1 }), credit({ amount: 0.2 }), credit({ amount: 1000.02 })]);
+    const trailer = records(file.content)[2];
+
+    expect(file.creditTotal).toBe(1000.32);
+    expect(file.creditCount).toBe(3);
+    expect(trailer.slice(PREFIX_LENGTH + 22, PREFIX_LENGTH + 36)).toBe("00000000100032");
+    expect(trailer.slice(PREFIX_LENGTH + 36, PREFIX_LENGTH + 44)).toBe("00000003");
+  });
+
+  it("strips accents and non-ASCII characters from names", () => {
+    const segment = records(build([credit({ payeeName: "Café Énergie™" })]).content)[1].slice(PREFIX_LENGTH);
+
+    expect(segment.slice(80, 110).trimEnd()).toBe("Cafe Energie");
+  });
+
+  it("rejects empty files, bad bank details, non-positive amounts and oversized numbers", () => {
+    expect(() => build([])).toThrow(Cpa005Error);
+    expect(() => build([credit({ transitNumber: "123" })])).toThrow(/Northern Supply: Transit/);
+    expect(() => build([credit({ amount: 0 })])).toThrow(/amount must be positive/);
+    expect(() => build([credit()], 12345)).toThrow(/does not fit in 4 digits/);
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from "vitest";
+import {
+  allocationProblem,
+  invoiceBalance,
+  isOpenInvoice,
+  matchAllocations,
+  paidAfterApplying,
+  paidAfterUnapplying,
+} from "../invoice-allocation";
+
+function invoice(overrides: Record<string, any> = {}) {
+  return { id: 1, invoiceNumber: "INV-0001", customerId: 5, status: "sent", amountDue: "1000.00", amountPaid: "250.00", ...overrides };
+}
+
+describe("invoiceBalance and isOpenInvoice", () => {
+  it("leaves what is due less what is paid", () => {
+    expect(invoiceBalance(invoice())).toBe(750);
+    expect(invoiceBalance(invoice({ amountPaid: null }))).toBe(1000);
+  });
+
+  it("treats paid-up and cancelled or voided invoices as closed", () => {
+    expect(isOpenInvoice(invoice())).toBe(true);
+    expect(isOpenInvoice(invoice({ amountPaid: "1000.00" }))).toBe(false);
+    expect(isOpenInvoice(invoice({ status: "void" }))).toBe(false);
+  });
+});
+
+describe("allocationProblem", () => {
+  it("accepts positive amounts on distinct invoices", () => {
+    expect(allocationProblem([{ invoiceId: 1, amount: 10 }, { invoiceId: 2, amount: 5 }])).toBeNull();
+  });
+
+  it("rejects non-positive amounts and an invoice allocated twice", () => {
+    expect(allocationProblem([{ invoiceId: 1, amount: 0 }])?.message).toMatch(/greater than zero/);
+    expect(allocationProblem([{ invoiceId: 1, amount: 10 }, { invoiceId: 1, amount: 5 }])?.message).toMatch(/only be allocated once/);
+  });
+});
+
+describe("matchAllocations", () => {
+  const clientInvoices = [
+    invoice(),
+    invoice({ id: 2, invoiceNumber: "INV-0002", amountPaid: "0.00" }),
+    invoice({ id: 3, invoiceNumber: "INV-0003", customerId: 6 }),
+    invoice({ id: 4, invoiceNumber: "INV-0004", status: "cancelled" }),
+  ];
+
+  it("returns the customer's invoices by id", () => {
+    const { invoices, problem } = matchAllocations(5, [{ invoiceId: 1, amount: 750 }, { invoiceId: 2, amount: 100 }], clientInvoices);
+    expect(problem).toBeNull();
+    expect([...invoices.keys()]).toEqual([1, 2]);
+  });
+
+  it("reports another customer's or a missing invoice as not found", () => {
+    expect(matchAllocations(5, [{ invoiceId: 3, amount: 10 }], clientInvoices).problem).toEqual({
+      message: "Invoice 3 not found for this customer",
+      status: 404,
+    });
+    expect(matchAllocations(5, [{ invoiceId: 99, amount: 10 }], clientInvoices).problem?.status).toBe(404);
+  });
+
+  it("rejects closed invoices and amounts over the balance", () => {
+    expect(matchAllocations(5, [{ invoiceId: 4, amount: 10 }], clientInvoices).problem?.message).toBe("Invoice INV-0004 is cancelled");
+    expect(matchAllocations(5, [{ invoiceId: 1, amount: 750.01 }], clientInvoices).problem).toEqual({
+      message: "750.01 is more than the 750.00 left on invoice INV-0001",
+      status: 400,
+    });
+  });
+});
+
+describe("paidAfterApplying and paidAfterUnapplying", () => {
+  it("adds to amountPaid and marks the invoice paid only once nothing is left", () => {
+    expect(paidAfterApplying(invoice(), 500)).toEqual({ amountPaid: 750, status: null });
+    expect(paidAfterApplying(invoice(), 750)).toEqual({ amountPaid: 1000, status: "paid" });
+    expect(paidAfterApplying(invoice({ amountPaid: "0.10" }), 0.2)).toEqual({ amountPaid: 0.3, status: null });
+  });
+
+  it("takes the amount back, reopening a paid invoice and never going below zero", () => {
+    expect(paidAfterUnapplying(invoice({ status: "paid", amountPaid: "1000.00" }), 400)).toEqual({ amountPaid: 600, status: "sent" });
+    expect(paidAfterUnapplying(invoice(), 100)).toEqual({ amountPaid: 150, status: null });
+    expect(paidAfterUnapplying(invoice(), 300)).toEqual({ amountPaid: 0, status: null });
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi } from "vitest";
+import type { ClientPeriodLock } from "@shared/database/period-lock-entities";
+
+vi.mock("../../db", () => ({ db: {} }));
+vi.mock("drizzle-orm", () => ({ eq: () => null, desc: () => null }));
+vi.mock("@shared/database/period-lock-entities", () => ({}));
+vi.mock("../../module-access", () => ({
+  isAdminRole: (role?: string) => ["manager", "admin", "firm_admin", "firm_owner"].includes(role?.toLowerCase() ?? ""),
+}));
+
+import { periodLockService, PeriodLockedError, toDateKey } from "../period-lock-service";
+
+function lock(overrides: Partial<ClientPeriodLock> = {}): ClientPeriodLock {
+  return {
+    id: 1,
+    clientId: 10,
+    firmId: 1,
+    closedThroughDate: "2024-12-31",
+    softLockDate: "2025-03-31",
+    updatedBy: null,
+    createdAt: new Date("2025-04-01T00:00:00Z"),
+    updatedAt: new Date("2025-04-01T00:00:00Z"),
+    ...overrides,
+  };
+}
+
+const staff = { role: "staff" };
+const manager = { role: "Manager" };
+
+describe("toDateKey", () => {
+  it("keeps the date part of strings and converts Date objects", () => {
+    expect(toDateKey("2025-03-31T18:00:00")).toBe("2025-03-31");
+    expect(toDateKey(new Date("2025-03-31T12:00:00Z"))).toBe("2025-03-31");
+    expect(toDateKey(null)).toBeNull();
+    expect(toDateKey("not a date")).toBeNull();
+  });
+});
+
+describe("periodLockService.checkDate", () => {
+  it("allows everything when the client has no lock or the date is missing", () => {
+    expect(periodLockService.checkDate(undefined, "2020-01-01", staff)).toBeNull();
+    expect(periodLockService.checkDate(lock(), null, staff)).toBeNull();
+  });
+
+  it("blocks everyone, managers included, on or before the closed-through date", () => {
+    for (const user of [staff, manager, undefined]) {
+      const error = periodLockService.checkDate(lock(), "2024-12-31", user);
+      expect(error).toBeInstanceOf(PeriodLockedError);
+      expect(error?.code).toBe("PERIOD_CLOSED");
+      expect(error?.status).toBe(423);
+      expect(error?.lockDate).toBe("2024-12-31");
+    }
+  });
+
+  it("blocks staff but not managers inside the soft lock", () => {
+    const error = periodLockService.checkDate(lock(), "2025-03-31", staff);
+    expect(error?.code).toBe("PERIOD_SOFT_LOCKED");
+    expect(error?.lockDate).toBe("2025-03-31");
+    expect(periodLockService.checkDate(lock(), "2025-03-31", manager)).toBeNull();
+    expect(periodLockService.checkDate(lock(), "2025-01-15", undefined)?.code).toBe("PERIOD_SOFT_LOCKED");
+  });
+
+  it("allows dates after both locks", () => {
+    expect(periodLockService.checkDate(lock(), "2025-04-01", staff)).toBeNull();
+    expect(periodLockService.checkDate(lock({ softLockDate: null }), "2025-01-01", staff)).toBeNull();
+  });
+
+  it("checks Date objects by their date", () => {
+    expect(periodLockService.checkDate(lock(), new Date("2024-12-31T12:00:00Z"), manager)?.code).toBe("PERIOD_CLOSED");
+    expect(periodLockService.checkDate(lock(), new Date("2025-04-01T12:00:00Z"), staff)).toBeNull();
+  });
+});
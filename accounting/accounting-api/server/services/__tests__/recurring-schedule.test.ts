@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import { computeSchedule, monthDate, reversalDateFor, type ScheduleOptions } from "../recurring-schedule";
+
+const calendarYear = { month: 12, day: 31 };
+const marchYearEnd = { month: 3, day: 31 };
+
+function schedule(overrides: Partial<ScheduleOptions>): ScheduleOptions {
+  return { frequency: "monthly", dayOfMonth: 15, startDate: "2025-01-01", ...overrides };
+}
+
+describe("monthDate", () => {
+  it("clamps the day to the month and rolls month overflow into the next year", () => {
+    expect(monthDate(2025, 2, 31)).toBe("2025-02-28");
+    expect(monthDate(2024, 2, 31)).toBe("2024-02-29");
+    expect(monthDate(2025, 13, 5)).toBe("2026-01-05");
+    expect(monthDate(2025, 4, null)).toBe("2025-04-30");
+  });
+});
+
+describe("computeSchedule", () => {
+  it("steps monthly on the day of month, clamped at month end", () => {
+    expect(computeSchedule(schedule({ dayOfMonth: 31 }), calendarYear, 4)).toEqual([
+      "2025-01-31",
+      "2025-02-28",
+      "2025-03-31",
+      "2025-04-30",
+    ]);
+  });
+
+  it("starts in the next period when the day has passed in the start month", () => {
+    expect(computeSchedule(schedule({ startDate: "2025-01-20" }), calendarYear, 2)).toEqual(["2025-02-15", "2025-03-15"]);
+    expect(computeSchedule(schedule({ frequency: "quarterly", startDate: "2025-01-20" }), calendarYear, 2)).toEqual([
+      "2025-04-15",
+      "2025-07-15",
+    ]);
+  });
+
+  it("steps quarterly across the year end", () => {
+    expect(computeSchedule(schedule({ frequency: "quarterly", startDate: "2025-08-01" }), calendarYear, 3)).toEqual([
+      "2025-08-15",
+      "2025-11-15",
+      "2026-02-15",
+    ]);
+  });
+
+  it("posts on the client's fiscal year end", () => {
+    expect(computeSchedule(schedule({ frequency: "fiscal_year_end", startDate: "2025-04-01" }), marchYearEnd, 2)).toEqual([
+      "2026-03-31",
+      "2027-03-31",
+    ]);
+    expect(computeSchedule(schedule({ frequency: "fiscal_year_end", startDate: "2025-03-31" }), marchYearEnd, 1)).toEqual([
+      "2025-03-31",
+    ]);
+  });
+
+  it("stops at the end date", () => {
+    expect(computeSchedule(schedule({ endDate: "2025-03-15" }), calendarYear, 12)).toEqual([
+      "2025-01-15",
+      "2025-02-15",
+      "2025-03-15",
+    ]);
+  });
+
+  it("stops after the occurrence limit, counting occurrences already posted", () => {
+    expect(computeSchedule(schedule({ maxOccurrences: 2 }), calendarYear, 12)).toHaveLength(2);
+    expect(computeSchedule(schedule({ maxOccurrences: 3 }), calendarYear, 12, "2025-03-15", 2)).toEqual(["2025-03-15"]);
+    expect(computeSchedule(schedule({ maxOccurrences: 3 }), calendarYear, 12, "2025-04-15", 3)).toEqual([]);
+  });
+});
+
+describe("reversalDateFor", () => {
+  it("reverses on the first day of the next month, rolling December into the next year", () => {
+    expect(reversalDateFor("2025-01-31")).toBe("2025-02-01");
+    expect(reversalDateFor("2025-09-15")).toBe("2025-10-01");
+    expect(reversalDateFor("2025-12-31")).toBe("2026-01-01");
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * Bank Feed Providers
+ *
+ * The interface the bank feed sync job pulls transactions through, and the
+ * providers behind it:
+ * - PlaidProvider calls Plaid's /transactions/sync with the stored cursor
+ * - FakeBankFeedProvider serves scripted transactions and failures from
+ *   memory, so the sync job can be run locally and in tests without a bank
+ *
+ * Providers report failures as BankFeedProviderError, telling apart logins
+ * that need the user to re-authenticate from failures worth retrying.
+ */
+
+export interface ProviderTransaction {
+  externalId: string;
+  externalAccountId: string;
+  date: string;
+  description: string;
+  // Provider sign convention: positive is money out of the account
+  amount: number;
+  pending: boolean;
+  currency?: string | null;
+}
+
+export interface ProviderSyncPage {
+  added: ProviderTransaction[];
+  modified: ProviderTransaction[];
+  removed: string[];
+  nextCursor: string;
+  hasMore: boolean;
+}
+
+export interface ProviderConnection {
+  externalId: string;
+  accessToken: string;
+}
+
+export interface BankFeedProvider {
+  readonly name: string;
+  /**
+   * One page of changes after `cursor` (null for a first sync)
+   */
+  syncTransactions(connection: ProviderConnection, cursor: string | null): Promise<ProviderSyncPage>;
+}
+
+export class BankFeedProviderError extends Error {
+  code: string;
+  reauthRequired: boolean;
+  // The page sequence changed underneath us; start again from the stored cursor
+  restartPagination: boolean;
+
+  constructor(
+    message: string,
+    code: string,
+    options: { reauthRequired?: boolean; restartPagination?: boolean } = {}
+  ) {
+    super(message);
+    this.name = "BankFeedProviderError";
+    this.code = code;
+    this.reauthRequired = options.reauthRequired ?? false;
+    this.restartPagination = options.restartPagination ?? false;
+  }
+}
+
+// Plaid error codes that only the account holder can fix by logging in again
+const PLAID_REAUTH_CODES = new Set([
+  "ITEM_LOGIN_REQUIRED",
+  "INVALID_CREDENTIALS",
+  "INSUFFICIENT_CREDENTIALS",
+  "ITEM_LOCKED",
+  "USER_SETUP_REQUIRED",
+  "MFA_NOT_SUPPORTED",
+  "NO_ACCOUNTS",
+  "ACCESS_NOT_GRANTED",
+  "ITEM_NOT_SUPPORTED",
+]);
+
+const PLAID_HOSTS: Record<string, string> = {
+  sandbox: "https://sandbox.plaid.com",
+  development: "https://development.plaid.com",
+  production: "https://production.plaid.com",
+};
+
+export class PlaidProvider implements BankFeedProvider {
+  readonly name = "plaid";
+
+  async syncTransactions(connection: ProviderConnection, cursor: string | null): Promise<ProviderSyncPage> {
+    const clientId = process.env.PLAID_CLIENT_ID;
+    const secret = process.env.PLAID_SECRET;
+    if (!clientId || !secret) {
+      throw new BankFeedProviderError("Plaid credentials are not configured", "PLAID_NOT_CONFIGURED");
+    }
+    const host = PLAID_HOSTS[process.env.PLAID_ENV || "sandbox"] || PLAID_HOSTS.sandbox;
+
+    let response: Response;
+    try {
+      response = await fetch(`${host}/transactions/sync`, {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          client_id: clientId,
+          secret,
+          access_token: connection.accessToken,
+          cursor: cursor || undefined,
+          count: 500,
+        }),
+      });
+    } catch (error) {
+      throw new BankFeedProviderError(`Plaid could not be reached: ${(error as Error).message}`, "NETWORK_ERROR");
+    }
+
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      const code = body.error_code || `HTTP_${response.status}`;
+      throw new BankFeedProviderError(body.display_message || body.error_message || "Plaid sync failed", code, {
+        reauthRequired: PLAID_REAUTH_CODES.has(code),
+        restartPagination: code === "TRANSACTIONS_SYNC_MUTATION_DURING_PAGINATION",
+      });
+    }
+
+    const toTransaction = (transaction: any): ProviderTransaction => ({
+      externalId: transaction.transaction_id,
+      externalAccountId: transaction.account_id,
+      date: transaction.date,
+      description: transaction.merchant_name || transaction.name || "",
+      amount: Number(transaction.amount) || 0,
+      pending: !!transaction.pending,
+      currency: transaction.iso_currency_code ?? null,
+    });
+
+    return {
+      added: (body.added || []).map(toTransaction),
+      modified: (body.modified || []).map(toTransaction),
+      removed: (body.removed || []).map((removed: any) => removed.transaction_id),
+      nextCursor: body.next_cursor,
+      hasMore: !!body.has_more,
+    };
+  }
+}
+
+/**
+ * In-memory provider for local runs and tests. Transactions are served in
+ * pages after a numeric cursor; queued failures are thrown on the next calls.
+ */
+export class FakeBankFeedProvider implements BankFeedProvider {
+  readonly name = "fake";
+  private transactions = new Map<string, ProviderTransaction[]>();
+  private failures = new Map<string, BankFeedProviderError[]>();
+
+  constructor(private pageSize = 100) {}
+
+  addTransactions(externalId: string, transactions: ProviderTransaction[]): void {
+    this.transactions.set(externalId, [...(this.transactions.get(externalId) || []), ...transactions]);
+  }
+
+  failNext(externalId: string, error: BankFeedProviderError): void {
+    this.failures.set(externalId, [...(this.failures.get(externalId) || []), error]);
+  }
+
+  reset(): void {
+    this.transactions.clear();
+    this.failures.clear();
+  }
+
+  async syncTransactions(connection: ProviderConnection, cursor: string | null): Promise<ProviderSyncPage> {
+    const failure = this.failures.get(connection.externalId)?.shift();
+    if (failure) throw failure;
+
+    const all = this.transactions.get(connection.externalId) || [];
+    const start = cursor ? parseInt(cursor, 10) || 0 : 0;
+    const end = Math.min(start + this.pageSize, all.length);
+    return {
+      added: all.slice(start, end),
+      modified: [],
+      removed: [],
+      nextCursor: String(end),
+      hasMore: end < all.length,
+    };
+  }
+}
+
+const providers = new Map<string, BankFeedProvider>();
+
+export function registerBankFeedProvider(provider: BankFeedProvider): void {
+  providers.set(provider.name, provider);
+}
+
+export function getBankFeedProvider(name: string): BankFeedProvider {
+  const provider = providers.get(name);
+  if (!provider) {
+    throw new BankFeedProviderError(`Unknown bank feed provider "${name}"`, "UNKNOWN_PROVIDER");
+  }
+  return provider;
+}
+
+export const fakeBankFeedProvider = new FakeBankFeedProvider();
+
+registerBankFeedProvider(new PlaidProvider());
+// The fake provider is never offered to production connections
+if (process.env.NODE_ENV !== "production") {
+  registerBankFeedProvider(fakeBankFeedProvider);
+}
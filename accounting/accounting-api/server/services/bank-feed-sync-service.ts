@@ -0,0 +1,454 @@
+/**
+ * Bank Feed Sync Service
+ *
+ * Pulls bank feed transactions into the ledger, incrementally and with a
+ * health record per connection:
+ * - each sync pages through the provider from the stored cursor and only
+ *   moves the cursor once everything fetched has been stored, so a failed
+ *   sync is simply repeated from the same point
+ * - new posted transactions go through duplicate screening and are imported
+ *   as one batch per sync, so a bad sync can be rolled back from import
+ *   history; pending transactions are left until they post
+ * - failures back off exponentially; logins that need the account holder to
+ *   re-authenticate are taken off the schedule until they reconnect
+ * - every attempt is kept as a sync run with its counts or error
+ */
+
+import { db } from "../db";
+import {
+  bankFeedConnections,
+  bankFeedSyncRuns,
+  type BankFeedConnection,
+} from "@shared/database/bank-feed-sync-entities";
+import { and, eq, desc, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import {
+  getBankFeedProvider,
+  BankFeedProviderError,
+  type ProviderTransaction,
+} from "./bank-feed-providers";
+import { importBatchService, hashRows } from "./import-batch-service";
+
+export class BankFeedSyncError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BankFeedSyncError";
+    this.status = status;
+  }
+}
+
+export type ConnectionHealth = "healthy" | "degraded" | "error" | "reauth_required" | "disabled";
+export type SyncTrigger = "scheduled" | "manual";
+
+export interface AccountLink {
+  externalAccountId: string;
+  accountId: number | null;
+  name?: string | null;
+  mask?: string | null;
+}
+
+// Regular sync interval for healthy connections
+const SYNC_INTERVAL_MINUTES = 4 * 60;
+// First retry after a failure, doubled per further failure up to the cap
+const BACKOFF_BASE_MINUTES = 15;
+const BACKOFF_MAX_MINUTES = 24 * 60;
+// Failures in a row before a connection shows as in error rather than degraded
+const ERROR_AFTER_FAILURES = 3;
+// Guards against a provider that never reports the last page
+const MAX_PAGES_PER_SYNC = 50;
+const MAX_PAGINATION_RESTARTS = 2;
+
+function addMinutes(date: Date, minutes: number): Date {
+  return new Date(date.getTime() + minutes * 60 * 1000);
+}
+
+export function backoffMinutes(consecutiveFailures: number): number {
+  return Math.min(BACKOFF_BASE_MINUTES * 2 ** Math.max(consecutiveFailures - 1, 0), BACKOFF_MAX_MINUTES);
+}
+
+export class BankFeedSyncService {
+  /**
+   * Register a connection after the account holder has linked their bank
+   */
+  async createConnection(
+    clientId: number,
+    input: {
+      provider: string;
+      externalId: string;
+      accessToken: string;
+      institutionName?: string | null;
+      accountLinks?: AccountLink[];
+    },
+    user?: any
+  ) {
+    getBankFeedProvider(input.provider);
+    const [connection] = await db
+      .insert(bankFeedConnections)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        provider: input.provider,
+        externalId: input.externalId,
+        accessToken: input.accessToken,
+        institutionName: input.institutionName?.trim() || null,
+        accountLinks: JSON.stringify(input.accountLinks || []),
+        status: "healthy",
+        nextSyncAt: new Date(),
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+    return this.toView(connection);
+  }
+
+  async updateConnection(
+    clientId: number,
+    connectionId: number,
+    changes: { accountLinks?: AccountLink[]; syncEnabled?: boolean; institutionName?: string | null }
+  ) {
+    const connection = await this.findConnection(clientId, connectionId);
+    const values: Partial<typeof bankFeedConnections.$inferInsert> = { updatedAt: new Date() };
+    if (changes.accountLinks) values.accountLinks = JSON.stringify(changes.accountLinks);
+    if (changes.institutionName !== undefined) values.institutionName = changes.institutionName?.trim() || null;
+    if (changes.syncEnabled !== undefined) {
+      values.syncEnabled = changes.syncEnabled;
+      if (!changes.syncEnabled) {
+        values.status = "disabled";
+        values.nextSyncAt = null;
+      } else if (connection.status === "disabled") {
+        values.status = "healthy";
+        values.nextSyncAt = new Date();
+      }
+    }
+
+    const [updated] = await db
+      .update(bankFeedConnections)
+      .set(values)
+      .where(eq(bankFeedConnections.id, connectionId))
+      .returning();
+    return this.toView(updated);
+  }
+
+  /**
+   * The account holder has logged in again (Plaid Link update mode): put the
+   * connection back on the schedule, starting now
+   */
+  async markReauthenticated(clientId: number, connectionId: number, accessToken?: string) {
+    await this.findConnection(clientId, connectionId);
+    const [updated] = await db
+      .update(bankFeedConnections)
+      .set({
+        ...(accessToken ? { accessToken } : {}),
+        status: "healthy",
+        consecutiveFailures: 0,
+        lastError: null,
+        lastErrorCode: null,
+        nextSyncAt: new Date(),
+        updatedAt: new Date(),
+      })
+      .where(eq(bankFeedConnections.id, connectionId))
+      .returning();
+    return this.toView(updated);
+  }
+
+  async listConnections(clientId: number) {
+    const connections = await db
+      .select()
+      .from(bankFeedConnections)
+      .where(eq(bankFeedConnections.clientId, clientId))
+      .orderBy(bankFeedConnections.institutionName, bankFeedConnections.id);
+    return connections.map((connection) => this.toView(connection));
+  }
+
+  async getRuns(clientId: number, connectionId: number, limit = 50) {
+    await this.findConnection(clientId, connectionId);
+    return db
+      .select()
+      .from(bankFeedSyncRuns)
+      .where(eq(bankFeedSyncRuns.connectionId, connectionId))
+      .orderBy(desc(bankFeedSyncRuns.startedAt), desc(bankFeedSyncRuns.id))
+      .limit(limit);
+  }
+
+  /**
+   * Connection health for the dashboard: one client's connections, or all of
+   * a firm's, with counts by state and the latest failure of each
+   */
+  async getHealth(filter: { clientId?: number; firmId?: number | null }) {
+    const condition = filter.clientId
+      ? eq(bankFeedConnections.clientId, filter.clientId)
+      : filter.firmId
+        ? eq(bankFeedConnections.firmId, filter.firmId)
+        : undefined;
+    const connections = (
+      await db.select().from(bankFeedConnections).where(condition).orderBy(bankFeedConnections.id)
+    ).map((connection) => this.toView(connection));
+
+    const ids = connections.map((connection) => connection.id);
+    const recentRuns = ids.length
+      ? await db
+          .select()
+          .from(bankFeedSyncRuns)
+          .where(inArray(bankFeedSyncRuns.connectionId, ids))
+          .orderBy(desc(bankFeedSyncRuns.startedAt))
+          .limit(ids.length * 5)
+      : [];
+
+    const counts: Record<ConnectionHealth, number> = {
+      healthy: 0,
+      degraded: 0,
+      error: 0,
+      reauth_required: 0,
+      disabled: 0,
+    };
+    for (const connection of connections) {
+      counts[connection.status as ConnectionHealth] = (counts[connection.status as ConnectionHealth] || 0) + 1;
+    }
+
+    return {
+      counts,
+      connections: connections.map((connection) => ({
+        ...connection,
+        recentRuns: recentRuns.filter((run) => run.connectionId === connection.id).slice(0, 5),
+      })),
+    };
+  }
+
+  /**
+   * Sync every connection that is due. Connections are synced one at a time;
+   * a failure on one does not stop the others.
+   */
+  async runDue(now = new Date()) {
+    const due = await db
+      .select()
+      .from(bankFeedConnections)
+      .where(
+        and(
+          eq(bankFeedConnections.syncEnabled, true),
+          inArray(bankFeedConnections.status, ["healthy", "degraded", "error"]),
+          or(isNull(bankFeedConnections.nextSyncAt), lte(bankFeedConnections.nextSyncAt, now))
+        )
+      )
+      .orderBy(bankFeedConnections.nextSyncAt);
+
+    const results = [];
+    for (const connection of due) {
+      results.push(await this.sync(connection, "scheduled"));
+    }
+    return results;
+  }
+
+  /**
+   * Sync one connection now, whatever its schedule. Connections waiting for
+   * re-authentication are refused until the account holder reconnects.
+   */
+  async syncNow(clientId: number, connectionId: number) {
+    const connection = await this.findConnection(clientId, connectionId);
+    if (connection.status === "reauth_required") {
+      throw new BankFeedSyncError("The bank login has expired. Reconnect the account before syncing.", 409);
+    }
+    if (!connection.syncEnabled) {
+      throw new BankFeedSyncError("Sync is turned off for this connection", 409);
+    }
+    return this.sync(connection, "manual");
+  }
+
+  private async sync(connection: BankFeedConnection, trigger: SyncTrigger) {
+    const startedAt = new Date();
+    const [run] = await db
+      .insert(bankFeedSyncRuns)
+      .values({ connectionId: connection.id, trigger, status: "running", startedAt })
+      .returning();
+    await db
+      .update(bankFeedConnections)
+      .set({ lastSyncAttemptAt: startedAt })
+      .where(eq(bankFeedConnections.id, connection.id));
+
+    try {
+      const pulled = await this.pull(connection);
+      const links = this.parseLinks(connection.accountLinks);
+      const linkedAccounts = new Map(
+        links.filter((link) => link.accountId).map((link) => [link.externalAccountId, link.accountId as number])
+      );
+
+      const rows = pulled.added
+        .filter((transaction) => !transaction.pending && linkedAccounts.has(transaction.externalAccountId))
+        .map((transaction) => this.toImportRow(transaction, linkedAccounts.get(transaction.externalAccountId)!));
+
+      let imported = 0;
+      let skippedDuplicates = 0;
+      let queuedForReview = 0;
+      let failed = 0;
+      let importBatchId: number | null = null;
+      if (rows.length > 0) {
+        const result = await importBatchService.importTransactions(connection.clientId, rows, {
+          fileName: `${connection.institutionName || "Bank"} feed sync`,
+          fileHash: hashRows(rows),
+          sourceName: `feed-${connection.id}`,
+          duplicateSource: "feed",
+        });
+        imported = result.batch.importedCount;
+        skippedDuplicates = result.duplicates.skippedDuplicates;
+        queuedForReview = result.duplicates.queuedForReview;
+        failed = result.errors.length;
+        importBatchId = result.batch.id;
+      }
+
+      const finishedAt = new Date();
+      const [finishedRun] = await db
+        .update(bankFeedSyncRuns)
+        .set({
+          status: "success",
+          finishedAt,
+          addedCount: pulled.added.length,
+          modifiedCount: pulled.modified.length,
+          removedCount: pulled.removed.length,
+          importedCount: imported,
+          skippedDuplicateCount: skippedDuplicates,
+          queuedForReviewCount: queuedForReview,
+          failedCount: failed,
+          importBatchId,
+        })
+        .where(eq(bankFeedSyncRuns.id, run.id))
+        .returning();
+
+      await db
+        .update(bankFeedConnections)
+        .set({
+          cursor: pulled.cursor,
+          status: "healthy",
+          consecutiveFailures: 0,
+          lastError: null,
+          lastErrorCode: null,
+          lastSuccessfulSyncAt: finishedAt,
+          nextSyncAt: addMinutes(finishedAt, SYNC_INTERVAL_MINUTES),
+          totalTransactionsSynced: sql`${bankFeedConnections.totalTransactionsSynced} + ${imported}`,
+          updatedAt: finishedAt,
+        })
+        .where(eq(bankFeedConnections.id, connection.id));
+
+      return { connectionId: connection.id, run: finishedRun };
+    } catch (error) {
+      return { connectionId: connection.id, run: await this.recordFailure(connection, run.id, error) };
+    }
+  }
+
+  /**
+   * Every page after the stored cursor. When the provider reports that its
+   * data changed mid-way, paging restarts from the stored cursor.
+   */
+  private async pull(connection: BankFeedConnection) {
+    const provider = getBankFeedProvider(connection.provider);
+    const credentials = { externalId: connection.externalId, accessToken: connection.accessToken };
+
+    for (let attempt = 0; ; attempt++) {
+      const added: ProviderTransaction[] = [];
+      const modified: ProviderTransaction[] = [];
+      const removed: string[] = [];
+      let cursor = connection.cursor;
+
+      try {
+        for (let page = 0; ; page++) {
+          if (page >= MAX_PAGES_PER_SYNC) {
+            throw new BankFeedProviderError("The provider returned too many pages in one sync", "TOO_MANY_PAGES");
+          }
+          const result = await provider.syncTransactions(credentials, cursor);
+          added.push(...result.added);
+          modified.push(...result.modified);
+          removed.push(...result.removed);
+          cursor = result.nextCursor;
+          if (!result.hasMore) break;
+        }
+        return { added, modified, removed, cursor };
+      } catch (error) {
+        if (error instanceof BankFeedProviderError && error.restartPagination && attempt < MAX_PAGINATION_RESTARTS) {
+          continue;
+        }
+        throw error;
+      }
+    }
+  }
+
+  private async recordFailure(connection: BankFeedConnection, runId: number, error: unknown) {
+    const providerError = error instanceof BankFeedProviderError ? error : null;
+    const code = providerError?.code || "SYNC_FAILED";
+    const message = (error as Error)?.message || String(error);
+    const failures = connection.consecutiveFailures + 1;
+    const now = new Date();
+
+    if (!providerError) {
+      console.error(`Bank feed sync failed for connection ${connection.id}:`, error);
+    }
+
+    const [failedRun] = await db
+      .update(bankFeedSyncRuns)
+      .set({ status: "error", finishedAt: now, errorCode: code, errorMessage: message })
+      .where(eq(bankFeedSyncRuns.id, runId))
+      .returning();
+
+    await db
+      .update(bankFeedConnections)
+      .set({
+        status: providerError?.reauthRequired
+          ? "reauth_required"
+          : failures >= ERROR_AFTER_FAILURES
+            ? "error"
+            : "degraded",
+        consecutiveFailures: failures,
+        lastError: message,
+        lastErrorCode: code,
+        nextSyncAt: providerError?.reauthRequired ? null : addMinutes(now, backoffMinutes(failures)),
+        updatedAt: now,
+      })
+      .where(eq(bankFeedConnections.id, connection.id));
+
+    return failedRun;
+  }
+
+  /**
+   * Provider line in the upload row shape. Money in is the bank account's
+   * debit and money out its credit, as for uploaded statements.
+   */
+  private toImportRow(transaction: ProviderTransaction, accountId: number) {
+    const moneyOut = transaction.amount > 0 ? transaction.amount : 0;
+    const moneyIn = transaction.amount < 0 ? -transaction.amount : 0;
+    return {
+      date: transaction.date,
+      description: transaction.description,
+      debitAmount: moneyIn,
+      creditAmount: moneyOut,
+      accountId,
+      referenceNumber: transaction.externalId,
+      category: "Uncategorized",
+      importedFrom: "bank-feed",
+    };
+  }
+
+  private async findConnection(clientId: number, connectionId: number): Promise<BankFeedConnection> {
+    const [connection] = await db
+      .select()
+      .from(bankFeedConnections)
+      .where(and(eq(bankFeedConnections.id, connectionId), eq(bankFeedConnections.clientId, clientId)))
+      .limit(1);
+    if (!connection) {
+      throw new BankFeedSyncError("Bank feed connection not found", 404);
+    }
+    return connection;
+  }
+
+  private parseLinks(value: string | null): AccountLink[] {
+    if (!value) return [];
+    try {
+      return JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+
+  private toView(connection: BankFeedConnection) {
+    const { accessToken: _accessToken, cursor: _cursor, ...rest } = connection;
+    return { ...rest, accountLinks: this.parseLinks(connection.accountLinks) };
+  }
+}
+
+export const bankFeedSyncService = new BankFeedSyncService();
@@ -0,0 +1,706 @@
+/**
+ * Bank Rule Service
+ *
+ * Compound rules for categorizing bank transactions that have not been posted yet:
+ * - conditions on description, payee, amount range, direction (debit/credit),
+ *   bank account and day of month, combined with AND (all) or OR (any)
+ * - actions: split across accounts by percentage or fixed amount, project /
+ *   location / class tags, payee assignment, or exclusion as a transfer
+ * - explicit priority order; a matching rule with stop-processing set ends
+ *   evaluation for that transaction
+ * - dry run showing what each rule would change before anything is posted
+ */
+
+import { db, pool } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  bankRules,
+  bankRuleConditions,
+  bankRuleSplits,
+  type BankRule,
+  type BankRuleCondition,
+  type BankRuleSplit,
+} from "@shared/database/bank-rule-entities";
+import { and, eq, asc, inArray } from "drizzle-orm";
+import { periodLockService, PeriodLockedError, toDateKey } from "./period-lock-service";
+
+export class BankRuleError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BankRuleError";
+    this.status = status;
+  }
+}
+
+export const RULE_CONDITION_FIELDS = ["description", "payee", "amount", "direction", "bank_account", "day_of_month"] as const;
+export const RULE_CONDITION_OPERATORS = [
+  "contains",
+  "not_contains",
+  "equals",
+  "starts_with",
+  "ends_with",
+  "between",
+  "gte",
+  "lte",
+] as const;
+
+export type RuleConditionField = (typeof RULE_CONDITION_FIELDS)[number];
+export type RuleConditionOperator = (typeof RULE_CONDITION_OPERATORS)[number];
+
+// Operators that make sense for each field
+const FIELD_OPERATORS: Record<RuleConditionField, RuleConditionOperator[]> = {
+  description: ["contains", "not_contains", "equals", "starts_with", "ends_with"],
+  payee: ["contains", "not_contains", "equals", "starts_with", "ends_with"],
+  amount: ["equals", "between", "gte", "lte"],
+  direction: ["equals"],
+  bank_account: ["equals"],
+  day_of_month: ["equals", "between", "gte", "lte"],
+};
+
+export interface RuleConditionInput {
+  field: RuleConditionField;
+  operator: RuleConditionOperator;
+  value: string;
+  valueTo?: string | null;
+}
+
+export interface RuleSplitInput {
+  accountId: number;
+  splitType: "percent" | "fixed";
+  amount: number;
+  memo?: string | null;
+}
+
+export interface BankRuleInput {
+  name: string;
+  description?: string | null;
+  conditionLogic: "all" | "any";
+  stopProcessing?: boolean;
+  isActive?: boolean;
+  conditions: RuleConditionInput[];
+  splits: RuleSplitInput[];
+  projectId?: number | null;
+  locationId?: number | null;
+  classId?: number | null;
+  payeeContactId?: number | null;
+  payeeContactType?: "vendor" | "customer" | null;
+  excludeAsTransfer?: boolean;
+}
+
+type RuleWithDetails = BankRule & { conditions: BankRuleCondition[]; splits: BankRuleSplit[] };
+
+interface CandidateTransaction {
+  id: number;
+  date: string;
+  description: string;
+  payee: string;
+  amount: number;
+  direction: "debit" | "credit";
+  bankAccountId: number | null;
+}
+
+interface Allocation {
+  accountId: number;
+  accountName: string;
+  amount: number;
+  memo: string | null;
+}
+
+interface TransactionChange {
+  transactionId: number;
+  date: string;
+  description: string;
+  amount: number;
+  direction: "debit" | "credit";
+  matchedRules: Array<{ id: number; name: string }>;
+  excludeAsTransfer: boolean;
+  allocations: Allocation[];
+  projectId: number | null;
+  locationId: number | null;
+  classId: number | null;
+  payeeContactId: number | null;
+  payeeContactType: string | null;
+  skippedReason?: string;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function validateRule(input: BankRuleInput): void {
+  if (input.conditions.length === 0) {
+    throw new BankRuleError("A rule needs at least one condition");
+  }
+
+  for (const condition of input.conditions) {
+    if (!FIELD_OPERATORS[condition.field]?.includes(condition.operator)) {
+      throw new BankRuleError(`Operator "${condition.operator}" cannot be used with ${condition.field}`);
+    }
+    if (condition.operator === "between" && (condition.valueTo === undefined || condition.valueTo === null || condition.valueTo === "")) {
+      throw new BankRuleError(`"between" on ${condition.field} needs an upper bound`);
+    }
+    if (["amount", "day_of_month", "bank_account"].includes(condition.field)) {
+      const values = condition.operator === "between" ? [condition.value, condition.valueTo] : [condition.value];
+      if (values.some((value) => isNaN(parseFloat(value as string)))) {
+        throw new BankRuleError(`${condition.field} conditions need a numeric value`);
+      }
+    }
+    if (condition.field === "direction" && !["debit", "credit"].includes(condition.value)) {
+      throw new BankRuleError("Direction must be debit or credit");
+    }
+  }
+
+  if (input.excludeAsTransfer && input.splits.length > 0) {
+    throw new BankRuleError("A rule that excludes transactions as transfers cannot also split them");
+  }
+
+  const hasAction =
+    input.excludeAsTransfer ||
+    input.splits.length > 0 ||
+    !!input.projectId ||
+    !!input.locationId ||
+    !!input.classId ||
+    !!input.payeeContactId;
+  if (!hasAction) {
+    throw new BankRuleError("A rule needs at least one action");
+  }
+
+  for (const split of input.splits) {
+    if (split.amount <= 0) {
+      throw new BankRuleError("Split amounts must be positive");
+    }
+  }
+  const percentSplits = input.splits.filter((split) => split.splitType === "percent");
+  if (percentSplits.length > 0) {
+    const totalPercent = roundAmount(percentSplits.reduce((sum, split) => sum + split.amount, 0));
+    if (totalPercent !== 100) {
+      throw new BankRuleError(`Percentage splits must total 100% (currently ${totalPercent}%)`);
+    }
+  }
+}
+
+function matchesText(text: string, operator: RuleConditionOperator, value: string): boolean {
+  const haystack = text.toLowerCase();
+  const needle = value.toLowerCase();
+  switch (operator) {
+    case "contains":
+      return haystack.includes(needle);
+    case "not_contains":
+      return !haystack.includes(needle);
+    case "equals":
+      return haystack.trim() === needle.trim();
+    case "starts_with":
+      return haystack.startsWith(needle);
+    case "ends_with":
+      return haystack.trimEnd().endsWith(needle);
+    default:
+      return false;
+  }
+}
+
+function matchesNumber(actual: number, condition: Pick<BankRuleCondition, "operator" | "value" | "valueTo">): boolean {
+  const value = parseFloat(condition.value);
+  switch (condition.operator) {
+    case "equals":
+      return roundAmount(actual) === roundAmount(value);
+    case "gte":
+      return actual >= value;
+    case "lte":
+      return actual <= value;
+    case "between": {
+      const upper = parseFloat(condition.valueTo || "");
+      return actual >= Math.min(value, upper) && actual <= Math.max(value, upper);
+    }
+    default:
+      return false;
+  }
+}
+
+function matchesCondition(transaction: CandidateTransaction, condition: BankRuleCondition): boolean {
+  const operator = condition.operator as RuleConditionOperator;
+  switch (condition.field) {
+    case "description":
+      return matchesText(transaction.description, operator, condition.value);
+    case "payee":
+      return matchesText(transaction.payee, operator, condition.value);
+    case "amount":
+      return matchesNumber(transaction.amount, condition);
+    case "direction":
+      return transaction.direction === condition.value;
+    case "bank_account":
+      return transaction.bankAccountId === parseInt(condition.value);
+    case "day_of_month":
+      return matchesNumber(parseInt(transaction.date.slice(8, 10)), condition);
+    default:
+      return false;
+  }
+}
+
+export function ruleMatches(rule: RuleWithDetails, transaction: CandidateTransaction): boolean {
+  if (rule.conditions.length === 0) return false;
+  return rule.conditionLogic === "any"
+    ? rule.conditions.some((condition) => matchesCondition(transaction, condition))
+    : rule.conditions.every((condition) => matchesCondition(transaction, condition));
+}
+
+/**
+ * Split a transaction amount across a rule's accounts. Fixed amounts come off
+ * first and percentages share what is left; the last percentage line takes
+ * the rounding. Returns null when fixed-only splits do not add up to the amount.
+ */
+export function allocateSplits(
+  amount: number,
+  splits: Array<Pick<BankRuleSplit, "accountId" | "splitType" | "amount" | "memo">>
+): Array<{ accountId: number; amount: number; memo: string | null }> | null {
+  const fixed = splits.filter((split) => split.splitType === "fixed");
+  const percent = splits.filter((split) => split.splitType === "percent");
+  const fixedTotal = roundAmount(fixed.reduce((sum, split) => sum + parseFloat(split.amount), 0));
+  const remainder = roundAmount(amount - fixedTotal);
+
+  if (remainder < 0 || (percent.length === 0 && remainder !== 0)) {
+    return null;
+  }
+
+  const allocations = fixed.map((split) => ({
+    accountId: split.accountId,
+    amount: roundAmount(parseFloat(split.amount)),
+    memo: split.memo ?? null,
+  }));
+
+  let allocated = 0;
+  percent.forEach((split, index) => {
+    const share =
+      index === percent.length - 1
+        ? roundAmount(remainder - allocated)
+        : roundAmount((remainder * parseFloat(split.amount)) / 100);
+    allocated = roundAmount(allocated + share);
+    allocations.push({ accountId: split.accountId, amount: share, memo: split.memo ?? null });
+  });
+
+  return allocations.filter((allocation) => allocation.amount !== 0);
+}
+
+export class BankRuleService {
+  /**
+   * A client's rules in priority order, with conditions and splits
+   */
+  async listRules(clientId: number): Promise<RuleWithDetails[]> {
+    const rules = await db
+      .select()
+      .from(bankRules)
+      .where(eq(bankRules.clientId, clientId))
+      .orderBy(asc(bankRules.priority), asc(bankRules.id));
+
+    return this.withDetails(rules);
+  }
+
+  /**
+   * Create a rule. New rules go to the end of the priority order.
+   */
+  async createRule(clientId: number, input: BankRuleInput, user?: any) {
+    validateRule(input);
+    await this.assertAccounts(clientId, input);
+
+    const existing = await db
+      .select({ priority: bankRules.priority })
+      .from(bankRules)
+      .where(eq(bankRules.clientId, clientId));
+    const priority = existing.reduce((max, rule) => Math.max(max, rule.priority + 1), 0);
+
+    const [rule] = await db
+      .insert(bankRules)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        priority,
+        createdBy: user?.id ?? null,
+        ...this.ruleValues(input),
+      })
+      .returning();
+
+    await this.replaceDetails(rule.id, input);
+    const [created] = await this.withDetails([rule]);
+    return created;
+  }
+
+  /**
+   * Update a rule's conditions and actions. Priority is changed through reorderRules.
+   */
+  async updateRule(clientId: number, ruleId: number, input: BankRuleInput) {
+    await this.findRule(clientId, ruleId);
+    validateRule(input);
+    await this.assertAccounts(clientId, input);
+
+    const [rule] = await db
+      .update(bankRules)
+      .set({ ...this.ruleValues(input), updatedAt: new Date() })
+      .where(eq(bankRules.id, ruleId))
+      .returning();
+
+    await this.replaceDetails(ruleId, input);
+    const [updated] = await this.withDetails([rule]);
+    return updated;
+  }
+
+  /**
+   * Delete a rule. Transactions it already categorized keep their entries.
+   */
+  async deleteRule(clientId: number, ruleId: number) {
+    await this.findRule(clientId, ruleId);
+    await db.delete(bankRules).where(eq(bankRules.id, ruleId));
+    return { success: true };
+  }
+
+  /**
+   * Set the priority order from a list of rule ids, first id runs first
+   */
+  async reorderRules(clientId: number, ruleIds: number[]) {
+    const rules = await db.select({ id: bankRules.id }).from(bankRules).where(eq(bankRules.clientId, clientId));
+    const known = new Set(rules.map((rule) => rule.id));
+    if (ruleIds.length !== known.size || ruleIds.some((id) => !known.has(id))) {
+      throw new BankRuleError("The priority order must list every rule of the client exactly once");
+    }
+
+    for (const [index, ruleId] of ruleIds.entries()) {
+      await db
+        .update(bankRules)
+        .set({ priority: index, updatedAt: new Date() })
+        .where(and(eq(bankRules.id, ruleId), eq(bankRules.clientId, clientId)));
+    }
+    return this.listRules(clientId);
+  }
+
+  /**
+   * Run active rules against uncategorized transactions. With dryRun nothing is
+   * written; the result lists, per transaction and per rule, what would change.
+   */
+  async apply(clientId: number, options: { dryRun: boolean; transactionIds?: number[] }, user?: any) {
+    const rules = (await this.listRules(clientId)).filter((rule) => rule.isActive);
+    const transactions = await this.getCandidateTransactions(clientId, options.transactionIds);
+    const accounts = await storage.getAccounts(clientId);
+    const accountNames = new Map<number, string>(accounts.map((account: any) => [account.id, account.name]));
+
+    const changes: TransactionChange[] = [];
+    for (const transaction of transactions) {
+      const change = this.evaluate(rules, transaction, accountNames);
+      if (change) changes.push(change);
+    }
+
+    if (!options.dryRun) {
+      for (const change of changes) {
+        if (change.skippedReason) continue;
+        const transaction = transactions.find((candidate) => candidate.id === change.transactionId)!;
+        try {
+          await periodLockService.assertPeriodOpen(clientId, [transaction.date], user);
+          await this.applyChange(clientId, transaction, change);
+        } catch (error) {
+          if (!(error instanceof PeriodLockedError)) throw error;
+          change.skippedReason = error.message;
+        }
+      }
+      await this.recordMatches(changes);
+    }
+
+    const ruleSummaries = rules
+      .map((rule) => {
+        const matched = changes.filter(
+          (change) => !change.skippedReason && change.matchedRules.some((matchedRule) => matchedRule.id === rule.id)
+        );
+        return {
+          ruleId: rule.id,
+          name: rule.name,
+          priority: rule.priority,
+          matchCount: matched.length,
+          transactionIds: matched.map((change) => change.transactionId),
+        };
+      })
+      .filter((summary) => summary.matchCount > 0);
+
+    const applied = changes.filter((change) => !change.skippedReason);
+    return {
+      dryRun: options.dryRun,
+      transactionsEvaluated: transactions.length,
+      appliedCount: options.dryRun ? 0 : applied.length,
+      matchedCount: applied.length,
+      skippedCount: changes.length - applied.length,
+      rules: ruleSummaries,
+      changes,
+    };
+  }
+
+  /**
+   * Combine the actions of every rule that matches, in priority order. The first
+   * rule that categorizes (splits or excludes) decides the categorization; tags
+   * and payee come from the first rule that sets them.
+   */
+  private evaluate(
+    rules: RuleWithDetails[],
+    transaction: CandidateTransaction,
+    accountNames: Map<number, string>
+  ): TransactionChange | null {
+    const change: TransactionChange = {
+      transactionId: transaction.id,
+      date: transaction.date,
+      description: transaction.description,
+      amount: transaction.amount,
+      direction: transaction.direction,
+      matchedRules: [],
+      excludeAsTransfer: false,
+      allocations: [],
+      projectId: null,
+      locationId: null,
+      classId: null,
+      payeeContactId: null,
+      payeeContactType: null,
+    };
+    let categorized = false;
+
+    for (const rule of rules) {
+      if (!ruleMatches(rule, transaction)) continue;
+      change.matchedRules.push({ id: rule.id, name: rule.name });
+
+      if (!categorized && rule.excludeAsTransfer) {
+        change.excludeAsTransfer = true;
+        categorized = true;
+      } else if (!categorized && rule.splits.length > 0) {
+        const allocations = allocateSplits(transaction.amount, rule.splits);
+        if (allocations) {
+          change.allocations = allocations.map((allocation) => ({
+            ...allocation,
+            accountName: accountNames.get(allocation.accountId) || `Account ${allocation.accountId}`,
+          }));
+          categorized = true;
+        } else if (!change.skippedReason) {
+          change.skippedReason = `Fixed splits of "${rule.name}" do not add up to ${transaction.amount.toFixed(2)}`;
+        }
+      }
+
+      change.projectId = change.projectId ?? rule.projectId;
+      change.locationId = change.locationId ?? rule.locationId;
+      change.classId = change.classId ?? rule.classId;
+      if (!change.payeeContactId && rule.payeeContactId) {
+        change.payeeContactId = rule.payeeContactId;
+        change.payeeContactType = rule.payeeContactType;
+      }
+
+      if (rule.stopProcessing) break;
+    }
+
+    if (change.matchedRules.length === 0) return null;
+    if (categorized) delete change.skippedReason;
+    return change;
+  }
+
+  private async applyChange(clientId: number, transaction: CandidateTransaction, change: TransactionChange) {
+    const tags = {
+      ...(change.projectId ? { projectId: change.projectId } : {}),
+      ...(change.locationId ? { locationId: change.locationId } : {}),
+      ...(change.classId ? { classId: change.classId } : {}),
+      ...(change.payeeContactId ? { contactId: change.payeeContactId, contactType: change.payeeContactType } : {}),
+    };
+
+    if (change.excludeAsTransfer) {
+      await storage.updateTransaction(transaction.id, { ...tags, classificationStatus: "excluded", category: "transfer" });
+      return;
+    }
+
+    if (change.allocations.length === 0) {
+      if (Object.keys(tags).length > 0) await storage.updateTransaction(transaction.id, tags);
+      return;
+    }
+
+    if (!transaction.bankAccountId) {
+      change.skippedReason = "Transaction has no bank account to post against";
+      return;
+    }
+
+    // A debit on the statement is money out: debit the split accounts, credit the bank
+    const isMoneyOut = transaction.direction === "debit";
+    const journalEntry = await storage.createJournalEntry({
+      clientId,
+      description: transaction.description || "Bank rule",
+      entryDate: new Date(`${transaction.date}T12:00:00`),
+      totalDebit: transaction.amount.toFixed(2),
+      totalCredit: transaction.amount.toFixed(2),
+      status: "posted",
+      isBalanced: true,
+      sourceTransactionId: transaction.id,
+    });
+
+    for (const allocation of change.allocations) {
+      await storage.createJournalEntryLine({
+        journalEntryId: journalEntry.id,
+        accountId: allocation.accountId,
+        debitAmount: isMoneyOut ? allocation.amount.toFixed(2) : "0.00",
+        creditAmount: isMoneyOut ? "0.00" : allocation.amount.toFixed(2),
+        description: transaction.description,
+        memo: allocation.memo || `Rule: ${change.matchedRules[0].name}`,
+        projectId: change.projectId,
+        locationId: change.locationId,
+        classId: change.classId,
+      });
+    }
+    await storage.createJournalEntryLine({
+      journalEntryId: journalEntry.id,
+      accountId: transaction.bankAccountId,
+      debitAmount: isMoneyOut ? "0.00" : transaction.amount.toFixed(2),
+      creditAmount: isMoneyOut ? transaction.amount.toFixed(2) : "0.00",
+      description: transaction.description,
+      memo: `Rule: ${change.matchedRules[0].name}`,
+    });
+
+    await storage.updateTransaction(transaction.id, {
+      ...tags,
+      accountId: change.allocations[0].accountId,
+      sourceAccountId: transaction.bankAccountId,
+      status: "completed",
+    });
+  }
+
+  private async recordMatches(changes: TransactionChange[]) {
+    const counts = new Map<number, number>();
+    for (const change of changes) {
+      if (change.skippedReason) continue;
+      for (const rule of change.matchedRules) {
+        counts.set(rule.id, (counts.get(rule.id) || 0) + 1);
+      }
+    }
+
+    for (const [ruleId, count] of counts) {
+      const [rule] = await db.select({ matchCount: bankRules.matchCount }).from(bankRules).where(eq(bankRules.id, ruleId));
+      await db
+        .update(bankRules)
+        .set({ matchCount: (rule?.matchCount || 0) + count, lastAppliedAt: new Date() })
+        .where(eq(bankRules.id, ruleId));
+    }
+  }
+
+  /**
+   * Bank transactions not yet posted to the ledger and not excluded
+   */
+  private async getCandidateTransactions(clientId: number, transactionIds?: number[]): Promise<CandidateTransaction[]> {
+    const params: any[] = [clientId];
+    let idFilter = "";
+    if (transactionIds && transactionIds.length > 0) {
+      params.push(transactionIds);
+      idFilter = "AND t.id = ANY($2::int[])";
+    }
+
+    const result = await pool.query(
+      `SELECT t.* FROM transactions t
+       WHERE t.client_id = $1
+         AND COALESCE(t.classification_status, 'unclassified') <> 'excluded'
+         AND NOT EXISTS (SELECT 1 FROM journal_entries je WHERE je.source_transaction_id = t.id)
+         ${idFilter}
+       ORDER BY t.transaction_date, t.id`,
+      params
+    );
+
+    return result.rows
+      .map((row: any) => {
+        const debit = parseFloat(row.debit_amount || "0");
+        const credit = parseFloat(row.credit_amount || "0");
+        const signed = parseFloat(row.amount || "0");
+        const direction: "debit" | "credit" = debit > 0 || (credit === 0 && signed < 0) ? "debit" : "credit";
+        return {
+          id: row.id,
+          date: toDateKey(row.transaction_date) || "",
+          description: row.description || "",
+          // Statements without a payee field carry it in the description
+          payee: row.payee || row.payee_name || row.description || "",
+          amount: roundAmount(debit > 0 ? debit : credit > 0 ? credit : Math.abs(signed)),
+          direction,
+          bankAccountId: row.source_account_id ?? row.account_id ?? null,
+        };
+      })
+      .filter((transaction: CandidateTransaction) => transaction.date && transaction.amount > 0);
+  }
+
+  private ruleValues(input: BankRuleInput) {
+    return {
+      name: input.name,
+      description: input.description ?? null,
+      conditionLogic: input.conditionLogic,
+      stopProcessing: input.stopProcessing ?? true,
+      isActive: input.isActive ?? true,
+      projectId: input.projectId ?? null,
+      locationId: input.locationId ?? null,
+      classId: input.classId ?? null,
+      payeeContactId: input.payeeContactId ?? null,
+      payeeContactType: input.payeeContactId ? input.payeeContactType ?? "vendor" : null,
+      excludeAsTransfer: input.excludeAsTransfer ?? false,
+    };
+  }
+
+  private async assertAccounts(clientId: number, input: BankRuleInput) {
+    const accounts = await storage.getAccounts(clientId);
+    const accountIds = new Set(accounts.map((account: any) => account.id));
+    const referenced = [
+      ...input.splits.map((split) => split.accountId),
+      ...input.conditions.filter((condition) => condition.field === "bank_account").map((condition) => parseInt(condition.value)),
+    ];
+    const missing = referenced.find((accountId) => !accountIds.has(accountId));
+    if (missing !== undefined) {
+      throw new BankRuleError(`Account ${missing} does not belong to this client`);
+    }
+  }
+
+  private async findRule(clientId: number, ruleId: number): Promise<BankRule> {
+    const [rule] = await db
+      .select()
+      .from(bankRules)
+      .where(and(eq(bankRules.id, ruleId), eq(bankRules.clientId, clientId)));
+
+    if (!rule) {
+      throw new BankRuleError("Rule not found", 404);
+    }
+    return rule;
+  }
+
+  private async withDetails(rules: BankRule[]): Promise<RuleWithDetails[]> {
+    if (rules.length === 0) return [];
+    const ruleIds = rules.map((rule) => rule.id);
+    const [conditions, splits] = await Promise.all([
+      db.select().from(bankRuleConditions).where(inArray(bankRuleConditions.ruleId, ruleIds)).orderBy(asc(bankRuleConditions.sortOrder)),
+      db.select().from(bankRuleSplits).where(inArray(bankRuleSplits.ruleId, ruleIds)).orderBy(asc(bankRuleSplits.sortOrder)),
+    ]);
+
+    return rules.map((rule) => ({
+      ...rule,
+      conditions: conditions.filter((condition) => condition.ruleId === rule.id),
+      splits: splits.filter((split) => split.ruleId === rule.id),
+    }));
+  }
+
+  private async replaceDetails(ruleId: number, input: BankRuleInput) {
+    await db.delete(bankRuleConditions).where(eq(bankRuleConditions.ruleId, ruleId));
+    await db.delete(bankRuleSplits).where(eq(bankRuleSplits.ruleId, ruleId));
+
+    await db.insert(bankRuleConditions).values(
+      input.conditions.map((condition, index) => ({
+        ruleId,
+        field: condition.field,
+        operator: condition.operator,
+        value: condition.value,
+        valueTo: condition.operator === "between" ? condition.valueTo ?? null : null,
+        sortOrder: index,
+      }))
+    );
+    if (input.splits.length > 0) {
+      await db.insert(bankRuleSplits).values(
+        input.splits.map((split, index) => ({
+          ruleId,
+          accountId: split.accountId,
+          splitType: split.splitType,
+          amount: roundAmount(split.amount).toFixed(2),
+          memo: split.memo ?? null,
+          sortOrder: index,
+        }))
+      );
+    }
+  }
+}
+
+export const bankRuleService = new BankRuleService();
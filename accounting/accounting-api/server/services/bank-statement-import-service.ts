@@ -0,0 +1,197 @@
+/**
+ * Bank Statement Import Service
+ *
+ * Turns parsed OFX/QFX/QBO/CAMT statements into:
+ * - a pre-mapped preview for the transaction upload flow, with FITIDs that are
+ *   already in the ledger flagged as duplicates
+ * - reconciliation statement items, seeding the session's period and
+ *   statement balance from the file
+ */
+
+import { db, pool } from "../db";
+import { bankStatementImports } from "@shared/database/bank-statement-entities";
+import type { ParsedBankStatement } from "./bank-statement-parser";
+
+/**
+ * Column layout of the preview rows returned by /transactions/parse-file for
+ * structured statements. Money out/in are separate so no sign convention has
+ * to be chosen during mapping.
+ */
+export const STATEMENT_PREVIEW_HEADERS = [
+  "Date",
+  "Description",
+  "Money Out",
+  "Money In",
+  "Memo",
+  "Check Number",
+  "FITID",
+];
+
+export class StatementImportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "StatementImportError";
+    this.status = status;
+  }
+}
+
+export class BankStatementImportService {
+  /**
+   * FITIDs from this set that were already imported for the client.
+   * Imported statement lines keep their FITID in transactions.reference_number.
+   */
+  async findImportedFitIds(clientId: number, fitIds: string[], accountId?: number): Promise<Set<string>> {
+    if (fitIds.length === 0) return new Set();
+
+    const params: any[] = [clientId, fitIds];
+    let query = `
+      SELECT DISTINCT reference_number
+      FROM transactions
+      WHERE client_id = $1 AND reference_number = ANY($2::text[])
+    `;
+    if (accountId) {
+      params.push(accountId);
+      query += ` AND account_id = $3`;
+    }
+
+    const result = await pool.query(query, params);
+    return new Set(result.rows.map((row) => row.reference_number));
+  }
+
+  /**
+   * Build the parse-file response for a structured statement: preview rows,
+   * preset column suggestions, statement summary and duplicate FITIDs
+   */
+  async buildImportPreview(statement: ParsedBankStatement, clientId: number, accountId?: number) {
+    const fitIds = statement.transactions.map((transaction) => transaction.fitId);
+    const imported = clientId
+      ? await this.findImportedFitIds(clientId, fitIds, accountId)
+      : new Set<string>();
+
+    const rows = statement.transactions.map((transaction) => [
+      transaction.date,
+      transaction.description,
+      transaction.amount < 0 ? Math.abs(transaction.amount).toFixed(2) : "",
+      transaction.amount > 0 ? transaction.amount.toFixed(2) : "",
+      transaction.memo || "",
+      transaction.checkNumber || "",
+      transaction.fitId,
+    ]);
+
+    return {
+      headers: STATEMENT_PREVIEW_HEADERS,
+      rows,
+      suggestions: {
+        date: 0,
+        description: 1,
+        debitAmount: 2,
+        creditAmount: 3,
+        fitId: 6,
+      },
+      statement: this.summarize(statement),
+      duplicateFitIds: fitIds.filter((fitId) => imported.has(fitId)),
+    };
+  }
+
+  /**
+   * Load a statement into a reconciliation session. Lines whose FITID is
+   * already on the session are skipped, and the session's period and
+   * statement ending balance are taken from the file.
+   */
+  async importToReconciliationSession(params: {
+    sessionId: number;
+    statement: ParsedBankStatement;
+    fileName?: string;
+    user: any;
+  }) {
+    const { sessionId, statement, fileName, user } = params;
+
+    const sessionResult = await pool.query(
+      `SELECT id, client_id, start_date, end_date FROM reconciliation_sessions WHERE id = $1`,
+      [sessionId]
+    );
+    const session = sessionResult.rows[0];
+    if (!session) {
+      throw new StatementImportError("Reconciliation session not found", 404);
+    }
+
+    const existingResult = await pool.query(
+      `SELECT statement_reference FROM reconciliation_items
+       WHERE session_id = $1 AND statement_reference IS NOT NULL`,
+      [sessionId]
+    );
+    const existingReferences = new Set(existingResult.rows.map((row) => row.statement_reference));
+
+    const newTransactions = statement.transactions.filter(
+      (transaction) => !existingReferences.has(transaction.fitId)
+    );
+    const duplicateCount = statement.transactions.length - newTransactions.length;
+
+    for (const transaction of newTransactions) {
+      await pool.query(
+        `INSERT INTO reconciliation_items
+           (session_id, statement_date, statement_description, statement_amount, statement_reference, status)
+         VALUES ($1, $2, $3, $4, $5, 'unmatched')`,
+        [sessionId, transaction.date, transaction.description, transaction.amount.toFixed(2), transaction.fitId]
+      );
+    }
+
+    // Seed the session from the statement header; keep the user's dates when the file has none
+    await pool.query(
+      `UPDATE reconciliation_sessions
+       SET start_date = COALESCE($2, start_date),
+           end_date = COALESCE($3, end_date),
+           statement_ending_balance = COALESCE($4, statement_ending_balance)
+       WHERE id = $1`,
+      [
+        sessionId,
+        statement.periodStart || null,
+        statement.periodEnd || statement.closingBalanceDate || null,
+        statement.closingBalance !== undefined ? statement.closingBalance.toFixed(2) : null,
+      ]
+    );
+
+    const [statementImport] = await db
+      .insert(bankStatementImports)
+      .values({
+        clientId: session.client_id,
+        firmId: user?.firmId ?? null,
+        reconciliationSessionId: sessionId,
+        format: statement.format,
+        fileName: fileName || null,
+        bankId: statement.bankId || null,
+        accountNumber: statement.accountNumber || null,
+        currency: statement.currency || null,
+        periodStart: statement.periodStart || null,
+        periodEnd: statement.periodEnd || null,
+        openingBalance: statement.openingBalance !== undefined ? statement.openingBalance.toFixed(2) : null,
+        closingBalance: statement.closingBalance !== undefined ? statement.closingBalance.toFixed(2) : null,
+        transactionCount: newTransactions.length,
+        duplicateCount,
+        uploadedBy: user?.id ?? null,
+      })
+      .returning();
+
+    return {
+      statementImportId: statementImport.id,
+      extractedCount: newTransactions.length,
+      duplicateCount,
+      statement: this.summarize(statement),
+    };
+  }
+
+  /**
+   * Statement header without the transaction lines
+   */
+  summarize(statement: ParsedBankStatement) {
+    const { transactions, ...header } = statement;
+    return {
+      ...header,
+      transactionCount: transactions.length,
+    };
+  }
+}
+
+export const bankStatementImportService = new BankStatementImportService();
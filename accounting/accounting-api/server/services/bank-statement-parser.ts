@@ -0,0 +1,525 @@
+/**
+ * Bank Statement Parser
+ *
+ * Native parsers for structured bank statement formats, so these files do not
+ * need manual column mapping:
+ * - OFX 1.x (SGML) and OFX 2.x (XML), including Quicken .qfx
+ * - Intuit Web Connect .qbo (OFX with Intuit headers)
+ * - ISO 20022 CAMT.053 (statement) and CAMT.052 (intraday account report)
+ *
+ * Amounts are signed from the account holder's point of view:
+ * positive = money in, negative = money out.
+ */
+
+import { createHash } from "crypto";
+
+export type StatementFormat = "ofx" | "qfx" | "qbo" | "camt.053" | "camt.052";
+
+export interface ParsedStatementTransaction {
+  fitId: string;
+  date: string;
+  valueDate?: string;
+  amount: number;
+  type?: string;
+  description: string;
+  payee?: string;
+  memo?: string;
+  checkNumber?: string;
+  reference?: string;
+}
+
+export interface ParsedBankStatement {
+  format: StatementFormat;
+  bankId?: string;
+  accountNumber?: string;
+  accountType?: string;
+  currency?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  closingBalanceDate?: string;
+  // True when the file has no opening balance and it was derived from the closing balance
+  openingBalanceDerived?: boolean;
+  transactions: ParsedStatementTransaction[];
+}
+
+export class StatementParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "StatementParseError";
+  }
+}
+
+const STATEMENT_EXTENSIONS = [".ofx", ".qfx", ".qbo", ".xml", ".camt", ".053", ".052"];
+
+/**
+ * Whether a file name has one of the structured statement extensions
+ */
+export function isStatementFileName(fileName: string): boolean {
+  const lower = fileName.toLowerCase();
+  return STATEMENT_EXTENSIONS.some((extension) => lower.endsWith(extension));
+}
+
+/**
+ * Detect the statement format from the file name and content.
+ * Returns null for anything that is not OFX/QFX/QBO or CAMT.
+ */
+export function detectStatementFormat(content: string, fileName = ""): StatementFormat | null {
+  const lower = fileName.toLowerCase();
+  const head = content.slice(0, 4096);
+
+  if (/<OFX>|OFXHEADER/i.test(head) || /<OFX>/i.test(content)) {
+    if (lower.endsWith(".qbo") || /<INTU\.BID>/i.test(content)) return "qbo";
+    if (lower.endsWith(".qfx")) return "qfx";
+    return "ofx";
+  }
+
+  if (/<(\w+:)?BkToCstmrStmt[\s>]/.test(content) || /camt\.053/.test(head)) return "camt.053";
+  if (/<(\w+:)?BkToCstmrAcctRpt[\s>]/.test(content) || /camt\.052/.test(head)) return "camt.052";
+
+  return null;
+}
+
+/**
+ * Parse every account statement in an OFX/QFX/QBO or CAMT file.
+ * Most files hold a single account; multi-account downloads return one entry per account.
+ */
+export function parseBankStatements(input: Buffer | string, fileName = ""): ParsedBankStatement[] {
+  const content = stripBom(typeof input === "string" ? input : input.toString("utf8"));
+  const format = detectStatementFormat(content, fileName);
+
+  if (!format) {
+    throw new StatementParseError("File is not a recognised OFX, QFX, QBO or CAMT statement");
+  }
+
+  const statements = format.startsWith("camt")
+    ? parseCamt(content, format)
+    : parseOfx(content, format);
+
+  if (statements.length === 0) {
+    throw new StatementParseError("No account statements were found in the file");
+  }
+
+  return statements;
+}
+
+/**
+ * Parse a statement file that is expected to hold a single account.
+ * When there are several, the first account with transactions is returned.
+ */
+export function parseBankStatement(input: Buffer | string, fileName = ""): ParsedBankStatement {
+  const statements = parseBankStatements(input, fileName);
+  return statements.find((statement) => statement.transactions.length > 0) || statements[0];
+}
+
+// ---------------------------------------------------------------------------
+// OFX / QFX / QBO
+// ---------------------------------------------------------------------------
+
+interface OfxNode {
+  name: string;
+  value?: string;
+  children: OfxNode[];
+}
+
+/**
+ * Build a tree from OFX markup. SGML OFX leaves have no closing tags, so an
+ * element with inline text is treated as a leaf and anything else as an
+ * aggregate that stays open until its closing tag.
+ */
+function parseOfxTree(content: string): OfxNode {
+  const start = content.search(/<OFX>/i);
+  if (start === -1) {
+    throw new StatementParseError("No <OFX> element found");
+  }
+
+  const root: OfxNode = { name: "#root", children: [] };
+  const stack: OfxNode[] = [root];
+  const tagPattern = /<(\/?)([A-Za-z0-9_.]+)[^>]*>([^<]*)/g;
+  const body = content.slice(start);
+  let match: RegExpExecArray | null;
+
+  while ((match = tagPattern.exec(body))) {
+    const [, closing, rawName, rawText] = match;
+    const name = rawName.toUpperCase();
+
+    if (closing) {
+      // Close the nearest open aggregate; XML leaf closing tags match nothing open
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+      continue;
+    }
+
+    const node: OfxNode = { name, children: [] };
+    stack[stack.length - 1].children.push(node);
+
+    const text = decodeEntities(rawText.trim());
+    if (text) {
+      node.value = text;
+    } else {
+      stack.push(node);
+    }
+  }
+
+  return root;
+}
+
+function findOfx(node: OfxNode, name: string): OfxNode | undefined {
+  // Breadth-first so direct children win over nested aggregates (e.g. PAYEE/NAME)
+  const queue = [...node.children];
+  while (queue.length) {
+    const current = queue.shift()!;
+    if (current.name === name) return current;
+    queue.push(...current.children);
+  }
+  return undefined;
+}
+
+function findAllOfx(node: OfxNode, name: string): OfxNode[] {
+  const found: OfxNode[] = [];
+  for (const child of node.children) {
+    if (child.name === name) {
+      found.push(child);
+    } else {
+      found.push(...findAllOfx(child, name));
+    }
+  }
+  return found;
+}
+
+function ofxValue(node: OfxNode | undefined, name: string): string | undefined {
+  if (!node) return undefined;
+  return findOfx(node, name)?.value;
+}
+
+function parseOfx(content: string, format: StatementFormat): ParsedBankStatement[] {
+  const root = parseOfxTree(content);
+  const statementNodes = [...findAllOfx(root, "STMTRS"), ...findAllOfx(root, "CCSTMTRS")];
+
+  return statementNodes.map((statementNode) => {
+    const account = findOfx(statementNode, "BANKACCTFROM") || findOfx(statementNode, "CCACCTFROM");
+    const transactionList = findOfx(statementNode, "BANKTRANLIST");
+    const ledgerBalance = findOfx(statementNode, "LEDGERBAL");
+    const accountNumber = ofxValue(account, "ACCTID");
+
+    const transactions = transactionList
+      ? assignFallbackFitIds(
+          findAllOfx(transactionList, "STMTTRN").map((transactionNode) => {
+            const name = ofxValue(transactionNode, "NAME");
+            const memo = ofxValue(transactionNode, "MEMO");
+            const checkNumber = ofxValue(transactionNode, "CHECKNUM");
+
+            return {
+              fitId: ofxValue(transactionNode, "FITID") || "",
+              date: parseOfxDate(ofxValue(transactionNode, "DTPOSTED")) || "",
+              valueDate: parseOfxDate(ofxValue(transactionNode, "DTAVAIL")),
+              amount: parseAmount(ofxValue(transactionNode, "TRNAMT")),
+              type: ofxValue(transactionNode, "TRNTYPE"),
+              description: joinText([name, memo && memo !== name ? memo : undefined]) ||
+                (checkNumber ? `Cheque ${checkNumber}` : ""),
+              payee: name,
+              memo,
+              checkNumber,
+              reference: ofxValue(transactionNode, "REFNUM"),
+            };
+          }),
+          accountNumber
+        )
+      : [];
+
+    const closingBalance = ledgerBalance ? parseAmount(ofxValue(ledgerBalance, "BALAMT")) : undefined;
+    const total = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+
+    return {
+      format,
+      bankId: ofxValue(account, "BANKID"),
+      accountNumber,
+      accountType: ofxValue(account, "ACCTTYPE") || (account?.name === "CCACCTFROM" ? "CREDITCARD" : undefined),
+      currency: ofxValue(statementNode, "CURDEF"),
+      periodStart: parseOfxDate(ofxValue(transactionList, "DTSTART")),
+      periodEnd: parseOfxDate(ofxValue(transactionList, "DTEND")),
+      closingBalance,
+      closingBalanceDate: parseOfxDate(ofxValue(ledgerBalance, "DTASOF")),
+      // OFX only carries the ledger balance; the opening balance is implied by the transaction list
+      openingBalance: closingBalance !== undefined ? roundAmount(closingBalance - total) : undefined,
+      openingBalanceDerived: closingBalance !== undefined,
+      transactions,
+    };
+  });
+}
+
+/**
+ * OFX dates are YYYYMMDD[HHMMSS[.XXX]][TZ]; the posting date is the first 8 digits
+ */
+function parseOfxDate(value: string | undefined): string | undefined {
+  const match = value?.match(/^(\d{4})(\d{2})(\d{2})/);
+  return match ? `${match[1]}-${match[2]}-${match[3]}` : undefined;
+}
+
+// ---------------------------------------------------------------------------
+// ISO 20022 CAMT.053 / CAMT.052
+// ---------------------------------------------------------------------------
+
+interface XmlNode {
+  name: string;
+  attributes: Record<string, string>;
+  text: string;
+  children: XmlNode[];
+}
+
+/**
+ * Minimal XML reader for CAMT documents: namespace prefixes are dropped,
+ * comments and processing instructions are skipped, CDATA is kept as text.
+ */
+function parseXml(content: string): XmlNode {
+  const root: XmlNode = { name: "#root", attributes: {}, text: "", children: [] };
+  const stack: XmlNode[] = [root];
+  const tokenPattern =
+    /<!--[\s\S]*?-->|<!\[CDATA\[([\s\S]*?)\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<\/\s*([^\s>]+)\s*>|<([^\s/>!?]+)([^>]*?)(\/?)>|([^<]+)/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = tokenPattern.exec(content))) {
+    const [, cdata, closingName, openName, rawAttributes, selfClosing, text] = match;
+    const current = stack[stack.length - 1];
+
+    if (cdata !== undefined) {
+      current.text += cdata;
+    } else if (closingName) {
+      const name = localName(closingName);
+      for (let i = stack.length - 1; i > 0; i--) {
+        if (stack[i].name === name) {
+          stack.length = i;
+          break;
+        }
+      }
+    } else if (openName) {
+      const node: XmlNode = {
+        name: localName(openName),
+        attributes: parseAttributes(rawAttributes),
+        text: "",
+        children: [],
+      };
+      current.children.push(node);
+      if (!selfClosing) stack.push(node);
+    } else if (text) {
+      current.text += decodeEntities(text);
+    }
+  }
+
+  return root;
+}
+
+function localName(name: string): string {
+  const index = name.indexOf(":");
+  return index === -1 ? name : name.slice(index + 1);
+}
+
+function parseAttributes(raw: string): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  const attributePattern = /([^\s=]+)\s*=\s*("([^"]*)"|'([^']*)')/g;
+  let match: RegExpExecArray | null;
+  while ((match = attributePattern.exec(raw))) {
+    attributes[localName(match[1])] = decodeEntities(match[3] ?? match[4] ?? "");
+  }
+  return attributes;
+}
+
+/**
+ * Follow a child path, e.g. xmlPath(entry, "BookgDt", "Dt")
+ */
+function xmlPath(node: XmlNode | undefined, ...path: string[]): XmlNode | undefined {
+  let current = node;
+  for (const name of path) {
+    current = current?.children.find((child) => child.name === name);
+    if (!current) return undefined;
+  }
+  return current;
+}
+
+function xmlText(node: XmlNode | undefined, ...path: string[]): string | undefined {
+  const text = xmlPath(node, ...path)?.text.trim();
+  return text || undefined;
+}
+
+function xmlChildren(node: XmlNode | undefined, name: string): XmlNode[] {
+  return node ? node.children.filter((child) => child.name === name) : [];
+}
+
+function xmlDescendants(node: XmlNode, name: string): XmlNode[] {
+  const found: XmlNode[] = [];
+  for (const child of node.children) {
+    if (child.name === name) found.push(child);
+    found.push(...xmlDescendants(child, name));
+  }
+  return found;
+}
+
+/**
+ * CAMT dates come as <Dt>YYYY-MM-DD</Dt> or <DtTm>YYYY-MM-DDThh:mm:ss</DtTm>
+ */
+function camtDate(node: XmlNode | undefined): string | undefined {
+  const value = xmlText(node, "Dt") || xmlText(node, "DtTm") || node?.text.trim();
+  return value && /^\d{4}-\d{2}-\d{2}/.test(value) ? value.slice(0, 10) : undefined;
+}
+
+function camtSignedAmount(node: XmlNode): number {
+  const amount = parseAmount(xmlText(node, "Amt"));
+  return xmlText(node, "CdtDbtInd") === "DBIT" ? -amount : amount;
+}
+
+function parseCamt(content: string, format: StatementFormat): ParsedBankStatement[] {
+  const root = parseXml(content);
+  const statementNodes = xmlDescendants(root, format === "camt.053" ? "Stmt" : "Rpt");
+
+  return statementNodes.map((statementNode) => {
+    const account = xmlPath(statementNode, "Acct");
+    const accountNumber = xmlText(account, "Id", "IBAN") || xmlText(account, "Id", "Othr", "Id");
+    const servicer = xmlPath(account, "Svcr", "FinInstnId");
+
+    // Opening: OPBD (or PRCD, the previous closing). Closing: CLBD, or ITBD for intraday reports.
+    const balances = xmlChildren(statementNode, "Bal").map((balanceNode) => ({
+      code: xmlText(balanceNode, "Tp", "CdOrPrtry", "Cd") || xmlText(balanceNode, "Tp", "CdOrPrtry", "Prtry"),
+      amount: camtSignedAmount(balanceNode),
+      date: camtDate(xmlPath(balanceNode, "Dt")),
+      currency: xmlPath(balanceNode, "Amt")?.attributes.Ccy,
+    }));
+    const findBalance = (...codes: string[]) =>
+      codes.map((code) => balances.find((balance) => balance.code === code)).find(Boolean);
+    const opening = findBalance("OPBD", "PRCD");
+    const closing = findBalance("CLBD", "ITBD", "CLAV");
+
+    const entries = xmlChildren(statementNode, "Ntry").filter((entryNode) => {
+      // Pending and informational entries are not on the statement yet
+      const status = xmlText(entryNode, "Sts", "Cd") || xmlText(entryNode, "Sts");
+      return !status || status === "BOOK";
+    });
+
+    const transactions = assignFallbackFitIds(
+      entries.map((entryNode) => {
+        const details = xmlPath(entryNode, "NtryDtls", "TxDtls");
+        const isDebit = xmlText(entryNode, "CdtDbtInd") === "DBIT";
+        const counterparty = isDebit
+          ? xmlText(details, "RltdPties", "Cdtr", "Nm") || xmlText(details, "RltdPties", "Cdtr", "Pty", "Nm")
+          : xmlText(details, "RltdPties", "Dbtr", "Nm") || xmlText(details, "RltdPties", "Dbtr", "Pty", "Nm");
+        const remittance = xmlChildren(xmlPath(details, "RmtInf"), "Ustrd")
+          .map((node) => node.text.trim())
+          .filter(Boolean)
+          .join(" ");
+        const additionalInfo = xmlText(entryNode, "AddtlNtryInf") || xmlText(details, "AddtlTxInf");
+        const endToEndId = xmlText(details, "Refs", "EndToEndId");
+
+        return {
+          fitId:
+            xmlText(entryNode, "AcctSvcrRef") ||
+            xmlText(details, "Refs", "AcctSvcrRef") ||
+            xmlText(entryNode, "NtryRef") ||
+            (endToEndId && endToEndId !== "NOTPROVIDED" ? endToEndId : ""),
+          date: camtDate(xmlPath(entryNode, "BookgDt")) || camtDate(xmlPath(entryNode, "ValDt")) || "",
+          valueDate: camtDate(xmlPath(entryNode, "ValDt")),
+          amount: camtSignedAmount(entryNode),
+          type:
+            xmlText(entryNode, "BkTxCd", "Domn", "Fmly", "SubFmlyCd") ||
+            xmlText(entryNode, "BkTxCd", "Prtry", "Cd"),
+          description: joinText([counterparty, remittance, additionalInfo]),
+          payee: counterparty,
+          memo: remittance || additionalInfo,
+          checkNumber: xmlText(details, "Refs", "ChqNb"),
+          reference: endToEndId !== "NOTPROVIDED" ? endToEndId : undefined,
+        };
+      }),
+      accountNumber
+    );
+
+    const total = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+    const closingBalance = closing?.amount;
+    const openingBalance = opening?.amount ??
+      (closingBalance !== undefined ? roundAmount(closingBalance - total) : undefined);
+
+    return {
+      format,
+      bankId: xmlText(servicer, "BICFI") || xmlText(servicer, "BIC") || xmlText(servicer, "ClrSysMmbId", "MmbId"),
+      accountNumber,
+      accountType: xmlText(account, "Tp", "Cd") || xmlText(account, "Tp", "Prtry"),
+      currency: xmlText(account, "Ccy") || closing?.currency || opening?.currency,
+      periodStart: camtDate(xmlPath(statementNode, "FrToDt", "FrDtTm")) || opening?.date,
+      periodEnd: camtDate(xmlPath(statementNode, "FrToDt", "ToDtTm")) || closing?.date,
+      openingBalance,
+      openingBalanceDerived: !opening && openingBalance !== undefined,
+      closingBalance,
+      closingBalanceDate: closing?.date,
+      transactions,
+    };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Some banks omit FITIDs (or CAMT references). Give those transactions a stable
+ * id from their content so re-importing the same file is still detected.
+ * Identical lines on the same day are numbered in file order.
+ */
+function assignFallbackFitIds(
+  transactions: ParsedStatementTransaction[],
+  accountNumber: string | undefined
+): ParsedStatementTransaction[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((transaction) => {
+    if (transaction.fitId) return transaction;
+
+    const key = [accountNumber || "", transaction.date, transaction.amount.toFixed(2), transaction.description].join("|");
+    const occurrence = (occurrences.get(key) || 0) + 1;
+    occurrences.set(key, occurrence);
+
+    const hash = createHash("sha1").update(`${key}|${occurrence}`).digest("hex").slice(0, 20);
+    return { ...transaction, fitId: `GEN-${hash}` };
+  });
+}
+
+function parseAmount(value: string | undefined): number {
+  if (!value) return 0;
+  let normalized = value.trim().replace(/\s/g, "");
+  // Some European OFX exports use a decimal comma
+  if (normalized.includes(",") && !normalized.includes(".")) {
+    normalized = normalized.replace(",", ".");
+  } else {
+    normalized = normalized.replace(/,/g, "");
+  }
+  const amount = parseFloat(normalized);
+  return isNaN(amount) ? 0 : roundAmount(amount);
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function joinText(parts: Array<string | undefined>): string {
+  return parts
+    .map((part) => part?.trim())
+    .filter((part): part is string => !!part)
+    .join(" - ");
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&#x([0-9a-f]+);/gi, (_, hex) => String.fromCharCode(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (_, code) => String.fromCharCode(parseInt(code, 10)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&");
+}
+
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+}
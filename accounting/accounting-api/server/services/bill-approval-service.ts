@@ -0,0 +1,695 @@
+/**
+ * Bill Approval Service
+ *
+ * Vendor bills above a client's thresholds must be approved before they can
+ * be paid:
+ * - each client has an approval chain of levels, e.g. level 1 "Controller"
+ *   for bills of $5,000 or more and level 2 "Owner" from $25,000; a bill needs
+ *   every level whose threshold it reaches, in order
+ * - approvers are named per level and may be firm staff or client portal
+ *   users, so the client's owner can approve from the portal; whoever
+ *   approves one level of a bill cannot approve another level of it
+ * - approvals are created when a bill is first seen at or above the lowest
+ *   threshold; a bill whose total changes afterwards goes back to the start
+ * - any approver at the current level may reject, with a reason; staff can
+ *   resubmit a rejected bill once it has been corrected
+ * - assertPayable() is the gate used by bill payments and cheques, so an
+ *   unapproved bill cannot be paid or have a cheque/EFT issued against it
+ *
+ * Every submission, decision and reset is written to billApprovalEvents.
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { bills, users } from "@shared/schema";
+import {
+  billApprovalLevels,
+  billApprovals,
+  billApprovalEvents,
+  type BillApprovalLevel,
+  type BillApproval,
+  type BillApprovalEvent,
+} from "@shared/database/bill-approval-entities";
+import { and, eq, gte, asc, desc, inArray, or } from "drizzle-orm";
+import { NotificationService } from "../notification.service";
+
+export type BillApprovalStatus = "not_required" | "pending" | "approved" | "rejected";
+
+export type BillApprovalVia = "app" | "portal";
+
+export interface ApprovalLevelInput {
+  name: string;
+  minAmount: number;
+  approverUserIds: number[];
+}
+
+// Snapshot of a chain level stored on the approval when it is submitted
+interface RequiredLevel {
+  level: number;
+  name: string;
+  minAmount: number;
+  approverUserIds: number[];
+}
+
+const CLIENT_ROLES = ["client_admin", "client_user"];
+// Bills in these statuses are settled or cancelled and never need approval
+const CLOSED_BILL_STATUSES = ["paid", "void", "voided", "cancelled"];
+
+export class BillApprovalError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BillApprovalError";
+    this.status = status;
+  }
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function billTotal(bill: any): number {
+  return round2(parseFloat(bill.totalAmount || "0") || 0);
+}
+
+function isClientUser(user?: any): boolean {
+  return !!user && CLIENT_ROLES.includes(user.role);
+}
+
+function requiredLevelsFor(chain: BillApprovalLevel[], amount: number): RequiredLevel[] {
+  return chain
+    .filter((level) => amount >= parseFloat(level.minAmount))
+    .map((level) => ({
+      level: level.level,
+      name: level.name,
+      minAmount: parseFloat(level.minAmount),
+      approverUserIds: (level.approverUserIds as number[]) || [],
+    }));
+}
+
+class BillApprovalService {
+  /**
+   * Approval levels for a client, lowest first
+   */
+  async getChain(clientId: number): Promise<BillApprovalLevel[]> {
+    return db
+      .select()
+      .from(billApprovalLevels)
+      .where(eq(billApprovalLevels.clientId, clientId))
+      .orderBy(asc(billApprovalLevels.level));
+  }
+
+  /**
+   * Replace a client's approval chain. Thresholds must rise with each level.
+   * Bills already awaiting approval keep the levels they were submitted with.
+   */
+  async saveChain(clientId: number, levels: ApprovalLevelInput[], user?: any): Promise<BillApprovalLevel[]> {
+    const eligible = new Set((await this.listApprovers(clientId, user)).map((approver) => approver.id));
+
+    levels.forEach((level, index) => {
+      if (index > 0 && level.minAmount <= levels[index - 1].minAmount) {
+        throw new BillApprovalError(
+          `"${level.name}" must have a higher threshold than "${levels[index - 1].name}"`
+        );
+      }
+      if (level.approverUserIds.length === 0) {
+        throw new BillApprovalError(`Choose at least one approver for "${level.name}"`);
+      }
+      const unknown = level.approverUserIds.filter((id) => !eligible.has(id));
+      if (unknown.length > 0) {
+        throw new BillApprovalError(`Some approvers for "${level.name}" do not have access to this client`);
+      }
+    });
+
+    const client = await storage.getClient(clientId);
+    const firmId = client?.firmId ?? user?.firmId ?? null;
+
+    return db.transaction(async (tx) => {
+      await tx.delete(billApprovalLevels).where(eq(billApprovalLevels.clientId, clientId));
+      if (levels.length === 0) return [];
+      return tx
+        .insert(billApprovalLevels)
+        .values(
+          levels.map((level, index) => ({
+            clientId,
+            firmId,
+            level: index + 1,
+            name: level.name,
+            minAmount: level.minAmount.toFixed(2),
+            approverUserIds: Array.from(new Set(level.approverUserIds)),
+          }))
+        )
+        .returning();
+    });
+  }
+
+  /**
+   * Users who can be named as approvers: the firm's staff and the client's
+   * portal users
+   */
+  async listApprovers(clientId: number, user?: any) {
+    const client = await storage.getClient(clientId);
+    const firmId = client?.firmId ?? user?.firmId;
+
+    const rows = await db
+      .select({ id: users.id, name: users.name, email: users.email, role: users.role, clientId: users.clientId })
+      .from(users)
+      .where(firmId ? or(eq(users.firmId, firmId), eq(users.clientId, clientId)) : eq(users.clientId, clientId));
+
+    return rows
+      .filter((row) => (CLIENT_ROLES.includes(row.role) ? row.clientId === clientId : true))
+      .map((row) => ({
+        id: row.id,
+        name: row.name || row.email,
+        email: row.email,
+        role: row.role,
+        isClientUser: CLIENT_ROLES.includes(row.role),
+      }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  /**
+   * Open bills with their approval state. `status` narrows the list; the
+   * caller's own actionable bills are flagged with canDecide.
+   */
+  async listBills(clientId: number, user?: any, status?: BillApprovalStatus) {
+    const clientBills = await db.select().from(bills).where(eq(bills.clientId, clientId));
+    const approvals = await this.syncApprovals(clientId, clientBills);
+
+    const vendorNames = new Map<number, string>();
+    const rows = [];
+    for (const bill of clientBills) {
+      const approval = approvals.get(bill.id);
+      const approvalStatus: BillApprovalStatus = approval ? (approval.status as BillApprovalStatus) : "not_required";
+      if (status && approvalStatus !== status) continue;
+      // Unpaid bills only, except where a decision is still outstanding
+      if (CLOSED_BILL_STATUSES.includes(bill.status) && approvalStatus !== "pending") continue;
+
+      if (bill.vendorId && !vendorNames.has(bill.vendorId)) {
+        const vendor = await storage.getVendor(bill.vendorId);
+        vendorNames.set(bill.vendorId, vendor?.vendorName || `Vendor ${bill.vendorId}`);
+      }
+
+      rows.push({
+        billId: bill.id,
+        billNumber: bill.billNumber,
+        vendorId: bill.vendorId,
+        vendorName: bill.vendorId ? vendorNames.get(bill.vendorId) : null,
+        billDate: bill.billDate,
+        dueDate: bill.dueDate,
+        totalAmount: billTotal(bill),
+        balanceDue: round2(parseFloat(bill.balanceDue || "0") || 0),
+        billStatus: bill.status,
+        ...this.toView(approval, user),
+      });
+    }
+
+    return rows.sort((a, b) => String(a.dueDate || "").localeCompare(String(b.dueDate || "")));
+  }
+
+  /**
+   * Approval state of every bill for a client that needs one, keyed by bill
+   */
+  async statusesByBill(clientId: number, user?: any) {
+    const clientBills = await db.select().from(bills).where(eq(bills.clientId, clientId));
+    const approvals = await this.syncApprovals(clientId, clientBills);
+    const statuses: Record<number, ReturnType<BillApprovalService["toView"]>> = {};
+    approvals.forEach((approval, billId) => {
+      statuses[billId] = this.toView(approval, user);
+    });
+    return statuses;
+  }
+
+  /**
+   * Approve the bill at its current level. The bill is approved once every
+   * required level has approved.
+   */
+  async approve(clientId: number, billId: number, user: any, comment?: string | null, via: BillApprovalVia = "app") {
+    const { bill, approval } = await this.findPending(clientId, billId);
+    const levels = approval.requiredLevels as RequiredLevel[];
+    const current = this.assertCanDecide(approval, user);
+    if (approval.approvedLevels > 0 && (await this.hasApprovedSince(clientId, billId, user.id, approval.submittedAt))) {
+      throw new BillApprovalError(
+        `You have already approved this bill at an earlier level; another ${current.name} approver must approve it`,
+        403
+      );
+    }
+
+    const approvedLevels = approval.approvedLevels + 1;
+    const complete = approvedLevels >= levels.length;
+    const now = new Date();
+
+    const [updated] = await db
+      .update(billApprovals)
+      .set({
+        approvedLevels,
+        status: complete ? "approved" : "pending",
+        decidedAt: complete ? now : null,
+      })
+      .where(and(
+        eq(billApprovals.id, approval.id),
+        eq(billApprovals.status, "pending"),
+        eq(billApprovals.approvedLevels, approval.approvedLevels)
+      ))
+      .returning();
+    if (!updated) {
+      throw new BillApprovalError("This bill was decided by someone else at the same time; refresh and try again", 409);
+    }
+
+    await this.recordEvent(clientId, billId, "approved", { level: current, amount: approval.amount, comment, user, via });
+
+    const label = `Bill ${bill.billNumber || `#${billId}`}`;
+    if (complete) {
+      const participants = await this.participants(clientId, billId);
+      await this.notify(
+        clientId,
+        participants.filter((id) => id !== user?.id),
+        "Bill approved",
+        `${label} for $${billTotal(bill).toFixed(2)} was approved by ${user?.name || "an approver"} and can now be paid.`,
+        user?.name
+      );
+    } else {
+      const next = levels[approvedLevels];
+      await this.notify(
+        clientId,
+        next.approverUserIds,
+        "Bill awaiting your approval",
+        `${label} for $${billTotal(bill).toFixed(2)} was approved at ${current.name} level and now needs ${next.name} approval.`,
+        user?.name
+      );
+    }
+
+    return this.toView(updated, user);
+  }
+
+  /**
+   * Reject the bill at its current level. A reason is required.
+   */
+  async reject(clientId: number, billId: number, user: any, comment: string, via: BillApprovalVia = "app") {
+    if (!comment?.trim()) {
+      throw new BillApprovalError("Give a reason for rejecting the bill");
+    }
+    const { bill, approval } = await this.findPending(clientId, billId);
+    const current = this.assertCanDecide(approval, user);
+
+    const [updated] = await db
+      .update(billApprovals)
+      .set({ status: "rejected", decidedAt: new Date() })
+      .where(and(
+        eq(billApprovals.id, approval.id),
+        eq(billApprovals.status, "pending"),
+        eq(billApprovals.approvedLevels, approval.approvedLevels)
+      ))
+      .returning();
+    if (!updated) {
+      throw new BillApprovalError("This bill was decided by someone else at the same time; refresh and try again", 409);
+    }
+
+    await this.recordEvent(clientId, billId, "rejected", { level: current, amount: approval.amount, comment, user, via });
+
+    const participants = await this.participants(clientId, billId);
+    await this.notify(
+      clientId,
+      participants.filter((id) => id !== user?.id),
+      "Bill rejected",
+      `Bill ${bill.billNumber || `#${billId}`} was rejected at ${current.name} level by ${user?.name || "an approver"}: ${comment.trim()}`,
+      user?.name
+    );
+
+    return this.toView(updated, user);
+  }
+
+  /**
+   * Send a rejected bill back through the approval chain from the first
+   * level, using the client's current chain and the bill's current total
+   */
+  async resubmit(clientId: number, billId: number, user: any, comment?: string | null) {
+    const bill = await this.findBill(clientId, billId);
+    const [approval] = await db
+      .select()
+      .from(billApprovals)
+      .where(and(eq(billApprovals.clientId, clientId), eq(billApprovals.billId, billId)));
+    if (!approval || approval.status !== "rejected") {
+      throw new BillApprovalError("Only rejected bills can be resubmitted", 409);
+    }
+
+    const required = requiredLevelsFor(await this.getChain(clientId), billTotal(bill));
+    if (required.length === 0) {
+      await db.delete(billApprovals).where(eq(billApprovals.id, approval.id));
+      await this.recordEvent(clientId, billId, "resubmitted", {
+        amount: billTotal(bill).toFixed(2),
+        comment: comment || "Approval is no longer required for this amount",
+        user,
+        via: "app",
+      });
+      return this.toView(undefined, user);
+    }
+
+    const [updated] = await db
+      .update(billApprovals)
+      .set({
+        status: "pending",
+        amount: billTotal(bill).toFixed(2),
+        requiredLevels: required,
+        approvedLevels: 0,
+        submittedBy: user?.id ?? null,
+        submittedAt: new Date(),
+        decidedAt: null,
+      })
+      .where(eq(billApprovals.id, approval.id))
+      .returning();
+
+    await this.recordEvent(clientId, billId, "resubmitted", { amount: updated.amount, comment, user, via: "app" });
+    await this.notifyFirstLevel(clientId, bill, required, user?.name);
+
+    return this.toView(updated, user);
+  }
+
+  /**
+   * Audit trail for one bill, oldest first
+   */
+  async history(clientId: number, billId: number): Promise<BillApprovalEvent[]> {
+    return db
+      .select()
+      .from(billApprovalEvents)
+      .where(and(eq(billApprovalEvents.clientId, clientId), eq(billApprovalEvents.billId, billId)))
+      .orderBy(asc(billApprovalEvents.createdAt), asc(billApprovalEvents.id));
+  }
+
+  /**
+   * Most recent approval events for a client, newest first
+   */
+  async auditTrail(clientId: number, limit = 200) {
+    const events = await db
+      .select()
+      .from(billApprovalEvents)
+      .where(eq(billApprovalEvents.clientId, clientId))
+      .orderBy(desc(billApprovalEvents.createdAt), desc(billApprovalEvents.id))
+      .limit(limit);
+
+    const billIds = Array.from(new Set(events.map((event) => event.billId)));
+    const billNumbers = new Map<number, string | null>();
+    if (billIds.length > 0) {
+      const rows = await db.select({ id: bills.id, billNumber: bills.billNumber }).from(bills).where(inArray(bills.id, billIds));
+      rows.forEach((row) => billNumbers.set(row.id, row.billNumber));
+    }
+    return events.map((event) => ({ ...event, billNumber: billNumbers.get(event.billId) ?? null }));
+  }
+
+  /**
+   * Throw unless every bill is approved or below the approval thresholds.
+   * Used before recording a bill payment or issuing a cheque or EFT.
+   */
+  async assertPayable(billIds: number[]): Promise<void> {
+    const ids = Array.from(new Set(billIds.filter((id) => Number.isFinite(id))));
+    if (ids.length === 0) return;
+
+    const rows = await db.select().from(bills).where(inArray(bills.id, ids));
+    const byClient = new Map<number, any[]>();
+    for (const bill of rows) {
+      byClient.set(bill.clientId, [...(byClient.get(bill.clientId) || []), bill]);
+    }
+
+    const blocked: string[] = [];
+    for (const [clientId, clientBills] of Array.from(byClient.entries())) {
+      const approvals = await this.syncApprovals(clientId, clientBills);
+      for (const bill of clientBills) {
+        const approval = approvals.get(bill.id);
+        if (!approval || approval.status === "approved") continue;
+        const label = `Bill ${bill.billNumber || `#${bill.id}`}`;
+        if (approval.status === "rejected") {
+          blocked.push(`${label} was rejected`);
+        } else {
+          const levels = approval.requiredLevels as RequiredLevel[];
+          blocked.push(`${label} is awaiting ${levels[approval.approvedLevels]?.name || "approval"} approval`);
+        }
+      }
+    }
+
+    if (blocked.length > 0) {
+      throw new BillApprovalError(`Cannot pay unapproved bills: ${blocked.join("; ")}`, 409);
+    }
+  }
+
+  /**
+   * Bills awaiting approval for the signed-in portal user's company
+   */
+  async portalBills(user: any) {
+    const clientId = this.portalClientId(user);
+    const pending = await this.listBills(clientId, user, "pending");
+    return pending.filter((bill) => bill.approverUserIds.includes(user.id));
+  }
+
+  async portalApprove(user: any, billId: number, comment?: string | null) {
+    return this.approve(this.portalClientId(user), billId, user, comment, "portal");
+  }
+
+  async portalReject(user: any, billId: number, comment: string) {
+    return this.reject(this.portalClientId(user), billId, user, comment, "portal");
+  }
+
+  async portalHistory(user: any, billId: number) {
+    return this.history(this.portalClientId(user), billId);
+  }
+
+  /**
+   * Bring approvals in line with the bills: submit bills that reached a
+   * threshold and restart any whose total changed since they were submitted
+   */
+  private async syncApprovals(clientId: number, clientBills: any[]): Promise<Map<number, BillApproval>> {
+    const approvals = new Map<number, BillApproval>();
+    if (clientBills.length === 0) return approvals;
+
+    const existing = await db
+      .select()
+      .from(billApprovals)
+      .where(and(eq(billApprovals.clientId, clientId), inArray(billApprovals.billId, clientBills.map((bill) => bill.id))));
+    existing.forEach((approval) => approvals.set(approval.billId, approval));
+
+    const chain = await this.getChain(clientId);
+    if (chain.length === 0 && existing.length === 0) return approvals;
+
+    for (const bill of clientBills) {
+      const amount = billTotal(bill);
+      const approval = approvals.get(bill.id);
+
+      if (!approval) {
+        if (CLOSED_BILL_STATUSES.includes(bill.status)) continue;
+        const required = requiredLevelsFor(chain, amount);
+        if (required.length === 0) continue;
+
+        const [created] = await db
+          .insert(billApprovals)
+          .values({ clientId, billId: bill.id, amount: amount.toFixed(2), requiredLevels: required })
+          .onConflictDoNothing()
+          .returning();
+        if (!created) continue;
+        approvals.set(bill.id, created);
+        await this.recordEvent(clientId, bill.id, "submitted", { amount: created.amount, via: "system" });
+        await this.notifyFirstLevel(clientId, bill, required);
+        continue;
+      }
+
+      if (Math.abs(parseFloat(approval.amount) - amount) < 0.005) continue;
+
+      // The bill was edited after submission: earlier approvals no longer apply
+      const required = requiredLevelsFor(chain, amount);
+      const comment = `Bill total changed from $${parseFloat(approval.amount).toFixed(2)} to $${amount.toFixed(2)}`;
+      if (required.length === 0) {
+        await db.delete(billApprovals).where(eq(billApprovals.id, approval.id));
+        approvals.delete(bill.id);
+        await this.recordEvent(clientId, bill.id, "reset", {
+          amount: amount.toFixed(2),
+          comment: `${comment}; approval is no longer required`,
+          via: "system",
+        });
+        continue;
+      }
+
+      const [updated] = await db
+        .update(billApprovals)
+        .set({
+          status: "pending",
+          amount: amount.toFixed(2),
+          requiredLevels: required,
+          approvedLevels: 0,
+          submittedAt: new Date(),
+          decidedAt: null,
+        })
+        .where(eq(billApprovals.id, approval.id))
+        .returning();
+      approvals.set(bill.id, updated);
+      await this.recordEvent(clientId, bill.id, "reset", { amount: updated.amount, comment, via: "system" });
+      await this.notifyFirstLevel(clientId, bill, required);
+    }
+
+    return approvals;
+  }
+
+  private async findBill(clientId: number, billId: number) {
+    const [bill] = await db
+      .select()
+      .from(bills)
+      .where(and(eq(bills.id, billId), eq(bills.clientId, clientId)));
+    if (!bill) {
+      throw new BillApprovalError("Bill not found", 404);
+    }
+    return bill;
+  }
+
+  private async findPending(clientId: number, billId: number) {
+    const bill = await this.findBill(clientId, billId);
+    // Re-check the total first so nobody approves an amount that has changed
+    const approval = (await this.syncApprovals(clientId, [bill])).get(billId);
+    if (!approval) {
+      throw new BillApprovalError("This bill does not need approval", 409);
+    }
+    if (approval.status !== "pending") {
+      throw new BillApprovalError(`This bill has already been ${approval.status}`, 409);
+    }
+    return { bill, approval };
+  }
+
+  private assertCanDecide(approval: BillApproval, user: any): RequiredLevel {
+    const current = (approval.requiredLevels as RequiredLevel[])[approval.approvedLevels];
+    if (!current || !user?.id || !current.approverUserIds.includes(user.id)) {
+      throw new BillApprovalError(
+        `Only ${current?.name || "the assigned"} approvers can decide on this bill at this stage`,
+        403
+      );
+    }
+    return current;
+  }
+
+  /**
+   * Whether the user has approved any level of the bill since it was last
+   * submitted, so no one person approves more than one level
+   */
+  private async hasApprovedSince(clientId: number, billId: number, userId: number, since: Date): Promise<boolean> {
+    const [event] = await db
+      .select({ id: billApprovalEvents.id })
+      .from(billApprovalEvents)
+      .where(and(
+        eq(billApprovalEvents.clientId, clientId),
+        eq(billApprovalEvents.billId, billId),
+        eq(billApprovalEvents.action, "approved"),
+        eq(billApprovalEvents.userId, userId),
+        gte(billApprovalEvents.createdAt, since)
+      ))
+      .limit(1);
+    return !!event;
+  }
+
+  private async recordEvent(
+    clientId: number,
+    billId: number,
+    action: "submitted" | "approved" | "rejected" | "resubmitted" | "reset",
+    details: {
+      level?: RequiredLevel;
+      amount?: string | null;
+      comment?: string | null;
+      user?: any;
+      via: BillApprovalVia | "system";
+    }
+  ) {
+    await db.insert(billApprovalEvents).values({
+      clientId,
+      billId,
+      action,
+      level: details.level?.level ?? null,
+      levelName: details.level?.name ?? null,
+      amount: details.amount ?? null,
+      comment: details.comment?.trim() || null,
+      userId: details.user?.id ?? null,
+      userName: details.user?.name ?? null,
+      via: details.via,
+    });
+  }
+
+  // Users who submitted or decided on a bill, to tell them about the outcome
+  private async participants(clientId: number, billId: number): Promise<number[]> {
+    const events = await this.history(clientId, billId);
+    return Array.from(
+      new Set(events.map((event) => event.userId).filter((id): id is number => typeof id === "number"))
+    );
+  }
+
+  private async notifyFirstLevel(clientId: number, bill: any, required: RequiredLevel[], senderName?: string) {
+    const vendor = bill.vendorId ? await storage.getVendor(bill.vendorId) : null;
+    await this.notify(
+      clientId,
+      required[0].approverUserIds,
+      "Bill awaiting your approval",
+      `Bill ${bill.billNumber || `#${bill.id}`}${vendor?.vendorName ? ` from ${vendor.vendorName}` : ""} for $${billTotal(bill).toFixed(2)} needs ${required[0].name} approval before it can be paid.`,
+      senderName
+    );
+  }
+
+  private async notify(clientId: number, userIds: number[], title: string, message: string, senderName?: string) {
+    if (userIds.length === 0) return;
+    try {
+      const recipients = await db
+        .select({ id: users.id, firmId: users.firmId, role: users.role })
+        .from(users)
+        .where(inArray(users.id, userIds));
+      const client = await storage.getClient(clientId);
+      for (const recipient of recipients) {
+        const portal = CLIENT_ROLES.includes(recipient.role);
+        await NotificationService.sendNotification({
+          firmId: client?.firmId ?? recipient.firmId,
+          userId: recipient.id,
+          type: "bill_approval",
+          title,
+          message,
+          actionUrl: portal ? "/client-portal" : `/clients/${clientId}`,
+          relatedEntityType: "client",
+          relatedEntityId: clientId,
+          senderName,
+          channels: ["in_app", "email"],
+        });
+      }
+    } catch (notifError) {
+      console.error("Failed to send bill approval notification (non-fatal):", notifError);
+    }
+  }
+
+  private portalClientId(user: any): number {
+    if (!isClientUser(user) || !user.clientId) {
+      throw new BillApprovalError("Only client portal users can approve bills here", 403);
+    }
+    return user.clientId;
+  }
+
+  private toView(approval: BillApproval | undefined, user?: any) {
+    if (!approval) {
+      return {
+        approvalStatus: "not_required" as BillApprovalStatus,
+        approvalId: null,
+        requiredLevels: [] as RequiredLevel[],
+        approvedLevels: 0,
+        currentLevelName: null as string | null,
+        approverUserIds: [] as number[],
+        canDecide: false,
+        submittedAt: null as Date | null,
+        decidedAt: null as Date | null,
+      };
+    }
+    const levels = (approval.requiredLevels as RequiredLevel[]) || [];
+    const current = approval.status === "pending" ? levels[approval.approvedLevels] : undefined;
+    const approverUserIds = current?.approverUserIds || [];
+    return {
+      approvalStatus: approval.status as BillApprovalStatus,
+      approvalId: approval.id,
+      requiredLevels: levels,
+      approvedLevels: approval.approvedLevels,
+      currentLevelName: current?.name ?? null,
+      approverUserIds,
+      canDecide: !!user?.id && approverUserIds.includes(user.id),
+      submittedAt: approval.submittedAt,
+      decidedAt: approval.decidedAt,
+    };
+  }
+}
+
+export const billApprovalService = new BillApprovalService();
@@ -0,0 +1,672 @@
+/**
+ * Budget Service
+ *
+ * Budgets by account and month, optionally split by project/location/class:
+ * - manual entry, creation from prior-year actuals with a growth percentage,
+ *   and Excel/CSV import (one row per account, one column per month)
+ * - budget, variance and variance-% columns on the Profit & Loss (single and
+ *   columnar) and Balance Sheet reports
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { budgets, budgetLines, type Budget } from "@shared/database/budget-entities";
+import { and, eq, gte, lte, asc } from "drizzle-orm";
+import { toDateKey } from "./period-lock-service";
+
+export class BudgetError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "BudgetError";
+    this.status = status;
+  }
+}
+
+export type BudgetDimension = "projectId" | "locationId" | "classId";
+
+export interface DimensionFilter {
+  projectId?: number | null;
+  locationId?: number | null;
+  classId?: number | null;
+}
+
+export interface BudgetLineInput extends DimensionFilter {
+  accountId: number;
+  periodMonth: string;
+  amount: number;
+}
+
+export interface BudgetComparison {
+  amount: number;
+  variance: number;
+  variancePercent: number | null;
+}
+
+const PROFIT_LOSS_SECTIONS: Record<string, string> = {
+  income: "income",
+  other_income: "otherIncome",
+  cost_of_sales: "costOfSales",
+  expense: "expenses",
+  other_expense: "otherExpense",
+};
+
+const BALANCE_SHEET_TYPES = ["asset", "liability", "equity"];
+const DEBIT_NORMAL_TYPES = ["asset", "expense", "cost_of_sales", "other_expense"];
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+/**
+ * First day of the month containing a date key
+ */
+export function monthStart(dateKey: string): string {
+  return `${dateKey.slice(0, 7)}-01`;
+}
+
+/**
+ * Month key `count` months after the given month start (negative goes back)
+ */
+function addMonths(monthKey: string, count: number): string {
+  const year = parseInt(monthKey.slice(0, 4));
+  const month = parseInt(monthKey.slice(5, 7)) - 1 + count;
+  const normalizedYear = year + Math.floor(month / 12);
+  const normalizedMonth = ((month % 12) + 12) % 12;
+  return `${normalizedYear}-${pad(normalizedMonth + 1)}-01`;
+}
+
+function monthEnd(monthKey: string): string {
+  const year = parseInt(monthKey.slice(0, 4));
+  const month = parseInt(monthKey.slice(5, 7));
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  return `${monthKey.slice(0, 7)}-${pad(lastDay)}`;
+}
+
+function compare(actual: number, budget: number): BudgetComparison {
+  const variance = roundAmount(actual - budget);
+  return {
+    amount: roundAmount(budget),
+    variance,
+    variancePercent: budget !== 0 ? roundAmount((variance / Math.abs(budget)) * 100) : null,
+  };
+}
+
+function naturalAmount(accountType: string, debit: number, credit: number): number {
+  return DEBIT_NORMAL_TYPES.includes(accountType) ? debit - credit : credit - debit;
+}
+
+function matchesDimensions(line: DimensionFilter, filter: DimensionFilter): boolean {
+  if (filter.projectId && line.projectId !== filter.projectId) return false;
+  if (filter.locationId && line.locationId !== filter.locationId) return false;
+  if (filter.classId && line.classId !== filter.classId) return false;
+  return true;
+}
+
+/**
+ * Month key for a spreadsheet column header: 2025-01, 2025-01-31, Jan 2025,
+ * Jan-25, January 2025, or an Excel date serial. Returns null for other headers.
+ */
+function parseMonthHeader(header: unknown, XLSX: any): string | null {
+  if (typeof header === "number" && header > 20000 && header < 80000) {
+    const parsed = XLSX.SSF.parse_date_code(header);
+    return parsed ? `${parsed.y}-${pad(parsed.m)}-01` : null;
+  }
+  if (header instanceof Date && !isNaN(header.getTime())) {
+    return `${header.getFullYear()}-${pad(header.getMonth() + 1)}-01`;
+  }
+  if (typeof header !== "string") return null;
+
+  const text = header.trim().toLowerCase();
+  const iso = text.match(/^(\d{4})-(\d{1,2})(-\d{1,2})?$/);
+  if (iso) {
+    const month = parseInt(iso[2]);
+    return month >= 1 && month <= 12 ? `${iso[1]}-${pad(month)}-01` : null;
+  }
+
+  const named = text.match(/^([a-z]{3})[a-z]*[\s\-\/]+'?(\d{2}|\d{4})$/);
+  if (named) {
+    const monthIndex = MONTH_NAMES.indexOf(named[1]);
+    if (monthIndex === -1) return null;
+    const year = named[2].length === 2 ? 2000 + parseInt(named[2]) : parseInt(named[2]);
+    return `${year}-${pad(monthIndex + 1)}-01`;
+  }
+
+  return null;
+}
+
+function parseSpreadsheetAmount(value: unknown): number {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || !value.trim()) return 0;
+  const text = value.trim();
+  const negative = /^\(.*\)$/.test(text) || text.startsWith("-");
+  const amount = parseFloat(text.replace(/[^0-9.]/g, ""));
+  if (isNaN(amount)) return 0;
+  return negative ? -amount : amount;
+}
+
+export class BudgetService {
+  /**
+   * List a client's budgets
+   */
+  async listBudgets(clientId: number): Promise<Budget[]> {
+    return db
+      .select()
+      .from(budgets)
+      .where(eq(budgets.clientId, clientId))
+      .orderBy(asc(budgets.startDate), asc(budgets.name));
+  }
+
+  /**
+   * Get a budget with its lines
+   */
+  async getBudget(clientId: number, budgetId: number) {
+    const budget = await this.findBudget(clientId, budgetId);
+    const lines = await db
+      .select()
+      .from(budgetLines)
+      .where(eq(budgetLines.budgetId, budgetId))
+      .orderBy(asc(budgetLines.accountId), asc(budgetLines.periodMonth));
+
+    return { ...budget, lines };
+  }
+
+  /**
+   * Create a budget, optionally with its lines
+   */
+  async createBudget(
+    clientId: number,
+    input: { name: string; startDate: string; months?: number; notes?: string | null; lines?: BudgetLineInput[] },
+    user?: any,
+    source = "manual"
+  ): Promise<Budget> {
+    const [budget] = await db
+      .insert(budgets)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        name: input.name,
+        startDate: monthStart(input.startDate),
+        months: input.months ?? 12,
+        source,
+        notes: input.notes ?? null,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    if (input.lines?.length) {
+      await this.replaceLines(budget, input.lines);
+    }
+    return budget;
+  }
+
+  /**
+   * Rename a budget or change its notes
+   */
+  async updateBudget(clientId: number, budgetId: number, input: { name?: string; notes?: string | null }) {
+    await this.findBudget(clientId, budgetId);
+    const [budget] = await db
+      .update(budgets)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(budgets.id, budgetId))
+      .returning();
+    return budget;
+  }
+
+  async deleteBudget(clientId: number, budgetId: number) {
+    await this.findBudget(clientId, budgetId);
+    await db.delete(budgets).where(eq(budgets.id, budgetId));
+    return { success: true };
+  }
+
+  /**
+   * Replace all lines of a budget (the budget grid saves the whole budget at once)
+   */
+  async saveLines(clientId: number, budgetId: number, lines: BudgetLineInput[]) {
+    const budget = await this.findBudget(clientId, budgetId);
+    const count = await this.replaceLines(budget, lines);
+    await db.update(budgets).set({ updatedAt: new Date() }).where(eq(budgets.id, budgetId));
+    return { budgetId, lines: count };
+  }
+
+  /**
+   * Create a budget from the same months of the prior year, grown by a percentage.
+   * Income statement accounts use the month's activity; balance sheet accounts
+   * use the month-end balance. With `splitBy`, amounts are kept per dimension value.
+   */
+  async createFromPriorYear(
+    clientId: number,
+    input: { name: string; startDate: string; months?: number; growthPercent?: number; splitBy?: BudgetDimension | null },
+    user?: any
+  ) {
+    const months = input.months ?? 12;
+    const firstMonth = monthStart(input.startDate);
+    const sourceFirstMonth = addMonths(firstMonth, -12);
+    const sourceLastMonthEnd = monthEnd(addMonths(sourceFirstMonth, months - 1));
+    const growth = 1 + (input.growthPercent ?? 0) / 100;
+
+    const accounts = await storage.getAccounts(clientId);
+    const accountTypes = new Map<number, string>(accounts.map((account: any) => [account.id, account.type]));
+
+    // All entries up to the end of the source period, so balance sheet accounts get opening balances
+    const entries = await storage.getJournalEntries(clientId, 1000000, 0, "1900-01-01", sourceLastMonthEnd);
+    const entryMonths = new Map<number, string>();
+    for (const entry of entries) {
+      const dateKey = toDateKey(entry.entryDate);
+      if (dateKey) entryMonths.set(entry.id, monthStart(dateKey));
+    }
+    const journalLines = entries.length
+      ? await storage.getJournalEntryLinesBatch(entries.map((entry: any) => entry.id))
+      : [];
+
+    // activity[key][monthIndex], where key is account + split dimension value
+    const activity = new Map<string, { accountId: number; dimension: number | null; opening: number; months: number[] }>();
+    for (const line of journalLines) {
+      const accountType = accountTypes.get(line.accountId);
+      const lineMonth = entryMonths.get(line.journalEntryId);
+      if (!accountType || !lineMonth) continue;
+
+      const isBalanceSheet = BALANCE_SHEET_TYPES.includes(accountType);
+      if (!isBalanceSheet && lineMonth < sourceFirstMonth) continue;
+
+      const dimension = input.splitBy ? (line[input.splitBy] ?? null) : null;
+      const key = `${line.accountId}:${dimension ?? ""}`;
+      if (!activity.has(key)) {
+        activity.set(key, { accountId: line.accountId, dimension, opening: 0, months: new Array(months).fill(0) });
+      }
+
+      const amount = naturalAmount(
+        accountType,
+        parseFloat(line.debitAmount || "0"),
+        parseFloat(line.creditAmount || "0")
+      );
+      const row = activity.get(key)!;
+      if (lineMonth < sourceFirstMonth) {
+        row.opening += amount;
+      } else {
+        const index = (parseInt(lineMonth.slice(0, 4)) - parseInt(sourceFirstMonth.slice(0, 4))) * 12 +
+          parseInt(lineMonth.slice(5, 7)) - parseInt(sourceFirstMonth.slice(5, 7));
+        if (index >= 0 && index < months) row.months[index] += amount;
+      }
+    }
+
+    const lines: BudgetLineInput[] = [];
+    for (const row of Array.from(activity.values())) {
+      const isBalanceSheet = BALANCE_SHEET_TYPES.includes(accountTypes.get(row.accountId)!);
+      let runningBalance = row.opening;
+
+      row.months.forEach((monthAmount, index) => {
+        runningBalance += monthAmount;
+        const amount = roundAmount((isBalanceSheet ? runningBalance : monthAmount) * growth);
+        if (amount === 0) return;
+
+        lines.push({
+          accountId: row.accountId,
+          projectId: input.splitBy === "projectId" ? row.dimension : null,
+          locationId: input.splitBy === "locationId" ? row.dimension : null,
+          classId: input.splitBy === "classId" ? row.dimension : null,
+          periodMonth: addMonths(firstMonth, index),
+          amount,
+        });
+      });
+    }
+
+    const budget = await this.createBudget(
+      clientId,
+      {
+        name: input.name,
+        startDate: firstMonth,
+        months,
+        notes: `Prior-year actuals ${sourceFirstMonth.slice(0, 7)} to ${sourceLastMonthEnd.slice(0, 7)}` +
+          (input.growthPercent ? `, ${input.growthPercent}% growth` : ""),
+        lines,
+      },
+      user,
+      "prior_year"
+    );
+
+    return { budget, lines: lines.length };
+  }
+
+  /**
+   * Create a budget from an Excel or CSV sheet: an account column (number or
+   * name), optional Project/Location/Class ID columns, and one column per month.
+   */
+  async importFromSpreadsheet(
+    clientId: number,
+    fileBuffer: Buffer,
+    input: { name: string; notes?: string | null },
+    user?: any
+  ) {
+    const XLSX = await import("xlsx");
+    const workbook = XLSX.read(fileBuffer, { type: "buffer", cellDates: true });
+    const worksheet = workbook.Sheets[workbook.SheetNames[0]];
+    const rows: any[][] = XLSX.utils.sheet_to_json(worksheet, { header: 1, raw: true });
+
+    if (rows.length < 2) {
+      throw new BudgetError("The budget sheet has no data rows");
+    }
+
+    const headers = rows[0];
+    const headerText = headers.map((header) => String(header ?? "").trim().toLowerCase());
+    const findColumn = (pattern: RegExp) => headerText.findIndex((text) => pattern.test(text));
+
+    const accountNumberColumn = findColumn(/^(account\s*(number|no\.?|#|code)|number|code|gl\s*code)$/);
+    const accountNameColumn = findColumn(/^(account(\s*name)?|name)$/);
+    const dimensionColumns: Record<BudgetDimension, number> = {
+      projectId: findColumn(/^project(\s*id)?$/),
+      locationId: findColumn(/^location(\s*id)?$/),
+      classId: findColumn(/^class(\s*id)?$/),
+    };
+
+    const monthColumns: Array<{ index: number; month: string }> = [];
+    headers.forEach((header, index) => {
+      const month = parseMonthHeader(header, XLSX);
+      if (month) monthColumns.push({ index, month });
+    });
+
+    if (accountNumberColumn === -1 && accountNameColumn === -1) {
+      throw new BudgetError("The budget sheet needs an Account Number or Account column");
+    }
+    if (monthColumns.length === 0) {
+      throw new BudgetError("No month columns found. Use headers like 2025-01 or Jan 2025.");
+    }
+
+    const accounts = await storage.getAccounts(clientId);
+    const byNumber = new Map<string, number>();
+    const byName = new Map<string, number>();
+    for (const account of accounts) {
+      if (account.accountNumber) byNumber.set(String(account.accountNumber).trim(), account.id);
+      byName.set(String(account.name).trim().toLowerCase(), account.id);
+    }
+
+    const lines: BudgetLineInput[] = [];
+    const errors: string[] = [];
+    rows.slice(1).forEach((row, rowIndex) => {
+      const accountNumber = accountNumberColumn >= 0 ? String(row[accountNumberColumn] ?? "").trim() : "";
+      const accountName = accountNameColumn >= 0 ? String(row[accountNameColumn] ?? "").trim() : "";
+      if (!accountNumber && !accountName) return;
+
+      const accountId = byNumber.get(accountNumber) ?? byName.get(accountName.toLowerCase());
+      if (!accountId) {
+        errors.push(`Row ${rowIndex + 2}: account "${accountNumber || accountName}" not found`);
+        return;
+      }
+
+      const dimensions: DimensionFilter = {};
+      for (const [dimension, column] of Object.entries(dimensionColumns) as Array<[BudgetDimension, number]>) {
+        const value = column >= 0 ? parseInt(row[column]) : NaN;
+        dimensions[dimension] = isNaN(value) ? null : value;
+      }
+
+      for (const { index, month } of monthColumns) {
+        const amount = roundAmount(parseSpreadsheetAmount(row[index]));
+        if (amount !== 0) {
+          lines.push({ accountId, ...dimensions, periodMonth: month, amount });
+        }
+      }
+    });
+
+    const sortedMonths = monthColumns.map((column) => column.month).sort();
+    const firstMonth = sortedMonths[0];
+    const lastMonth = sortedMonths[sortedMonths.length - 1];
+    const months =
+      (parseInt(lastMonth.slice(0, 4)) - parseInt(firstMonth.slice(0, 4))) * 12 +
+      parseInt(lastMonth.slice(5, 7)) - parseInt(firstMonth.slice(5, 7)) + 1;
+
+    const budget = await this.createBudget(
+      clientId,
+      { name: input.name, startDate: firstMonth, months, notes: input.notes ?? null, lines },
+      user,
+      "excel"
+    );
+
+    return { budget, lines: lines.length, errors };
+  }
+
+  /**
+   * Budgeted amount per account for the months overlapping a date range
+   */
+  async getAccountBudgets(
+    clientId: number,
+    budgetId: number,
+    startDate: string,
+    endDate: string,
+    dimensions: DimensionFilter = {}
+  ): Promise<Map<number, number>> {
+    await this.findBudget(clientId, budgetId);
+
+    const lines = await db
+      .select()
+      .from(budgetLines)
+      .where(
+        and(
+          eq(budgetLines.budgetId, budgetId),
+          gte(budgetLines.periodMonth, monthStart(startDate)),
+          lte(budgetLines.periodMonth, endDate)
+        )
+      );
+
+    const totals = new Map<number, number>();
+    for (const line of lines) {
+      if (!matchesDimensions(line, dimensions)) continue;
+      totals.set(line.accountId, (totals.get(line.accountId) || 0) + parseFloat(line.amount));
+    }
+    return totals;
+  }
+
+  /**
+   * Add budget, variance and variance-% to a single-period Profit & Loss report.
+   * Budgeted accounts without activity are added to their section with a zero balance.
+   */
+  async applyToProfitLoss(
+    report: any,
+    clientId: number,
+    budgetId: number,
+    startDate: string,
+    endDate: string,
+    dimensions: DimensionFilter = {}
+  ) {
+    const budget = await this.findBudget(clientId, budgetId);
+    const accountBudgets = await this.getAccountBudgets(clientId, budgetId, startDate, endDate, dimensions);
+    const accounts = await storage.getAccounts(clientId);
+
+    const sectionBudgets: Record<string, number> = {};
+    for (const account of accounts) {
+      const sectionKey = PROFIT_LOSS_SECTIONS[account.type];
+      const section = sectionKey ? report[sectionKey] : null;
+      if (!section) continue;
+
+      const budgetAmount = accountBudgets.get(account.id) || 0;
+      let row = section.accounts.find((entry: any) => entry.id === account.id);
+      if (!row && budgetAmount !== 0) {
+        row = {
+          id: account.id,
+          name: account.name,
+          balance: 0,
+          ytdBalance: 0,
+          accountNumber: account.accountNumber,
+          subtype: account.subtype,
+        };
+        section.accounts.push(row);
+      }
+      if (!row) continue;
+
+      row.budget = compare(row.balance || 0, budgetAmount);
+      sectionBudgets[sectionKey] = (sectionBudgets[sectionKey] || 0) + budgetAmount;
+    }
+
+    for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+      const section = report[sectionKey];
+      if (section) section.budget = compare(section.total || 0, sectionBudgets[sectionKey] || 0);
+    }
+
+    const budgetGrossProfit = (sectionBudgets.income || 0) - (sectionBudgets.costOfSales || 0);
+    const budgetNetIncome =
+      budgetGrossProfit -
+      (sectionBudgets.expenses || 0) +
+      (sectionBudgets.otherIncome || 0) -
+      (sectionBudgets.otherExpense || 0);
+
+    report.budgetComparison = {
+      budgetId: budget.id,
+      name: budget.name,
+      grossProfit: compare(report.grossProfit || 0, budgetGrossProfit),
+      netIncome: compare(report.netIncome || 0, budgetNetIncome),
+    };
+    return report;
+  }
+
+  /**
+   * Add per-period budget arrays to a columnar Profit & Loss report. Each array
+   * lines up with `periods`, including the trailing Total column.
+   */
+  async applyToColumnarProfitLoss(
+    report: any,
+    clientId: number,
+    budgetId: number,
+    periods: Array<{ startDate: string; endDate: string }>,
+    dimensions: DimensionFilter = {}
+  ) {
+    const budget = await this.findBudget(clientId, budgetId);
+    const accounts = await storage.getAccounts(clientId);
+    const periodBudgets = await Promise.all(
+      periods.map((period) => this.getAccountBudgets(clientId, budgetId, period.startDate, period.endDate, dimensions))
+    );
+
+    const sectionTotals: Record<string, number[]> = {};
+    for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+      sectionTotals[sectionKey] = new Array(periods.length).fill(0);
+    }
+
+    for (const account of accounts) {
+      const sectionKey = PROFIT_LOSS_SECTIONS[account.type];
+      const section = sectionKey ? report[sectionKey] : null;
+      if (!section) continue;
+
+      const amounts = periodBudgets.map((accountBudgets) => roundAmount(accountBudgets.get(account.id) || 0));
+      amounts.forEach((amount, index) => (sectionTotals[sectionKey][index] += amount));
+
+      const row = section.accounts.find((entry: any) => entry.id === account.id);
+      if (row) {
+        row.budgetAmounts = [...amounts, roundAmount(amounts.reduce((sum, value) => sum + value, 0))];
+      }
+    }
+
+    const withTotal = (values: number[]) => [
+      ...values.map(roundAmount),
+      roundAmount(values.reduce((sum, value) => sum + value, 0)),
+    ];
+
+    for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+      if (report[sectionKey]) report[sectionKey].budgetTotals = withTotal(sectionTotals[sectionKey]);
+    }
+
+    const grossProfits = periods.map((_, i) => sectionTotals.income[i] - sectionTotals.costOfSales[i]);
+    const netIncomes = periods.map(
+      (_, i) => grossProfits[i] - sectionTotals.expenses[i] + sectionTotals.otherIncome[i] - sectionTotals.otherExpense[i]
+    );
+
+    const netIncomeAmounts = withTotal(netIncomes);
+    report.budgetComparison = {
+      budgetId: budget.id,
+      name: budget.name,
+      grossProfitAmounts: withTotal(grossProfits),
+      netIncomeAmounts,
+      netIncomeVariances: (report.netIncomes || []).map(
+        (actual: number, index: number) => roundAmount(actual - (netIncomeAmounts[index] || 0))
+      ),
+    };
+    return report;
+  }
+
+  /**
+   * Add budget, variance and variance-% to a Balance Sheet. The budget for a
+   * balance sheet account is its budgeted balance for the month containing asOfDate.
+   */
+  async applyToBalanceSheet(report: any, clientId: number, budgetId: number, asOfDate: string) {
+    const budget = await this.findBudget(clientId, budgetId);
+    const month = monthStart(asOfDate);
+    const accountBudgets = await this.getAccountBudgets(clientId, budgetId, month, month);
+
+    const annotateSection = (section: any): number => {
+      if (!section?.accounts) return 0;
+      let sectionBudget = 0;
+      for (const row of section.accounts) {
+        if (typeof row.id !== "number") continue;
+        const budgetAmount = accountBudgets.get(row.id) || 0;
+        row.budget = compare(row.balance || 0, budgetAmount);
+        sectionBudget += budgetAmount;
+      }
+      section.budget = compare(section.total || 0, sectionBudget);
+      return sectionBudget;
+    };
+
+    const totalAssets =
+      annotateSection(report.assets?.currentAssets) +
+      annotateSection(report.assets?.fixedAssets) +
+      annotateSection(report.assets?.otherAssets);
+    const totalLiabilities =
+      annotateSection(report.liabilities?.currentLiabilities) +
+      annotateSection(report.liabilities?.longTermLiabilities);
+    const totalEquity = annotateSection(report.equity);
+
+    if (report.assets) report.assets.budget = compare(report.assets.total || 0, totalAssets);
+    if (report.liabilities) report.liabilities.budget = compare(report.liabilities.total || 0, totalLiabilities);
+
+    report.budgetComparison = {
+      budgetId: budget.id,
+      name: budget.name,
+      totalAssets: compare(report.totals?.totalAssets || 0, totalAssets),
+      totalLiabilities: compare(report.totals?.totalLiabilities || 0, totalLiabilities),
+      totalEquity: compare(report.totals?.totalEquity || 0, totalEquity),
+      totalLiabilitiesAndEquity: compare(
+        report.totals?.totalLiabilitiesAndEquity || 0,
+        totalLiabilities + totalEquity
+      ),
+    };
+    return report;
+  }
+
+  private async replaceLines(budget: Budget, lines: BudgetLineInput[]): Promise<number> {
+    await db.delete(budgetLines).where(eq(budgetLines.budgetId, budget.id));
+    if (lines.length === 0) return 0;
+
+    const rows = lines.map((line) => ({
+      budgetId: budget.id,
+      accountId: line.accountId,
+      projectId: line.projectId ?? null,
+      locationId: line.locationId ?? null,
+      classId: line.classId ?? null,
+      periodMonth: monthStart(line.periodMonth),
+      amount: roundAmount(line.amount).toFixed(2),
+    }));
+
+    // Insert in chunks to stay under the bind-parameter limit on large budgets
+    for (let i = 0; i < rows.length; i += 1000) {
+      await db.insert(budgetLines).values(rows.slice(i, i + 1000));
+    }
+    return rows.length;
+  }
+
+  private async findBudget(clientId: number, budgetId: number): Promise<Budget> {
+    const [budget] = await db
+      .select()
+      .from(budgets)
+      .where(and(eq(budgets.id, budgetId), eq(budgets.clientId, clientId)));
+
+    if (!budget) {
+      throw new BudgetError("Budget not found", 404);
+    }
+    return budget;
+  }
+}
+
+export const budgetService = new BudgetService();
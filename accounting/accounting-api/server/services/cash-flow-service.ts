@@ -0,0 +1,326 @@
+/**
+ * Cash Flow Service
+ *
+ * Statement of cash flows by the indirect method, derived from balance sheet
+ * movements so it always ties to the change in cash:
+ * - net income from P&L activity for the period
+ * - add-back of non-cash items (movement of accounts flagged non-cash, such as
+ *   accumulated depreciation)
+ * - working-capital changes grouped as receivables, inventory, prepaids,
+ *   payables and accruals
+ * - investing and financing from the per-client account classification
+ * - a check that the computed net change equals the movement of the cash accounts
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { accountCashFlowCategories } from "@shared/database/cash-flow-entities";
+import { eq } from "drizzle-orm";
+import { toDateKey } from "./period-lock-service";
+
+export class CashFlowError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CashFlowError";
+    this.status = status;
+  }
+}
+
+export const CASH_FLOW_CATEGORIES = ["cash", "operating", "non_cash", "investing", "financing"] as const;
+export type CashFlowCategory = (typeof CASH_FLOW_CATEGORIES)[number];
+
+export interface CashFlowLine {
+  key: string;
+  description: string;
+  amount: number;
+  isHeading?: boolean;
+  accounts?: Array<{ accountId: number; accountNumber: string | null; name: string; amount: number }>;
+}
+
+interface CashFlowSection {
+  activities: CashFlowLine[];
+  total: number;
+}
+
+const BALANCE_SHEET_TYPES = ["asset", "liability", "equity"];
+const PROFIT_LOSS_TYPES = ["income", "other_income", "cost_of_sales", "expense", "other_expense"];
+
+// Working-capital lines, in statement order
+const WORKING_CAPITAL_GROUPS = [
+  { key: "accounts_receivable", description: "Accounts receivable" },
+  { key: "inventory", description: "Inventory" },
+  { key: "prepaid_expenses", description: "Prepaid expenses" },
+  { key: "accounts_payable", description: "Accounts payable" },
+  { key: "accrued_liabilities", description: "Accrued liabilities" },
+  { key: "other_operating", description: "Other operating assets and liabilities" },
+];
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Category a balance sheet account falls in when the client has not set one
+ */
+export function defaultCashFlowCategory(account: { type: string; subtype?: string | null; name?: string | null }): CashFlowCategory | null {
+  const name = (account.name || "").toLowerCase();
+
+  switch (account.type) {
+    case "asset":
+      if (
+        account.subtype === "bank" ||
+        account.subtype === "cash" ||
+        ["cash", "chequing", "checking", "savings", "petty"].some((term) => name.includes(term))
+      ) {
+        return "cash";
+      }
+      if (["accumulated depreciation", "accumulated amortization", "accumulated amortisation"].some((term) => name.includes(term))) {
+        return "non_cash";
+      }
+      if (
+        account.subtype === "fixed_asset" ||
+        ["equipment", "building", "vehicle", "furniture", "computer", "land", "leasehold", "investment"].some((term) =>
+          name.includes(term)
+        )
+      ) {
+        return "investing";
+      }
+      return "operating";
+    case "liability":
+      if (
+        account.subtype === "long_term_liability" ||
+        ["loan", "mortgage", "long-term", "long term", "debt", "shareholder", "due to"].some((term) => name.includes(term))
+      ) {
+        return "financing";
+      }
+      return "operating";
+    case "equity":
+      return "financing";
+    default:
+      return null;
+  }
+}
+
+/**
+ * Working-capital line an operating account is reported on
+ */
+function workingCapitalGroup(account: { type: string; name?: string | null }): string {
+  const name = (account.name || "").toLowerCase();
+  if (account.type === "asset") {
+    if (name.includes("receivable")) return "accounts_receivable";
+    if (name.includes("inventory")) return "inventory";
+    if (name.includes("prepaid") || name.includes("deposit")) return "prepaid_expenses";
+  } else if (account.type === "liability") {
+    if (name.includes("accrued") || name.includes("accrual")) return "accrued_liabilities";
+    if (name.includes("payable")) return "accounts_payable";
+  }
+  return "other_operating";
+}
+
+export class CashFlowService {
+  /**
+   * Balance sheet accounts of a client with their cash-flow category
+   */
+  async getAccountCategories(clientId: number) {
+    const accounts = await storage.getAccounts(clientId);
+    const saved = await this.getSavedCategories(clientId);
+
+    return accounts
+      .filter((account: any) => BALANCE_SHEET_TYPES.includes(account.type))
+      .map((account: any) => {
+        const defaultCategory = defaultCashFlowCategory(account);
+        const category = saved.get(account.id) ?? defaultCategory;
+        return {
+          accountId: account.id,
+          accountNumber: account.accountNumber ?? null,
+          name: account.name,
+          type: account.type,
+          subtype: account.subtype ?? null,
+          category,
+          defaultCategory,
+          isDefault: !saved.has(account.id),
+        };
+      });
+  }
+
+  /**
+   * Set the cash-flow category of a balance sheet account. Null restores the default.
+   */
+  async setAccountCategory(clientId: number, accountId: number, category: CashFlowCategory | null, user?: any) {
+    const accounts = await storage.getAccounts(clientId);
+    const account = accounts.find((entry: any) => entry.id === accountId);
+    if (!account) {
+      throw new CashFlowError("Account not found", 404);
+    }
+    if (!BALANCE_SHEET_TYPES.includes(account.type)) {
+      throw new CashFlowError("Only balance sheet accounts have a cash-flow category; P&L accounts flow through net income");
+    }
+
+    if (category === null) {
+      await db.delete(accountCashFlowCategories).where(eq(accountCashFlowCategories.accountId, accountId));
+      const defaultCategory = defaultCashFlowCategory(account);
+      return { accountId, category: defaultCategory, defaultCategory, isDefault: true };
+    }
+
+    const values = { category, updatedBy: user?.id ?? null, updatedAt: new Date() };
+    await db
+      .insert(accountCashFlowCategories)
+      .values({ accountId, clientId, ...values })
+      .onConflictDoUpdate({ target: accountCashFlowCategories.accountId, set: values });
+
+    return { accountId, category, defaultCategory: defaultCashFlowCategory(account), isDefault: false };
+  }
+
+  /**
+   * Indirect-method statement of cash flows for a date range
+   */
+  async generateIndirect(clientId: number, startDate: string, endDate: string) {
+    const accounts = await storage.getAccounts(clientId);
+    const saved = await this.getSavedCategories(clientId);
+
+    // Balances before the period give opening cash; movements within it drive every line
+    const entries = await storage.getJournalEntries(clientId, 1000000, 0, "1900-01-01", endDate);
+    const entryDates = new Map<number, string>();
+    for (const entry of entries) {
+      const dateKey = toDateKey(entry.entryDate);
+      if (dateKey) entryDates.set(entry.id, dateKey);
+    }
+    const journalLines = entries.length
+      ? await storage.getJournalEntryLinesBatch(entries.map((entry: any) => entry.id))
+      : [];
+
+    const opening = new Map<number, number>();
+    const movement = new Map<number, number>();
+    for (const line of journalLines) {
+      const dateKey = entryDates.get(line.journalEntryId);
+      if (!dateKey) continue;
+      const amount = parseFloat(line.debitAmount || "0") - parseFloat(line.creditAmount || "0");
+      const target = dateKey < startDate ? opening : movement;
+      target.set(line.accountId, (target.get(line.accountId) || 0) + amount);
+    }
+
+    let netIncome = 0;
+    let beginningCash = 0;
+    let cashMovement = 0;
+    const cashAccounts: CashFlowLine["accounts"] = [];
+    const nonCashLines: CashFlowLine[] = [];
+    const investingLines: CashFlowLine[] = [];
+    const financingLines: CashFlowLine[] = [];
+    const groups = new Map<string, CashFlowLine>(
+      WORKING_CAPITAL_GROUPS.map((group) => [
+        group.key,
+        { key: group.key, description: `    ${group.description}`, amount: 0, accounts: [] },
+      ])
+    );
+
+    for (const account of accounts) {
+      const accountMovement = movement.get(account.id) || 0;
+
+      if (PROFIT_LOSS_TYPES.includes(account.type)) {
+        netIncome -= accountMovement;
+        continue;
+      }
+
+      const category = saved.get(account.id) ?? defaultCashFlowCategory(account) ?? "operating";
+      if (category === "cash") {
+        beginningCash += opening.get(account.id) || 0;
+        cashMovement += accountMovement;
+        cashAccounts.push({
+          accountId: account.id,
+          accountNumber: account.accountNumber ?? null,
+          name: account.name,
+          amount: roundAmount(accountMovement),
+        });
+        continue;
+      }
+
+      // A debit to a non-cash balance sheet account uses cash; a credit provides it
+      const cashEffect = roundAmount(-accountMovement);
+      if (cashEffect === 0) continue;
+
+      const accountInfo = {
+        accountId: account.id,
+        accountNumber: account.accountNumber ?? null,
+        name: account.name,
+        amount: cashEffect,
+      };
+
+      if (category === "non_cash") {
+        nonCashLines.push({ key: `non_cash:${account.id}`, description: `    ${account.name}`, amount: cashEffect, accounts: [accountInfo] });
+      } else if (category === "investing") {
+        const description = account.type === "asset"
+          ? `${cashEffect < 0 ? "Purchase of" : "Proceeds from disposal of"} ${account.name}`
+          : account.name;
+        investingLines.push({ key: `investing:${account.id}`, description, amount: cashEffect, accounts: [accountInfo] });
+      } else if (category === "financing") {
+        const description = account.type === "liability"
+          ? `${cashEffect > 0 ? "Proceeds from" : "Repayment of"} ${account.name}`
+          : account.name;
+        financingLines.push({ key: `financing:${account.id}`, description, amount: cashEffect, accounts: [accountInfo] });
+      } else {
+        const group = groups.get(workingCapitalGroup(account))!;
+        group.amount += cashEffect;
+        group.accounts!.push(accountInfo);
+      }
+    }
+
+    const operatingActivities: CashFlowSection = {
+      activities: [{ key: "net_income", description: "Net Income", amount: roundAmount(netIncome) }],
+      total: 0,
+    };
+    if (nonCashLines.length > 0) {
+      operatingActivities.activities.push(
+        { key: "non_cash", description: "  Adjustments for non-cash items:", amount: 0, isHeading: true },
+        ...nonCashLines
+      );
+    }
+    const workingCapitalLines = Array.from(groups.values())
+      .filter((group) => roundAmount(group.amount) !== 0)
+      .map((group) => ({ ...group, amount: roundAmount(group.amount) }));
+    if (workingCapitalLines.length > 0) {
+      operatingActivities.activities.push(
+        { key: "working_capital", description: "  Changes in operating assets and liabilities:", amount: 0, isHeading: true },
+        ...workingCapitalLines
+      );
+    }
+
+    const sectionTotal = (lines: CashFlowLine[]) => roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+    operatingActivities.total = sectionTotal(operatingActivities.activities);
+    const investingActivities: CashFlowSection = { activities: investingLines, total: sectionTotal(investingLines) };
+    const financingActivities: CashFlowSection = { activities: financingLines, total: sectionTotal(financingLines) };
+
+    const netCashChange = roundAmount(operatingActivities.total + investingActivities.total + financingActivities.total);
+    const difference = roundAmount(netCashChange - cashMovement);
+
+    return {
+      operatingActivities,
+      investingActivities,
+      financingActivities,
+      netIncome: roundAmount(netIncome),
+      netCashChange,
+      beginningCash: roundAmount(beginningCash),
+      endingCash: roundAmount(beginningCash + cashMovement),
+      method: "indirect",
+      period: { startDate, endDate },
+      reconciliation: {
+        cashAccounts,
+        cashMovement: roundAmount(cashMovement),
+        computedChange: netCashChange,
+        difference,
+        isReconciled: Math.abs(difference) < 0.01,
+      },
+    };
+  }
+
+  private async getSavedCategories(clientId: number): Promise<Map<number, CashFlowCategory>> {
+    const rows = await db
+      .select()
+      .from(accountCashFlowCategories)
+      .where(eq(accountCashFlowCategories.clientId, clientId));
+    return new Map(rows.map((row) => [row.accountId, row.category as CashFlowCategory]));
+  }
+}
+
+export const cashFlowService = new CashFlowService();
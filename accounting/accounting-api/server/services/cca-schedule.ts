@@ -0,0 +1,286 @@
+/**
+ * CCA Schedule
+ *
+ * Capital cost allowance arithmetic for the T2 Schedule 8, with no database
+ * access (the fixed asset service loads the assets and overrides):
+ * - the CCA classes, their rates and the class 10.1 cost limits
+ * - the tax year containing a date for a fiscal year end
+ * - one year of a class from its opening UCC, additions and disposals, with
+ *   the half-year rule, the AIIP and recapture/terminal loss
+ */
+
+import type { FixedAsset } from "@shared/database/fixed-asset-entities";
+
+export type CcaRule = "half_year" | "aiip" | "none";
+
+/**
+ * Common CCA classes with their declining-balance rates. Straight-line classes
+ * (13, 14, 29) are not listed; enter their rate on the asset.
+ */
+export const CCA_CLASSES: Record<string, { rate: number; description: string }> = {
+  "1": { rate: 4, description: "Buildings acquired after 1987" },
+  "3": { rate: 5, description: "Buildings acquired before 1988" },
+  "6": { rate: 10, description: "Frame, log, stucco or galvanized iron buildings" },
+  "7": { rate: 15, description: "Canoes, boats and vessels" },
+  "8": { rate: 20, description: "Furniture, equipment and machinery" },
+  "10": { rate: 30, description: "Motor vehicles and automotive equipment" },
+  "10.1": { rate: 30, description: "Passenger vehicles over the prescribed cost limit" },
+  "12": { rate: 100, description: "Small tools, software and dies" },
+  "14.1": { rate: 5, description: "Goodwill and other intangible property" },
+  "16": { rate: 40, description: "Taxis, freight trucks and tractors" },
+  "17": { rate: 8, description: "Roads, parking lots and sidewalks" },
+  "43": { rate: 30, description: "Manufacturing and processing machinery" },
+  "43.1": { rate: 30, description: "Clean energy generation equipment" },
+  "43.2": { rate: 50, description: "Clean energy generation equipment (enhanced)" },
+  "44": { rate: 25, description: "Patents and rights to use patented information" },
+  "46": { rate: 30, description: "Data network infrastructure equipment" },
+  "50": { rate: 55, description: "Computer hardware and systems software" },
+  "53": { rate: 50, description: "Manufacturing and processing machinery after 2015" },
+  "54": { rate: 30, description: "Zero-emission passenger vehicles" },
+  "55": { rate: 40, description: "Zero-emission vehicles" },
+};
+
+// Classes eligible for immediate expensing under the AIIP; their first-year
+// deduction is a percentage of cost rather than a multiple of the class rate
+const FULL_EXPENSING_CLASSES = ["43.1", "43.2", "53", "54", "55"];
+
+// Prescribed capital cost limit for class 10.1 passenger vehicles (before
+// sales tax) by year acquired; the latest limit applies until a new one is set
+const PASSENGER_VEHICLE_COST_LIMITS: Array<[number, number]> = [
+  [2024, 37000],
+  [2023, 36000],
+  [2022, 34000],
+  [2001, 30000],
+  [2000, 27000],
+  [0, 26000],
+];
+
+export interface TaxYear {
+  start: string;
+  end: string;
+}
+
+export interface Schedule8Row {
+  ccaClass: string;
+  // Key opening UCC and CCA claimed are saved under: the class, or
+  // "10.1:<assetId>" for a class 10.1 vehicle, which is a class of its own
+  classKey: string;
+  assetId: number | null;
+  description: string;
+  openingUcc: number; // column 2
+  additions: number; // column 3
+  aiipAdditions: number; // column 4
+  proceeds: number; // column 6
+  uccAfterAdditions: number; // column 7
+  netAiipAdditions: number; // column 9
+  aiipAdjustment: number; // column 10
+  halfYearAdjustment: number; // column 11
+  reducedUcc: number; // column 12
+  rate: number; // column 13
+  recapture: number; // column 14
+  terminalLoss: number; // column 15
+  cca: number; // column 16
+  closingUcc: number; // column 17
+  maximumCca: number;
+  capitalGains: number;
+  claimOverridden: boolean;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function dayAfter(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().split("T")[0];
+}
+
+function fiscalYearEndIn(year: number, fyeMonth: number, fyeDay: number): string {
+  return `${year}-${pad(fyeMonth)}-${pad(Math.min(fyeDay, daysInMonth(year, fyeMonth)))}`;
+}
+
+/**
+ * Tax year (start and end) containing a date, for a fiscal year end month/day
+ */
+export function taxYearFor(dateKey: string, fyeMonth: number, fyeDay: number): TaxYear {
+  const year = parseInt(dateKey.slice(0, 4));
+  let end = fiscalYearEndIn(year, fyeMonth, fyeDay);
+  if (dateKey > end) {
+    end = fiscalYearEndIn(year + 1, fyeMonth, fyeDay);
+  }
+  const previousEnd = fiscalYearEndIn(parseInt(end.slice(0, 4)) - 1, fyeMonth, fyeDay);
+  return { start: dayAfter(previousEnd), end };
+}
+
+
+/**
+ * Multiple of net AIIP additions added to UCC before applying the class rate.
+ * Property available for use before 2024 gets 1.5x the first-year rate (or
+ * full expensing for the clean-energy, M&P and zero-emission classes); 2024
+ * to 2027 the half-year rule is suspended (75%/55% first-year deductions for
+ * the full-expensing classes).
+ */
+function aiipFactor(ccaClass: string, rate: number, acquisitionDate: string): number {
+  const year = parseInt(acquisitionDate.slice(0, 4));
+  if (FULL_EXPENSING_CLASSES.includes(ccaClass) && rate > 0) {
+    const firstYearPercent = year <= 2023 ? 100 : year <= 2025 ? 75 : 55;
+    return Math.max(0, firstYearPercent / rate - 1);
+  }
+  return year <= 2023 ? 0.5 : 0;
+}
+
+/**
+ * First-year rule actually applied to an asset: the AIIP only covers property
+ * available for use before 2028, after which the half-year rule applies again
+ */
+function effectiveCcaRule(asset: FixedAsset): CcaRule {
+  if (asset.ccaRule === "aiip" && parseInt(asset.acquisitionDate.slice(0, 4)) > 2027) {
+    return "half_year";
+  }
+  return asset.ccaRule as CcaRule;
+}
+
+/**
+ * Capital cost of an asset for CCA: a class 10.1 vehicle's cost is capped at
+ * the prescribed limit for the year it was acquired
+ */
+function ccaCapitalCost(ccaClass: string, asset: FixedAsset): number {
+  const cost = toNumber(asset.cost);
+  if (ccaClass !== "10.1") return cost;
+
+  const year = parseInt(asset.acquisitionDate.slice(0, 4));
+  for (const [fromYear, limit] of PASSENGER_VEHICLE_COST_LIMITS) {
+    if (year >= fromYear) return Math.min(cost, limit);
+  }
+  return cost;
+}
+
+/**
+ * Schedule 8 class key for an asset's overrides and rows
+ */
+export function classKeyFor(ccaClass: string, assetId?: number | null): string {
+  return ccaClass === "10.1" && assetId ? `10.1:${assetId}` : ccaClass;
+}
+
+/**
+ * One year of a CCA class: Schedule 8 columns from the opening UCC and the
+ * class's additions and disposals in the year
+ */
+export function computeClassYear(
+  ccaClass: string,
+  rate: number,
+  openingUcc: number,
+  assets: FixedAsset[],
+  year: TaxYear,
+  ccaClaimed: number | null
+): Schedule8Row {
+  const acquired = assets.filter((a) => a.acquisitionDate >= year.start && a.acquisitionDate <= year.end);
+  const disposed = assets.filter((a) => a.disposalDate && a.disposalDate >= year.start && a.disposalDate <= year.end);
+
+  const capitalCost = (a: FixedAsset) => ccaCapitalCost(ccaClass, a);
+  const additions = roundAmount(acquired.reduce((sum, a) => sum + capitalCost(a), 0));
+  const aiipAssets = acquired.filter((a) => effectiveCcaRule(a) === "aiip");
+  const aiipAdditions = roundAmount(aiipAssets.reduce((sum, a) => sum + capitalCost(a), 0));
+  const halfYearAdditions = roundAmount(
+    acquired.filter((a) => effectiveCcaRule(a) === "half_year").reduce((sum, a) => sum + capitalCost(a), 0)
+  );
+
+  // Proceeds reduce UCC up to the asset's capital cost; the excess is a capital
+  // gain. A capped class 10.1 vehicle's proceeds are prorated to the capped cost.
+  let proceeds = 0;
+  let capitalGains = 0;
+  for (const asset of disposed) {
+    const assetProceeds = toNumber(asset.disposalProceeds);
+    const cost = toNumber(asset.cost);
+    const cappedShare = cost > 0 ? capitalCost(asset) / cost : 1;
+    proceeds += Math.min(assetProceeds, cost) * cappedShare;
+    capitalGains += Math.max(0, assetProceeds - cost);
+  }
+  proceeds = roundAmount(proceeds);
+
+  const uccAfterAdditions = roundAmount(openingUcc + additions - proceeds);
+
+  // Proceeds reduce non-AIIP additions first (column 8), then AIIP additions
+  const proceedsAgainstAiip = Math.max(0, proceeds - (additions - aiipAdditions));
+  const netAiipAdditions = roundAmount(Math.max(0, aiipAdditions - proceedsAgainstAiip));
+  const weightedFactor = aiipAdditions > 0
+    ? aiipAssets.reduce((sum, a) => sum + capitalCost(a) * aiipFactor(ccaClass, rate, a.acquisitionDate), 0) / aiipAdditions
+    : 0;
+  const aiipAdjustment = roundAmount(netAiipAdditions * weightedFactor);
+  const halfYearAdjustment = roundAmount(
+    Math.min(halfYearAdditions, Math.max(0, additions - aiipAdditions - proceeds)) * 0.5
+  );
+  const reducedUcc = roundAmount(Math.max(0, uccAfterAdditions + aiipAdjustment - halfYearAdjustment));
+
+  const ownedAtYearEnd = assets.filter((a) => a.acquisitionDate <= year.end);
+  const classEmpty =
+    ownedAtYearEnd.length > 0 && ownedAtYearEnd.every((a) => a.disposalDate && a.disposalDate <= year.end);
+
+  let recapture = 0;
+  let terminalLoss = 0;
+  let maximumCca = roundAmount(reducedUcc * (rate / 100));
+  let closingUcc: number;
+
+  if (ccaClass === "10.1") {
+    // Each class 10.1 vehicle is its own class (getSchedule8 rolls them forward
+    // per asset): no recapture or terminal loss, and half the year's CCA is
+    // allowed in the year of disposal
+    if (classEmpty) {
+      maximumCca = roundAmount(Math.max(0, openingUcc) * (rate / 100) * 0.5);
+    }
+  } else if (uccAfterAdditions < 0) {
+    recapture = roundAmount(-uccAfterAdditions);
+    maximumCca = 0;
+  } else if (classEmpty && uccAfterAdditions > 0) {
+    terminalLoss = uccAfterAdditions;
+    maximumCca = 0;
+  }
+
+  const claimOverridden = ccaClaimed !== null && ccaClaimed < maximumCca;
+  const cca = claimOverridden ? roundAmount(Math.max(0, ccaClaimed!)) : maximumCca;
+
+  if (recapture > 0 || terminalLoss > 0 || (ccaClass === "10.1" && classEmpty)) {
+    closingUcc = 0;
+  } else {
+    closingUcc = roundAmount(uccAfterAdditions - cca);
+  }
+
+  return {
+    ccaClass,
+    classKey: ccaClass,
+    assetId: null,
+    description: CCA_CLASSES[ccaClass]?.description ?? "",
+    openingUcc: roundAmount(openingUcc),
+    additions,
+    aiipAdditions,
+    proceeds,
+    uccAfterAdditions,
+    netAiipAdditions,
+    aiipAdjustment,
+    halfYearAdjustment,
+    reducedUcc,
+    rate,
+    recapture,
+    terminalLoss,
+    cca,
+    closingUcc,
+    maximumCca,
+    capitalGains: roundAmount(capitalGains),
+    claimOverridden,
+  };
+}
@@ -0,0 +1,515 @@
+/**
+ * Client Question Service
+ *
+ * "Ask the client" workflow for transactions staff cannot categorize:
+ * - staff flag transactions from the ledger with a question; client users are
+ *   notified and see the questions in the client portal
+ * - the client answers with a description, a category hint and optionally a
+ *   receipt; the answer is noted on the transaction memo (unless its period
+ *   is locked) and the staff member who asked is notified
+ * - questions left open are reminded every few days (per-firm setting)
+ * - answered questions are resolved by staff once the transaction has been
+ *   classified, usually several at a time
+ */
+
+import fs from "fs";
+import path from "path";
+import { db, pool } from "../db";
+import {
+  transactionQuestions,
+  clientQuestionSettings,
+  type TransactionQuestion,
+} from "@shared/database/client-question-entities";
+import { and, eq, desc, inArray, lt } from "drizzle-orm";
+import { periodLockService, toDateKey, PeriodLockedError } from "./period-lock-service";
+import { NotificationService } from "../notification.service";
+
+export class ClientQuestionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ClientQuestionError";
+    this.status = status;
+  }
+}
+
+export type ClientQuestionStatus = "open" | "answered" | "resolved" | "cancelled";
+
+export interface ClientQuestionSettingsValues {
+  reminderDays: number;
+}
+
+export interface QuestionAnswer {
+  description: string;
+  categoryHint?: string | null;
+}
+
+export interface QuestionAttachment {
+  path: string;
+  originalName: string;
+  mimeType: string;
+}
+
+export interface QuestionResolution {
+  questionId: number;
+  accountId?: number | null;
+}
+
+export const DEFAULT_CLIENT_QUESTION_SETTINGS: ClientQuestionSettingsValues = {
+  reminderDays: 5,
+};
+
+const CLIENT_ROLES = ["client_admin", "client_user"];
+// Stop reminding after this many; staff can follow up personally
+const MAX_REMINDERS = 3;
+const MEMO_ANSWER_PREFIX = "Client:";
+
+interface QuestionTransaction {
+  id: number;
+  date: string | null;
+  description: string;
+  amount: number;
+  memo: string | null;
+  accountId: number | null;
+}
+
+function isClientUser(user?: any): boolean {
+  return !!user && CLIENT_ROLES.includes(user.role);
+}
+
+function toQuestionTransaction(row: any): QuestionTransaction {
+  const debit = parseFloat(row.debit_amount || "0");
+  const credit = parseFloat(row.credit_amount || "0");
+  const amount = row.amount !== null && row.amount !== undefined ? parseFloat(row.amount) : debit - credit;
+  return {
+    id: row.id,
+    date: toDateKey(row.transaction_date) || null,
+    description: row.description || "",
+    amount: Number.isFinite(amount) ? amount : 0,
+    memo: row.memo ?? null,
+    accountId: row.account_id ?? null,
+  };
+}
+
+function removeUpload(attachment?: QuestionAttachment | null) {
+  if (attachment) fs.unlink(attachment.path, () => undefined);
+}
+
+export class ClientQuestionService {
+  /**
+   * Firm reminder settings, or the defaults
+   */
+  async getSettings(firmId?: number | null): Promise<ClientQuestionSettingsValues> {
+    if (!firmId) return { ...DEFAULT_CLIENT_QUESTION_SETTINGS };
+    const [settings] = await db
+      .select()
+      .from(clientQuestionSettings)
+      .where(eq(clientQuestionSettings.firmId, firmId))
+      .limit(1);
+
+    if (!settings) return { ...DEFAULT_CLIENT_QUESTION_SETTINGS };
+    return { reminderDays: settings.reminderDays };
+  }
+
+  async updateSettings(
+    firmId: number | null | undefined,
+    data: Partial<ClientQuestionSettingsValues>,
+    user?: any
+  ): Promise<ClientQuestionSettingsValues> {
+    if (!firmId) {
+      throw new ClientQuestionError("Client question settings are saved per firm; this user has no firm");
+    }
+    const values = {
+      ...(data.reminderDays !== undefined ? { reminderDays: data.reminderDays } : {}),
+      updatedBy: user?.id ?? null,
+      updatedAt: new Date(),
+    };
+
+    await db
+      .insert(clientQuestionSettings)
+      .values({ firmId, ...values })
+      .onConflictDoUpdate({ target: clientQuestionSettings.firmId, set: values });
+
+    return this.getSettings(firmId);
+  }
+
+  /**
+   * Ask the client about transactions. Transactions that already have an
+   * open question are skipped rather than asked twice.
+   */
+  async askQuestions(clientId: number, transactionIds: number[], question: string, user?: any) {
+    const ids = Array.from(new Set(transactionIds));
+    const transactions = await this.loadTransactions(clientId, ids);
+    if (transactions.size !== ids.length) {
+      throw new ClientQuestionError("Some transactions were not found for this client", 404);
+    }
+
+    const pending = await db
+      .select({ transactionId: transactionQuestions.transactionId })
+      .from(transactionQuestions)
+      .where(
+        and(
+          eq(transactionQuestions.clientId, clientId),
+          inArray(transactionQuestions.transactionId, ids),
+          inArray(transactionQuestions.status, ["open", "answered"])
+        )
+      );
+    const alreadyAsked = new Set(pending.map((row) => row.transactionId));
+    const toAsk = ids.filter((id) => !alreadyAsked.has(id));
+
+    const created = toAsk.length
+      ? await db
+          .insert(transactionQuestions)
+          .values(
+            toAsk.map((transactionId) => ({
+              clientId,
+              firmId: user?.firmId ?? null,
+              transactionId,
+              question,
+              askedBy: user?.id ?? null,
+            }))
+          )
+          .returning()
+      : [];
+
+    if (created.length > 0) {
+      await this.notifyClient(
+        clientId,
+        user?.firmId ?? null,
+        "New questions from your accountant",
+        created.length === 1
+          ? `Your accountant has a question about "${transactions.get(created[0].transactionId)!.description}"`
+          : `Your accountant has ${created.length} questions about your transactions`,
+        user?.name
+      );
+    }
+
+    return {
+      asked: created.map((row) => this.toView(row, transactions.get(row.transactionId))),
+      skipped: ids.filter((id) => alreadyAsked.has(id)),
+    };
+  }
+
+  /**
+   * A client's questions with the transactions they are about
+   */
+  async listForClient(clientId: number, status?: ClientQuestionStatus) {
+    const rows = await db
+      .select()
+      .from(transactionQuestions)
+      .where(
+        status
+          ? and(eq(transactionQuestions.clientId, clientId), eq(transactionQuestions.status, status))
+          : eq(transactionQuestions.clientId, clientId)
+      )
+      .orderBy(desc(transactionQuestions.createdAt));
+    return this.withTransactions(clientId, rows);
+  }
+
+  /**
+   * Questions shown in the client portal: open ones to answer and answered
+   * ones still waiting for staff. Cancelled and resolved questions are hidden.
+   */
+  async listForPortal(user: any) {
+    const clientId = this.portalClientId(user);
+    const rows = await db
+      .select()
+      .from(transactionQuestions)
+      .where(
+        and(eq(transactionQuestions.clientId, clientId), inArray(transactionQuestions.status, ["open", "answered"]))
+      )
+      .orderBy(desc(transactionQuestions.createdAt));
+    return this.withTransactions(clientId, rows);
+  }
+
+  /**
+   * Record the client's answer. An answer can be corrected until staff
+   * resolve the question.
+   */
+  async answer(user: any, questionId: number, answer: QuestionAnswer, attachment?: QuestionAttachment | null) {
+    let question: TransactionQuestion;
+    try {
+      question = await this.findQuestion(this.portalClientId(user), questionId);
+      if (question.status !== "open" && question.status !== "answered") {
+        throw new ClientQuestionError("This question has already been closed by your accountant", 409);
+      }
+    } catch (error) {
+      removeUpload(attachment);
+      throw error;
+    }
+
+    const now = new Date();
+    const [updated] = await db
+      .update(transactionQuestions)
+      .set({
+        status: "answered",
+        answerDescription: answer.description,
+        answerCategoryHint: answer.categoryHint || null,
+        ...(attachment
+          ? {
+              answerAttachmentPath: path.relative(process.cwd(), attachment.path),
+              answerAttachmentName: attachment.originalName,
+              answerAttachmentType: attachment.mimeType,
+            }
+          : {}),
+        answeredBy: user.id ?? null,
+        answeredAt: now,
+        updatedAt: now,
+      })
+      .where(eq(transactionQuestions.id, question.id))
+      .returning();
+
+    // A replaced attachment is no longer referenced
+    if (attachment && question.answerAttachmentPath) {
+      fs.unlink(path.join(process.cwd(), question.answerAttachmentPath), () => undefined);
+    }
+
+    const transaction = (await this.loadTransactions(question.clientId, [question.transactionId])).get(
+      question.transactionId
+    );
+    if (transaction) {
+      await this.noteOnTransaction(question.clientId, transaction, answer, user);
+    }
+
+    if (question.askedBy) {
+      try {
+        await NotificationService.sendNotification({
+          firmId: question.firmId,
+          userId: question.askedBy,
+          type: "client_question_answered",
+          title: "Client answered your question",
+          message: `${user.name || "The client"} answered about "${transaction?.description || `transaction #${question.transactionId}`}": ${answer.description}`,
+          actionUrl: `/clients/${question.clientId}`,
+          relatedEntityType: "transaction_question",
+          relatedEntityId: question.id,
+          senderName: user.name,
+          channels: ["in_app"],
+        });
+      } catch (notifError) {
+        console.error("Failed to send client answer notification (non-fatal):", notifError);
+      }
+    }
+
+    return this.toView(updated, transaction);
+  }
+
+  /**
+   * Withdraw a question the client has not answered yet
+   */
+  async cancel(clientId: number, questionId: number) {
+    const question = await this.findQuestion(clientId, questionId);
+    if (question.status !== "open") {
+      throw new ClientQuestionError("Only open questions can be cancelled", 409);
+    }
+    const [updated] = await db
+      .update(transactionQuestions)
+      .set({ status: "cancelled", updatedAt: new Date() })
+      .where(eq(transactionQuestions.id, question.id))
+      .returning();
+    return this.toView(updated);
+  }
+
+  /**
+   * Close answered questions once their transactions have been classified
+   */
+  async resolve(clientId: number, resolutions: QuestionResolution[], user?: any) {
+    const ids = resolutions.map((resolution) => resolution.questionId);
+    const questions = await db
+      .select()
+      .from(transactionQuestions)
+      .where(and(eq(transactionQuestions.clientId, clientId), inArray(transactionQuestions.id, ids)));
+    if (questions.length !== new Set(ids).size) {
+      throw new ClientQuestionError("Some questions were not found for this client", 404);
+    }
+    const closed = questions.filter((question) => question.status === "resolved" || question.status === "cancelled");
+    if (closed.length > 0) {
+      throw new ClientQuestionError(`Question #${closed[0].id} is already ${closed[0].status}`, 409);
+    }
+
+    const now = new Date();
+    const resolved: TransactionQuestion[] = [];
+    for (const resolution of resolutions) {
+      const [updated] = await db
+        .update(transactionQuestions)
+        .set({
+          status: "resolved",
+          resolvedAccountId: resolution.accountId ?? null,
+          resolvedBy: user?.id ?? null,
+          resolvedAt: now,
+          updatedAt: now,
+        })
+        .where(eq(transactionQuestions.id, resolution.questionId))
+        .returning();
+      resolved.push(updated);
+    }
+    return this.withTransactions(clientId, resolved);
+  }
+
+  /**
+   * The uploaded receipt of an answer, for staff or the client who sent it
+   */
+  async getAttachment(questionId: number, user: any, clientId?: number) {
+    const question = await this.findQuestion(isClientUser(user) ? this.portalClientId(user) : clientId!, questionId);
+    if (!question.answerAttachmentPath) {
+      throw new ClientQuestionError("This answer has no attachment", 404);
+    }
+    const filePath = path.join(process.cwd(), question.answerAttachmentPath);
+    if (!fs.existsSync(filePath)) {
+      throw new ClientQuestionError("Attachment file not found", 404);
+    }
+    return {
+      filePath,
+      fileName: question.answerAttachmentName || path.basename(filePath),
+      mimeType: question.answerAttachmentType || "application/octet-stream",
+    };
+  }
+
+  /**
+   * Remind clients of questions left open longer than their firm's reminder
+   * interval. Returns the number of clients reminded.
+   */
+  async sendReminders(now = new Date()): Promise<number> {
+    const open = await db
+      .select()
+      .from(transactionQuestions)
+      .where(
+        and(
+          eq(transactionQuestions.status, "open"),
+          lt(transactionQuestions.reminderCount, MAX_REMINDERS)
+        )
+      );
+
+    const settingsByFirm = new Map<number | null, ClientQuestionSettingsValues>();
+    const dueByClient = new Map<number, TransactionQuestion[]>();
+    for (const question of open) {
+      if (!settingsByFirm.has(question.firmId)) {
+        settingsByFirm.set(question.firmId, await this.getSettings(question.firmId));
+      }
+      const cutoff = now.getTime() - settingsByFirm.get(question.firmId)!.reminderDays * 86400000;
+      const lastContact = (question.lastReminderAt || question.createdAt).getTime();
+      if (lastContact > cutoff) continue;
+      dueByClient.set(question.clientId, [...(dueByClient.get(question.clientId) || []), question]);
+    }
+
+    for (const [clientId, questions] of Array.from(dueByClient.entries())) {
+      const openCount = open.filter((question) => question.clientId === clientId).length;
+      await this.notifyClient(
+        clientId,
+        questions[0].firmId,
+        "Reminder: questions from your accountant",
+        `You have ${openCount} unanswered ${openCount === 1 ? "question" : "questions"} about your transactions`
+      );
+      for (const question of questions) {
+        await db
+          .update(transactionQuestions)
+          .set({ reminderCount: question.reminderCount + 1, lastReminderAt: now })
+          .where(and(eq(transactionQuestions.id, question.id), eq(transactionQuestions.status, "open")));
+      }
+    }
+    return dueByClient.size;
+  }
+
+  private portalClientId(user: any): number {
+    if (!isClientUser(user) || !user.clientId) {
+      throw new ClientQuestionError("Only client portal users can answer questions", 403);
+    }
+    return user.clientId;
+  }
+
+  private async findQuestion(clientId: number, questionId: number): Promise<TransactionQuestion> {
+    const [question] = await db
+      .select()
+      .from(transactionQuestions)
+      .where(and(eq(transactionQuestions.id, questionId), eq(transactionQuestions.clientId, clientId)))
+      .limit(1);
+    if (!question) {
+      throw new ClientQuestionError("Question not found", 404);
+    }
+    return question;
+  }
+
+  private async loadTransactions(clientId: number, ids: number[]): Promise<Map<number, QuestionTransaction>> {
+    if (ids.length === 0) return new Map();
+    const result = await pool.query(
+      `SELECT id, transaction_date, description, amount, debit_amount, credit_amount, memo, account_id
+       FROM transactions WHERE client_id = $1 AND id = ANY($2::int[])`,
+      [clientId, ids]
+    );
+    return new Map(result.rows.map((row: any) => [row.id, toQuestionTransaction(row)]));
+  }
+
+  private async withTransactions(clientId: number, rows: TransactionQuestion[]) {
+    const transactions = await this.loadTransactions(
+      clientId,
+      Array.from(new Set(rows.map((row) => row.transactionId)))
+    );
+    return rows.map((row) => this.toView(row, transactions.get(row.transactionId)));
+  }
+
+  /**
+   * Keep the client's explanation with the transaction. Skipped when the
+   * transaction sits in a locked period; the answer stays on the question.
+   */
+  private async noteOnTransaction(clientId: number, transaction: QuestionTransaction, answer: QuestionAnswer, user?: any) {
+    if (transaction.date) {
+      try {
+        await periodLockService.assertPeriodOpen(clientId, [transaction.date], user);
+      } catch (error) {
+        if (error instanceof PeriodLockedError) return;
+        throw error;
+      }
+    }
+
+    const note = `${MEMO_ANSWER_PREFIX} ${answer.description}${answer.categoryHint ? ` (${answer.categoryHint})` : ""}`;
+    // A corrected answer replaces the earlier one rather than piling up
+    const kept = (transaction.memo || "")
+      .split("\n")
+      .filter((line) => !line.startsWith(MEMO_ANSWER_PREFIX))
+      .join("\n")
+      .trim();
+    await pool.query(`UPDATE transactions SET memo = $1 WHERE client_id = $2 AND id = $3`, [
+      kept ? `${kept}\n${note}` : note,
+      clientId,
+      transaction.id,
+    ]);
+  }
+
+  private async notifyClient(clientId: number, firmId: number | null, title: string, message: string, senderName?: string) {
+    try {
+      const recipients = await pool.query(
+        `SELECT id, firm_id FROM users WHERE client_id = $1 AND role = ANY($2::text[])`,
+        [clientId, CLIENT_ROLES]
+      );
+      for (const recipient of recipients.rows) {
+        await NotificationService.sendNotification({
+          firmId: firmId ?? recipient.firm_id,
+          userId: recipient.id,
+          type: "client_question",
+          title,
+          message,
+          actionUrl: "/client-portal",
+          relatedEntityType: "client",
+          relatedEntityId: clientId,
+          senderName,
+          channels: ["in_app", "email"],
+        });
+      }
+    } catch (notifError) {
+      console.error("Failed to send client question notification (non-fatal):", notifError);
+    }
+  }
+
+  private toView(question: TransactionQuestion, transaction?: QuestionTransaction) {
+    return {
+      ...question,
+      hasAttachment: !!question.answerAttachmentPath,
+      answerAttachmentPath: undefined,
+      transaction: transaction
+        ? { id: transaction.id, date: transaction.date, description: transaction.description, amount: transaction.amount, accountId: transaction.accountId }
+        : null,
+    };
+  }
+}
+
+export const clientQuestionService = new ClientQuestionService();
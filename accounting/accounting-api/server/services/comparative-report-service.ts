@@ -0,0 +1,437 @@
+/**
+ * Comparative Report Service
+ *
+ * Report options shared by the Balance Sheet and Profit & Loss endpoints:
+ * - compare=prior_year: prior-year amount, $ change and % change on every row,
+ *   section and total (same period one year earlier)
+ * - commonSize=true: each line as a % of revenue (P&L) or total assets (BS)
+ * - period=trailing12: the twelve months ending on the report end date
+ */
+
+import { storage } from "../minimal-storage";
+import type { DimensionFilter } from "./budget-service";
+
+export class ComparativeReportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ComparativeReportError";
+    this.status = status;
+  }
+}
+
+export interface ReportOptions {
+  compare: "prior_year" | null;
+  commonSize: boolean;
+  period: "trailing12" | null;
+}
+
+export interface PriorPeriodComparison {
+  amount: number;
+  change: number;
+  changePercent: number | null;
+  percentOfRevenue?: number | null;
+  totalAssetsPercent?: number | null;
+}
+
+const PROFIT_LOSS_SECTIONS: Record<string, string> = {
+  income: "income",
+  other_income: "otherIncome",
+  cost_of_sales: "costOfSales",
+  expense: "expenses",
+  other_expense: "otherExpense",
+};
+
+const DEBIT_NORMAL_TYPES = ["asset", "expense", "cost_of_sales", "other_expense"];
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function lastDayOfMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function addDays(dateKey: string, days: number): string {
+  const next = new Date(`${dateKey}T12:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+}
+
+function percentOf(amount: number, basis: number): number | null {
+  return basis !== 0 ? roundAmount((amount / basis) * 100) : null;
+}
+
+function compareToPrior(current: number, prior: number): PriorPeriodComparison {
+  const change = roundAmount(current - prior);
+  return {
+    amount: roundAmount(prior),
+    change,
+    changePercent: prior !== 0 ? roundAmount((change / Math.abs(prior)) * 100) : null,
+  };
+}
+
+function matchesDimensions(line: DimensionFilter, filter: DimensionFilter): boolean {
+  if (filter.projectId && line.projectId !== filter.projectId) return false;
+  if (filter.locationId && line.locationId !== filter.locationId) return false;
+  if (filter.classId && line.classId !== filter.classId) return false;
+  return true;
+}
+
+/**
+ * Read compare / commonSize / period from a report query string
+ */
+export function parseReportOptions(query: Record<string, unknown>): ReportOptions {
+  const { compare, commonSize, period } = query;
+
+  if (compare !== undefined && compare !== "" && compare !== "prior_year") {
+    throw new ComparativeReportError(`Unsupported comparison "${compare}" (expected prior_year)`);
+  }
+  if (commonSize !== undefined && commonSize !== "" && commonSize !== "true" && commonSize !== "false") {
+    throw new ComparativeReportError("commonSize must be true or false");
+  }
+  if (period !== undefined && period !== "" && period !== "trailing12") {
+    throw new ComparativeReportError(`Unsupported period "${period}" (expected trailing12)`);
+  }
+
+  return {
+    compare: compare === "prior_year" ? "prior_year" : null,
+    commonSize: commonSize === "true",
+    period: period === "trailing12" ? "trailing12" : null,
+  };
+}
+
+/**
+ * Same date one year earlier. Month ends map to month ends, so Feb 28 2025
+ * compares with Feb 29 2024 and Feb 29 2024 with Feb 28 2023.
+ */
+export function priorYearDate(dateKey: string): string {
+  const year = parseInt(dateKey.slice(0, 4));
+  const month = parseInt(dateKey.slice(5, 7));
+  const day = parseInt(dateKey.slice(8, 10));
+  const priorLastDay = lastDayOfMonth(year - 1, month);
+  const priorDay = day === lastDayOfMonth(year, month) ? priorLastDay : Math.min(day, priorLastDay);
+  return `${year - 1}-${pad(month)}-${pad(priorDay)}`;
+}
+
+/**
+ * Start of the twelve months ending on endDate: the first of the month eleven
+ * months back when endDate is a month end, otherwise the day after endDate
+ * one year earlier.
+ */
+export function trailingTwelveMonthsStart(endDate: string): string {
+  const year = parseInt(endDate.slice(0, 4));
+  const month = parseInt(endDate.slice(5, 7));
+  const day = parseInt(endDate.slice(8, 10));
+
+  if (day === lastDayOfMonth(year, month)) {
+    const startMonth = month + 1;
+    return startMonth > 12 ? `${year}-01-01` : `${year - 1}-${pad(startMonth)}-01`;
+  }
+  return addDays(priorYearDate(endDate), 1);
+}
+
+export class ComparativeReportService {
+  /**
+   * Net activity per P&L account for a date range, in the account's natural sign
+   */
+  async getAccountActivity(
+    clientId: number,
+    startDate: string,
+    endDate: string,
+    dimensions: DimensionFilter = {}
+  ): Promise<Map<number, number>> {
+    const accounts = await storage.getAccounts(clientId);
+    const accountTypes = new Map<number, string>(accounts.map((account: any) => [account.id, account.type]));
+
+    const entries = await storage.getJournalEntries(clientId, 100000, 0, startDate, endDate);
+    const journalLines = entries.length
+      ? await storage.getJournalEntryLinesBatch(entries.map((entry: any) => entry.id))
+      : [];
+
+    const activity = new Map<number, number>();
+    for (const line of journalLines) {
+      const accountType = accountTypes.get(line.accountId);
+      if (!accountType || !PROFIT_LOSS_SECTIONS[accountType]) continue;
+      if (!matchesDimensions(line, dimensions)) continue;
+
+      const debit = parseFloat(line.debitAmount || "0");
+      const credit = parseFloat(line.creditAmount || "0");
+      const amount = DEBIT_NORMAL_TYPES.includes(accountType) ? debit - credit : credit - debit;
+      activity.set(line.accountId, (activity.get(line.accountId) || 0) + amount);
+    }
+    return activity;
+  }
+
+  /**
+   * Add prior-year and common-size columns to a single-period Profit & Loss.
+   * Accounts with prior-year activity only are added with a zero balance.
+   */
+  async applyToProfitLoss(
+    report: any,
+    clientId: number,
+    startDate: string,
+    endDate: string,
+    dimensions: DimensionFilter,
+    options: ReportOptions
+  ) {
+    const revenue = report.income?.total || 0;
+
+    if (options.compare === "prior_year") {
+      const priorStart = priorYearDate(startDate);
+      const priorEnd = priorYearDate(endDate);
+      const priorActivity = await this.getAccountActivity(clientId, priorStart, priorEnd, dimensions);
+      const accounts = await storage.getAccounts(clientId);
+
+      const sectionPriors: Record<string, number> = {};
+      for (const account of accounts) {
+        const sectionKey = PROFIT_LOSS_SECTIONS[account.type];
+        const section = sectionKey ? report[sectionKey] : null;
+        if (!section) continue;
+
+        const priorAmount = priorActivity.get(account.id) || 0;
+        let row = section.accounts.find((entry: any) => entry.id === account.id);
+        if (!row && roundAmount(priorAmount) !== 0) {
+          row = {
+            id: account.id,
+            name: account.name,
+            balance: 0,
+            ytdBalance: 0,
+            accountNumber: account.accountNumber,
+            subtype: account.subtype,
+            percentOfRevenue: 0,
+          };
+          section.accounts.push(row);
+        }
+        if (!row) continue;
+
+        row.comparative = compareToPrior(row.balance || 0, priorAmount);
+        sectionPriors[sectionKey] = (sectionPriors[sectionKey] || 0) + priorAmount;
+      }
+
+      const priorRevenue = sectionPriors.income || 0;
+      for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+        const section = report[sectionKey];
+        if (!section) continue;
+        section.comparative = compareToPrior(section.total || 0, sectionPriors[sectionKey] || 0);
+        if (options.commonSize) {
+          section.comparative.percentOfRevenue = percentOf(section.comparative.amount, priorRevenue);
+          for (const row of section.accounts) {
+            if (row.comparative) row.comparative.percentOfRevenue = percentOf(row.comparative.amount, priorRevenue);
+          }
+        }
+      }
+
+      const priorGrossProfit = priorRevenue - (sectionPriors.costOfSales || 0);
+      const priorNetIncome =
+        priorGrossProfit -
+        (sectionPriors.expenses || 0) +
+        (sectionPriors.otherIncome || 0) -
+        (sectionPriors.otherExpense || 0);
+
+      report.comparative = {
+        type: "prior_year",
+        period: { startDate: priorStart, endDate: priorEnd },
+        grossProfit: compareToPrior(report.grossProfit || 0, priorGrossProfit),
+        netIncome: compareToPrior(report.netIncome || 0, priorNetIncome),
+      };
+      if (options.commonSize) {
+        report.comparative.grossProfit.percentOfRevenue = percentOf(priorGrossProfit, priorRevenue);
+        report.comparative.netIncome.percentOfRevenue = percentOf(priorNetIncome, priorRevenue);
+      }
+    }
+
+    if (options.commonSize) {
+      for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+        const section = report[sectionKey];
+        if (!section) continue;
+        section.percentOfRevenue = percentOf(section.total || 0, revenue);
+        for (const row of section.accounts) {
+          row.percentOfRevenue = percentOf(row.balance || 0, revenue);
+        }
+      }
+      report.commonSize = {
+        basis: "revenue",
+        basisAmount: roundAmount(revenue),
+        grossProfitPercent: percentOf(report.grossProfit || 0, revenue),
+        netIncomePercent: percentOf(report.netIncome || 0, revenue),
+      };
+    }
+    return report;
+  }
+
+  /**
+   * Add prior-year and common-size arrays to a columnar Profit & Loss. Each
+   * array lines up with `periods`, including the trailing Total column.
+   */
+  async applyToColumnarProfitLoss(
+    report: any,
+    clientId: number,
+    periods: Array<{ startDate: string; endDate: string }>,
+    dimensions: DimensionFilter,
+    options: ReportOptions
+  ) {
+    const withTotal = (values: number[]) => [
+      ...values.map(roundAmount),
+      roundAmount(values.reduce((sum, value) => sum + value, 0)),
+    ];
+
+    if (options.compare === "prior_year") {
+      const priorPeriods = periods.map((period) => ({
+        startDate: priorYearDate(period.startDate),
+        endDate: priorYearDate(period.endDate),
+      }));
+      const accounts = await storage.getAccounts(clientId);
+      const periodActivity = await Promise.all(
+        priorPeriods.map((period) => this.getAccountActivity(clientId, period.startDate, period.endDate, dimensions))
+      );
+
+      const sectionTotals: Record<string, number[]> = {};
+      for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+        sectionTotals[sectionKey] = new Array(periods.length).fill(0);
+      }
+
+      for (const account of accounts) {
+        const sectionKey = PROFIT_LOSS_SECTIONS[account.type];
+        const section = sectionKey ? report[sectionKey] : null;
+        if (!section) continue;
+
+        const amounts = periodActivity.map((activity) => roundAmount(activity.get(account.id) || 0));
+        amounts.forEach((amount, index) => (sectionTotals[sectionKey][index] += amount));
+
+        const row = section.accounts.find((entry: any) => entry.id === account.id);
+        if (row) row.priorAmounts = withTotal(amounts);
+      }
+
+      for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+        if (report[sectionKey]) report[sectionKey].priorTotals = withTotal(sectionTotals[sectionKey]);
+      }
+
+      const grossProfits = periods.map((_, i) => sectionTotals.income[i] - sectionTotals.costOfSales[i]);
+      const netIncomes = periods.map(
+        (_, i) => grossProfits[i] - sectionTotals.expenses[i] + sectionTotals.otherIncome[i] - sectionTotals.otherExpense[i]
+      );
+
+      const priorNetIncomes = withTotal(netIncomes);
+      report.comparative = {
+        type: "prior_year",
+        periods: priorPeriods,
+        priorGrossProfits: withTotal(grossProfits),
+        priorNetIncomes,
+        netIncomeChanges: (report.netIncomes || []).map(
+          (actual: number, index: number) => roundAmount(actual - (priorNetIncomes[index] || 0))
+        ),
+      };
+    }
+
+    if (options.commonSize) {
+      const revenues: number[] = report.income?.totals || [];
+      const percents = (values: number[]) => values.map((value, index) => percentOf(value, revenues[index] || 0));
+
+      for (const sectionKey of Object.values(PROFIT_LOSS_SECTIONS)) {
+        const section = report[sectionKey];
+        if (!section) continue;
+        section.percentsOfRevenue = percents(section.totals || []);
+        for (const row of section.accounts) {
+          row.percentsOfRevenue = percents(row.amounts || []);
+        }
+      }
+      report.commonSize = {
+        basis: "revenue",
+        grossProfitPercents: percents(report.grossProfits || []),
+        netIncomePercents: percents(report.netIncomes || []),
+      };
+    }
+    return report;
+  }
+
+  /**
+   * Add prior-year and common-size columns to a Balance Sheet. priorReport is
+   * the same report as of the prior-year date; rows are matched by id and rows
+   * that only exist in the prior year are added with a zero balance.
+   */
+  applyToBalanceSheet(report: any, priorReport: any | null, options: ReportOptions) {
+    const totalAssets = report.totals?.totalAssets || 0;
+    const priorTotalAssets = priorReport?.totals?.totalAssets || 0;
+
+    const annotateSection = (section: any, priorSection: any) => {
+      if (!section?.accounts) return;
+
+      if (priorSection) {
+        for (const priorRow of priorSection.accounts || []) {
+          const exists = section.accounts.some((row: any) => row.id === priorRow.id);
+          if (!exists && roundAmount(priorRow.balance || 0) !== 0) {
+            section.accounts.push({
+              id: priorRow.id,
+              name: priorRow.name,
+              accountNumber: priorRow.accountNumber,
+              balance: 0,
+            });
+          }
+        }
+        for (const row of section.accounts) {
+          const priorRow = (priorSection.accounts || []).find((entry: any) => entry.id === row.id);
+          row.comparative = compareToPrior(row.balance || 0, priorRow?.balance || 0);
+        }
+        section.comparative = compareToPrior(section.total || 0, priorSection.total || 0);
+      }
+
+      if (options.commonSize) {
+        for (const row of section.accounts) {
+          row.totalAssetsPercent = percentOf(row.balance || 0, totalAssets);
+          if (row.comparative) row.comparative.totalAssetsPercent = percentOf(row.comparative.amount, priorTotalAssets);
+        }
+        section.totalAssetsPercent = percentOf(section.total || 0, totalAssets);
+        if (section.comparative) {
+          section.comparative.totalAssetsPercent = percentOf(section.comparative.amount, priorTotalAssets);
+        }
+      }
+    };
+
+    annotateSection(report.assets?.currentAssets, priorReport?.assets?.currentAssets);
+    annotateSection(report.assets?.fixedAssets, priorReport?.assets?.fixedAssets);
+    annotateSection(report.assets?.otherAssets, priorReport?.assets?.otherAssets);
+    annotateSection(report.liabilities?.currentLiabilities, priorReport?.liabilities?.currentLiabilities);
+    annotateSection(report.liabilities?.longTermLiabilities, priorReport?.liabilities?.longTermLiabilities);
+    annotateSection(report.equity, priorReport?.equity);
+
+    if (priorReport) {
+      if (report.assets) report.assets.comparative = compareToPrior(report.assets.total || 0, priorReport.assets?.total || 0);
+      if (report.liabilities) {
+        report.liabilities.comparative = compareToPrior(report.liabilities.total || 0, priorReport.liabilities?.total || 0);
+      }
+
+      report.comparative = {
+        type: "prior_year",
+        asOfDate: priorReport.asOfDate,
+        totalAssets: compareToPrior(totalAssets, priorTotalAssets),
+        totalLiabilities: compareToPrior(report.totals?.totalLiabilities || 0, priorReport.totals?.totalLiabilities || 0),
+        totalEquity: compareToPrior(report.totals?.totalEquity || 0, priorReport.totals?.totalEquity || 0),
+        totalLiabilitiesAndEquity: compareToPrior(
+          report.totals?.totalLiabilitiesAndEquity || 0,
+          priorReport.totals?.totalLiabilitiesAndEquity || 0
+        ),
+      };
+    }
+
+    if (options.commonSize) {
+      for (const group of [report.assets, report.liabilities]) {
+        if (!group) continue;
+        group.totalAssetsPercent = percentOf(group.total || 0, totalAssets);
+        if (group.comparative) group.comparative.totalAssetsPercent = percentOf(group.comparative.amount, priorTotalAssets);
+      }
+      report.commonSize = {
+        basis: "total_assets",
+        basisAmount: roundAmount(totalAssets),
+      };
+    }
+    return report;
+  }
+}
+
+export const comparativeReportService = new ComparativeReportService();
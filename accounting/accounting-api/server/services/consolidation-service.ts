@@ -0,0 +1,1091 @@
+/**
+ * Consolidation Service
+ *
+ * Consolidated financial statements for client groups (holdco, opcos,
+ * management company, ...):
+ * - client groups and their members
+ * - a common chart per group, with each member account mapped to a line
+ *   (manually, or auto-mapped by account number and then by name)
+ * - intercompany elimination rules keyed on designated intercompany accounts
+ * - consolidated Balance Sheet and Profit & Loss with a column per entity,
+ *   an Eliminations column and the Consolidated total
+ *
+ * Entity balance sheets come from the trial balance service (same balances
+ * and virtual year-end close as the single-client Balance Sheet); entity P&Ls
+ * are built from journal lines for the period, as the Profit & Loss report is.
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  clientGroups,
+  clientGroupMembers,
+  consolidationAccounts,
+  consolidationAccountMappings,
+  intercompanyRules,
+  intercompanyRuleAccounts,
+  type ClientGroup,
+  type ClientGroupMember,
+  type ConsolidationAccount,
+  type IntercompanyRule,
+} from "@shared/database/consolidation-entities";
+import { and, eq, inArray, asc } from "drizzle-orm";
+import { taxYearFor } from "./cca-schedule";
+
+export class ConsolidationError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ConsolidationError";
+    this.status = status;
+  }
+}
+
+export type ConsolidationSection =
+  | "current_assets"
+  | "fixed_assets"
+  | "other_assets"
+  | "current_liabilities"
+  | "long_term_liabilities"
+  | "equity"
+  | "income"
+  | "cost_of_sales"
+  | "expense"
+  | "other_income"
+  | "other_expense";
+
+export type ConsolidatedReportType = "balance_sheet" | "profit_loss";
+
+export const BALANCE_SHEET_SECTIONS: ConsolidationSection[] = [
+  "current_assets",
+  "fixed_assets",
+  "other_assets",
+  "current_liabilities",
+  "long_term_liabilities",
+  "equity",
+];
+
+export const PROFIT_LOSS_SECTIONS: ConsolidationSection[] = [
+  "income",
+  "cost_of_sales",
+  "expense",
+  "other_income",
+  "other_expense",
+];
+
+const SECTION_LABELS: Record<ConsolidationSection, string> = {
+  current_assets: "Current Assets",
+  fixed_assets: "Fixed Assets",
+  other_assets: "Other Assets",
+  current_liabilities: "Current Liabilities",
+  long_term_liabilities: "Long-Term Liabilities",
+  equity: "Equity",
+  income: "Income",
+  cost_of_sales: "Cost of Sales",
+  expense: "Expenses",
+  other_income: "Other Income",
+  other_expense: "Other Expenses",
+};
+
+const DEBIT_NORMAL_SECTIONS: ConsolidationSection[] = [
+  "current_assets",
+  "fixed_assets",
+  "other_assets",
+  "cost_of_sales",
+  "expense",
+  "other_expense",
+];
+
+const BALANCE_SHEET_TYPES = ["asset", "liability", "equity"];
+const DEBIT_NORMAL_TYPES = ["asset", "expense", "cost_of_sales", "other_expense"];
+
+// Current-year earnings on the consolidated balance sheet (P&L accounts after the virtual close)
+const NET_INCOME_ROW = "net_income";
+
+export interface GroupMemberInput {
+  clientId: number;
+  label?: string | null;
+}
+
+export interface ConsolidationAccountInput {
+  code?: string | null;
+  name: string;
+  section: ConsolidationSection;
+  sortOrder?: number;
+}
+
+export interface AccountMappingInput {
+  clientId: number;
+  accountId: number;
+  consolidationAccountId: number | null;
+}
+
+export interface IntercompanyRuleInput {
+  name: string;
+  differenceAccountId?: number | null;
+  isActive?: boolean;
+  notes?: string | null;
+  accounts: { clientId: number; accountId: number }[];
+}
+
+export interface ConsolidatedColumn {
+  key: string;
+  label: string;
+  clientId?: number;
+}
+
+export interface ConsolidatedRow {
+  key: string;
+  code: string | null;
+  name: string;
+  unmapped?: boolean;
+  amounts: Record<string, number>;
+}
+
+export interface ConsolidatedSection {
+  key: ConsolidationSection;
+  label: string;
+  rows: ConsolidatedRow[];
+  totals: Record<string, number>;
+}
+
+export interface EliminationLine {
+  clientId: number | null;
+  entity: string | null;
+  accountId: number | null;
+  accountNumber: string | null;
+  accountName: string;
+  line: string;
+  debit: number;
+  credit: number;
+}
+
+export interface EliminationResult {
+  ruleId: number;
+  name: string;
+  lines: EliminationLine[];
+  // Net debit of the designated balances before elimination; zero when both sides agree
+  difference: number;
+  differenceBooked: boolean;
+}
+
+export interface UnmappedAccount {
+  clientId: number;
+  entity: string;
+  accountId: number;
+  accountNumber: string | null;
+  name: string;
+  type: string;
+  balance: number;
+}
+
+export interface ConsolidatedReport {
+  group: { id: number; name: string };
+  reportType: ConsolidatedReportType;
+  startDate: string | null;
+  endDate: string;
+  columns: ConsolidatedColumn[];
+  sections: ConsolidatedSection[];
+  totals: Record<string, Record<string, number>>;
+  eliminations: EliminationResult[];
+  unmappedAccounts: UnmappedAccount[];
+}
+
+interface RowDefinition {
+  key: string;
+  code: string | null;
+  name: string;
+  section: ConsolidationSection;
+  sortOrder: number;
+  unmapped?: boolean;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeName(name: string | null | undefined): string {
+  return (name || "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
+
+function isBalanceSheetSection(section: string): boolean {
+  return BALANCE_SHEET_SECTIONS.includes(section as ConsolidationSection);
+}
+
+function clientColumn(clientId: number): string {
+  return `client:${clientId}`;
+}
+
+/**
+ * Common chart section for a client account, using the same grouping rules
+ * as the single-client Balance Sheet (bank/cash/receivables are current,
+ * equipment/buildings/vehicles are fixed, and so on)
+ */
+export function defaultSection(account: { type: string; subtype?: string | null; name?: string | null }): ConsolidationSection | null {
+  const name = (account.name || "").toLowerCase();
+
+  switch (account.type) {
+    case "asset":
+      if (
+        account.subtype === "bank" ||
+        account.subtype === "cash" ||
+        ["cash", "receivable", "inventory", "petty"].some((term) => name.includes(term))
+      ) {
+        return "current_assets";
+      }
+      if (["equipment", "building", "vehicle", "office", "computer", "furniture"].some((term) => name.includes(term))) {
+        return "fixed_assets";
+      }
+      return "current_assets";
+    case "liability":
+      return account.subtype === "long_term_liability" ? "long_term_liabilities" : "current_liabilities";
+    case "equity":
+      return "equity";
+    case "income":
+    case "cost_of_sales":
+    case "expense":
+    case "other_income":
+    case "other_expense":
+      return account.type;
+    default:
+      return null;
+  }
+}
+
+export class ConsolidationService {
+  /**
+   * List the firm's client groups with their members
+   */
+  async listGroups(user?: any) {
+    const groups = await db
+      .select()
+      .from(clientGroups)
+      .where(user?.firmId ? eq(clientGroups.firmId, user.firmId) : undefined)
+      .orderBy(asc(clientGroups.name));
+
+    if (groups.length === 0) return [];
+
+    const members = await db
+      .select()
+      .from(clientGroupMembers)
+      .where(inArray(clientGroupMembers.groupId, groups.map((group) => group.id)))
+      .orderBy(asc(clientGroupMembers.sortOrder), asc(clientGroupMembers.id));
+
+    return Promise.all(
+      groups.map(async (group) => ({
+        ...group,
+        members: await this.describeMembers(members.filter((member) => member.groupId === group.id)),
+      }))
+    );
+  }
+
+  /**
+   * A group with its members, common chart and elimination rules
+   */
+  async getGroup(groupId: number, user?: any) {
+    const group = await this.findGroup(groupId, user);
+    const members = await this.loadMembers(groupId);
+    const chart = await this.loadChart(groupId);
+    const rules = await this.loadRules(groupId);
+
+    return {
+      ...group,
+      members: await this.describeMembers(members),
+      accounts: chart,
+      rules,
+    };
+  }
+
+  async createGroup(
+    input: { name: string; description?: string | null; members?: GroupMemberInput[] },
+    user?: any
+  ) {
+    const [group] = await db
+      .insert(clientGroups)
+      .values({
+        firmId: user?.firmId ?? null,
+        name: input.name,
+        description: input.description ?? null,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    if (input.members?.length) {
+      await this.setMembers(group.id, input.members, user);
+    }
+    return this.getGroup(group.id, user);
+  }
+
+  async updateGroup(groupId: number, input: { name?: string; description?: string | null }, user?: any) {
+    await this.findGroup(groupId, user);
+    const [group] = await db
+      .update(clientGroups)
+      .set({ ...input, updatedAt: new Date() })
+      .where(eq(clientGroups.id, groupId))
+      .returning();
+    return group;
+  }
+
+  async deleteGroup(groupId: number, user?: any) {
+    await this.findGroup(groupId, user);
+    await db.delete(clientGroups).where(eq(clientGroups.id, groupId));
+    return { success: true };
+  }
+
+  /**
+   * Replace the group's members (in column order). Mappings and rule accounts
+   * for clients that leave the group are removed.
+   */
+  async setMembers(groupId: number, members: GroupMemberInput[], user?: any) {
+    await this.findGroup(groupId, user);
+
+    const clientIds = members.map((member) => member.clientId);
+    if (new Set(clientIds).size !== clientIds.length) {
+      throw new ConsolidationError("A client can only be in a group once");
+    }
+    for (const member of members) {
+      const client = await storage.getClient(member.clientId);
+      if (!client || (user?.firmId && client.firmId && client.firmId !== user.firmId)) {
+        throw new ConsolidationError(`Client ${member.clientId} not found`, 404);
+      }
+    }
+
+    const previous = await this.loadMembers(groupId);
+    const removed = previous.filter((member) => !clientIds.includes(member.clientId)).map((member) => member.clientId);
+
+    if (removed.length > 0) {
+      await db
+        .delete(consolidationAccountMappings)
+        .where(and(eq(consolidationAccountMappings.groupId, groupId), inArray(consolidationAccountMappings.clientId, removed)));
+
+      const ruleIds = (await db.select({ id: intercompanyRules.id }).from(intercompanyRules).where(eq(intercompanyRules.groupId, groupId)))
+        .map((rule) => rule.id);
+      if (ruleIds.length > 0) {
+        await db
+          .delete(intercompanyRuleAccounts)
+          .where(and(inArray(intercompanyRuleAccounts.ruleId, ruleIds), inArray(intercompanyRuleAccounts.clientId, removed)));
+      }
+    }
+
+    await db.delete(clientGroupMembers).where(eq(clientGroupMembers.groupId, groupId));
+    if (members.length > 0) {
+      await db.insert(clientGroupMembers).values(
+        members.map((member, index) => ({
+          groupId,
+          clientId: member.clientId,
+          label: member.label?.trim() || null,
+          sortOrder: index,
+        }))
+      );
+    }
+
+    return this.describeMembers(await this.loadMembers(groupId));
+  }
+
+  async createAccount(groupId: number, input: ConsolidationAccountInput, user?: any): Promise<ConsolidationAccount> {
+    await this.findGroup(groupId, user);
+    const [account] = await db
+      .insert(consolidationAccounts)
+      .values({
+        groupId,
+        code: input.code?.trim() || null,
+        name: input.name,
+        section: input.section,
+        sortOrder: input.sortOrder ?? 0,
+      })
+      .returning();
+    return account;
+  }
+
+  async updateAccount(groupId: number, accountId: number, input: ConsolidationAccountInput, user?: any) {
+    await this.findGroup(groupId, user);
+    const existing = await this.findChartAccount(groupId, accountId);
+
+    // A line can't move between the balance sheet and the P&L while accounts are mapped to it
+    if (isBalanceSheetSection(existing.section) !== isBalanceSheetSection(input.section)) {
+      const [mapped] = await db
+        .select({ id: consolidationAccountMappings.id })
+        .from(consolidationAccountMappings)
+        .where(eq(consolidationAccountMappings.consolidationAccountId, accountId))
+        .limit(1);
+      if (mapped) {
+        throw new ConsolidationError("Remove the mapped accounts before moving this line between the balance sheet and the P&L", 409);
+      }
+    }
+
+    const [account] = await db
+      .update(consolidationAccounts)
+      .set({
+        code: input.code?.trim() || null,
+        name: input.name,
+        section: input.section,
+        sortOrder: input.sortOrder ?? existing.sortOrder,
+      })
+      .where(eq(consolidationAccounts.id, accountId))
+      .returning();
+    return account;
+  }
+
+  async deleteAccount(groupId: number, accountId: number, user?: any) {
+    await this.findGroup(groupId, user);
+    await this.findChartAccount(groupId, accountId);
+    await db.delete(consolidationAccounts).where(eq(consolidationAccounts.id, accountId));
+    return { success: true };
+  }
+
+  /**
+   * Every member's chart of accounts with the common chart line each account
+   * is mapped to (null when unmapped)
+   */
+  async getMappings(groupId: number, user?: any) {
+    await this.findGroup(groupId, user);
+    const members = await this.describeMembers(await this.loadMembers(groupId));
+    const mappings = await this.loadMappings(groupId);
+
+    return Promise.all(
+      members.map(async (member) => {
+        const accounts = await storage.getAccounts(member.clientId);
+        return {
+          ...member,
+          accounts: accounts.map((account: any) => ({
+            id: account.id,
+            accountNumber: account.accountNumber ?? null,
+            name: account.name,
+            type: account.type,
+            subtype: account.subtype ?? null,
+            consolidationAccountId: mappings.get(account.id) ?? null,
+          })),
+        };
+      })
+    );
+  }
+
+  /**
+   * Map (or, with a null line, unmap) member accounts. Balance sheet accounts
+   * must map to balance sheet lines and P&L accounts to P&L lines.
+   */
+  async saveMappings(groupId: number, input: AccountMappingInput[], user?: any) {
+    await this.findGroup(groupId, user);
+    const memberIds = new Set((await this.loadMembers(groupId)).map((member) => member.clientId));
+    const chart = new Map((await this.loadChart(groupId)).map((line) => [line.id, line]));
+    const clientAccounts = new Map<number, Map<number, any>>();
+
+    let mapped = 0;
+    let unmapped = 0;
+    for (const mapping of input) {
+      if (!memberIds.has(mapping.clientId)) {
+        throw new ConsolidationError(`Client ${mapping.clientId} is not in this group`);
+      }
+      if (!clientAccounts.has(mapping.clientId)) {
+        const accounts = await storage.getAccounts(mapping.clientId);
+        clientAccounts.set(mapping.clientId, new Map(accounts.map((account: any) => [account.id, account])));
+      }
+      const account = clientAccounts.get(mapping.clientId)!.get(mapping.accountId);
+      if (!account) {
+        throw new ConsolidationError(`Account ${mapping.accountId} does not belong to client ${mapping.clientId}`);
+      }
+
+      if (mapping.consolidationAccountId === null) {
+        await db
+          .delete(consolidationAccountMappings)
+          .where(and(eq(consolidationAccountMappings.groupId, groupId), eq(consolidationAccountMappings.accountId, mapping.accountId)));
+        unmapped++;
+        continue;
+      }
+
+      const line = chart.get(mapping.consolidationAccountId);
+      if (!line) {
+        throw new ConsolidationError(`Common chart line ${mapping.consolidationAccountId} not found`, 404);
+      }
+      if (BALANCE_SHEET_TYPES.includes(account.type) !== isBalanceSheetSection(line.section)) {
+        throw new ConsolidationError(
+          `${account.name} is a ${BALANCE_SHEET_TYPES.includes(account.type) ? "balance sheet" : "P&L"} account and can't map to ${line.name}`
+        );
+      }
+
+      await db
+        .insert(consolidationAccountMappings)
+        .values({ groupId, clientId: mapping.clientId, accountId: mapping.accountId, consolidationAccountId: line.id })
+        .onConflictDoUpdate({
+          target: [consolidationAccountMappings.groupId, consolidationAccountMappings.accountId],
+          set: { consolidationAccountId: line.id, clientId: mapping.clientId },
+        });
+      mapped++;
+    }
+
+    return { mapped, unmapped };
+  }
+
+  /**
+   * Map every unmapped member account to the common chart line with the same
+   * account number, or failing that the same name. When the group has no
+   * common chart yet, it is seeded from the first member's chart of accounts.
+   */
+  async autoMap(groupId: number, user?: any) {
+    await this.findGroup(groupId, user);
+    const members = await this.loadMembers(groupId);
+    if (members.length === 0) {
+      throw new ConsolidationError("Add clients to the group before mapping accounts");
+    }
+
+    let chart = await this.loadChart(groupId);
+    let created = 0;
+    if (chart.length === 0) {
+      const accounts = await storage.getAccounts(members[0].clientId);
+      const seeds = accounts
+        .map((account: any) => ({ account, section: defaultSection(account) }))
+        .filter((seed: { section: ConsolidationSection | null }) => seed.section !== null);
+
+      if (seeds.length > 0) {
+        await db.insert(consolidationAccounts).values(
+          seeds.map(({ account, section }: { account: any; section: ConsolidationSection }, index: number) => ({
+            groupId,
+            code: account.accountNumber || null,
+            name: account.name,
+            section,
+            sortOrder: index,
+          }))
+        );
+      }
+      created = seeds.length;
+      chart = await this.loadChart(groupId);
+    }
+
+    const byCode = new Map<string, ConsolidationAccount>();
+    const byName = new Map<string, ConsolidationAccount>();
+    for (const line of chart) {
+      if (line.code && !byCode.has(line.code)) byCode.set(line.code, line);
+      const name = normalizeName(line.name);
+      if (name && !byName.has(name)) byName.set(name, line);
+    }
+
+    const existing = await this.loadMappings(groupId);
+    const newMappings: { groupId: number; clientId: number; accountId: number; consolidationAccountId: number }[] = [];
+    let unmatched = 0;
+
+    for (const member of members) {
+      const accounts = await storage.getAccounts(member.clientId);
+      for (const account of accounts) {
+        if (existing.has(account.id) || !defaultSection(account)) continue;
+
+        const isBalanceSheet = BALANCE_SHEET_TYPES.includes(account.type);
+        const candidates = [
+          account.accountNumber ? byCode.get(account.accountNumber) : undefined,
+          byName.get(normalizeName(account.name)),
+        ];
+        const line = candidates.find((candidate) => candidate && isBalanceSheetSection(candidate.section) === isBalanceSheet);
+
+        if (line) {
+          newMappings.push({ groupId, clientId: member.clientId, accountId: account.id, consolidationAccountId: line.id });
+        } else {
+          unmatched++;
+        }
+      }
+    }
+
+    if (newMappings.length > 0) {
+      await db.insert(consolidationAccountMappings).values(newMappings).onConflictDoNothing();
+    }
+
+    return { created, mapped: newMappings.length, unmatched };
+  }
+
+  async createRule(groupId: number, input: IntercompanyRuleInput, user?: any) {
+    await this.findGroup(groupId, user);
+    await this.validateRule(groupId, input);
+
+    const [rule] = await db
+      .insert(intercompanyRules)
+      .values({
+        groupId,
+        name: input.name,
+        differenceAccountId: input.differenceAccountId ?? null,
+        isActive: input.isActive ?? true,
+        notes: input.notes ?? null,
+      })
+      .returning();
+
+    await this.replaceRuleAccounts(rule.id, input.accounts);
+    return (await this.loadRules(groupId)).find((candidate) => candidate.id === rule.id);
+  }
+
+  async updateRule(groupId: number, ruleId: number, input: IntercompanyRuleInput, user?: any) {
+    await this.findGroup(groupId, user);
+    await this.findRule(groupId, ruleId);
+    await this.validateRule(groupId, input);
+
+    await db
+      .update(intercompanyRules)
+      .set({
+        name: input.name,
+        differenceAccountId: input.differenceAccountId ?? null,
+        isActive: input.isActive ?? true,
+        notes: input.notes ?? null,
+        updatedAt: new Date(),
+      })
+      .where(eq(intercompanyRules.id, ruleId));
+
+    await this.replaceRuleAccounts(ruleId, input.accounts);
+    return (await this.loadRules(groupId)).find((candidate) => candidate.id === ruleId);
+  }
+
+  async deleteRule(groupId: number, ruleId: number, user?: any) {
+    await this.findGroup(groupId, user);
+    await this.findRule(groupId, ruleId);
+    await db.delete(intercompanyRules).where(eq(intercompanyRules.id, ruleId));
+    return { success: true };
+  }
+
+  /**
+   * Consolidated Balance Sheet as of a date. Each entity's current-year
+   * earnings are shown as a Net Income line in equity, after its own fiscal
+   * year's virtual close.
+   */
+  async getBalanceSheet(groupId: number, asOfDate: string, user?: any): Promise<ConsolidatedReport> {
+    const group = await this.findGroup(groupId, user);
+    return this.buildReport(group, "balance_sheet", null, asOfDate);
+  }
+
+  /**
+   * Consolidated Profit & Loss for a period
+   */
+  async getProfitLoss(groupId: number, startDate: string, endDate: string, user?: any): Promise<ConsolidatedReport> {
+    if (startDate > endDate) {
+      throw new ConsolidationError("Start date must be on or before the end date");
+    }
+    const group = await this.findGroup(groupId, user);
+    return this.buildReport(group, "profit_loss", startDate, endDate);
+  }
+
+  private async buildReport(
+    group: ClientGroup,
+    reportType: ConsolidatedReportType,
+    startDate: string | null,
+    endDate: string
+  ): Promise<ConsolidatedReport> {
+    const members = await this.describeMembers(await this.loadMembers(group.id));
+    if (members.length === 0) {
+      throw new ConsolidationError("This group has no clients");
+    }
+
+    const chart = new Map((await this.loadChart(group.id)).map((line) => [line.id, line]));
+    const mappings = await this.loadMappings(group.id);
+    const rules = (await this.loadRules(group.id)).filter((rule) => rule.isActive);
+    const isBalanceSheet = reportType === "balance_sheet";
+
+    const rows = new Map<string, RowDefinition>();
+    const amounts = new Map<string, Record<string, number>>();
+    const addAmount = (rowKey: string, column: string, signed: number) => {
+      if (!amounts.has(rowKey)) amounts.set(rowKey, {});
+      const row = amounts.get(rowKey)!;
+      row[column] = (row[column] || 0) + signed;
+    };
+
+    // Row for a common chart line, or null when the line isn't on this report
+    const lineRow = (line: ConsolidationAccount): string | null => {
+      const onBalanceSheet = isBalanceSheetSection(line.section);
+      if (!isBalanceSheet && onBalanceSheet) return null;
+      if (isBalanceSheet && !onBalanceSheet) return NET_INCOME_ROW;
+
+      const key = `line:${line.id}`;
+      if (!rows.has(key)) {
+        rows.set(key, {
+          key,
+          code: line.code,
+          name: line.name,
+          section: line.section as ConsolidationSection,
+          sortOrder: line.sortOrder,
+        });
+      }
+      return key;
+    };
+
+    // Row for a member account: its mapped line, the Net Income line (P&L
+    // accounts on the balance sheet) or the section's unmapped line
+    const accountRow = (account: any): string | null => {
+      const section = defaultSection(account);
+      if (!section) return null;
+      const onBalanceSheet = BALANCE_SHEET_TYPES.includes(account.type);
+      if (!isBalanceSheet && onBalanceSheet) return null;
+      if (isBalanceSheet && !onBalanceSheet) return NET_INCOME_ROW;
+
+      const line = chart.get(mappings.get(account.id) ?? -1);
+      if (line && isBalanceSheetSection(line.section) === onBalanceSheet) {
+        return lineRow(line);
+      }
+
+      const key = `unmapped:${section}`;
+      if (!rows.has(key)) {
+        rows.set(key, {
+          key,
+          code: null,
+          name: `Unmapped ${SECTION_LABELS[section].toLowerCase()}`,
+          section,
+          sortOrder: Number.MAX_SAFE_INTEGER,
+          unmapped: true,
+        });
+      }
+      return key;
+    };
+
+    if (isBalanceSheet) {
+      rows.set(NET_INCOME_ROW, {
+        key: NET_INCOME_ROW,
+        code: null,
+        name: "Net Income (current year)",
+        section: "equity",
+        sortOrder: Number.MAX_SAFE_INTEGER,
+      });
+    }
+
+    // Entity columns
+    const balances = new Map<number, Map<number, number>>();
+    const accountsByClient = new Map<number, Map<number, any>>();
+    const unmappedAccounts: UnmappedAccount[] = [];
+
+    for (const member of members) {
+      const accounts = await storage.getAccounts(member.clientId);
+      const accountMap = new Map<number, any>(accounts.map((account: any) => [account.id, account]));
+      const signedBalances = isBalanceSheet
+        ? await this.balanceSheetBalances(member.clientId, endDate)
+        : await this.profitLossActivity(member.clientId, startDate!, endDate);
+
+      accountsByClient.set(member.clientId, accountMap);
+      balances.set(member.clientId, signedBalances);
+
+      for (const [accountId, signed] of Array.from(signedBalances.entries())) {
+        const account = accountMap.get(accountId);
+        if (!account || roundAmount(signed) === 0) continue;
+
+        const rowKey = accountRow(account);
+        if (!rowKey) continue;
+        addAmount(rowKey, clientColumn(member.clientId), signed);
+
+        if (rowKey.startsWith("unmapped:")) {
+          unmappedAccounts.push({
+            clientId: member.clientId,
+            entity: member.label,
+            accountId,
+            accountNumber: account.accountNumber ?? null,
+            name: account.name,
+            type: account.type,
+            balance: roundAmount(DEBIT_NORMAL_TYPES.includes(account.type) ? signed : -signed),
+          });
+        }
+      }
+    }
+
+    // Eliminations: reverse each designated balance; any net difference goes to the rule's difference line
+    const memberLabels = new Map(members.map((member) => [member.clientId, member.label]));
+    const eliminations: EliminationResult[] = [];
+
+    for (const rule of rules) {
+      const lines: EliminationLine[] = [];
+      let difference = 0;
+
+      for (const designated of rule.accounts) {
+        const account = accountsByClient.get(designated.clientId)?.get(designated.accountId);
+        const balance = roundAmount(balances.get(designated.clientId)?.get(designated.accountId) || 0);
+        if (!account || balance === 0) continue;
+
+        const rowKey = accountRow(account);
+        if (!rowKey) continue;
+
+        addAmount(rowKey, "eliminations", -balance);
+        difference += balance;
+        lines.push({
+          clientId: designated.clientId,
+          entity: memberLabels.get(designated.clientId) ?? null,
+          accountId: designated.accountId,
+          accountNumber: account.accountNumber ?? null,
+          accountName: account.name,
+          line: rows.get(rowKey)!.name,
+          debit: balance < 0 ? -balance : 0,
+          credit: balance > 0 ? balance : 0,
+        });
+      }
+
+      difference = roundAmount(difference);
+      let differenceBooked = false;
+      const differenceLine = rule.differenceAccountId ? chart.get(rule.differenceAccountId) : undefined;
+      const differenceRow = differenceLine ? lineRow(differenceLine) : null;
+      if (difference !== 0 && differenceLine && differenceRow) {
+        addAmount(differenceRow, "eliminations", difference);
+        differenceBooked = true;
+        lines.push({
+          clientId: null,
+          entity: null,
+          accountId: null,
+          accountNumber: differenceLine.code,
+          accountName: differenceLine.name,
+          line: rows.get(differenceRow)!.name,
+          debit: difference > 0 ? difference : 0,
+          credit: difference < 0 ? -difference : 0,
+        });
+      }
+
+      if (lines.length > 0) {
+        eliminations.push({ ruleId: rule.id, name: rule.name, lines, difference, differenceBooked });
+      }
+    }
+
+    const columns: ConsolidatedColumn[] = [
+      ...members.map((member) => ({ key: clientColumn(member.clientId), label: member.label, clientId: member.clientId })),
+      { key: "eliminations", label: "Eliminations" },
+      { key: "consolidated", label: "Consolidated" },
+    ];
+
+    // Natural-sign rows grouped into sections
+    const sectionKeys = isBalanceSheet ? BALANCE_SHEET_SECTIONS : PROFIT_LOSS_SECTIONS;
+    const sections: ConsolidatedSection[] = sectionKeys.map((sectionKey) => {
+      const sign = DEBIT_NORMAL_SECTIONS.includes(sectionKey) ? 1 : -1;
+      const definitions = Array.from(rows.values())
+        .filter((row) => row.section === sectionKey)
+        .sort((a, b) =>
+          a.sortOrder - b.sortOrder ||
+          (a.code || "").localeCompare(b.code || "", undefined, { numeric: true }) ||
+          a.name.localeCompare(b.name)
+        );
+      // Net Income stays at the bottom of equity, below any unmapped equity
+      definitions.sort((a, b) => Number(a.key === NET_INCOME_ROW) - Number(b.key === NET_INCOME_ROW));
+
+      const totals: Record<string, number> = Object.fromEntries(columns.map((column) => [column.key, 0]));
+      const sectionRows: ConsolidatedRow[] = [];
+
+      for (const definition of definitions) {
+        const signedAmounts = amounts.get(definition.key) || {};
+        const rowAmounts: Record<string, number> = {};
+        let consolidated = 0;
+        for (const column of columns) {
+          if (column.key === "consolidated") continue;
+          rowAmounts[column.key] = roundAmount((signedAmounts[column.key] || 0) * sign);
+          consolidated += rowAmounts[column.key];
+        }
+        rowAmounts.consolidated = roundAmount(consolidated);
+
+        if (Object.values(rowAmounts).every((amount) => amount === 0)) continue;
+
+        for (const column of columns) {
+          totals[column.key] = roundAmount(totals[column.key] + rowAmounts[column.key]);
+        }
+        sectionRows.push({
+          key: definition.key,
+          code: definition.code,
+          name: definition.name,
+          ...(definition.unmapped ? { unmapped: true } : {}),
+          amounts: rowAmounts,
+        });
+      }
+
+      return { key: sectionKey, label: SECTION_LABELS[sectionKey], rows: sectionRows, totals };
+    });
+
+    const sectionTotal = (keys: ConsolidationSection[], column: string) =>
+      roundAmount(
+        sections.filter((section) => keys.includes(section.key)).reduce((sum, section) => sum + section.totals[column], 0)
+      );
+    const totals: Record<string, Record<string, number>> = {};
+    const setTotal = (name: string, compute: (column: string) => number) => {
+      totals[name] = Object.fromEntries(columns.map((column) => [column.key, roundAmount(compute(column.key))]));
+    };
+
+    if (isBalanceSheet) {
+      setTotal("totalAssets", (column) => sectionTotal(["current_assets", "fixed_assets", "other_assets"], column));
+      setTotal("totalLiabilities", (column) => sectionTotal(["current_liabilities", "long_term_liabilities"], column));
+      setTotal("totalEquity", (column) => sectionTotal(["equity"], column));
+      setTotal("totalLiabilitiesAndEquity", (column) => totals.totalLiabilities[column] + totals.totalEquity[column]);
+    } else {
+      setTotal("grossProfit", (column) => sectionTotal(["income"], column) - sectionTotal(["cost_of_sales"], column));
+      setTotal("netIncome", (column) =>
+        totals.grossProfit[column] -
+        sectionTotal(["expense"], column) +
+        sectionTotal(["other_income"], column) -
+        sectionTotal(["other_expense"], column)
+      );
+    }
+
+    return {
+      group: { id: group.id, name: group.name },
+      reportType,
+      startDate,
+      endDate,
+      columns,
+      sections,
+      totals,
+      eliminations,
+      unmappedAccounts,
+    };
+  }
+
+  /**
+   * Debit-positive balances per account as of a date, from the trial balance
+   * for the entity's own fiscal year (P&L accounts hold current-year activity)
+   */
+  private async balanceSheetBalances(clientId: number, asOfDate: string): Promise<Map<number, number>> {
+    const settings = await storage.getClientBookkeepingSettings(clientId);
+    const fiscalYear = taxYearFor(asOfDate, settings?.fiscalYearEndMonth || 12, settings?.fiscalYearEndDay || 31);
+
+    const { trialBalanceService } = await import("../trial-balance-service");
+    const entries = await trialBalanceService.generateTrialBalance(clientId, asOfDate, fiscalYear.start);
+
+    const result = new Map<number, number>();
+    for (const entry of entries) {
+      const signed = DEBIT_NORMAL_TYPES.includes(entry.accountType) ? entry.netBalance : -entry.netBalance;
+      result.set(entry.accountId, (result.get(entry.accountId) || 0) + signed);
+    }
+    return result;
+  }
+
+  /**
+   * Debit-positive activity per account for a period, from journal lines
+   */
+  private async profitLossActivity(clientId: number, startDate: string, endDate: string): Promise<Map<number, number>> {
+    const entries = await storage.getJournalEntries(clientId, 1000000, 0, startDate, endDate);
+    const journalLines = entries.length
+      ? await storage.getJournalEntryLinesBatch(entries.map((entry: any) => entry.id))
+      : [];
+
+    const result = new Map<number, number>();
+    for (const line of journalLines) {
+      const signed = parseFloat(line.debitAmount || "0") - parseFloat(line.creditAmount || "0");
+      result.set(line.accountId, (result.get(line.accountId) || 0) + signed);
+    }
+    return result;
+  }
+
+  private async validateRule(groupId: number, input: IntercompanyRuleInput) {
+    if (input.accounts.length < 2) {
+      throw new ConsolidationError("Designate at least two intercompany accounts");
+    }
+
+    const memberIds = new Set((await this.loadMembers(groupId)).map((member) => member.clientId));
+    const accountIds = new Set<number>();
+    for (const designated of input.accounts) {
+      if (!memberIds.has(designated.clientId)) {
+        throw new ConsolidationError(`Client ${designated.clientId} is not in this group`);
+      }
+      if (accountIds.has(designated.accountId)) {
+        throw new ConsolidationError("An account can only be designated once per rule");
+      }
+      accountIds.add(designated.accountId);
+
+      const accounts = await storage.getAccounts(designated.clientId);
+      if (!accounts.some((account: any) => account.id === designated.accountId)) {
+        throw new ConsolidationError(`Account ${designated.accountId} does not belong to client ${designated.clientId}`);
+      }
+    }
+
+    if (new Set(input.accounts.map((designated) => designated.clientId)).size < 2) {
+      throw new ConsolidationError("Intercompany accounts must come from at least two clients");
+    }
+    if (input.differenceAccountId) {
+      await this.findChartAccount(groupId, input.differenceAccountId);
+    }
+  }
+
+  private async replaceRuleAccounts(ruleId: number, accounts: { clientId: number; accountId: number }[]) {
+    await db.delete(intercompanyRuleAccounts).where(eq(intercompanyRuleAccounts.ruleId, ruleId));
+    await db.insert(intercompanyRuleAccounts).values(
+      accounts.map((designated) => ({ ruleId, clientId: designated.clientId, accountId: designated.accountId }))
+    );
+  }
+
+  private async describeMembers(members: ClientGroupMember[]) {
+    return Promise.all(
+      members.map(async (member) => {
+        const client = await storage.getClient(member.clientId);
+        const clientName = client?.name || `Client ${member.clientId}`;
+        return {
+          clientId: member.clientId,
+          clientName,
+          label: member.label || clientName,
+          sortOrder: member.sortOrder,
+        };
+      })
+    );
+  }
+
+  private async loadMembers(groupId: number): Promise<ClientGroupMember[]> {
+    return db
+      .select()
+      .from(clientGroupMembers)
+      .where(eq(clientGroupMembers.groupId, groupId))
+      .orderBy(asc(clientGroupMembers.sortOrder), asc(clientGroupMembers.id));
+  }
+
+  private async loadChart(groupId: number): Promise<ConsolidationAccount[]> {
+    return db
+      .select()
+      .from(consolidationAccounts)
+      .where(eq(consolidationAccounts.groupId, groupId))
+      .orderBy(asc(consolidationAccounts.sortOrder), asc(consolidationAccounts.code), asc(consolidationAccounts.id));
+  }
+
+  /**
+   * Member account id -> common chart line id
+   */
+  private async loadMappings(groupId: number): Promise<Map<number, number>> {
+    const rows = await db
+      .select()
+      .from(consolidationAccountMappings)
+      .where(eq(consolidationAccountMappings.groupId, groupId));
+    return new Map(rows.map((row) => [row.accountId, row.consolidationAccountId]));
+  }
+
+  private async loadRules(groupId: number): Promise<(IntercompanyRule & { accounts: { clientId: number; accountId: number }[] })[]> {
+    const rules = await db
+      .select()
+      .from(intercompanyRules)
+      .where(eq(intercompanyRules.groupId, groupId))
+      .orderBy(asc(intercompanyRules.name));
+    if (rules.length === 0) return [];
+
+    const accounts = await db
+      .select()
+      .from(intercompanyRuleAccounts)
+      .where(inArray(intercompanyRuleAccounts.ruleId, rules.map((rule) => rule.id)));
+
+    return rules.map((rule) => ({
+      ...rule,
+      accounts: accounts
+        .filter((account) => account.ruleId === rule.id)
+        .map((account) => ({ clientId: account.clientId, accountId: account.accountId })),
+    }));
+  }
+
+  private async findGroup(groupId: number, user?: any): Promise<ClientGroup> {
+    const [group] = await db.select().from(clientGroups).where(eq(clientGroups.id, groupId));
+
+    if (!group || (user?.firmId && group.firmId && group.firmId !== user.firmId)) {
+      throw new ConsolidationError("Client group not found", 404);
+    }
+    return group;
+  }
+
+  private async findChartAccount(groupId: number, accountId: number): Promise<ConsolidationAccount> {
+    const [account] = await db
+      .select()
+      .from(consolidationAccounts)
+      .where(and(eq(consolidationAccounts.id, accountId), eq(consolidationAccounts.groupId, groupId)));
+
+    if (!account) {
+      throw new ConsolidationError("Common chart line not found", 404);
+    }
+    return account;
+  }
+
+  private async findRule(groupId: number, ruleId: number): Promise<IntercompanyRule> {
+    const [rule] = await db
+      .select()
+      .from(intercompanyRules)
+      .where(and(eq(intercompanyRules.id, ruleId), eq(intercompanyRules.groupId, groupId)));
+
+    if (!rule) {
+      throw new ConsolidationError("Elimination rule not found", 404);
+    }
+    return rule;
+  }
+}
+
+export const consolidationService = new ConsolidationService();
@@ -0,0 +1,188 @@
+/**
+ * CPA-005 File Builder
+ *
+ * Writes Payments Canada Standard 005 files (fixed 1464-character records)
+ * for EFT credits from one originator:
+ * - "A" header with the originator ID, file creation number, creation date
+ *   and destination data centre
+ * - "C" credit records holding up to six 240-character payment segments
+ * - "Z" trailer with the credit totals
+ *
+ * Numeric fields are right-justified and zero-filled, alphanumeric fields
+ * left-justified and blank-filled. Dates are 0YYDDD (Julian day of year).
+ * Records are separated by CRLF.
+ */
+
+export const CPA005_RECORD_LENGTH = 1464;
+const SEGMENT_LENGTH = 240;
+const SEGMENTS_PER_RECORD = 6;
+
+// CPA Standard 007 transaction code for accounts payable credits
+export const CPA005_ACCOUNTS_PAYABLE = "460";
+
+export interface Cpa005Originator {
+  originatorId: string;
+  shortName: string;
+  longName: string;
+  destinationDataCentre: string;
+  returnInstitutionNumber: string;
+  returnTransitNumber: string;
+  returnAccountNumber: string;
+}
+
+export interface Cpa005Credit {
+  amount: number;
+  payeeName: string;
+  institutionNumber: string;
+  transitNumber: string;
+  accountNumber: string;
+  // Shown on the originator's side to match returns, e.g. run and vendor
+  crossReference: string;
+  sundryInfo?: string;
+}
+
+export interface Cpa005File {
+  content: string;
+  recordCount: number;
+  creditCount: number;
+  creditTotal: number;
+}
+
+export class Cpa005Error extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "Cpa005Error";
+  }
+}
+
+// Plain printable ASCII only: banks reject accented or control characters
+function toAscii(value: string): string {
+  return value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^\x20-\x7e]/g, " ");
+}
+
+function alpha(value: string | null | undefined, length: number): string {
+  return toAscii(value || "").slice(0, length).padEnd(length, " ");
+}
+
+function numeric(value: number | string, length: number): string {
+  const digits = String(value).replace(/\D/g, "");
+  if (digits.length > length) {
+    throw new Cpa005Error(`Value ${value} does not fit in ${length} digits`);
+  }
+  return digits.padStart(length, "0");
+}
+
+/**
+ * 0YYDDD: zero, two-digit year and day of the year
+ */
+export function cpa005Date(dateKey: string): string {
+  const [year, month, day] = dateKey.split("-").map((part) => parseInt(part, 10));
+  const dayOfYear = Math.round((Date.UTC(year, month - 1, day) - Date.UTC(year, 0, 0)) / 86400000);
+  return `0${String(year % 100).padStart(2, "0")}${String(dayOfYear).padStart(3, "0")}`;
+}
+
+/**
+ * 0IIITTTTT: zero, 3-digit institution and 5-digit transit
+ */
+function institutionId(institutionNumber: string, transitNumber: string): string {
+  return `0${numeric(institutionNumber, 3)}${numeric(transitNumber, 5)}`;
+}
+
+/**
+ * Check bank details before they are saved or used in a file
+ */
+export function validateCanadianBankAccount(details: {
+  institutionNumber: string;
+  transitNumber: string;
+  accountNumber: string;
+}): string | null {
+  if (!/^\d{3}$/.test(details.institutionNumber)) return "Institution number must be 3 digits";
+  if (!/^\d{5}$/.test(details.transitNumber)) return "Transit number must be 5 digits";
+  if (!/^\d{5,12}$/.test(details.accountNumber)) return "Account number must be 5 to 12 digits";
+  return null;
+}
+
+function creditSegment(credit: Cpa005Credit, originator: Cpa005Originator, paymentDate: string): string {
+  const segment = [
+    numeric(CPA005_ACCOUNTS_PAYABLE, 3),
+    numeric(Math.round(credit.amount * 100), 10),
+    cpa005Date(paymentDate),
+    institutionId(credit.institutionNumber, credit.transitNumber),
+    alpha(credit.accountNumber, 12),
+    numeric(0, 22), // item trace number, assigned by the bank
+    numeric(0, 3), // stored transaction type
+    alpha(originator.shortName, 15),
+    alpha(credit.payeeName, 30),
+    alpha(originator.longName, 30),
+    alpha(originator.originatorId, 10),
+    alpha(credit.crossReference, 19),
+    institutionId(originator.returnInstitutionNumber, originator.returnTransitNumber),
+    alpha(originator.returnAccountNumber, 12),
+    alpha(credit.sundryInfo, 15),
+    alpha("", 22), // filler
+    alpha("", 2), // originator-direct clearer settlement code
+    numeric(0, 11), // invalid data element ID
+  ].join("");
+  if (segment.length !== SEGMENT_LENGTH) {
+    throw new Cpa005Error(`Payment segment is ${segment.length} characters instead of ${SEGMENT_LENGTH}`);
+  }
+  return segment;
+}
+
+/**
+ * Build a credit file. creationDate and paymentDate are YYYY-MM-DD.
+ */
+export function buildCpa005File(input: {
+  originator: Cpa005Originator;
+  fileCreationNumber: number;
+  creationDate: string;
+  paymentDate: string;
+  credits: Cpa005Credit[];
+}): Cpa005File {
+  const { originator, fileCreationNumber, creationDate, paymentDate, credits } = input;
+  if (credits.length === 0) {
+    throw new Cpa005Error("An EFT file needs at least one payment");
+  }
+  for (const credit of credits) {
+    const problem = validateCanadianBankAccount(credit);
+    if (problem) throw new Cpa005Error(`${credit.payeeName}: ${problem}`);
+    if (!(credit.amount > 0)) throw new Cpa005Error(`${credit.payeeName}: amount must be positive`);
+  }
+
+  const prefix = (type: string, recordNumber: number) =>
+    `${type}${numeric(recordNumber, 9)}${alpha(originator.originatorId, 10)}${numeric(fileCreationNumber, 4)}`;
+
+  const records: string[] = [];
+  records.push(
+    `${prefix("A", 1)}${cpa005Date(creationDate)}${numeric(originator.destinationDataCentre, 5)}${alpha("", 20)}CAD`
+  );
+
+  for (let i = 0; i < credits.length; i += SEGMENTS_PER_RECORD) {
+    const segments = credits
+      .slice(i, i + SEGMENTS_PER_RECORD)
+      .map((credit) => creditSegment(credit, originator, paymentDate));
+    records.push(`${prefix("C", records.length + 1)}${segments.join("")}`);
+  }
+
+  // Summed from the same cent amounts as the segments so the trailer always agrees with them
+  const creditTotal = credits.reduce((sum, credit) => sum + Math.round(credit.amount * 100), 0);
+  records.push(
+    [
+      prefix("Z", records.length + 1),
+      numeric(0, 14), // debit value
+      numeric(0, 8), // debit count
+      numeric(creditTotal, 14),
+      numeric(credits.length, 8),
+      numeric(0, 14), // error correction E value
+      numeric(0, 8),
+      numeric(0, 14), // error correction F value
+      numeric(0, 8),
+    ].join("")
+  );
+
+  const content = records.map((record) => record.padEnd(CPA005_RECORD_LENGTH, " ")).join("\r\n") + "\r\n";
+  return { content, recordCount: records.length, creditCount: credits.length, creditTotal: creditTotal / 100 };
+}
@@ -0,0 +1,906 @@
+/**
+ * Currency Service
+ *
+ * Multi-currency bookkeeping on top of the home-currency ledger:
+ * - dated exchange rates per firm (CSV import and manual entry)
+ * - conversion of foreign-currency transactions and journal entry lines in
+ *   the currency of the account they are booked to, keeping the original
+ *   currency, amount and rate alongside the booked line
+ * - invoice and bill currencies with the rate on the document date
+ * - realized FX gain/loss when a foreign-currency invoice or bill is settled,
+ *   posted by the payment paths and reversed when the payment is voided
+ * - period-end unrealized revaluation, posted with an automatic reversal
+ * - presentation-currency translation of report responses
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { journalEntryLines } from "@shared/schema";
+import {
+  clientCurrencySettings,
+  accountCurrencies,
+  exchangeRates,
+  foreignCurrencyAmounts,
+  documentCurrencies,
+  fxAdjustments,
+  type ClientCurrencySettings,
+  type DocumentCurrency,
+} from "@shared/database/currency-entities";
+import { and, eq, lte, gte, desc, sql, isNull, inArray } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import { insertPostedJournalEntry, type DbTransaction } from "./journal-posting";
+
+export const DEFAULT_HOME_CURRENCY = "CAD";
+
+export class CurrencyError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CurrencyError";
+    this.status = status;
+  }
+}
+
+export interface ForeignAmountInfo {
+  currency: string;
+  foreignAmount: number;
+  exchangeRate: number;
+  homeAmount: number;
+}
+
+export type FxDocumentType = "invoice" | "bill";
+
+interface JournalLineInput {
+  accountId: number;
+  debitAmount: number;
+  creditAmount: number;
+  memo: string;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function normalizeCurrency(value: string | null | undefined): string | null {
+  const code = value?.trim().toUpperCase();
+  return code ? code : null;
+}
+
+function addDays(dateKey: string, days: number): string {
+  const next = new Date(`${dateKey}T12:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split("T")[0];
+}
+
+// Report fields holding money; ids, counts and dates are left alone
+const REPORT_AMOUNT_KEY = /(balance|total|amount|variance|change|debits?|credits?|income|profit|difference|assets|liabilities|equity|expenses?|sales|value)$/i;
+
+export class CurrencyService {
+  /**
+   * Home currency and FX accounts for a client (defaults when never configured)
+   */
+  async getSettings(clientId: number): Promise<ClientCurrencySettings | {
+    clientId: number;
+    homeCurrency: string;
+    realizedFxAccountId: number | null;
+    unrealizedFxAccountId: number | null;
+  }> {
+    const [settings] = await db
+      .select()
+      .from(clientCurrencySettings)
+      .where(eq(clientCurrencySettings.clientId, clientId))
+      .limit(1);
+
+    return settings || {
+      clientId,
+      homeCurrency: DEFAULT_HOME_CURRENCY,
+      realizedFxAccountId: null,
+      unrealizedFxAccountId: null,
+    };
+  }
+
+  async updateSettings(
+    clientId: number,
+    data: { homeCurrency?: string; realizedFxAccountId?: number | null; unrealizedFxAccountId?: number | null },
+    user: any
+  ): Promise<ClientCurrencySettings> {
+    const values = {
+      ...(data.homeCurrency ? { homeCurrency: normalizeCurrency(data.homeCurrency)! } : {}),
+      ...(data.realizedFxAccountId !== undefined ? { realizedFxAccountId: data.realizedFxAccountId } : {}),
+      ...(data.unrealizedFxAccountId !== undefined ? { unrealizedFxAccountId: data.unrealizedFxAccountId } : {}),
+      updatedBy: user?.id ?? null,
+      updatedAt: new Date(),
+    };
+
+    const [settings] = await db
+      .insert(clientCurrencySettings)
+      .values({ clientId, ...values })
+      .onConflictDoUpdate({ target: clientCurrencySettings.clientId, set: values })
+      .returning();
+
+    return settings;
+  }
+
+  /**
+   * Accounts of a client that are kept in a foreign currency
+   */
+  async getAccountCurrencies(clientId: number) {
+    return db
+      .select()
+      .from(accountCurrencies)
+      .where(eq(accountCurrencies.clientId, clientId));
+  }
+
+  /**
+   * Set the currency of an account. Passing the home currency (or null) clears it.
+   */
+  async setAccountCurrency(clientId: number, accountId: number, currency: string | null) {
+    const code = normalizeCurrency(currency);
+    const { homeCurrency } = await this.getSettings(clientId);
+
+    if (!code || code === homeCurrency) {
+      await db.delete(accountCurrencies).where(eq(accountCurrencies.accountId, accountId));
+      return { accountId, clientId, currency: homeCurrency };
+    }
+
+    const [row] = await db
+      .insert(accountCurrencies)
+      .values({ accountId, clientId, currency: code })
+      .onConflictDoUpdate({ target: accountCurrencies.accountId, set: { currency: code } })
+      .returning();
+
+    return row;
+  }
+
+  /**
+   * Currency of an account, or null when it is kept in home currency
+   */
+  async getAccountCurrency(clientId: number, accountId: number | string | null | undefined): Promise<string | null> {
+    if (!accountId) return null;
+    const [row] = await db
+      .select()
+      .from(accountCurrencies)
+      .where(and(eq(accountCurrencies.clientId, clientId), eq(accountCurrencies.accountId, Number(accountId))))
+      .limit(1);
+    return row?.currency ?? null;
+  }
+
+  /**
+   * Currency an amount is booked in: the account's. A currency given with the
+   * amount must match it, since revaluation restates the account in its own
+   * currency.
+   */
+  async bookingCurrency(clientId: number, accountId: number | string | null | undefined, requested?: string | null): Promise<string | null> {
+    const accountCurrency = await this.getAccountCurrency(clientId, accountId);
+    const requestedCode = normalizeCurrency(requested);
+    if (!requestedCode) return accountCurrency;
+
+    const { homeCurrency } = await this.getSettings(clientId);
+    const bookedIn = accountCurrency || homeCurrency;
+    if (requestedCode !== bookedIn) {
+      throw new CurrencyError(`Account ${accountId} is kept in ${bookedIn}; enter the amount in ${bookedIn}`, 422);
+    }
+    return accountCurrency;
+  }
+
+  /**
+   * Currency and document-date rate of an invoice or bill, or null when it is
+   * in home currency. Document amounts (totals, payments) are in this currency.
+   */
+  async getDocumentCurrency(documentType: FxDocumentType, documentId: number): Promise<DocumentCurrency | null> {
+    const [row] = await db
+      .select()
+      .from(documentCurrencies)
+      .where(and(eq(documentCurrencies.documentType, documentType), eq(documentCurrencies.documentId, documentId)))
+      .limit(1);
+    return row ?? null;
+  }
+
+  async listDocumentCurrencies(clientId: number, documentType?: FxDocumentType) {
+    const conditions = [eq(documentCurrencies.clientId, clientId)];
+    if (documentType) conditions.push(eq(documentCurrencies.documentType, documentType));
+
+    return db
+      .select()
+      .from(documentCurrencies)
+      .where(and(...conditions))
+      .orderBy(desc(documentCurrencies.documentDate));
+  }
+
+  /**
+   * Set the currency of an invoice or bill. The rate defaults to the one on
+   * file for the document date; the home currency (or null) clears it. Cannot
+   * change once a payment has realized a gain or loss against the old rate.
+   */
+  async setDocumentCurrency(
+    clientId: number,
+    documentType: FxDocumentType,
+    documentId: number,
+    data: { currency: string | null; documentDate: string; exchangeRate?: number | null },
+    user: any
+  ) {
+    const [settled] = await db
+      .select({ id: fxAdjustments.id })
+      .from(fxAdjustments)
+      .where(and(
+        eq(fxAdjustments.kind, "realized"),
+        eq(fxAdjustments.documentType, documentType),
+        eq(fxAdjustments.documentId, documentId),
+        isNull(fxAdjustments.reversalJournalEntryId)
+      ))
+      .limit(1);
+    if (settled) {
+      throw new CurrencyError(`This ${documentType} already has payments at its current rate`, 409);
+    }
+
+    const code = normalizeCurrency(data.currency);
+    const { homeCurrency } = await this.getSettings(clientId);
+    if (!code || code === homeCurrency) {
+      await db
+        .delete(documentCurrencies)
+        .where(and(eq(documentCurrencies.documentType, documentType), eq(documentCurrencies.documentId, documentId)));
+      return { clientId, documentType, documentId, currency: homeCurrency, exchangeRate: "1" };
+    }
+
+    const exchangeRate = data.exchangeRate ??
+      (await this.getRate(user?.firmId, code, homeCurrency, data.documentDate)).rate;
+    const values = {
+      currency: code,
+      exchangeRate: exchangeRate.toString(),
+      documentDate: data.documentDate,
+      updatedBy: user?.id ?? null,
+      updatedAt: new Date(),
+    };
+
+    const [row] = await db
+      .insert(documentCurrencies)
+      .values({ clientId, documentType, documentId, ...values })
+      .onConflictDoUpdate({ target: [documentCurrencies.documentType, documentCurrencies.documentId], set: values })
+      .returning();
+
+    return row;
+  }
+
+  /**
+   * Check before a payment is recorded that the gain or loss on any
+   * foreign-currency document it settles can be posted
+   */
+  async assertCanSettle(clientId: number, documentType: FxDocumentType, documentIds: number[]) {
+    if (documentIds.length === 0) return;
+    const [foreign] = await db
+      .select({ id: documentCurrencies.id })
+      .from(documentCurrencies)
+      .where(and(eq(documentCurrencies.documentType, documentType), inArray(documentCurrencies.documentId, documentIds)))
+      .limit(1);
+    if (!foreign) return;
+
+    const settings = await this.getSettings(clientId);
+    if (!settings.realizedFxAccountId) {
+      throw new CurrencyError("Set a realized FX gain/loss account in the client's currency settings first");
+    }
+  }
+
+  /**
+   * Post the realized gain or loss for each foreign-currency document a
+   * payment settled. Home-currency documents are skipped. `settlementRef`
+   * names the payment so voiding it can reverse the entries. Pass the
+   * payment's transaction as `tx` so the entries commit with the payment.
+   */
+  async settleDocuments(params: {
+    clientId: number;
+    documentType: FxDocumentType;
+    settlements: Array<{ documentId: number; amount: number }>;
+    settlementDate: string;
+    settlementRate?: number | null;
+    settlementRef: string;
+    controlAccountId?: number | null;
+    user: any;
+    tx?: DbTransaction;
+  }): Promise<Array<Awaited<ReturnType<CurrencyService["postRealizedGainLoss"]>>>> {
+    const tx = params.tx;
+    if (!tx) {
+      return db.transaction((transaction) => this.settleDocuments({ ...params, tx: transaction }));
+    }
+
+    const results = [];
+    let controlAccountId = params.controlAccountId ?? null;
+
+    for (const settlement of params.settlements) {
+      const document = await this.getDocumentCurrency(params.documentType, settlement.documentId);
+      if (!document || !(settlement.amount > 0)) continue;
+
+      controlAccountId = controlAccountId ?? (await this.findControlAccountId(params.clientId, params.documentType));
+      results.push(await this.postRealizedGainLoss({
+        clientId: params.clientId,
+        documentType: params.documentType,
+        documentId: settlement.documentId,
+        currency: document.currency,
+        foreignAmount: settlement.amount,
+        controlAccountId,
+        originalDate: document.documentDate,
+        settlementDate: params.settlementDate,
+        originalRate: parseFloat(document.exchangeRate),
+        settlementRate: params.settlementRate ?? undefined,
+        settlementRef: params.settlementRef,
+        user: params.user,
+        tx,
+      }));
+    }
+
+    return results;
+  }
+
+  /**
+   * Reverse the realized gain/loss posted for a payment that is being voided,
+   * inside the void's transaction when one is given
+   */
+  async reverseSettlement(
+    clientId: number,
+    settlementRef: string,
+    reversalDate: string,
+    user: any,
+    tx?: DbTransaction
+  ): Promise<{ reversed: number }> {
+    if (!tx) {
+      return db.transaction((transaction) => this.reverseSettlement(clientId, settlementRef, reversalDate, user, transaction));
+    }
+
+    const adjustments = await tx
+      .select()
+      .from(fxAdjustments)
+      .where(and(
+        eq(fxAdjustments.clientId, clientId),
+        eq(fxAdjustments.kind, "realized"),
+        eq(fxAdjustments.settlementRef, settlementRef),
+        isNull(fxAdjustments.reversalJournalEntryId)
+      ));
+
+    for (const adjustment of adjustments) {
+      if (!adjustment.journalEntryId) continue;
+
+      const lines = await tx
+        .select()
+        .from(journalEntryLines)
+        .where(eq(journalEntryLines.journalEntryId, adjustment.journalEntryId));
+      const memo = `Reversal of realized FX on ${adjustment.documentType} #${adjustment.documentId} (${settlementRef} voided)`;
+      const reversal = await this.postJournalEntry(
+        tx,
+        clientId,
+        reversalDate,
+        memo,
+        lines.map((line) => ({
+          accountId: line.accountId,
+          debitAmount: parseFloat(line.creditAmount || "0"),
+          creditAmount: parseFloat(line.debitAmount || "0"),
+          memo,
+        })),
+        user
+      );
+
+      await tx
+        .update(fxAdjustments)
+        .set({ reversalJournalEntryId: reversal.id, reversalDate })
+        .where(eq(fxAdjustments.id, adjustment.id));
+    }
+
+    return { reversed: adjustments.length };
+  }
+
+  /**
+   * Rate to convert one unit of `from` into `to` on a date: the latest rate on
+   * or before the date, using the inverse pair when only that is on file.
+   * Firm rates take precedence over shared (firm-less) rates.
+   */
+  async getRate(firmId: number | null | undefined, from: string, to: string, onDate: Date | string): Promise<{ rate: number; rateDate: string | null }> {
+    const fromCode = normalizeCurrency(from)!;
+    const toCode = normalizeCurrency(to)!;
+    const dateKey = toDateKey(onDate) || toDateKey(new Date())!;
+
+    if (fromCode === toCode) {
+      return { rate: 1, rateDate: dateKey };
+    }
+
+    const findLatest = async (base: string, quote: string) => {
+      const [row] = await db
+        .select()
+        .from(exchangeRates)
+        .where(and(
+          eq(exchangeRates.fromCurrency, base),
+          eq(exchangeRates.toCurrency, quote),
+          lte(exchangeRates.rateDate, dateKey),
+          firmId ? sql`(${exchangeRates.firmId} = ${firmId} OR ${exchangeRates.firmId} IS NULL)` : isNull(exchangeRates.firmId)
+        ))
+        .orderBy(desc(exchangeRates.rateDate), sql`${exchangeRates.firmId} IS NULL`)
+        .limit(1);
+      return row;
+    };
+
+    const direct = await findLatest(fromCode, toCode);
+    if (direct) {
+      return { rate: parseFloat(direct.rate), rateDate: direct.rateDate };
+    }
+
+    const inverse = await findLatest(toCode, fromCode);
+    if (inverse && parseFloat(inverse.rate) !== 0) {
+      return { rate: 1 / parseFloat(inverse.rate), rateDate: inverse.rateDate };
+    }
+
+    throw new CurrencyError(`No ${fromCode}/${toCode} exchange rate on or before ${dateKey}`, 422);
+  }
+
+  /**
+   * Rates on file for a firm, newest first
+   */
+  async listRates(firmId: number | null | undefined, filters: { from?: string; to?: string; startDate?: string; endDate?: string }) {
+    const conditions = [
+      firmId ? eq(exchangeRates.firmId, firmId) : isNull(exchangeRates.firmId),
+    ];
+    if (filters.from) conditions.push(eq(exchangeRates.fromCurrency, normalizeCurrency(filters.from)!));
+    if (filters.to) conditions.push(eq(exchangeRates.toCurrency, normalizeCurrency(filters.to)!));
+    if (filters.startDate) conditions.push(gte(exchangeRates.rateDate, filters.startDate));
+    if (filters.endDate) conditions.push(lte(exchangeRates.rateDate, filters.endDate));
+
+    return db
+      .select()
+      .from(exchangeRates)
+      .where(and(...conditions))
+      .orderBy(desc(exchangeRates.rateDate), exchangeRates.fromCurrency, exchangeRates.toCurrency)
+      .limit(1000);
+  }
+
+  /**
+   * Add or replace the rate for a currency pair on a date
+   */
+  async saveRate(params: { firmId: number | null; fromCurrency: string; toCurrency: string; rateDate: string; rate: number; source?: string; user?: any }) {
+    const values = {
+      firmId: params.firmId,
+      fromCurrency: normalizeCurrency(params.fromCurrency)!,
+      toCurrency: normalizeCurrency(params.toCurrency)!,
+      rateDate: params.rateDate,
+      rate: params.rate.toString(),
+      source: params.source || "manual",
+      createdBy: params.user?.id ?? null,
+    };
+
+    const [rate] = await db
+      .insert(exchangeRates)
+      .values(values)
+      .onConflictDoUpdate({
+        target: [exchangeRates.firmId, exchangeRates.fromCurrency, exchangeRates.toCurrency, exchangeRates.rateDate],
+        set: { rate: values.rate, source: values.source, createdBy: values.createdBy },
+      })
+      .returning();
+
+    return rate;
+  }
+
+  /**
+   * Import rates from CSV. Expected columns (any order, header required):
+   * date, from (or base), to (or quote), rate. A single "currency" column is
+   * read as a rate into the client's home currency when `defaultToCurrency` is given.
+   */
+  async importRatesCsv(firmId: number | null, csvContent: string, user: any, defaultToCurrency?: string) {
+    const lines = csvContent.split(/\r?\n/).filter((line) => line.trim());
+    if (lines.length < 2) {
+      throw new CurrencyError("The CSV file has no rate rows");
+    }
+
+    const splitLine = (line: string) =>
+      line.split(",").map((cell) => cell.trim().replace(/^"|"$/g, ""));
+    const headers = splitLine(lines[0]).map((header) => header.toLowerCase());
+    const column = (...names: string[]) => headers.findIndex((header) => names.includes(header));
+
+    const dateColumn = column("date", "rate_date", "ratedate", "effective_date");
+    const fromColumn = column("from", "from_currency", "base", "currency");
+    const toColumn = column("to", "to_currency", "quote");
+    const rateColumn = column("rate", "exchange_rate", "value");
+
+    if (dateColumn === -1 || fromColumn === -1 || rateColumn === -1 || (toColumn === -1 && !defaultToCurrency)) {
+      throw new CurrencyError("CSV must have date, from, to and rate columns");
+    }
+
+    let imported = 0;
+    const errors: string[] = [];
+
+    for (let i = 1; i < lines.length; i++) {
+      const cells = splitLine(lines[i]);
+      const rateDate = toDateKey(cells[dateColumn]);
+      const fromCurrency = normalizeCurrency(cells[fromColumn]);
+      const toCurrency = normalizeCurrency(toColumn === -1 ? defaultToCurrency : cells[toColumn]);
+      const rate = parseFloat(cells[rateColumn]);
+
+      if (!rateDate || !fromCurrency || !toCurrency || isNaN(rate) || rate <= 0) {
+        errors.push(`Row ${i + 1}: invalid date, currency or rate`);
+        continue;
+      }
+
+      await this.saveRate({ firmId, fromCurrency, toCurrency, rateDate, rate, source: "csv", user });
+      imported++;
+    }
+
+    return { imported, errors };
+  }
+
+  /**
+   * Convert a foreign-currency amount to the client's home currency.
+   * Returns null when the amount is already in home currency.
+   */
+  async toHomeCurrency(params: {
+    clientId: number;
+    firmId?: number | null;
+    currency?: string | null;
+    amount: number;
+    date: Date | string;
+    exchangeRate?: number | string | null;
+  }): Promise<ForeignAmountInfo | null> {
+    const currency = normalizeCurrency(params.currency);
+    if (!currency) return null;
+
+    const { homeCurrency } = await this.getSettings(params.clientId);
+    if (currency === homeCurrency) return null;
+
+    const exchangeRate = params.exchangeRate
+      ? parseFloat(params.exchangeRate.toString())
+      : (await this.getRate(params.firmId, currency, homeCurrency, params.date)).rate;
+
+    return {
+      currency,
+      foreignAmount: params.amount,
+      exchangeRate,
+      homeAmount: roundAmount(params.amount * exchangeRate),
+    };
+  }
+
+  /**
+   * Convert journal entry lines on foreign-currency accounts to home-currency
+   * debits/credits. Lines on home-currency accounts pass through.
+   */
+  async convertJournalLines(clientId: number, firmId: number | null | undefined, entryDate: Date | string, entries: any[]) {
+    const foreign: Array<ForeignAmountInfo | null> = [];
+    const converted = [];
+
+    for (const entry of entries) {
+      const debit = parseFloat(entry.debitAmount || "0");
+      const credit = parseFloat(entry.creditAmount || "0");
+      const info = await this.toHomeCurrency({
+        clientId,
+        firmId,
+        currency: await this.bookingCurrency(clientId, entry.accountId, entry.currency),
+        amount: debit - credit,
+        date: entryDate,
+        exchangeRate: entry.exchangeRate,
+      });
+
+      foreign.push(info);
+      converted.push(info
+        ? {
+            ...entry,
+            debitAmount: info.homeAmount > 0 ? info.homeAmount : 0,
+            creditAmount: info.homeAmount < 0 ? Math.abs(info.homeAmount) : 0,
+          }
+        : entry);
+    }
+
+    return { entries: converted, foreign };
+  }
+
+  /**
+   * Keep the original currency details of a booked transaction or journal line
+   */
+  async recordForeignAmount(params: {
+    clientId: number;
+    accountId: number;
+    entryDate: Date | string;
+    transactionId?: number;
+    journalEntryLineId?: number;
+    info: ForeignAmountInfo;
+  }) {
+    const [row] = await db
+      .insert(foreignCurrencyAmounts)
+      .values({
+        clientId: params.clientId,
+        accountId: params.accountId,
+        transactionId: params.transactionId ?? null,
+        journalEntryLineId: params.journalEntryLineId ?? null,
+        entryDate: toDateKey(params.entryDate)!,
+        currency: params.info.currency,
+        foreignAmount: params.info.foreignAmount.toFixed(2),
+        exchangeRate: params.info.exchangeRate.toString(),
+        homeAmount: params.info.homeAmount.toFixed(2),
+      })
+      .returning();
+
+    return row;
+  }
+
+  /**
+   * Post the realized FX gain or loss when a foreign-currency invoice or bill is
+   * settled. The payment is assumed booked at the settlement rate against the
+   * AR/AP control account; this entry clears the rate difference left on it.
+   */
+  async postRealizedGainLoss(params: {
+    clientId: number;
+    documentType: "invoice" | "bill";
+    documentId: number;
+    currency: string;
+    foreignAmount: number;
+    controlAccountId: number;
+    originalDate: string;
+    settlementDate: string;
+    originalRate?: number;
+    settlementRate?: number;
+    settlementRef?: string;
+    user: any;
+    tx?: DbTransaction;
+  }) {
+    const settings = await this.getSettings(params.clientId);
+    if (!settings.realizedFxAccountId) {
+      throw new CurrencyError("Set a realized FX gain/loss account in the client's currency settings first");
+    }
+
+    const firmId = params.user?.firmId;
+    const originalRate = params.originalRate ??
+      (await this.getRate(firmId, params.currency, settings.homeCurrency, params.originalDate)).rate;
+    const settlementRate = params.settlementRate ??
+      (await this.getRate(firmId, params.currency, settings.homeCurrency, params.settlementDate)).rate;
+
+    const rateDifference = roundAmount(params.foreignAmount * (settlementRate - originalRate));
+    // Receivables gain when the currency strengthens; payables lose
+    const gain = params.documentType === "invoice" ? rateDifference : -rateDifference;
+
+    if (gain === 0) {
+      return { amount: 0, journalEntry: null };
+    }
+
+    const absolute = Math.abs(gain);
+    const memo = `Realized FX ${gain > 0 ? "gain" : "loss"} on ${params.documentType} #${params.documentId} (${params.currency} ${params.foreignAmount.toFixed(2)})`;
+    const lines: JournalLineInput[] = gain > 0
+      ? [
+          { accountId: params.controlAccountId, debitAmount: absolute, creditAmount: 0, memo },
+          { accountId: settings.realizedFxAccountId, debitAmount: 0, creditAmount: absolute, memo },
+        ]
+      : [
+          { accountId: settings.realizedFxAccountId, debitAmount: absolute, creditAmount: 0, memo },
+          { accountId: params.controlAccountId, debitAmount: 0, creditAmount: absolute, memo },
+        ];
+
+    const post = async (tx: DbTransaction) => {
+      const journalEntry = await this.postJournalEntry(tx, params.clientId, params.settlementDate, memo, lines, params.user);
+
+      const [adjustment] = await tx
+        .insert(fxAdjustments)
+        .values({
+          clientId: params.clientId,
+          kind: "realized",
+          entryDate: params.settlementDate,
+          documentType: params.documentType,
+          documentId: params.documentId,
+          currency: normalizeCurrency(params.currency),
+          foreignAmount: params.foreignAmount.toFixed(2),
+          originalRate: originalRate.toString(),
+          settlementRate: settlementRate.toString(),
+          settlementRef: params.settlementRef ?? null,
+          amount: gain.toFixed(2),
+          journalEntryId: journalEntry.id,
+          createdBy: params.user?.id ?? null,
+        })
+        .returning();
+
+      return { amount: gain, adjustment, journalEntry };
+    };
+
+    return params.tx ? post(params.tx) : db.transaction(post);
+  }
+
+  /**
+   * Period-end revaluation of foreign-currency asset and liability accounts at
+   * the closing rate. Posts the unrealized gain/loss on the as-of date and a
+   * reversing entry the next day, so the next period starts at historical cost.
+   */
+  async revalue(clientId: number, asOfDate: string, user: any) {
+    const settings = await this.getSettings(clientId);
+    if (!settings.unrealizedFxAccountId) {
+      throw new CurrencyError("Set an unrealized FX gain/loss account in the client's currency settings first");
+    }
+
+    const [existing] = await db
+      .select()
+      .from(fxAdjustments)
+      .where(and(
+        eq(fxAdjustments.clientId, clientId),
+        eq(fxAdjustments.kind, "unrealized"),
+        eq(fxAdjustments.entryDate, asOfDate)
+      ))
+      .limit(1);
+    if (existing) {
+      throw new CurrencyError(`The books were already revalued as of ${asOfDate}`, 409);
+    }
+
+    const reversalDate = addDays(asOfDate, 1);
+    await periodLockService.assertPeriodOpen(clientId, [asOfDate, reversalDate], user);
+
+    const accounts = await storage.getAccounts(clientId);
+    const monetaryAccountIds = new Set(
+      (accounts || [])
+        .filter((account: any) => account.type === "asset" || account.type === "liability")
+        .map((account: any) => account.id)
+    );
+
+    const balances = await db
+      .select({
+        accountId: foreignCurrencyAmounts.accountId,
+        currency: foreignCurrencyAmounts.currency,
+        foreignBalance: sql<string>`SUM(${foreignCurrencyAmounts.foreignAmount})`,
+        homeBalance: sql<string>`SUM(${foreignCurrencyAmounts.homeAmount})`,
+      })
+      .from(foreignCurrencyAmounts)
+      .where(and(
+        eq(foreignCurrencyAmounts.clientId, clientId),
+        lte(foreignCurrencyAmounts.entryDate, asOfDate)
+      ))
+      .groupBy(foreignCurrencyAmounts.accountId, foreignCurrencyAmounts.currency);
+
+    const memo = `Unrealized FX revaluation as of ${asOfDate}`;
+    const lines: JournalLineInput[] = [];
+    const details = [];
+    let netAdjustment = 0;
+
+    for (const balance of balances) {
+      if (!monetaryAccountIds.has(balance.accountId)) continue;
+
+      const foreignBalance = parseFloat(balance.foreignBalance || "0");
+      const carryingAmount = parseFloat(balance.homeBalance || "0");
+      const { rate } = await this.getRate(user?.firmId, balance.currency, settings.homeCurrency, asOfDate);
+      const revaluedAmount = roundAmount(foreignBalance * rate);
+      const adjustment = roundAmount(revaluedAmount - carryingAmount);
+
+      details.push({
+        accountId: balance.accountId,
+        currency: balance.currency,
+        foreignBalance,
+        closingRate: rate,
+        carryingAmount,
+        revaluedAmount,
+        adjustment,
+      });
+
+      if (adjustment === 0) continue;
+      netAdjustment += adjustment;
+      lines.push({
+        accountId: balance.accountId,
+        debitAmount: adjustment > 0 ? adjustment : 0,
+        creditAmount: adjustment < 0 ? Math.abs(adjustment) : 0,
+        memo: `${memo} (${balance.currency} ${foreignBalance.toFixed(2)} @ ${rate})`,
+      });
+    }
+
+    netAdjustment = roundAmount(netAdjustment);
+    if (lines.length === 0 || netAdjustment === 0) {
+      return { asOfDate, amount: 0, accounts: details, journalEntry: null, reversalJournalEntry: null };
+    }
+
+    // Net debit to the revalued accounts is a gain
+    lines.push({
+      accountId: settings.unrealizedFxAccountId,
+      debitAmount: netAdjustment < 0 ? Math.abs(netAdjustment) : 0,
+      creditAmount: netAdjustment > 0 ? netAdjustment : 0,
+      memo,
+    });
+
+    return db.transaction(async (tx) => {
+      const journalEntry = await this.postJournalEntry(tx, clientId, asOfDate, memo, lines, user);
+      const reversalJournalEntry = await this.postJournalEntry(
+        tx,
+        clientId,
+        reversalDate,
+        `Reversal of ${memo.charAt(0).toLowerCase()}${memo.slice(1)}`,
+        lines.map((line) => ({ ...line, debitAmount: line.creditAmount, creditAmount: line.debitAmount })),
+        user
+      );
+
+      const [adjustment] = await tx
+        .insert(fxAdjustments)
+        .values({
+          clientId,
+          kind: "unrealized",
+          entryDate: asOfDate,
+          amount: netAdjustment.toFixed(2),
+          journalEntryId: journalEntry.id,
+          reversalJournalEntryId: reversalJournalEntry.id,
+          reversalDate,
+          createdBy: user?.id ?? null,
+        })
+        .returning();
+
+      return { asOfDate, amount: netAdjustment, accounts: details, adjustment, journalEntry, reversalJournalEntry };
+    });
+  }
+
+  /**
+   * Realized and unrealized FX adjustments for a client, newest first
+   */
+  async getAdjustments(clientId: number, kind?: string) {
+    const conditions = [eq(fxAdjustments.clientId, clientId)];
+    if (kind) conditions.push(eq(fxAdjustments.kind, kind));
+
+    return db
+      .select()
+      .from(fxAdjustments)
+      .where(and(...conditions))
+      .orderBy(desc(fxAdjustments.entryDate), desc(fxAdjustments.createdAt));
+  }
+
+  /**
+   * Translate every money field of a report into a presentation currency at
+   * the rate on the report date. Returns the report unchanged when no
+   * presentation currency is requested or it matches the home currency.
+   */
+  async presentReport<T extends Record<string, any>>(
+    report: T,
+    params: { clientId: number; firmId?: number | null; currency?: string | null; date: Date | string }
+  ): Promise<T> {
+    const currency = normalizeCurrency(params.currency);
+    const { homeCurrency } = await this.getSettings(params.clientId);
+    if (!currency || currency === homeCurrency) return report;
+
+    const { rate, rateDate } = await this.getRate(params.firmId, homeCurrency, currency, params.date);
+
+    const translate = (value: any, key = ""): any => {
+      if (Array.isArray(value)) return value.map((item) => translate(item, key));
+      if (value && typeof value === "object" && !(value instanceof Date)) {
+        return Object.fromEntries(
+          Object.entries(value).map(([childKey, childValue]) => [childKey, translate(childValue, childKey)])
+        );
+      }
+      if (typeof value === "number" && REPORT_AMOUNT_KEY.test(key)) {
+        return roundAmount(value * rate);
+      }
+      return value;
+    };
+
+    return {
+      ...translate(report),
+      presentationCurrency: {
+        currency,
+        homeCurrency,
+        rate,
+        rateDate,
+      },
+    };
+  }
+
+  /**
+   * Accounts receivable for invoices, accounts payable for bills
+   */
+  private async findControlAccountId(clientId: number, documentType: FxDocumentType): Promise<number> {
+    const [type, keyword] = documentType === "invoice" ? ["asset", "receivable"] : ["liability", "payable"];
+    const accounts = ((await storage.getAccounts(clientId)) || []).filter(
+      (account: any) => account.type === type && (account.name || "").toLowerCase().includes(keyword)
+    );
+    const controlAccountId = (
+      accounts.find((account: any) => (account.name || "").toLowerCase().includes(`accounts ${keyword}`)) ?? accounts[0]
+    )?.id;
+    if (!controlAccountId) {
+      throw new CurrencyError(`No accounts ${keyword} account found`);
+    }
+    return controlAccountId;
+  }
+
+  /**
+   * Create a posted, balanced journal entry in home currency
+   */
+  private async postJournalEntry(
+    tx: DbTransaction,
+    clientId: number,
+    entryDate: string,
+    description: string,
+    lines: JournalLineInput[],
+    user: any
+  ) {
+    await periodLockService.assertPeriodOpen(clientId, [entryDate], user);
+    return insertPostedJournalEntry(tx, { clientId, entryDate, description, lines });
+  }
+}
+
+export const currencyService = new CurrencyService();
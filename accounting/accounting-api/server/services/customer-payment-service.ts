@@ -0,0 +1,1181 @@
+/**
+ * Customer Payment Service
+ *
+ * Receivables settlement for a client's customers:
+ * - receiving one payment (e.g. a single e-transfer) and allocating it across
+ *   many open invoices; whatever is not allocated stays as unapplied credit
+ * - credit notes as documents of their own that reduce AR, optionally
+ *   applied straight to the invoice they credit
+ * - applying unapplied credit (from payments or credit notes) to invoices
+ *   later, un-applying it, or refunding it to the customer
+ * - voiding payments and credit notes, which reverses their journal entry and
+ *   takes their applications back off the invoices
+ * - the customer statement and per-customer unapplied credit used by the AR
+ *   reports, so both reflect the allocations exactly
+ *
+ * Journal entries: a payment posts Dr bank / Cr AR for the full deposit, a
+ * credit note Dr income (and sales tax) / Cr AR, a refund Dr AR / Cr bank.
+ * Applying credit to an invoice only moves it within the AR subledger, so it
+ * posts nothing; the invoice's amountPaid is updated instead. The exception is
+ * a payment applied to a foreign-currency invoice, which posts the realized FX
+ * gain or loss; taking the application back reverses it.
+ *
+ * A payment is in its deposit account's currency and can only pay invoices in
+ * that currency. Its entry is booked in home currency at the payment-date rate,
+ * so the realized FX on each invoice is just the difference from the invoice's
+ * own rate. Each operation writes its entries, records and invoice updates in
+ * one transaction.
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  customerPayments,
+  creditNotes,
+  customerCreditApplications,
+  customerRefunds,
+  type CustomerPayment,
+  type CreditNote,
+  type CustomerCreditApplication,
+  type CustomerRefund,
+} from "@shared/database/customer-payment-entities";
+import { invoices as invoicesTable } from "@shared/schema";
+import { and, eq, asc, desc, inArray } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import { nextInvoiceNumber } from "./recurring-invoice-service";
+import { currencyService, type ForeignAmountInfo } from "./currency-service";
+import { insertPostedJournalEntry, type DbTransaction } from "./journal-posting";
+import {
+  CLOSED_INVOICE_STATUSES,
+  allocationProblem,
+  invoiceBalance,
+  isOpenInvoice,
+  matchAllocations,
+  paidAfterApplying,
+  paidAfterUnapplying,
+  type AllocationInput,
+} from "./invoice-allocation";
+
+export type CustomerPaymentMethod = "cash" | "cheque" | "e_transfer" | "eft" | "credit_card" | "other";
+
+export type CreditSource = "payment" | "credit_note";
+
+const METHOD_LABELS: Record<CustomerPaymentMethod, string> = {
+  cash: "Cash",
+  cheque: "Cheque",
+  e_transfer: "E-transfer",
+  eft: "EFT",
+  credit_card: "Credit card",
+  other: "Payment",
+};
+
+export class CustomerPaymentError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "CustomerPaymentError";
+    this.status = status;
+  }
+}
+
+export interface ReceivePaymentInput {
+  customerId: number;
+  paymentDate: string;
+  amount: number;
+  method: CustomerPaymentMethod;
+  reference?: string | null;
+  depositAccountId: number;
+  arAccountId?: number | null;
+  // Defaults to the deposit account's currency, which it must match
+  currency?: string | null;
+  // Home currency per unit; defaults to the rate on file for the payment date
+  exchangeRate?: number | null;
+  memo?: string | null;
+  allocations: AllocationInput[];
+}
+
+export interface CreditNoteLineInput {
+  description: string;
+  amount: number;
+  accountId: number;
+}
+
+export interface CreditNoteInput {
+  customerId: number;
+  issueDate: string;
+  invoiceId?: number | null;
+  reason?: string | null;
+  lines: CreditNoteLineInput[];
+  taxAmount?: number;
+  taxAccountId?: number | null;
+  arAccountId?: number | null;
+  // Apply the credit note to invoiceId straight away (up to its balance)
+  applyToInvoice?: boolean;
+}
+
+export interface ApplyCreditInput {
+  source: CreditSource;
+  sourceId: number;
+  appliedDate?: string;
+  allocations: AllocationInput[];
+}
+
+export interface RefundInput {
+  source: CreditSource;
+  sourceId: number;
+  amount: number;
+  refundDate: string;
+  bankAccountId: number;
+  method: CustomerPaymentMethod;
+  reference?: string | null;
+}
+
+export interface AvailableCredit {
+  source: CreditSource;
+  sourceId: number;
+  customerId: number;
+  customerName?: string;
+  date: string;
+  reference: string;
+  total: number;
+  applied: number;
+  refunded: number;
+  remaining: number;
+}
+
+export interface StatementTransaction {
+  date: string;
+  type: "opening" | "invoice" | "payment" | "credit_note" | "refund";
+  reference: string;
+  description: string;
+  debit: number;
+  credit: number;
+  balance: number;
+  status: string;
+  dueDate?: string;
+}
+
+interface CustomerLedger {
+  payments: CustomerPayment[];
+  creditNotes: CreditNote[];
+  applications: CustomerCreditApplication[];
+  refunds: CustomerRefund[];
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function todayKey(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+function paymentReference(method: string, reference: string | null | undefined, paymentId?: number): string {
+  const label = METHOD_LABELS[method as CustomerPaymentMethod] ?? "Payment";
+  if (reference) return `${label} ${reference}`;
+  return paymentId ? `${label} #${paymentId}` : label;
+}
+
+// Ties a realized FX entry to the payment application that settled the invoice
+function applicationSettlementRef(applicationId: number): string {
+  return `customer_application:${applicationId}`;
+}
+
+function validateAllocations(allocations: AllocationInput[]): void {
+  const problem = allocationProblem(allocations);
+  if (problem) throw new CustomerPaymentError(problem.message, problem.status);
+}
+
+export class CustomerPaymentService {
+  /**
+   * Open invoices for a customer (or all customers), oldest due first, with
+   * their remaining balance
+   */
+  async listOpenInvoices(clientId: number, customerId?: number) {
+    const invoices = (await storage.getInvoices(clientId)).filter(
+      (invoice: any) => (!customerId || invoice.customerId === customerId) && isOpenInvoice(invoice)
+    );
+
+    return invoices
+      .map((invoice: any) => ({
+        id: invoice.id as number,
+        invoiceNumber: invoice.invoiceNumber as string,
+        customerId: invoice.customerId as number,
+        issueDate: toDateKey(invoice.issueDate),
+        dueDate: toDateKey(invoice.dueDate),
+        amountDue: roundAmount(parseFloat(invoice.amountDue || "0")),
+        amountPaid: roundAmount(parseFloat(invoice.amountPaid || "0")),
+        balance: invoiceBalance(invoice),
+        status: invoice.status as string,
+      }))
+      .sort((a: any, b: any) => (a.dueDate || a.issueDate || "").localeCompare(b.dueDate || b.issueDate || ""));
+  }
+
+  /**
+   * Payments received, newest first, with the invoices each one paid
+   */
+  async listPayments(clientId: number, customerId?: number) {
+    const ledger = await this.loadLedger(clientId, customerId);
+    const invoiceNumbers = await this.getInvoiceNumbers(clientId);
+    const customers = await this.getCustomers(ledger.payments.map((payment) => payment.customerId));
+    const credits = new Map(this.availableCredits(ledger).map((credit) => [`${credit.source}:${credit.sourceId}`, credit]));
+
+    return ledger.payments
+      .sort((a, b) => b.paymentDate.localeCompare(a.paymentDate) || b.id - a.id)
+      .map((payment) => ({
+        ...payment,
+        customerName: customers.get(payment.customerId) ?? `Customer ${payment.customerId}`,
+        applications: this.applicationsFor(ledger, "payment", payment.id, invoiceNumbers),
+        unapplied: credits.get(`payment:${payment.id}`)?.remaining ?? 0,
+      }));
+  }
+
+  /**
+   * Credit notes issued, newest first, with where each one was applied
+   */
+  async listCreditNotes(clientId: number, customerId?: number) {
+    const ledger = await this.loadLedger(clientId, customerId);
+    const invoiceNumbers = await this.getInvoiceNumbers(clientId);
+    const customers = await this.getCustomers(ledger.creditNotes.map((note) => note.customerId));
+    const credits = new Map(this.availableCredits(ledger).map((credit) => [`${credit.source}:${credit.sourceId}`, credit]));
+
+    return ledger.creditNotes
+      .sort((a, b) => b.issueDate.localeCompare(a.issueDate) || b.id - a.id)
+      .map((note) => ({
+        ...note,
+        customerName: customers.get(note.customerId) ?? `Customer ${note.customerId}`,
+        invoiceNumber: note.invoiceId ? invoiceNumbers.get(note.invoiceId) ?? null : null,
+        applications: this.applicationsFor(ledger, "credit_note", note.id, invoiceNumbers),
+        unapplied: credits.get(`credit_note:${note.id}`)?.remaining ?? 0,
+      }));
+  }
+
+  /**
+   * Payments and credit notes with credit left to apply or refund
+   */
+  async listAvailableCredits(clientId: number, customerId?: number, asOfDate?: string): Promise<AvailableCredit[]> {
+    const ledger = await this.loadLedger(clientId, customerId);
+    const credits = this.availableCredits(ledger, asOfDate).filter((credit) => credit.remaining > 0);
+    const customers = await this.getCustomers(credits.map((credit) => credit.customerId));
+    return credits.map((credit) => ({
+      ...credit,
+      customerName: customers.get(credit.customerId) ?? `Customer ${credit.customerId}`,
+    }));
+  }
+
+  /**
+   * Unapplied credit per customer as of a date, for the AR reports
+   */
+  async unappliedCreditsByCustomer(clientId: number, asOfDate?: string): Promise<Map<number, number>> {
+    const ledger = await this.loadLedger(clientId);
+    const totals = new Map<number, number>();
+    for (const credit of this.availableCredits(ledger, asOfDate)) {
+      if (credit.remaining <= 0) continue;
+      totals.set(credit.customerId, roundAmount((totals.get(credit.customerId) ?? 0) + credit.remaining));
+    }
+    return totals;
+  }
+
+  /**
+   * Amount paid on each invoice as of a date, on the same basis as
+   * unappliedCreditsByCustomer: applications dated on or before it, plus any
+   * amount paid directly on the invoice (dated as on the statement)
+   */
+  async invoicePaymentsAsOf(clientId: number, asOfDate: string): Promise<Map<number, number>> {
+    const [invoices, ledger] = await Promise.all([storage.getInvoices(clientId), this.loadLedger(clientId)]);
+    const paid = new Map<number, number>();
+    for (const invoice of invoices) {
+      const applications = ledger.applications.filter((application) => application.invoiceId === invoice.id);
+      const allocated = applications.reduce((sum, application) => sum + parseFloat(application.amount), 0);
+      const appliedByDate = applications
+        .filter((application) => application.appliedDate <= asOfDate)
+        .reduce((sum, application) => sum + parseFloat(application.amount), 0);
+      const directlyPaid = roundAmount(parseFloat(invoice.amountPaid || "0") - allocated);
+      const directDate = toDateKey(invoice.updatedAt) ?? toDateKey(invoice.issueDate);
+      const directByDate = directlyPaid > 0 && directDate && directDate <= asOfDate ? directlyPaid : 0;
+      paid.set(invoice.id, roundAmount(appliedByDate + directByDate));
+    }
+    return paid;
+  }
+
+  /**
+   * Record one payment from a customer and allocate it across their open
+   * invoices. Posts Dr deposit account / Cr AR for the full amount in home
+   * currency; any amount left unallocated is the customer's unapplied credit.
+   */
+  async receivePayment(clientId: number, input: ReceivePaymentInput, user?: any) {
+    if (input.amount <= 0) {
+      throw new CustomerPaymentError("Payment amount must be greater than zero");
+    }
+    validateAllocations(input.allocations);
+
+    const allocated = roundAmount(input.allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+    if (allocated > roundAmount(input.amount)) {
+      throw new CustomerPaymentError(
+        `Allocations (${formatMoney(allocated)}) exceed the payment amount (${formatMoney(input.amount)})`
+      );
+    }
+
+    await periodLockService.assertPeriodOpen(clientId, [input.paymentDate], user);
+    const invoices = await this.checkAllocations(clientId, input.customerId, input.allocations);
+    await currencyService.assertCanSettle(clientId, "invoice", input.allocations.map((allocation) => allocation.invoiceId));
+    const arAccountId = input.arAccountId ?? (await this.findArAccountId(clientId));
+    const amount = roundAmount(input.amount);
+
+    const currency = await currencyService.bookingCurrency(clientId, input.depositAccountId, input.currency);
+    await this.assertInvoiceCurrency(clientId, currency, invoices);
+    const fx = await currencyService.toHomeCurrency({
+      clientId,
+      firmId: user?.firmId,
+      currency,
+      amount,
+      date: input.paymentDate,
+      exchangeRate: input.exchangeRate,
+    });
+    const homeAmount = fx?.homeAmount ?? amount;
+
+    const reference = paymentReference(input.method, input.reference);
+
+    return db.transaction(async (tx) => {
+      const journalEntry = await this.postEntry(tx, clientId, input.paymentDate, `Customer payment - ${reference}`, [
+        { accountId: input.depositAccountId, debit: homeAmount, credit: 0, memo: this.foreignMemo(reference, fx) },
+        { accountId: arAccountId, debit: 0, credit: homeAmount, memo: this.allocationMemo(input.allocations, invoices) },
+      ]);
+
+      const [created] = await tx
+        .insert(customerPayments)
+        .values({
+          clientId,
+          firmId: user?.firmId ?? null,
+          customerId: input.customerId,
+          paymentDate: input.paymentDate,
+          amount: amount.toFixed(2),
+          currency: fx?.currency ?? null,
+          exchangeRate: fx ? fx.exchangeRate.toString() : null,
+          homeAmount: homeAmount.toFixed(2),
+          method: input.method,
+          reference: input.reference || null,
+          depositAccountId: input.depositAccountId,
+          arAccountId,
+          memo: input.memo || null,
+          journalEntryId: journalEntry.id,
+          createdBy: user?.id ?? null,
+        })
+        .returning();
+
+      await this.applyToInvoices(tx, clientId, input.customerId, "payment", created.id, input.allocations, invoices, input.paymentDate, user);
+
+      return { ...created, unapplied: roundAmount(amount - allocated) };
+    });
+  }
+
+  /**
+   * Issue a credit note to a customer: Dr each line's account (and sales
+   * tax) / Cr AR. When it credits an invoice it can be applied to it at once.
+   */
+  async createCreditNote(clientId: number, input: CreditNoteInput, user?: any) {
+    if (input.lines.length === 0) {
+      throw new CustomerPaymentError("A credit note needs at least one line");
+    }
+    if (input.lines.some((line) => line.amount <= 0)) {
+      throw new CustomerPaymentError("Credit note line amounts must be greater than zero");
+    }
+
+    const subtotal = roundAmount(input.lines.reduce((sum, line) => sum + line.amount, 0));
+    const taxAmount = roundAmount(input.taxAmount ?? 0);
+    const total = roundAmount(subtotal + taxAmount);
+    if (taxAmount > 0 && !input.taxAccountId) {
+      throw new CustomerPaymentError("Select the sales tax account the credit note reverses");
+    }
+
+    await periodLockService.assertPeriodOpen(clientId, [input.issueDate], user);
+
+    let creditedInvoice: any = null;
+    if (input.invoiceId) {
+      creditedInvoice = (await storage.getInvoices(clientId)).find((invoice: any) => invoice.id === input.invoiceId);
+      if (!creditedInvoice || creditedInvoice.customerId !== input.customerId) {
+        throw new CustomerPaymentError("Invoice not found for this customer", 404);
+      }
+    }
+
+    const arAccountId = input.arAccountId ?? (await this.findArAccountId(clientId));
+    const existing = await db
+      .select({ creditNoteNumber: creditNotes.creditNoteNumber })
+      .from(creditNotes)
+      .where(eq(creditNotes.clientId, clientId));
+    const creditNoteNumber = existing.length
+      ? nextInvoiceNumber(existing.map((note) => note.creditNoteNumber))
+      : "CN-0001";
+
+    const lines = [
+      ...input.lines.map((line) => ({ accountId: line.accountId, debit: roundAmount(line.amount), credit: 0, memo: line.description })),
+      ...(taxAmount > 0
+        ? [{ accountId: input.taxAccountId!, debit: taxAmount, credit: 0, memo: `Sales tax - credit note ${creditNoteNumber}` }]
+        : []),
+      {
+        accountId: arAccountId,
+        debit: 0,
+        credit: total,
+        memo: creditedInvoice ? `Credit note ${creditNoteNumber} for invoice ${creditedInvoice.invoiceNumber}` : `Credit note ${creditNoteNumber}`,
+      },
+    ];
+    return db.transaction(async (tx) => {
+      const journalEntry = await this.postEntry(tx, clientId, input.issueDate, `Credit note ${creditNoteNumber}`, lines);
+
+      const [created] = await tx
+        .insert(creditNotes)
+        .values({
+          clientId,
+          firmId: user?.firmId ?? null,
+          customerId: input.customerId,
+          creditNoteNumber,
+          issueDate: input.issueDate,
+          invoiceId: input.invoiceId ?? null,
+          reason: input.reason || null,
+          lines: input.lines,
+          subtotal: subtotal.toFixed(2),
+          taxAmount: taxAmount.toFixed(2),
+          total: total.toFixed(2),
+          taxAccountId: input.taxAccountId ?? null,
+          arAccountId,
+          journalEntryId: journalEntry.id,
+          createdBy: user?.id ?? null,
+        })
+        .returning();
+
+      if (creditedInvoice && input.applyToInvoice && isOpenInvoice(creditedInvoice)) {
+        const amount = Math.min(total, invoiceBalance(creditedInvoice));
+        const allocations = [{ invoiceId: creditedInvoice.id, amount }];
+        await this.applyToInvoices(
+          tx,
+          clientId,
+          input.customerId,
+          "credit_note",
+          created.id,
+          allocations,
+          new Map([[creditedInvoice.id, creditedInvoice]]),
+          input.issueDate,
+          user
+        );
+      }
+
+      return created;
+    });
+  }
+
+  /**
+   * Apply a payment's or credit note's unapplied credit to open invoices
+   */
+  async applyCredit(clientId: number, input: ApplyCreditInput, user?: any) {
+    if (input.allocations.length === 0) {
+      throw new CustomerPaymentError("Select at least one invoice to apply the credit to");
+    }
+    validateAllocations(input.allocations);
+    const credit = await this.findCredit(clientId, input.source, input.sourceId);
+
+    const allocated = roundAmount(input.allocations.reduce((sum, allocation) => sum + allocation.amount, 0));
+    if (allocated > credit.remaining) {
+      throw new CustomerPaymentError(
+        `Only ${formatMoney(credit.remaining)} of ${credit.reference} is left to apply`
+      );
+    }
+
+    const appliedDate = input.appliedDate ?? todayKey();
+    if (appliedDate < credit.date) {
+      throw new CustomerPaymentError(`Credit cannot be applied before ${credit.date}`);
+    }
+    await periodLockService.assertPeriodOpen(clientId, [appliedDate], user);
+
+    const invoices = await this.checkAllocations(clientId, credit.customerId, input.allocations);
+    if (input.source === "payment") {
+      const payment = await this.getPayment(db, clientId, input.sourceId);
+      await this.assertInvoiceCurrency(clientId, payment.currency, invoices);
+      await currencyService.assertCanSettle(clientId, "invoice", input.allocations.map((allocation) => allocation.invoiceId));
+    }
+    await db.transaction((tx) =>
+      this.applyToInvoices(tx, clientId, credit.customerId, input.source, input.sourceId, input.allocations, invoices, appliedDate, user)
+    );
+
+    return { ...credit, applied: roundAmount(credit.applied + allocated), remaining: roundAmount(credit.remaining - allocated) };
+  }
+
+  /**
+   * Take an application back off its invoice, returning the amount to the
+   * payment's or credit note's unapplied credit
+   */
+  async removeApplication(clientId: number, applicationId: number, user?: any) {
+    const [application] = await db
+      .select()
+      .from(customerCreditApplications)
+      .where(and(eq(customerCreditApplications.id, applicationId), eq(customerCreditApplications.clientId, clientId)));
+    if (!application) {
+      throw new CustomerPaymentError("Application not found", 404);
+    }
+
+    await db.transaction((tx) => this.unapply(tx, [application], user));
+    return { success: true };
+  }
+
+  /**
+   * Refund unapplied credit to the customer: Dr AR / Cr bank. Credit from a
+   * foreign-currency payment comes off AR at the rate the payment was booked.
+   */
+  async refundCredit(clientId: number, input: RefundInput, user?: any) {
+    const credit = await this.findCredit(clientId, input.source, input.sourceId);
+    const amount = roundAmount(input.amount);
+    if (amount <= 0) {
+      throw new CustomerPaymentError("Refund amount must be greater than zero");
+    }
+    if (amount > credit.remaining) {
+      throw new CustomerPaymentError(`Only ${formatMoney(credit.remaining)} of ${credit.reference} is left to refund`);
+    }
+    if (input.refundDate < credit.date) {
+      throw new CustomerPaymentError(`Refund cannot be dated before ${credit.date}`);
+    }
+
+    await periodLockService.assertPeriodOpen(clientId, [input.refundDate], user);
+    const arAccountId = await this.sourceArAccountId(clientId, input.source, input.sourceId);
+    const payment = input.source === "payment" ? await this.getPayment(db, clientId, input.sourceId) : null;
+    const homeAmount = payment?.exchangeRate ? roundAmount(amount * parseFloat(payment.exchangeRate)) : amount;
+    const label = `Refund of ${credit.reference}${input.reference ? ` (${input.reference})` : ""}`;
+
+    return db.transaction(async (tx) => {
+      const journalEntry = await this.postEntry(tx, clientId, input.refundDate, `Customer refund - ${label}`, [
+        { accountId: arAccountId, debit: homeAmount, credit: 0, memo: label },
+        { accountId: input.bankAccountId, debit: 0, credit: homeAmount, memo: label },
+      ]);
+
+      const [refund] = await tx
+        .insert(customerRefunds)
+        .values({
+          clientId,
+          customerId: credit.customerId,
+          paymentId: input.source === "payment" ? input.sourceId : null,
+          creditNoteId: input.source === "credit_note" ? input.sourceId : null,
+          amount: amount.toFixed(2),
+          refundDate: input.refundDate,
+          bankAccountId: input.bankAccountId,
+          method: input.method,
+          reference: input.reference || null,
+          journalEntryId: journalEntry.id,
+          createdBy: user?.id ?? null,
+        })
+        .returning();
+
+      return refund;
+    });
+  }
+
+  /**
+   * Void a payment: reverse its entry on the payment date and take its
+   * applications back off the invoices. Refunded payments cannot be voided.
+   */
+  async voidPayment(clientId: number, paymentId: number, user?: any) {
+    const [payment] = await db
+      .select()
+      .from(customerPayments)
+      .where(and(eq(customerPayments.id, paymentId), eq(customerPayments.clientId, clientId)));
+    if (!payment) {
+      throw new CustomerPaymentError("Payment not found", 404);
+    }
+    if (payment.status === "voided") {
+      throw new CustomerPaymentError("Payment is already voided");
+    }
+
+    const refunds = await db.select().from(customerRefunds).where(eq(customerRefunds.paymentId, paymentId));
+    if (refunds.length > 0) {
+      throw new CustomerPaymentError("Part of this payment was refunded, so it cannot be voided");
+    }
+
+    await periodLockService.assertPeriodOpen(clientId, [payment.paymentDate], user);
+
+    const homeAmount = parseFloat(payment.homeAmount ?? payment.amount);
+    const reference = paymentReference(payment.method, payment.reference, payment.id);
+
+    return db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(customerPayments)
+        .set({ status: "voided", voidedAt: new Date() })
+        .where(and(eq(customerPayments.id, paymentId), eq(customerPayments.status, "posted")))
+        .returning({ id: customerPayments.id });
+      if (!claimed) {
+        throw new CustomerPaymentError("Payment is already voided", 409);
+      }
+
+      const reversal = await this.postEntry(tx, clientId, payment.paymentDate, `Void customer payment - ${reference}`, [
+        { accountId: payment.arAccountId, debit: homeAmount, credit: 0, memo: `Void ${reference}` },
+        { accountId: payment.depositAccountId, debit: 0, credit: homeAmount, memo: `Void ${reference}` },
+      ]);
+
+      const applications = await tx
+        .select()
+        .from(customerCreditApplications)
+        .where(eq(customerCreditApplications.paymentId, paymentId));
+      await this.unapply(tx, applications, user);
+
+      const [voided] = await tx
+        .update(customerPayments)
+        .set({ voidJournalEntryId: reversal.id })
+        .where(eq(customerPayments.id, paymentId))
+        .returning();
+      return voided;
+    });
+  }
+
+  /**
+   * Void a credit note: reverse its entry on the issue date and take its
+   * applications back off the invoices. Refunded credit notes cannot be voided.
+   */
+  async voidCreditNote(clientId: number, creditNoteId: number, user?: any) {
+    const [note] = await db
+      .select()
+      .from(creditNotes)
+      .where(and(eq(creditNotes.id, creditNoteId), eq(creditNotes.clientId, clientId)));
+    if (!note) {
+      throw new CustomerPaymentError("Credit note not found", 404);
+    }
+    if (note.status === "voided") {
+      throw new CustomerPaymentError("Credit note is already voided");
+    }
+
+    const refunds = await db.select().from(customerRefunds).where(eq(customerRefunds.creditNoteId, creditNoteId));
+    if (refunds.length > 0) {
+      throw new CustomerPaymentError("Part of this credit note was refunded, so it cannot be voided");
+    }
+
+    await periodLockService.assertPeriodOpen(clientId, [note.issueDate], user);
+
+    const lines = (note.lines as CreditNoteLineInput[]).map((line) => ({
+      accountId: line.accountId,
+      debit: 0,
+      credit: roundAmount(line.amount),
+      memo: `Void credit note ${note.creditNoteNumber}`,
+    }));
+    const taxAmount = parseFloat(note.taxAmount);
+    if (taxAmount > 0 && note.taxAccountId) {
+      lines.push({ accountId: note.taxAccountId, debit: 0, credit: taxAmount, memo: `Void credit note ${note.creditNoteNumber}` });
+    }
+    lines.push({ accountId: note.arAccountId, debit: parseFloat(note.total), credit: 0, memo: `Void credit note ${note.creditNoteNumber}` });
+
+    return db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(creditNotes)
+        .set({ status: "voided", voidedAt: new Date() })
+        .where(and(eq(creditNotes.id, creditNoteId), eq(creditNotes.status, "issued")))
+        .returning({ id: creditNotes.id });
+      if (!claimed) {
+        throw new CustomerPaymentError("Credit note is already voided", 409);
+      }
+
+      const reversal = await this.postEntry(tx, clientId, note.issueDate, `Void credit note ${note.creditNoteNumber}`, lines);
+
+      const applications = await tx
+        .select()
+        .from(customerCreditApplications)
+        .where(eq(customerCreditApplications.creditNoteId, creditNoteId));
+      await this.unapply(tx, applications, user);
+
+      const [voided] = await tx
+        .update(creditNotes)
+        .set({ voidJournalEntryId: reversal.id })
+        .where(eq(creditNotes.id, creditNoteId))
+        .returning();
+      return voided;
+    });
+  }
+
+  /**
+   * Statement of account: invoices, payments (with what each paid), credit
+   * notes and refunds in date order with a running balance. Payments recorded
+   * directly on an invoice before allocations existed appear as one line per
+   * invoice so the balance still ties to the invoices.
+   */
+  async getStatement(clientId: number, customerId: number, range: { startDate?: string; endDate?: string } = {}) {
+    const customer = await storage.getCustomer(customerId);
+    if (!customer) {
+      throw new CustomerPaymentError("Customer not found", 404);
+    }
+
+    const invoices = (await storage.getInvoices(clientId)).filter(
+      (invoice: any) => invoice.customerId === customerId && !CLOSED_INVOICE_STATUSES.includes(invoice.status)
+    );
+    const invoiceNumbers = new Map<number, string>(invoices.map((invoice: any) => [invoice.id, invoice.invoiceNumber]));
+    const ledger = await this.loadLedger(clientId, customerId);
+    const credits = this.availableCredits(ledger);
+
+    const entries: Omit<StatementTransaction, "balance">[] = [];
+
+    for (const invoice of invoices) {
+      const issueDate = toDateKey(invoice.issueDate)!;
+      const dueDate = toDateKey(invoice.dueDate) ?? undefined;
+      entries.push({
+        date: issueDate,
+        type: "invoice",
+        reference: invoice.invoiceNumber,
+        description: dueDate ? `Invoice - due ${dueDate}` : "Invoice",
+        debit: roundAmount(parseFloat(invoice.amountDue || "0")),
+        credit: 0,
+        status: invoice.status,
+        dueDate,
+      });
+
+      const allocated = ledger.applications
+        .filter((application) => application.invoiceId === invoice.id)
+        .reduce((sum, application) => sum + parseFloat(application.amount), 0);
+      const directlyPaid = roundAmount(parseFloat(invoice.amountPaid || "0") - allocated);
+      if (directlyPaid > 0) {
+        entries.push({
+          date: toDateKey(invoice.updatedAt) ?? issueDate,
+          type: "payment",
+          reference: invoice.invoiceNumber,
+          description: `Payment received on invoice ${invoice.invoiceNumber}`,
+          debit: 0,
+          credit: directlyPaid,
+          status: "posted",
+        });
+      }
+    }
+
+    for (const payment of ledger.payments) {
+      const applied = this.applicationsFor(ledger, "payment", payment.id, invoiceNumbers);
+      const remaining = credits.find((credit) => credit.source === "payment" && credit.sourceId === payment.id)?.remaining ?? 0;
+      const parts = applied.map((application) => `${application.invoiceNumber} ${formatMoney(application.amount)}`);
+      if (remaining > 0) parts.push(`${formatMoney(remaining)} unapplied credit`);
+      entries.push({
+        date: payment.paymentDate,
+        type: "payment",
+        reference: paymentReference(payment.method, payment.reference, payment.id),
+        description: parts.length ? `Payment - ${parts.join(", ")}` : "Payment",
+        debit: 0,
+        credit: roundAmount(parseFloat(payment.amount)),
+        status: payment.status,
+      });
+    }
+
+    for (const note of ledger.creditNotes) {
+      const applied = this.applicationsFor(ledger, "credit_note", note.id, invoiceNumbers);
+      const parts = applied.map((application) => `${application.invoiceNumber} ${formatMoney(application.amount)}`);
+      entries.push({
+        date: note.issueDate,
+        type: "credit_note",
+        reference: note.creditNoteNumber,
+        description: `Credit note${note.reason ? ` - ${note.reason}` : ""}${parts.length ? ` (applied to ${parts.join(", ")})` : ""}`,
+        debit: 0,
+        credit: roundAmount(parseFloat(note.total)),
+        status: note.status,
+      });
+    }
+
+    for (const refund of ledger.refunds) {
+      entries.push({
+        date: refund.refundDate,
+        type: "refund",
+        reference: refund.reference || `Refund #${refund.id}`,
+        description: "Refund of credit",
+        debit: roundAmount(parseFloat(refund.amount)),
+        credit: 0,
+        status: "posted",
+      });
+    }
+
+    // Charges before credits on the same day
+    entries.sort((a, b) => a.date.localeCompare(b.date) || b.debit - a.debit);
+
+    const opening = roundAmount(
+      entries
+        .filter((entry) => range.startDate && entry.date < range.startDate)
+        .reduce((sum, entry) => sum + entry.debit - entry.credit, 0)
+    );
+    const transactions: StatementTransaction[] = [];
+    if (range.startDate && entries.some((entry) => entry.date < range.startDate!)) {
+      transactions.push({
+        date: range.startDate,
+        type: "opening",
+        reference: "",
+        description: "Balance forward",
+        debit: 0,
+        credit: 0,
+        balance: opening,
+        status: "",
+      });
+    }
+
+    let balance = opening;
+    for (const entry of entries) {
+      if (range.startDate && entry.date < range.startDate) continue;
+      if (range.endDate && entry.date > range.endDate) continue;
+      balance = roundAmount(balance + entry.debit - entry.credit);
+      transactions.push({ ...entry, balance });
+    }
+
+    const periodEntries = transactions.filter((transaction) => transaction.type !== "opening");
+    const openInvoices = invoices
+      .filter((invoice: any) => isOpenInvoice(invoice))
+      .map((invoice: any) => ({
+        id: invoice.id as number,
+        invoiceNumber: invoice.invoiceNumber as string,
+        dueDate: toDateKey(invoice.dueDate),
+        amountDue: roundAmount(parseFloat(invoice.amountDue || "0")),
+        amountPaid: roundAmount(parseFloat(invoice.amountPaid || "0")),
+        balance: invoiceBalance(invoice),
+      }));
+
+    return {
+      customer: { ...customer, name: customer.companyName || customer.name },
+      dateRange: { startDate: range.startDate ?? null, endDate: range.endDate ?? null },
+      transactions,
+      openInvoices,
+      summary: {
+        openingBalance: opening,
+        totalDebits: roundAmount(periodEntries.reduce((sum, transaction) => sum + transaction.debit, 0)),
+        totalCredits: roundAmount(periodEntries.reduce((sum, transaction) => sum + transaction.credit, 0)),
+        currentBalance: balance,
+        unappliedCredit: roundAmount(credits.reduce((sum, credit) => sum + Math.max(credit.remaining, 0), 0)),
+        transactionCount: periodEntries.length,
+      },
+    };
+  }
+
+  /**
+   * Posted payments, issued credit notes, their applications and refunds
+   */
+  private async loadLedger(clientId: number, customerId?: number): Promise<CustomerLedger> {
+    const [payments, notes, applications, refunds] = await Promise.all([
+      db
+        .select()
+        .from(customerPayments)
+        .where(
+          and(
+            eq(customerPayments.clientId, clientId),
+            eq(customerPayments.status, "posted"),
+            customerId ? eq(customerPayments.customerId, customerId) : undefined
+          )
+        )
+        .orderBy(asc(customerPayments.paymentDate), asc(customerPayments.id)),
+      db
+        .select()
+        .from(creditNotes)
+        .where(
+          and(
+            eq(creditNotes.clientId, clientId),
+            eq(creditNotes.status, "issued"),
+            customerId ? eq(creditNotes.customerId, customerId) : undefined
+          )
+        )
+        .orderBy(asc(creditNotes.issueDate), asc(creditNotes.id)),
+      db
+        .select()
+        .from(customerCreditApplications)
+        .where(
+          and(
+            eq(customerCreditApplications.clientId, clientId),
+            customerId ? eq(customerCreditApplications.customerId, customerId) : undefined
+          )
+        )
+        .orderBy(asc(customerCreditApplications.appliedDate), asc(customerCreditApplications.id)),
+      db
+        .select()
+        .from(customerRefunds)
+        .where(
+          and(
+            eq(customerRefunds.clientId, clientId),
+            customerId ? eq(customerRefunds.customerId, customerId) : undefined
+          )
+        )
+        .orderBy(desc(customerRefunds.refundDate)),
+    ]);
+
+    return { payments, creditNotes: notes, applications, refunds };
+  }
+
+  /**
+   * Credit left on each payment and credit note, optionally as of a date
+   */
+  private availableCredits(ledger: CustomerLedger, asOfDate?: string): AvailableCredit[] {
+    const inRange = (date: string) => !asOfDate || date <= asOfDate;
+    const usedBy = (source: CreditSource, sourceId: number) => {
+      const key = source === "payment" ? "paymentId" : "creditNoteId";
+      const applied = ledger.applications
+        .filter((application) => application[key] === sourceId && inRange(application.appliedDate))
+        .reduce((sum, application) => sum + parseFloat(application.amount), 0);
+      const refunded = ledger.refunds
+        .filter((refund) => refund[key] === sourceId && inRange(refund.refundDate))
+        .reduce((sum, refund) => sum + parseFloat(refund.amount), 0);
+      return { applied: roundAmount(applied), refunded: roundAmount(refunded) };
+    };
+
+    const credits: AvailableCredit[] = [];
+    for (const payment of ledger.payments) {
+      if (!inRange(payment.paymentDate)) continue;
+      const total = roundAmount(parseFloat(payment.amount));
+      const { applied, refunded } = usedBy("payment", payment.id);
+      credits.push({
+        source: "payment",
+        sourceId: payment.id,
+        customerId: payment.customerId,
+        date: payment.paymentDate,
+        reference: paymentReference(payment.method, payment.reference, payment.id),
+        total,
+        applied,
+        refunded,
+        remaining: roundAmount(total - applied - refunded),
+      });
+    }
+    for (const note of ledger.creditNotes) {
+      if (!inRange(note.issueDate)) continue;
+      const total = roundAmount(parseFloat(note.total));
+      const { applied, refunded } = usedBy("credit_note", note.id);
+      credits.push({
+        source: "credit_note",
+        sourceId: note.id,
+        customerId: note.customerId,
+        date: note.issueDate,
+        reference: `Credit note ${note.creditNoteNumber}`,
+        total,
+        applied,
+        refunded,
+        remaining: roundAmount(total - applied - refunded),
+      });
+    }
+    return credits;
+  }
+
+  private applicationsFor(ledger: CustomerLedger, source: CreditSource, sourceId: number, invoiceNumbers: Map<number, string>) {
+    const key = source === "payment" ? "paymentId" : "creditNoteId";
+    return ledger.applications
+      .filter((application) => application[key] === sourceId)
+      .map((application) => ({
+        id: application.id,
+        invoiceId: application.invoiceId,
+        invoiceNumber: invoiceNumbers.get(application.invoiceId) ?? `Invoice ${application.invoiceId}`,
+        amount: roundAmount(parseFloat(application.amount)),
+        appliedDate: application.appliedDate,
+      }));
+  }
+
+  private async findCredit(clientId: number, source: CreditSource, sourceId: number): Promise<AvailableCredit> {
+    const ledger = await this.loadLedger(clientId);
+    const credit = this.availableCredits(ledger).find((candidate) => candidate.source === source && candidate.sourceId === sourceId);
+    if (!credit) {
+      throw new CustomerPaymentError(source === "payment" ? "Payment not found" : "Credit note not found", 404);
+    }
+    return credit;
+  }
+
+  private async sourceArAccountId(clientId: number, source: CreditSource, sourceId: number): Promise<number> {
+    if (source === "payment") {
+      const [payment] = await db
+        .select({ arAccountId: customerPayments.arAccountId })
+        .from(customerPayments)
+        .where(and(eq(customerPayments.id, sourceId), eq(customerPayments.clientId, clientId)));
+      return payment.arAccountId;
+    }
+    const [note] = await db
+      .select({ arAccountId: creditNotes.arAccountId })
+      .from(creditNotes)
+      .where(and(eq(creditNotes.id, sourceId), eq(creditNotes.clientId, clientId)));
+    return note.arAccountId;
+  }
+
+  /**
+   * Check every allocated invoice belongs to the customer, is open and has
+   * enough balance left; returns the invoices by id
+   */
+  private async checkAllocations(clientId: number, customerId: number, allocations: AllocationInput[]): Promise<Map<number, any>> {
+    if (allocations.length === 0) return new Map<number, any>();
+
+    const { invoices, problem } = matchAllocations(customerId, allocations, await storage.getInvoices(clientId));
+    if (problem) throw new CustomerPaymentError(problem.message, problem.status);
+    return invoices;
+  }
+
+  /**
+   * Record each allocation against its invoice and add it to the invoice's
+   * amountPaid. A payment settles foreign-currency invoices at its own booked
+   * rate, so only the difference from the invoice rate posts as realized FX.
+   */
+  private async applyToInvoices(
+    tx: DbTransaction,
+    clientId: number,
+    customerId: number,
+    source: CreditSource,
+    sourceId: number,
+    allocations: AllocationInput[],
+    invoices: Map<number, any>,
+    appliedDate: string,
+    user?: any
+  ) {
+    const payment = source === "payment" ? await this.getPayment(tx, clientId, sourceId) : null;
+
+    for (const allocation of allocations) {
+      const amount = roundAmount(allocation.amount);
+      const [application] = await tx
+        .insert(customerCreditApplications)
+        .values({
+          clientId,
+          customerId,
+          invoiceId: allocation.invoiceId,
+          paymentId: source === "payment" ? sourceId : null,
+          creditNoteId: source === "credit_note" ? sourceId : null,
+          amount: amount.toFixed(2),
+          appliedDate,
+          createdBy: user?.id ?? null,
+        })
+        .returning();
+
+      // Cash settling a foreign-currency invoice realizes the rate difference
+      if (payment) {
+        await currencyService.settleDocuments({
+          clientId,
+          documentType: "invoice",
+          settlements: [{ documentId: allocation.invoiceId, amount }],
+          settlementDate: appliedDate,
+          settlementRate: payment.exchangeRate ? parseFloat(payment.exchangeRate) : null,
+          settlementRef: applicationSettlementRef(application.id),
+          controlAccountId: payment.arAccountId,
+          user,
+          tx,
+        });
+      }
+
+      const invoice = invoices.get(allocation.invoiceId);
+      const { amountPaid, status } = paidAfterApplying(invoice, amount);
+      await tx
+        .update(invoicesTable)
+        .set({
+          amountPaid: amountPaid.toFixed(2),
+          ...(status ? { status } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(invoicesTable.id, invoice.id));
+    }
+  }
+
+  /**
+   * Delete applications and take their amounts back off the invoices,
+   * reversing any realized FX gain or loss they posted
+   */
+  private async unapply(tx: DbTransaction, applications: CustomerCreditApplication[], user?: any) {
+    if (applications.length === 0) return;
+
+    const clientInvoices = await tx
+      .select()
+      .from(invoicesTable)
+      .where(inArray(invoicesTable.id, applications.map((application) => application.invoiceId)));
+    for (const application of applications) {
+      if (application.paymentId) {
+        await currencyService.reverseSettlement(
+          application.clientId,
+          applicationSettlementRef(application.id),
+          application.appliedDate,
+          user,
+          tx
+        );
+      }
+      await tx.delete(customerCreditApplications).where(eq(customerCreditApplications.id, application.id));
+
+      const invoice: any = clientInvoices.find((candidate) => candidate.id === application.invoiceId);
+      if (!invoice) continue;
+      const { amountPaid, status } = paidAfterUnapplying(invoice, parseFloat(application.amount));
+      await tx
+        .update(invoicesTable)
+        .set({
+          amountPaid: amountPaid.toFixed(2),
+          ...(status ? { status } : {}),
+          updatedAt: new Date(),
+        })
+        .where(eq(invoicesTable.id, invoice.id));
+      invoice.amountPaid = amountPaid.toFixed(2);
+      if (status) invoice.status = status;
+    }
+  }
+
+  private async getPayment(executor: DbTransaction | typeof db, clientId: number, paymentId: number): Promise<CustomerPayment> {
+    const [payment] = await executor
+      .select()
+      .from(customerPayments)
+      .where(and(eq(customerPayments.id, paymentId), eq(customerPayments.clientId, clientId)));
+    if (!payment) {
+      throw new CustomerPaymentError("Payment not found", 404);
+    }
+    return payment;
+  }
+
+  /**
+   * A payment can only pay invoices in its own currency (null is home currency)
+   */
+  private async assertInvoiceCurrency(clientId: number, currency: string | null, invoices: Map<number, any>) {
+    const { homeCurrency } = await currencyService.getSettings(clientId);
+    const paymentCurrency = currency ?? homeCurrency;
+    for (const invoice of Array.from(invoices.values())) {
+      const document = await currencyService.getDocumentCurrency("invoice", invoice.id);
+      const invoiceCurrency = document?.currency ?? homeCurrency;
+      if (invoiceCurrency !== paymentCurrency) {
+        throw new CustomerPaymentError(
+          `Invoice ${invoice.invoiceNumber} is in ${invoiceCurrency}; a ${paymentCurrency} payment cannot pay it`
+        );
+      }
+    }
+  }
+
+  private foreignMemo(reference: string, fx: ForeignAmountInfo | null): string {
+    if (!fx) return reference;
+    return `${reference} (${fx.currency} ${formatMoney(fx.foreignAmount)} @ ${fx.exchangeRate})`;
+  }
+
+  private allocationMemo(allocations: AllocationInput[], invoices: Map<number, any>): string {
+    if (allocations.length === 0) return "Unapplied customer payment";
+    return `Payment of ${allocations.map((allocation) => invoices.get(allocation.invoiceId)?.invoiceNumber).join(", ")}`;
+  }
+
+  private async findArAccountId(clientId: number): Promise<number> {
+    const accounts = await storage.getAccounts(clientId);
+    const arAccountId = accounts.find(
+      (account: any) => account.type === "asset" && (account.name || "").toLowerCase().includes("receivable")
+    )?.id;
+    if (!arAccountId) {
+      throw new CustomerPaymentError("No accounts receivable account found");
+    }
+    return arAccountId;
+  }
+
+  private postEntry(
+    tx: DbTransaction,
+    clientId: number,
+    date: string,
+    description: string,
+    lines: Array<{ accountId: number; debit: number; credit: number; memo: string }>
+  ) {
+    return insertPostedJournalEntry(tx, {
+      clientId,
+      entryDate: date,
+      description,
+      lines: lines.map((line) => ({ accountId: line.accountId, debitAmount: line.debit, creditAmount: line.credit, memo: line.memo })),
+    });
+  }
+
+  private async getInvoiceNumbers(clientId: number): Promise<Map<number, string>> {
+    const invoices = await storage.getInvoices(clientId);
+    return new Map(invoices.map((invoice: any) => [invoice.id as number, invoice.invoiceNumber as string]));
+  }
+
+  private async getCustomers(customerIds: number[]): Promise<Map<number, string>> {
+    const customers = new Map<number, string>();
+    for (const customerId of Array.from(new Set(customerIds))) {
+      try {
+        const customer = await storage.getCustomer(customerId);
+        if (customer) customers.set(customerId, customer.companyName || customer.name);
+      } catch (error) {
+        console.error(`Failed to load customer ${customerId}:`, error);
+      }
+    }
+    return customers;
+  }
+}
+
+export const customerPaymentService = new CustomerPaymentService();
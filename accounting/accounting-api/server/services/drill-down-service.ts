@@ -0,0 +1,411 @@
+/**
+ * Drill-Down Service
+ *
+ * Journal-entry lines behind any report balance: given an account, date range
+ * and project / location / class filter, returns each posting with a running
+ * balance and the document it came from, so every report line can be traced
+ * back to its source:
+ * - bank transaction (journal entry sourceTransactionId), with its import
+ * - bill, invoice or cheque posted to the entry
+ * - payroll run or GL import batch (journal entry source type)
+ * - fixed asset depreciation/disposal, recurring journal, FX adjustment
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { fxAdjustments } from "@shared/database/currency-entities";
+import { fixedAssets, fixedAssetDepreciationEntries } from "@shared/database/fixed-asset-entities";
+import { recurringJournalPostings, recurringJournalTemplates } from "@shared/database/recurring-journal-entities";
+import { and, eq, inArray, or } from "drizzle-orm";
+import { toDateKey } from "./period-lock-service";
+import type { DimensionFilter } from "./budget-service";
+
+export class DrillDownError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "DrillDownError";
+    this.status = status;
+  }
+}
+
+export type SourceDocumentType =
+  | "bank_transaction"
+  | "bill"
+  | "invoice"
+  | "cheque"
+  | "payroll_run"
+  | "import_batch"
+  | "fixed_asset"
+  | "recurring_journal"
+  | "fx_adjustment"
+  | "journal_entry";
+
+export interface SourceDocument {
+  type: SourceDocumentType;
+  id: number | string;
+  label: string;
+  url: string;
+  // Import the bank transaction arrived through, when known
+  importedFrom?: string | null;
+}
+
+export interface DrillDownQuery extends DimensionFilter {
+  accountId: number;
+  startDate?: string | null;
+  endDate: string;
+}
+
+export interface DrillDownLine {
+  lineId: number;
+  journalEntryId: number;
+  entryNumber: string | null;
+  entryDate: string;
+  description: string;
+  memo: string | null;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  runningBalance: number;
+  projectId: number | null;
+  locationId: number | null;
+  classId: number | null;
+  source: SourceDocument;
+}
+
+const DEBIT_NORMAL_TYPES = ["asset", "expense", "cost_of_sales", "other_expense"];
+const PROFIT_LOSS_TYPES = ["income", "other_income", "cost_of_sales", "expense", "other_expense"];
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function matchesDimensions(line: DimensionFilter, filter: DimensionFilter): boolean {
+  if (filter.projectId && line.projectId !== filter.projectId) return false;
+  if (filter.locationId && line.locationId !== filter.locationId) return false;
+  if (filter.classId && line.classId !== filter.classId) return false;
+  return true;
+}
+
+function booksUrl(tab: string, clientId: number, params: Record<string, string | number> = {}): string {
+  const query = new URLSearchParams({ tab, clientId: String(clientId) });
+  for (const [key, value] of Object.entries(params)) {
+    query.set(key, String(value));
+  }
+  return `/books?${query.toString()}`;
+}
+
+export class DrillDownService {
+  /**
+   * Journal-entry lines behind an account balance, oldest first with a running
+   * balance in the account's normal sign. Balance sheet accounts open with the
+   * balance at startDate; P&L accounts open at zero.
+   */
+  async getAccountLines(clientId: number, query: DrillDownQuery) {
+    const { accountId, startDate, endDate } = query;
+    if (startDate && startDate > endDate) {
+      throw new DrillDownError("startDate must be on or before endDate");
+    }
+
+    const accounts = await storage.getAccounts(clientId);
+    const account = accounts.find((entry: any) => entry.id === accountId);
+    if (!account) {
+      throw new DrillDownError("Account not found", 404);
+    }
+
+    const isProfitLoss = PROFIT_LOSS_TYPES.includes(account.type);
+    const sign = DEBIT_NORMAL_TYPES.includes(account.type) ? 1 : -1;
+    const dimensions: DimensionFilter = {
+      projectId: query.projectId ?? null,
+      locationId: query.locationId ?? null,
+      classId: query.classId ?? null,
+    };
+
+    // P&L accounts only need the period; balance sheet accounts need history for the opening balance
+    const fetchStart = isProfitLoss && startDate ? startDate : "1900-01-01";
+    const entries = await storage.getJournalEntries(clientId, 1000000, 0, fetchStart, endDate);
+    const entriesById = new Map<number, any>();
+    for (const entry of entries) {
+      const dateKey = toDateKey(entry.entryDate);
+      if (dateKey && dateKey <= endDate) entriesById.set(entry.id, { ...entry, dateKey });
+    }
+    const journalLines = entriesById.size
+      ? await storage.getJournalEntryLinesBatch(Array.from(entriesById.keys()))
+      : [];
+
+    let openingBalance = 0;
+    const periodLines: Array<{ line: any; entry: any; amount: number }> = [];
+    for (const line of journalLines) {
+      if (line.accountId !== accountId || !matchesDimensions(line, dimensions)) continue;
+      const entry = entriesById.get(line.journalEntryId);
+      if (!entry) continue;
+
+      const amount = parseFloat(line.debitAmount || "0") - parseFloat(line.creditAmount || "0");
+      if (startDate && entry.dateKey < startDate) {
+        if (!isProfitLoss) openingBalance += amount * sign;
+        continue;
+      }
+      periodLines.push({ line, entry, amount });
+    }
+
+    periodLines.sort(
+      (a, b) => a.entry.dateKey.localeCompare(b.entry.dateKey) || a.entry.id - b.entry.id || a.line.id - b.line.id
+    );
+
+    const sources = await this.resolveSources(
+      clientId,
+      Array.from(new Map(periodLines.map(({ entry }) => [entry.id, entry])).values())
+    );
+
+    let runningBalance = openingBalance;
+    let totalDebits = 0;
+    let totalCredits = 0;
+    const lines: DrillDownLine[] = periodLines.map(({ line, entry, amount }) => {
+      const debit = parseFloat(line.debitAmount || "0");
+      const credit = parseFloat(line.creditAmount || "0");
+      totalDebits += debit;
+      totalCredits += credit;
+      runningBalance += amount * sign;
+
+      return {
+        lineId: line.id,
+        journalEntryId: entry.id,
+        entryNumber: entry.entryNumber ?? null,
+        entryDate: entry.dateKey,
+        description: line.description || entry.description || "",
+        memo: line.memo ?? null,
+        reference: entry.reference ?? entry.referenceNumber ?? null,
+        debit: roundAmount(debit),
+        credit: roundAmount(credit),
+        runningBalance: roundAmount(runningBalance),
+        projectId: line.projectId ?? null,
+        locationId: line.locationId ?? null,
+        classId: line.classId ?? null,
+        source: sources.get(entry.id)!,
+      };
+    });
+
+    return {
+      clientId,
+      account: {
+        id: account.id,
+        accountNumber: account.accountNumber ?? null,
+        name: account.name,
+        type: account.type,
+      },
+      period: { startDate: startDate || null, endDate },
+      dimensions,
+      openingBalance: roundAmount(openingBalance),
+      totalDebits: roundAmount(totalDebits),
+      totalCredits: roundAmount(totalCredits),
+      netChange: roundAmount(runningBalance - openingBalance),
+      closingBalance: roundAmount(runningBalance),
+      lines,
+    };
+  }
+
+  /**
+   * Originating document of each journal entry. Entries with no recorded
+   * source link to the journal entry itself.
+   */
+  private async resolveSources(clientId: number, entries: any[]): Promise<Map<number, SourceDocument>> {
+    const sources = new Map<number, SourceDocument>();
+    if (entries.length === 0) return sources;
+    const entryIds = entries.map((entry) => entry.id);
+
+    // Bank transactions categorized into a journal entry
+    const transactionIds = entries
+      .map((entry) => entry.sourceTransactionId)
+      .filter((id): id is number => typeof id === "number");
+    if (transactionIds.length > 0) {
+      const result = await storage.query(
+        `SELECT id, description, transaction_date, reference_number, imported_from
+         FROM transactions WHERE client_id = $1 AND id = ANY($2::int[])`,
+        [clientId, transactionIds]
+      );
+      const transactions = new Map<number, any>(result.rows.map((row: any) => [row.id, row]));
+      for (const entry of entries) {
+        const transaction = transactions.get(entry.sourceTransactionId);
+        if (!transaction) continue;
+        sources.set(entry.id, {
+          type: "bank_transaction",
+          id: transaction.id,
+          label: transaction.description || transaction.reference_number || `Bank transaction ${transaction.id}`,
+          url: booksUrl("bank-transactions", clientId, { transactionId: transaction.id }),
+          importedFrom: transaction.imported_from ?? null,
+        });
+      }
+    }
+
+    // Bills, invoices and cheques posted to the entry
+    const unresolved = () => entryIds.filter((id) => !sources.has(id));
+    if (unresolved().length > 0) {
+      const [bills, invoices, cheques] = await Promise.all([
+        storage.getBills(clientId),
+        storage.getInvoices(clientId),
+        storage.getCheques(clientId),
+      ]);
+      const wanted = new Set(unresolved());
+      const documentEntryIds = (document: any): number[] =>
+        [document.journalEntryId, document.paymentJournalEntryId, document.voidJournalEntryId].filter((id) =>
+          wanted.has(id)
+        );
+
+      for (const bill of bills || []) {
+        for (const id of documentEntryIds(bill)) {
+          if (sources.has(id)) continue;
+          sources.set(id, {
+            type: "bill",
+            id: bill.id,
+            label: `Bill ${bill.billNumber || bill.id}`,
+            url: booksUrl("expense-management", clientId, { billId: bill.id }),
+          });
+        }
+      }
+      for (const invoice of invoices || []) {
+        for (const id of documentEntryIds(invoice)) {
+          if (sources.has(id)) continue;
+          sources.set(id, {
+            type: "invoice",
+            id: invoice.id,
+            label: `Invoice ${invoice.invoiceNumber || invoice.id}`,
+            url: booksUrl("income-management", clientId, { invoiceId: invoice.id }),
+          });
+        }
+      }
+      for (const cheque of cheques || []) {
+        for (const id of documentEntryIds(cheque)) {
+          if (sources.has(id)) continue;
+          sources.set(id, {
+            type: "cheque",
+            id: cheque.id,
+            label: `Cheque #${cheque.chequeNumber || cheque.id}`,
+            url: `/cheques?clientId=${clientId}&chequeId=${cheque.id}`,
+          });
+        }
+      }
+    }
+
+    // Entries posted by the fixed asset register, recurring journals and FX revaluation
+    if (unresolved().length > 0) {
+      const ids = unresolved();
+      const [depreciation, disposals, postings, adjustments] = await Promise.all([
+        db
+          .select({ journalEntryId: fixedAssetDepreciationEntries.journalEntryId, asset: fixedAssets })
+          .from(fixedAssetDepreciationEntries)
+          .innerJoin(fixedAssets, eq(fixedAssetDepreciationEntries.assetId, fixedAssets.id))
+          .where(and(eq(fixedAssetDepreciationEntries.clientId, clientId), inArray(fixedAssetDepreciationEntries.journalEntryId, ids))),
+        db
+          .select()
+          .from(fixedAssets)
+          .where(and(eq(fixedAssets.clientId, clientId), inArray(fixedAssets.disposalJournalEntryId, ids))),
+        db
+          .select({ posting: recurringJournalPostings, templateName: recurringJournalTemplates.name })
+          .from(recurringJournalPostings)
+          .innerJoin(recurringJournalTemplates, eq(recurringJournalPostings.templateId, recurringJournalTemplates.id))
+          .where(
+            and(
+              eq(recurringJournalPostings.clientId, clientId),
+              or(inArray(recurringJournalPostings.journalEntryId, ids), inArray(recurringJournalPostings.reversalJournalEntryId, ids))
+            )
+          ),
+        db
+          .select()
+          .from(fxAdjustments)
+          .where(
+            and(
+              eq(fxAdjustments.clientId, clientId),
+              or(inArray(fxAdjustments.journalEntryId, ids), inArray(fxAdjustments.reversalJournalEntryId, ids))
+            )
+          ),
+      ]);
+
+      const assetSource = (asset: typeof fixedAssets.$inferSelect, label: string): SourceDocument => ({
+        type: "fixed_asset",
+        id: asset.id,
+        label: `${label}: ${asset.assetNumber ? `${asset.assetNumber} ` : ""}${asset.name}`,
+        url: booksUrl("fixed-assets", clientId, { assetId: asset.id }),
+      });
+      for (const row of depreciation) {
+        if (row.journalEntryId) sources.set(row.journalEntryId, assetSource(row.asset, "Depreciation"));
+      }
+      for (const asset of disposals) {
+        if (asset.disposalJournalEntryId) sources.set(asset.disposalJournalEntryId, assetSource(asset, "Disposal"));
+      }
+      for (const { posting, templateName } of postings) {
+        const source: SourceDocument = {
+          type: "recurring_journal",
+          id: posting.templateId,
+          label: `Recurring journal: ${templateName}`,
+          url: booksUrl("journal-entries", clientId, { recurringTemplateId: posting.templateId }),
+        };
+        if (posting.journalEntryId) sources.set(posting.journalEntryId, source);
+        if (posting.reversalJournalEntryId) {
+          sources.set(posting.reversalJournalEntryId, { ...source, label: `${source.label} (reversal)` });
+        }
+      }
+      for (const adjustment of adjustments) {
+        // Realized gains and losses trace back to the invoice or bill that was settled
+        const source: SourceDocument =
+          adjustment.documentType === "invoice" || adjustment.documentType === "bill"
+            ? {
+                type: adjustment.documentType,
+                id: adjustment.documentId!,
+                label: `${adjustment.documentType === "invoice" ? "Invoice" : "Bill"} ${adjustment.documentId} (FX ${adjustment.kind})`,
+                url: booksUrl(
+                  adjustment.documentType === "invoice" ? "income-management" : "expense-management",
+                  clientId,
+                  { [`${adjustment.documentType}Id`]: adjustment.documentId! }
+                ),
+              }
+            : {
+                type: "fx_adjustment",
+                id: adjustment.id,
+                label: `FX ${adjustment.kind} adjustment${adjustment.currency ? ` (${adjustment.currency})` : ""}`,
+                url: booksUrl("journal-entries", clientId, { journalEntryId: adjustment.journalEntryId ?? adjustment.id }),
+              };
+        if (adjustment.journalEntryId) sources.set(adjustment.journalEntryId, source);
+        if (adjustment.reversalJournalEntryId) {
+          sources.set(adjustment.reversalJournalEntryId, { ...source, label: `${source.label} (reversal)` });
+        }
+      }
+    }
+
+    // Payroll runs and GL imports are recorded on the entry itself; anything else is a manual entry
+    for (const entry of entries) {
+      if (sources.has(entry.id)) continue;
+      const sourceType = entry.sourceType ?? null;
+      const reference = entry.reference ?? entry.referenceNumber ?? null;
+
+      if (sourceType === "payroll" || sourceType === "payroll_run") {
+        const runId = entry.sourceDocument || entry.id;
+        sources.set(entry.id, {
+          type: "payroll_run",
+          id: runId,
+          label: `Payroll run ${runId}`,
+          url: `/payroll/${clientId}?runId=${encodeURIComponent(String(runId))}`,
+        });
+      } else if (sourceType === "gl_import" || sourceType === "import") {
+        const batch = entry.sourceDocument || reference || entry.id;
+        sources.set(entry.id, {
+          type: "import_batch",
+          id: batch,
+          label: `Import ${batch}`,
+          url: booksUrl("journal-entries", clientId, { reference: String(batch) }),
+        });
+      } else {
+        sources.set(entry.id, {
+          type: "journal_entry",
+          id: entry.id,
+          label: `Journal entry ${entry.entryNumber || entry.id}`,
+          url: booksUrl("journal-entries", clientId, { journalEntryId: entry.id }),
+        });
+      }
+    }
+
+    return sources;
+  }
+}
+
+export const drillDownService = new DrillDownService();
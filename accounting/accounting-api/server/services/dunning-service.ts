@@ -0,0 +1,833 @@
+/**
+ * Dunning Service
+ *
+ * Acts on accounts receivable aging with per-client dunning sequences:
+ * - each step fires once per overdue invoice when the invoice reaches the
+ *   step's days overdue (a friendly reminder at 7, a firmer one at 30, a
+ *   statement and late fee at 60...). An invoice that is already further
+ *   overdue than several steps gets only the latest one.
+ * - one message per customer per step, listing that customer's invoices,
+ *   with its body taken from the step's document template
+ * - late fees are invoiced to the customer and posted to receivables; the
+ *   late-fee invoices themselves are never dunned, so fees do not compound
+ * - customers can be excluded from dunning or put on hold until a date
+ * - every step taken is logged on the customer with its send status
+ * - a dry run lists who would get what today without sending anything
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { documentTemplateStorage } from "../storage/books/document-template-storage.js";
+import {
+  dunningSequences,
+  dunningSteps,
+  dunningCustomerSettings,
+  dunningActions,
+  dunningInvoiceSteps,
+  type DunningSequence,
+  type DunningStep,
+} from "@shared/database/dunning-entities";
+import { and, eq, asc, desc, inArray, isNotNull } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import { nextInvoiceNumber } from "./recurring-invoice-service";
+
+export type LateFeeType = "none" | "flat" | "percent";
+
+// Invoice statuses that are never dunned
+const CLOSED_INVOICE_STATUSES = ["paid", "cancelled", "void", "voided", "draft"];
+
+// Balances below this are treated as paid
+const BALANCE_TOLERANCE = 0.005;
+
+const DEFAULT_MESSAGE = [
+  "Dear {{customerName}},",
+  "",
+  "Our records show the following invoices are past due:",
+  "",
+  "{{invoiceList}}",
+  "",
+  "Total overdue: {{amountOverdue}}",
+  "",
+  "Please arrange payment at your earliest convenience. If you have already paid, please disregard this notice.",
+  "",
+  "{{clientName}}",
+].join("\n");
+
+export class DunningError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "DunningError";
+    this.status = status;
+  }
+}
+
+export interface DunningStepInput {
+  // Existing step id; keeping it keeps the record of invoices already dunned at this step
+  id?: number | null;
+  name: string;
+  daysOverdue: number;
+  templateId?: number | null;
+  emailSubject: string;
+  includeStatement?: boolean;
+  lateFeeType?: LateFeeType;
+  lateFeeValue?: number | null;
+  lateFeeAccountId?: number | null;
+}
+
+export interface DunningSequenceInput {
+  name: string;
+  isDefault?: boolean;
+  isActive?: boolean;
+  steps: DunningStepInput[];
+}
+
+export interface CustomerSettingInput {
+  excluded?: boolean;
+  holdUntil?: string | null;
+  reason?: string | null;
+  sequenceId?: number | null;
+}
+
+export interface OverdueInvoice {
+  invoiceId: number;
+  invoiceNumber: string;
+  dueDate: string;
+  daysOverdue: number;
+  balance: number;
+}
+
+export interface PlannedDunningAction {
+  customerId: number;
+  customerName: string;
+  email: string | null;
+  sequenceId: number;
+  stepId: number;
+  stepName: string;
+  invoices: OverdueInvoice[];
+  amountOverdue: number;
+  includeStatement: boolean;
+  lateFeeAmount: number;
+}
+
+export interface SkippedDunningCustomer {
+  customerId: number;
+  customerName: string;
+  reason: string;
+  amountOverdue: number;
+}
+
+export interface DunningRunResult {
+  clientId: number;
+  asOfDate: string;
+  dryRun: boolean;
+  actions: Array<PlannedDunningAction & { status?: string; error?: string | null; actionId?: number }>;
+  skipped: SkippedDunningCustomer[];
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function todayKey(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86400000);
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function invoiceBalance(invoice: any): number {
+  return roundAmount(parseFloat(invoice.amountDue || "0") - parseFloat(invoice.amountPaid || "0"));
+}
+
+function invoiceLines(invoices: OverdueInvoice[]): string {
+  return invoices
+    .map(
+      (invoice) =>
+        `  ${invoice.invoiceNumber}  due ${invoice.dueDate}  ${invoice.daysOverdue} days overdue  ${formatMoney(invoice.balance)}`
+    )
+    .join("\n");
+}
+
+function mergeFields(text: string, values: Record<string, string>): string {
+  return text.replace(/\{\{\s*(\w+)\s*\}\}/g, (match, field) => (field in values ? values[field] : match));
+}
+
+function lateFeeFor(step: DunningStep, amountOverdue: number): number {
+  const value = parseFloat(step.lateFeeValue || "0");
+  if (step.lateFeeType === "flat") return roundAmount(value);
+  if (step.lateFeeType === "percent") return roundAmount((amountOverdue * value) / 100);
+  return 0;
+}
+
+function validateSteps(steps: DunningStepInput[]): void {
+  if (steps.length === 0) {
+    throw new DunningError("A dunning sequence needs at least one step");
+  }
+
+  const days = new Set<number>();
+  for (const step of steps) {
+    if (step.daysOverdue < 1) {
+      throw new DunningError(`"${step.name}" must be at least 1 day overdue`);
+    }
+    if (days.has(step.daysOverdue)) {
+      throw new DunningError(`Two steps are set for ${step.daysOverdue} days overdue`);
+    }
+    days.add(step.daysOverdue);
+
+    if (step.lateFeeType && step.lateFeeType !== "none") {
+      if (!step.lateFeeValue || step.lateFeeValue <= 0) {
+        throw new DunningError(`"${step.name}" needs a late fee amount`);
+      }
+      if (!step.lateFeeAccountId) {
+        throw new DunningError(`"${step.name}" needs an income account for the late fee`);
+      }
+    }
+  }
+}
+
+export class DunningService {
+  /**
+   * A client's sequences with their steps, in days-overdue order
+   */
+  async listSequences(clientId: number) {
+    const sequences = await db
+      .select()
+      .from(dunningSequences)
+      .where(eq(dunningSequences.clientId, clientId))
+      .orderBy(desc(dunningSequences.isDefault), asc(dunningSequences.name));
+
+    const steps = await this.getSteps(sequences.map((sequence) => sequence.id));
+    return sequences.map((sequence) => ({
+      ...sequence,
+      steps: steps.filter((step) => step.sequenceId === sequence.id),
+    }));
+  }
+
+  /**
+   * Create a sequence. The client's first sequence becomes its default.
+   */
+  async createSequence(clientId: number, input: DunningSequenceInput, user?: any) {
+    validateSteps(input.steps);
+    const existing = await db.select().from(dunningSequences).where(eq(dunningSequences.clientId, clientId));
+    const isDefault = input.isDefault ?? existing.length === 0;
+
+    if (isDefault) await this.clearDefault(clientId);
+    const [sequence] = await db
+      .insert(dunningSequences)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        name: input.name,
+        isDefault,
+        isActive: input.isActive ?? true,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    await this.saveSteps(sequence.id, input.steps);
+    return this.getSequence(clientId, sequence.id);
+  }
+
+  async updateSequence(clientId: number, sequenceId: number, input: DunningSequenceInput) {
+    const existing = await this.findSequence(clientId, sequenceId);
+    validateSteps(input.steps);
+
+    const isDefault = input.isDefault ?? existing.isDefault;
+    if (isDefault && !existing.isDefault) await this.clearDefault(clientId);
+
+    await db
+      .update(dunningSequences)
+      .set({
+        name: input.name,
+        isDefault,
+        isActive: input.isActive ?? existing.isActive,
+        updatedAt: new Date(),
+      })
+      .where(eq(dunningSequences.id, sequenceId));
+
+    await this.saveSteps(sequenceId, input.steps);
+    return this.getSequence(clientId, sequenceId);
+  }
+
+  /**
+   * Delete a sequence. The customer log keeps the steps already taken.
+   */
+  async deleteSequence(clientId: number, sequenceId: number) {
+    await this.findSequence(clientId, sequenceId);
+    await db.delete(dunningSequences).where(eq(dunningSequences.id, sequenceId));
+    return { success: true };
+  }
+
+  /**
+   * Customers with an exclusion, hold or sequence override
+   */
+  async listCustomerSettings(clientId: number) {
+    const settings = await db
+      .select()
+      .from(dunningCustomerSettings)
+      .where(eq(dunningCustomerSettings.clientId, clientId))
+      .orderBy(asc(dunningCustomerSettings.customerId));
+
+    const customers = await this.getCustomers(settings.map((setting) => setting.customerId));
+    return settings.map((setting) => ({
+      ...setting,
+      customerName: customers.get(setting.customerId)?.name ?? `Customer ${setting.customerId}`,
+    }));
+  }
+
+  /**
+   * Exclude a customer, put them on hold until a date, or pick their sequence
+   */
+  async updateCustomerSetting(clientId: number, customerId: number, input: CustomerSettingInput, user?: any) {
+    if (input.sequenceId) await this.findSequence(clientId, input.sequenceId);
+
+    const values = {
+      excluded: input.excluded ?? false,
+      holdUntil: input.holdUntil ?? null,
+      reason: input.reason ?? null,
+      sequenceId: input.sequenceId ?? null,
+      updatedBy: user?.id ?? null,
+      updatedAt: new Date(),
+    };
+
+    const [setting] = await db
+      .insert(dunningCustomerSettings)
+      .values({ clientId, customerId, ...values })
+      .onConflictDoUpdate({
+        target: [dunningCustomerSettings.clientId, dunningCustomerSettings.customerId],
+        set: values,
+      })
+      .returning();
+
+    return setting;
+  }
+
+  async clearCustomerSetting(clientId: number, customerId: number) {
+    await db
+      .delete(dunningCustomerSettings)
+      .where(and(eq(dunningCustomerSettings.clientId, clientId), eq(dunningCustomerSettings.customerId, customerId)));
+    return { success: true };
+  }
+
+  /**
+   * Dunning steps taken for a customer (or the whole client), newest first
+   */
+  async listActions(clientId: number, customerId?: number, limit = 200) {
+    const conditions = [eq(dunningActions.clientId, clientId)];
+    if (customerId) conditions.push(eq(dunningActions.customerId, customerId));
+
+    return db
+      .select()
+      .from(dunningActions)
+      .where(and(...conditions))
+      .orderBy(desc(dunningActions.createdAt))
+      .limit(limit);
+  }
+
+  /**
+   * Work out today's dunning for a client and, unless this is a dry run,
+   * send it. The dry run and the real run use the same plan.
+   */
+  async run(clientId: number, options: { asOfDate?: string; dryRun?: boolean } = {}, user?: any): Promise<DunningRunResult> {
+    const asOfDate = options.asOfDate || todayKey();
+    const plan = await this.plan(clientId, asOfDate);
+    const result: DunningRunResult = { clientId, asOfDate, dryRun: !!options.dryRun, actions: [], skipped: plan.skipped };
+
+    if (options.dryRun) {
+      result.actions = plan.actions;
+      return result;
+    }
+
+    for (const action of plan.actions) {
+      const step = plan.steps.get(action.stepId)!;
+      try {
+        const taken = await this.takeAction(clientId, action, step, asOfDate, user);
+        result.actions.push({ ...action, status: taken.status, error: taken.error, actionId: taken.id });
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        console.error(`❌ Dunning step "${action.stepName}" failed for customer ${action.customerId}:`, error);
+        result.actions.push({ ...action, status: "failed", error: message });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Run dunning for every client with an active sequence. Called by the daily cron job.
+   */
+  async runAll(asOfDate?: string): Promise<DunningRunResult[]> {
+    const active = await db
+      .select({ clientId: dunningSequences.clientId })
+      .from(dunningSequences)
+      .where(eq(dunningSequences.isActive, true));
+
+    const results: DunningRunResult[] = [];
+    for (const clientId of Array.from(new Set(active.map((row) => row.clientId)))) {
+      try {
+        results.push(await this.run(clientId, { asOfDate }));
+      } catch (error) {
+        console.error(`❌ Dunning run failed for client ${clientId}:`, error);
+      }
+    }
+    return results;
+  }
+
+  private async plan(clientId: number, asOfDate: string) {
+    const sequences = (await this.listSequences(clientId)).filter(
+      (sequence) => sequence.isActive && sequence.steps.length > 0
+    );
+    const defaultSequence = sequences.find((sequence) => sequence.isDefault) ?? sequences[0];
+    const steps = new Map<number, DunningStep>();
+    for (const sequence of sequences) {
+      for (const step of sequence.steps) steps.set(step.id, step);
+    }
+
+    const settings = await db
+      .select()
+      .from(dunningCustomerSettings)
+      .where(eq(dunningCustomerSettings.clientId, clientId));
+    const settingsByCustomer = new Map(settings.map((setting) => [setting.customerId, setting]));
+
+    const lateFeeInvoices = await db
+      .select({ invoiceId: dunningActions.lateFeeInvoiceId })
+      .from(dunningActions)
+      .where(and(eq(dunningActions.clientId, clientId), isNotNull(dunningActions.lateFeeInvoiceId)));
+    const lateFeeInvoiceIds = new Set(lateFeeInvoices.map((row) => row.invoiceId));
+
+    const overdueByCustomer = new Map<number, OverdueInvoice[]>();
+    for (const invoice of await storage.getInvoices(clientId)) {
+      const dueDate = toDateKey(invoice.dueDate);
+      const balance = invoiceBalance(invoice);
+      if (!dueDate || dueDate >= asOfDate || balance < BALANCE_TOLERANCE) continue;
+      if (CLOSED_INVOICE_STATUSES.includes(String(invoice.status || "").toLowerCase())) continue;
+      if (lateFeeInvoiceIds.has(invoice.id)) continue;
+
+      const overdue = overdueByCustomer.get(invoice.customerId) || [];
+      overdue.push({
+        invoiceId: invoice.id,
+        invoiceNumber: invoice.invoiceNumber || `#${invoice.id}`,
+        dueDate,
+        daysOverdue: daysBetween(dueDate, asOfDate),
+        balance,
+      });
+      overdueByCustomer.set(invoice.customerId, overdue);
+    }
+
+    const invoiceIds = Array.from(overdueByCustomer.values()).flat().map((invoice) => invoice.invoiceId);
+    const taken = invoiceIds.length
+      ? await db.select().from(dunningInvoiceSteps).where(inArray(dunningInvoiceSteps.invoiceId, invoiceIds))
+      : [];
+    const takenByInvoice = new Map<number, Set<number>>();
+    for (const row of taken) {
+      const stepIds = takenByInvoice.get(row.invoiceId) || new Set<number>();
+      stepIds.add(row.stepId);
+      takenByInvoice.set(row.invoiceId, stepIds);
+    }
+
+    const customers = await this.getCustomers(Array.from(overdueByCustomer.keys()));
+    const actions: PlannedDunningAction[] = [];
+    const skipped: SkippedDunningCustomer[] = [];
+
+    for (const [customerId, invoices] of Array.from(overdueByCustomer.entries())) {
+      const customer = customers.get(customerId);
+      const customerName = customer?.name ?? `Customer ${customerId}`;
+      const amountOverdue = roundAmount(invoices.reduce((sum, invoice) => sum + invoice.balance, 0));
+      const setting = settingsByCustomer.get(customerId);
+      const sequence = sequences.find((candidate) => candidate.id === setting?.sequenceId) ?? defaultSequence;
+
+      if (!sequence) continue;
+
+      // The latest step each invoice has reached, unless it (or a later step) was already taken
+      const byStep = new Map<number, OverdueInvoice[]>();
+      for (const invoice of invoices) {
+        const reached = sequence.steps.filter((step) => step.daysOverdue <= invoice.daysOverdue);
+        const step = reached[reached.length - 1];
+        if (!step) continue;
+
+        const takenSteps = takenByInvoice.get(invoice.invoiceId);
+        const laterTaken = sequence.steps.some(
+          (candidate) => candidate.daysOverdue >= step.daysOverdue && takenSteps?.has(candidate.id)
+        );
+        if (laterTaken) continue;
+
+        byStep.set(step.id, [...(byStep.get(step.id) || []), invoice]);
+      }
+      if (byStep.size === 0) continue;
+
+      if (setting?.excluded) {
+        skipped.push({ customerId, customerName, reason: setting.reason || "Excluded from dunning", amountOverdue });
+        continue;
+      }
+      const holdUntil = toDateKey(setting?.holdUntil);
+      if (holdUntil && holdUntil >= asOfDate) {
+        skipped.push({
+          customerId,
+          customerName,
+          reason: `On hold until ${holdUntil}${setting?.reason ? ` (${setting.reason})` : ""}`,
+          amountOverdue,
+        });
+        continue;
+      }
+
+      for (const [stepId, stepInvoices] of Array.from(byStep.entries())) {
+        const step = steps.get(stepId)!;
+        const stepOverdue = roundAmount(stepInvoices.reduce((sum, invoice) => sum + invoice.balance, 0));
+        actions.push({
+          customerId,
+          customerName,
+          email: customer?.email || null,
+          sequenceId: sequence.id,
+          stepId,
+          stepName: step.name,
+          invoices: stepInvoices.sort((a, b) => a.dueDate.localeCompare(b.dueDate)),
+          amountOverdue: stepOverdue,
+          includeStatement: step.includeStatement,
+          lateFeeAmount: lateFeeFor(step, stepOverdue),
+        });
+      }
+    }
+
+    actions.sort((a, b) => a.customerName.localeCompare(b.customerName) || a.amountOverdue - b.amountOverdue);
+    skipped.sort((a, b) => a.customerName.localeCompare(b.customerName));
+    return { actions, skipped, steps };
+  }
+
+  /**
+   * Invoice the late fee (if any), send the message and log the step on the
+   * customer. The step counts as taken for its invoices once the message was
+   * sent, the customer has no email address, or a late fee was charged, so a
+   * failed email is retried without charging the fee twice.
+   */
+  private async takeAction(
+    clientId: number,
+    action: PlannedDunningAction,
+    step: DunningStep,
+    asOfDate: string,
+    user?: any
+  ) {
+    let lateFee: { invoiceId: number; invoiceNumber: string } | null = null;
+    let error: string | null = null;
+
+    if (action.lateFeeAmount > 0) {
+      const lock = await periodLockService.getLock(clientId);
+      const lockError = periodLockService.checkDate(lock, asOfDate, user);
+      if (lockError) {
+        error = `Late fee not charged: ${lockError.message}`;
+      } else {
+        lateFee = await this.invoiceLateFee(clientId, action, step, asOfDate);
+      }
+    }
+
+    const message = await this.renderMessage(clientId, action, step, asOfDate, lateFee);
+    let status = "no_email";
+    if (action.email) {
+      try {
+        const { sendEmail } = await import("../email-service");
+        await sendEmail({
+          to: action.email,
+          subject: message.subject,
+          text: message.body,
+          html: escapeHtml(message.body).replace(/\n/g, "<br>"),
+        });
+        status = "sent";
+      } catch (emailError: any) {
+        console.error(`Failed to send dunning email to ${action.email}:`, emailError);
+        status = "failed";
+        error = [error, `Email failed: ${emailError?.message || "unknown error"}`].filter(Boolean).join("; ");
+      }
+    }
+
+    const [logged] = await db
+      .insert(dunningActions)
+      .values({
+        clientId,
+        customerId: action.customerId,
+        sequenceId: action.sequenceId,
+        stepId: step.id,
+        stepName: step.name,
+        invoices: action.invoices,
+        amountOverdue: action.amountOverdue.toFixed(2),
+        status,
+        recipient: action.email,
+        subject: message.subject,
+        body: message.body,
+        lateFeeInvoiceId: lateFee?.invoiceId ?? null,
+        lateFeeAmount: lateFee ? action.lateFeeAmount.toFixed(2) : null,
+        error,
+        triggeredBy: user?.id ?? null,
+      })
+      .returning();
+
+    if (status !== "failed" || lateFee) {
+      await db
+        .insert(dunningInvoiceSteps)
+        .values(action.invoices.map((invoice) => ({ invoiceId: invoice.invoiceId, stepId: step.id, actionId: logged.id })))
+        .onConflictDoNothing();
+    }
+
+    console.log(
+      `📨 Dunning "${step.name}" for customer ${action.customerId} (client ${clientId}): ${status}, ` +
+        `${action.invoices.length} invoice(s), ${formatMoney(action.amountOverdue)} overdue` +
+        (lateFee ? `, late fee ${lateFee.invoiceNumber}` : "")
+    );
+
+    return logged;
+  }
+
+  /**
+   * Invoice the step's late fee and post it: Dr accounts receivable, Cr the
+   * step's late-fee income account. The invoice is issued as sent, since it is
+   * in receivables whether or not the notice could be emailed.
+   */
+  private async invoiceLateFee(clientId: number, action: PlannedDunningAction, step: DunningStep, asOfDate: string) {
+    const accounts = await storage.getAccounts(clientId);
+    const arAccountId = accounts.find(
+      (account: any) => account.type === "asset" && (account.name || "").toLowerCase().includes("receivable")
+    )?.id;
+    if (!arAccountId) {
+      throw new DunningError("No accounts receivable account found for the late fee");
+    }
+
+    const invoiceNumber = nextInvoiceNumber((await storage.getInvoices(clientId)).map((invoice: any) => invoice.invoiceNumber));
+    const amount = action.lateFeeAmount;
+    const description = `Late fee on overdue invoices ${action.invoices.map((invoice) => invoice.invoiceNumber).join(", ")}`;
+
+    const journalEntry = await storage.createJournalEntry({
+      clientId,
+      description: `Invoice ${invoiceNumber} - late fee`,
+      entryDate: new Date(`${asOfDate}T12:00:00`),
+      totalDebit: amount,
+      totalCredit: amount,
+      status: "posted",
+      isBalanced: true,
+    });
+    await storage.createJournalEntryLine({
+      journalEntryId: journalEntry.id,
+      accountId: arAccountId,
+      debitAmount: amount,
+      creditAmount: 0,
+      memo: `Invoice ${invoiceNumber}`,
+    });
+    await storage.createJournalEntryLine({
+      journalEntryId: journalEntry.id,
+      accountId: step.lateFeeAccountId!,
+      debitAmount: 0,
+      creditAmount: amount,
+      memo: description,
+    });
+
+    const invoice = await storage.createInvoice({
+      clientId,
+      customerId: action.customerId,
+      invoiceNumber,
+      issueDate: new Date(`${asOfDate}T12:00:00`),
+      dueDate: new Date(`${asOfDate}T12:00:00`),
+      subtotal: amount.toFixed(2),
+      taxAmount: "0",
+      totalAmount: amount.toFixed(2),
+      amountDue: amount.toFixed(2),
+      amountPaid: "0",
+      status: "sent",
+      notes: description,
+      journalEntryId: journalEntry.id,
+    });
+    await storage.createInvoiceItem({
+      invoiceId: invoice.id,
+      description,
+      quantity: "1",
+      rate: amount.toFixed(2),
+      amount: amount.toFixed(2),
+      accountId: step.lateFeeAccountId,
+    });
+
+    return { invoiceId: invoice.id as number, invoiceNumber };
+  }
+
+  /**
+   * Subject and body for a step: the static text blocks of the step's
+   * document template (or a standard notice) with merge fields filled in
+   */
+  private async renderMessage(
+    clientId: number,
+    action: PlannedDunningAction,
+    step: DunningStep,
+    asOfDate: string,
+    lateFee: { invoiceId: number; invoiceNumber: string } | null
+  ) {
+    const client = await storage.getClient(clientId);
+    const statement = action.includeStatement ? await this.renderStatement(clientId, action.customerId, asOfDate) : "";
+    const lateFeeText = lateFee
+      ? `A late fee of ${formatMoney(action.lateFeeAmount)} has been charged on invoice ${lateFee.invoiceNumber}.`
+      : "";
+
+    const values: Record<string, string> = {
+      customerName: action.customerName,
+      clientName: client?.name || "",
+      amountOverdue: formatMoney(action.amountOverdue),
+      daysOverdue: String(Math.max(...action.invoices.map((invoice) => invoice.daysOverdue))),
+      invoiceList: invoiceLines(action.invoices),
+      lateFee: lateFeeText,
+      statement,
+      date: asOfDate,
+    };
+
+    const templateText = step.templateId ? await this.templateText(clientId, step.templateId) : null;
+    let body = mergeFields(templateText || DEFAULT_MESSAGE, values);
+
+    // Templates that do not place these blocks still get them at the end
+    const source = templateText || DEFAULT_MESSAGE;
+    if (lateFeeText && !/\{\{\s*lateFee\s*\}\}/.test(source)) body += `\n\n${lateFeeText}`;
+    if (statement && !/\{\{\s*statement\s*\}\}/.test(source)) body += `\n\n${statement}`;
+
+    return { subject: mergeFields(step.emailSubject, values), body: body.trim() };
+  }
+
+  /**
+   * Statement of every open invoice for the customer, overdue or not
+   */
+  private async renderStatement(clientId: number, customerId: number, asOfDate: string): Promise<string> {
+    const open = (await storage.getInvoices(clientId)).filter(
+      (invoice: any) =>
+        invoice.customerId === customerId &&
+        invoiceBalance(invoice) >= BALANCE_TOLERANCE &&
+        !CLOSED_INVOICE_STATUSES.includes(String(invoice.status || "").toLowerCase())
+    );
+    const total = roundAmount(open.reduce((sum: number, invoice: any) => sum + invoiceBalance(invoice), 0));
+
+    const lines = open.map((invoice: any) => {
+      const dueDate = toDateKey(invoice.dueDate) || "";
+      const daysOverdue = dueDate && dueDate < asOfDate ? `${daysBetween(dueDate, asOfDate)} days overdue` : "current";
+      return `  ${invoice.invoiceNumber}  issued ${toDateKey(invoice.issueDate) || ""}  due ${dueDate}  ${daysOverdue}  ${formatMoney(invoiceBalance(invoice))}`;
+    });
+
+    return [`Statement as of ${asOfDate}`, "", ...lines, "", `Balance owing: ${formatMoney(total)}`].join("\n");
+  }
+
+  /**
+   * Static text blocks of a document template, top to bottom, one per line.
+   * Returns null when the template is missing or has no text.
+   */
+  private async templateText(clientId: number, templateId: number): Promise<string | null> {
+    const template = await documentTemplateStorage.getTemplateById(templateId, clientId);
+    if (!template) return null;
+
+    let sections = template.sections;
+    if (typeof sections === "string") {
+      try {
+        sections = JSON.parse(sections);
+      } catch {
+        return null;
+      }
+    }
+
+    const blocks: string[] = [];
+    for (const section of (sections || []) as any[]) {
+      const fields = Object.values(section.fieldPositions || {}) as any[];
+      fields
+        .filter((field) => field.fieldType === "static" && field.textContent)
+        .sort((a, b) => a.y - b.y || a.x - b.x)
+        .forEach((field) => blocks.push(field.textContent));
+    }
+
+    return blocks.length > 0 ? blocks.join("\n") : null;
+  }
+
+  private async findSequence(clientId: number, sequenceId: number): Promise<DunningSequence> {
+    const [sequence] = await db
+      .select()
+      .from(dunningSequences)
+      .where(and(eq(dunningSequences.id, sequenceId), eq(dunningSequences.clientId, clientId)));
+
+    if (!sequence) {
+      throw new DunningError("Dunning sequence not found", 404);
+    }
+    return sequence;
+  }
+
+  private async getSequence(clientId: number, sequenceId: number) {
+    const sequence = await this.findSequence(clientId, sequenceId);
+    return { ...sequence, steps: await this.getSteps([sequenceId]) };
+  }
+
+  private async getSteps(sequenceIds: number[]) {
+    if (sequenceIds.length === 0) return [];
+    return db
+      .select()
+      .from(dunningSteps)
+      .where(inArray(dunningSteps.sequenceId, sequenceIds))
+      .orderBy(asc(dunningSteps.daysOverdue));
+  }
+
+  private async clearDefault(clientId: number) {
+    await db
+      .update(dunningSequences)
+      .set({ isDefault: false, updatedAt: new Date() })
+      .where(and(eq(dunningSequences.clientId, clientId), eq(dunningSequences.isDefault, true)));
+  }
+
+  /**
+   * Update steps in place by id so the invoices already dunned at a step are
+   * not dunned again, add new steps and remove the ones no longer listed
+   */
+  private async saveSteps(sequenceId: number, steps: DunningStepInput[]) {
+    const existing = await this.getSteps([sequenceId]);
+    const keptIds = new Set<number>();
+
+    for (let index = 0; index < steps.length; index++) {
+      const step = steps[index];
+      const lateFeeType = step.lateFeeType ?? "none";
+      const values = {
+        name: step.name,
+        daysOverdue: step.daysOverdue,
+        templateId: step.templateId ?? null,
+        emailSubject: step.emailSubject,
+        includeStatement: step.includeStatement ?? false,
+        lateFeeType,
+        lateFeeValue: lateFeeType !== "none" && step.lateFeeValue != null ? step.lateFeeValue.toString() : null,
+        lateFeeAccountId: lateFeeType !== "none" ? step.lateFeeAccountId ?? null : null,
+        sortOrder: index,
+      };
+
+      if (step.id && existing.some((current) => current.id === step.id)) {
+        keptIds.add(step.id);
+        await db.update(dunningSteps).set(values).where(eq(dunningSteps.id, step.id));
+      } else {
+        await db.insert(dunningSteps).values({ sequenceId, ...values });
+      }
+    }
+
+    const removedIds = existing.filter((step) => !keptIds.has(step.id)).map((step) => step.id);
+    if (removedIds.length > 0) {
+      await db.delete(dunningSteps).where(inArray(dunningSteps.id, removedIds));
+    }
+  }
+
+  private async getCustomers(customerIds: number[]): Promise<Map<number, { name: string; email: string | null }>> {
+    const customers = new Map<number, { name: string; email: string | null }>();
+    for (const customerId of Array.from(new Set(customerIds))) {
+      try {
+        const customer = await storage.getCustomer(customerId);
+        if (customer) {
+          customers.set(customerId, { name: customer.companyName || customer.name, email: customer.email || null });
+        }
+      } catch (error) {
+        console.error(`Failed to load customer ${customerId}:`, error);
+      }
+    }
+    return customers;
+  }
+}
+
+export const dunningService = new DunningService();
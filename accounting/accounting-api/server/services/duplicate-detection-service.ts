@@ -0,0 +1,558 @@
+/**
+ * Duplicate Detection Service
+ *
+ * Keeps the same bank transaction from entering the ledger twice when it
+ * arrives through a statement re-import, a bank feed sync and manual entry:
+ * - a line whose bank FITID is already in the ledger is skipped outright
+ * - otherwise a fingerprint of date, amount and normalized description (and,
+ *   more loosely, a similar description a few days apart) marks a suspected
+ *   duplicate, which is held in a review queue instead of being posted
+ * - staff can force a held or skipped transaction in with a reason, and every
+ *   override is logged
+ */
+
+import { randomUUID } from "crypto";
+import { db, pool } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  duplicateReviewItems,
+  duplicateOverrides,
+  type DuplicateReviewItem,
+} from "@shared/database/duplicate-entities";
+import { and, eq, desc } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+
+export class DuplicateError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "DuplicateError";
+    this.status = status;
+  }
+}
+
+export type DuplicateSource = "import" | "feed" | "manual";
+export type DuplicateMatchType = "fitid" | "fingerprint" | "similar";
+
+export interface DuplicateCandidate {
+  date: string;
+  description: string;
+  amount: number;
+  accountId?: number | null;
+  fitId?: string | null;
+  // Transaction body to create if the candidate is imported
+  payload: Record<string, any>;
+}
+
+export interface DuplicateMatch {
+  transactionId: number;
+  matchType: DuplicateMatchType;
+  date: string;
+  description: string;
+  amount: number;
+  reference: string | null;
+}
+
+interface LedgerTransaction {
+  id: number;
+  accountId: number | null;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+  fingerprint: string;
+  tokens: Set<string>;
+}
+
+// Days a feed posting date and a statement date can drift apart
+const DATE_WINDOW_DAYS = 3;
+
+// Share of description words two transactions need in common to look alike
+const SIMILARITY_THRESHOLD = 0.6;
+
+// Words banks add around the merchant name that say nothing about the payee
+const NOISE_WORDS = new Set([
+  "pos", "purchase", "debit", "credit", "card", "visa", "mastercard", "mc", "interac",
+  "payment", "pmt", "ref", "txn", "online", "www", "com", "ca", "inc", "ltd", "the",
+]);
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(a: string, b: string): number {
+  const ms = Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime());
+  return Math.round(ms / 86400000);
+}
+
+function shiftDate(date: string, days: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  shifted.setUTCDate(shifted.getUTCDate() + days);
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * Lower-case description words with card numbers, store numbers and banking
+ * noise removed, so "POS PURCHASE 4412 TIM HORTONS #231" and "Tim Hortons"
+ * normalize alike
+ */
+export function normalizeDescription(description: string): string {
+  return (description || "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, " ")
+    .split(" ")
+    .filter((word) => word && !/\d/.test(word) && !NOISE_WORDS.has(word))
+    .join(" ");
+}
+
+/**
+ * Date, unsigned amount and normalized description. Manual entries do not
+ * carry the feed sign convention, so the sign is left out.
+ */
+export function transactionFingerprint(date: string, amount: number, description: string): string {
+  return `${date}|${Math.abs(roundAmount(amount)).toFixed(2)}|${normalizeDescription(description)}`;
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  a.forEach((word) => {
+    if (b.has(word)) shared++;
+  });
+  return shared / Math.min(a.size, b.size);
+}
+
+function toWords(description: string): Set<string> {
+  return new Set(normalizeDescription(description).split(" ").filter(Boolean));
+}
+
+export class DuplicateDetectionService {
+  /**
+   * Screen a batch from an import or feed sync against the ledger and the
+   * review queue. FITID repeats are skipped, suspected duplicates are queued,
+   * and the rest are returned for posting. With `force`, nothing is held back
+   * and each would-be duplicate is logged as an override.
+   */
+  async screen(
+    clientId: number,
+    candidates: DuplicateCandidate[],
+    options: { source: DuplicateSource; user?: any; force?: { reason: string } }
+  ) {
+    if (options.force && !options.force.reason?.trim()) {
+      throw new DuplicateError("A reason is required to force import duplicates");
+    }
+
+    const ledger = await this.loadLedger(clientId, candidates.map((candidate) => candidate.date));
+    const pending = await db
+      .select()
+      .from(duplicateReviewItems)
+      .where(and(eq(duplicateReviewItems.clientId, clientId), eq(duplicateReviewItems.status, "pending")));
+    const heldFitIds = new Set(pending.map((item) => item.fitId).filter(Boolean));
+    const heldFingerprints = new Set(pending.map((item) => item.fingerprint));
+
+    const accepted: Array<{ index: number; candidate: DuplicateCandidate }> = [];
+    const skipped: Array<{ index: number; reason: string; match: DuplicateMatch | null }> = [];
+    const queued: Array<{ index: number; reviewItemId: number; match: DuplicateMatch }> = [];
+    let forced = 0;
+    const batchFitIds = new Set<string>();
+
+    for (let index = 0; index < candidates.length; index++) {
+      const candidate = candidates[index];
+      const fitId = candidate.fitId?.trim() || null;
+      const fingerprint = transactionFingerprint(candidate.date, candidate.amount, candidate.description);
+      const match = this.findMatch(ledger, candidate);
+
+      if (options.force) {
+        if (match) {
+          await this.logOverride(clientId, {
+            source: options.source,
+            match,
+            description: candidate.description,
+            amount: candidate.amount,
+            reason: options.force.reason,
+            user: options.user,
+          });
+          forced++;
+        }
+        accepted.push({ index, candidate });
+        continue;
+      }
+
+      if (fitId && batchFitIds.has(fitId)) {
+        skipped.push({ index, reason: "Repeated in this batch", match: null });
+        continue;
+      }
+      if (fitId) batchFitIds.add(fitId);
+
+      if (match?.matchType === "fitid") {
+        skipped.push({ index, reason: "Already imported", match });
+        continue;
+      }
+      if ((fitId && heldFitIds.has(fitId)) || heldFingerprints.has(fingerprint)) {
+        skipped.push({ index, reason: "Already waiting in the duplicate review queue", match });
+        continue;
+      }
+      if (match) {
+        const item = await this.queue(clientId, candidate, match, options.source, options.user);
+        queued.push({ index, reviewItemId: item.id, match });
+        continue;
+      }
+
+      accepted.push({ index, candidate });
+    }
+
+    return {
+      accepted,
+      skipped,
+      queued,
+      summary: {
+        total: candidates.length,
+        accepted: accepted.length,
+        skippedDuplicates: skipped.length,
+        queuedForReview: queued.length,
+        forced,
+      },
+    };
+  }
+
+  /**
+   * The ledger transaction a single candidate duplicates, if any
+   */
+  async findDuplicate(clientId: number, candidate: DuplicateCandidate): Promise<DuplicateMatch | null> {
+    const ledger = await this.loadLedger(clientId, [candidate.date]);
+    return this.findMatch(ledger, candidate);
+  }
+
+  /**
+   * Hold a suspected duplicate for review
+   */
+  async queue(
+    clientId: number,
+    candidate: DuplicateCandidate,
+    match: DuplicateMatch,
+    source: DuplicateSource,
+    user?: any
+  ): Promise<DuplicateReviewItem> {
+    const [item] = await db
+      .insert(duplicateReviewItems)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        source,
+        accountId: candidate.accountId ?? null,
+        transactionDate: candidate.date,
+        description: candidate.description,
+        amount: roundAmount(candidate.amount).toFixed(2),
+        fitId: candidate.fitId?.trim() || null,
+        fingerprint: transactionFingerprint(candidate.date, candidate.amount, candidate.description),
+        payload: JSON.stringify(candidate.payload),
+        matchedTransactionId: match.transactionId,
+        matchType: match.matchType,
+        status: "pending",
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+    return item;
+  }
+
+  /**
+   * Review queue items with the ledger transaction each one resembles
+   */
+  async listQueue(clientId: number, status = "pending") {
+    const items = await db
+      .select()
+      .from(duplicateReviewItems)
+      .where(and(eq(duplicateReviewItems.clientId, clientId), eq(duplicateReviewItems.status, status)))
+      .orderBy(desc(duplicateReviewItems.createdAt));
+
+    const matchedIds = Array.from(
+      new Set(items.map((item) => item.matchedTransactionId).filter((id): id is number => id !== null))
+    );
+    const matched = new Map<number, any>();
+    if (matchedIds.length > 0) {
+      const result = await pool.query(
+        `SELECT id, transaction_date, description, reference_number, amount, debit_amount, credit_amount
+         FROM transactions WHERE client_id = $1 AND id = ANY($2::int[])`,
+        [clientId, matchedIds]
+      );
+      for (const row of result.rows) {
+        matched.set(row.id, {
+          id: row.id,
+          date: toDateKey(row.transaction_date),
+          description: row.description || "",
+          reference: row.reference_number || null,
+          amount: this.rowAmount(row),
+        });
+      }
+    }
+
+    return items.map((item) => ({
+      ...item,
+      amount: parseFloat(item.amount),
+      payload: undefined,
+      matchedTransaction: item.matchedTransactionId ? matched.get(item.matchedTransactionId) || null : null,
+    }));
+  }
+
+  /**
+   * Post a held transaction anyway; the reason is logged
+   */
+  async forceImport(clientId: number, itemId: number, reason: string, user?: any) {
+    if (!reason?.trim()) {
+      throw new DuplicateError("A reason is required to force import a duplicate");
+    }
+    const item = await this.findPendingItem(clientId, itemId);
+    await periodLockService.assertPeriodOpen(clientId, [item.transactionDate], user);
+
+    const payload = JSON.parse(item.payload);
+    const transaction = await storage.createTransaction({
+      ...payload,
+      clientId,
+      transactionGroupId: payload.transactionGroupId || randomUUID(),
+    });
+
+    const [updated] = await db
+      .update(duplicateReviewItems)
+      .set({
+        status: "imported",
+        importedTransactionId: transaction.id,
+        resolvedBy: user?.id ?? null,
+        resolvedAt: new Date(),
+      })
+      .where(eq(duplicateReviewItems.id, itemId))
+      .returning();
+
+    await this.logOverride(clientId, {
+      source: item.source as DuplicateSource,
+      reviewItemId: itemId,
+      transactionId: transaction.id,
+      match: item.matchedTransactionId
+        ? { transactionId: item.matchedTransactionId, matchType: item.matchType as DuplicateMatchType }
+        : null,
+      description: item.description,
+      amount: parseFloat(item.amount),
+      reason,
+      user,
+    });
+
+    return { item: updated, transaction };
+  }
+
+  /**
+   * Drop a held transaction as a true duplicate
+   */
+  async discard(clientId: number, itemId: number, user?: any) {
+    await this.findPendingItem(clientId, itemId);
+    const [updated] = await db
+      .update(duplicateReviewItems)
+      .set({ status: "discarded", resolvedBy: user?.id ?? null, resolvedAt: new Date() })
+      .where(eq(duplicateReviewItems.id, itemId))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * Record a forced import of a duplicate
+   */
+  async logOverride(
+    clientId: number,
+    entry: {
+      source: DuplicateSource;
+      reviewItemId?: number | null;
+      transactionId?: number | null;
+      match: Pick<DuplicateMatch, "transactionId" | "matchType"> | null;
+      description?: string;
+      amount?: number;
+      reason: string;
+      user?: any;
+    }
+  ) {
+    const [override] = await db
+      .insert(duplicateOverrides)
+      .values({
+        clientId,
+        source: entry.source,
+        reviewItemId: entry.reviewItemId ?? null,
+        transactionId: entry.transactionId ?? null,
+        matchedTransactionId: entry.match?.transactionId ?? null,
+        matchType: entry.match?.matchType ?? "fitid",
+        description: entry.description ?? null,
+        amount: entry.amount !== undefined ? roundAmount(entry.amount).toFixed(2) : null,
+        reason: entry.reason.trim(),
+        userId: entry.user?.id ?? null,
+      })
+      .returning();
+    return override;
+  }
+
+  async getOverrides(clientId: number) {
+    return db
+      .select()
+      .from(duplicateOverrides)
+      .where(eq(duplicateOverrides.clientId, clientId))
+      .orderBy(desc(duplicateOverrides.createdAt));
+  }
+
+  /**
+   * Candidate for a statement or feed line in the upload row shape
+   * ({date, description, debitAmount, creditAmount, fitId}); money out is debit
+   */
+  importCandidate(clientId: number, row: any, accountId?: number | null): DuplicateCandidate {
+    const debit = parseFloat(row.debitAmount || "0");
+    const credit = parseFloat(row.creditAmount || "0");
+    const amount = debit !== 0 || credit !== 0 ? credit - debit : parseFloat(row.amount || "0");
+    const date = toDateKey(row.date) || "";
+    const fitId = row.fitId || row.referenceNumber || null;
+    const rowAccountId = row.accountId ? parseInt(row.accountId) : accountId ?? null;
+
+    return {
+      date,
+      description: String(row.description || ""),
+      amount,
+      accountId: rowAccountId,
+      fitId,
+      payload: {
+        clientId,
+        accountId: rowAccountId,
+        transactionDate: date,
+        description: row.description,
+        debitAmount: debit ? debit.toFixed(2) : "0",
+        creditAmount: credit ? credit.toFixed(2) : "0",
+        amount: Math.abs(roundAmount(amount)).toFixed(2),
+        referenceNumber: fitId,
+        category: row.category ?? null,
+        importedFrom: row.importedFrom ?? null,
+      },
+    };
+  }
+
+  /**
+   * Candidate for a manual POST /transactions body. Manual references are not
+   * bank FITIDs, so only the fingerprint applies.
+   */
+  manualCandidate(transactionData: any): DuplicateCandidate | null {
+    const date = toDateKey(transactionData.transactionDate || transactionData.date);
+    if (!date || !transactionData.description) return null;
+    const debit = parseFloat(transactionData.debitAmount || "0");
+    const credit = parseFloat(transactionData.creditAmount || "0");
+    const amount = debit !== 0 || credit !== 0 ? credit - debit : parseFloat(transactionData.amount || "0");
+    if (!amount) return null;
+
+    return {
+      date,
+      description: String(transactionData.description),
+      amount,
+      accountId: transactionData.accountId ? parseInt(transactionData.accountId) : null,
+      fitId: null,
+      payload: transactionData,
+    };
+  }
+
+  /**
+   * Closest ledger match: same FITID first, then the same fingerprint, then a
+   * similar description for the same amount within the date window. Two lines
+   * with different FITIDs are different bank transactions.
+   */
+  private findMatch(ledger: LedgerTransaction[], candidate: DuplicateCandidate): DuplicateMatch | null {
+    const fitId = candidate.fitId?.trim() || null;
+    const sameAccount = (transaction: LedgerTransaction) =>
+      !candidate.accountId || !transaction.accountId || transaction.accountId === candidate.accountId;
+
+    if (fitId) {
+      const byFitId = ledger.find((transaction) => transaction.reference === fitId && sameAccount(transaction));
+      if (byFitId) return this.toMatch(byFitId, "fitid");
+    }
+
+    const amount = Math.abs(roundAmount(candidate.amount));
+    const fingerprint = transactionFingerprint(candidate.date, candidate.amount, candidate.description);
+    const words = toWords(candidate.description);
+    // On a known account, a ledger line carrying another FITID is a separate bank transaction
+    const comparable = ledger.filter(
+      (transaction) =>
+        sameAccount(transaction) &&
+        Math.abs(Math.abs(transaction.amount) - amount) < 0.005 &&
+        !(fitId && candidate.accountId && transaction.reference && transaction.reference !== fitId)
+    );
+
+    const exact = comparable.find((transaction) => transaction.fingerprint === fingerprint);
+    if (exact) return this.toMatch(exact, "fingerprint");
+
+    const similar = comparable
+      .filter((transaction) => daysBetween(transaction.date, candidate.date) <= DATE_WINDOW_DAYS)
+      .map((transaction) => ({ transaction, score: similarity(words, transaction.tokens) }))
+      .filter((entry) => entry.score >= SIMILARITY_THRESHOLD)
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          daysBetween(a.transaction.date, candidate.date) - daysBetween(b.transaction.date, candidate.date)
+      )[0];
+    return similar ? this.toMatch(similar.transaction, "similar") : null;
+  }
+
+  private toMatch(transaction: LedgerTransaction, matchType: DuplicateMatchType): DuplicateMatch {
+    return {
+      transactionId: transaction.id,
+      matchType,
+      date: transaction.date,
+      description: transaction.description,
+      amount: transaction.amount,
+      reference: transaction.reference,
+    };
+  }
+
+  /**
+   * Client transactions dated within the window around the candidates
+   */
+  private async loadLedger(clientId: number, dates: string[]): Promise<LedgerTransaction[]> {
+    const keys = dates.filter(Boolean).sort();
+    if (keys.length === 0) return [];
+
+    const result = await pool.query(
+      `SELECT id, transaction_date, description, reference_number, amount, debit_amount, credit_amount,
+              COALESCE(source_account_id, account_id) AS bank_account_id
+       FROM transactions
+       WHERE client_id = $1 AND transaction_date >= $2 AND transaction_date <= $3`,
+      [clientId, shiftDate(keys[0], -DATE_WINDOW_DAYS), shiftDate(keys[keys.length - 1], DATE_WINDOW_DAYS)]
+    );
+
+    return result.rows.map((row: any) => {
+      const date = toDateKey(row.transaction_date) || "";
+      const amount = this.rowAmount(row);
+      const description = row.description || "";
+      return {
+        id: row.id,
+        accountId: row.bank_account_id ?? null,
+        date,
+        description,
+        reference: row.reference_number || null,
+        amount,
+        fingerprint: transactionFingerprint(date, amount, description),
+        tokens: toWords(description),
+      };
+    });
+  }
+
+  private rowAmount(row: any): number {
+    const debit = parseFloat(row.debit_amount || "0");
+    const credit = parseFloat(row.credit_amount || "0");
+    return roundAmount(debit !== 0 || credit !== 0 ? credit - debit : parseFloat(row.amount || "0"));
+  }
+
+  private async findPendingItem(clientId: number, itemId: number): Promise<DuplicateReviewItem> {
+    const [item] = await db
+      .select()
+      .from(duplicateReviewItems)
+      .where(and(eq(duplicateReviewItems.id, itemId), eq(duplicateReviewItems.clientId, clientId)))
+      .limit(1);
+    if (!item) {
+      throw new DuplicateError("Review item not found", 404);
+    }
+    if (item.status !== "pending") {
+      throw new DuplicateError(`This item was already ${item.status}`, 409);
+    }
+    return item;
+  }
+}
+
+export const duplicateDetectionService = new DuplicateDetectionService();
@@ -0,0 +1,984 @@
+/**
+ * Fixed Asset Service
+ *
+ * Per-client fixed asset register with tax and book depreciation tracked
+ * separately:
+ * - CCA (capital cost allowance) continuity by class for the T2 Schedule 8,
+ *   applying the half-year rule, the Accelerated Investment Incentive (AIIP)
+ *   and recapture/terminal loss on disposals
+ * - book depreciation (straight-line or declining balance) posted monthly as
+ *   journal entries, respecting the client's period lock
+ * - disposals, optionally posting the disposal entry with the gain or loss
+ * - the fixed-asset working paper (Schedule 8, book continuity, book-to-tax
+ *   differences) for the Binder PP&E section
+ */
+
+import fs from "fs";
+import path from "path";
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  fixedAssets,
+  fixedAssetDepreciationEntries,
+  ccaClassYears,
+  type FixedAsset,
+  type FixedAssetDepreciationEntry,
+  type CcaClassYear,
+} from "@shared/database/fixed-asset-entities";
+import { and, eq, asc } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import {
+  CCA_CLASSES,
+  taxYearFor,
+  classKeyFor,
+  computeClassYear,
+  type CcaRule,
+  type TaxYear,
+  type Schedule8Row,
+} from "./cca-schedule";
+
+export class FixedAssetError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "FixedAssetError";
+    this.status = status;
+  }
+}
+
+export type BookMethod = "straight_line" | "declining_balance" | "none";
+
+const WORKING_PAPER_DIR = "server/binder/working-papers/generated";
+
+export interface FixedAssetInput {
+  assetNumber?: string | null;
+  name: string;
+  description?: string | null;
+  acquisitionDate: string;
+  cost: number;
+  ccaClass: string;
+  ccaRate?: number | null;
+  ccaRule?: CcaRule;
+  bookMethod?: BookMethod;
+  usefulLifeMonths?: number | null;
+  bookRate?: number | null;
+  salvageValue?: number;
+  openingAccumulatedDepreciation?: number;
+  openingDepreciationDate?: string | null;
+  assetAccountId?: number | null;
+  accumulatedDepreciationAccountId?: number | null;
+  depreciationExpenseAccountId?: number | null;
+  notes?: string | null;
+}
+
+export interface DisposalInput {
+  disposalDate: string;
+  proceeds: number;
+  // Both accounts are needed to post the disposal entry; without them only the
+  // register is updated
+  proceedsAccountId?: number | null;
+  gainLossAccountId?: number | null;
+}
+
+export interface BookContinuityRow {
+  assetId: number;
+  assetNumber: string | null;
+  name: string;
+  ccaClass: string;
+  acquisitionDate: string;
+  disposalDate: string | null;
+  openingCost: number;
+  additions: number;
+  disposals: number;
+  closingCost: number;
+  openingAccumulated: number;
+  depreciation: number;
+  accumulatedOnDisposals: number;
+  closingAccumulated: number;
+  netBookValue: number;
+}
+
+export interface DepreciationPlanPeriod {
+  periodEnd: string;
+  locked: boolean;
+  lockMessage: string | null;
+  lines: Array<{ assetId: number; name: string; amount: number }>;
+  total: number;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function toNumber(value: string | number | null | undefined): number {
+  if (value === null || value === undefined) return 0;
+  const parsed = typeof value === "number" ? value : parseFloat(value);
+  return Number.isFinite(parsed) ? parsed : 0;
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Last day of the month containing a date key
+ */
+function monthEnd(dateKey: string): string {
+  const year = parseInt(dateKey.slice(0, 4));
+  const month = parseInt(dateKey.slice(5, 7));
+  return `${dateKey.slice(0, 7)}-${pad(daysInMonth(year, month))}`;
+}
+
+/**
+ * Last day of the month after the one containing a date key
+ */
+function nextMonthEnd(dateKey: string): string {
+  const year = parseInt(dateKey.slice(0, 4));
+  const month = parseInt(dateKey.slice(5, 7));
+  return month === 12 ? `${year + 1}-01-31` : monthEnd(`${year}-${pad(month + 1)}-01`);
+}
+
+function dayAfter(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().split("T")[0];
+}
+
+function dayBefore(dateKey: string): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() - 1);
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Book depreciation for one month given the depreciation accumulated so far,
+ * capped so net book value never drops below the salvage value
+ */
+export function monthlyDepreciation(asset: FixedAsset, accumulated: number): number {
+  const cost = toNumber(asset.cost);
+  const depreciableBase = cost - toNumber(asset.salvageValue);
+  const remaining = roundAmount(depreciableBase - accumulated);
+  if (remaining <= 0) return 0;
+
+  let amount = 0;
+  if (asset.bookMethod === "straight_line" && asset.usefulLifeMonths) {
+    amount = depreciableBase / asset.usefulLifeMonths;
+  } else if (asset.bookMethod === "declining_balance" && asset.bookRate) {
+    amount = (cost - accumulated) * (toNumber(asset.bookRate) / 100 / 12);
+  }
+  return roundAmount(Math.min(Math.max(0, amount), remaining));
+}
+
+/**
+ * Month end of the first month to depreciate: the month after any opening
+ * depreciation, otherwise the month of acquisition
+ */
+function firstDepreciationMonth(asset: FixedAsset): string {
+  return asset.openingDepreciationDate
+    ? nextMonthEnd(asset.openingDepreciationDate)
+    : monthEnd(asset.acquisitionDate);
+}
+
+function isDepreciable(asset: FixedAsset): boolean {
+  return (
+    asset.bookMethod !== "none" &&
+    !!asset.accumulatedDepreciationAccountId &&
+    !!asset.depreciationExpenseAccountId
+  );
+}
+
+export class FixedAssetService {
+  /**
+   * List a client's assets with book depreciation posted to date
+   */
+  async listAssets(clientId: number) {
+    const assets = await db
+      .select()
+      .from(fixedAssets)
+      .where(eq(fixedAssets.clientId, clientId))
+      .orderBy(asc(fixedAssets.ccaClass), asc(fixedAssets.acquisitionDate), asc(fixedAssets.id));
+    const entries = await this.getEntries(clientId);
+
+    return assets.map((asset) => {
+      const assetEntries = entries.filter((entry) => entry.assetId === asset.id);
+      const accumulated = roundAmount(
+        toNumber(asset.openingAccumulatedDepreciation) +
+          assetEntries.reduce((sum, entry) => sum + toNumber(entry.amount), 0)
+      );
+      return {
+        ...asset,
+        accumulatedDepreciation: accumulated,
+        netBookValue: roundAmount(toNumber(asset.cost) - accumulated),
+        depreciatedThrough: assetEntries.length
+          ? assetEntries[assetEntries.length - 1].periodEnd
+          : asset.openingDepreciationDate,
+      };
+    });
+  }
+
+  /**
+   * Get an asset with its posted depreciation
+   */
+  async getAsset(clientId: number, assetId: number) {
+    const asset = await this.findAsset(clientId, assetId);
+    const entries = await db
+      .select()
+      .from(fixedAssetDepreciationEntries)
+      .where(eq(fixedAssetDepreciationEntries.assetId, assetId))
+      .orderBy(asc(fixedAssetDepreciationEntries.periodEnd));
+    return { ...asset, depreciationEntries: entries };
+  }
+
+  async createAsset(clientId: number, input: FixedAssetInput, user?: any): Promise<FixedAsset> {
+    await this.validateAccounts(clientId, input);
+    const values = this.toRow(input);
+
+    const [asset] = await db
+      .insert(fixedAssets)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        ...values,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+    return asset;
+  }
+
+  async updateAsset(clientId: number, assetId: number, input: FixedAssetInput): Promise<FixedAsset> {
+    await this.findAsset(clientId, assetId);
+    await this.validateAccounts(clientId, input);
+
+    const [asset] = await db
+      .update(fixedAssets)
+      .set({ ...this.toRow(input), updatedAt: new Date() })
+      .where(eq(fixedAssets.id, assetId))
+      .returning();
+    return asset;
+  }
+
+  /**
+   * Delete an asset. Assets with posted depreciation or a posted disposal must
+   * be kept so the register agrees with the general ledger.
+   */
+  async deleteAsset(clientId: number, assetId: number) {
+    const asset = await this.findAsset(clientId, assetId);
+    const [entry] = await db
+      .select({ id: fixedAssetDepreciationEntries.id })
+      .from(fixedAssetDepreciationEntries)
+      .where(eq(fixedAssetDepreciationEntries.assetId, assetId))
+      .limit(1);
+
+    if (entry || asset.disposalJournalEntryId) {
+      throw new FixedAssetError("Asset has posted journal entries and cannot be deleted", 409);
+    }
+
+    await db.delete(fixedAssets).where(eq(fixedAssets.id, assetId));
+    return { success: true };
+  }
+
+  /**
+   * Record a disposal. With proceeds and gain/loss accounts (and the asset's GL
+   * accounts), posts the entry removing cost and accumulated depreciation.
+   */
+  async disposeAsset(clientId: number, assetId: number, input: DisposalInput, user?: any) {
+    const asset = await this.findAsset(clientId, assetId);
+    if (asset.status === "disposed") {
+      throw new FixedAssetError("Asset has already been disposed");
+    }
+    if (input.disposalDate < asset.acquisitionDate) {
+      throw new FixedAssetError("Disposal date cannot be before the acquisition date");
+    }
+
+    let disposalJournalEntryId: number | null = null;
+    const postEntry =
+      input.proceedsAccountId &&
+      input.gainLossAccountId &&
+      asset.assetAccountId &&
+      asset.accumulatedDepreciationAccountId;
+
+    if (postEntry) {
+      await periodLockService.assertPeriodOpen(clientId, [input.disposalDate], user);
+
+      // The entry removes accumulated depreciation as posted, so it has to be
+      // up to date through the month before disposal
+      const priorMonthEnd = dayBefore(`${input.disposalDate.slice(0, 7)}-01`);
+      const unposted = (await this.planDepreciation(clientId, priorMonthEnd, user)).some((period) =>
+        period.lines.some((line) => line.assetId === asset.id)
+      );
+      if (unposted) {
+        throw new FixedAssetError(`Post depreciation through ${priorMonthEnd} before recording this disposal`);
+      }
+
+      const accumulated = await this.accumulatedAt(asset, input.disposalDate);
+      const cost = toNumber(asset.cost);
+      const proceeds = roundAmount(input.proceeds);
+      const gain = roundAmount(proceeds + accumulated - cost);
+
+      const lines = [
+        { accountId: input.proceedsAccountId!, debitAmount: proceeds, creditAmount: 0, memo: "Proceeds of disposal" },
+        { accountId: asset.accumulatedDepreciationAccountId!, debitAmount: accumulated, creditAmount: 0, memo: "Accumulated depreciation" },
+        { accountId: asset.assetAccountId!, debitAmount: 0, creditAmount: cost, memo: "Cost of asset disposed" },
+        {
+          accountId: input.gainLossAccountId!,
+          debitAmount: gain < 0 ? -gain : 0,
+          creditAmount: gain > 0 ? gain : 0,
+          memo: gain >= 0 ? "Gain on disposal" : "Loss on disposal",
+        },
+      ].filter((line) => line.debitAmount > 0 || line.creditAmount > 0);
+
+      const journalEntry = await this.postJournalEntry(
+        clientId,
+        input.disposalDate,
+        `Disposal of ${asset.name}`,
+        lines
+      );
+      disposalJournalEntryId = journalEntry.id as number;
+    }
+
+    const [updated] = await db
+      .update(fixedAssets)
+      .set({
+        status: "disposed",
+        disposalDate: input.disposalDate,
+        disposalProceeds: roundAmount(input.proceeds).toFixed(2),
+        disposalJournalEntryId,
+        updatedAt: new Date(),
+      })
+      .where(eq(fixedAssets.id, assetId))
+      .returning();
+
+    console.log(
+      `🏷️ Disposed fixed asset "${asset.name}" for client ${clientId} on ${input.disposalDate}` +
+        (disposalJournalEntryId ? ` (journal entry ${disposalJournalEntryId})` : "")
+    );
+    return updated;
+  }
+
+  /**
+   * Book depreciation that would be posted through a date, by month end.
+   * Months in a locked period are flagged; their depreciation is caught up in
+   * the first open month.
+   */
+  async previewDepreciation(clientId: number, throughDate: string, user?: any): Promise<DepreciationPlanPeriod[]> {
+    return this.planDepreciation(clientId, throughDate, user);
+  }
+
+  /**
+   * Post book depreciation through a date: one journal entry per open month end,
+   * debiting each asset's expense account and crediting its accumulated
+   * depreciation account
+   */
+  async postDepreciation(clientId: number, throughDate: string, user?: any) {
+    const plan = await this.planDepreciation(clientId, throughDate, user);
+    const posted: Array<{ periodEnd: string; journalEntryId: number; amount: number; assets: number }> = [];
+    const skipped: Array<{ periodEnd: string; reason: string }> = [];
+
+    const assets = await this.getDepreciableAssets(clientId);
+    const assetsById = new Map(assets.map((asset) => [asset.id, asset]));
+
+    for (const period of plan) {
+      if (period.locked) {
+        skipped.push({ periodEnd: period.periodEnd, reason: period.lockMessage || "Period is locked" });
+        continue;
+      }
+      if (period.total <= 0) continue;
+
+      // One debit/credit pair per expense and accumulated depreciation account
+      const groups = new Map<string, { expense: number; accumulated: number; amount: number; count: number }>();
+      for (const line of period.lines) {
+        const asset = assetsById.get(line.assetId)!;
+        const key = `${asset.depreciationExpenseAccountId}:${asset.accumulatedDepreciationAccountId}`;
+        const group = groups.get(key) || {
+          expense: asset.depreciationExpenseAccountId!,
+          accumulated: asset.accumulatedDepreciationAccountId!,
+          amount: 0,
+          count: 0,
+        };
+        group.amount = roundAmount(group.amount + line.amount);
+        group.count++;
+        groups.set(key, group);
+      }
+
+      const entryLines = Array.from(groups.values()).flatMap((group) => {
+        const memo = `Depreciation - ${group.count} asset${group.count === 1 ? "" : "s"}`;
+        return [
+          { accountId: group.expense, debitAmount: group.amount, creditAmount: 0, memo },
+          { accountId: group.accumulated, debitAmount: 0, creditAmount: group.amount, memo },
+        ];
+      });
+
+      const journalEntry = await this.postJournalEntry(
+        clientId,
+        period.periodEnd,
+        `Depreciation for the month ended ${period.periodEnd}`,
+        entryLines
+      );
+
+      await db.insert(fixedAssetDepreciationEntries).values(
+        period.lines.map((line) => ({
+          assetId: line.assetId,
+          clientId,
+          periodEnd: period.periodEnd,
+          amount: line.amount.toFixed(2),
+          journalEntryId: journalEntry.id as number,
+          createdBy: user?.id ?? null,
+        }))
+      );
+
+      posted.push({
+        periodEnd: period.periodEnd,
+        journalEntryId: journalEntry.id as number,
+        amount: period.total,
+        assets: period.lines.length,
+      });
+    }
+
+    if (posted.length) {
+      console.log(`🏗️ Posted depreciation for client ${clientId} through ${throughDate}: ${posted.length} entries`);
+    }
+    return { posted, skipped };
+  }
+
+  /**
+   * Schedule 8 CCA continuity for the tax year containing `date`. Each class is
+   * rolled forward from its first year, or from an opening UCC entered for a
+   * year, using the CCA actually claimed where one was entered. Class 10.1
+   * vehicles are each rolled forward as a separate class.
+   */
+  async getSchedule8(clientId: number, date?: string | null) {
+    const settings = await storage.getClientBookkeepingSettings(clientId);
+    const fyeMonth = settings?.fiscalYearEndMonth || 12;
+    const fyeDay = settings?.fiscalYearEndDay || 31;
+    const targetYear = taxYearFor(toDateKey(date || new Date()) as string, fyeMonth, fyeDay);
+
+    const assets = await db.select().from(fixedAssets).where(eq(fixedAssets.clientId, clientId));
+    const classYears = await db.select().from(ccaClassYears).where(eq(ccaClassYears.clientId, clientId));
+
+    const classKeys = new Set<string>([
+      ...assets.map((asset) => classKeyFor(asset.ccaClass, asset.id)),
+      ...classYears.filter((row) => row.taxYearEnd <= targetYear.end).map((row) => row.ccaClass),
+    ]);
+    const sortOrder = (key: string) => [parseFloat(key), parseInt(key.split(":")[1] || "0")];
+
+    const rows: Schedule8Row[] = [];
+    const sortedKeys = Array.from(classKeys).sort((a, b) => {
+      const [classA, assetA] = sortOrder(a);
+      const [classB, assetB] = sortOrder(b);
+      return classA - classB || assetA - assetB || a.localeCompare(b);
+    });
+    for (const classKey of sortedKeys) {
+      const ccaClass = classKey.split(":")[0];
+      const classAssets = assets.filter((asset) => classKeyFor(asset.ccaClass, asset.id) === classKey);
+      const vehicle = classKey !== ccaClass ? classAssets[0] : null;
+      if (vehicle?.disposalDate && vehicle.disposalDate < targetYear.start) continue;
+
+      const overrides = classYears.filter((row) => row.ccaClass === classKey);
+      const rate = classAssets.length ? toNumber(classAssets[0].ccaRate) : CCA_CLASSES[ccaClass]?.rate ?? 0;
+      const row = this.rollForwardClass(ccaClass, rate, classAssets, overrides, targetYear, fyeMonth, fyeDay);
+      if (!row) continue;
+
+      rows.push({
+        ...row,
+        classKey,
+        assetId: vehicle?.id ?? null,
+        description: vehicle ? `${vehicle.assetNumber ? `${vehicle.assetNumber} ` : ""}${vehicle.name}` : row.description,
+      });
+    }
+
+    const sum = (key: keyof Schedule8Row) => roundAmount(rows.reduce((total, row) => total + (row[key] as number), 0));
+    return {
+      taxYear: targetYear,
+      rows,
+      totals: {
+        openingUcc: sum("openingUcc"),
+        additions: sum("additions"),
+        proceeds: sum("proceeds"),
+        reducedUcc: sum("reducedUcc"),
+        recapture: sum("recapture"),
+        terminalLoss: sum("terminalLoss"),
+        cca: sum("cca"),
+        closingUcc: sum("closingUcc"),
+        capitalGains: sum("capitalGains"),
+      },
+    };
+  }
+
+  /**
+   * Enter an opening UCC and/or the CCA claimed for a class and tax year
+   */
+  async setClassYear(
+    clientId: number,
+    input: { ccaClass: string; taxYearEnd: string; openingUcc?: number | null; ccaClaimed?: number | null }
+  ): Promise<CcaClassYear> {
+    const values = {
+      openingUcc: input.openingUcc === null || input.openingUcc === undefined ? null : roundAmount(input.openingUcc).toFixed(2),
+      ccaClaimed: input.ccaClaimed === null || input.ccaClaimed === undefined ? null : roundAmount(input.ccaClaimed).toFixed(2),
+      updatedAt: new Date(),
+    };
+
+    const [row] = await db
+      .insert(ccaClassYears)
+      .values({ clientId, ccaClass: input.ccaClass, taxYearEnd: input.taxYearEnd, ...values })
+      .onConflictDoUpdate({
+        target: [ccaClassYears.clientId, ccaClassYears.ccaClass, ccaClassYears.taxYearEnd],
+        set: values,
+      })
+      .returning();
+    return row;
+  }
+
+  /**
+   * Book continuity (cost and accumulated depreciation roll-forward) per asset
+   * for a tax year, from depreciation posted through the register
+   */
+  async getBookContinuity(clientId: number, year: TaxYear) {
+    const assets = await db
+      .select()
+      .from(fixedAssets)
+      .where(eq(fixedAssets.clientId, clientId))
+      .orderBy(asc(fixedAssets.ccaClass), asc(fixedAssets.acquisitionDate), asc(fixedAssets.id));
+    const entries = await this.getEntries(clientId);
+
+    const rows: BookContinuityRow[] = [];
+    for (const asset of assets) {
+      if (asset.acquisitionDate > year.end) continue;
+      if (asset.disposalDate && asset.disposalDate < year.start) continue;
+
+      const cost = toNumber(asset.cost);
+      const assetEntries = entries.filter((entry) => entry.assetId === asset.id);
+      const accumulatedThrough = (dateKey: string) =>
+        roundAmount(
+          toNumber(asset.openingAccumulatedDepreciation) +
+            assetEntries.filter((entry) => entry.periodEnd <= dateKey).reduce((sum, entry) => sum + toNumber(entry.amount), 0)
+        );
+
+      const acquiredInYear = asset.acquisitionDate >= year.start;
+      const disposedInYear = !!asset.disposalDate && asset.disposalDate <= year.end;
+
+      const openingCost = acquiredInYear ? 0 : cost;
+      const additions = acquiredInYear ? cost : 0;
+      const disposals = disposedInYear ? cost : 0;
+      const openingAccumulated = acquiredInYear ? 0 : accumulatedThrough(dayBefore(year.start));
+      const depreciation = roundAmount(
+        assetEntries
+          .filter((entry) => entry.periodEnd >= year.start && entry.periodEnd <= year.end)
+          .reduce((sum, entry) => sum + toNumber(entry.amount), 0)
+      );
+      const accumulatedOnDisposals = disposedInYear ? roundAmount(openingAccumulated + depreciation) : 0;
+      const closingCost = roundAmount(openingCost + additions - disposals);
+      const closingAccumulated = roundAmount(openingAccumulated + depreciation - accumulatedOnDisposals);
+
+      rows.push({
+        assetId: asset.id,
+        assetNumber: asset.assetNumber,
+        name: asset.name,
+        ccaClass: asset.ccaClass,
+        acquisitionDate: asset.acquisitionDate,
+        disposalDate: asset.disposalDate,
+        openingCost,
+        additions,
+        disposals,
+        closingCost,
+        openingAccumulated,
+        depreciation,
+        accumulatedOnDisposals,
+        closingAccumulated,
+        netBookValue: roundAmount(closingCost - closingAccumulated),
+      });
+    }
+
+    const sum = (key: keyof BookContinuityRow) => roundAmount(rows.reduce((total, row) => total + (row[key] as number), 0));
+    return {
+      rows,
+      totals: {
+        openingCost: sum("openingCost"),
+        additions: sum("additions"),
+        disposals: sum("disposals"),
+        closingCost: sum("closingCost"),
+        openingAccumulated: sum("openingAccumulated"),
+        depreciation: sum("depreciation"),
+        accumulatedOnDisposals: sum("accumulatedOnDisposals"),
+        closingAccumulated: sum("closingAccumulated"),
+        netBookValue: sum("netBookValue"),
+      },
+    };
+  }
+
+  /**
+   * Schedule 8, book continuity and the book-to-tax differences carried to
+   * Schedule 1 for a tax year
+   */
+  async getContinuity(clientId: number, date?: string | null) {
+    const schedule8 = await this.getSchedule8(clientId, date);
+    const book = await this.getBookContinuity(clientId, schedule8.taxYear);
+
+    const bookToTax = {
+      bookDepreciation: book.totals.depreciation,
+      cca: schedule8.totals.cca,
+      recapture: schedule8.totals.recapture,
+      terminalLoss: schedule8.totals.terminalLoss,
+      // Positive adds to net income for tax purposes
+      netAdjustment: roundAmount(
+        book.totals.depreciation + schedule8.totals.recapture - schedule8.totals.cca - schedule8.totals.terminalLoss
+      ),
+    };
+
+    return { taxYear: schedule8.taxYear, schedule8, book, bookToTax };
+  }
+
+  /**
+   * Fixed-asset working paper workbook for a tax year
+   */
+  async buildWorkingPaper(clientId: number, date?: string | null): Promise<{ buffer: Buffer; fileName: string }> {
+    const continuity = await this.getContinuity(clientId, date);
+    const client = await storage.getClient(clientId);
+    const clientName = client?.name || "Company";
+    const { taxYear, schedule8, book, bookToTax } = continuity;
+    const period = `Tax year ${taxYear.start} to ${taxYear.end}`;
+
+    const XLSX = await import("xlsx");
+    const workbook = XLSX.utils.book_new();
+
+    const scheduleData: any[][] = [
+      [clientName],
+      ["CCA Continuity - T2 Schedule 8"],
+      [period],
+      [""],
+      [
+        "Class (1)", "Description", "Opening UCC (2)", "Additions (3)", "AIIP additions (4)",
+        "Proceeds (6)", "UCC (7)", "Net AIIP additions (9)", "AIIP adjustment (10)",
+        "Half-year adjustment (11)", "Reduced UCC (12)", "Rate % (13)", "Recapture (14)",
+        "Terminal loss (15)", "CCA (16)", "Closing UCC (17)",
+      ],
+    ];
+    for (const row of schedule8.rows) {
+      scheduleData.push([
+        row.ccaClass, row.description, row.openingUcc, row.additions, row.aiipAdditions,
+        row.proceeds, row.uccAfterAdditions, row.netAiipAdditions, row.aiipAdjustment,
+        row.halfYearAdjustment, row.reducedUcc, row.rate, row.recapture,
+        row.terminalLoss, row.cca, row.closingUcc,
+      ]);
+    }
+    scheduleData.push([""]);
+    scheduleData.push([
+      "Total", "", schedule8.totals.openingUcc, schedule8.totals.additions, "",
+      schedule8.totals.proceeds, "", "", "", "", schedule8.totals.reducedUcc, "",
+      schedule8.totals.recapture, schedule8.totals.terminalLoss, schedule8.totals.cca, schedule8.totals.closingUcc,
+    ]);
+    if (schedule8.rows.some((row) => row.claimOverridden)) {
+      scheduleData.push([""]);
+      scheduleData.push(["CCA claimed is less than the maximum for one or more classes."]);
+    }
+    const scheduleSheet = XLSX.utils.aoa_to_sheet(scheduleData);
+    scheduleSheet["!cols"] = [{ wch: 10 }, { wch: 40 }, ...Array(14).fill({ wch: 15 })];
+    XLSX.utils.book_append_sheet(workbook, scheduleSheet, "Schedule 8");
+
+    const bookData: any[][] = [
+      [clientName],
+      ["Fixed Asset Continuity - Book"],
+      [period],
+      [""],
+      [
+        "Asset #", "Asset", "Class", "Acquired", "Disposed", "Opening cost", "Additions",
+        "Disposals", "Closing cost", "Opening accum. dep.", "Depreciation",
+        "Accum. dep. on disposals", "Closing accum. dep.", "Net book value",
+      ],
+    ];
+    for (const row of book.rows) {
+      bookData.push([
+        row.assetNumber || "", row.name, row.ccaClass, row.acquisitionDate, row.disposalDate || "",
+        row.openingCost, row.additions, row.disposals, row.closingCost, row.openingAccumulated,
+        row.depreciation, row.accumulatedOnDisposals, row.closingAccumulated, row.netBookValue,
+      ]);
+    }
+    bookData.push([""]);
+    bookData.push([
+      "Total", "", "", "", "", book.totals.openingCost, book.totals.additions, book.totals.disposals,
+      book.totals.closingCost, book.totals.openingAccumulated, book.totals.depreciation,
+      book.totals.accumulatedOnDisposals, book.totals.closingAccumulated, book.totals.netBookValue,
+    ]);
+    const bookSheet = XLSX.utils.aoa_to_sheet(bookData);
+    bookSheet["!cols"] = [{ wch: 10 }, { wch: 35 }, { wch: 8 }, { wch: 12 }, { wch: 12 }, ...Array(9).fill({ wch: 15 })];
+    XLSX.utils.book_append_sheet(workbook, bookSheet, "Book Continuity");
+
+    const reconciliationData: any[][] = [
+      [clientName],
+      ["Book-to-Tax Differences - T2 Schedule 1"],
+      [period],
+      [""],
+      ["Book depreciation (add back)", bookToTax.bookDepreciation],
+      ["Recapture of CCA (add)", bookToTax.recapture],
+      ["Capital cost allowance (deduct)", -bookToTax.cca],
+      ["Terminal loss (deduct)", -bookToTax.terminalLoss],
+      [""],
+      ["Net adjustment to net income", bookToTax.netAdjustment],
+      [""],
+      ["Taxable capital gains are reported on Schedule 6", schedule8.totals.capitalGains],
+    ];
+    const reconciliationSheet = XLSX.utils.aoa_to_sheet(reconciliationData);
+    reconciliationSheet["!cols"] = [{ wch: 45 }, { wch: 15 }];
+    XLSX.utils.book_append_sheet(workbook, reconciliationSheet, "Book to Tax");
+
+    const buffer = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+    return { buffer, fileName: `fixed-assets-${clientId}-${taxYear.end}.xlsx` };
+  }
+
+  /**
+   * Save the working paper with the Binder's generated working papers so the
+   * PP&E section can list and download it
+   */
+  async attachWorkingPaper(clientId: number, date?: string | null) {
+    const { buffer, fileName } = await this.buildWorkingPaper(clientId, date);
+    fs.mkdirSync(WORKING_PAPER_DIR, { recursive: true });
+    fs.writeFileSync(path.join(WORKING_PAPER_DIR, fileName), buffer);
+
+    return {
+      files: [
+        {
+          fileName,
+          type: "excel",
+          size: buffer.length,
+          url: `/api/binder/working-papers/download/${fileName}`,
+        },
+      ],
+    };
+  }
+
+  private rollForwardClass(
+    ccaClass: string,
+    rate: number,
+    assets: FixedAsset[],
+    overrides: CcaClassYear[],
+    targetYear: TaxYear,
+    fyeMonth: number,
+    fyeDay: number
+  ): Schedule8Row | null {
+    const firstDates = [
+      ...assets.map((asset) => asset.acquisitionDate),
+      ...overrides.filter((row) => row.openingUcc !== null).map((row) => row.taxYearEnd),
+    ].filter((dateKey) => dateKey <= targetYear.end);
+    if (firstDates.length === 0) return null;
+
+    let year = taxYearFor(firstDates.sort()[0], fyeMonth, fyeDay);
+    let openingUcc = 0;
+    let row: Schedule8Row | null = null;
+
+    while (year.end <= targetYear.end) {
+      const override = overrides.find((candidate) => candidate.taxYearEnd === year.end);
+      if (override?.openingUcc !== null && override?.openingUcc !== undefined) {
+        openingUcc = toNumber(override.openingUcc);
+      }
+      const claimed = override?.ccaClaimed !== null && override?.ccaClaimed !== undefined
+        ? toNumber(override.ccaClaimed)
+        : null;
+
+      row = computeClassYear(ccaClass, rate, openingUcc, assets, year, claimed);
+      openingUcc = row.closingUcc;
+      year = taxYearFor(dayAfter(year.end), fyeMonth, fyeDay);
+    }
+    return row;
+  }
+
+  private async planDepreciation(clientId: number, throughDate: string, user?: any): Promise<DepreciationPlanPeriod[]> {
+    const through = monthEnd(throughDate);
+    const assets = await this.getDepreciableAssets(clientId);
+    const entries = await this.getEntries(clientId);
+    const lock = await periodLockService.getLock(clientId);
+
+    const state = new Map<number, { accumulated: number; depreciatedThrough: string | null; pending: number }>();
+    let firstMonth: string | null = null;
+    for (const asset of assets) {
+      const assetEntries = entries.filter((entry) => entry.assetId === asset.id);
+      const depreciatedThrough = assetEntries.length
+        ? assetEntries[assetEntries.length - 1].periodEnd
+        : asset.openingDepreciationDate
+          ? monthEnd(asset.openingDepreciationDate)
+          : null;
+      state.set(asset.id, {
+        accumulated: roundAmount(
+          toNumber(asset.openingAccumulatedDepreciation) +
+            assetEntries.reduce((sum, entry) => sum + toNumber(entry.amount), 0)
+        ),
+        depreciatedThrough,
+        pending: 0,
+      });
+
+      const start = depreciatedThrough ? nextMonthEnd(depreciatedThrough) : firstDepreciationMonth(asset);
+      if (!firstMonth || start < firstMonth) firstMonth = start;
+    }
+
+    const plan: DepreciationPlanPeriod[] = [];
+    if (!firstMonth) return plan;
+
+    for (let periodEnd: string = firstMonth; periodEnd <= through; periodEnd = nextMonthEnd(periodEnd)) {
+      for (const asset of assets) {
+        const assetState = state.get(asset.id)!;
+        if (periodEnd < firstDepreciationMonth(asset)) continue;
+        if (assetState.depreciatedThrough && periodEnd <= assetState.depreciatedThrough) continue;
+        // No depreciation in the month of disposal
+        if (asset.disposalDate && periodEnd >= monthEnd(asset.disposalDate)) continue;
+
+        assetState.pending = roundAmount(
+          assetState.pending + monthlyDepreciation(asset, assetState.accumulated + assetState.pending)
+        );
+      }
+
+      const lockError = periodLockService.checkDate(lock, periodEnd, user);
+      const lines = assets
+        .filter((asset) => state.get(asset.id)!.pending > 0)
+        .map((asset) => ({ assetId: asset.id, name: asset.name, amount: state.get(asset.id)!.pending }));
+      const total = roundAmount(lines.reduce((sum, line) => sum + line.amount, 0));
+
+      if (lockError) {
+        // Carry the month forward into the first open period
+        if (total > 0) {
+          plan.push({ periodEnd, locked: true, lockMessage: lockError.message, lines, total });
+        }
+        continue;
+      }
+
+      if (total > 0) {
+        plan.push({ periodEnd, locked: false, lockMessage: null, lines, total });
+      }
+      for (const asset of assets) {
+        const assetState = state.get(asset.id)!;
+        assetState.accumulated = roundAmount(assetState.accumulated + assetState.pending);
+        assetState.pending = 0;
+      }
+    }
+    return plan;
+  }
+
+  private async getDepreciableAssets(clientId: number): Promise<FixedAsset[]> {
+    const assets = await db
+      .select()
+      .from(fixedAssets)
+      .where(eq(fixedAssets.clientId, clientId))
+      .orderBy(asc(fixedAssets.id));
+    return assets.filter(isDepreciable);
+  }
+
+  private async getEntries(clientId: number): Promise<FixedAssetDepreciationEntry[]> {
+    return db
+      .select()
+      .from(fixedAssetDepreciationEntries)
+      .where(eq(fixedAssetDepreciationEntries.clientId, clientId))
+      .orderBy(asc(fixedAssetDepreciationEntries.periodEnd));
+  }
+
+  private async accumulatedAt(asset: FixedAsset, dateKey: string): Promise<number> {
+    const entries = await db
+      .select()
+      .from(fixedAssetDepreciationEntries)
+      .where(eq(fixedAssetDepreciationEntries.assetId, asset.id));
+    return roundAmount(
+      toNumber(asset.openingAccumulatedDepreciation) +
+        entries.filter((entry) => entry.periodEnd <= monthEnd(dateKey)).reduce((sum, entry) => sum + toNumber(entry.amount), 0)
+    );
+  }
+
+  private async postJournalEntry(
+    clientId: number,
+    entryDate: string,
+    description: string,
+    lines: Array<{ accountId: number; debitAmount: number; creditAmount: number; memo?: string | null }>
+  ) {
+    const total = roundAmount(lines.reduce((sum, line) => sum + line.debitAmount, 0));
+    const journalEntry = await storage.createJournalEntry({
+      clientId,
+      description,
+      entryDate: new Date(`${entryDate}T12:00:00`),
+      totalDebit: total,
+      totalCredit: total,
+      status: "posted",
+      isBalanced: true,
+    });
+
+    for (const line of lines) {
+      await storage.createJournalEntryLine({
+        journalEntryId: journalEntry.id,
+        accountId: line.accountId,
+        debitAmount: line.debitAmount,
+        creditAmount: line.creditAmount,
+        memo: line.memo,
+      });
+    }
+
+    return journalEntry;
+  }
+
+  private async validateAccounts(clientId: number, input: FixedAssetInput) {
+    const accountIds = [
+      input.assetAccountId,
+      input.accumulatedDepreciationAccountId,
+      input.depreciationExpenseAccountId,
+    ].filter((id): id is number => !!id);
+    if (accountIds.length === 0) return;
+
+    const accounts = await storage.getAccounts(clientId);
+    const known = new Set(accounts.map((account: any) => account.id));
+    const missing = accountIds.filter((id) => !known.has(id));
+    if (missing.length) {
+      throw new FixedAssetError(`Account ${missing.join(", ")} does not belong to this client`);
+    }
+  }
+
+  private toRow(input: FixedAssetInput) {
+    const bookMethod = input.bookMethod ?? "straight_line";
+    if (bookMethod === "straight_line" && !input.usefulLifeMonths) {
+      throw new FixedAssetError("Useful life is required for straight-line depreciation");
+    }
+    if (bookMethod === "declining_balance" && !input.bookRate) {
+      throw new FixedAssetError("A rate is required for declining-balance depreciation");
+    }
+    if (toNumber(input.salvageValue) > input.cost) {
+      throw new FixedAssetError("Salvage value cannot exceed cost");
+    }
+
+    const ccaRate = input.ccaRate ?? CCA_CLASSES[input.ccaClass]?.rate;
+    if (ccaRate === undefined || ccaRate === null) {
+      throw new FixedAssetError(`Enter the CCA rate for class ${input.ccaClass}`);
+    }
+
+    return {
+      assetNumber: input.assetNumber ?? null,
+      name: input.name,
+      description: input.description ?? null,
+      acquisitionDate: input.acquisitionDate,
+      cost: roundAmount(input.cost).toFixed(2),
+      ccaClass: input.ccaClass,
+      ccaRate: ccaRate.toFixed(4),
+      ccaRule: input.ccaRule ?? "half_year",
+      bookMethod,
+      usefulLifeMonths: input.usefulLifeMonths ?? null,
+      bookRate: input.bookRate ? input.bookRate.toFixed(4) : null,
+      salvageValue: roundAmount(input.salvageValue ?? 0).toFixed(2),
+      openingAccumulatedDepreciation: roundAmount(input.openingAccumulatedDepreciation ?? 0).toFixed(2),
+      openingDepreciationDate: input.openingDepreciationDate ?? null,
+      assetAccountId: input.assetAccountId ?? null,
+      accumulatedDepreciationAccountId: input.accumulatedDepreciationAccountId ?? null,
+      depreciationExpenseAccountId: input.depreciationExpenseAccountId ?? null,
+      notes: input.notes ?? null,
+    };
+  }
+
+  private async findAsset(clientId: number, assetId: number): Promise<FixedAsset> {
+    const [asset] = await db
+      .select()
+      .from(fixedAssets)
+      .where(and(eq(fixedAssets.id, assetId), eq(fixedAssets.clientId, clientId)));
+
+    if (!asset) {
+      throw new FixedAssetError("Fixed asset not found", 404);
+    }
+    return asset;
+  }
+}
+
+export const fixedAssetService = new FixedAssetService();
@@ -0,0 +1,419 @@
+/**
+ * Import Batch Service
+ *
+ * Stamps every general ledger, journal entry and bank transaction import with
+ * a batch record and lets a manager roll a whole batch back:
+ * - importers open a batch before writing and close it with the ids of what
+ *   they created, their row counts and row errors
+ * - rollback deletes everything the batch created (and entries posted from
+ *   its transactions since) in one database transaction, and is refused when
+ *   any of it is dated in a locked period or sits on a finalized bank
+ *   reconciliation
+ * - the mapping of the latest batch from the same source is offered for the
+ *   next import
+ */
+
+import { createHash, randomUUID } from "crypto";
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { journalEntries, journalEntryLines, transactions } from "@shared/schema";
+import {
+  importBatches,
+  importBatchRecords,
+  type ImportBatch,
+} from "@shared/database/import-batch-entities";
+import { reconciliationReports, reconciliationReportItems } from "@shared/database/reconciliation-report-entities";
+import { and, eq, desc, inArray, isNotNull, sql } from "drizzle-orm";
+import { isAdminRole } from "../module-access";
+import { periodLockService, PeriodLockedError, toDateKey } from "./period-lock-service";
+import { duplicateDetectionService, type DuplicateSource } from "./duplicate-detection-service";
+import { receiptMatchingService } from "./receipt-matching-service";
+
+export class ImportBatchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ImportBatchError";
+    this.status = status;
+  }
+}
+
+export type ImportSource = "general_ledger" | "journal_entries" | "transactions";
+
+export interface ImportBatchMeta {
+  fileName?: string | null;
+  fileHash?: string | null;
+  sourceName?: string | null;
+  mapping?: unknown;
+}
+
+export interface ImportedRecord {
+  recordType: "journal_entry" | "transaction";
+  recordId: number;
+  recordDate?: Date | string | null;
+}
+
+export interface ImportRowError {
+  rowNumber: number | null;
+  message: string;
+  errorType: "validation" | "reference" | "duplicate" | "format" | "required" | "system" | "locked";
+}
+
+/**
+ * SHA-256 of the submitted rows, for imports that arrive without the file
+ */
+export function hashRows(rows: unknown): string {
+  return createHash("sha256").update(JSON.stringify(rows ?? [])).digest("hex");
+}
+
+/**
+ * Row error for a failed import line; period lock refusals are told apart so
+ * the history shows why a row was left out
+ */
+export function toRowError(rowNumber: number | null, error: unknown, context?: string): ImportRowError {
+  const message = (error as Error)?.message || String(error);
+  return {
+    rowNumber,
+    message: context ? `${context}: ${message}` : message,
+    errorType: error instanceof PeriodLockedError ? "locked" : "system",
+  };
+}
+
+export class ImportBatchService {
+  /**
+   * Open a batch before an importer writes anything
+   */
+  async startBatch(
+    clientId: number,
+    source: ImportSource,
+    meta: ImportBatchMeta & { rowCount: number; rows?: unknown },
+    user?: any
+  ): Promise<ImportBatch> {
+    const [batch] = await db
+      .insert(importBatches)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        source,
+        sourceName: meta.sourceName?.trim() || null,
+        fileName: meta.fileName || null,
+        fileHash: meta.fileHash || hashRows(meta.rows),
+        mapping: meta.mapping !== undefined && meta.mapping !== null ? JSON.stringify(meta.mapping) : null,
+        rowCount: meta.rowCount,
+        status: "importing",
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+    return batch;
+  }
+
+  /**
+   * Close a batch with what it created. A batch that stopped on an unexpected
+   * error is marked failed but keeps its records so it can still be rolled back.
+   */
+  async finishBatch(
+    batchId: number,
+    result: {
+      records: ImportedRecord[];
+      skippedCount?: number;
+      failedCount?: number;
+      duplicateCount?: number;
+      errors?: ImportRowError[];
+      failed?: boolean;
+    }
+  ): Promise<ImportBatch> {
+    const records = result.records.map((record) => ({
+      batchId,
+      recordType: record.recordType,
+      recordId: record.recordId,
+      recordDate: toDateKey(record.recordDate),
+    }));
+    for (let i = 0; i < records.length; i += 500) {
+      await db.insert(importBatchRecords).values(records.slice(i, i + 500));
+    }
+
+    const dates = records.map((record) => record.recordDate).filter((value): value is string => !!value).sort();
+    const [batch] = await db
+      .update(importBatches)
+      .set({
+        importedCount: records.length,
+        skippedCount: result.skippedCount ?? 0,
+        failedCount: result.failedCount ?? 0,
+        duplicateCount: result.duplicateCount ?? 0,
+        errors: result.errors && result.errors.length > 0 ? JSON.stringify(result.errors) : null,
+        status: result.failed ? "failed" : "completed",
+        earliestDate: dates[0] ?? null,
+        latestDate: dates[dates.length - 1] ?? null,
+        completedAt: new Date(),
+      })
+      .where(eq(importBatches.id, batchId))
+      .returning();
+    return batch;
+  }
+
+  async listBatches(clientId: number) {
+    const batches = await db
+      .select()
+      .from(importBatches)
+      .where(eq(importBatches.clientId, clientId))
+      .orderBy(desc(importBatches.createdAt), desc(importBatches.id));
+    return batches.map((batch) => this.toView(batch));
+  }
+
+  /**
+   * A batch with its row errors and the number of records of each type
+   */
+  async getBatch(clientId: number, batchId: number) {
+    const batch = await this.findBatch(clientId, batchId);
+    const records = await db.select().from(importBatchRecords).where(eq(importBatchRecords.batchId, batchId));
+    return {
+      ...this.toView(batch),
+      journalEntryCount: records.filter((record) => record.recordType === "journal_entry").length,
+      transactionCount: records.filter((record) => record.recordType === "transaction").length,
+    };
+  }
+
+  /**
+   * Mapping of the latest completed batch from the same source, for the next
+   * import to start from
+   */
+  async getLastMapping(clientId: number, source: ImportSource, sourceName?: string | null) {
+    const conditions = [
+      eq(importBatches.clientId, clientId),
+      eq(importBatches.source, source),
+      eq(importBatches.status, "completed"),
+      isNotNull(importBatches.mapping),
+    ];
+    if (sourceName) conditions.push(eq(importBatches.sourceName, sourceName));
+
+    const [batch] = await db
+      .select()
+      .from(importBatches)
+      .where(and(...conditions))
+      .orderBy(desc(importBatches.createdAt), desc(importBatches.id))
+      .limit(1);
+    if (!batch) return null;
+    return {
+      batchId: batch.id,
+      fileName: batch.fileName,
+      importedAt: batch.createdAt,
+      mapping: this.parseJson(batch.mapping),
+    };
+  }
+
+  /**
+   * Import bank lines as transactions inside a batch. Lines already in the
+   * ledger are skipped or held for duplicate review, and lines dated in a
+   * locked period are reported as row errors.
+   */
+  async importTransactions(
+    clientId: number,
+    rows: any[],
+    options: ImportBatchMeta & {
+      accountId?: number | null;
+      force?: { reason: string };
+      duplicateSource?: DuplicateSource;
+    },
+    user?: any
+  ) {
+    const candidates = rows.map((row) => duplicateDetectionService.importCandidate(clientId, row, options.accountId));
+    const screened = await duplicateDetectionService.screen(clientId, candidates, {
+      source: options.duplicateSource ?? "import",
+      user,
+      force: options.force,
+    });
+
+    const batch = await this.startBatch(
+      clientId,
+      "transactions",
+      { ...options, rowCount: rows.length, rows },
+      user
+    );
+    const assertPeriodOpen = await periodLockService.createGuard(clientId, user);
+    const records: ImportedRecord[] = [];
+    const errors: ImportRowError[] = [];
+
+    for (const { index, candidate } of screened.accepted) {
+      try {
+        if (!candidate.date) {
+          throw new ImportBatchError("Missing or invalid date");
+        }
+        assertPeriodOpen(candidate.date);
+        const transaction = await storage.createTransaction({
+          ...candidate.payload,
+          transactionGroupId: randomUUID(),
+        });
+        records.push({ recordType: "transaction", recordId: transaction.id, recordDate: candidate.date });
+      } catch (error) {
+        errors.push(toRowError(index + 1, error));
+      }
+    }
+
+    const finished = await this.finishBatch(batch.id, {
+      records,
+      skippedCount: screened.summary.skippedDuplicates,
+      duplicateCount: screened.summary.skippedDuplicates + screened.summary.queuedForReview,
+      failedCount: errors.length,
+      errors,
+    });
+
+    // New transactions may be what receipts in the awaiting queue were paid with
+    if (records.length > 0) {
+      await receiptMatchingService.matchAwaiting(clientId, user).catch((error) => {
+        console.error("Receipt matching after import failed:", error);
+      });
+    }
+
+    return { batch: this.toView(finished), duplicates: screened.summary, errors };
+  }
+
+  /**
+   * Delete everything a batch created in one database transaction. Managers
+   * only; refused if any of it is dated in a locked period (soft locks
+   * included, since the manager exemption is meant for corrections, not for
+   * removing whole imports) or is on a finalized bank reconciliation.
+   */
+  async rollback(clientId: number, batchId: number, reason: string, user?: any) {
+    if (!isAdminRole(user?.role)) {
+      throw new ImportBatchError("A manager role is required to roll back an import", 403);
+    }
+    if (!reason?.trim()) {
+      throw new ImportBatchError("A reason is required to roll back an import");
+    }
+    const batch = await this.findBatch(clientId, batchId);
+    if (batch.status === "rolled_back") {
+      throw new ImportBatchError("This import was already rolled back", 409);
+    }
+    if (batch.status === "importing") {
+      throw new ImportBatchError("This import is still running", 409);
+    }
+
+    const records = await db.select().from(importBatchRecords).where(eq(importBatchRecords.batchId, batchId));
+    const transactionIds = records
+      .filter((record) => record.recordType === "transaction")
+      .map((record) => record.recordId);
+    const importedEntryIds = records
+      .filter((record) => record.recordType === "journal_entry")
+      .map((record) => record.recordId);
+
+    // Entries posted from the batch's transactions since the import go with them
+    const postedEntries = transactionIds.length
+      ? await db
+          .select({ id: journalEntries.id })
+          .from(journalEntries)
+          .where(and(eq(journalEntries.clientId, clientId), inArray(journalEntries.sourceTransactionId, transactionIds)))
+      : [];
+    const journalEntryIds = Array.from(new Set([...importedEntryIds, ...postedEntries.map((entry) => entry.id)]));
+
+    const dates = await this.recordDates(clientId, journalEntryIds, transactionIds);
+    await periodLockService.assertPeriodOpen(clientId, dates);
+
+    if (transactionIds.length > 0) {
+      const [reconciled] = await db
+        .select({ count: sql<number>`count(*)::int` })
+        .from(reconciliationReportItems)
+        .innerJoin(reconciliationReports, eq(reconciliationReports.id, reconciliationReportItems.reportId))
+        .where(and(
+          eq(reconciliationReports.clientId, clientId),
+          eq(reconciliationReports.status, "finalized"),
+          inArray(reconciliationReportItems.transactionId, transactionIds)
+        ));
+      if (reconciled?.count > 0) {
+        throw new ImportBatchError(
+          "Some of this import's transactions are on a finalized bank reconciliation; undo the reconciliation first",
+          409
+        );
+      }
+    }
+
+    await db.transaction(async (tx) => {
+      if (journalEntryIds.length > 0) {
+        await tx.delete(journalEntryLines).where(inArray(journalEntryLines.journalEntryId, journalEntryIds));
+        await tx
+          .delete(journalEntries)
+          .where(and(eq(journalEntries.clientId, clientId), inArray(journalEntries.id, journalEntryIds)));
+      }
+      if (transactionIds.length > 0) {
+        await tx
+          .delete(transactions)
+          .where(and(eq(transactions.clientId, clientId), inArray(transactions.id, transactionIds)));
+      }
+      await tx
+        .update(importBatches)
+        .set({
+          status: "rolled_back",
+          rolledBackBy: user?.id ?? null,
+          rolledBackAt: new Date(),
+          rollbackReason: reason.trim(),
+        })
+        .where(eq(importBatches.id, batchId));
+    });
+
+    return {
+      batch: this.toView(await this.findBatch(clientId, batchId)),
+      deletedJournalEntries: journalEntryIds.length,
+      deletedTransactions: transactionIds.length,
+    };
+  }
+
+  /**
+   * Current dates of the records, so entries redated since the import are
+   * checked where they are now
+   */
+  private async recordDates(clientId: number, journalEntryIds: number[], transactionIds: number[]): Promise<string[]> {
+    const dates: string[] = [];
+    if (journalEntryIds.length > 0) {
+      const entries = await db
+        .select({ entryDate: journalEntries.entryDate })
+        .from(journalEntries)
+        .where(and(eq(journalEntries.clientId, clientId), inArray(journalEntries.id, journalEntryIds)));
+      for (const entry of entries) {
+        const key = toDateKey(entry.entryDate);
+        if (key) dates.push(key);
+      }
+    }
+    if (transactionIds.length > 0) {
+      const rows = await db
+        .select({ transactionDate: transactions.transactionDate })
+        .from(transactions)
+        .where(and(eq(transactions.clientId, clientId), inArray(transactions.id, transactionIds)));
+      for (const row of rows) {
+        const key = toDateKey(row.transactionDate);
+        if (key) dates.push(key);
+      }
+    }
+    return dates;
+  }
+
+  private async findBatch(clientId: number, batchId: number): Promise<ImportBatch> {
+    const [batch] = await db
+      .select()
+      .from(importBatches)
+      .where(and(eq(importBatches.id, batchId), eq(importBatches.clientId, clientId)))
+      .limit(1);
+    if (!batch) {
+      throw new ImportBatchError("Import batch not found", 404);
+    }
+    return batch;
+  }
+
+  private toView(batch: ImportBatch) {
+    return {
+      ...batch,
+      mapping: this.parseJson(batch.mapping),
+      errors: (this.parseJson(batch.errors) as ImportRowError[] | null) || [],
+    };
+  }
+
+  private parseJson(value: string | null): unknown {
+    if (!value) return null;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return null;
+    }
+  }
+}
+
+export const importBatchService = new ImportBatchService();
@@ -0,0 +1,117 @@
+/**
+ * Invoice Allocation
+ *
+ * Rules for allocating a payment or credit across a customer's invoices, with
+ * no database access (the customer payment service loads the invoices and
+ * writes the results):
+ * - which invoices are open and how much is left on them
+ * - which allocations are acceptable, returned as a problem rather than thrown
+ *   so the caller raises its own error
+ * - the amountPaid and status an invoice ends up with when an allocation is
+ *   applied or taken back
+ */
+
+export const CLOSED_INVOICE_STATUSES = ["cancelled", "void", "voided"];
+
+export interface AllocationInput {
+  invoiceId: number;
+  amount: number;
+}
+
+export interface AllocationProblem {
+  message: string;
+  status: number;
+}
+
+export interface InvoicePaidUpdate {
+  amountPaid: number;
+  status: string | null;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function formatMoney(amount: number): string {
+  return amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+}
+
+export function invoiceBalance(invoice: any): number {
+  return roundAmount(parseFloat(invoice.amountDue || "0") - parseFloat(invoice.amountPaid || "0"));
+}
+
+export function isOpenInvoice(invoice: any): boolean {
+  return !CLOSED_INVOICE_STATUSES.includes(invoice.status) && invoiceBalance(invoice) > 0;
+}
+
+/**
+ * Check the allocations on their own: positive amounts, each invoice once
+ */
+export function allocationProblem(allocations: AllocationInput[]): AllocationProblem | null {
+  const seen = new Set<number>();
+  for (const allocation of allocations) {
+    if (allocation.amount <= 0) {
+      return { message: "Allocated amounts must be greater than zero", status: 400 };
+    }
+    if (seen.has(allocation.invoiceId)) {
+      return { message: "An invoice can only be allocated once per payment", status: 400 };
+    }
+    seen.add(allocation.invoiceId);
+  }
+  return null;
+}
+
+/**
+ * Match each allocation to one of the client's invoices, checking it belongs
+ * to the customer, is not closed and has enough balance left
+ */
+export function matchAllocations(
+  customerId: number,
+  allocations: AllocationInput[],
+  clientInvoices: any[]
+): { invoices: Map<number, any>; problem: AllocationProblem | null } {
+  const invoices = new Map<number, any>();
+
+  for (const allocation of allocations) {
+    const invoice = clientInvoices.find((candidate: any) => candidate.id === allocation.invoiceId);
+    if (!invoice || invoice.customerId !== customerId) {
+      return { invoices, problem: { message: `Invoice ${allocation.invoiceId} not found for this customer`, status: 404 } };
+    }
+    if (CLOSED_INVOICE_STATUSES.includes(invoice.status)) {
+      return { invoices, problem: { message: `Invoice ${invoice.invoiceNumber} is ${invoice.status}`, status: 400 } };
+    }
+    const balance = invoiceBalance(invoice);
+    if (roundAmount(allocation.amount) > balance) {
+      return {
+        invoices,
+        problem: {
+          message: `${formatMoney(allocation.amount)} is more than the ${formatMoney(balance)} left on invoice ${invoice.invoiceNumber}`,
+          status: 400,
+        },
+      };
+    }
+    invoices.set(invoice.id, invoice);
+  }
+
+  return { invoices, problem: null };
+}
+
+/**
+ * amountPaid after applying `amount` to the invoice; status is "paid" once
+ * nothing is left, otherwise null (unchanged)
+ */
+export function paidAfterApplying(invoice: any, amount: number): InvoicePaidUpdate {
+  const amountPaid = roundAmount(parseFloat(invoice.amountPaid || "0") + amount);
+  const paidInFull = amountPaid >= roundAmount(parseFloat(invoice.amountDue || "0"));
+  return { amountPaid, status: paidInFull ? "paid" : null };
+}
+
+/**
+ * amountPaid after taking `amount` back off the invoice (never below zero);
+ * a paid invoice with a balance again goes back to "sent", otherwise null (unchanged)
+ */
+export function paidAfterUnapplying(invoice: any, amount: number): InvoicePaidUpdate {
+  const amountPaid = Math.max(0, roundAmount(parseFloat(invoice.amountPaid || "0") - amount));
+  const reopened = invoice.status === "paid" && amountPaid < roundAmount(parseFloat(invoice.amountDue || "0"));
+  return { amountPaid, status: reopened ? "sent" : null };
+}
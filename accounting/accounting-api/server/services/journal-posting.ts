@@ -0,0 +1,59 @@
+/**
+ * Journal Posting
+ *
+ * Posted, balanced journal entries written inside a caller's db.transaction,
+ * for services that must post an entry together with their own records
+ * (recurring journals, customer payments, payment runs, realized FX) so that
+ * neither is ever left without the other.
+ */
+
+import { db } from "../db";
+import { journalEntries, journalEntryLines } from "@shared/schema";
+
+export type DbTransaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+export interface PostingLine {
+  accountId: number;
+  debitAmount: number;
+  creditAmount: number;
+  memo?: string | null;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Insert a posted journal entry and its lines dated `entryDate` (YYYY-MM-DD);
+ * returns the new entry
+ */
+export async function insertPostedJournalEntry(
+  tx: DbTransaction,
+  entry: { clientId: number; entryDate: string; description: string; lines: PostingLine[] }
+) {
+  const total = roundAmount(entry.lines.reduce((sum, line) => sum + line.debitAmount, 0));
+  const [journalEntry] = await tx
+    .insert(journalEntries)
+    .values({
+      clientId: entry.clientId,
+      description: entry.description,
+      entryDate: new Date(`${entry.entryDate}T12:00:00`),
+      totalDebit: total.toFixed(2),
+      totalCredit: total.toFixed(2),
+      status: "posted",
+      isBalanced: true,
+    })
+    .returning();
+
+  await tx.insert(journalEntryLines).values(
+    entry.lines.map((line) => ({
+      journalEntryId: journalEntry.id,
+      accountId: line.accountId,
+      debitAmount: roundAmount(line.debitAmount).toFixed(2),
+      creditAmount: roundAmount(line.creditAmount).toFixed(2),
+      memo: line.memo ?? null,
+    }))
+  );
+
+  return journalEntry;
+}
@@ -0,0 +1,294 @@
+/**
+ * Mapping Profile Service
+ *
+ * Saved column mappings for bank and source system exports:
+ * - profiles are kept per firm, either shared across its clients or limited
+ *   to one client
+ * - an uploaded file is matched to a profile by its header row, searched a few
+ *   rows down so exports with a preamble are still recognised; the match is
+ *   reported with a confidence and only applied above AUTO_APPLY_CONFIDENCE,
+ *   otherwise the upload falls back to manual mapping
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  importMappingProfiles,
+  type ImportMappingProfile,
+} from "@shared/database/mapping-profile-entities";
+import { and, eq, desc, isNull, or, sql } from "drizzle-orm";
+
+export class MappingProfileError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "MappingProfileError";
+    this.status = status;
+  }
+}
+
+export const MAPPING_SOURCES = ["transactions", "general_ledger"] as const;
+export const AMOUNT_MODES = ["signed", "debit_credit"] as const;
+export const SIGN_CONVENTIONS = ["positive-out", "positive-in"] as const;
+export const DATE_FORMATS = ["auto", "YYYY-MM-DD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY", "YYYYMMDD"] as const;
+export const DECIMAL_SEPARATORS = [".", ","] as const;
+
+export type MappingSource = (typeof MAPPING_SOURCES)[number];
+
+// A file is mapped with a profile without asking only at or above this match
+const AUTO_APPLY_CONFIDENCE = 0.8;
+// How far down a file the header row is looked for
+const HEADER_SCAN_ROWS = 15;
+// Small penalty when the header row sits at a different offset than saved
+const OFFSET_PENALTY = 0.05;
+
+export interface MappingProfileInput {
+  name: string;
+  source: MappingSource;
+  clientId?: number | null;
+  institution?: string | null;
+  headers: string[];
+  headerRowOffset?: number;
+  columnMapping: Record<string, string>;
+  amountMode?: (typeof AMOUNT_MODES)[number];
+  signConvention?: (typeof SIGN_CONVENTIONS)[number];
+  dateFormat?: (typeof DATE_FORMATS)[number];
+  decimalSeparator?: (typeof DECIMAL_SEPARATORS)[number];
+}
+
+export type MappingProfileView = Omit<ImportMappingProfile, "headers" | "columnMapping"> & {
+  headers: string[];
+  columnMapping: Record<string, string>;
+  shared: boolean;
+};
+
+export interface ProfileDetection {
+  profile: MappingProfileView;
+  confidence: number;
+  autoApplied: boolean;
+  // Where the header row was found in this file and what it contains
+  headerRowOffset: number;
+  headers: string[];
+  // Target field -> column index in this file, null when the header is missing
+  columns: Record<string, number | null>;
+}
+
+export function normalizeHeader(value: unknown): string {
+  return String(value ?? "")
+    .replace(/^\uFEFF/, "")
+    .replace(/["']/g, "")
+    .replace(/\s+/g, " ")
+    .trim()
+    .toLowerCase();
+}
+
+export function headerSignature(headers: unknown[]): string {
+  return headers.map(normalizeHeader).filter(Boolean).join("|");
+}
+
+export class MappingProfileService {
+  /**
+   * Firm whose profiles apply: the user's own, or else the client's
+   */
+  async resolveFirmId(clientId: number | null, user?: any): Promise<number> {
+    if (user?.firmId) return user.firmId;
+    const client = clientId ? await storage.getClient(clientId) : null;
+    if (!client?.firmId) {
+      throw new MappingProfileError("No firm found for mapping profiles");
+    }
+    return client.firmId;
+  }
+
+  /**
+   * Shared profiles plus, when a client is given, that client's own
+   */
+  async listProfiles(firmId: number, filter: { source?: MappingSource; clientId?: number | null } = {}) {
+    const conditions = [eq(importMappingProfiles.firmId, firmId)];
+    if (filter.source) conditions.push(eq(importMappingProfiles.source, filter.source));
+    conditions.push(
+      filter.clientId
+        ? or(isNull(importMappingProfiles.clientId), eq(importMappingProfiles.clientId, filter.clientId))!
+        : isNull(importMappingProfiles.clientId)
+    );
+
+    const profiles = await db
+      .select()
+      .from(importMappingProfiles)
+      .where(and(...conditions))
+      .orderBy(desc(importMappingProfiles.lastUsedAt), importMappingProfiles.name);
+    return profiles.map((profile) => this.toView(profile));
+  }
+
+  async createProfile(firmId: number, input: MappingProfileInput, user?: any) {
+    const [profile] = await db
+      .insert(importMappingProfiles)
+      .values({ firmId, ...this.toValues(input), createdBy: user?.id ?? null })
+      .returning();
+    return this.toView(profile);
+  }
+
+  async updateProfile(firmId: number, profileId: number, input: MappingProfileInput) {
+    await this.findProfile(firmId, profileId);
+    const [profile] = await db
+      .update(importMappingProfiles)
+      .set({ ...this.toValues(input), updatedAt: new Date() })
+      .where(eq(importMappingProfiles.id, profileId))
+      .returning();
+    return this.toView(profile);
+  }
+
+  async deleteProfile(firmId: number, profileId: number) {
+    await this.findProfile(firmId, profileId);
+    await db.delete(importMappingProfiles).where(eq(importMappingProfiles.id, profileId));
+  }
+
+  /**
+   * Best profile for the rows of an uploaded file, or null when none of the
+   * firm's profiles shares a header with it. Confidence is the overlap of the
+   * saved and found header rows, scaled by how many mapped columns were found.
+   */
+  async detect(
+    firmId: number,
+    clientId: number | null,
+    source: MappingSource,
+    rows: unknown[][]
+  ): Promise<ProfileDetection | null> {
+    const profiles = await this.listProfiles(firmId, { source, clientId });
+    if (profiles.length === 0 || rows.length === 0) return null;
+
+    let best: ProfileDetection | null = null;
+    const scanRows = Math.min(HEADER_SCAN_ROWS, rows.length);
+
+    for (let offset = 0; offset < scanRows; offset++) {
+      const found = (rows[offset] || []).map(normalizeHeader);
+      const foundSet = new Set(found.filter(Boolean));
+      if (foundSet.size === 0) continue;
+
+      for (const profile of profiles) {
+        const saved = new Set(profile.headers.map(normalizeHeader).filter(Boolean));
+        const shared = Array.from(saved).filter((header) => foundSet.has(header)).length;
+        if (shared === 0) continue;
+
+        const columns: Record<string, number | null> = {};
+        const mapped = Object.entries(profile.columnMapping);
+        let mappedFound = 0;
+        for (const [field, header] of mapped) {
+          const index = found.indexOf(normalizeHeader(header));
+          columns[field] = index >= 0 ? index : null;
+          if (index >= 0) mappedFound++;
+        }
+
+        let confidence =
+          headerSignature(rows[offset] || []) === profile.headerSignature
+            ? 1
+            : shared / new Set([...Array.from(saved), ...Array.from(foundSet)]).size;
+        if (mapped.length > 0) confidence *= mappedFound / mapped.length;
+        if (offset !== profile.headerRowOffset) confidence -= OFFSET_PENALTY;
+        confidence = Math.max(0, Math.round(confidence * 100) / 100);
+
+        // Ties go to the client's own profile over a shared one
+        const better =
+          !best ||
+          confidence > best.confidence ||
+          (confidence === best.confidence && !profile.shared && best.profile.shared);
+        if (better) {
+          best = {
+            profile,
+            confidence,
+            autoApplied: confidence >= AUTO_APPLY_CONFIDENCE,
+            headerRowOffset: offset,
+            headers: (rows[offset] || []).map((cell) => String(cell ?? "").trim()),
+            columns,
+          };
+        }
+      }
+    }
+
+    if (best?.autoApplied) {
+      await db
+        .update(importMappingProfiles)
+        .set({ useCount: sql`${importMappingProfiles.useCount} + 1`, lastUsedAt: new Date() })
+        .where(eq(importMappingProfiles.id, best.profile.id));
+    }
+    return best;
+  }
+
+  /**
+   * Detection for a file being parsed: never fails the upload, which simply
+   * falls back to manual mapping
+   */
+  async detectForUpload(
+    clientId: number | null,
+    user: any,
+    source: MappingSource,
+    rows: unknown[][]
+  ): Promise<ProfileDetection | null> {
+    try {
+      const firmId = await this.resolveFirmId(clientId, user);
+      return await this.detect(firmId, clientId, source, rows);
+    } catch (error) {
+      console.error("Mapping profile detection failed:", error);
+      return null;
+    }
+  }
+
+  private toValues(input: MappingProfileInput) {
+    const headers = input.headers.map((header) => String(header ?? "").trim());
+    const known = new Set(headers.map(normalizeHeader));
+    const missing = Object.values(input.columnMapping).filter((header) => !known.has(normalizeHeader(header)));
+    if (missing.length > 0) {
+      throw new MappingProfileError(`Mapped columns are not in the header row: ${missing.join(", ")}`);
+    }
+    if (!headerSignature(headers)) {
+      throw new MappingProfileError("A header row is required");
+    }
+
+    return {
+      name: input.name.trim(),
+      source: input.source,
+      clientId: input.clientId ?? null,
+      institution: input.institution?.trim() || null,
+      headerSignature: headerSignature(headers),
+      headers: JSON.stringify(headers),
+      headerRowOffset: input.headerRowOffset ?? 0,
+      columnMapping: JSON.stringify(input.columnMapping),
+      amountMode: input.amountMode ?? "signed",
+      signConvention: input.signConvention ?? "positive-out",
+      dateFormat: input.dateFormat ?? "auto",
+      decimalSeparator: input.decimalSeparator ?? ".",
+    };
+  }
+
+  private async findProfile(firmId: number, profileId: number): Promise<ImportMappingProfile> {
+    const [profile] = await db
+      .select()
+      .from(importMappingProfiles)
+      .where(and(eq(importMappingProfiles.id, profileId), eq(importMappingProfiles.firmId, firmId)))
+      .limit(1);
+    if (!profile) {
+      throw new MappingProfileError("Mapping profile not found", 404);
+    }
+    return profile;
+  }
+
+  private toView(profile: ImportMappingProfile): MappingProfileView {
+    return {
+      ...profile,
+      headers: this.parseJson(profile.headers, []),
+      columnMapping: this.parseJson(profile.columnMapping, {}),
+      shared: profile.clientId === null,
+    };
+  }
+
+  private parseJson<T>(value: string | null, fallback: T): T {
+    if (!value) return fallback;
+    try {
+      return JSON.parse(value);
+    } catch {
+      return fallback;
+    }
+  }
+}
+
+export const mappingProfileService = new MappingProfileService();
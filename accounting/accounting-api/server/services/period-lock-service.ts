@@ -0,0 +1,253 @@
+/**
+ * Period Lock Service
+ *
+ * Enforces per-client accounting period locks on every ledger write path:
+ * - Hard lock ("closed through"): no one may post, edit or delete on or before the date
+ * - Soft lock: staff are blocked, manager roles (isAdminRole) may still write
+ * - Reopening (moving a lock date back) requires a manager role and a reason,
+ *   and every lock change is written to the audit log
+ */
+
+import { db } from "../db";
+import {
+  clientPeriodLocks,
+  periodLockAuditLog,
+  type ClientPeriodLock,
+} from "@shared/database/period-lock-entities";
+import { eq, desc } from "drizzle-orm";
+import { isAdminRole } from "../module-access";
+
+export class PeriodLockedError extends Error {
+  status: number;
+  code: string;
+  lockType: "closed" | "soft";
+  lockDate: string;
+
+  constructor(lockType: "closed" | "soft", lockDate: string, entryDate: string) {
+    super(
+      lockType === "closed"
+        ? `The books are closed through ${lockDate}. Entries dated ${entryDate} cannot be changed until the period is reopened.`
+        : `The period through ${lockDate} is locked for staff. A manager must post or change entries dated ${entryDate}.`
+    );
+    this.name = "PeriodLockedError";
+    this.status = 423;
+    this.code = lockType === "closed" ? "PERIOD_CLOSED" : "PERIOD_SOFT_LOCKED";
+    this.lockType = lockType;
+    this.lockDate = lockDate;
+  }
+
+  toResponse() {
+    return {
+      error: this.message,
+      message: this.message,
+      code: this.code,
+      lockType: this.lockType,
+      lockDate: this.lockDate,
+    };
+  }
+}
+
+export class PeriodLockChangeError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "PeriodLockChangeError";
+    this.status = status;
+  }
+}
+
+/**
+ * Normalize a Date or date string to YYYY-MM-DD for lock comparisons
+ */
+export function toDateKey(value: Date | string | null | undefined): string | null {
+  if (!value) return null;
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+    return value.slice(0, 10);
+  }
+  const parsed = value instanceof Date ? value : new Date(value);
+  if (isNaN(parsed.getTime())) return null;
+  return parsed.toISOString().split("T")[0];
+}
+
+export class PeriodLockService {
+  /**
+   * Get the lock row for a client (undefined when the books are fully open)
+   */
+  async getLock(clientId: number): Promise<ClientPeriodLock | undefined> {
+    const [lock] = await db
+      .select()
+      .from(clientPeriodLocks)
+      .where(eq(clientPeriodLocks.clientId, clientId))
+      .limit(1);
+
+    return lock;
+  }
+
+  /**
+   * Check a single date against a lock row. Returns the error to throw, or null
+   * when the write is allowed for this user.
+   */
+  checkDate(
+    lock: ClientPeriodLock | undefined,
+    entryDate: Date | string | null | undefined,
+    user?: any
+  ): PeriodLockedError | null {
+    const dateKey = toDateKey(entryDate);
+    if (!lock || !dateKey) return null;
+
+    if (lock.closedThroughDate && dateKey <= lock.closedThroughDate) {
+      return new PeriodLockedError("closed", lock.closedThroughDate, dateKey);
+    }
+
+    if (lock.softLockDate && dateKey <= lock.softLockDate && !isAdminRole(user?.role)) {
+      return new PeriodLockedError("soft", lock.softLockDate, dateKey);
+    }
+
+    return null;
+  }
+
+  /**
+   * Throw PeriodLockedError if any of the given dates falls in a locked period
+   */
+  async assertPeriodOpen(
+    clientId: number,
+    dates: Array<Date | string | null | undefined>,
+    user?: any
+  ): Promise<void> {
+    const lock = await this.getLock(clientId);
+    for (const entryDate of dates) {
+      const error = this.checkDate(lock, entryDate, user);
+      if (error) throw error;
+    }
+  }
+
+  /**
+   * Load the lock once and return a synchronous checker for bulk import loops.
+   * The checker throws PeriodLockedError for dates in a locked period.
+   */
+  async createGuard(clientId: number, user?: any): Promise<(entryDate: Date | string | null | undefined) => void> {
+    const lock = await this.getLock(clientId);
+    return (entryDate) => {
+      const error = this.checkDate(lock, entryDate, user);
+      if (error) throw error;
+    };
+  }
+
+  /**
+   * Set or move lock dates. Moving either date earlier (or clearing it) is a
+   * reopen and needs a reason. All changes require a manager role.
+   */
+  async updateLock(params: {
+    clientId: number;
+    closedThroughDate?: string | null;
+    softLockDate?: string | null;
+    reason?: string;
+    user: any;
+  }): Promise<ClientPeriodLock> {
+    if (!isAdminRole(params.user?.role)) {
+      throw new PeriodLockChangeError("A manager role is required to change period locks", 403);
+    }
+
+    return this.writeLock(params);
+  }
+
+  /**
+   * Advance the hard lock to a year-end after the books are closed.
+   * Never moves an existing lock backwards, so no manager role is needed.
+   */
+  async closeThrough(clientId: number, fiscalYearEnd: Date | string, user: any): Promise<ClientPeriodLock | undefined> {
+    const closeDate = toDateKey(fiscalYearEnd);
+    const existing = await this.getLock(clientId);
+    if (!closeDate || (existing?.closedThroughDate && existing.closedThroughDate >= closeDate)) {
+      return existing;
+    }
+
+    return this.writeLock({
+      clientId,
+      closedThroughDate: closeDate,
+      reason: `Year-end closing as of ${closeDate}`,
+      user,
+      action: "year_end_close",
+    });
+  }
+
+  /**
+   * Audit history of lock changes for a client, newest first
+   */
+  async getAuditLog(clientId: number): Promise<any[]> {
+    return db
+      .select()
+      .from(periodLockAuditLog)
+      .where(eq(periodLockAuditLog.clientId, clientId))
+      .orderBy(desc(periodLockAuditLog.createdAt));
+  }
+
+  /**
+   * Persist new lock dates and record the change in the audit log
+   */
+  private async writeLock(params: {
+    clientId: number;
+    closedThroughDate?: string | null;
+    softLockDate?: string | null;
+    reason?: string;
+    user: any;
+    action?: string;
+  }): Promise<ClientPeriodLock> {
+    const { clientId, user } = params;
+
+    const existing = await this.getLock(clientId);
+    const previousClosed = existing?.closedThroughDate ?? null;
+    const previousSoft = existing?.softLockDate ?? null;
+
+    const newClosed = params.closedThroughDate === undefined
+      ? previousClosed
+      : toDateKey(params.closedThroughDate);
+    const newSoft = params.softLockDate === undefined
+      ? previousSoft
+      : toDateKey(params.softLockDate);
+
+    const reopensClosed = !!previousClosed && (!newClosed || newClosed < previousClosed);
+    const reopensSoft = !!previousSoft && (!newSoft || newSoft < previousSoft);
+    const isReopen = reopensClosed || reopensSoft;
+
+    if (isReopen && !params.reason?.trim()) {
+      throw new PeriodLockChangeError("A reason is required to reopen a locked period");
+    }
+
+    const values = {
+      closedThroughDate: newClosed,
+      softLockDate: newSoft,
+      firmId: user?.firmId ?? null,
+      updatedBy: user?.id ?? null,
+      updatedAt: new Date(),
+    };
+
+    const [lock] = existing
+      ? await db
+          .update(clientPeriodLocks)
+          .set(values)
+          .where(eq(clientPeriodLocks.clientId, clientId))
+          .returning()
+      : await db
+          .insert(clientPeriodLocks)
+          .values({ clientId, ...values })
+          .returning();
+
+    await db.insert(periodLockAuditLog).values({
+      clientId,
+      firmId: user?.firmId ?? null,
+      action: params.action || (isReopen ? "reopen" : "lock"),
+      previousClosedThroughDate: previousClosed,
+      newClosedThroughDate: newClosed,
+      previousSoftLockDate: previousSoft,
+      newSoftLockDate: newSoft,
+      reason: params.reason?.trim() || null,
+      userId: user?.id ?? null,
+    });
+
+    return lock;
+  }
+}
+
+export const periodLockService = new PeriodLockService();
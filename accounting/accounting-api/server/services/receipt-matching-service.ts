@@ -0,0 +1,565 @@
+/**
+ * Receipt Matching Service
+ *
+ * Attaches captured receipts to the bank or card transactions that paid them:
+ * - the OCR fields (vendor, date, total, GST/HST/PST/QST) are normalised and
+ *   kept with the match, whatever shape the extraction returned them in
+ * - receipts are scored against unreconciled transactions by amount, a date
+ *   window (card lines usually post a few days after the purchase) and vendor
+ *   wording; a clear winner is matched automatically, anything else waits in
+ *   the "awaiting transaction" queue with its best candidates
+ * - matching a receipt prefills the transaction's input tax credit with the
+ *   receipt's GST/HST, unless the transaction already has a tax amount, is
+ *   already posted or is in a locked period
+ * - the queue is retried whenever new transactions arrive, and a transaction
+ *   can only carry one receipt
+ */
+
+import { db, pool } from "../db";
+import { receiptMatches, type ReceiptMatch } from "@shared/database/receipt-match-entities";
+import { and, eq, desc, inArray } from "drizzle-orm";
+import { periodLockService, toDateKey, PeriodLockedError } from "./period-lock-service";
+import { normalizePayee } from "./reconciliation-match-service";
+
+export class ReceiptMatchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ReceiptMatchError";
+    this.status = status;
+  }
+}
+
+export type ReceiptMatchStatus = "awaiting_transaction" | "matched" | "dismissed";
+
+export interface ReceiptFields {
+  vendor: string | null;
+  date: string | null;
+  total: number | null;
+  subtotal: number | null;
+  gst: number;
+  hst: number;
+  pst: number;
+  qst: number;
+  // Tax printed without saying which tax it is
+  otherTax: number;
+}
+
+export interface ReceiptInput {
+  receiptId: string;
+  fileName?: string | null;
+  extractedData: Record<string, any> | null;
+}
+
+export interface MatchCandidate {
+  transactionId: number;
+  date: string;
+  description: string;
+  amount: number;
+  score: number;
+  reasons: string[];
+}
+
+interface LedgerTransaction {
+  id: number;
+  date: string;
+  description: string;
+  amount: number;
+  taxAmount: number;
+}
+
+// The card line may post a little before the printed date (pre-authorised
+// fuel, hotel) but usually after it
+const DAYS_BEFORE_RECEIPT = 2;
+const DAYS_AFTER_RECEIPT = 5;
+const AMOUNT_TOLERANCE = 0.01;
+// Score weights; an exact amount on the receipt date scores 85 with no vendor evidence
+const AMOUNT_WEIGHT = 60;
+const DATE_WEIGHT = 25;
+const VENDOR_WEIGHT = 15;
+const AUTO_MATCH_SCORE = 75;
+// The best candidate must beat the runner-up by this much to be matched automatically
+const AUTO_MATCH_MARGIN = 10;
+const CANDIDATE_LIMIT = 5;
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function dayOffset(from: string, to: string): number {
+  const [fy, fm, fd] = from.split("-").map(Number);
+  const [ty, tm, td] = to.split("-").map(Number);
+  return (Date.UTC(ty, tm - 1, td) - Date.UTC(fy, fm - 1, fd)) / 86400000;
+}
+
+function shiftDate(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+function toAmount(value: unknown): number | null {
+  if (value === null || value === undefined || value === "") return null;
+  const amount = typeof value === "number" ? value : parseFloat(String(value).replace(/[^\d.-]/g, ""));
+  return Number.isFinite(amount) ? roundAmount(Math.abs(amount)) : null;
+}
+
+function vendorSimilarity(vendor: string, description: string): number {
+  const vendorWords = normalizePayee(vendor).split(" ").filter(Boolean);
+  const descriptionText = normalizePayee(description);
+  if (vendorWords.length === 0 || !descriptionText) return 0;
+  const found = vendorWords.filter((word) => descriptionText.includes(word.length > 6 ? word.slice(0, 6) : word));
+  return found.length / vendorWords.length;
+}
+
+/**
+ * Which sales tax a label names: "GST", "HST 13%", "TPS", "TVQ", "PST/RST"...
+ */
+function taxTypeOf(label: unknown): keyof Pick<ReceiptFields, "gst" | "hst" | "pst" | "qst"> | null {
+  const text = String(label || "").toUpperCase();
+  if (/\bHST\b|\bTVH\b/.test(text)) return "hst";
+  if (/\bGST\b|\bTPS\b/.test(text)) return "gst";
+  if (/\bQST\b|\bTVQ\b/.test(text)) return "qst";
+  if (/\bPST\b|\bRST\b/.test(text)) return "pst";
+  return null;
+}
+
+/**
+ * Receipt fields from OCR output. Taxes are read from explicit per-tax
+ * amounts, a list or map of taxes, or a single tax amount with its label;
+ * a tax that cannot be identified is kept as other tax.
+ */
+export function extractReceiptFields(extracted: Record<string, any> | null): ReceiptFields {
+  const data = extracted || {};
+  const fields: ReceiptFields = {
+    vendor: (data.vendor || data.merchant || data.vendorName || "").toString().trim() || null,
+    date: toDateKey(data.date || data.transactionDate || data.receiptDate) || null,
+    total: toAmount(data.total ?? data.totalAmount ?? data.amount),
+    subtotal: toAmount(data.subtotal ?? data.netAmount),
+    gst: toAmount(data.gstAmount ?? data.gst) || 0,
+    hst: toAmount(data.hstAmount ?? data.hst) || 0,
+    pst: toAmount(data.pstAmount ?? data.pst) || 0,
+    qst: toAmount(data.qstAmount ?? data.qst) || 0,
+    otherTax: 0,
+  };
+
+  const listed: Array<{ label: unknown; amount: unknown }> = Array.isArray(data.taxes)
+    ? data.taxes.map((tax: any) => ({ label: tax.type || tax.name || tax.label, amount: tax.amount }))
+    : data.taxes && typeof data.taxes === "object"
+      ? Object.entries(data.taxes).map(([label, amount]) => ({ label, amount }))
+      : [];
+  if (fields.gst + fields.hst + fields.pst + fields.qst === 0 && listed.length === 0 && data.taxAmount) {
+    listed.push({ label: data.taxName || data.taxType || data.taxLabel, amount: data.taxAmount });
+  }
+
+  for (const tax of listed) {
+    const amount = toAmount(tax.amount) || 0;
+    const type = taxTypeOf(tax.label);
+    if (type) fields[type] = roundAmount(fields[type] + amount);
+    else fields.otherTax = roundAmount(fields.otherTax + amount);
+  }
+  return fields;
+}
+
+/**
+ * Score a transaction as the payment of a receipt; null when the amount or
+ * date rules it out
+ */
+export function scoreReceiptMatch(
+  fields: Pick<ReceiptFields, "vendor" | "date" | "total">,
+  transaction: Pick<LedgerTransaction, "date" | "description" | "amount">
+): { score: number; reasons: string[] } | null {
+  if (!fields.total || !fields.date) return null;
+  if (Math.abs(Math.abs(transaction.amount) - fields.total) > AMOUNT_TOLERANCE) return null;
+
+  const offset = dayOffset(fields.date, transaction.date);
+  if (offset < -DAYS_BEFORE_RECEIPT || offset > DAYS_AFTER_RECEIPT) return null;
+
+  const reasons = ["Amount matches receipt total"];
+  const window = offset < 0 ? DAYS_BEFORE_RECEIPT : DAYS_AFTER_RECEIPT;
+  let score = AMOUNT_WEIGHT + DATE_WEIGHT * (1 - Math.abs(offset) / (window + 1));
+  reasons.push(offset === 0 ? "Same date" : `Posted ${Math.abs(offset)} day(s) ${offset > 0 ? "after" : "before"} receipt`);
+
+  if (fields.vendor) {
+    const similarity = vendorSimilarity(fields.vendor, transaction.description);
+    if (similarity > 0) {
+      score += VENDOR_WEIGHT * similarity;
+      reasons.push(similarity === 1 ? "Vendor name matches" : "Vendor name partly matches");
+    }
+  }
+  return { score: Math.round(score), reasons };
+}
+
+export class ReceiptMatchingService {
+  /**
+   * Record the OCR fields of processed receipts and try to match them.
+   * Receipts already matched or dismissed keep their state.
+   */
+  async recordReceipts(clientId: number, receipts: ReceiptInput[], user?: any) {
+    const existing = receipts.length
+      ? await db
+          .select()
+          .from(receiptMatches)
+          .where(
+            and(
+              eq(receiptMatches.clientId, clientId),
+              inArray(receiptMatches.receiptId, receipts.map((receipt) => receipt.receiptId))
+            )
+          )
+      : [];
+    const byReceipt = new Map(existing.map((row) => [row.receiptId, row]));
+
+    const toMatch: ReceiptMatch[] = [];
+    for (const receipt of receipts) {
+      const current = byReceipt.get(receipt.receiptId);
+      if (current && current.status !== "awaiting_transaction") continue;
+
+      const fields = extractReceiptFields(receipt.extractedData);
+      const values = {
+        fileName: receipt.fileName ?? current?.fileName ?? null,
+        vendor: fields.vendor,
+        receiptDate: fields.date,
+        totalAmount: fields.total?.toFixed(2) ?? null,
+        subtotalAmount: fields.subtotal?.toFixed(2) ?? null,
+        gstAmount: fields.gst.toFixed(2),
+        hstAmount: fields.hst.toFixed(2),
+        pstAmount: fields.pst.toFixed(2),
+        qstAmount: fields.qst.toFixed(2),
+        otherTaxAmount: fields.otherTax.toFixed(2),
+        updatedAt: new Date(),
+      };
+
+      const [row] = current
+        ? await db.update(receiptMatches).set(values).where(eq(receiptMatches.id, current.id)).returning()
+        : await db
+            .insert(receiptMatches)
+            .values({ clientId, receiptId: receipt.receiptId, ...values })
+            .returning();
+      toMatch.push(row);
+    }
+
+    await this.attemptMatches(clientId, toMatch, user);
+    return this.listReceipts(clientId);
+  }
+
+  /**
+   * Retry the client's awaiting receipts, e.g. after a bank feed sync or
+   * statement import brought in new transactions
+   */
+  async matchAwaiting(clientId: number, user?: any) {
+    const awaiting = await db
+      .select()
+      .from(receiptMatches)
+      .where(and(eq(receiptMatches.clientId, clientId), eq(receiptMatches.status, "awaiting_transaction")));
+    const matched = await this.attemptMatches(clientId, awaiting, user);
+    return { matched, awaiting: awaiting.length - matched };
+  }
+
+  async listReceipts(clientId: number, status?: ReceiptMatchStatus) {
+    const rows = await db
+      .select()
+      .from(receiptMatches)
+      .where(
+        status
+          ? and(eq(receiptMatches.clientId, clientId), eq(receiptMatches.status, status))
+          : eq(receiptMatches.clientId, clientId)
+      )
+      .orderBy(desc(receiptMatches.receiptDate), desc(receiptMatches.id));
+    return rows.map((row) => this.toView(row));
+  }
+
+  /**
+   * Receipts attached to a transaction as evidence
+   */
+  async getForTransaction(clientId: number, transactionId: number) {
+    const rows = await db
+      .select()
+      .from(receiptMatches)
+      .where(
+        and(
+          eq(receiptMatches.clientId, clientId),
+          eq(receiptMatches.transactionId, transactionId),
+          eq(receiptMatches.status, "matched")
+        )
+      );
+    return rows.map((row) => this.toView(row));
+  }
+
+  /**
+   * Attach a receipt to a transaction chosen by the user
+   */
+  async matchManually(clientId: number, receiptId: string, transactionId: number, user?: any) {
+    const receipt = await this.findReceipt(clientId, receiptId);
+    if (receipt.status === "matched") {
+      throw new ReceiptMatchError("Receipt is already matched; unmatch it first", 409);
+    }
+
+    const result = await pool.query(
+      `SELECT id, transaction_date, description, amount, debit_amount, credit_amount, tax_amount
+       FROM transactions WHERE client_id = $1 AND id = $2`,
+      [clientId, transactionId]
+    );
+    if (result.rows.length === 0) {
+      throw new ReceiptMatchError("Transaction not found", 404);
+    }
+    const [taken] = await db
+      .select()
+      .from(receiptMatches)
+      .where(and(eq(receiptMatches.transactionId, transactionId), eq(receiptMatches.status, "matched")))
+      .limit(1);
+    if (taken) {
+      throw new ReceiptMatchError("Transaction already has a receipt attached", 409);
+    }
+
+    const transaction = this.toLedgerTransaction(result.rows[0]);
+    const scored = scoreReceiptMatch(this.toFields(receipt), transaction);
+    return this.toView(await this.attach(clientId, receipt, transaction, "manual", scored?.score ?? null, user));
+  }
+
+  /**
+   * Detach a matched receipt (or bring back a dismissed one) and put it back
+   * in the queue. An input tax credit prefilled from the receipt is removed
+   * if it has not been changed or posted since; refused when the transaction
+   * is in a locked period.
+   */
+  async unmatch(clientId: number, receiptId: string, user?: any) {
+    const receipt = await this.findReceipt(clientId, receiptId);
+    if (receipt.transactionId && receipt.itcPrefilledAmount) {
+      const transaction = await pool.query(
+        `SELECT transaction_date FROM transactions WHERE client_id = $1 AND id = $2`,
+        [clientId, receipt.transactionId]
+      );
+      const transactionDate = toDateKey(transaction.rows[0]?.transaction_date);
+      if (transactionDate) {
+        await periodLockService.assertPeriodOpen(clientId, [transactionDate], user);
+      }
+
+      await pool.query(
+        `UPDATE transactions SET tax_amount = 0
+         WHERE client_id = $1 AND id = $2 AND tax_amount = $3
+           AND NOT EXISTS (SELECT 1 FROM journal_entries j WHERE j.source_transaction_id = transactions.id)`,
+        [clientId, receipt.transactionId, receipt.itcPrefilledAmount]
+      );
+    }
+
+    const [updated] = await db
+      .update(receiptMatches)
+      .set({
+        status: "awaiting_transaction",
+        transactionId: null,
+        matchMethod: null,
+        matchScore: null,
+        itcPrefilledAmount: null,
+        matchedBy: null,
+        matchedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(receiptMatches.id, receipt.id))
+      .returning();
+    return this.toView(updated);
+  }
+
+  /**
+   * Take a receipt out of the queue when no transaction will ever come for
+   * it (paid personally, cash from petty cash already recorded...)
+   */
+  async dismiss(clientId: number, receiptId: string) {
+    const receipt = await this.findReceipt(clientId, receiptId);
+    if (receipt.status === "matched") {
+      throw new ReceiptMatchError("Unmatch the receipt before dismissing it", 409);
+    }
+    const [updated] = await db
+      .update(receiptMatches)
+      .set({ status: "dismissed", updatedAt: new Date() })
+      .where(eq(receiptMatches.id, receipt.id))
+      .returning();
+    return this.toView(updated);
+  }
+
+  /**
+   * Score receipts against the ledger and attach clear winners. Receipts are
+   * settled best score first, so two receipts never claim one transaction.
+   */
+  private async attemptMatches(clientId: number, receipts: ReceiptMatch[], user?: any): Promise<number> {
+    const dated = receipts.filter((receipt) => receipt.receiptDate && receipt.totalAmount);
+    const now = new Date();
+    const undated = receipts.filter((receipt) => !dated.includes(receipt));
+    if (undated.length > 0) {
+      await db
+        .update(receiptMatches)
+        .set({ candidates: null, lastAttemptAt: now })
+        .where(inArray(receiptMatches.id, undated.map((receipt) => receipt.id)));
+    }
+    if (dated.length === 0) return 0;
+
+    const dates = dated.map((receipt) => toDateKey(receipt.receiptDate)!).sort();
+    const ledger = await this.loadLedger(clientId, dates[0], dates[dates.length - 1]);
+
+    const scoredReceipts = dated
+      .map((receipt) => {
+        const fields = this.toFields(receipt);
+        const candidates: MatchCandidate[] = ledger
+          .map((transaction) => {
+            const scored = scoreReceiptMatch(fields, transaction);
+            return scored ? { transactionId: transaction.id, date: transaction.date, description: transaction.description, amount: transaction.amount, ...scored } : null;
+          })
+          .filter((candidate): candidate is MatchCandidate => candidate !== null)
+          .sort((a, b) => b.score - a.score);
+        return { receipt, candidates };
+      })
+      .sort((a, b) => (b.candidates[0]?.score || 0) - (a.candidates[0]?.score || 0));
+
+    const claimed = new Set<number>();
+    let matched = 0;
+    for (const { receipt, candidates } of scoredReceipts) {
+      const open = candidates.filter((candidate) => !claimed.has(candidate.transactionId));
+      const [best, runnerUp] = open;
+      if (best && best.score >= AUTO_MATCH_SCORE && (!runnerUp || best.score - runnerUp.score >= AUTO_MATCH_MARGIN)) {
+        claimed.add(best.transactionId);
+        const transaction = ledger.find((entry) => entry.id === best.transactionId)!;
+        await this.attach(clientId, receipt, transaction, "auto", best.score, user, open.slice(0, CANDIDATE_LIMIT));
+        matched++;
+      } else {
+        await db
+          .update(receiptMatches)
+          .set({ candidates: JSON.stringify(open.slice(0, CANDIDATE_LIMIT)), lastAttemptAt: now })
+          .where(eq(receiptMatches.id, receipt.id));
+      }
+    }
+    return matched;
+  }
+
+  private async attach(
+    clientId: number,
+    receipt: ReceiptMatch,
+    transaction: LedgerTransaction,
+    method: "auto" | "manual",
+    score: number | null,
+    user?: any,
+    candidates?: MatchCandidate[]
+  ): Promise<ReceiptMatch> {
+    const itc = await this.prefillInputTaxCredit(clientId, receipt, transaction, user);
+    const now = new Date();
+    const [updated] = await db
+      .update(receiptMatches)
+      .set({
+        status: "matched",
+        transactionId: transaction.id,
+        matchMethod: method,
+        matchScore: score,
+        ...(candidates ? { candidates: JSON.stringify(candidates) } : {}),
+        itcPrefilledAmount: itc ? itc.toFixed(2) : null,
+        lastAttemptAt: now,
+        matchedBy: user?.id ?? null,
+        matchedAt: now,
+        updatedAt: now,
+      })
+      .where(eq(receiptMatches.id, receipt.id))
+      .returning();
+    return updated;
+  }
+
+  /**
+   * GST/HST from the receipt as the transaction's tax amount, split out to
+   * GST/HST receivable when the transaction is posted. Left alone when the
+   * transaction already carries tax, is already posted or sits in a locked
+   * period.
+   */
+  private async prefillInputTaxCredit(
+    clientId: number,
+    receipt: ReceiptMatch,
+    transaction: LedgerTransaction,
+    user?: any
+  ): Promise<number | null> {
+    const itc = roundAmount(parseFloat(receipt.gstAmount) + parseFloat(receipt.hstAmount));
+    if (itc <= 0 || transaction.taxAmount !== 0) return null;
+
+    try {
+      await periodLockService.assertPeriodOpen(clientId, [transaction.date], user);
+    } catch (error) {
+      if (error instanceof PeriodLockedError) return null;
+      throw error;
+    }
+
+    const result = await pool.query(
+      `UPDATE transactions SET tax_amount = $1
+       WHERE client_id = $2 AND id = $3 AND COALESCE(tax_amount, 0) = 0
+         AND NOT EXISTS (SELECT 1 FROM journal_entries j WHERE j.source_transaction_id = transactions.id)`,
+      [itc.toFixed(2), clientId, transaction.id]
+    );
+    return result.rowCount ? itc : null;
+  }
+
+  /**
+   * Unreconciled transactions without a receipt, dated within the matching
+   * window of the given receipt dates
+   */
+  private async loadLedger(clientId: number, firstDate: string, lastDate: string): Promise<LedgerTransaction[]> {
+    const result = await pool.query(
+      `SELECT t.id, t.transaction_date, t.description, t.amount, t.debit_amount, t.credit_amount, t.tax_amount
+       FROM transactions t
+       WHERE t.client_id = $1 AND t.transaction_date BETWEEN $2 AND $3
+         AND COALESCE(t.is_reconciled, false) = false
+         AND NOT EXISTS (
+           SELECT 1 FROM receipt_matches m WHERE m.transaction_id = t.id AND m.status = 'matched'
+         )`,
+      [clientId, shiftDate(firstDate, -DAYS_BEFORE_RECEIPT), shiftDate(lastDate, DAYS_AFTER_RECEIPT)]
+    );
+    return result.rows
+      .map((row: any) => this.toLedgerTransaction(row))
+      .filter((transaction: LedgerTransaction) => transaction.date && transaction.amount !== 0);
+  }
+
+  private toLedgerTransaction(row: any): LedgerTransaction {
+    const debit = parseFloat(row.debit_amount || "0");
+    const credit = parseFloat(row.credit_amount || "0");
+    return {
+      id: row.id,
+      date: toDateKey(row.transaction_date) || "",
+      description: row.description || "",
+      amount: roundAmount(debit !== 0 || credit !== 0 ? credit - debit : parseFloat(row.amount || "0")),
+      taxAmount: parseFloat(row.tax_amount || "0"),
+    };
+  }
+
+  private toFields(receipt: ReceiptMatch): Pick<ReceiptFields, "vendor" | "date" | "total"> {
+    return {
+      vendor: receipt.vendor,
+      date: toDateKey(receipt.receiptDate) || null,
+      total: receipt.totalAmount ? parseFloat(receipt.totalAmount) : null,
+    };
+  }
+
+  private async findReceipt(clientId: number, receiptId: string): Promise<ReceiptMatch> {
+    const [receipt] = await db
+      .select()
+      .from(receiptMatches)
+      .where(and(eq(receiptMatches.clientId, clientId), eq(receiptMatches.receiptId, receiptId)))
+      .limit(1);
+    if (!receipt) {
+      throw new ReceiptMatchError("Receipt has not been processed for matching", 404);
+    }
+    return receipt;
+  }
+
+  private toView(receipt: ReceiptMatch) {
+    let candidates: MatchCandidate[] = [];
+    if (receipt.candidates) {
+      try {
+        candidates = JSON.parse(receipt.candidates);
+      } catch {
+        candidates = [];
+      }
+    }
+    const gst = parseFloat(receipt.gstAmount);
+    const hst = parseFloat(receipt.hstAmount);
+    return {
+      ...receipt,
+      candidates,
+      // Recoverable GST/HST; PST, QST and unidentified tax are not prefilled
+      inputTaxCredit: roundAmount(gst + hst),
+    };
+  }
+}
+
+export const receiptMatchingService = new ReceiptMatchingService();
@@ -0,0 +1,707 @@
+/**
+ * Reconciliation Match Service
+ *
+ * Matching engine for bank reconciliation sessions. Scores statement items
+ * against book transactions on the session's bank account:
+ * - amount (within the client's tolerance), date window, cheque number,
+ *   reference (FITID) and payee similarity, including learned payee aliases
+ * - proposes 1:1 matches, 1:N (one statement line for several book
+ *   transactions, e.g. a deposit covering several receipts) and N:1 (several
+ *   statement lines for one book transaction)
+ * - every proposal carries a 0-100 confidence and the reasons behind it
+ * - accepting a match marks the items matched and teaches the client's payee
+ *   aliases, so the same bank wording scores higher next time
+ */
+
+import { db, pool } from "../db";
+import {
+  reconciliationMatchSettings,
+  reconciliationMatches,
+  reconciliationMatchLinks,
+  payeeAliases,
+  type PayeeAlias,
+} from "@shared/database/reconciliation-match-entities";
+import { and, eq, asc, desc, inArray, sql } from "drizzle-orm";
+import { toDateKey } from "./period-lock-service";
+
+export class ReconciliationMatchError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ReconciliationMatchError";
+    this.status = status;
+  }
+}
+
+export type MatchType = "one_to_one" | "one_to_many" | "many_to_one";
+
+export interface MatchTolerances {
+  amountTolerance: number;
+  dateWindowDays: number;
+  minConfidence: number;
+  maxGroupSize: number;
+}
+
+export const DEFAULT_MATCH_TOLERANCES: MatchTolerances = {
+  amountTolerance: 0,
+  dateWindowDays: 5,
+  minConfidence: 50,
+  maxGroupSize: 5,
+};
+
+export interface StatementLine {
+  itemId: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+export interface BookTransaction {
+  transactionId: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+export interface MatchProposal {
+  key: string;
+  matchType: MatchType;
+  confidence: number;
+  reasons: string[];
+  statementTotal: number;
+  bookTotal: number;
+  difference: number;
+  statementLines: StatementLine[];
+  bookTransactions: BookTransaction[];
+}
+
+// Score weights; a same-day exact-amount match with no other evidence scores 65
+const AMOUNT_WEIGHT = 40;
+const DATE_WEIGHT = 25;
+const CHEQUE_WEIGHT = 20;
+const REFERENCE_WEIGHT = 20;
+const PAYEE_WEIGHT = 15;
+const CHEQUE_MISMATCH_PENALTY = 30;
+// Each extra member of a group makes a coincidental total more likely
+const GROUP_MEMBER_PENALTY = 5;
+// Nearest candidates (by date) considered when searching for group totals
+const GROUP_CANDIDATE_LIMIT = 12;
+const GROUP_SEARCH_STEPS = 20000;
+
+// Bank wording that says nothing about the payee
+const PAYEE_NOISE_WORDS = new Set([
+  "pos", "purchase", "pmt", "payment", "debit", "credit", "visa", "mc", "interac",
+  "online", "bill", "pay", "preauthorized", "pad", "ach", "the", "inc", "ltd", "corp",
+]);
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(a: string, b: string): number {
+  const [ay, am, ad] = a.split("-").map(Number);
+  const [by, bm, bd] = b.split("-").map(Number);
+  return Math.abs(Date.UTC(ay, am - 1, ad) - Date.UTC(by, bm - 1, bd)) / 86400000;
+}
+
+function shiftDate(dateKey: string, days: number): string {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Statement/book payee text reduced to comparable words: lower case, no
+ * digits, punctuation or bank noise words
+ */
+export function normalizePayee(text: string | null | undefined): string {
+  return (text || "")
+    .toLowerCase()
+    .replace(/[^a-z\s]/g, " ")
+    .split(/\s+/)
+    .filter((word) => word.length > 1 && !PAYEE_NOISE_WORDS.has(word))
+    .join(" ");
+}
+
+function payeeSimilarity(a: string, b: string): number {
+  const wordsA = new Set(a.split(" ").filter(Boolean));
+  const wordsB = new Set(b.split(" ").filter(Boolean));
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of wordsA) {
+    // Longer words also count when one is a prefix of the other ("costco" / "costcowholesale")
+    if (wordsB.has(word) || [...wordsB].some((other) => other.length >= 4 && word.length >= 4 && (other.startsWith(word) || word.startsWith(other)))) {
+      shared++;
+    }
+  }
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+function extractChequeNumber(description: string, reference: string | null): string | null {
+  const match = description.match(/\b(?:chq|cheque|check|ck)\.?\s*(?:no\.?|#)?\s*(\d{3,8})\b/i);
+  if (match) return match[1].replace(/^0+/, "");
+  if (reference && /^\d{3,8}$/.test(reference.trim())) return reference.trim().replace(/^0+/, "");
+  return null;
+}
+
+/**
+ * Score a candidate match. The single side (one statement line, or one book
+ * transaction for N:1) is compared against every member of the other side.
+ */
+export function scoreMatch(
+  statementLines: StatementLine[],
+  bookTransactions: BookTransaction[],
+  tolerances: MatchTolerances,
+  aliases: Pick<PayeeAlias, "alias" | "payeeName">[] = []
+): { confidence: number; reasons: string[]; difference: number } | null {
+  const statementTotal = roundAmount(statementLines.reduce((sum, line) => sum + line.amount, 0));
+  const bookTotal = roundAmount(bookTransactions.reduce((sum, transaction) => sum + transaction.amount, 0));
+  const difference = roundAmount(Math.abs(statementTotal - bookTotal));
+  if (difference > tolerances.amountTolerance + 0.001) return null;
+
+  const reasons: string[] = [];
+  let score = 0;
+
+  // Amount
+  if (difference === 0) {
+    score += AMOUNT_WEIGHT;
+    reasons.push(
+      statementLines.length + bookTransactions.length > 2
+        ? `Totals agree exactly (${statementTotal.toFixed(2)})`
+        : `Amount matches exactly (${statementTotal.toFixed(2)})`
+    );
+  } else {
+    score += AMOUNT_WEIGHT - (AMOUNT_WEIGHT / 2) * (difference / Math.max(tolerances.amountTolerance, 0.01));
+    reasons.push(`Amounts differ by ${difference.toFixed(2)}, within the ${tolerances.amountTolerance.toFixed(2)} tolerance`);
+  }
+
+  // Date: the widest gap between any statement line and book transaction
+  let widestGap = 0;
+  for (const line of statementLines) {
+    for (const transaction of bookTransactions) {
+      widestGap = Math.max(widestGap, daysBetween(line.date, transaction.date));
+    }
+  }
+  if (widestGap > tolerances.dateWindowDays) return null;
+  score += DATE_WEIGHT * (1 - widestGap / (tolerances.dateWindowDays + 1));
+  reasons.push(widestGap === 0 ? "Same date" : `Dates within ${widestGap} day${widestGap === 1 ? "" : "s"}`);
+
+  // Cheque numbers, when both sides carry one
+  const statementCheques = statementLines.map((line) => extractChequeNumber(line.description, line.reference)).filter(Boolean);
+  const bookCheques = bookTransactions
+    .map((transaction) => extractChequeNumber(transaction.description, transaction.reference))
+    .filter(Boolean);
+  if (statementCheques.length > 0 && bookCheques.length > 0) {
+    const matched = statementCheques.filter((number) => bookCheques.includes(number));
+    if (matched.length > 0) {
+      score += CHEQUE_WEIGHT;
+      reasons.push(`Cheque #${matched.join(", #")} matches`);
+    } else {
+      score -= CHEQUE_MISMATCH_PENALTY;
+      reasons.push(`Cheque numbers differ (statement #${statementCheques[0]}, books #${bookCheques[0]})`);
+    }
+  }
+
+  // Reference: statement lines keep their FITID, imported book transactions keep it too
+  const bookReferences = new Set(bookTransactions.map((transaction) => transaction.reference).filter(Boolean));
+  if (statementLines.some((line) => line.reference && bookReferences.has(line.reference))) {
+    score += REFERENCE_WEIGHT;
+    reasons.push("Bank reference matches");
+  }
+
+  // Payee similarity, using learned aliases for the statement wording
+  let similarityTotal = 0;
+  let pairs = 0;
+  let aliasUsed: string | null = null;
+  for (const line of statementLines) {
+    const statementPayee = normalizePayee(line.description);
+    const alias = statementPayee
+      ? aliases.find((candidate) => candidate.alias === statementPayee || statementPayee.includes(candidate.alias))
+      : undefined;
+    for (const transaction of bookTransactions) {
+      const bookPayee = normalizePayee(transaction.description);
+      let similarity = payeeSimilarity(statementPayee, bookPayee);
+      if (alias) {
+        const aliasSimilarity = payeeSimilarity(normalizePayee(alias.payeeName), bookPayee);
+        if (aliasSimilarity > similarity) {
+          similarity = aliasSimilarity;
+          aliasUsed = `"${alias.alias}" is known as ${alias.payeeName}`;
+        }
+      }
+      similarityTotal += similarity;
+      pairs++;
+    }
+  }
+  const similarity = pairs > 0 ? similarityTotal / pairs : 0;
+  if (similarity > 0) {
+    score += PAYEE_WEIGHT * similarity;
+    reasons.push(aliasUsed ? `Payee alias: ${aliasUsed}` : `Payee ${Math.round(similarity * 100)}% similar`);
+  }
+
+  const extraMembers = statementLines.length + bookTransactions.length - 2;
+  if (extraMembers > 0) {
+    score -= GROUP_MEMBER_PENALTY * extraMembers;
+    reasons.push(`Combines ${statementLines.length} statement line(s) with ${bookTransactions.length} book transaction(s)`);
+  }
+
+  return { confidence: Math.max(0, Math.min(100, Math.round(score))), reasons, difference };
+}
+
+/**
+ * Subsets of 2..maxSize candidates whose total lands within tolerance of the
+ * target. Candidates are pre-filtered to the same sign as the target.
+ */
+function findGroups<T extends { amount: number }>(target: number, candidates: T[], maxSize: number, tolerance: number): T[][] {
+  const sorted = [...candidates].sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount));
+  const absTarget = Math.abs(target);
+  const groups: T[][] = [];
+  let steps = 0;
+
+  const search = (start: number, chosen: T[], total: number) => {
+    if (++steps > GROUP_SEARCH_STEPS) return;
+    if (chosen.length >= 2 && Math.abs(total - absTarget) <= tolerance + 0.001) {
+      groups.push([...chosen]);
+      return;
+    }
+    if (chosen.length >= maxSize) return;
+    for (let index = start; index < sorted.length; index++) {
+      const next = total + Math.abs(sorted[index].amount);
+      if (next > absTarget + tolerance + 0.001) continue;
+      chosen.push(sorted[index]);
+      search(index + 1, chosen, next);
+      chosen.pop();
+    }
+  };
+  search(0, [], 0);
+  return groups;
+}
+
+function proposalKey(lines: StatementLine[], transactions: BookTransaction[]): string {
+  return `s${lines.map((line) => line.itemId).join(".")}-t${transactions.map((transaction) => transaction.transactionId).join(".")}`;
+}
+
+function matchTypeOf(lineCount: number, transactionCount: number): MatchType | null {
+  if (lineCount === 1 && transactionCount === 1) return "one_to_one";
+  if (lineCount === 1 && transactionCount > 1) return "one_to_many";
+  if (lineCount > 1 && transactionCount === 1) return "many_to_one";
+  return null;
+}
+
+export class ReconciliationMatchService {
+  /**
+   * Tolerances saved for a client, or the defaults
+   */
+  async getSettings(clientId: number): Promise<MatchTolerances> {
+    const [settings] = await db
+      .select()
+      .from(reconciliationMatchSettings)
+      .where(eq(reconciliationMatchSettings.clientId, clientId))
+      .limit(1);
+
+    if (!settings) return { ...DEFAULT_MATCH_TOLERANCES };
+    return {
+      amountTolerance: parseFloat(settings.amountTolerance),
+      dateWindowDays: settings.dateWindowDays,
+      minConfidence: settings.minConfidence,
+      maxGroupSize: settings.maxGroupSize,
+    };
+  }
+
+  async updateSettings(clientId: number, data: Partial<MatchTolerances>, user?: any): Promise<MatchTolerances> {
+    const values = {
+      ...(data.amountTolerance !== undefined ? { amountTolerance: roundAmount(data.amountTolerance).toFixed(2) } : {}),
+      ...(data.dateWindowDays !== undefined ? { dateWindowDays: data.dateWindowDays } : {}),
+      ...(data.minConfidence !== undefined ? { minConfidence: data.minConfidence } : {}),
+      ...(data.maxGroupSize !== undefined ? { maxGroupSize: data.maxGroupSize } : {}),
+      updatedBy: user?.id ?? null,
+      updatedAt: new Date(),
+    };
+
+    await db
+      .insert(reconciliationMatchSettings)
+      .values({ clientId, ...values })
+      .onConflictDoUpdate({ target: reconciliationMatchSettings.clientId, set: values });
+
+    return this.getSettings(clientId);
+  }
+
+  /**
+   * Proposed matches for a session's unmatched statement items. Tolerances
+   * default to the client's settings; overrides apply to this run only.
+   */
+  async proposeMatches(sessionId: number, overrides: Partial<MatchTolerances> = {}) {
+    const session = await this.findSession(sessionId);
+    const tolerances = { ...(await this.getSettings(session.client_id)), ...overrides };
+    const aliases = await this.listAliases(session.client_id);
+    const lines = await this.getUnmatchedLines(sessionId);
+    const transactions = await this.getUnmatchedTransactions(session, tolerances.dateWindowDays);
+
+    const usedLines = new Set<number>();
+    const usedTransactions = new Set<number>();
+    const proposals: MatchProposal[] = [];
+
+    const addProposal = (groupLines: StatementLine[], groupTransactions: BookTransaction[], score: { confidence: number; reasons: string[]; difference: number }) => {
+      groupLines.forEach((line) => usedLines.add(line.itemId));
+      groupTransactions.forEach((transaction) => usedTransactions.add(transaction.transactionId));
+      proposals.push({
+        key: proposalKey(groupLines, groupTransactions),
+        matchType: matchTypeOf(groupLines.length, groupTransactions.length)!,
+        confidence: score.confidence,
+        reasons: score.reasons,
+        statementTotal: roundAmount(groupLines.reduce((sum, line) => sum + line.amount, 0)),
+        bookTotal: roundAmount(groupTransactions.reduce((sum, transaction) => sum + transaction.amount, 0)),
+        difference: score.difference,
+        statementLines: groupLines,
+        bookTransactions: groupTransactions,
+      });
+    };
+
+    const sameSign = (a: number, b: number) => Math.sign(a) === Math.sign(b);
+    const withinWindow = (a: string, b: string) => daysBetween(a, b) <= tolerances.dateWindowDays;
+
+    // 1:1 - best pairs first, each line and transaction used once
+    const pairs: Array<{ line: StatementLine; transaction: BookTransaction; score: ReturnType<typeof scoreMatch> }> = [];
+    for (const line of lines) {
+      for (const transaction of transactions) {
+        if (!sameSign(line.amount, transaction.amount) || !withinWindow(line.date, transaction.date)) continue;
+        const score = scoreMatch([line], [transaction], tolerances, aliases);
+        if (score && score.confidence >= tolerances.minConfidence) {
+          pairs.push({ line, transaction, score });
+        }
+      }
+    }
+    pairs.sort((a, b) => b.score!.confidence - a.score!.confidence);
+    for (const pair of pairs) {
+      if (usedLines.has(pair.line.itemId) || usedTransactions.has(pair.transaction.transactionId)) continue;
+      addProposal([pair.line], [pair.transaction], pair.score!);
+    }
+
+    // 1:N - one statement line covering several book transactions
+    const remainingLines = () => lines.filter((line) => !usedLines.has(line.itemId));
+    const remainingTransactions = () => transactions.filter((transaction) => !usedTransactions.has(transaction.transactionId));
+
+    for (const line of remainingLines().sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))) {
+      const candidates = remainingTransactions()
+        .filter((transaction) => sameSign(line.amount, transaction.amount) && withinWindow(line.date, transaction.date))
+        .sort((a, b) => daysBetween(line.date, a.date) - daysBetween(line.date, b.date))
+        .slice(0, GROUP_CANDIDATE_LIMIT);
+      const best = this.bestGroup(
+        findGroups(line.amount, candidates, tolerances.maxGroupSize, tolerances.amountTolerance),
+        (group) => scoreMatch([line], group, tolerances, aliases)
+      );
+      if (best && best.score.confidence >= tolerances.minConfidence) {
+        addProposal([line], best.group, best.score);
+      }
+    }
+
+    // N:1 - several statement lines for one book transaction
+    for (const transaction of remainingTransactions().sort((a, b) => Math.abs(b.amount) - Math.abs(a.amount))) {
+      const candidates = remainingLines()
+        .filter((line) => sameSign(line.amount, transaction.amount) && withinWindow(line.date, transaction.date))
+        .sort((a, b) => daysBetween(transaction.date, a.date) - daysBetween(transaction.date, b.date))
+        .slice(0, GROUP_CANDIDATE_LIMIT);
+      const best = this.bestGroup(
+        findGroups(transaction.amount, candidates, tolerances.maxGroupSize, tolerances.amountTolerance),
+        (group) => scoreMatch(group, [transaction], tolerances, aliases)
+      );
+      if (best && best.score.confidence >= tolerances.minConfidence) {
+        addProposal(best.group, [transaction], best.score);
+      }
+    }
+
+    proposals.sort((a, b) => b.confidence - a.confidence);
+    return {
+      sessionId,
+      tolerances,
+      proposals,
+      unmatchedStatementLines: remainingLines(),
+      unmatchedBookTransactions: remainingTransactions(),
+    };
+  }
+
+  /**
+   * Accept a match of statement items to book transactions. Totals must agree
+   * within the client's tolerance; the accepted wording trains payee aliases.
+   */
+  async acceptMatch(sessionId: number, itemIds: number[], transactionIds: number[], user?: any) {
+    const session = await this.findSession(sessionId);
+    this.assertOpen(session);
+
+    const matchType = matchTypeOf(itemIds.length, transactionIds.length);
+    if (!matchType) {
+      throw new ReconciliationMatchError(
+        "Match one statement line to one or more transactions, or several statement lines to one transaction"
+      );
+    }
+
+    const tolerances = await this.getSettings(session.client_id);
+    const lines = (await this.getUnmatchedLines(sessionId)).filter((line) => itemIds.includes(line.itemId));
+    if (lines.length !== new Set(itemIds).size) {
+      throw new ReconciliationMatchError("One or more statement lines are already matched or not in this session");
+    }
+    const transactions = (await this.getUnmatchedTransactions(session, null)).filter((transaction) =>
+      transactionIds.includes(transaction.transactionId)
+    );
+    if (transactions.length !== new Set(transactionIds).size) {
+      throw new ReconciliationMatchError("One or more transactions are already matched or not on this bank account");
+    }
+
+    // Manual matches may fall outside the date window, but not the amount tolerance
+    const aliases = await this.listAliases(session.client_id);
+    const score = scoreMatch(lines, transactions, { ...tolerances, dateWindowDays: Number.MAX_SAFE_INTEGER }, aliases);
+    if (!score) {
+      const statementTotal = lines.reduce((sum, line) => sum + line.amount, 0);
+      const bookTotal = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+      throw new ReconciliationMatchError(
+        `Statement total ${statementTotal.toFixed(2)} and book total ${bookTotal.toFixed(2)} differ by more than the ${tolerances.amountTolerance.toFixed(2)} tolerance`
+      );
+    }
+
+    const [match] = await db
+      .insert(reconciliationMatches)
+      .values({
+        sessionId,
+        clientId: session.client_id,
+        firmId: user?.firmId ?? null,
+        matchType,
+        confidence: score.confidence,
+        explanation: score.reasons.join("\n"),
+        statementTotal: roundAmount(lines.reduce((sum, line) => sum + line.amount, 0)).toFixed(2),
+        bookTotal: roundAmount(transactions.reduce((sum, transaction) => sum + transaction.amount, 0)).toFixed(2),
+        acceptedBy: user?.id ?? null,
+      })
+      .returning();
+
+    await db.insert(reconciliationMatchLinks).values([
+      ...lines.map((line) => ({ matchId: match.id, reconciliationItemId: line.itemId, transactionId: null })),
+      ...transactions.map((transaction) => ({ matchId: match.id, reconciliationItemId: null, transactionId: transaction.transactionId })),
+    ]);
+
+    // Items keep a direct transaction link when there is a single book transaction
+    await pool.query(
+      `UPDATE reconciliation_items
+       SET status = 'matched', transaction_id = $2, match_confidence = $3, notes = $4
+       WHERE id = ANY($1::int[])`,
+      [
+        itemIds,
+        transactions.length === 1 ? transactions[0].transactionId : null,
+        score.confidence.toFixed(2),
+        matchType === "one_to_many" ? `Matched with ${transactions.length} book transactions` : null,
+      ]
+    );
+
+    await this.learnAliases(session.client_id, lines, transactions);
+
+    return { ...match, reasons: score.reasons, statementLines: lines, bookTransactions: transactions };
+  }
+
+  /**
+   * Accepted matches of a session with their statement lines and transactions
+   */
+  async listMatches(sessionId: number) {
+    const matches = await db
+      .select()
+      .from(reconciliationMatches)
+      .where(eq(reconciliationMatches.sessionId, sessionId))
+      .orderBy(desc(reconciliationMatches.acceptedAt));
+    if (matches.length === 0) return [];
+
+    const links = await db
+      .select()
+      .from(reconciliationMatchLinks)
+      .where(inArray(reconciliationMatchLinks.matchId, matches.map((match) => match.id)));
+
+    return matches.map((match) => {
+      const matchLinks = links.filter((link) => link.matchId === match.id);
+      return {
+        ...match,
+        reasons: (match.explanation || "").split("\n").filter(Boolean),
+        itemIds: matchLinks.map((link) => link.reconciliationItemId).filter((id): id is number => id !== null),
+        transactionIds: matchLinks.map((link) => link.transactionId).filter((id): id is number => id !== null),
+      };
+    });
+  }
+
+  /**
+   * Undo an accepted match; its statement items go back to unmatched.
+   * Learned aliases are kept.
+   */
+  async removeMatch(sessionId: number, matchId: number) {
+    const session = await this.findSession(sessionId);
+    this.assertOpen(session);
+
+    const [match] = await db
+      .select()
+      .from(reconciliationMatches)
+      .where(and(eq(reconciliationMatches.id, matchId), eq(reconciliationMatches.sessionId, sessionId)));
+    if (!match) {
+      throw new ReconciliationMatchError("Match not found", 404);
+    }
+
+    const links = await db.select().from(reconciliationMatchLinks).where(eq(reconciliationMatchLinks.matchId, matchId));
+    const itemIds = links.map((link) => link.reconciliationItemId).filter((id): id is number => id !== null);
+
+    await pool.query(
+      `UPDATE reconciliation_items
+       SET status = 'unmatched', transaction_id = NULL, match_confidence = NULL, notes = NULL
+       WHERE id = ANY($1::int[])`,
+      [itemIds]
+    );
+    await db.delete(reconciliationMatches).where(eq(reconciliationMatches.id, matchId));
+    return { success: true };
+  }
+
+  async listAliases(clientId: number): Promise<PayeeAlias[]> {
+    return db
+      .select()
+      .from(payeeAliases)
+      .where(eq(payeeAliases.clientId, clientId))
+      .orderBy(desc(payeeAliases.timesConfirmed), asc(payeeAliases.alias));
+  }
+
+  async deleteAlias(clientId: number, aliasId: number) {
+    const [deleted] = await db
+      .delete(payeeAliases)
+      .where(and(eq(payeeAliases.id, aliasId), eq(payeeAliases.clientId, clientId)))
+      .returning();
+    if (!deleted) {
+      throw new ReconciliationMatchError("Payee alias not found", 404);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Record statement wording → book payee for each accepted pairing whose
+   * wording differs. A 1:N match only teaches when its transactions share a payee.
+   */
+  private async learnAliases(clientId: number, lines: StatementLine[], transactions: BookTransaction[]) {
+    const bookPayees = [...new Set(transactions.map((transaction) => transaction.description.trim()).filter(Boolean))];
+    if (bookPayees.length !== 1) return;
+    const payeeName = bookPayees[0];
+
+    for (const line of lines) {
+      const alias = normalizePayee(line.description);
+      if (!alias || alias === normalizePayee(payeeName)) continue;
+
+      await db
+        .insert(payeeAliases)
+        .values({ clientId, alias, payeeName })
+        .onConflictDoUpdate({
+          target: [payeeAliases.clientId, payeeAliases.alias],
+          set: {
+            payeeName,
+            timesConfirmed: sql`${payeeAliases.timesConfirmed} + 1`,
+            lastConfirmedAt: new Date(),
+          },
+        });
+    }
+  }
+
+  private bestGroup<T>(
+    groups: T[][],
+    score: (group: T[]) => ReturnType<typeof scoreMatch>
+  ): { group: T[]; score: NonNullable<ReturnType<typeof scoreMatch>> } | null {
+    let best: { group: T[]; score: NonNullable<ReturnType<typeof scoreMatch>> } | null = null;
+    for (const group of groups) {
+      const result = score(group);
+      if (result && (!best || result.confidence > best.score.confidence)) {
+        best = { group, score: result };
+      }
+    }
+    return best;
+  }
+
+  private async findSession(sessionId: number) {
+    const result = await pool.query(
+      `SELECT id, client_id, account_id, start_date, end_date, status FROM reconciliation_sessions WHERE id = $1`,
+      [sessionId]
+    );
+    const session = result.rows[0];
+    if (!session) {
+      throw new ReconciliationMatchError("Reconciliation session not found", 404);
+    }
+    return session;
+  }
+
+  private assertOpen(session: any) {
+    if (session.status === "completed") {
+      throw new ReconciliationMatchError("This reconciliation is finalized; reopen it to change matches", 409);
+    }
+  }
+
+  private async getUnmatchedLines(sessionId: number): Promise<StatementLine[]> {
+    const result = await pool.query(
+      `SELECT id, statement_date, statement_description, statement_amount, statement_reference
+       FROM reconciliation_items
+       WHERE session_id = $1
+         AND COALESCE(status, 'unmatched') NOT IN ('matched', 'ignored')
+       ORDER BY statement_date, id`,
+      [sessionId]
+    );
+    return result.rows.map((row: any) => ({
+      itemId: row.id,
+      date: toDateKey(row.statement_date) || "",
+      description: row.statement_description || "",
+      reference: row.statement_reference || null,
+      amount: roundAmount(parseFloat(row.statement_amount || "0")),
+    }));
+  }
+
+  /**
+   * Book transactions on the session's bank account not matched in any
+   * session. dateWindowDays widens the session period; null means any date.
+   * Items left outstanding by the account's earlier finalized reconciliations
+   * are included whatever their date.
+   */
+  private async getUnmatchedTransactions(session: any, dateWindowDays: number | null): Promise<BookTransaction[]> {
+    const params: any[] = [session.client_id];
+    let filters = "";
+    if (session.account_id) {
+      params.push(session.account_id);
+      filters += ` AND COALESCE(t.source_account_id, t.account_id) = $${params.length}`;
+    }
+    const startDate = toDateKey(session.start_date);
+    const endDate = toDateKey(session.end_date);
+    if (dateWindowDays !== null && startDate && endDate) {
+      params.push(shiftDate(startDate, -dateWindowDays), shiftDate(endDate, dateWindowDays));
+      filters += ` AND (t.transaction_date BETWEEN $${params.length - 1} AND $${params.length}
+        OR t.id IN (
+          SELECT i.transaction_id FROM reconciliation_report_items i
+          JOIN reconciliation_reports r ON r.id = i.report_id
+          WHERE r.client_id = t.client_id AND r.account_id = COALESCE(t.source_account_id, t.account_id)
+            AND r.status = 'finalized' AND i.item_type <> 'unrecorded'
+        ))`;
+    }
+
+    const result = await pool.query(
+      `SELECT t.id, t.transaction_date, t.description, t.reference_number, t.amount, t.debit_amount, t.credit_amount
+       FROM transactions t
+       WHERE t.client_id = $1 ${filters}
+         AND NOT EXISTS (SELECT 1 FROM reconciliation_items ri WHERE ri.transaction_id = t.id AND ri.status = 'matched')
+         AND NOT EXISTS (SELECT 1 FROM reconciliation_match_links l WHERE l.transaction_id = t.id)
+       ORDER BY t.transaction_date, t.id`,
+      params
+    );
+
+    return result.rows
+      .map((row: any) => {
+        const debit = parseFloat(row.debit_amount || "0");
+        const credit = parseFloat(row.credit_amount || "0");
+        // Bank convention: debit_amount is money out, credit_amount is a deposit
+        const amount = debit !== 0 || credit !== 0 ? credit - debit : parseFloat(row.amount || "0");
+        return {
+          transactionId: row.id,
+          date: toDateKey(row.transaction_date) || "",
+          description: row.description || "",
+          reference: row.reference_number || null,
+          amount: roundAmount(amount),
+        };
+      })
+      .filter((transaction: BookTransaction) => transaction.date && transaction.amount !== 0);
+  }
+}
+
+export const reconciliationMatchService = new ReconciliationMatchService();
@@ -0,0 +1,517 @@
+/**
+ * Reconciliation Report Service
+ *
+ * Bank reconciliation report for a session and its lifecycle:
+ * - statement balance + deposits in transit - outstanding cheques gives the
+ *   adjusted bank balance; book balance + unrecorded statement items gives the
+ *   adjusted book balance, and the two must agree
+ * - finalizing locks the session and stores a snapshot of the report
+ * - items still outstanding at finalization carry forward: they appear on the
+ *   next session's report and are offered to its matcher whatever their date
+ * - only the most recent finalized reconciliation of an account can be
+ *   reopened, with a reason, and every finalize/reopen is kept in the audit trail
+ */
+
+import { db, pool } from "../db";
+import {
+  reconciliationReports,
+  reconciliationReportItems,
+  reconciliationAuditEvents,
+  type ReconciliationReport,
+} from "@shared/database/reconciliation-report-entities";
+import { and, eq, gt, desc } from "drizzle-orm";
+import { drillDownService } from "./drill-down-service";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import { isAdminRole } from "../module-access";
+
+export class ReconciliationReportError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "ReconciliationReportError";
+    this.status = status;
+  }
+}
+
+export type ReportItemType = "outstanding_cheque" | "deposit_in_transit" | "unrecorded";
+
+export interface ReportItem {
+  itemType: ReportItemType;
+  transactionId: number | null;
+  reconciliationItemId: number | null;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+  carriedFromReportId: number | null;
+}
+
+export interface ReconciliationReportView {
+  reportId: number | null;
+  sessionId: number;
+  clientId: number;
+  accountId: number;
+  accountName: string | null;
+  periodStart: string;
+  periodEnd: string;
+  // draft | finalized
+  status: string;
+  statementBalance: number;
+  depositsInTransitTotal: number;
+  outstandingChequesTotal: number;
+  adjustedBankBalance: number;
+  bookBalance: number;
+  unrecordedTotal: number;
+  adjustedBookBalance: number;
+  difference: number;
+  isBalanced: boolean;
+  unmatchedLineCount: number;
+  finalizedBy: number | null;
+  finalizedAt: Date | null;
+  depositsInTransit: ReportItem[];
+  outstandingCheques: ReportItem[];
+  unrecordedItems: ReportItem[];
+}
+
+const DEBIT_NORMAL_TYPES = ["asset", "expense", "cost_of_sales", "other_expense"];
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function sumAmounts(items: ReportItem[]): number {
+  return roundAmount(items.reduce((sum, item) => sum + item.amount, 0));
+}
+
+export class ReconciliationReportService {
+  /**
+   * Report for a session: the finalized snapshot when the session is
+   * finalized, otherwise computed from the current matches.
+   */
+  async getReport(sessionId: number): Promise<ReconciliationReportView> {
+    const session = await this.findSession(sessionId);
+    if (session.status === "completed") {
+      const snapshot = await this.getCurrentSnapshot(sessionId);
+      if (snapshot) return this.toView(snapshot);
+    }
+    return this.buildReport(session);
+  }
+
+  /**
+   * Lock the session and store the report snapshot. Every statement line must
+   * be matched, ignored or marked as needing an entry, and the adjusted bank
+   * and book balances must agree.
+   */
+  async finalize(sessionId: number, user?: any): Promise<ReconciliationReportView> {
+    const session = await this.findSession(sessionId);
+    if (session.status === "completed") {
+      throw new ReconciliationReportError("This reconciliation is already finalized", 409);
+    }
+    if (session.statement_ending_balance === null || session.statement_ending_balance === undefined) {
+      throw new ReconciliationReportError("Enter the statement ending balance before finalizing");
+    }
+
+    const report = await this.buildReport(session);
+    if (report.unmatchedLineCount > 0) {
+      throw new ReconciliationReportError(
+        `${report.unmatchedLineCount} statement line(s) are still unmatched. Match them, ignore them or mark them as needing an entry.`
+      );
+    }
+    if (!report.isBalanced) {
+      throw new ReconciliationReportError(
+        `The reconciliation is out by ${report.difference.toFixed(2)}. The adjusted bank and book balances must agree before finalizing.`
+      );
+    }
+
+    const items = [...report.depositsInTransit, ...report.outstandingCheques, ...report.unrecordedItems];
+    const carriedCount = report.depositsInTransit.length + report.outstandingCheques.length;
+
+    const [snapshot] = await db
+      .insert(reconciliationReports)
+      .values({
+        sessionId,
+        clientId: report.clientId,
+        firmId: user?.firmId ?? null,
+        accountId: report.accountId,
+        accountName: report.accountName,
+        periodStart: report.periodStart,
+        periodEnd: report.periodEnd,
+        statementBalance: report.statementBalance.toFixed(2),
+        depositsInTransitTotal: report.depositsInTransitTotal.toFixed(2),
+        outstandingChequesTotal: report.outstandingChequesTotal.toFixed(2),
+        adjustedBankBalance: report.adjustedBankBalance.toFixed(2),
+        bookBalance: report.bookBalance.toFixed(2),
+        unrecordedTotal: report.unrecordedTotal.toFixed(2),
+        adjustedBookBalance: report.adjustedBookBalance.toFixed(2),
+        difference: report.difference.toFixed(2),
+        status: "finalized",
+        finalizedBy: user?.id ?? null,
+      })
+      .returning();
+
+    if (items.length > 0) {
+      await db.insert(reconciliationReportItems).values(
+        items.map((item) => ({
+          reportId: snapshot.id,
+          itemType: item.itemType,
+          transactionId: item.transactionId,
+          reconciliationItemId: item.reconciliationItemId,
+          itemDate: item.date,
+          description: item.description,
+          reference: item.reference,
+          amount: item.amount.toFixed(2),
+          carriedFromReportId: item.carriedFromReportId,
+        }))
+      );
+    }
+
+    await pool.query(
+      `UPDATE reconciliation_sessions
+       SET status = 'completed', completed_at = NOW(), book_ending_balance = $2, difference = $3
+       WHERE id = $1`,
+      [sessionId, report.bookBalance.toFixed(2), report.difference.toFixed(2)]
+    );
+
+    await db.insert(reconciliationAuditEvents).values({
+      sessionId,
+      clientId: report.clientId,
+      reportId: snapshot.id,
+      action: "finalized",
+      details: `${carriedCount} outstanding item(s) carried forward to the next reconciliation`,
+      userId: user?.id ?? null,
+    });
+
+    return this.getReport(sessionId);
+  }
+
+  /**
+   * Undo a finalized reconciliation. Managers only; only the account's most
+   * recent finalized reconciliation can be reopened, and not when its period
+   * end is locked.
+   */
+  async reopen(sessionId: number, reason: string, user?: any) {
+    if (!isAdminRole(user?.role)) {
+      throw new ReconciliationReportError("A manager role is required to reopen a finalized reconciliation", 403);
+    }
+    if (!reason?.trim()) {
+      throw new ReconciliationReportError("A reason is required to reopen a reconciliation");
+    }
+    const session = await this.findSession(sessionId);
+    const snapshot = await this.getCurrentSnapshot(sessionId);
+    if (session.status !== "completed" || !snapshot) {
+      throw new ReconciliationReportError("This reconciliation is not finalized", 409);
+    }
+
+    const [later] = await db
+      .select()
+      .from(reconciliationReports)
+      .where(
+        and(
+          eq(reconciliationReports.clientId, snapshot.clientId),
+          eq(reconciliationReports.accountId, snapshot.accountId),
+          eq(reconciliationReports.status, "finalized"),
+          gt(reconciliationReports.periodEnd, snapshot.periodEnd)
+        )
+      )
+      .limit(1);
+    if (later) {
+      throw new ReconciliationReportError(
+        `Only the most recent reconciliation can be reopened. Reopen the reconciliation ending ${later.periodEnd} first.`,
+        409
+      );
+    }
+
+    await periodLockService.assertPeriodOpen(snapshot.clientId, [snapshot.periodEnd], user);
+
+    await db
+      .update(reconciliationReports)
+      .set({ status: "reopened", reopenedBy: user?.id ?? null, reopenedAt: new Date(), reopenReason: reason.trim() })
+      .where(eq(reconciliationReports.id, snapshot.id));
+
+    await pool.query(
+      `UPDATE reconciliation_sessions SET status = 'in_progress', completed_at = NULL WHERE id = $1`,
+      [sessionId]
+    );
+
+    await db.insert(reconciliationAuditEvents).values({
+      sessionId,
+      clientId: snapshot.clientId,
+      reportId: snapshot.id,
+      action: "reopened",
+      reason: reason.trim(),
+      userId: user?.id ?? null,
+    });
+
+    return this.getReport(sessionId);
+  }
+
+  /**
+   * Finalize and reopen history for a session, newest first
+   */
+  async getAuditTrail(sessionId: number) {
+    return db
+      .select()
+      .from(reconciliationAuditEvents)
+      .where(eq(reconciliationAuditEvents.sessionId, sessionId))
+      .orderBy(desc(reconciliationAuditEvents.createdAt), desc(reconciliationAuditEvents.id));
+  }
+
+  /**
+   * Latest finalized reconciliation of each of the client's bank accounts,
+   * optionally up to a period end. Used by the binder cash section.
+   */
+  async getFinalizedReports(clientId: number, asOfDate?: string): Promise<ReconciliationReportView[]> {
+    const snapshots = await db
+      .select()
+      .from(reconciliationReports)
+      .where(and(eq(reconciliationReports.clientId, clientId), eq(reconciliationReports.status, "finalized")))
+      .orderBy(desc(reconciliationReports.periodEnd), desc(reconciliationReports.id));
+
+    const latestByAccount = new Map<number, ReconciliationReport>();
+    for (const snapshot of snapshots) {
+      if (asOfDate && snapshot.periodEnd > asOfDate) continue;
+      if (!latestByAccount.has(snapshot.accountId)) latestByAccount.set(snapshot.accountId, snapshot);
+    }
+
+    const views: ReconciliationReportView[] = [];
+    for (const snapshot of latestByAccount.values()) {
+      views.push(await this.toView(snapshot));
+    }
+    return views;
+  }
+
+  private async buildReport(session: any): Promise<ReconciliationReportView> {
+    const clientId = session.client_id;
+    const accountId = session.account_id;
+    const periodStart = toDateKey(session.start_date) || "";
+    const periodEnd = toDateKey(session.end_date) || "";
+    if (!accountId || !periodEnd) {
+      throw new ReconciliationReportError("The session needs a bank account and statement end date");
+    }
+
+    const ledger = await drillDownService.getAccountLines(clientId, {
+      accountId,
+      startDate: periodEnd,
+      endDate: periodEnd,
+    });
+    // Statement amounts are signed from the bank's side; credit cards and
+    // other credit-normal accounts run the other way
+    const direction = DEBIT_NORMAL_TYPES.includes(ledger.account.type) ? 1 : -1;
+
+    const outstanding = await this.getOutstandingItems(session, periodStart, periodEnd);
+    const depositsInTransit = outstanding.filter((item) => item.amount > 0);
+    const outstandingCheques = outstanding.filter((item) => item.amount < 0);
+
+    const lines = await pool.query(
+      `SELECT id, statement_date, statement_description, statement_reference, statement_amount, status
+       FROM reconciliation_items
+       WHERE session_id = $1 AND COALESCE(status, 'unmatched') IN ('unmatched', 'needs_entry')
+       ORDER BY statement_date, id`,
+      [session.id]
+    );
+    const unmatchedLineCount = lines.rows.filter((row: any) => (row.status || "unmatched") === "unmatched").length;
+    const unrecordedItems: ReportItem[] = lines.rows
+      .filter((row: any) => row.status === "needs_entry")
+      .map((row: any) => ({
+        itemType: "unrecorded" as const,
+        transactionId: null,
+        reconciliationItemId: row.id,
+        date: toDateKey(row.statement_date) || "",
+        description: row.statement_description || "",
+        reference: row.statement_reference || null,
+        amount: roundAmount(parseFloat(row.statement_amount || "0")),
+        carriedFromReportId: null,
+      }));
+
+    const statementBalance = roundAmount(parseFloat(session.statement_ending_balance || "0"));
+    const depositsInTransitTotal = sumAmounts(depositsInTransit);
+    const outstandingChequesTotal = roundAmount(-sumAmounts(outstandingCheques));
+    const adjustedBankBalance = roundAmount(
+      statementBalance + direction * (depositsInTransitTotal - outstandingChequesTotal)
+    );
+    const bookBalance = ledger.closingBalance;
+    const unrecordedTotal = sumAmounts(unrecordedItems);
+    const adjustedBookBalance = roundAmount(bookBalance + direction * unrecordedTotal);
+    const difference = roundAmount(adjustedBankBalance - adjustedBookBalance);
+
+    return {
+      reportId: null,
+      sessionId: session.id,
+      clientId,
+      accountId,
+      accountName: ledger.account.name ?? null,
+      periodStart,
+      periodEnd,
+      status: "draft",
+      statementBalance,
+      depositsInTransitTotal,
+      outstandingChequesTotal,
+      adjustedBankBalance,
+      bookBalance,
+      unrecordedTotal,
+      adjustedBookBalance,
+      difference,
+      isBalanced: Math.abs(difference) < 0.005,
+      unmatchedLineCount,
+      finalizedBy: null,
+      finalizedAt: null,
+      depositsInTransit,
+      outstandingCheques,
+      unrecordedItems,
+    };
+  }
+
+  /**
+   * Uncleared book transactions: those dated in the session period (or since
+   * the previous finalized reconciliation) plus the items carried forward
+   * from that reconciliation that have still not cleared.
+   */
+  private async getOutstandingItems(session: any, periodStart: string, periodEnd: string): Promise<ReportItem[]> {
+    const previous = await this.getPreviousReport(session.client_id, session.account_id, periodStart);
+    const carried = new Map<number, number>();
+    if (previous) {
+      const previousItems = await db
+        .select()
+        .from(reconciliationReportItems)
+        .where(eq(reconciliationReportItems.reportId, previous.id));
+      for (const item of previousItems) {
+        if (item.itemType !== "unrecorded" && item.transactionId) {
+          carried.set(item.transactionId, item.carriedFromReportId ?? previous.id);
+        }
+      }
+    }
+
+    const params: any[] = [session.client_id, session.account_id, periodEnd];
+    let dateFilter: string;
+    if (previous) {
+      params.push(previous.periodEnd);
+      dateFilter = `t.transaction_date > $${params.length}`;
+    } else {
+      params.push(periodStart || periodEnd);
+      dateFilter = `t.transaction_date >= $${params.length}`;
+    }
+    params.push(Array.from(carried.keys()));
+
+    const result = await pool.query(
+      `SELECT t.id, t.transaction_date, t.description, t.reference_number, t.amount, t.debit_amount, t.credit_amount
+       FROM transactions t
+       WHERE t.client_id = $1
+         AND COALESCE(t.source_account_id, t.account_id) = $2
+         AND t.transaction_date <= $3
+         AND ((${dateFilter}) OR t.id = ANY($${params.length}::int[]))
+         AND NOT EXISTS (SELECT 1 FROM reconciliation_items ri WHERE ri.transaction_id = t.id AND ri.status = 'matched')
+         AND NOT EXISTS (SELECT 1 FROM reconciliation_match_links l WHERE l.transaction_id = t.id)
+       ORDER BY t.transaction_date, t.id`,
+      params
+    );
+
+    return result.rows
+      .map((row: any) => {
+        const debit = parseFloat(row.debit_amount || "0");
+        const credit = parseFloat(row.credit_amount || "0");
+        const amount = debit !== 0 || credit !== 0 ? credit - debit : parseFloat(row.amount || "0");
+        const rounded = roundAmount(amount);
+        return {
+          itemType: (rounded > 0 ? "deposit_in_transit" : "outstanding_cheque") as ReportItemType,
+          transactionId: row.id,
+          reconciliationItemId: null,
+          date: toDateKey(row.transaction_date) || "",
+          description: row.description || "",
+          reference: row.reference_number || null,
+          amount: rounded,
+          carriedFromReportId: carried.get(row.id) ?? null,
+        };
+      })
+      .filter((item: ReportItem) => item.date && item.amount !== 0);
+  }
+
+  /**
+   * Most recent finalized reconciliation of the account ending before the
+   * given date
+   */
+  private async getPreviousReport(clientId: number, accountId: number, before: string) {
+    const snapshots = await db
+      .select()
+      .from(reconciliationReports)
+      .where(
+        and(
+          eq(reconciliationReports.clientId, clientId),
+          eq(reconciliationReports.accountId, accountId),
+          eq(reconciliationReports.status, "finalized")
+        )
+      )
+      .orderBy(desc(reconciliationReports.periodEnd), desc(reconciliationReports.id));
+    return snapshots.find((snapshot) => snapshot.periodEnd < before) ?? null;
+  }
+
+  private async getCurrentSnapshot(sessionId: number): Promise<ReconciliationReport | null> {
+    const [snapshot] = await db
+      .select()
+      .from(reconciliationReports)
+      .where(and(eq(reconciliationReports.sessionId, sessionId), eq(reconciliationReports.status, "finalized")))
+      .orderBy(desc(reconciliationReports.id))
+      .limit(1);
+    return snapshot ?? null;
+  }
+
+  private async toView(snapshot: ReconciliationReport): Promise<ReconciliationReportView> {
+    const rows = await db
+      .select()
+      .from(reconciliationReportItems)
+      .where(eq(reconciliationReportItems.reportId, snapshot.id))
+      .orderBy(reconciliationReportItems.itemDate, reconciliationReportItems.id);
+    const items: ReportItem[] = rows.map((row) => ({
+      itemType: row.itemType as ReportItemType,
+      transactionId: row.transactionId,
+      reconciliationItemId: row.reconciliationItemId,
+      date: row.itemDate,
+      description: row.description || "",
+      reference: row.reference,
+      amount: parseFloat(row.amount),
+      carriedFromReportId: row.carriedFromReportId,
+    }));
+    const difference = parseFloat(snapshot.difference);
+
+    return {
+      reportId: snapshot.id,
+      sessionId: snapshot.sessionId,
+      clientId: snapshot.clientId,
+      accountId: snapshot.accountId,
+      accountName: snapshot.accountName,
+      periodStart: snapshot.periodStart,
+      periodEnd: snapshot.periodEnd,
+      status: snapshot.status,
+      statementBalance: parseFloat(snapshot.statementBalance),
+      depositsInTransitTotal: parseFloat(snapshot.depositsInTransitTotal),
+      outstandingChequesTotal: parseFloat(snapshot.outstandingChequesTotal),
+      adjustedBankBalance: parseFloat(snapshot.adjustedBankBalance),
+      bookBalance: parseFloat(snapshot.bookBalance),
+      unrecordedTotal: parseFloat(snapshot.unrecordedTotal),
+      adjustedBookBalance: parseFloat(snapshot.adjustedBookBalance),
+      difference,
+      isBalanced: Math.abs(difference) < 0.005,
+      unmatchedLineCount: 0,
+      finalizedBy: snapshot.finalizedBy,
+      finalizedAt: snapshot.finalizedAt,
+      depositsInTransit: items.filter((item) => item.itemType === "deposit_in_transit"),
+      outstandingCheques: items.filter((item) => item.itemType === "outstanding_cheque"),
+      unrecordedItems: items.filter((item) => item.itemType === "unrecorded"),
+    };
+  }
+
+  private async findSession(sessionId: number) {
+    const result = await pool.query(
+      `SELECT id, client_id, account_id, start_date, end_date, status, statement_ending_balance
+       FROM reconciliation_sessions WHERE id = $1`,
+      [sessionId]
+    );
+    const session = result.rows[0];
+    if (!session) {
+      throw new ReconciliationReportError("Reconciliation session not found", 404);
+    }
+    return session;
+  }
+}
+
+export const reconciliationReportService = new ReconciliationReportService();
@@ -0,0 +1,1046 @@
+/**
+ * Recurring Invoice Service
+ *
+ * Subscription billing for a client's customers:
+ * - recurring invoice profiles with a monthly, quarterly or annual schedule,
+ *   an optional end date, payment terms, sales tax and auto-send by email
+ * - price changes entered ahead of time that apply from an effective date
+ * - preview of a month's billing run, flagging skipped, paused and locked cycles
+ * - skipping a single billing cycle, and pausing/resuming a customer's profile
+ * - generation of due invoices (called by the hourly cron job and from the
+ *   manual "run now" endpoint): each creates the invoice, posts the
+ *   accounts receivable entry and records the run on the customer's history
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  recurringInvoiceProfiles,
+  recurringInvoiceProfileLines,
+  recurringInvoicePriceChanges,
+  recurringInvoiceRuns,
+  type RecurringInvoiceProfile,
+  type RecurringInvoiceProfileLine,
+  type RecurringInvoicePriceChange,
+} from "@shared/database/recurring-invoice-entities";
+import { and, eq, gte, lte, asc, desc, inArray } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import { monthDate, splitDate } from "./recurring-schedule";
+
+export type RecurringInvoiceFrequency = "monthly" | "quarterly" | "annually";
+
+export const RECURRING_INVOICE_FREQUENCIES: RecurringInvoiceFrequency[] = ["monthly", "quarterly", "annually"];
+
+export type RecurringInvoiceStatus = "active" | "paused" | "ended";
+
+// Upper bound on cycles invoiced for one profile in a single run, so a profile
+// with a start date far in the past cannot bill years of invoices at once
+const MAX_CATCH_UP_OCCURRENCES = 12;
+
+const MONTHS_PER_CYCLE: Record<RecurringInvoiceFrequency, number> = {
+  monthly: 1,
+  quarterly: 3,
+  annually: 12,
+};
+
+export class RecurringInvoiceError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RecurringInvoiceError";
+    this.status = status;
+  }
+}
+
+export interface RecurringInvoiceLineInput {
+  // Existing line id; lines without one are added. Keeping the id keeps the
+  // line's scheduled price changes.
+  id?: number | null;
+  description: string;
+  quantity: number;
+  rate: number;
+  accountId: number;
+}
+
+export interface RecurringInvoiceProfileInput {
+  customerId: number;
+  name: string;
+  frequency: RecurringInvoiceFrequency;
+  dayOfMonth?: number | null;
+  startDate: string;
+  endDate?: string | null;
+  paymentTermsDays?: number;
+  taxRate?: number;
+  taxAccountId?: number | null;
+  arAccountId?: number | null;
+  templateId?: number | null;
+  notes?: string | null;
+  autoSend?: boolean;
+  lines: RecurringInvoiceLineInput[];
+}
+
+export interface PricedLine {
+  lineId: number;
+  description: string;
+  quantity: number;
+  rate: number;
+  amount: number;
+  accountId: number;
+  // Set when a scheduled price change replaced the line's base rate
+  priceChangeId: number | null;
+}
+
+export interface MonthPreviewOccurrence {
+  profileId: number;
+  profileName: string;
+  customerId: number;
+  customerName: string | null;
+  date: string;
+  lines: PricedLine[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  // scheduled | skipped | paused | locked
+  status: string;
+  message: string | null;
+  autoSend: boolean;
+}
+
+export interface InvoiceRunResult {
+  profileId: number;
+  generated: Array<{ date: string; invoiceId: number; invoiceNumber: string; journalEntryId: number; sent: boolean }>;
+  skipped: Array<{ date: string; reason: string }>;
+  error: string | null;
+  completed: boolean;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function todayKey(): string {
+  return new Date().toISOString().split("T")[0];
+}
+
+function addDays(dateKey: string, days: number): string {
+  const date = new Date(`${dateKey}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split("T")[0];
+}
+
+function cycleMonths(frequency: string): number {
+  return MONTHS_PER_CYCLE[frequency as RecurringInvoiceFrequency] || 1;
+}
+
+/**
+ * First billing date on or after `from`
+ */
+function firstOccurrence(profile: { frequency: string; dayOfMonth?: number | null }, from: string): string {
+  const { year, month } = splitDate(from);
+  const candidate = monthDate(year, month, profile.dayOfMonth);
+  if (candidate >= from) return candidate;
+  return monthDate(year, month + cycleMonths(profile.frequency), profile.dayOfMonth);
+}
+
+/**
+ * Billing date following `previous`
+ */
+function followingOccurrence(profile: { frequency: string; dayOfMonth?: number | null }, previous: string): string {
+  const { year, month } = splitDate(previous);
+  return monthDate(year, month + cycleMonths(profile.frequency), profile.dayOfMonth);
+}
+
+/**
+ * Next invoice number after the client's highest existing one, keeping its
+ * prefix and zero padding (INV-0041 -> INV-0042)
+ */
+export function nextInvoiceNumber(existingNumbers: Array<string | null | undefined>): string {
+  let best: { prefix: string; value: number; width: number } | null = null;
+
+  for (const invoiceNumber of existingNumbers) {
+    const match = /^(.*?)(\d+)$/.exec(invoiceNumber || "");
+    if (!match) continue;
+    const value = parseInt(match[2], 10);
+    if (!best || value > best.value) {
+      best = { prefix: match[1], value, width: match[2].length };
+    }
+  }
+
+  if (!best) return "INV-0001";
+  return `${best.prefix}${String(best.value + 1).padStart(best.width, "0")}`;
+}
+
+function validateProfile(input: RecurringInvoiceProfileInput): void {
+  if (!RECURRING_INVOICE_FREQUENCIES.includes(input.frequency)) {
+    throw new RecurringInvoiceError(`Unsupported frequency: ${input.frequency}`);
+  }
+  if (input.endDate && input.endDate < input.startDate) {
+    throw new RecurringInvoiceError("End date cannot be before the start date");
+  }
+  if (input.dayOfMonth != null && (input.dayOfMonth < 1 || input.dayOfMonth > 31)) {
+    throw new RecurringInvoiceError("Day of month must be between 1 and 31");
+  }
+  if (input.lines.length === 0) {
+    throw new RecurringInvoiceError("A recurring invoice needs at least one line");
+  }
+  for (const line of input.lines) {
+    if (line.quantity <= 0) {
+      throw new RecurringInvoiceError(`Quantity must be positive on "${line.description}"`);
+    }
+    if (line.rate < 0) {
+      throw new RecurringInvoiceError(`Rate cannot be negative on "${line.description}"`);
+    }
+  }
+}
+
+export class RecurringInvoiceService {
+  /**
+   * List a client's profiles with their lines, scheduled price changes and customer name
+   */
+  async listProfiles(clientId: number) {
+    const profiles = await db
+      .select()
+      .from(recurringInvoiceProfiles)
+      .where(eq(recurringInvoiceProfiles.clientId, clientId))
+      .orderBy(asc(recurringInvoiceProfiles.name));
+
+    const customerNames = await this.getCustomerNames(profiles.map((profile) => profile.customerId));
+    return Promise.all(
+      profiles.map(async (profile) => ({
+        ...profile,
+        customerName: customerNames.get(profile.customerId) ?? null,
+        lines: await this.getLines(profile.id),
+        priceChanges: await this.getPriceChanges([profile.id]),
+      }))
+    );
+  }
+
+  /**
+   * Get a single profile with its lines, price changes and billing history
+   */
+  async getProfile(clientId: number, profileId: number) {
+    const profile = await this.findProfile(clientId, profileId);
+    const customerNames = await this.getCustomerNames([profile.customerId]);
+
+    return {
+      ...profile,
+      customerName: customerNames.get(profile.customerId) ?? null,
+      lines: await this.getLines(profileId),
+      priceChanges: await this.getPriceChanges([profileId]),
+      runs: await this.listRuns(clientId, { profileId }),
+    };
+  }
+
+  /**
+   * Create a profile. The first billing date is computed from the start date and schedule.
+   */
+  async createProfile(clientId: number, input: RecurringInvoiceProfileInput, user?: any) {
+    validateProfile(input);
+    const nextRunDate = this.nextDateFrom(input, input.startDate, null);
+
+    const [profile] = await db
+      .insert(recurringInvoiceProfiles)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        ...this.profileValues(input),
+        nextRunDate,
+        status: nextRunDate ? "active" : "ended",
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    await this.saveLines(profile.id, input.lines);
+    return this.getProfile(clientId, profile.id);
+  }
+
+  /**
+   * Update a profile. Changing the schedule recomputes the next billing date
+   * from the later of the start date and the last billed cycle; a paused
+   * profile stays paused.
+   */
+  async updateProfile(clientId: number, profileId: number, input: RecurringInvoiceProfileInput) {
+    const existing = await this.findProfile(clientId, profileId);
+    validateProfile(input);
+
+    const lastOccurrence = await this.getLastOccurrenceDate(profileId);
+    const nextRunDate = this.nextDateFrom(input, input.startDate, lastOccurrence);
+
+    await db
+      .update(recurringInvoiceProfiles)
+      .set({
+        ...this.profileValues(input),
+        nextRunDate,
+        status: !nextRunDate ? "ended" : existing.status === "paused" ? "paused" : "active",
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(recurringInvoiceProfiles.id, profileId));
+
+    await this.saveLines(profileId, input.lines);
+    return this.getProfile(clientId, profileId);
+  }
+
+  /**
+   * Delete a profile. Invoices it already generated are left in place.
+   */
+  async deleteProfile(clientId: number, profileId: number) {
+    await this.findProfile(clientId, profileId);
+    await db.delete(recurringInvoiceProfiles).where(eq(recurringInvoiceProfiles.id, profileId));
+    return { success: true };
+  }
+
+  /**
+   * Stop billing a customer's profile until it is resumed. Cycles that fall
+   * while the profile is paused are not billed.
+   */
+  async pauseProfile(clientId: number, profileId: number) {
+    const profile = await this.findProfile(clientId, profileId);
+    if (profile.status !== "active") {
+      throw new RecurringInvoiceError(`Only active profiles can be paused (this one is ${profile.status})`);
+    }
+
+    await db
+      .update(recurringInvoiceProfiles)
+      .set({ status: "paused", updatedAt: new Date() })
+      .where(eq(recurringInvoiceProfiles.id, profileId));
+
+    return this.getProfile(clientId, profileId);
+  }
+
+  /**
+   * Resume a paused profile from its first billing date on or after today
+   */
+  async resumeProfile(clientId: number, profileId: number) {
+    const profile = await this.findProfile(clientId, profileId);
+    if (profile.status !== "paused") {
+      throw new RecurringInvoiceError("Only paused profiles can be resumed");
+    }
+
+    const lastOccurrence = await this.getLastOccurrenceDate(profileId);
+    const from = profile.startDate > todayKey() ? profile.startDate : todayKey();
+    const nextRunDate = this.nextDateFrom(profile, from, lastOccurrence);
+
+    await db
+      .update(recurringInvoiceProfiles)
+      .set({ status: nextRunDate ? "active" : "ended", nextRunDate, lastError: null, updatedAt: new Date() })
+      .where(eq(recurringInvoiceProfiles.id, profileId));
+
+    return this.getProfile(clientId, profileId);
+  }
+
+  /**
+   * Skip one upcoming billing cycle for a profile's customer. The cycle is
+   * recorded as skipped and the run moves past it.
+   */
+  async skipOccurrence(clientId: number, profileId: number, occurrenceDate: string, reason?: string | null, user?: any) {
+    const profile = await this.findProfile(clientId, profileId);
+    if (profile.status === "ended" || !profile.nextRunDate) {
+      throw new RecurringInvoiceError("This profile has no upcoming billing cycles");
+    }
+
+    const upcoming = this.upcomingDates(profile, occurrenceDate);
+    if (!upcoming.includes(occurrenceDate)) {
+      throw new RecurringInvoiceError(`${occurrenceDate} is not an upcoming billing date for this profile`);
+    }
+
+    const [existing] = await db
+      .select()
+      .from(recurringInvoiceRuns)
+      .where(and(eq(recurringInvoiceRuns.profileId, profileId), eq(recurringInvoiceRuns.occurrenceDate, occurrenceDate)));
+    if (existing) {
+      throw new RecurringInvoiceError(
+        existing.status === "skipped" ? "This cycle is already skipped" : "This cycle has already been invoiced",
+        409
+      );
+    }
+
+    const [run] = await db
+      .insert(recurringInvoiceRuns)
+      .values({
+        profileId,
+        clientId,
+        customerId: profile.customerId,
+        occurrenceDate,
+        status: "skipped",
+        message: reason || "Skipped by staff",
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    return run;
+  }
+
+  /**
+   * Undo a skip on a cycle that has not come due yet
+   */
+  async unskipOccurrence(clientId: number, profileId: number, occurrenceDate: string) {
+    const profile = await this.findProfile(clientId, profileId);
+    if (!profile.nextRunDate || occurrenceDate < toDateKey(profile.nextRunDate)!) {
+      throw new RecurringInvoiceError("Only upcoming cycles can be un-skipped");
+    }
+
+    const deleted = await db
+      .delete(recurringInvoiceRuns)
+      .where(
+        and(
+          eq(recurringInvoiceRuns.profileId, profileId),
+          eq(recurringInvoiceRuns.occurrenceDate, occurrenceDate),
+          eq(recurringInvoiceRuns.status, "skipped")
+        )
+      )
+      .returning();
+
+    if (deleted.length === 0) {
+      throw new RecurringInvoiceError("This cycle is not skipped", 404);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Schedule a new rate for a profile line from an effective date. A second
+   * change on the same date replaces the first.
+   */
+  async addPriceChange(
+    clientId: number,
+    profileId: number,
+    input: { lineId: number; effectiveDate: string; rate: number },
+    user?: any
+  ) {
+    await this.findProfile(clientId, profileId);
+    const lines = await this.getLines(profileId);
+    if (!lines.some((line) => line.id === input.lineId)) {
+      throw new RecurringInvoiceError("Line not found on this profile", 404);
+    }
+    if (input.rate < 0) {
+      throw new RecurringInvoiceError("Rate cannot be negative");
+    }
+
+    const [change] = await db
+      .insert(recurringInvoicePriceChanges)
+      .values({
+        profileId,
+        lineId: input.lineId,
+        effectiveDate: input.effectiveDate,
+        rate: roundAmount(input.rate).toFixed(2),
+        createdBy: user?.id ?? null,
+      })
+      .onConflictDoUpdate({
+        target: [recurringInvoicePriceChanges.lineId, recurringInvoicePriceChanges.effectiveDate],
+        set: { rate: roundAmount(input.rate).toFixed(2), createdBy: user?.id ?? null, createdAt: new Date() },
+      })
+      .returning();
+
+    return change;
+  }
+
+  async deletePriceChange(clientId: number, profileId: number, changeId: number) {
+    await this.findProfile(clientId, profileId);
+    const deleted = await db
+      .delete(recurringInvoicePriceChanges)
+      .where(and(eq(recurringInvoicePriceChanges.id, changeId), eq(recurringInvoicePriceChanges.profileId, profileId)))
+      .returning();
+
+    if (deleted.length === 0) {
+      throw new RecurringInvoiceError("Price change not found", 404);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Billing history: generated and skipped cycles, newest first
+   */
+  async listRuns(clientId: number, filters: { profileId?: number; customerId?: number } = {}) {
+    const conditions = [eq(recurringInvoiceRuns.clientId, clientId)];
+    if (filters.profileId) conditions.push(eq(recurringInvoiceRuns.profileId, filters.profileId));
+    if (filters.customerId) conditions.push(eq(recurringInvoiceRuns.customerId, filters.customerId));
+
+    return db
+      .select()
+      .from(recurringInvoiceRuns)
+      .where(and(...conditions))
+      .orderBy(desc(recurringInvoiceRuns.occurrenceDate), desc(recurringInvoiceRuns.id));
+  }
+
+  /**
+   * What a month's billing run will produce: every cycle of the client's
+   * active and paused profiles dated in the month, priced as of its date
+   * (scheduled price changes included), flagging skipped, paused and locked
+   * cycles. `month` is YYYY-MM and defaults to next month.
+   */
+  async previewMonth(clientId: number, month?: string | null, user?: any) {
+    const targetMonth = month || this.nextMonthKey();
+    const { year, month: monthNumber } = splitDate(`${targetMonth}-01`);
+    const monthStart = `${targetMonth}-01`;
+    const monthEnd = monthDate(year, monthNumber, null);
+
+    const profiles = await db
+      .select()
+      .from(recurringInvoiceProfiles)
+      .where(
+        and(
+          eq(recurringInvoiceProfiles.clientId, clientId),
+          inArray(recurringInvoiceProfiles.status, ["active", "paused"])
+        )
+      )
+      .orderBy(asc(recurringInvoiceProfiles.name));
+
+    const profileIds = profiles.map((profile) => profile.id);
+    const [lock, customerNames, lines, priceChanges, runs] = await Promise.all([
+      periodLockService.getLock(clientId),
+      this.getCustomerNames(profiles.map((profile) => profile.customerId)),
+      this.getLines(profileIds),
+      this.getPriceChanges(profileIds),
+      profileIds.length
+        ? db
+            .select()
+            .from(recurringInvoiceRuns)
+            .where(
+              and(
+                inArray(recurringInvoiceRuns.profileId, profileIds),
+                gte(recurringInvoiceRuns.occurrenceDate, monthStart),
+                lte(recurringInvoiceRuns.occurrenceDate, monthEnd)
+              )
+            )
+        : Promise.resolve([]),
+    ]);
+
+    const occurrences: MonthPreviewOccurrence[] = [];
+    for (const profile of profiles) {
+      if (!profile.nextRunDate) continue;
+
+      for (const date of this.upcomingDates(profile, monthEnd)) {
+        if (date < monthStart) continue;
+
+        const run = runs.find((existing) => existing.profileId === profile.id && toDateKey(existing.occurrenceDate) === date);
+        if (run && run.status !== "skipped") continue;
+
+        const priced = this.priceCycle(
+          profile,
+          lines.filter((line) => line.profileId === profile.id),
+          priceChanges.filter((change) => change.profileId === profile.id),
+          date
+        );
+        const lockError = periodLockService.checkDate(lock, date, user);
+
+        let status = "scheduled";
+        let message: string | null = null;
+        if (run) {
+          status = "skipped";
+          message = run.message;
+        } else if (profile.status === "paused") {
+          status = "paused";
+          message = "Profile is paused";
+        } else if (lockError) {
+          status = "locked";
+          message = lockError.message;
+        }
+
+        occurrences.push({
+          profileId: profile.id,
+          profileName: profile.name,
+          customerId: profile.customerId,
+          customerName: customerNames.get(profile.customerId) ?? null,
+          date,
+          ...priced,
+          status,
+          message,
+          autoSend: profile.autoSend,
+        });
+      }
+    }
+
+    occurrences.sort((a, b) => a.date.localeCompare(b.date) || a.profileName.localeCompare(b.profileName));
+    const billed = occurrences.filter((occurrence) => occurrence.status === "scheduled");
+
+    return {
+      month: targetMonth,
+      occurrences,
+      totals: {
+        invoices: billed.length,
+        subtotal: roundAmount(billed.reduce((sum, occurrence) => sum + occurrence.subtotal, 0)),
+        taxAmount: roundAmount(billed.reduce((sum, occurrence) => sum + occurrence.taxAmount, 0)),
+        total: roundAmount(billed.reduce((sum, occurrence) => sum + occurrence.total, 0)),
+      },
+    };
+  }
+
+  /**
+   * Generate every due invoice across all clients. Called by the cron job
+   * with no user, so soft locks apply as they would for staff.
+   */
+  async runDue(asOfDate?: string, user?: any): Promise<InvoiceRunResult[]> {
+    const asOf = asOfDate || todayKey();
+
+    const due = await db
+      .select()
+      .from(recurringInvoiceProfiles)
+      .where(and(eq(recurringInvoiceProfiles.status, "active"), lte(recurringInvoiceProfiles.nextRunDate, asOf)));
+
+    const results: InvoiceRunResult[] = [];
+    for (const profile of due) {
+      results.push(await this.runProfile(profile, asOf, user));
+    }
+    return results;
+  }
+
+  /**
+   * Generate due invoices for one client's profile up to `asOfDate`
+   */
+  async runProfileNow(clientId: number, profileId: number, asOfDate?: string, user?: any): Promise<InvoiceRunResult> {
+    const profile = await this.findProfile(clientId, profileId);
+    if (profile.status !== "active") {
+      throw new RecurringInvoiceError(`Profile is ${profile.status}`);
+    }
+    return this.runProfile(profile, asOfDate || todayKey(), user);
+  }
+
+  private async runProfile(profile: RecurringInvoiceProfile, asOf: string, user?: any): Promise<InvoiceRunResult> {
+    const result: InvoiceRunResult = { profileId: profile.id, generated: [], skipped: [], error: null, completed: false };
+    const lines = await this.getLines(profile.id);
+    const priceChanges = await this.getPriceChanges([profile.id]);
+    const lock = await periodLockService.getLock(profile.clientId);
+
+    let nextRunDate = toDateKey(profile.nextRunDate);
+    let invoicesGenerated = profile.invoicesGenerated;
+
+    try {
+      let iterations = 0;
+      while (nextRunDate && nextRunDate <= asOf && iterations < MAX_CATCH_UP_OCCURRENCES) {
+        iterations++;
+        const occurrenceDate = nextRunDate;
+
+        const [existing] = await db
+          .select()
+          .from(recurringInvoiceRuns)
+          .where(
+            and(eq(recurringInvoiceRuns.profileId, profile.id), eq(recurringInvoiceRuns.occurrenceDate, occurrenceDate))
+          );
+        const lockError = periodLockService.checkDate(lock, occurrenceDate, user);
+
+        if (existing) {
+          // Skipped by staff (or already generated by an overlapping run)
+          result.skipped.push({ date: occurrenceDate, reason: existing.message || existing.status });
+        } else if (lockError) {
+          // Locked periods are never invoiced into; record the skip and move on
+          await this.recordRun(profile, occurrenceDate, { status: "skipped_locked", message: lockError.message });
+          result.skipped.push({ date: occurrenceDate, reason: lockError.message });
+        } else {
+          const generated = await this.generateInvoice(profile, lines, priceChanges, occurrenceDate, user);
+          invoicesGenerated++;
+          result.generated.push({ date: occurrenceDate, ...generated });
+        }
+
+        nextRunDate = this.nextDateFrom(profile, followingOccurrence(profile, occurrenceDate), null);
+      }
+    } catch (error) {
+      // Leave nextRunDate on the failed cycle so the next run retries it
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Recurring invoice profile ${profile.id} failed:`, error);
+    }
+
+    result.completed = !nextRunDate;
+
+    await db
+      .update(recurringInvoiceProfiles)
+      .set({
+        nextRunDate,
+        invoicesGenerated,
+        status: result.completed ? "ended" : profile.status,
+        lastRunAt: new Date(),
+        lastError: result.error,
+        updatedAt: new Date(),
+      })
+      .where(eq(recurringInvoiceProfiles.id, profile.id));
+
+    return result;
+  }
+
+  /**
+   * Create one cycle's invoice, post its receivable entry (Dr AR, Cr revenue
+   * per line, Cr sales tax) and email it when the profile auto-sends
+   */
+  private async generateInvoice(
+    profile: RecurringInvoiceProfile,
+    lines: RecurringInvoiceProfileLine[],
+    priceChanges: RecurringInvoicePriceChange[],
+    occurrenceDate: string,
+    user?: any
+  ) {
+    const priced = this.priceCycle(profile, lines, priceChanges, occurrenceDate);
+    if (priced.total <= 0) {
+      throw new RecurringInvoiceError(`Invoice total for ${occurrenceDate} is zero`);
+    }
+
+    const accounts = await storage.getAccounts(profile.clientId);
+    const arAccountId =
+      profile.arAccountId ??
+      accounts.find((account: any) => account.type === "asset" && (account.name || "").toLowerCase().includes("receivable"))?.id;
+    if (!arAccountId) {
+      throw new RecurringInvoiceError("No accounts receivable account found; set one on the profile");
+    }
+
+    let taxAccountId: number | null = null;
+    if (priced.taxAmount > 0) {
+      taxAccountId =
+        profile.taxAccountId ??
+        accounts.find(
+          (account: any) =>
+            account.type === "liability" && /gst|hst|pst|qst|sales tax/.test((account.name || "").toLowerCase())
+        )?.id ??
+        null;
+      if (!taxAccountId) {
+        throw new RecurringInvoiceError("No sales tax payable account found; set one on the profile");
+      }
+    }
+
+    const existingInvoices = await storage.getInvoices(profile.clientId);
+    const invoiceNumber = nextInvoiceNumber(existingInvoices.map((invoice: any) => invoice.invoiceNumber));
+    const dueDate = addDays(occurrenceDate, profile.paymentTermsDays);
+
+    const journalEntry = await storage.createJournalEntry({
+      clientId: profile.clientId,
+      description: `Invoice ${invoiceNumber} - ${profile.name}`,
+      entryDate: new Date(`${occurrenceDate}T12:00:00`),
+      totalDebit: priced.total,
+      totalCredit: priced.total,
+      status: "posted",
+      isBalanced: true,
+    });
+
+    await storage.createJournalEntryLine({
+      journalEntryId: journalEntry.id,
+      accountId: arAccountId,
+      debitAmount: priced.total,
+      creditAmount: 0,
+      memo: `Invoice ${invoiceNumber}`,
+    });
+    for (const line of priced.lines) {
+      if (line.amount === 0) continue;
+      await storage.createJournalEntryLine({
+        journalEntryId: journalEntry.id,
+        accountId: line.accountId,
+        debitAmount: 0,
+        creditAmount: line.amount,
+        memo: line.description,
+      });
+    }
+    if (taxAccountId) {
+      await storage.createJournalEntryLine({
+        journalEntryId: journalEntry.id,
+        accountId: taxAccountId,
+        debitAmount: 0,
+        creditAmount: priced.taxAmount,
+        memo: `Sales tax - invoice ${invoiceNumber}`,
+      });
+    }
+
+    const invoice = await storage.createInvoice({
+      clientId: profile.clientId,
+      customerId: profile.customerId,
+      invoiceNumber,
+      issueDate: new Date(`${occurrenceDate}T12:00:00`),
+      dueDate: new Date(`${dueDate}T12:00:00`),
+      templateId: profile.templateId,
+      subtotal: priced.subtotal.toFixed(2),
+      taxAmount: priced.taxAmount.toFixed(2),
+      totalAmount: priced.total.toFixed(2),
+      amountDue: priced.total.toFixed(2),
+      amountPaid: "0",
+      status: "draft",
+      notes: profile.notes,
+      journalEntryId: journalEntry.id,
+      recurringProfileId: profile.id,
+    });
+
+    for (const line of priced.lines) {
+      await storage.createInvoiceItem({
+        invoiceId: invoice.id,
+        description: line.description,
+        quantity: line.quantity.toString(),
+        rate: line.rate.toFixed(2),
+        amount: line.amount.toFixed(2),
+        accountId: line.accountId,
+      });
+    }
+
+    let sentAt: Date | null = null;
+    let message: string | null = null;
+    if (profile.autoSend) {
+      const sent = await this.sendInvoiceEmail(profile, invoiceNumber, occurrenceDate, dueDate, priced.total);
+      if (sent.ok) {
+        sentAt = new Date();
+        await storage.updateInvoice(invoice.id, { status: "sent" });
+      }
+      message = sent.message;
+    }
+
+    await this.recordRun(profile, occurrenceDate, {
+      status: "generated",
+      invoiceId: invoice.id,
+      invoiceNumber,
+      journalEntryId: journalEntry.id,
+      totalAmount: priced.total.toFixed(2),
+      sentAt,
+      message,
+      createdBy: user?.id ?? null,
+    });
+
+    console.log(
+      `🧾 Generated recurring invoice ${invoiceNumber} ("${profile.name}") for client ${profile.clientId} ` +
+        `on ${occurrenceDate}: $${priced.total.toFixed(2)}${sentAt ? " (emailed)" : ""}`
+    );
+
+    return { invoiceId: invoice.id as number, invoiceNumber, journalEntryId: journalEntry.id as number, sent: !!sentAt };
+  }
+
+  /**
+   * Email the invoice to the customer. A failed email never fails the run;
+   * the invoice stays a draft to be sent by hand.
+   */
+  private async sendInvoiceEmail(
+    profile: RecurringInvoiceProfile,
+    invoiceNumber: string,
+    issueDate: string,
+    dueDate: string,
+    total: number
+  ): Promise<{ ok: boolean; message: string }> {
+    const customer = await storage.getCustomer(profile.customerId);
+    if (!customer?.email) {
+      return { ok: false, message: "Not emailed: customer has no email address" };
+    }
+
+    const customerName = customer.companyName || customer.name || "Customer";
+    const text = [
+      `Dear ${customerName},`,
+      "",
+      `Invoice ${invoiceNumber} for ${profile.name} was issued on ${issueDate}.`,
+      `Amount due: $${total.toFixed(2)}, payable by ${dueDate}.`,
+      profile.notes ? `\n${profile.notes}` : "",
+      "",
+      "Thank you for your business.",
+    ].join("\n");
+
+    try {
+      const { sendEmail } = await import("../email-service");
+      await sendEmail({
+        to: customer.email,
+        subject: `Invoice ${invoiceNumber} - ${profile.name}`,
+        text,
+        html: text
+          .split("\n")
+          .map((line) => (line ? `<p>${line}</p>` : ""))
+          .join(""),
+      });
+      return { ok: true, message: `Emailed to ${customer.email}` };
+    } catch (emailError: any) {
+      console.error(`Failed to email recurring invoice ${invoiceNumber}:`, emailError);
+      return { ok: false, message: `Email failed: ${emailError?.message || "unknown error"}` };
+    }
+  }
+
+  /**
+   * Lines priced as of a billing date: each line takes its latest price change
+   * effective on or before the date, otherwise its base rate
+   */
+  private priceCycle(
+    profile: RecurringInvoiceProfile,
+    lines: RecurringInvoiceProfileLine[],
+    priceChanges: RecurringInvoicePriceChange[],
+    date: string
+  ) {
+    const pricedLines: PricedLine[] = lines.map((line) => {
+      const change = priceChanges
+        .filter((candidate) => candidate.lineId === line.id && toDateKey(candidate.effectiveDate)! <= date)
+        .sort((a, b) => toDateKey(b.effectiveDate)!.localeCompare(toDateKey(a.effectiveDate)!))[0];
+      const quantity = parseFloat(line.quantity);
+      const rate = parseFloat(change ? change.rate : line.rate);
+
+      return {
+        lineId: line.id,
+        description: line.description,
+        quantity,
+        rate,
+        amount: roundAmount(quantity * rate),
+        accountId: line.accountId,
+        priceChangeId: change?.id ?? null,
+      };
+    });
+
+    const subtotal = roundAmount(pricedLines.reduce((sum, line) => sum + line.amount, 0));
+    const taxAmount = roundAmount(subtotal * parseFloat(profile.taxRate || "0"));
+    return { lines: pricedLines, subtotal, taxAmount, total: roundAmount(subtotal + taxAmount) };
+  }
+
+  /**
+   * Billing dates from the profile's next run date through `until`
+   */
+  private upcomingDates(profile: RecurringInvoiceProfile, until: string): string[] {
+    const dates: string[] = [];
+    let date = toDateKey(profile.nextRunDate);
+    const endDate = toDateKey(profile.endDate);
+
+    while (date && date <= until && (!endDate || date <= endDate)) {
+      dates.push(date);
+      date = followingOccurrence(profile, date);
+    }
+    return dates;
+  }
+
+  /**
+   * First billing date on or after `from` that is after the last billed cycle
+   * and not past the end date; null when the schedule is finished
+   */
+  private nextDateFrom(
+    profile: { frequency: string; dayOfMonth?: number | null; endDate?: string | null },
+    from: string,
+    lastOccurrence: string | null
+  ): string | null {
+    let candidate = firstOccurrence(profile, from);
+    while (lastOccurrence && candidate <= lastOccurrence) {
+      candidate = followingOccurrence(profile, candidate);
+    }
+    const endDate = toDateKey(profile.endDate);
+    return endDate && candidate > endDate ? null : candidate;
+  }
+
+  private nextMonthKey(): string {
+    const { year, month } = splitDate(todayKey());
+    return monthDate(year, month + 1, 1).slice(0, 7);
+  }
+
+  private profileValues(input: RecurringInvoiceProfileInput) {
+    return {
+      customerId: input.customerId,
+      name: input.name,
+      frequency: input.frequency,
+      dayOfMonth: input.dayOfMonth ?? null,
+      startDate: input.startDate,
+      endDate: input.endDate ?? null,
+      paymentTermsDays: input.paymentTermsDays ?? 30,
+      taxRate: (input.taxRate ?? 0).toString(),
+      taxAccountId: input.taxAccountId ?? null,
+      arAccountId: input.arAccountId ?? null,
+      templateId: input.templateId ?? null,
+      notes: input.notes ?? null,
+      autoSend: input.autoSend ?? false,
+    };
+  }
+
+  private async recordRun(
+    profile: RecurringInvoiceProfile,
+    occurrenceDate: string,
+    values: {
+      status: string;
+      invoiceId?: number | null;
+      invoiceNumber?: string | null;
+      journalEntryId?: number | null;
+      totalAmount?: string | null;
+      sentAt?: Date | null;
+      message?: string | null;
+      createdBy?: number | null;
+    }
+  ) {
+    await db
+      .insert(recurringInvoiceRuns)
+      .values({
+        profileId: profile.id,
+        clientId: profile.clientId,
+        customerId: profile.customerId,
+        occurrenceDate,
+        ...values,
+      })
+      .onConflictDoNothing();
+  }
+
+  private async findProfile(clientId: number, profileId: number): Promise<RecurringInvoiceProfile> {
+    const [profile] = await db
+      .select()
+      .from(recurringInvoiceProfiles)
+      .where(and(eq(recurringInvoiceProfiles.id, profileId), eq(recurringInvoiceProfiles.clientId, clientId)));
+
+    if (!profile) {
+      throw new RecurringInvoiceError("Recurring invoice profile not found", 404);
+    }
+    return profile;
+  }
+
+  private async getLines(profileIds: number | number[]) {
+    const ids = Array.isArray(profileIds) ? profileIds : [profileIds];
+    if (ids.length === 0) return [];
+
+    return db
+      .select()
+      .from(recurringInvoiceProfileLines)
+      .where(inArray(recurringInvoiceProfileLines.profileId, ids))
+      .orderBy(asc(recurringInvoiceProfileLines.sortOrder));
+  }
+
+  private async getPriceChanges(profileIds: number[]) {
+    if (profileIds.length === 0) return [];
+
+    return db
+      .select()
+      .from(recurringInvoicePriceChanges)
+      .where(inArray(recurringInvoicePriceChanges.profileId, profileIds))
+      .orderBy(asc(recurringInvoicePriceChanges.effectiveDate));
+  }
+
+  /**
+   * Update lines in place by id so their scheduled price changes survive,
+   * add new lines and remove the ones no longer on the profile
+   */
+  private async saveLines(profileId: number, lines: RecurringInvoiceLineInput[]) {
+    const existing = await this.getLines(profileId);
+    const keptIds = new Set<number>();
+
+    for (const [index, line] of lines.entries()) {
+      const values = {
+        description: line.description,
+        quantity: line.quantity.toString(),
+        rate: roundAmount(line.rate).toFixed(2),
+        accountId: line.accountId,
+        sortOrder: index,
+      };
+
+      if (line.id && existing.some((current) => current.id === line.id)) {
+        keptIds.add(line.id);
+        await db.update(recurringInvoiceProfileLines).set(values).where(eq(recurringInvoiceProfileLines.id, line.id));
+      } else {
+        await db.insert(recurringInvoiceProfileLines).values({ profileId, ...values });
+      }
+    }
+
+    const removedIds = existing.filter((line) => !keptIds.has(line.id)).map((line) => line.id);
+    if (removedIds.length > 0) {
+      await db.delete(recurringInvoiceProfileLines).where(inArray(recurringInvoiceProfileLines.id, removedIds));
+    }
+  }
+
+  private async getLastOccurrenceDate(profileId: number): Promise<string | null> {
+    const [last] = await db
+      .select({ occurrenceDate: recurringInvoiceRuns.occurrenceDate })
+      .from(recurringInvoiceRuns)
+      .where(and(eq(recurringInvoiceRuns.profileId, profileId), inArray(recurringInvoiceRuns.status, ["generated", "skipped_locked"])))
+      .orderBy(desc(recurringInvoiceRuns.occurrenceDate))
+      .limit(1);
+
+    return toDateKey(last?.occurrenceDate) ?? null;
+  }
+
+  private async getCustomerNames(customerIds: number[]): Promise<Map<number, string>> {
+    const names = new Map<number, string>();
+    for (const customerId of Array.from(new Set(customerIds))) {
+      try {
+        const customer = await storage.getCustomer(customerId);
+        if (customer) names.set(customerId, customer.companyName || customer.name);
+      } catch (error) {
+        console.error(`Failed to load customer ${customerId}:`, error);
+      }
+    }
+    return names;
+  }
+}
+
+export const recurringInvoiceService = new RecurringInvoiceService();
@@ -0,0 +1,558 @@
+/**
+ * Recurring Journal Service
+ *
+ * Recurring journal-entry templates for entries that are re-keyed every period
+ * (accruals, prepaid amortization, management fees):
+ * - monthly, quarterly or fiscal-year-end schedules, ending on an end date or
+ *   after a number of occurrences
+ * - optional reversal on the first day of the next period
+ * - preview of upcoming postings, flagging dates in a locked period
+ * - posting of due occurrences (called by the hourly cron job and from the
+ *   manual "run now" endpoint), respecting the client's period lock; each
+ *   occurrence posts in one transaction and is never posted twice
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  recurringJournalTemplates,
+  recurringJournalTemplateLines,
+  recurringJournalPostings,
+  type RecurringJournalTemplate,
+  type RecurringJournalTemplateLine,
+} from "@shared/database/recurring-journal-entities";
+import { and, eq, lte, asc, desc } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import { insertPostedJournalEntry } from "./journal-posting";
+import {
+  computeSchedule,
+  firstOccurrence,
+  followingOccurrence,
+  isScheduleComplete,
+  reversalDateFor,
+  type FiscalYearEnd,
+  type ScheduleOptions,
+} from "./recurring-schedule";
+
+export type RecurringFrequency = "monthly" | "quarterly" | "fiscal_year_end";
+
+export const RECURRING_FREQUENCIES: RecurringFrequency[] = ["monthly", "quarterly", "fiscal_year_end"];
+
+// Upper bound on occurrences posted for one template in a single run, so a
+// template with a start date far in the past cannot post years of entries at once
+const MAX_CATCH_UP_OCCURRENCES = 24;
+
+export class RecurringJournalError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "RecurringJournalError";
+    this.status = status;
+  }
+}
+
+export interface RecurringLineInput {
+  accountId: number;
+  debitAmount: number;
+  creditAmount: number;
+  memo?: string | null;
+}
+
+export interface RecurringTemplateInput {
+  name: string;
+  description: string;
+  frequency: RecurringFrequency;
+  dayOfMonth?: number | null;
+  startDate: string;
+  endDate?: string | null;
+  maxOccurrences?: number | null;
+  autoReverse?: boolean;
+  isActive?: boolean;
+  lines: RecurringLineInput[];
+}
+
+export interface UpcomingPosting {
+  occurrence: number;
+  date: string;
+  reversalDate: string | null;
+  locked: boolean;
+  lockMessage: string | null;
+}
+
+export interface RunResult {
+  templateId: number;
+  posted: Array<{ date: string; journalEntryId: number; reversalJournalEntryId: number | null }>;
+  skipped: Array<{ date: string; reason: string }>;
+  error: string | null;
+  completed: boolean;
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function validateLines(lines: RecurringLineInput[]): void {
+  if (lines.length < 2) {
+    throw new RecurringJournalError("A recurring journal entry needs at least two lines");
+  }
+
+  for (const line of lines) {
+    if (line.debitAmount < 0 || line.creditAmount < 0) {
+      throw new RecurringJournalError("Line amounts cannot be negative");
+    }
+    if (line.debitAmount > 0 && line.creditAmount > 0) {
+      throw new RecurringJournalError("A line cannot have both a debit and a credit");
+    }
+  }
+
+  const totalDebit = roundAmount(lines.reduce((sum, line) => sum + line.debitAmount, 0));
+  const totalCredit = roundAmount(lines.reduce((sum, line) => sum + line.creditAmount, 0));
+  if (totalDebit === 0 || totalDebit !== totalCredit) {
+    throw new RecurringJournalError(
+      `Debits (${totalDebit.toFixed(2)}) must equal credits (${totalCredit.toFixed(2)})`
+    );
+  }
+}
+
+function validateSchedule(options: ScheduleOptions): void {
+  if (!RECURRING_FREQUENCIES.includes(options.frequency as RecurringFrequency)) {
+    throw new RecurringJournalError(`Unsupported frequency: ${options.frequency}`);
+  }
+  if (options.endDate && options.endDate < options.startDate) {
+    throw new RecurringJournalError("End date cannot be before the start date");
+  }
+  if (options.dayOfMonth != null && (options.dayOfMonth < 1 || options.dayOfMonth > 31)) {
+    throw new RecurringJournalError("Day of month must be between 1 and 31");
+  }
+}
+
+export class RecurringJournalService {
+  /**
+   * Fiscal year end from the client's bookkeeping settings (defaults to December 31)
+   */
+  async getFiscalYearEnd(clientId: number): Promise<FiscalYearEnd> {
+    const settings = await storage.getClientBookkeepingSettings(clientId);
+    return {
+      month: settings?.fiscalYearEndMonth || 12,
+      day: settings?.fiscalYearEndDay || 31,
+    };
+  }
+
+  /**
+   * Scheduled dates from `from`, stopping at the end date, the occurrence limit or `count`
+   */
+  computeSchedule(
+    options: ScheduleOptions,
+    fiscalYearEnd: FiscalYearEnd,
+    count: number,
+    from?: string | null,
+    occurrencesPosted = 0
+  ): string[] {
+    return computeSchedule(options, fiscalYearEnd, count, from, occurrencesPosted);
+  }
+
+  /**
+   * List a client's templates with their lines
+   */
+  async listTemplates(clientId: number) {
+    const templates = await db
+      .select()
+      .from(recurringJournalTemplates)
+      .where(eq(recurringJournalTemplates.clientId, clientId))
+      .orderBy(asc(recurringJournalTemplates.name));
+
+    return Promise.all(
+      templates.map(async (template) => ({
+        ...template,
+        lines: await this.getLines(template.id),
+      }))
+    );
+  }
+
+  /**
+   * Get a single template with its lines and posting history
+   */
+  async getTemplate(clientId: number, templateId: number) {
+    const template = await this.findTemplate(clientId, templateId);
+
+    const postings = await db
+      .select()
+      .from(recurringJournalPostings)
+      .where(eq(recurringJournalPostings.templateId, templateId))
+      .orderBy(desc(recurringJournalPostings.occurrenceDate));
+
+    return { ...template, lines: await this.getLines(templateId), postings };
+  }
+
+  /**
+   * Create a template. The first run date is computed from the start date and schedule.
+   */
+  async createTemplate(clientId: number, input: RecurringTemplateInput, user?: any) {
+    validateSchedule(input);
+    validateLines(input.lines);
+
+    const fiscalYearEnd = await this.getFiscalYearEnd(clientId);
+    const [nextRunDate] = this.computeSchedule(input, fiscalYearEnd, 1);
+
+    const [template] = await db
+      .insert(recurringJournalTemplates)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        name: input.name,
+        description: input.description,
+        frequency: input.frequency,
+        dayOfMonth: input.dayOfMonth ?? null,
+        startDate: input.startDate,
+        endDate: input.endDate ?? null,
+        maxOccurrences: input.maxOccurrences ?? null,
+        nextRunDate: nextRunDate ?? null,
+        autoReverse: input.autoReverse ?? false,
+        isActive: (input.isActive ?? true) && !!nextRunDate,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    await this.replaceLines(template.id, input.lines);
+    return { ...template, lines: await this.getLines(template.id) };
+  }
+
+  /**
+   * Update a template. Changing the schedule recomputes the next run date from
+   * the later of the start date and the last posted occurrence.
+   */
+  async updateTemplate(clientId: number, templateId: number, input: RecurringTemplateInput) {
+    const existing = await this.findTemplate(clientId, templateId);
+    validateSchedule(input);
+    validateLines(input.lines);
+
+    const fiscalYearEnd = await this.getFiscalYearEnd(clientId);
+    const lastOccurrence = await this.getLastOccurrenceDate(templateId);
+    let candidate = firstOccurrence(input, fiscalYearEnd, input.startDate);
+    while (lastOccurrence && candidate <= lastOccurrence) {
+      candidate = followingOccurrence(input, fiscalYearEnd, candidate);
+    }
+    const [nextRunDate] = this.computeSchedule(input, fiscalYearEnd, 1, candidate, existing.occurrencesPosted);
+
+    const [template] = await db
+      .update(recurringJournalTemplates)
+      .set({
+        name: input.name,
+        description: input.description,
+        frequency: input.frequency,
+        dayOfMonth: input.dayOfMonth ?? null,
+        startDate: input.startDate,
+        endDate: input.endDate ?? null,
+        maxOccurrences: input.maxOccurrences ?? null,
+        nextRunDate: nextRunDate ?? null,
+        autoReverse: input.autoReverse ?? false,
+        isActive: (input.isActive ?? existing.isActive) && !!nextRunDate,
+        lastError: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(recurringJournalTemplates.id, templateId))
+      .returning();
+
+    await this.replaceLines(templateId, input.lines);
+    return { ...template, lines: await this.getLines(templateId) };
+  }
+
+  /**
+   * Delete a template. Entries it already posted are left in the ledger.
+   */
+  async deleteTemplate(clientId: number, templateId: number) {
+    await this.findTemplate(clientId, templateId);
+    await db.delete(recurringJournalTemplates).where(eq(recurringJournalTemplates.id, templateId));
+    return { success: true };
+  }
+
+  /**
+   * Upcoming postings for a saved template, flagging dates in a locked period
+   */
+  async previewTemplate(clientId: number, templateId: number, count = 12, user?: any) {
+    const template = await this.findTemplate(clientId, templateId);
+    if (!template.isActive || !template.nextRunDate) return [];
+
+    return this.preview(clientId, template, count, user, template.nextRunDate, template.occurrencesPosted);
+  }
+
+  /**
+   * Upcoming postings for a schedule that has not been saved yet
+   */
+  async previewSchedule(
+    clientId: number,
+    options: ScheduleOptions & { autoReverse?: boolean },
+    count = 12,
+    user?: any
+  ) {
+    validateSchedule(options);
+    return this.preview(clientId, options, count, user, null, 0);
+  }
+
+  /**
+   * Post every due occurrence across all clients. Called by the cron job with
+   * no user, so soft locks apply as they would for staff.
+   */
+  async runDue(asOfDate?: string, user?: any): Promise<RunResult[]> {
+    const asOf = asOfDate || new Date().toISOString().split("T")[0];
+
+    const due = await db
+      .select()
+      .from(recurringJournalTemplates)
+      .where(
+        and(
+          eq(recurringJournalTemplates.isActive, true),
+          lte(recurringJournalTemplates.nextRunDate, asOf)
+        )
+      );
+
+    const results: RunResult[] = [];
+    for (const template of due) {
+      results.push(await this.runTemplate(template, asOf, user));
+    }
+    return results;
+  }
+
+  /**
+   * Post due occurrences of one client's template up to `asOfDate`
+   */
+  async runTemplateNow(clientId: number, templateId: number, asOfDate?: string, user?: any): Promise<RunResult> {
+    const template = await this.findTemplate(clientId, templateId);
+    if (!template.isActive) {
+      throw new RecurringJournalError("Template is inactive");
+    }
+    return this.runTemplate(template, asOfDate || new Date().toISOString().split("T")[0], user);
+  }
+
+  private async runTemplate(template: RecurringJournalTemplate, asOf: string, user?: any): Promise<RunResult> {
+    const result: RunResult = { templateId: template.id, posted: [], skipped: [], error: null, completed: false };
+    const lines = await this.getLines(template.id);
+    const fiscalYearEnd = await this.getFiscalYearEnd(template.clientId);
+    const lock = await periodLockService.getLock(template.clientId);
+
+    let nextRunDate = template.nextRunDate;
+    let occurrencesPosted = template.occurrencesPosted;
+
+    try {
+      let iterations = 0;
+      while (nextRunDate && nextRunDate <= asOf && iterations < MAX_CATCH_UP_OCCURRENCES) {
+        iterations++;
+
+        if (isScheduleComplete(template, nextRunDate, occurrencesPosted)) {
+          nextRunDate = null;
+          break;
+        }
+
+        const occurrenceDate = nextRunDate;
+        const reversalDate = template.autoReverse ? reversalDateFor(occurrenceDate) : null;
+        const [existing] = await db
+          .select()
+          .from(recurringJournalPostings)
+          .where(
+            and(eq(recurringJournalPostings.templateId, template.id), eq(recurringJournalPostings.occurrenceDate, occurrenceDate))
+          );
+        const lockError =
+          periodLockService.checkDate(lock, occurrenceDate, user) ||
+          (reversalDate ? periodLockService.checkDate(lock, reversalDate, user) : null);
+
+        if (existing) {
+          // Already handled by an earlier or overlapping run
+          result.skipped.push({ date: occurrenceDate, reason: existing.message || existing.status });
+        } else if (lockError) {
+          // Locked periods are never posted into; record the skip and move on
+          await this.recordPosting(template, occurrenceDate, {
+            status: "skipped_locked",
+            message: lockError.message,
+          });
+          result.skipped.push({ date: occurrenceDate, reason: lockError.message });
+        } else {
+          const posted = await this.postOccurrence(template, lines, occurrenceDate, reversalDate);
+          occurrencesPosted++;
+          result.posted.push({ date: occurrenceDate, ...posted });
+        }
+
+        nextRunDate = followingOccurrence(template, fiscalYearEnd, occurrenceDate);
+        if (isScheduleComplete(template, nextRunDate, occurrencesPosted)) {
+          nextRunDate = null;
+        }
+      }
+    } catch (error) {
+      // Leave nextRunDate on the failed occurrence so the next run retries it
+      result.error = error instanceof Error ? error.message : String(error);
+      console.error(`❌ Recurring journal template ${template.id} failed:`, error);
+    }
+
+    result.completed = !nextRunDate;
+
+    await db
+      .update(recurringJournalTemplates)
+      .set({
+        nextRunDate,
+        occurrencesPosted,
+        isActive: !result.completed,
+        lastRunAt: new Date(),
+        lastError: result.error,
+        updatedAt: new Date(),
+      })
+      .where(eq(recurringJournalTemplates.id, template.id));
+
+    return result;
+  }
+
+  /**
+   * Post the entry, its reversal and the posting record in one transaction.
+   * The posting row is written first, so an overlapping run fails on the
+   * occurrence's unique key instead of posting the entry twice.
+   */
+  private async postOccurrence(
+    template: RecurringJournalTemplate,
+    lines: RecurringJournalTemplateLine[],
+    occurrenceDate: string,
+    reversalDate: string | null
+  ) {
+    const entryLines = lines.map((line) => ({
+      accountId: line.accountId,
+      debitAmount: parseFloat(line.debitAmount),
+      creditAmount: parseFloat(line.creditAmount),
+      memo: line.memo,
+    }));
+
+    return db.transaction(async (tx) => {
+      const [posting] = await tx
+        .insert(recurringJournalPostings)
+        .values({
+          templateId: template.id,
+          clientId: template.clientId,
+          occurrenceDate,
+          status: "posted",
+          reversalDate,
+        })
+        .returning();
+
+      const journalEntry = await insertPostedJournalEntry(tx, {
+        clientId: template.clientId,
+        entryDate: occurrenceDate,
+        description: template.description,
+        lines: entryLines,
+      });
+
+      const reversal = reversalDate
+        ? await insertPostedJournalEntry(tx, {
+            clientId: template.clientId,
+            entryDate: reversalDate,
+            description: `Reversal: ${template.description}`,
+            lines: entryLines.map((line) => ({
+              ...line,
+              debitAmount: line.creditAmount,
+              creditAmount: line.debitAmount,
+            })),
+          })
+        : null;
+
+      await tx
+        .update(recurringJournalPostings)
+        .set({ journalEntryId: journalEntry.id, reversalJournalEntryId: reversal?.id ?? null })
+        .where(eq(recurringJournalPostings.id, posting.id));
+
+      return { journalEntryId: journalEntry.id, reversalJournalEntryId: reversal?.id ?? null };
+    });
+  }
+
+  private async preview(
+    clientId: number,
+    options: ScheduleOptions & { autoReverse?: boolean },
+    count: number,
+    user: any,
+    from: string | null,
+    occurrencesPosted: number
+  ): Promise<UpcomingPosting[]> {
+    const fiscalYearEnd = await this.getFiscalYearEnd(clientId);
+    const lock = await periodLockService.getLock(clientId);
+    const dates = this.computeSchedule(options, fiscalYearEnd, count, from, occurrencesPosted);
+
+    return dates.map((date, index) => {
+      const reversalDate = options.autoReverse ? reversalDateFor(date) : null;
+      const lockError =
+        periodLockService.checkDate(lock, date, user) ||
+        (reversalDate ? periodLockService.checkDate(lock, reversalDate, user) : null);
+
+      return {
+        occurrence: occurrencesPosted + index + 1,
+        date,
+        reversalDate,
+        locked: !!lockError,
+        lockMessage: lockError?.message ?? null,
+      };
+    });
+  }
+
+  private async recordPosting(
+    template: RecurringJournalTemplate,
+    occurrenceDate: string,
+    values: {
+      status: string;
+      journalEntryId?: number | null;
+      reversalJournalEntryId?: number | null;
+      reversalDate?: string | null;
+      message?: string | null;
+    }
+  ) {
+    await db
+      .insert(recurringJournalPostings)
+      .values({
+        templateId: template.id,
+        clientId: template.clientId,
+        occurrenceDate,
+        ...values,
+      })
+      .onConflictDoNothing();
+  }
+
+  private async findTemplate(clientId: number, templateId: number): Promise<RecurringJournalTemplate> {
+    const [template] = await db
+      .select()
+      .from(recurringJournalTemplates)
+      .where(and(eq(recurringJournalTemplates.id, templateId), eq(recurringJournalTemplates.clientId, clientId)));
+
+    if (!template) {
+      throw new RecurringJournalError("Recurring journal template not found", 404);
+    }
+    return template;
+  }
+
+  private async getLines(templateId: number) {
+    return db
+      .select()
+      .from(recurringJournalTemplateLines)
+      .where(eq(recurringJournalTemplateLines.templateId, templateId))
+      .orderBy(asc(recurringJournalTemplateLines.sortOrder));
+  }
+
+  private async replaceLines(templateId: number, lines: RecurringLineInput[]) {
+    await db.delete(recurringJournalTemplateLines).where(eq(recurringJournalTemplateLines.templateId, templateId));
+    await db.insert(recurringJournalTemplateLines).values(
+      lines.map((line, index) => ({
+        templateId,
+        accountId: line.accountId,
+        debitAmount: roundAmount(line.debitAmount).toFixed(2),
+        creditAmount: roundAmount(line.creditAmount).toFixed(2),
+        memo: line.memo ?? null,
+        sortOrder: index,
+      }))
+    );
+  }
+
+  private async getLastOccurrenceDate(templateId: number): Promise<string | null> {
+    const [last] = await db
+      .select({ occurrenceDate: recurringJournalPostings.occurrenceDate })
+      .from(recurringJournalPostings)
+      .where(eq(recurringJournalPostings.templateId, templateId))
+      .orderBy(desc(recurringJournalPostings.occurrenceDate))
+      .limit(1);
+
+    return toDateKey(last?.occurrenceDate) ?? null;
+  }
+}
+
+export const recurringJournalService = new RecurringJournalService();
@@ -0,0 +1,113 @@
+/**
+ * Recurring Schedule
+ *
+ * Date arithmetic for recurring schedules (monthly, quarterly or on the fiscal
+ * year end), on YYYY-MM-DD keys with no database access. Shared by recurring
+ * journal templates and recurring invoices.
+ */
+
+export interface ScheduleOptions {
+  frequency: string;
+  dayOfMonth?: number | null;
+  startDate: string;
+  endDate?: string | null;
+  maxOccurrences?: number | null;
+}
+
+export interface FiscalYearEnd {
+  month: number;
+  day: number;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, "0");
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Date key for a day in a month (1-based month), clamped to the month's last
+ * day. A null day means the last day of the month.
+ */
+export function monthDate(year: number, month: number, day: number | null | undefined): string {
+  // Normalize month overflow from stepping forward (13 -> January next year)
+  const normalizedYear = year + Math.floor((month - 1) / 12);
+  const normalizedMonth = ((month - 1) % 12) + 1;
+  const lastDay = daysInMonth(normalizedYear, normalizedMonth);
+  const actualDay = day ? Math.min(day, lastDay) : lastDay;
+  return `${normalizedYear}-${pad(normalizedMonth)}-${pad(actualDay)}`;
+}
+
+export function splitDate(dateKey: string): { year: number; month: number; day: number } {
+  const [year, month, day] = dateKey.split("-").map(Number);
+  return { year, month, day };
+}
+
+/**
+ * First scheduled date on or after `from`
+ */
+export function firstOccurrence(options: ScheduleOptions, fiscalYearEnd: FiscalYearEnd, from: string): string {
+  const { year, month } = splitDate(from);
+
+  if (options.frequency === "fiscal_year_end") {
+    const candidate = monthDate(year, fiscalYearEnd.month, fiscalYearEnd.day);
+    return candidate >= from ? candidate : monthDate(year + 1, fiscalYearEnd.month, fiscalYearEnd.day);
+  }
+
+  const candidate = monthDate(year, month, options.dayOfMonth);
+  if (candidate >= from) return candidate;
+  return monthDate(year, month + (options.frequency === "quarterly" ? 3 : 1), options.dayOfMonth);
+}
+
+/**
+ * Scheduled date following `previous`
+ */
+export function followingOccurrence(options: ScheduleOptions, fiscalYearEnd: FiscalYearEnd, previous: string): string {
+  const { year, month } = splitDate(previous);
+
+  if (options.frequency === "fiscal_year_end") {
+    return monthDate(year + 1, fiscalYearEnd.month, fiscalYearEnd.day);
+  }
+
+  return monthDate(year, month + (options.frequency === "quarterly" ? 3 : 1), options.dayOfMonth);
+}
+
+/**
+ * Reversal date for an occurrence: the first day of the next period
+ */
+export function reversalDateFor(occurrenceDate: string): string {
+  const { year, month } = splitDate(occurrenceDate);
+  return month === 12 ? `${year + 1}-01-01` : `${year}-${pad(month + 1)}-01`;
+}
+
+/**
+ * Whether the schedule has ended before `date` given how many occurrences were already posted
+ */
+export function isScheduleComplete(options: ScheduleOptions, date: string, occurrencesPosted: number): boolean {
+  if (options.endDate && date > options.endDate) return true;
+  if (options.maxOccurrences && occurrencesPosted >= options.maxOccurrences) return true;
+  return false;
+}
+
+/**
+ * Scheduled dates from `from`, stopping at the end date, the occurrence limit or `count`
+ */
+export function computeSchedule(
+  options: ScheduleOptions,
+  fiscalYearEnd: FiscalYearEnd,
+  count: number,
+  from?: string | null,
+  occurrencesPosted = 0
+): string[] {
+  const dates: string[] = [];
+  let date = from || firstOccurrence(options, fiscalYearEnd, options.startDate);
+
+  while (dates.length < count && !isScheduleComplete(options, date, occurrencesPosted + dates.length)) {
+    dates.push(date);
+    date = followingOccurrence(options, fiscalYearEnd, date);
+  }
+
+  return dates;
+}
@@ -0,0 +1,598 @@
+/**
+ * Transfer Detection Service
+ *
+ * Finds movements between a client's own accounts that were imported by both
+ * feeds (e.g. a credit card payment made from chequing):
+ * - pairs opposite-signed, equal-amount transactions on two internal accounts
+ *   within the firm's date window and proposes them as one transfer
+ * - accepting a pair posts a single transfer journal entry and takes both
+ *   halves out of categorization, so the movement is neither double-counted
+ *   nor left in suspense
+ * - a half with no counterpart (the other account has no feed) can be posted
+ *   against a chosen account; if the other half arrives later it is offered
+ *   for linking to that transfer instead of posting again
+ */
+
+import { db, pool } from "../db";
+import { storage } from "../minimal-storage";
+import {
+  transferDetectionSettings,
+  transferInternalAccounts,
+  transferPairs,
+  type TransferPair,
+} from "@shared/database/transfer-entities";
+import { and, eq, desc } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+
+export class TransferError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "TransferError";
+    this.status = status;
+  }
+}
+
+export interface TransferSettings {
+  dateWindowDays: number;
+  includeCreditCards: boolean;
+}
+
+export const DEFAULT_TRANSFER_SETTINGS: TransferSettings = {
+  dateWindowDays: 3,
+  includeCreditCards: true,
+};
+
+export interface FeedTransaction {
+  transactionId: number;
+  accountId: number;
+  accountName: string;
+  date: string;
+  description: string;
+  reference: string | null;
+  // Signed from the account holder's side: negative is money out
+  amount: number;
+}
+
+export interface TransferProposal {
+  key: string;
+  from: FeedTransaction;
+  to: FeedTransaction;
+  amount: number;
+  daysApart: number;
+  reasons: string[];
+  // Other equally good counterparts for the money-out half
+  alternativeCount: number;
+}
+
+const BANK_SUBTYPES = ["bank", "banklink", "cash"];
+const CREDIT_CARD_SUBTYPES = ["credit_card"];
+
+// Statement wording that usually marks a transfer between own accounts
+const TRANSFER_HINT = /\b(transfer|tfr|xfer|trsf|payment\s*-?\s*thank\s*you|card\s*payment|visa\s*payment|mc\s*payment|amex\s*payment)\b/i;
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function daysBetween(a: string, b: string): number {
+  const ms = Math.abs(new Date(`${a}T00:00:00Z`).getTime() - new Date(`${b}T00:00:00Z`).getTime());
+  return Math.round(ms / 86400000);
+}
+
+export class TransferDetectionService {
+  /**
+   * Firm transfer settings, or the defaults
+   */
+  async getSettings(firmId?: number | null): Promise<TransferSettings> {
+    if (!firmId) return { ...DEFAULT_TRANSFER_SETTINGS };
+    const [settings] = await db
+      .select()
+      .from(transferDetectionSettings)
+      .where(eq(transferDetectionSettings.firmId, firmId))
+      .limit(1);
+
+    if (!settings) return { ...DEFAULT_TRANSFER_SETTINGS };
+    return {
+      dateWindowDays: settings.dateWindowDays,
+      includeCreditCards: settings.includeCreditCards,
+    };
+  }
+
+  async updateSettings(firmId: number | null | undefined, data: Partial<TransferSettings>, user?: any): Promise<TransferSettings> {
+    if (!firmId) {
+      throw new TransferError("Transfer settings are saved per firm; this user has no firm");
+    }
+    const values = {
+      ...(data.dateWindowDays !== undefined ? { dateWindowDays: data.dateWindowDays } : {}),
+      ...(data.includeCreditCards !== undefined ? { includeCreditCards: data.includeCreditCards } : {}),
+      updatedBy: user?.id ?? null,
+      updatedAt: new Date(),
+    };
+
+    await db
+      .insert(transferDetectionSettings)
+      .values({ firmId, ...values })
+      .onConflictDoUpdate({ target: transferDetectionSettings.firmId, set: values });
+
+    return this.getSettings(firmId);
+  }
+
+  /**
+   * The client's balance sheet accounts with whether each counts as internal.
+   * Without an explicit list, bank and cash accounts (and credit cards, per the
+   * firm setting) are internal.
+   */
+  async getInternalAccounts(clientId: number, firmId?: number | null) {
+    const settings = await this.getSettings(firmId);
+    const accounts = await storage.getAccounts(clientId);
+    const explicit = await db
+      .select()
+      .from(transferInternalAccounts)
+      .where(eq(transferInternalAccounts.clientId, clientId));
+    const explicitIds = new Set(explicit.map((row) => row.accountId));
+
+    const defaultSubtypes = settings.includeCreditCards ? [...BANK_SUBTYPES, ...CREDIT_CARD_SUBTYPES] : BANK_SUBTYPES;
+    return {
+      isExplicit: explicitIds.size > 0,
+      accounts: accounts
+        .filter((account: any) => account.type === "asset" || account.type === "liability")
+        .map((account: any) => ({
+          id: account.id,
+          name: account.name,
+          accountNumber: account.accountNumber ?? null,
+          type: account.type,
+          subtype: account.subtype ?? null,
+          isInternal: explicitIds.size > 0 ? explicitIds.has(account.id) : defaultSubtypes.includes(account.subtype),
+        })),
+    };
+  }
+
+  /**
+   * Replace the client's internal account list. An empty list returns the
+   * client to the firm defaults.
+   */
+  async setInternalAccounts(clientId: number, accountIds: number[], user?: any) {
+    const accounts = await storage.getAccounts(clientId);
+    const known = new Set(accounts.map((account: any) => account.id));
+    const missing = accountIds.find((accountId) => !known.has(accountId));
+    if (missing !== undefined) {
+      throw new TransferError(`Account ${missing} does not belong to this client`);
+    }
+
+    await db.delete(transferInternalAccounts).where(eq(transferInternalAccounts.clientId, clientId));
+    if (accountIds.length > 0) {
+      await db.insert(transferInternalAccounts).values(
+        [...new Set(accountIds)].map((accountId) => ({ clientId, accountId, firmId: user?.firmId ?? null }))
+      );
+    }
+    return this.getInternalAccounts(clientId, user?.firmId);
+  }
+
+  /**
+   * Transfer proposals for the client's uncategorized feed transactions, the
+   * transactions that complete an earlier one-sided transfer, and transfer-like
+   * halves with no counterpart.
+   */
+  async detect(clientId: number, firmId?: number | null, options: { startDate?: string } = {}) {
+    const settings = await this.getSettings(firmId);
+    const { accounts } = await this.getInternalAccounts(clientId, firmId);
+    const internal = accounts.filter((account: any) => account.isInternal);
+    if (internal.length < 2) {
+      return { settings, proposals: [], counterparts: [], unmatchedHalves: [], internalAccountCount: internal.length };
+    }
+
+    const accountNames = new Map<number, string>(internal.map((account: any) => [account.id, account.name]));
+    const transactions = await this.getCandidateTransactions(clientId, Array.from(accountNames.keys()), options.startDate);
+    for (const transaction of transactions) {
+      transaction.accountName = accountNames.get(transaction.accountId) || "";
+    }
+
+    const dismissed = await db
+      .select()
+      .from(transferPairs)
+      .where(and(eq(transferPairs.clientId, clientId), eq(transferPairs.status, "dismissed")));
+    const dismissedKeys = new Set(dismissed.map((pair) => `${pair.fromTransactionId}-${pair.toTransactionId}`));
+
+    const used = new Set<number>();
+
+    // Second halves of transfers already posted from one side
+    const counterparts: Array<{ pairId: number; transfer: any; transaction: FeedTransaction }> = [];
+    const openPairs = await db
+      .select()
+      .from(transferPairs)
+      .where(and(eq(transferPairs.clientId, clientId), eq(transferPairs.status, "posted")));
+    for (const pair of openPairs) {
+      if (pair.fromTransactionId && pair.toTransactionId) continue;
+      const missingAccountId = pair.fromTransactionId ? pair.toAccountId : pair.fromAccountId;
+      const amount = parseFloat(pair.amount);
+      const wantedSign = pair.fromTransactionId ? 1 : -1;
+      const match = transactions.find(
+        (transaction) =>
+          !used.has(transaction.transactionId) &&
+          transaction.accountId === missingAccountId &&
+          Math.abs(transaction.amount - wantedSign * amount) < 0.005 &&
+          daysBetween(transaction.date, pair.transferDate) <= settings.dateWindowDays
+      );
+      if (match) {
+        used.add(match.transactionId);
+        counterparts.push({ pairId: pair.id, transfer: pair, transaction: match });
+      }
+    }
+
+    // Closest counterpart first; money-out halves in date order
+    const proposals: TransferProposal[] = [];
+    const outgoing = transactions.filter((transaction) => transaction.amount < 0 && !used.has(transaction.transactionId));
+    for (const from of outgoing) {
+      if (used.has(from.transactionId)) continue;
+      const candidates = transactions
+        .filter(
+          (to) =>
+            to.amount > 0 &&
+            !used.has(to.transactionId) &&
+            to.accountId !== from.accountId &&
+            Math.abs(to.amount + from.amount) < 0.005 &&
+            daysBetween(to.date, from.date) <= settings.dateWindowDays &&
+            !dismissedKeys.has(`${from.transactionId}-${to.transactionId}`)
+        )
+        .map((to) => ({
+          to,
+          daysApart: daysBetween(to.date, from.date),
+          hinted: TRANSFER_HINT.test(to.description) || TRANSFER_HINT.test(from.description),
+        }))
+        .sort((a, b) => a.daysApart - b.daysApart || Number(b.hinted) - Number(a.hinted));
+      if (candidates.length === 0) continue;
+
+      const best = candidates[0];
+      used.add(from.transactionId);
+      used.add(best.to.transactionId);
+
+      const reasons = [
+        `Equal and opposite amounts on ${from.accountName} and ${best.to.accountName}`,
+        best.daysApart === 0 ? "Same date" : `${best.daysApart} day(s) apart`,
+      ];
+      if (best.hinted) reasons.push("Description mentions a transfer or card payment");
+
+      proposals.push({
+        key: `${from.transactionId}-${best.to.transactionId}`,
+        from,
+        to: best.to,
+        amount: roundAmount(-from.amount),
+        daysApart: best.daysApart,
+        reasons,
+        alternativeCount: candidates.filter(
+          (candidate) => candidate !== best && candidate.daysApart === best.daysApart
+        ).length,
+      });
+    }
+
+    const unmatchedHalves = transactions.filter(
+      (transaction) =>
+        !used.has(transaction.transactionId) && TRANSFER_HINT.test(transaction.description)
+    );
+
+    return { settings, proposals, counterparts, unmatchedHalves, internalAccountCount: internal.length };
+  }
+
+  /**
+   * Post a detected pair as one transfer: debit the receiving account, credit
+   * the paying account, and exclude both halves from categorization.
+   */
+  async acceptPair(clientId: number, fromTransactionId: number, toTransactionId: number, user?: any) {
+    const [from, to] = await Promise.all([
+      this.findTransaction(clientId, fromTransactionId),
+      this.findTransaction(clientId, toTransactionId),
+    ]);
+    if (from.amount >= 0 || to.amount <= 0) {
+      throw new TransferError("The first transaction must be money out and the second money in");
+    }
+    if (Math.abs(from.amount + to.amount) >= 0.005) {
+      throw new TransferError("The two halves of a transfer must be for the same amount");
+    }
+    if (from.accountId === to.accountId) {
+      throw new TransferError("A transfer needs two different accounts");
+    }
+    await periodLockService.assertPeriodOpen(clientId, [from.date, to.date], user);
+
+    const amount = roundAmount(to.amount);
+    const journalEntryId = await this.postTransferEntry(clientId, {
+      fromAccountId: from.accountId,
+      toAccountId: to.accountId,
+      amount,
+      date: from.date,
+      description: `Transfer ${from.accountName} to ${to.accountName}`,
+      sourceTransactionId: from.transactionId,
+    });
+
+    const [pair] = await db
+      .insert(transferPairs)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        fromTransactionId,
+        toTransactionId,
+        fromAccountId: from.accountId,
+        toAccountId: to.accountId,
+        amount: amount.toFixed(2),
+        transferDate: from.date,
+        status: "posted",
+        journalEntryId,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    await this.excludeAsTransfer([fromTransactionId, toTransactionId]);
+    return pair;
+  }
+
+  /**
+   * Post one half whose counterpart account has no feed (or has not imported
+   * it yet) against the chosen account
+   */
+  async postOneSided(clientId: number, transactionId: number, counterpartAccountId: number, user?: any) {
+    const transaction = await this.findTransaction(clientId, transactionId);
+    const accounts = await storage.getAccounts(clientId);
+    const counterpart = accounts.find((account: any) => account.id === counterpartAccountId);
+    if (!counterpart) {
+      throw new TransferError("Counterpart account not found", 404);
+    }
+    if (counterpart.id === transaction.accountId) {
+      throw new TransferError("A transfer needs two different accounts");
+    }
+    await periodLockService.assertPeriodOpen(clientId, [transaction.date], user);
+
+    const isMoneyOut = transaction.amount < 0;
+    const fromAccountId = isMoneyOut ? transaction.accountId : counterpart.id;
+    const toAccountId = isMoneyOut ? counterpart.id : transaction.accountId;
+    const amount = roundAmount(Math.abs(transaction.amount));
+    const journalEntryId = await this.postTransferEntry(clientId, {
+      fromAccountId,
+      toAccountId,
+      amount,
+      date: transaction.date,
+      description: isMoneyOut
+        ? `Transfer ${transaction.accountName} to ${counterpart.name}`
+        : `Transfer ${counterpart.name} to ${transaction.accountName}`,
+      sourceTransactionId: transaction.transactionId,
+    });
+
+    const [pair] = await db
+      .insert(transferPairs)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        fromTransactionId: isMoneyOut ? transactionId : null,
+        toTransactionId: isMoneyOut ? null : transactionId,
+        fromAccountId,
+        toAccountId,
+        amount: amount.toFixed(2),
+        transferDate: transaction.date,
+        status: "posted",
+        journalEntryId,
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+
+    await this.excludeAsTransfer([transactionId]);
+    return pair;
+  }
+
+  /**
+   * Attach the late-arriving half to a one-sided transfer. The transfer entry
+   * already covers it, so nothing new is posted.
+   */
+  async linkCounterpart(clientId: number, pairId: number, transactionId: number) {
+    const pair = await this.findPair(clientId, pairId);
+    if (pair.status !== "posted" || (pair.fromTransactionId && pair.toTransactionId)) {
+      throw new TransferError("This transfer already has both halves", 409);
+    }
+    const transaction = await this.findTransaction(clientId, transactionId);
+    const isMoneyOut = transaction.amount < 0;
+    const expectedAccountId = pair.fromTransactionId ? pair.toAccountId : pair.fromAccountId;
+    if (transaction.accountId !== expectedAccountId || isMoneyOut !== !pair.fromTransactionId) {
+      throw new TransferError("The transaction is not on the other side of this transfer");
+    }
+    if (Math.abs(Math.abs(transaction.amount) - parseFloat(pair.amount)) >= 0.005) {
+      throw new TransferError("The transaction amount does not match the transfer");
+    }
+
+    const [updated] = await db
+      .update(transferPairs)
+      .set(isMoneyOut ? { fromTransactionId: transactionId } : { toTransactionId: transactionId })
+      .where(eq(transferPairs.id, pairId))
+      .returning();
+    await this.excludeAsTransfer([transactionId]);
+    return updated;
+  }
+
+  /**
+   * Stop proposing a pair that is not a transfer
+   */
+  async dismissPair(clientId: number, fromTransactionId: number, toTransactionId: number, user?: any) {
+    const [from, to] = await Promise.all([
+      this.findTransaction(clientId, fromTransactionId),
+      this.findTransaction(clientId, toTransactionId),
+    ]);
+    const [pair] = await db
+      .insert(transferPairs)
+      .values({
+        clientId,
+        firmId: user?.firmId ?? null,
+        fromTransactionId,
+        toTransactionId,
+        fromAccountId: from.accountId,
+        toAccountId: to.accountId,
+        amount: roundAmount(Math.abs(from.amount)).toFixed(2),
+        transferDate: from.date,
+        status: "dismissed",
+        createdBy: user?.id ?? null,
+      })
+      .returning();
+    return pair;
+  }
+
+  /**
+   * Posted transfers, newest first
+   */
+  async listTransfers(clientId: number): Promise<TransferPair[]> {
+    return db
+      .select()
+      .from(transferPairs)
+      .where(and(eq(transferPairs.clientId, clientId), eq(transferPairs.status, "posted")))
+      .orderBy(desc(transferPairs.transferDate), desc(transferPairs.id));
+  }
+
+  /**
+   * Undo a posted transfer: delete its journal entry and return both halves
+   * to categorization
+   */
+  async removeTransfer(clientId: number, pairId: number, user?: any) {
+    const pair = await this.findPair(clientId, pairId);
+    if (pair.status === "posted") {
+      await periodLockService.assertPeriodOpen(clientId, [pair.transferDate], user);
+      if (pair.journalEntryId) {
+        const lines = await storage.getJournalEntryLines(pair.journalEntryId);
+        for (const line of lines || []) {
+          await storage.deleteJournalEntryLine(line.id);
+        }
+        await storage.deleteJournalEntry(pair.journalEntryId);
+      }
+      for (const transactionId of [pair.fromTransactionId, pair.toTransactionId]) {
+        if (transactionId) {
+          await storage.updateTransaction(transactionId, { classificationStatus: "unclassified", category: null });
+        }
+      }
+    }
+    await db.delete(transferPairs).where(eq(transferPairs.id, pairId));
+    return { success: true };
+  }
+
+  private async postTransferEntry(
+    clientId: number,
+    entry: {
+      fromAccountId: number;
+      toAccountId: number;
+      amount: number;
+      date: string;
+      description: string;
+      sourceTransactionId: number;
+    }
+  ): Promise<number> {
+    const journalEntry = await storage.createJournalEntry({
+      clientId,
+      description: entry.description,
+      entryDate: new Date(`${entry.date}T12:00:00`),
+      totalDebit: entry.amount.toFixed(2),
+      totalCredit: entry.amount.toFixed(2),
+      status: "posted",
+      isBalanced: true,
+      sourceTransactionId: entry.sourceTransactionId,
+    });
+
+    await storage.createJournalEntryLine({
+      journalEntryId: journalEntry.id,
+      accountId: entry.toAccountId,
+      debitAmount: entry.amount.toFixed(2),
+      creditAmount: "0.00",
+      description: entry.description,
+      memo: "Inter-account transfer",
+    });
+    await storage.createJournalEntryLine({
+      journalEntryId: journalEntry.id,
+      accountId: entry.fromAccountId,
+      debitAmount: "0.00",
+      creditAmount: entry.amount.toFixed(2),
+      description: entry.description,
+      memo: "Inter-account transfer",
+    });
+    return journalEntry.id;
+  }
+
+  private async excludeAsTransfer(transactionIds: number[]) {
+    for (const transactionId of transactionIds) {
+      await storage.updateTransaction(transactionId, { classificationStatus: "excluded", category: "transfer" });
+    }
+  }
+
+  private async findPair(clientId: number, pairId: number): Promise<TransferPair> {
+    const [pair] = await db
+      .select()
+      .from(transferPairs)
+      .where(and(eq(transferPairs.id, pairId), eq(transferPairs.clientId, clientId)));
+    if (!pair) {
+      throw new TransferError("Transfer not found", 404);
+    }
+    return pair;
+  }
+
+  private async findTransaction(clientId: number, transactionId: number): Promise<FeedTransaction> {
+    const [transaction] = await this.queryTransactions(clientId, "AND t.id = $2", [transactionId]);
+    if (!transaction) {
+      throw new TransferError(`Transaction ${transactionId} not found`, 404);
+    }
+    if (transaction.transferred) {
+      throw new TransferError(`Transaction ${transactionId} is already part of a transfer`, 409);
+    }
+    if (transaction.posted) {
+      throw new TransferError(`Transaction ${transactionId} has already been categorized`, 409);
+    }
+    const accounts = await storage.getAccounts(clientId);
+    const account = accounts.find((entry: any) => entry.id === transaction.accountId);
+    return { ...transaction, accountName: account?.name || "" };
+  }
+
+  /**
+   * Uncategorized, non-excluded transactions on the internal accounts
+   */
+  private async getCandidateTransactions(clientId: number, accountIds: number[], startDate?: string): Promise<FeedTransaction[]> {
+    const params: any[] = [accountIds];
+    let filters = "AND COALESCE(t.source_account_id, t.account_id) = ANY($2::int[])";
+    if (startDate) {
+      params.push(startDate);
+      filters += " AND t.transaction_date >= $3";
+    }
+    const rows = await this.queryTransactions(clientId, filters, params);
+    return rows.filter((row) => !row.transferred && !row.posted && !row.excluded);
+  }
+
+  private async queryTransactions(clientId: number, filters: string, params: any[]) {
+    const result = await pool.query(
+      `SELECT t.id, t.transaction_date, t.description, t.reference_number, t.amount, t.debit_amount, t.credit_amount,
+              COALESCE(t.source_account_id, t.account_id) AS bank_account_id,
+              COALESCE(t.classification_status, 'unclassified') = 'excluded' AS excluded,
+              EXISTS (SELECT 1 FROM journal_entries je WHERE je.source_transaction_id = t.id) AS posted,
+              EXISTS (
+                SELECT 1 FROM transfer_pairs p
+                WHERE p.status = 'posted' AND (p.from_transaction_id = t.id OR p.to_transaction_id = t.id)
+              ) AS transferred
+       FROM transactions t
+       WHERE t.client_id = $1 ${filters}
+       ORDER BY t.transaction_date, t.id`,
+      [clientId, ...params]
+    );
+
+    return result.rows
+      .map((row: any) => {
+        const debit = parseFloat(row.debit_amount || "0");
+        const credit = parseFloat(row.credit_amount || "0");
+        // Feed convention: debit_amount is money out, credit_amount is money in
+        const amount = debit !== 0 || credit !== 0 ? credit - debit : parseFloat(row.amount || "0");
+        return {
+          transactionId: row.id,
+          accountId: row.bank_account_id,
+          accountName: "",
+          date: toDateKey(row.transaction_date) || "",
+          description: row.description || "",
+          reference: row.reference_number || null,
+          amount: roundAmount(amount),
+          excluded: !!row.excluded,
+          posted: !!row.posted,
+          transferred: !!row.transferred,
+        };
+      })
+      .filter((transaction: any) => transaction.date && transaction.amount !== 0 && transaction.accountId);
+  }
+}
+
+export const transferDetectionService = new TransferDetectionService();
@@ -0,0 +1,921 @@
+/**
+ * Vendor Payment Run Service
+ *
+ * Pays a batch of vendor bills in one step instead of one cheque at a time:
+ * - lists outstanding bills by due date and vendor, marking those that still
+ *   need approval (they are never proposed or paid)
+ * - proposes payment amounts, oldest due date first, up to a cap that
+ *   defaults to the bank account's book balance
+ * - generating a run pays each vendor once: by EFT when the vendor has bank
+ *   details on file and the client has CPA-005 originator settings, otherwise
+ *   by cheque numbered in sequence from the bank account's next number
+ * - every payment posts Dr accounts payable / Cr bank and updates its bills,
+ *   plus the realized FX gain or loss on foreign-currency bills
+ * - remittance advice per vendor, viewable and emailed
+ * - voiding a run reverses every entry, voids its cheques and puts the bills
+ *   back as they were
+ * - generating and voiding each commit in a single transaction, realized FX
+ *   included, so a failure never leaves a run half-written or half-voided
+ */
+
+import { db } from "../db";
+import { storage } from "../minimal-storage";
+import { accounts, bills, cheques, journalEntries, journalEntryLines } from "@shared/schema";
+import {
+  vendorBankDetails,
+  eftOriginatorSettings,
+  vendorPaymentRuns,
+  vendorPaymentRunPayments,
+  vendorPaymentRunBills,
+  type VendorBankDetails,
+  type EftOriginatorSettings,
+  type VendorPaymentRun,
+  type VendorPaymentRunPayment,
+  type VendorPaymentRunBill,
+} from "@shared/database/vendor-payment-run-entities";
+import { and, eq, asc, desc, inArray, sql } from "drizzle-orm";
+import { periodLockService, toDateKey } from "./period-lock-service";
+import { nextInvoiceNumber } from "./recurring-invoice-service";
+import { billApprovalService } from "./bill-approval-service";
+import { buildCpa005File, validateCanadianBankAccount, Cpa005Error } from "./cpa005-file";
+import { currencyService } from "./currency-service";
+import { insertPostedJournalEntry, type DbTransaction } from "./journal-posting";
+
+export type VendorPaymentMethod = "cheque" | "eft";
+
+export interface BankDetailsInput {
+  institutionNumber: string;
+  transitNumber: string;
+  accountNumber: string;
+  accountHolderName?: string | null;
+  remittanceEmail?: string | null;
+}
+
+export interface EftSettingsInput {
+  originatorId: string;
+  shortName: string;
+  longName: string;
+  destinationDataCentre: string;
+  returnInstitutionNumber: string;
+  returnTransitNumber: string;
+  returnAccountNumber: string;
+}
+
+export interface ProposalInput {
+  bankAccountId: number;
+  paymentDate: string;
+  dueOnOrBefore?: string | null;
+  vendorIds?: number[];
+  amountCap?: number | null;
+}
+
+export interface GenerateRunInput {
+  bankAccountId: number;
+  apAccountId?: number | null;
+  paymentDate: string;
+  amountCap?: number | null;
+  firstChequeNumber?: number | null;
+  payments: Array<{ billId: number; amount: number }>;
+}
+
+// Bills in these statuses are settled or cancelled
+const CLOSED_BILL_STATUSES = ["paid", "void", "voided", "cancelled"];
+const DEFAULT_FIRST_CHEQUE_NUMBER = 1001;
+// CPA-005 file creation numbers run 0001-9999 and then start over
+const MAX_FILE_CREATION_NUMBER = 9999;
+
+export class VendorPaymentRunError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = "VendorPaymentRunError";
+    this.status = status;
+  }
+}
+
+function roundAmount(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function billBalance(bill: any): number {
+  const balanceDue = parseFloat(bill.balanceDue);
+  if (Number.isFinite(balanceDue)) return roundAmount(balanceDue);
+  return roundAmount(parseFloat(bill.totalAmount || "0") - parseFloat(bill.amountPaid || "0"));
+}
+
+// Ties a realized FX entry to the run line that paid the bill
+function runBillSettlementRef(runBillId: number): string {
+  return `vendor_payment_run_bill:${runBillId}`;
+}
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function formatMoney(amount: number): string {
+  return `$${amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+}
+
+function vendorDisplayName(vendor: any, vendorId: number): string {
+  return vendor?.vendorName || vendor?.companyName || vendor?.name || `Vendor ${vendorId}`;
+}
+
+// Account number shown in lists: last four digits only
+function maskAccount(accountNumber: string): string {
+  return `••••${accountNumber.slice(-4)}`;
+}
+
+class VendorPaymentRunService {
+  /**
+   * The client's CPA-005 originator settings, or null before EFT is set up
+   */
+  async getEftSettings(clientId: number): Promise<EftOriginatorSettings | null> {
+    const [settings] = await db
+      .select()
+      .from(eftOriginatorSettings)
+      .where(eq(eftOriginatorSettings.clientId, clientId));
+    return settings ?? null;
+  }
+
+  async saveEftSettings(clientId: number, input: EftSettingsInput): Promise<EftOriginatorSettings> {
+    const problem = validateCanadianBankAccount({
+      institutionNumber: input.returnInstitutionNumber,
+      transitNumber: input.returnTransitNumber,
+      accountNumber: input.returnAccountNumber,
+    });
+    if (problem) {
+      throw new VendorPaymentRunError(`Return account: ${problem}`);
+    }
+    if (!/^\d{5}$/.test(input.destinationDataCentre)) {
+      throw new VendorPaymentRunError("Destination data centre must be 5 digits");
+    }
+
+    const values = { ...input, updatedAt: new Date() };
+    const [saved] = await db
+      .insert(eftOriginatorSettings)
+      .values({ clientId, ...values })
+      .onConflictDoUpdate({ target: eftOriginatorSettings.clientId, set: values })
+      .returning();
+    return saved;
+  }
+
+  /**
+   * Vendors with bank details on file, with the account number masked
+   */
+  async listBankDetails(clientId: number) {
+    const rows = await db
+      .select()
+      .from(vendorBankDetails)
+      .where(eq(vendorBankDetails.clientId, clientId))
+      .orderBy(asc(vendorBankDetails.vendorId));
+    const vendors = await this.getVendors(rows.map((row) => row.vendorId));
+    return rows.map((row) => ({
+      ...row,
+      vendorName: vendorDisplayName(vendors.get(row.vendorId), row.vendorId),
+      accountNumber: maskAccount(row.accountNumber),
+    }));
+  }
+
+  async saveBankDetails(clientId: number, vendorId: number, input: BankDetailsInput): Promise<VendorBankDetails> {
+    const problem = validateCanadianBankAccount(input);
+    if (problem) {
+      throw new VendorPaymentRunError(problem);
+    }
+    const vendor = await storage.getVendor(vendorId);
+    if (!vendor) {
+      throw new VendorPaymentRunError("Vendor not found", 404);
+    }
+
+    const values = {
+      institutionNumber: input.institutionNumber,
+      transitNumber: input.transitNumber,
+      accountNumber: input.accountNumber,
+      accountHolderName: input.accountHolderName?.trim() || null,
+      remittanceEmail: input.remittanceEmail?.trim() || null,
+      updatedAt: new Date(),
+    };
+    const [saved] = await db
+      .insert(vendorBankDetails)
+      .values({ clientId, vendorId, ...values })
+      .onConflictDoUpdate({ target: [vendorBankDetails.clientId, vendorBankDetails.vendorId], set: values })
+      .returning();
+    return { ...saved, accountNumber: maskAccount(saved.accountNumber) };
+  }
+
+  async deleteBankDetails(clientId: number, vendorId: number) {
+    const deleted = await db
+      .delete(vendorBankDetails)
+      .where(and(eq(vendorBankDetails.clientId, clientId), eq(vendorBankDetails.vendorId, vendorId)))
+      .returning();
+    if (deleted.length === 0) {
+      throw new VendorPaymentRunError("No bank details on file for this vendor", 404);
+    }
+    return { success: true };
+  }
+
+  /**
+   * Book balance of a bank account on a date, from posted journal lines
+   */
+  async getBankBalance(clientId: number, bankAccountId: number, asOfDate: string): Promise<number> {
+    const [row] = await db
+      .select({
+        balance: sql<string>`COALESCE(SUM(${journalEntryLines.debitAmount} - ${journalEntryLines.creditAmount}), 0)`,
+      })
+      .from(journalEntryLines)
+      .innerJoin(journalEntries, eq(journalEntries.id, journalEntryLines.journalEntryId))
+      .where(and(
+        eq(journalEntries.clientId, clientId),
+        eq(journalEntryLines.accountId, bankAccountId),
+        sql`${journalEntries.entryDate}::date <= ${asOfDate}`
+      ));
+    return roundAmount(parseFloat(row?.balance || "0"));
+  }
+
+  /**
+   * Outstanding bills, oldest due date first. Bills awaiting approval are
+   * listed but flagged as not payable.
+   */
+  async listOutstandingBills(clientId: number, filters: { dueOnOrBefore?: string | null; vendorIds?: number[] } = {}) {
+    const clientBills = (await db.select().from(bills).where(eq(bills.clientId, clientId))).filter(
+      (bill) =>
+        !CLOSED_BILL_STATUSES.includes(bill.status) &&
+        billBalance(bill) > 0 &&
+        (!filters.dueOnOrBefore || !bill.dueDate || (toDateKey(bill.dueDate) || "") <= filters.dueOnOrBefore) &&
+        (!filters.vendorIds?.length || filters.vendorIds.includes(bill.vendorId))
+    );
+
+    const [approvals, vendors, bankDetails] = await Promise.all([
+      billApprovalService.statusesByBill(clientId),
+      this.getVendors(clientBills.map((bill) => bill.vendorId)),
+      this.getBankDetailsByVendor(clientId),
+    ]);
+
+    return clientBills
+      .map((bill) => {
+        const approval = approvals[bill.id];
+        const blocked = approval && (approval.approvalStatus === "pending" || approval.approvalStatus === "rejected");
+        return {
+          billId: bill.id,
+          billNumber: bill.billNumber,
+          vendorId: bill.vendorId,
+          vendorName: vendorDisplayName(vendors.get(bill.vendorId), bill.vendorId),
+          billDate: toDateKey(bill.billDate),
+          dueDate: toDateKey(bill.dueDate),
+          totalAmount: roundAmount(parseFloat(bill.totalAmount || "0")),
+          balanceDue: billBalance(bill),
+          approvalStatus: approval?.approvalStatus ?? "not_required",
+          payable: !blocked,
+          hasBankDetails: bankDetails.has(bill.vendorId),
+        };
+      })
+      .sort(
+        (a, b) =>
+          (a.dueDate || "9999-12-31").localeCompare(b.dueDate || "9999-12-31") ||
+          a.vendorName.localeCompare(b.vendorName) ||
+          a.billId - b.billId
+      );
+  }
+
+  /**
+   * Propose what to pay: full balances, oldest due first, until the cap is
+   * reached; the bill that crosses the cap is paid in part
+   */
+  async propose(clientId: number, input: ProposalInput) {
+    const [outstanding, bankBalance, eftSettings] = await Promise.all([
+      this.listOutstandingBills(clientId, { dueOnOrBefore: input.dueOnOrBefore, vendorIds: input.vendorIds }),
+      this.getBankBalance(clientId, input.bankAccountId, input.paymentDate),
+      this.getEftSettings(clientId),
+    ]);
+    const cap = roundAmount(input.amountCap ?? Math.max(bankBalance, 0));
+
+    let remaining = cap;
+    const proposed = outstanding.map((bill) => {
+      const proposedAmount = bill.payable ? roundAmount(Math.min(bill.balanceDue, Math.max(remaining, 0))) : 0;
+      remaining = roundAmount(remaining - proposedAmount);
+      return {
+        ...bill,
+        proposedAmount,
+        method: (bill.hasBankDetails && eftSettings ? "eft" : "cheque") as VendorPaymentMethod,
+      };
+    });
+
+    const totalProposed = roundAmount(proposed.reduce((sum, bill) => sum + bill.proposedAmount, 0));
+    return {
+      bankBalance,
+      amountCap: cap,
+      totalProposed,
+      remainingAfterRun: roundAmount(bankBalance - totalProposed),
+      eftEnabled: !!eftSettings,
+      bills: proposed,
+    };
+  }
+
+  /**
+   * Pay the selected bills: one cheque or EFT per vendor, each with its
+   * journal entry, plus a CPA-005 file for the EFT payments
+   */
+  async generate(clientId: number, input: GenerateRunInput, user?: any) {
+    const requested = new Map<number, number>();
+    for (const payment of input.payments) {
+      if (!(payment.amount > 0)) continue;
+      if (requested.has(payment.billId)) {
+        throw new VendorPaymentRunError("Each bill can only be paid once in a run");
+      }
+      requested.set(payment.billId, roundAmount(payment.amount));
+    }
+    if (requested.size === 0) {
+      throw new VendorPaymentRunError("Select at least one bill to pay");
+    }
+
+    const billIds = Array.from(requested.keys());
+    const selectedBills = await db
+      .select()
+      .from(bills)
+      .where(and(eq(bills.clientId, clientId), inArray(bills.id, billIds)));
+    if (selectedBills.length !== billIds.length) {
+      throw new VendorPaymentRunError("Some selected bills were not found", 404);
+    }
+    for (const bill of selectedBills) {
+      const amount = requested.get(bill.id)!;
+      if (CLOSED_BILL_STATUSES.includes(bill.status)) {
+        throw new VendorPaymentRunError(`Bill ${bill.billNumber} is already ${bill.status}`, 409);
+      }
+      if (amount > billBalance(bill) + 0.005) {
+        throw new VendorPaymentRunError(
+          `Payment of ${formatMoney(amount)} is more than the ${formatMoney(billBalance(bill))} owing on bill ${bill.billNumber}`
+        );
+      }
+    }
+
+    const totalAmount = roundAmount(Array.from(requested.values()).reduce((sum, amount) => sum + amount, 0));
+    if (input.amountCap !== undefined && input.amountCap !== null && totalAmount > roundAmount(input.amountCap) + 0.005) {
+      throw new VendorPaymentRunError(
+        `The run totals ${formatMoney(totalAmount)}, more than the ${formatMoney(input.amountCap)} cap`
+      );
+    }
+
+    await billApprovalService.assertPayable(billIds);
+    await periodLockService.assertPeriodOpen(clientId, [input.paymentDate], user);
+    await currencyService.assertCanSettle(clientId, "bill", billIds);
+
+    const bankAccount = await storage.getAccount(input.bankAccountId);
+    if (!bankAccount || bankAccount.clientId !== clientId) {
+      throw new VendorPaymentRunError("Bank account not found", 404);
+    }
+    const apAccountId = input.apAccountId ?? (await this.findApAccountId(clientId));
+    if (input.apAccountId) {
+      const apAccount = await storage.getAccount(input.apAccountId);
+      if (!apAccount || apAccount.clientId !== clientId) {
+        throw new VendorPaymentRunError("Accounts payable account not found", 404);
+      }
+    }
+
+    // One payment per vendor, bills oldest due first
+    const byVendor = new Map<number, any[]>();
+    for (const bill of selectedBills) {
+      byVendor.set(bill.vendorId, [...(byVendor.get(bill.vendorId) || []), bill]);
+    }
+    const [vendors, bankDetails, eftSettings] = await Promise.all([
+      this.getVendors(Array.from(byVendor.keys())),
+      this.getBankDetailsByVendor(clientId),
+      this.getEftSettings(clientId),
+    ]);
+    const groups = Array.from(byVendor.entries())
+      .map(([vendorId, vendorBills]) => ({
+        vendorId,
+        vendor: vendors.get(vendorId),
+        vendorName: vendorDisplayName(vendors.get(vendorId), vendorId),
+        bills: vendorBills.sort((a, b) => String(toDateKey(a.dueDate) || "").localeCompare(String(toDateKey(b.dueDate) || ""))),
+        amount: roundAmount(vendorBills.reduce((sum, bill) => sum + requested.get(bill.id)!, 0)),
+        bank: eftSettings ? bankDetails.get(vendorId) : undefined,
+      }))
+      .sort((a, b) => a.vendorName.localeCompare(b.vendorName));
+
+    const chequeGroups = groups.filter((group) => !group.bank);
+    const eftGroups = groups.filter((group) => !!group.bank);
+
+    const bankBalance = await this.getBankBalance(clientId, input.bankAccountId, input.paymentDate);
+    const client = await storage.getClient(clientId);
+
+    // Everything the run writes, realized FX included, commits together
+    const runId = await db.transaction(async (tx) => {
+      // A client's runs are generated one at a time, so the run, cheque and
+      // EFT file numbers read below cannot be taken by a concurrent run
+      await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext('vendor_payment_runs'), ${clientId})`);
+
+      // Cheque numbers must not collide with cheques already written on the account
+      const [account] = await tx
+        .select({ nextChequeNumber: accounts.nextChequeNumber })
+        .from(accounts)
+        .where(eq(accounts.id, input.bankAccountId));
+      const firstChequeNumber =
+        input.firstChequeNumber ?? (Number(account?.nextChequeNumber) || DEFAULT_FIRST_CHEQUE_NUMBER);
+      if (chequeGroups.length > 0) {
+        const lastChequeNumber = firstChequeNumber + chequeGroups.length - 1;
+        const written = await tx
+          .select({ chequeNumber: cheques.chequeNumber })
+          .from(cheques)
+          .where(and(eq(cheques.clientId, clientId), eq(cheques.bankAccountId, input.bankAccountId)));
+        const clash = written.find((cheque) => {
+          const number = parseInt(cheque.chequeNumber);
+          return number >= firstChequeNumber && number <= lastChequeNumber;
+        });
+        if (clash) {
+          throw new VendorPaymentRunError(
+            `Cheque ${clash.chequeNumber} has already been written on this account; start the run at a later cheque number`,
+            409
+          );
+        }
+      }
+
+      const existingRuns = await tx
+        .select({ runNumber: vendorPaymentRuns.runNumber })
+        .from(vendorPaymentRuns)
+        .where(eq(vendorPaymentRuns.clientId, clientId));
+      const runNumber = existingRuns.length ? nextInvoiceNumber(existingRuns.map((run) => run.runNumber)) : "PR-0001";
+
+      // Build the EFT file before anything is written so a bad bank account stops the run
+      let eftFile: { fileCreationNumber: number; fileName: string; content: string } | null = null;
+      if (eftGroups.length > 0 && eftSettings) {
+        const [current] = await tx
+          .select({ lastFileCreationNumber: eftOriginatorSettings.lastFileCreationNumber })
+          .from(eftOriginatorSettings)
+          .where(eq(eftOriginatorSettings.clientId, clientId));
+        const lastFileCreationNumber = current?.lastFileCreationNumber ?? eftSettings.lastFileCreationNumber;
+        eftFile = this.buildEftFile(
+          eftSettings,
+          (lastFileCreationNumber % MAX_FILE_CREATION_NUMBER) + 1,
+          runNumber,
+          input.paymentDate,
+          eftGroups
+        );
+      }
+
+      const [run] = await tx
+        .insert(vendorPaymentRuns)
+        .values({
+          clientId,
+          firmId: client?.firmId ?? user?.firmId ?? null,
+          runNumber,
+          paymentDate: input.paymentDate,
+          bankAccountId: input.bankAccountId,
+          apAccountId,
+          bankBalance: bankBalance.toFixed(2),
+          amountCap: input.amountCap !== undefined && input.amountCap !== null ? input.amountCap.toFixed(2) : null,
+          totalAmount: totalAmount.toFixed(2),
+          chequeCount: chequeGroups.length,
+          eftCount: eftGroups.length,
+          eftFileCreationNumber: eftFile?.fileCreationNumber ?? null,
+          eftFileName: eftFile?.fileName ?? null,
+          eftFileContent: eftFile?.content ?? null,
+          createdBy: user?.id ?? null,
+        })
+        .returning();
+
+      if (eftFile) {
+        await tx
+          .update(eftOriginatorSettings)
+          .set({ lastFileCreationNumber: eftFile.fileCreationNumber, updatedAt: new Date() })
+          .where(eq(eftOriginatorSettings.clientId, clientId));
+      }
+
+      let chequeNumber = firstChequeNumber;
+      for (const group of [...chequeGroups, ...eftGroups]) {
+        const method: VendorPaymentMethod = group.bank ? "eft" : "cheque";
+        const billNumbers = group.bills.map((bill) => bill.billNumber).filter(Boolean).join(", ");
+
+        let cheque: { id: number; chequeNumber: string | null } | null = null;
+        if (method === "cheque") {
+          [cheque] = await tx
+            .insert(cheques)
+            .values({
+              clientId,
+              bankAccountId: input.bankAccountId,
+              payeeType: "vendor",
+              payeeName: group.vendorName,
+              vendorId: group.vendorId,
+              amount: group.amount.toFixed(2),
+              chequeDate: input.paymentDate,
+              chequeNumber: String(chequeNumber),
+              memo: `Payment run ${runNumber}`,
+              referenceNumber: billNumbers,
+              status: "paid",
+            })
+            .returning({ id: cheques.id, chequeNumber: cheques.chequeNumber });
+          chequeNumber += 1;
+        }
+
+        const reference = cheque ? `Cheque ${cheque.chequeNumber}` : "EFT";
+        const journalEntry = await insertPostedJournalEntry(tx, {
+          clientId,
+          entryDate: input.paymentDate,
+          description: `${reference} - ${group.vendorName} (payment run ${runNumber})`,
+          lines: [
+            { accountId: apAccountId, debitAmount: group.amount, creditAmount: 0, memo: `Payment of ${billNumbers}` },
+            { accountId: input.bankAccountId, debitAmount: 0, creditAmount: group.amount, memo: `${reference} - ${group.vendorName}` },
+          ],
+        });
+
+        const [payment] = await tx
+          .insert(vendorPaymentRunPayments)
+          .values({
+            runId: run.id,
+            clientId,
+            vendorId: group.vendorId,
+            vendorName: group.vendorName,
+            method,
+            chequeId: cheque?.id ?? null,
+            chequeNumber: cheque?.chequeNumber ?? null,
+            amount: group.amount.toFixed(2),
+            journalEntryId: journalEntry.id,
+            remittanceEmail: group.bank?.remittanceEmail || group.vendor?.email || null,
+          })
+          .returning();
+
+        for (const bill of group.bills) {
+          const amount = requested.get(bill.id)!;
+          const [runBill] = await tx
+            .insert(vendorPaymentRunBills)
+            .values({
+              runId: run.id,
+              paymentId: payment.id,
+              billId: bill.id,
+              billNumber: bill.billNumber,
+              billDate: toDateKey(bill.billDate),
+              dueDate: toDateKey(bill.dueDate),
+              billTotal: roundAmount(parseFloat(bill.totalAmount || "0")).toFixed(2),
+              amount: amount.toFixed(2),
+              previousStatus: bill.status,
+            })
+            .returning();
+          await this.applyToBill(tx, bill, amount);
+          await currencyService.settleDocuments({
+            clientId,
+            documentType: "bill",
+            settlements: [{ documentId: bill.id, amount }],
+            settlementDate: input.paymentDate,
+            settlementRef: runBillSettlementRef(runBill.id),
+            controlAccountId: apAccountId,
+            user,
+            tx,
+          });
+        }
+      }
+
+      if (chequeGroups.length > 0) {
+        await tx.update(accounts).set({ nextChequeNumber: chequeNumber }).where(eq(accounts.id, input.bankAccountId));
+      }
+
+      return run.id;
+    });
+
+    return this.getRun(clientId, runId);
+  }
+
+  async listRuns(clientId: number): Promise<VendorPaymentRun[]> {
+    const runs = await db
+      .select()
+      .from(vendorPaymentRuns)
+      .where(eq(vendorPaymentRuns.clientId, clientId))
+      .orderBy(desc(vendorPaymentRuns.paymentDate), desc(vendorPaymentRuns.id));
+    // The file itself is downloaded separately
+    return runs.map((run) => ({ ...run, eftFileContent: null }));
+  }
+
+  /**
+   * A run with its payments and the bills each one settled
+   */
+  async getRun(clientId: number, runId: number) {
+    const run = await this.findRun(clientId, runId);
+    const payments = await db
+      .select()
+      .from(vendorPaymentRunPayments)
+      .where(eq(vendorPaymentRunPayments.runId, runId))
+      .orderBy(asc(vendorPaymentRunPayments.id));
+    const runBills = await db
+      .select()
+      .from(vendorPaymentRunBills)
+      .where(eq(vendorPaymentRunBills.runId, runId))
+      .orderBy(asc(vendorPaymentRunBills.id));
+
+    return {
+      ...run,
+      eftFileContent: null,
+      payments: payments.map((payment) => ({
+        ...payment,
+        bills: runBills.filter((bill) => bill.paymentId === payment.id),
+      })),
+    };
+  }
+
+  async getEftFile(clientId: number, runId: number) {
+    const run = await this.findRun(clientId, runId);
+    if (!run.eftFileContent || !run.eftFileName) {
+      throw new VendorPaymentRunError("This run has no EFT payments", 404);
+    }
+    return { fileName: run.eftFileName, content: run.eftFileContent, voided: run.status === "voided" };
+  }
+
+  /**
+   * Remittance advice for one vendor payment, as plain text and HTML
+   */
+  async getRemittance(clientId: number, runId: number, paymentId: number) {
+    const run = await this.findRun(clientId, runId);
+    const [payment] = await db
+      .select()
+      .from(vendorPaymentRunPayments)
+      .where(and(eq(vendorPaymentRunPayments.id, paymentId), eq(vendorPaymentRunPayments.runId, runId)));
+    if (!payment) {
+      throw new VendorPaymentRunError("Payment not found", 404);
+    }
+    const runBills = await db
+      .select()
+      .from(vendorPaymentRunBills)
+      .where(eq(vendorPaymentRunBills.paymentId, paymentId))
+      .orderBy(asc(vendorPaymentRunBills.id));
+    const client = await storage.getClient(clientId);
+    return this.renderRemittance(client?.name || "", run, payment, runBills);
+  }
+
+  /**
+   * Email remittance advice to every vendor in the run with an address on
+   * file (or only the given payments)
+   */
+  async emailRemittances(clientId: number, runId: number, paymentIds?: number[]) {
+    const run = await this.findRun(clientId, runId);
+    if (run.status === "voided") {
+      throw new VendorPaymentRunError("This run has been voided", 409);
+    }
+    const payments = (
+      await db.select().from(vendorPaymentRunPayments).where(eq(vendorPaymentRunPayments.runId, runId))
+    ).filter((payment) => !paymentIds?.length || paymentIds.includes(payment.id));
+    const client = await storage.getClient(clientId);
+    const { sendEmail } = await import("../email-service");
+
+    const results = [];
+    for (const payment of payments) {
+      if (!payment.remittanceEmail) {
+        results.push({ paymentId: payment.id, vendorName: payment.vendorName, status: "no_email" });
+        continue;
+      }
+      const runBills = await db
+        .select()
+        .from(vendorPaymentRunBills)
+        .where(eq(vendorPaymentRunBills.paymentId, payment.id))
+        .orderBy(asc(vendorPaymentRunBills.id));
+      const remittance = this.renderRemittance(client?.name || "", run, payment, runBills);
+      try {
+        await sendEmail({ to: payment.remittanceEmail, subject: remittance.subject, text: remittance.text, html: remittance.html });
+        await db
+          .update(vendorPaymentRunPayments)
+          .set({ remittanceSentAt: new Date() })
+          .where(eq(vendorPaymentRunPayments.id, payment.id));
+        results.push({ paymentId: payment.id, vendorName: payment.vendorName, status: "sent" });
+      } catch (emailError: any) {
+        console.error(`Failed to send remittance advice to ${payment.remittanceEmail}:`, emailError);
+        results.push({
+          paymentId: payment.id,
+          vendorName: payment.vendorName,
+          status: "failed",
+          error: emailError?.message || "unknown error",
+        });
+      }
+    }
+    return results;
+  }
+
+  /**
+   * Void a run: reverse each payment's entry on the payment date, void its
+   * cheques and take the payments back off the bills
+   */
+  async voidRun(clientId: number, runId: number, user?: any) {
+    const run = await this.findRun(clientId, runId);
+    if (run.status === "voided") {
+      throw new VendorPaymentRunError("This run is already voided", 409);
+    }
+    await periodLockService.assertPeriodOpen(clientId, [run.paymentDate], user);
+
+    await db.transaction(async (tx) => {
+      const [claimed] = await tx
+        .update(vendorPaymentRuns)
+        .set({ status: "voided", voidedAt: new Date(), voidedBy: user?.id ?? null })
+        .where(and(eq(vendorPaymentRuns.id, runId), eq(vendorPaymentRuns.status, "posted")))
+        .returning();
+      if (!claimed) {
+        throw new VendorPaymentRunError("This run is already voided", 409);
+      }
+
+      const payments = await tx
+        .select()
+        .from(vendorPaymentRunPayments)
+        .where(and(eq(vendorPaymentRunPayments.runId, runId), eq(vendorPaymentRunPayments.status, "posted")));
+      const runBills = await tx.select().from(vendorPaymentRunBills).where(eq(vendorPaymentRunBills.runId, runId));
+      const currentBills = runBills.length
+        ? await tx.select().from(bills).where(inArray(bills.id, runBills.map((bill) => bill.billId)))
+        : [];
+
+      for (const payment of payments) {
+        // Only a payment still posted is reversed, never one voided already
+        const [voided] = await tx
+          .update(vendorPaymentRunPayments)
+          .set({ status: "voided" })
+          .where(and(eq(vendorPaymentRunPayments.id, payment.id), eq(vendorPaymentRunPayments.status, "posted")))
+          .returning();
+        if (!voided) continue;
+
+        const amount = parseFloat(payment.amount);
+        const reference = payment.method === "cheque" ? `cheque ${payment.chequeNumber}` : "EFT";
+        const reversal = await insertPostedJournalEntry(tx, {
+          clientId,
+          entryDate: run.paymentDate,
+          description: `Void ${reference} - ${payment.vendorName} (payment run ${run.runNumber})`,
+          lines: [
+            { accountId: run.bankAccountId, debitAmount: amount, creditAmount: 0, memo: `Void ${reference}` },
+            { accountId: run.apAccountId, debitAmount: 0, creditAmount: amount, memo: `Void ${reference}` },
+          ],
+        });
+
+        if (payment.chequeId) {
+          await tx.update(cheques).set({ status: "void", isVoid: true }).where(eq(cheques.id, payment.chequeId));
+        }
+
+        for (const runBill of runBills.filter((bill) => bill.paymentId === payment.id)) {
+          await currencyService.reverseSettlement(clientId, runBillSettlementRef(runBill.id), run.paymentDate, user, tx);
+          const bill = currentBills.find((candidate) => candidate.id === runBill.billId);
+          if (bill) await this.removeFromBill(tx, bill, parseFloat(runBill.amount), runBill.previousStatus);
+        }
+
+        await tx
+          .update(vendorPaymentRunPayments)
+          .set({ voidJournalEntryId: reversal.id })
+          .where(eq(vendorPaymentRunPayments.id, payment.id));
+      }
+    });
+
+    return this.getRun(clientId, runId);
+  }
+
+  private async applyToBill(tx: DbTransaction, bill: any, amount: number) {
+    const amountPaid = roundAmount(parseFloat(bill.amountPaid || "0") + amount);
+    const balanceDue = roundAmount(Math.max(billBalance(bill) - amount, 0));
+    await tx
+      .update(bills)
+      .set({
+        amountPaid: amountPaid.toFixed(2),
+        balanceDue: balanceDue.toFixed(2),
+        ...(balanceDue <= 0 ? { status: "paid" } : {}),
+      })
+      .where(eq(bills.id, bill.id));
+  }
+
+  private async removeFromBill(tx: DbTransaction, bill: any, amount: number, previousStatus: string | null) {
+    const amountPaid = roundAmount(Math.max(parseFloat(bill.amountPaid || "0") - amount, 0));
+    const balanceDue = roundAmount(billBalance(bill) + amount);
+    await tx
+      .update(bills)
+      .set({
+        amountPaid: amountPaid.toFixed(2),
+        balanceDue: balanceDue.toFixed(2),
+        ...(bill.status === "paid" && balanceDue > 0 ? { status: previousStatus || "sent" } : {}),
+      })
+      .where(eq(bills.id, bill.id));
+    // Keep the row in step for further payments on the same bill
+    bill.amountPaid = amountPaid.toFixed(2);
+    bill.balanceDue = balanceDue.toFixed(2);
+  }
+
+  /**
+   * CPA-005 credit file for the run's EFT payments
+   */
+  private buildEftFile(
+    originator: EftOriginatorSettings,
+    fileCreationNumber: number,
+    runNumber: string,
+    paymentDate: string,
+    groups: Array<{ vendorId: number; vendorName: string; amount: number; bank?: VendorBankDetails }>
+  ) {
+    try {
+      const file = buildCpa005File({
+        originator,
+        fileCreationNumber,
+        creationDate: toDateKey(new Date())!,
+        paymentDate,
+        credits: groups.map((group) => ({
+          amount: group.amount,
+          payeeName: group.bank!.accountHolderName || group.vendorName,
+          institutionNumber: group.bank!.institutionNumber,
+          transitNumber: group.bank!.transitNumber,
+          accountNumber: group.bank!.accountNumber,
+          crossReference: `${runNumber}-${group.vendorId}`,
+          sundryInfo: runNumber,
+        })),
+      });
+      return {
+        fileCreationNumber,
+        fileName: `${runNumber}-${String(fileCreationNumber).padStart(4, "0")}.cpa005.txt`,
+        content: file.content,
+      };
+    } catch (error) {
+      if (error instanceof Cpa005Error) throw new VendorPaymentRunError(`EFT file: ${error.message}`);
+      throw error;
+    }
+  }
+
+  private renderRemittance(
+    clientName: string,
+    run: VendorPaymentRun,
+    payment: VendorPaymentRunPayment,
+    runBills: VendorPaymentRunBill[]
+  ) {
+    const method = payment.method === "cheque" ? `Cheque #${payment.chequeNumber}` : "Electronic funds transfer";
+    const amount = parseFloat(payment.amount);
+    const subject = `Remittance advice from ${clientName || "us"} - ${formatMoney(amount)}`;
+
+    const text = [
+      `Remittance advice`,
+      ``,
+      `To: ${payment.vendorName}`,
+      `From: ${clientName}`,
+      `Payment date: ${run.paymentDate}`,
+      `Payment method: ${method}`,
+      `Reference: ${run.runNumber}`,
+      ``,
+      ...runBills.map(
+        (bill) =>
+          `  ${bill.billNumber || `Bill ${bill.billId}`}  dated ${bill.billDate || "-"}  bill total ${formatMoney(parseFloat(bill.billTotal))}  paid ${formatMoney(parseFloat(bill.amount))}`
+      ),
+      ``,
+      `Total paid: ${formatMoney(amount)}`,
+      ...(payment.status === "voided" ? ["", "This payment has been voided."] : []),
+    ].join("\n");
+
+    const rows = runBills
+      .map(
+        (bill) =>
+          `<tr><td>${escapeHtml(bill.billNumber || `Bill ${bill.billId}`)}</td><td>${escapeHtml(bill.billDate || "")}</td>` +
+          `<td style="text-align:right">${formatMoney(parseFloat(bill.billTotal))}</td>` +
+          `<td style="text-align:right">${formatMoney(parseFloat(bill.amount))}</td></tr>`
+      )
+      .join("");
+    const html = `<!DOCTYPE html>
+<html><head><meta charset="utf-8"><title>${escapeHtml(subject)}</title>
+<style>body{font-family:Arial,sans-serif;margin:32px;color:#111}table{border-collapse:collapse;width:100%;margin-top:16px}th,td{border-bottom:1px solid #ddd;padding:6px 8px;text-align:left}th{background:#f5f5f5}.total td{font-weight:bold;border-top:2px solid #111}</style>
+</head><body>
+<h2>Remittance Advice</h2>
+${payment.status === "voided" ? '<p style="color:#b91c1c;font-weight:bold">VOID - this payment has been cancelled</p>' : ""}
+<p><strong>${escapeHtml(clientName)}</strong><br>To: ${escapeHtml(payment.vendorName)}</p>
+<p>Payment date: ${escapeHtml(run.paymentDate)}<br>Payment method: ${escapeHtml(method)}<br>Reference: ${escapeHtml(run.runNumber)}</p>
+<table><thead><tr><th>Bill</th><th>Bill date</th><th style="text-align:right">Bill total</th><th style="text-align:right">Amount paid</th></tr></thead>
+<tbody>${rows}<tr class="total"><td colspan="3">Total paid</td><td style="text-align:right">${formatMoney(amount)}</td></tr></tbody></table>
+</body></html>`;
+
+    return { subject, text, html };
+  }
+
+  private async findRun(clientId: number, runId: number): Promise<VendorPaymentRun> {
+    const [run] = await db
+      .select()
+      .from(vendorPaymentRuns)
+      .where(and(eq(vendorPaymentRuns.id, runId), eq(vendorPaymentRuns.clientId, clientId)));
+    if (!run) {
+      throw new VendorPaymentRunError("Payment run not found", 404);
+    }
+    return run;
+  }
+
+  private async getBankDetailsByVendor(clientId: number): Promise<Map<number, VendorBankDetails>> {
+    const rows = await db.select().from(vendorBankDetails).where(eq(vendorBankDetails.clientId, clientId));
+    return new Map(rows.map((row) => [row.vendorId, row]));
+  }
+
+  private async getVendors(vendorIds: number[]): Promise<Map<number, any>> {
+    const vendors = new Map<number, any>();
+    for (const vendorId of Array.from(new Set(vendorIds))) {
+      if (!vendorId) continue;
+      try {
+        const vendor = await storage.getVendor(vendorId);
+        if (vendor) vendors.set(vendorId, vendor);
+      } catch (error) {
+        console.error(`Failed to load vendor ${vendorId}:`, error);
+      }
+    }
+    return vendors;
+  }
+
+  private async findApAccountId(clientId: number): Promise<number> {
+    const accounts = await storage.getAccounts(clientId);
+    const payables = accounts.filter(
+      (account: any) => account.type === "liability" && (account.name || "").toLowerCase().includes("payable")
+    );
+    const apAccountId = (
+      payables.find((account: any) => (account.name || "").toLowerCase().includes("accounts payable")) ?? payables[0]
+    )?.id;
+    if (!apAccountId) {
+      throw new VendorPaymentRunError("No accounts payable account found");
+    }
+    return apAccountId;
+  }
+}
+
+export const vendorPaymentRunService = new VendorPaymentRunService();
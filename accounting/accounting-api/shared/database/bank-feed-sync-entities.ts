@@ -0,0 +1,86 @@
+/**
+ * Bank Feed Sync Entities
+ *
+ * Connections to bank feed providers (Plaid and others) and the record of
+ * every sync against them:
+ * - bankFeedConnections: one row per connected login, with the provider
+ *   cursor for incremental pulls, which provider accounts post to which
+ *   ledger accounts, health state and back-off schedule
+ * - bankFeedSyncRuns: each sync attempt with its transaction counts or error,
+ *   which is the connection's error history
+ */
+
+import { pgTable, serial, integer, text, timestamp, boolean, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const bankFeedConnections = pgTable("bank_feed_connections", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  // plaid | fake (local development)
+  provider: text("provider").notNull(),
+  // Provider's id for the login (Plaid item_id)
+  externalId: text("external_id").notNull(),
+  // Provider credential; never returned by the API
+  accessToken: text("access_token").notNull(),
+  institutionName: text("institution_name"),
+  // JSON array of { externalAccountId, accountId, name, mask }; unlinked
+  // provider accounts are not synced
+  accountLinks: text("account_links").notNull().default("[]"),
+  // Provider cursor after the last fully stored sync
+  cursor: text("cursor"),
+  // healthy | degraded | error | reauth_required | disabled
+  status: text("status").notNull().default("healthy"),
+  syncEnabled: boolean("sync_enabled").notNull().default(true),
+  consecutiveFailures: integer("consecutive_failures").notNull().default(0),
+  lastError: text("last_error"),
+  lastErrorCode: text("last_error_code"),
+  lastSyncAttemptAt: timestamp("last_sync_attempt_at"),
+  lastSuccessfulSyncAt: timestamp("last_successful_sync_at"),
+  // When the scheduler next picks the connection up; null while waiting for re-authentication
+  nextSyncAt: timestamp("next_sync_at"),
+  totalTransactionsSynced: integer("total_transactions_synced").notNull().default(0),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("bank_feed_connections_client_idx").on(table.clientId),
+  dueIdx: index("bank_feed_connections_due_idx").on(table.syncEnabled, table.nextSyncAt),
+}));
+
+export const bankFeedSyncRuns = pgTable("bank_feed_sync_runs", {
+  id: serial("id").primaryKey(),
+  connectionId: integer("connection_id").notNull().references(() => bankFeedConnections.id, { onDelete: "cascade" }),
+  // scheduled | manual
+  trigger: text("trigger").notNull(),
+  // running | success | error
+  status: text("status").notNull().default("running"),
+  startedAt: timestamp("started_at").defaultNow().notNull(),
+  finishedAt: timestamp("finished_at"),
+  // As reported by the provider
+  addedCount: integer("added_count").notNull().default(0),
+  modifiedCount: integer("modified_count").notNull().default(0),
+  removedCount: integer("removed_count").notNull().default(0),
+  // What reached the ledger
+  importedCount: integer("imported_count").notNull().default(0),
+  skippedDuplicateCount: integer("skipped_duplicate_count").notNull().default(0),
+  queuedForReviewCount: integer("queued_for_review_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  importBatchId: integer("import_batch_id"),
+  errorCode: text("error_code"),
+  errorMessage: text("error_message"),
+}, (table) => ({
+  connectionIdx: index("bank_feed_sync_runs_connection_idx").on(table.connectionId, table.startedAt),
+}));
+
+export const insertBankFeedConnectionSchema = createInsertSchema(bankFeedConnections).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type BankFeedConnection = typeof bankFeedConnections.$inferSelect;
+export type InsertBankFeedConnection = z.infer<typeof insertBankFeedConnectionSchema>;
+export type BankFeedSyncRun = typeof bankFeedSyncRuns.$inferSelect;
@@ -0,0 +1,98 @@
+/**
+ * Bank Rule Entities
+ *
+ * Compound bank rules that categorize imported bank transactions:
+ * - bankRules: priority order, AND/OR matching, stop-processing flag and the
+ *   non-split actions (project/location/class tags, payee, exclude as transfer)
+ * - bankRuleConditions: one row per condition on description, payee, amount,
+ *   direction, bank account or day of month
+ * - bankRuleSplits: accounts the transaction is allocated to, by percentage or
+ *   fixed amount
+ */
+
+import { pgTable, serial, integer, text, timestamp, decimal, boolean, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const bankRules = pgTable("bank_rules", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  // Lower numbers run first
+  priority: integer("priority").notNull().default(0),
+  // all (AND) | any (OR)
+  conditionLogic: text("condition_logic").notNull().default("all"),
+  // Later rules are not evaluated for a transaction this rule matched
+  stopProcessing: boolean("stop_processing").notNull().default(true),
+  isActive: boolean("is_active").notNull().default(true),
+  // Tags applied to every split line
+  projectId: integer("project_id"),
+  locationId: integer("location_id"),
+  classId: integer("class_id"),
+  // vendor | customer, with the contact assigned as payee
+  payeeContactId: integer("payee_contact_id"),
+  payeeContactType: text("payee_contact_type"),
+  // Marks the transaction excluded as a transfer instead of categorizing it
+  excludeAsTransfer: boolean("exclude_as_transfer").notNull().default(false),
+  matchCount: integer("match_count").notNull().default(0),
+  lastAppliedAt: timestamp("last_applied_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientPriorityIdx: index("bank_rules_client_priority_idx").on(table.clientId, table.priority),
+}));
+
+export const bankRuleConditions = pgTable("bank_rule_conditions", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => bankRules.id, { onDelete: "cascade" }),
+  // description | payee | amount | direction | bank_account | day_of_month
+  field: text("field").notNull(),
+  // contains | not_contains | equals | starts_with | ends_with | between | gte | lte
+  operator: text("operator").notNull(),
+  value: text("value").notNull(),
+  // Upper bound for "between"
+  valueTo: text("value_to"),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => ({
+  ruleIdx: index("bank_rule_conditions_rule_idx").on(table.ruleId),
+}));
+
+export const bankRuleSplits = pgTable("bank_rule_splits", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => bankRules.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull(),
+  // percent | fixed
+  splitType: text("split_type").notNull().default("percent"),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  memo: text("memo"),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => ({
+  ruleIdx: index("bank_rule_splits_rule_idx").on(table.ruleId),
+}));
+
+export const insertBankRuleSchema = createInsertSchema(bankRules).omit({
+  id: true,
+  matchCount: true,
+  lastAppliedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBankRuleConditionSchema = createInsertSchema(bankRuleConditions).omit({
+  id: true,
+});
+
+export const insertBankRuleSplitSchema = createInsertSchema(bankRuleSplits).omit({
+  id: true,
+});
+
+export type BankRule = typeof bankRules.$inferSelect;
+export type InsertBankRule = z.infer<typeof insertBankRuleSchema>;
+export type BankRuleCondition = typeof bankRuleConditions.$inferSelect;
+export type InsertBankRuleCondition = z.infer<typeof insertBankRuleConditionSchema>;
+export type BankRuleSplit = typeof bankRuleSplits.$inferSelect;
+export type InsertBankRuleSplit = z.infer<typeof insertBankRuleSplitSchema>;
@@ -0,0 +1,44 @@
+/**
+ * Bank Statement Entities
+ *
+ * Structured statements (OFX/QFX/QBO, CAMT.053/052) loaded into reconciliation
+ * sessions. Keeps the statement header the session was seeded from: account,
+ * period and the bank's opening and closing balances.
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const bankStatementImports = pgTable("bank_statement_imports", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  reconciliationSessionId: integer("reconciliation_session_id"),
+  // ofx | qfx | qbo | camt.053 | camt.052
+  format: text("format").notNull(),
+  fileName: text("file_name"),
+  bankId: text("bank_id"),
+  accountNumber: text("account_number"),
+  currency: text("currency"),
+  periodStart: date("period_start"),
+  periodEnd: date("period_end"),
+  openingBalance: decimal("opening_balance", { precision: 15, scale: 2 }),
+  closingBalance: decimal("closing_balance", { precision: 15, scale: 2 }),
+  transactionCount: integer("transaction_count").notNull().default(0),
+  duplicateCount: integer("duplicate_count").notNull().default(0),
+  uploadedBy: integer("uploaded_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("bank_statement_imports_client_idx").on(table.clientId),
+  sessionIdx: index("bank_statement_imports_session_idx").on(table.reconciliationSessionId),
+}));
+
+export const insertBankStatementImportSchema = createInsertSchema(bankStatementImports).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type BankStatementImport = typeof bankStatementImports.$inferSelect;
+export type InsertBankStatementImport = z.infer<typeof insertBankStatementImportSchema>;
@@ -0,0 +1,84 @@
+/**
+ * Bill Approval Entities
+ *
+ * Approval of vendor bills before they can be paid:
+ * - billApprovalLevels: a client's approval chain, e.g. controller for bills
+ *   of $5,000 or more and owner as well from $25,000; each level names the
+ *   users (firm staff or client portal users) who may approve at that level
+ * - billApprovals: the approval state of one bill, with the levels it needs
+ *   (fixed when it is submitted) and how far it has got
+ * - billApprovalEvents: audit trail of every submission, decision and reset
+ */
+
+import { pgTable, serial, integer, text, timestamp, decimal, jsonb, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const billApprovalLevels = pgTable("bill_approval_levels", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  // 1 = first approver; higher levels approve after the lower ones
+  level: integer("level").notNull(),
+  name: text("name").notNull(),
+  // Bills totalling at least this amount need this level's approval
+  minAmount: decimal("min_amount", { precision: 15, scale: 2 }).notNull(),
+  // User ids allowed to approve at this level
+  approverUserIds: jsonb("approver_user_ids").notNull().default([]),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientLevelUnique: unique("bill_approval_levels_client_level_unique").on(table.clientId, table.level),
+}));
+
+export const billApprovals = pgTable("bill_approvals", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  billId: integer("bill_id").notNull(),
+  // Bill total the approval applies to; a changed total needs re-approval
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  // pending | approved | rejected
+  status: text("status").notNull().default("pending"),
+  // [{ level, name, approverUserIds }] required when submitted
+  requiredLevels: jsonb("required_levels").notNull().default([]),
+  // Number of required levels approved so far
+  approvedLevels: integer("approved_levels").notNull().default(0),
+  submittedBy: integer("submitted_by").references(() => users.id),
+  submittedAt: timestamp("submitted_at").defaultNow().notNull(),
+  decidedAt: timestamp("decided_at"),
+}, (table) => ({
+  billUnique: unique("bill_approvals_bill_unique").on(table.billId),
+  clientStatusIdx: index("bill_approvals_client_status_idx").on(table.clientId, table.status),
+}));
+
+export const billApprovalEvents = pgTable("bill_approval_events", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  billId: integer("bill_id").notNull(),
+  // submitted | approved | rejected | resubmitted | reset
+  action: text("action").notNull(),
+  level: integer("level"),
+  levelName: text("level_name"),
+  amount: decimal("amount", { precision: 15, scale: 2 }),
+  comment: text("comment"),
+  // Null for system actions (automatic submission, reset on amount change)
+  userId: integer("user_id").references(() => users.id),
+  userName: text("user_name"),
+  // app | portal | system
+  via: text("via").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  billIdx: index("bill_approval_events_bill_idx").on(table.clientId, table.billId),
+}));
+
+export const insertBillApprovalLevelSchema = createInsertSchema(billApprovalLevels).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type BillApprovalLevel = typeof billApprovalLevels.$inferSelect;
+export type InsertBillApprovalLevel = z.infer<typeof insertBillApprovalLevelSchema>;
+export type BillApproval = typeof billApprovals.$inferSelect;
+export type BillApprovalEvent = typeof billApprovalEvents.$inferSelect;
@@ -0,0 +1,63 @@
+/**
+ * Budget Entities
+ *
+ * Client budgets for budget-vs-actual reporting:
+ * - budgets: a named budget covering a run of months (usually a fiscal year)
+ * - budgetLines: budgeted amount per account and month, optionally split by
+ *   the project/location/class dimensions used on journal entry lines.
+ *   Amounts are in the account's natural sign (income and liabilities credit
+ *   positive, expenses and assets debit positive). Income statement accounts
+ *   hold the month's activity; balance sheet accounts hold the month-end balance.
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const budgets = pgTable("budgets", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // First day of the first budgeted month
+  startDate: date("start_date").notNull(),
+  months: integer("months").notNull().default(12),
+  // manual | prior_year | excel
+  source: text("source").notNull().default("manual"),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("budgets_client_idx").on(table.clientId),
+}));
+
+export const budgetLines = pgTable("budget_lines", {
+  id: serial("id").primaryKey(),
+  budgetId: integer("budget_id").notNull().references(() => budgets.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull(),
+  projectId: integer("project_id"),
+  locationId: integer("location_id"),
+  classId: integer("class_id"),
+  // First day of the budgeted month
+  periodMonth: date("period_month").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+}, (table) => ({
+  budgetMonthIdx: index("budget_lines_budget_month_idx").on(table.budgetId, table.periodMonth),
+}));
+
+export const insertBudgetSchema = createInsertSchema(budgets).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertBudgetLineSchema = createInsertSchema(budgetLines).omit({
+  id: true,
+});
+
+export type Budget = typeof budgets.$inferSelect;
+export type InsertBudget = z.infer<typeof insertBudgetSchema>;
+export type BudgetLine = typeof budgetLines.$inferSelect;
+export type InsertBudgetLine = z.infer<typeof insertBudgetLineSchema>;
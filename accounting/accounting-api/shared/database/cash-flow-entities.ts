@@ -0,0 +1,36 @@
+/**
+ * Cash Flow Entities
+ *
+ * Per-client classification of balance sheet accounts for the indirect-method
+ * statement of cash flows:
+ * - accountCashFlowCategories: cash, operating (working capital), non-cash
+ *   add-back, investing or financing. Accounts without a row use the default
+ *   derived from their type, subtype and name.
+ */
+
+import { pgTable, serial, integer, text, timestamp, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, users } from "./core-entities";
+
+export const accountCashFlowCategories = pgTable("account_cash_flow_categories", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().unique(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // cash | operating | non_cash | investing | financing
+  category: text("category").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("account_cash_flow_categories_client_idx").on(table.clientId),
+}));
+
+export const insertAccountCashFlowCategorySchema = createInsertSchema(accountCashFlowCategories).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type AccountCashFlowCategory = typeof accountCashFlowCategories.$inferSelect;
+export type InsertAccountCashFlowCategory = z.infer<typeof insertAccountCashFlowCategorySchema>;
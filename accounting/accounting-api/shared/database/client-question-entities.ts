@@ -0,0 +1,73 @@
+/**
+ * Client Question Entities
+ *
+ * Questions staff ask a client about transactions they cannot categorize:
+ * - transactionQuestions: one open question per transaction, the client's
+ *   answer (description, category hint, an uploaded receipt) and the
+ *   account staff classified the transaction to once answered
+ * - clientQuestionSettings: per-firm number of days an open question waits
+ *   before the client is reminded
+ */
+
+import { pgTable, serial, integer, text, timestamp, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const transactionQuestions = pgTable("transaction_questions", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  transactionId: integer("transaction_id").notNull(),
+  question: text("question").notNull(),
+  // open | answered | resolved | cancelled
+  status: text("status").notNull().default("open"),
+  askedBy: integer("asked_by").references(() => users.id),
+  answerDescription: text("answer_description"),
+  // What the client thinks the spend was for, in their words ("office supplies")
+  answerCategoryHint: text("answer_category_hint"),
+  // Uploaded receipt or invoice, relative to the working directory
+  answerAttachmentPath: text("answer_attachment_path"),
+  answerAttachmentName: text("answer_attachment_name"),
+  answerAttachmentType: text("answer_attachment_type"),
+  answeredBy: integer("answered_by").references(() => users.id),
+  answeredAt: timestamp("answered_at"),
+  reminderCount: integer("reminder_count").notNull().default(0),
+  lastReminderAt: timestamp("last_reminder_at"),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+  // Account the transaction was classified to when the question was resolved
+  resolvedAccountId: integer("resolved_account_id"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  statusIdx: index("transaction_questions_status_idx").on(table.clientId, table.status),
+  transactionIdx: index("transaction_questions_transaction_idx").on(table.transactionId),
+}));
+
+export const clientQuestionSettings = pgTable("client_question_settings", {
+  id: serial("id").primaryKey(),
+  firmId: integer("firm_id").notNull().unique().references(() => firms.id, { onDelete: "cascade" }),
+  // Days an open question waits before the client is reminded, and between reminders
+  reminderDays: integer("reminder_days").notNull().default(5),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const insertTransactionQuestionSchema = createInsertSchema(transactionQuestions).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertClientQuestionSettingsSchema = createInsertSchema(clientQuestionSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type TransactionQuestion = typeof transactionQuestions.$inferSelect;
+export type InsertTransactionQuestion = z.infer<typeof insertTransactionQuestionSchema>;
+export type ClientQuestionSettings = typeof clientQuestionSettings.$inferSelect;
+export type InsertClientQuestionSettings = z.infer<typeof insertClientQuestionSettingsSchema>;
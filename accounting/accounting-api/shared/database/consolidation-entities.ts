@@ -0,0 +1,117 @@
+/**
+ * Consolidation Entities
+ *
+ * Client groups (e.g. a holdco, its opcos and a management company) reported
+ * together as consolidated financial statements:
+ * - clientGroups: a named group of related clients within a firm
+ * - clientGroupMembers: the clients in a group, in column order
+ * - consolidationAccounts: the group's common chart of accounts; `section`
+ *   places each line on the consolidated balance sheet or P&L
+ * - consolidationAccountMappings: member client account -> common chart line
+ * - intercompanyRules / intercompanyRuleAccounts: elimination rules keyed on
+ *   designated intercompany accounts (e.g. Holdco "Due from Opco" against
+ *   Opco "Due to Holdco"). Any difference between the two sides is booked to
+ *   the rule's difference line, or reported as unreconciled.
+ */
+
+import { pgTable, serial, integer, text, timestamp, boolean, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const clientGroups = pgTable("client_groups", {
+  id: serial("id").primaryKey(),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  firmIdx: index("client_groups_firm_idx").on(table.firmId),
+}));
+
+export const clientGroupMembers = pgTable("client_group_members", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => clientGroups.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // Column heading on consolidated reports; defaults to the client name
+  label: text("label"),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => ({
+  memberUnique: unique("client_group_members_group_client_unique").on(table.groupId, table.clientId),
+}));
+
+export const consolidationAccounts = pgTable("consolidation_accounts", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => clientGroups.id, { onDelete: "cascade" }),
+  code: text("code"),
+  name: text("name").notNull(),
+  // current_assets | fixed_assets | other_assets | current_liabilities | long_term_liabilities | equity
+  // | income | cost_of_sales | expense | other_income | other_expense
+  section: text("section").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => ({
+  groupIdx: index("consolidation_accounts_group_idx").on(table.groupId),
+}));
+
+export const consolidationAccountMappings = pgTable("consolidation_account_mappings", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => clientGroups.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull(),
+  consolidationAccountId: integer("consolidation_account_id")
+    .notNull()
+    .references(() => consolidationAccounts.id, { onDelete: "cascade" }),
+}, (table) => ({
+  accountUnique: unique("consolidation_account_mappings_group_account_unique").on(table.groupId, table.accountId),
+}));
+
+export const intercompanyRules = pgTable("intercompany_rules", {
+  id: serial("id").primaryKey(),
+  groupId: integer("group_id").notNull().references(() => clientGroups.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Common chart line that absorbs any difference between the designated balances
+  differenceAccountId: integer("difference_account_id").references(() => consolidationAccounts.id, { onDelete: "set null" }),
+  isActive: boolean("is_active").notNull().default(true),
+  notes: text("notes"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  groupIdx: index("intercompany_rules_group_idx").on(table.groupId),
+}));
+
+export const intercompanyRuleAccounts = pgTable("intercompany_rule_accounts", {
+  id: serial("id").primaryKey(),
+  ruleId: integer("rule_id").notNull().references(() => intercompanyRules.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull(),
+}, (table) => ({
+  accountUnique: unique("intercompany_rule_accounts_rule_account_unique").on(table.ruleId, table.accountId),
+}));
+
+export const insertClientGroupSchema = createInsertSchema(clientGroups).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertConsolidationAccountSchema = createInsertSchema(consolidationAccounts).omit({
+  id: true,
+});
+
+export const insertIntercompanyRuleSchema = createInsertSchema(intercompanyRules).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ClientGroup = typeof clientGroups.$inferSelect;
+export type InsertClientGroup = z.infer<typeof insertClientGroupSchema>;
+export type ClientGroupMember = typeof clientGroupMembers.$inferSelect;
+export type ConsolidationAccount = typeof consolidationAccounts.$inferSelect;
+export type InsertConsolidationAccount = z.infer<typeof insertConsolidationAccountSchema>;
+export type ConsolidationAccountMapping = typeof consolidationAccountMappings.$inferSelect;
+export type IntercompanyRule = typeof intercompanyRules.$inferSelect;
+export type InsertIntercompanyRule = z.infer<typeof insertIntercompanyRuleSchema>;
+export type IntercompanyRuleAccount = typeof intercompanyRuleAccounts.$inferSelect;
@@ -0,0 +1,162 @@
+/**
+ * Currency Entities
+ *
+ * Multi-currency support for client books:
+ * - clientCurrencySettings: home (functional) currency and the FX gain/loss accounts
+ * - accountCurrencies: currency of a ledger account (accounts without a row are in home currency)
+ * - exchangeRates: dated firm-wide rates, imported from CSV or entered by hand
+ * - foreignCurrencyAmounts: original currency, amount and rate of a transaction or
+ *   journal entry line booked in home currency
+ * - documentCurrencies: currency of an invoice or bill and its rate on the document
+ *   date (documents without a row are in home currency)
+ * - fxAdjustments: realized gain/loss on settlement and period-end revaluations
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const clientCurrencySettings = pgTable("client_currency_settings", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().unique().references(() => clients.id, { onDelete: "cascade" }),
+  homeCurrency: text("home_currency").notNull().default("CAD"),
+  realizedFxAccountId: integer("realized_fx_account_id"),
+  unrealizedFxAccountId: integer("unrealized_fx_account_id"),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const accountCurrencies = pgTable("account_currencies", {
+  id: serial("id").primaryKey(),
+  accountId: integer("account_id").notNull().unique(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  currency: text("currency").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("account_currencies_client_idx").on(table.clientId),
+}));
+
+export const exchangeRates = pgTable("exchange_rates", {
+  id: serial("id").primaryKey(),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  fromCurrency: text("from_currency").notNull(),
+  toCurrency: text("to_currency").notNull(),
+  rateDate: date("rate_date").notNull(),
+  // Units of toCurrency per one unit of fromCurrency
+  rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+  // csv | manual
+  source: text("source").notNull().default("manual"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  rateUnique: unique("exchange_rates_firm_pair_date_unique").on(
+    table.firmId,
+    table.fromCurrency,
+    table.toCurrency,
+    table.rateDate
+  ),
+  pairIdx: index("exchange_rates_pair_idx").on(table.fromCurrency, table.toCurrency, table.rateDate),
+}));
+
+export const foreignCurrencyAmounts = pgTable("foreign_currency_amounts", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull(),
+  transactionId: integer("transaction_id"),
+  journalEntryLineId: integer("journal_entry_line_id"),
+  entryDate: date("entry_date").notNull(),
+  currency: text("currency").notNull(),
+  // Signed, debit positive, in the original currency
+  foreignAmount: decimal("foreign_amount", { precision: 15, scale: 2 }).notNull(),
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }).notNull(),
+  // Signed, debit positive, in the client's home currency as booked
+  homeAmount: decimal("home_amount", { precision: 15, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  accountIdx: index("foreign_currency_amounts_account_idx").on(table.clientId, table.accountId),
+}));
+
+export const documentCurrencies = pgTable("document_currencies", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // invoice | bill
+  documentType: text("document_type").notNull(),
+  documentId: integer("document_id").notNull(),
+  currency: text("currency").notNull(),
+  // Home currency per unit of the document currency on the document date
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }).notNull(),
+  documentDate: date("document_date").notNull(),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  documentUnique: unique("document_currencies_document_unique").on(table.documentType, table.documentId),
+  clientIdx: index("document_currencies_client_idx").on(table.clientId, table.documentType),
+}));
+
+export const fxAdjustments = pgTable("fx_adjustments", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // realized | unrealized
+  kind: text("kind").notNull(),
+  entryDate: date("entry_date").notNull(),
+  // invoice | bill, for realized gain/loss on settlement
+  documentType: text("document_type"),
+  documentId: integer("document_id"),
+  currency: text("currency"),
+  foreignAmount: decimal("foreign_amount", { precision: 15, scale: 2 }),
+  originalRate: decimal("original_rate", { precision: 18, scale: 8 }),
+  settlementRate: decimal("settlement_rate", { precision: 18, scale: 8 }),
+  // What settled the document, e.g. customer_payment:12; voiding it reverses the entry
+  settlementRef: text("settlement_ref"),
+  // Gain positive, loss negative, in home currency
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  journalEntryId: integer("journal_entry_id"),
+  reversalJournalEntryId: integer("reversal_journal_entry_id"),
+  reversalDate: date("reversal_date"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("fx_adjustments_client_idx").on(table.clientId, table.kind),
+}));
+
+export const insertClientCurrencySettingsSchema = createInsertSchema(clientCurrencySettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertExchangeRateSchema = createInsertSchema(exchangeRates).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertForeignCurrencyAmountSchema = createInsertSchema(foreignCurrencyAmounts).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDocumentCurrencySchema = createInsertSchema(documentCurrencies).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertFxAdjustmentSchema = createInsertSchema(fxAdjustments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ClientCurrencySettings = typeof clientCurrencySettings.$inferSelect;
+export type InsertClientCurrencySettings = z.infer<typeof insertClientCurrencySettingsSchema>;
+export type AccountCurrency = typeof accountCurrencies.$inferSelect;
+export type ExchangeRate = typeof exchangeRates.$inferSelect;
+export type InsertExchangeRate = z.infer<typeof insertExchangeRateSchema>;
+export type ForeignCurrencyAmount = typeof foreignCurrencyAmounts.$inferSelect;
+export type InsertForeignCurrencyAmount = z.infer<typeof insertForeignCurrencyAmountSchema>;
+export type DocumentCurrency = typeof documentCurrencies.$inferSelect;
+export type InsertDocumentCurrency = z.infer<typeof insertDocumentCurrencySchema>;
+export type FxAdjustment = typeof fxAdjustments.$inferSelect;
+export type InsertFxAdjustment = z.infer<typeof insertFxAdjustmentSchema>;
@@ -0,0 +1,131 @@
+/**
+ * Customer Payment Entities
+ *
+ * Accounts receivable settlement beyond single-invoice payments:
+ * - customerPayments: one deposit received from a customer, which may pay
+ *   several invoices; any amount not applied stays as an unapplied credit
+ * - creditNotes: credit documents issued to a customer that reduce AR
+ * - customerCreditApplications: a payment or credit note applied to an
+ *   invoice (the invoice's amountPaid includes every application)
+ * - customerRefunds: unapplied credit paid back to the customer
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, jsonb, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const customerPayments = pgTable("customer_payments", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  paymentDate: date("payment_date").notNull(),
+  // In the payment's currency, like the invoices it pays
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  // Currency of the deposit account; null when it is in home currency
+  currency: text("currency"),
+  // Home currency per unit of the payment currency on the payment date
+  exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }),
+  // The amount as booked in home currency (Dr deposit / Cr AR)
+  homeAmount: decimal("home_amount", { precision: 15, scale: 2 }),
+  // cash | cheque | e_transfer | eft | credit_card | other
+  method: text("method").notNull(),
+  reference: text("reference"),
+  // Bank account debited by the deposit
+  depositAccountId: integer("deposit_account_id").notNull(),
+  arAccountId: integer("ar_account_id").notNull(),
+  memo: text("memo"),
+  journalEntryId: integer("journal_entry_id"),
+  // posted | voided
+  status: text("status").notNull().default("posted"),
+  voidJournalEntryId: integer("void_journal_entry_id"),
+  voidedAt: timestamp("voided_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("customer_payments_customer_idx").on(table.clientId, table.customerId),
+}));
+
+export const creditNotes = pgTable("credit_notes", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  creditNoteNumber: text("credit_note_number").notNull(),
+  issueDate: date("issue_date").notNull(),
+  // Invoice being credited, when the credit note relates to one
+  invoiceId: integer("invoice_id"),
+  reason: text("reason"),
+  // [{ description, amount, accountId }] - each line debits its account
+  lines: jsonb("lines").notNull().default([]),
+  subtotal: decimal("subtotal", { precision: 15, scale: 2 }).notNull(),
+  taxAmount: decimal("tax_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 15, scale: 2 }).notNull(),
+  taxAccountId: integer("tax_account_id"),
+  arAccountId: integer("ar_account_id").notNull(),
+  journalEntryId: integer("journal_entry_id"),
+  // issued | voided
+  status: text("status").notNull().default("issued"),
+  voidJournalEntryId: integer("void_journal_entry_id"),
+  voidedAt: timestamp("voided_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("credit_notes_customer_idx").on(table.clientId, table.customerId),
+  numberUnique: unique("credit_notes_number_unique").on(table.clientId, table.creditNoteNumber),
+}));
+
+export const customerCreditApplications = pgTable("customer_credit_applications", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  invoiceId: integer("invoice_id").notNull(),
+  // Exactly one of paymentId / creditNoteId is set
+  paymentId: integer("payment_id").references(() => customerPayments.id, { onDelete: "cascade" }),
+  creditNoteId: integer("credit_note_id").references(() => creditNotes.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  appliedDate: date("applied_date").notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  invoiceIdx: index("customer_credit_applications_invoice_idx").on(table.invoiceId),
+  customerIdx: index("customer_credit_applications_customer_idx").on(table.clientId, table.customerId),
+}));
+
+export const customerRefunds = pgTable("customer_refunds", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  // Exactly one of paymentId / creditNoteId is set
+  paymentId: integer("payment_id").references(() => customerPayments.id, { onDelete: "cascade" }),
+  creditNoteId: integer("credit_note_id").references(() => creditNotes.id, { onDelete: "cascade" }),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  refundDate: date("refund_date").notNull(),
+  // Bank account credited by the refund
+  bankAccountId: integer("bank_account_id").notNull(),
+  method: text("method").notNull(),
+  reference: text("reference"),
+  journalEntryId: integer("journal_entry_id"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("customer_refunds_customer_idx").on(table.clientId, table.customerId),
+}));
+
+export const insertCustomerPaymentSchema = createInsertSchema(customerPayments).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertCreditNoteSchema = createInsertSchema(creditNotes).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type CustomerPayment = typeof customerPayments.$inferSelect;
+export type InsertCustomerPayment = z.infer<typeof insertCustomerPaymentSchema>;
+export type CreditNote = typeof creditNotes.$inferSelect;
+export type InsertCreditNote = z.infer<typeof insertCreditNoteSchema>;
+export type CustomerCreditApplication = typeof customerCreditApplications.$inferSelect;
+export type CustomerRefund = typeof customerRefunds.$inferSelect;
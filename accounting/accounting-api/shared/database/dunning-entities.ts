@@ -0,0 +1,125 @@
+/**
+ * Dunning Entities
+ *
+ * Automated collection of overdue customer invoices:
+ * - dunningSequences: a client's named sequence of collection steps
+ * - dunningSteps: one step per overdue threshold (7, 30, 60 days...), with the
+ *   document template for its message, whether a statement is included and
+ *   an optional late fee invoiced to the customer
+ * - dunningCustomerSettings: customers excluded from dunning or on hold until
+ *   a date, and a per-customer sequence override
+ * - dunningActions: each step taken for a customer, with its send status
+ * - dunningInvoiceSteps: which steps have already been taken for an invoice,
+ *   so a step is never repeated for the same invoice
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, boolean, jsonb, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const dunningSequences = pgTable("dunning_sequences", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // The sequence used for customers without an override
+  isDefault: boolean("is_default").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("dunning_sequences_client_idx").on(table.clientId),
+}));
+
+export const dunningSteps = pgTable("dunning_steps", {
+  id: serial("id").primaryKey(),
+  sequenceId: integer("sequence_id").notNull().references(() => dunningSequences.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // Days past the invoice due date at which the step is taken
+  daysOverdue: integer("days_overdue").notNull(),
+  // Document template whose text blocks form the message body
+  templateId: integer("template_id"),
+  emailSubject: text("email_subject").notNull(),
+  // Append a statement of all the customer's open invoices
+  includeStatement: boolean("include_statement").notNull().default(false),
+  // none | flat | percent (of the overdue balance)
+  lateFeeType: text("late_fee_type").notNull().default("none"),
+  lateFeeValue: decimal("late_fee_value", { precision: 15, scale: 4 }),
+  // Income account credited by the late-fee invoice
+  lateFeeAccountId: integer("late_fee_account_id"),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => ({
+  sequenceIdx: index("dunning_steps_sequence_idx").on(table.sequenceId),
+}));
+
+export const dunningCustomerSettings = pgTable("dunning_customer_settings", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  // Never dun this customer
+  excluded: boolean("excluded").notNull().default(false),
+  // No dunning until after this date (e.g. payment plan agreed)
+  holdUntil: date("hold_until"),
+  reason: text("reason"),
+  // Sequence to use instead of the client's default
+  sequenceId: integer("sequence_id").references(() => dunningSequences.id, { onDelete: "set null" }),
+  updatedBy: integer("updated_by").references(() => users.id),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  customerUnique: unique("dunning_customer_settings_customer_unique").on(table.clientId, table.customerId),
+}));
+
+export const dunningActions = pgTable("dunning_actions", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  sequenceId: integer("sequence_id").references(() => dunningSequences.id, { onDelete: "set null" }),
+  stepId: integer("step_id").references(() => dunningSteps.id, { onDelete: "set null" }),
+  stepName: text("step_name").notNull(),
+  // [{ invoiceId, invoiceNumber, dueDate, daysOverdue, balance }]
+  invoices: jsonb("invoices").notNull().default([]),
+  amountOverdue: decimal("amount_overdue", { precision: 15, scale: 2 }).notNull(),
+  // sent | failed | no_email
+  status: text("status").notNull(),
+  recipient: text("recipient"),
+  subject: text("subject"),
+  body: text("body"),
+  lateFeeInvoiceId: integer("late_fee_invoice_id"),
+  lateFeeAmount: decimal("late_fee_amount", { precision: 15, scale: 2 }),
+  error: text("error"),
+  // Null when taken by the scheduler
+  triggeredBy: integer("triggered_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  customerIdx: index("dunning_actions_customer_idx").on(table.clientId, table.customerId),
+}));
+
+export const dunningInvoiceSteps = pgTable("dunning_invoice_steps", {
+  id: serial("id").primaryKey(),
+  invoiceId: integer("invoice_id").notNull(),
+  stepId: integer("step_id").notNull().references(() => dunningSteps.id, { onDelete: "cascade" }),
+  actionId: integer("action_id").references(() => dunningActions.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  invoiceStepUnique: unique("dunning_invoice_steps_unique").on(table.invoiceId, table.stepId),
+}));
+
+export const insertDunningSequenceSchema = createInsertSchema(dunningSequences).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertDunningStepSchema = createInsertSchema(dunningSteps).omit({
+  id: true,
+});
+
+export type DunningSequence = typeof dunningSequences.$inferSelect;
+export type InsertDunningSequence = z.infer<typeof insertDunningSequenceSchema>;
+export type DunningStep = typeof dunningSteps.$inferSelect;
+export type InsertDunningStep = z.infer<typeof insertDunningStepSchema>;
+export type DunningCustomerSetting = typeof dunningCustomerSettings.$inferSelect;
+export type DunningAction = typeof dunningActions.$inferSelect;
+export type DunningInvoiceStep = typeof dunningInvoiceSteps.$inferSelect;
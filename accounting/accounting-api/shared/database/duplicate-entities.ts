@@ -0,0 +1,75 @@
+/**
+ * Duplicate Transaction Entities
+ *
+ * Deduplication of transactions arriving through statement imports, bank feed
+ * syncs and manual entry:
+ * - duplicateReviewItems: suspected duplicates held back from the ledger until
+ *   staff import or discard them; the held transaction is kept as JSON text
+ * - duplicateOverrides: every forced import of a duplicate, with its reason
+ */
+
+import { pgTable, serial, integer, text, timestamp, decimal, date, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const duplicateReviewItems = pgTable("duplicate_review_items", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  // import | feed | manual
+  source: text("source").notNull(),
+  accountId: integer("account_id"),
+  transactionDate: date("transaction_date").notNull(),
+  description: text("description").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  fitId: text("fit_id"),
+  fingerprint: text("fingerprint").notNull(),
+  // Transaction body to create if the item is imported
+  payload: text("payload").notNull(),
+  matchedTransactionId: integer("matched_transaction_id"),
+  // fitid | fingerprint | similar
+  matchType: text("match_type").notNull(),
+  // pending | imported | discarded
+  status: text("status").notNull().default("pending"),
+  importedTransactionId: integer("imported_transaction_id"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  resolvedBy: integer("resolved_by").references(() => users.id),
+  resolvedAt: timestamp("resolved_at"),
+}, (table) => ({
+  clientStatusIdx: index("duplicate_review_items_client_status_idx").on(table.clientId, table.status),
+  fingerprintIdx: index("duplicate_review_items_fingerprint_idx").on(table.clientId, table.fingerprint),
+}));
+
+export const duplicateOverrides = pgTable("duplicate_overrides", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  source: text("source").notNull(),
+  reviewItemId: integer("review_item_id"),
+  transactionId: integer("transaction_id"),
+  matchedTransactionId: integer("matched_transaction_id"),
+  matchType: text("match_type").notNull(),
+  description: text("description"),
+  amount: decimal("amount", { precision: 15, scale: 2 }),
+  reason: text("reason").notNull(),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("duplicate_overrides_client_idx").on(table.clientId, table.createdAt),
+}));
+
+export const insertDuplicateReviewItemSchema = createInsertSchema(duplicateReviewItems).omit({
+  id: true,
+  createdAt: true,
+});
+
+export const insertDuplicateOverrideSchema = createInsertSchema(duplicateOverrides).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type DuplicateReviewItem = typeof duplicateReviewItems.$inferSelect;
+export type InsertDuplicateReviewItem = z.infer<typeof insertDuplicateReviewItemSchema>;
+export type DuplicateOverride = typeof duplicateOverrides.$inferSelect;
+export type InsertDuplicateOverride = z.infer<typeof insertDuplicateOverrideSchema>;
@@ -0,0 +1,106 @@
+/**
+ * Fixed Asset Entities
+ *
+ * Per-client fixed asset register with tax (CCA) and book depreciation kept
+ * separately:
+ * - fixedAssets: cost, CCA class/rate and first-year rule, book depreciation
+ *   method and the GL accounts depreciation is posted to, and disposal details
+ * - fixedAssetDepreciationEntries: book depreciation posted per asset and
+ *   period, with the journal entry it was posted in
+ * - ccaClassYears: per class and tax year, an opening UCC carried in from a
+ *   prior schedule and/or the CCA actually claimed when less than the maximum
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const fixedAssets = pgTable("fixed_assets", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  assetNumber: text("asset_number"),
+  name: text("name").notNull(),
+  description: text("description"),
+  acquisitionDate: date("acquisition_date").notNull(),
+  cost: decimal("cost", { precision: 15, scale: 2 }).notNull(),
+
+  // Tax depreciation (T2 Schedule 8)
+  ccaClass: text("cca_class").notNull(),
+  // Declining-balance rate as a percentage, e.g. 30.0000 for class 10
+  ccaRate: decimal("cca_rate", { precision: 7, scale: 4 }).notNull(),
+  // half_year | aiip | none
+  ccaRule: text("cca_rule").notNull().default("half_year"),
+
+  // Book depreciation: straight_line | declining_balance | none
+  bookMethod: text("book_method").notNull().default("straight_line"),
+  usefulLifeMonths: integer("useful_life_months"),
+  // Annual rate as a percentage for declining_balance
+  bookRate: decimal("book_rate", { precision: 7, scale: 4 }),
+  salvageValue: decimal("salvage_value", { precision: 15, scale: 2 }).notNull().default("0"),
+  // Book depreciation recorded before the asset was added to the register
+  openingAccumulatedDepreciation: decimal("opening_accumulated_depreciation", { precision: 15, scale: 2 })
+    .notNull()
+    .default("0"),
+  openingDepreciationDate: date("opening_depreciation_date"),
+  assetAccountId: integer("asset_account_id"),
+  accumulatedDepreciationAccountId: integer("accumulated_depreciation_account_id"),
+  depreciationExpenseAccountId: integer("depreciation_expense_account_id"),
+
+  // active | disposed
+  status: text("status").notNull().default("active"),
+  disposalDate: date("disposal_date"),
+  disposalProceeds: decimal("disposal_proceeds", { precision: 15, scale: 2 }),
+  disposalJournalEntryId: integer("disposal_journal_entry_id"),
+  notes: text("notes"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("fixed_assets_client_idx").on(table.clientId),
+  classIdx: index("fixed_assets_class_idx").on(table.clientId, table.ccaClass),
+}));
+
+export const fixedAssetDepreciationEntries = pgTable("fixed_asset_depreciation_entries", {
+  id: serial("id").primaryKey(),
+  assetId: integer("asset_id").notNull().references(() => fixedAssets.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // Month end the depreciation was posted on; catch-up for locked months is
+  // included in the first open month
+  periodEnd: date("period_end").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  journalEntryId: integer("journal_entry_id"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientPeriodIdx: index("fixed_asset_depreciation_entries_client_period_idx").on(table.clientId, table.periodEnd),
+  periodUnique: unique("fixed_asset_depreciation_entries_period_unique").on(table.assetId, table.periodEnd),
+}));
+
+export const ccaClassYears = pgTable("cca_class_years", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  ccaClass: text("cca_class").notNull(),
+  taxYearEnd: date("tax_year_end").notNull(),
+  // UCC at the start of the year; overrides the rolled-forward balance
+  openingUcc: decimal("opening_ucc", { precision: 15, scale: 2 }),
+  // CCA claimed for the year; null claims the maximum
+  ccaClaimed: decimal("cca_claimed", { precision: 15, scale: 2 }),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  classYearUnique: unique("cca_class_years_class_year_unique").on(table.clientId, table.ccaClass, table.taxYearEnd),
+}));
+
+export const insertFixedAssetSchema = createInsertSchema(fixedAssets).omit({
+  id: true,
+  status: true,
+  disposalJournalEntryId: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type FixedAsset = typeof fixedAssets.$inferSelect;
+export type InsertFixedAsset = z.infer<typeof insertFixedAssetSchema>;
+export type FixedAssetDepreciationEntry = typeof fixedAssetDepreciationEntries.$inferSelect;
+export type CcaClassYear = typeof ccaClassYears.$inferSelect;
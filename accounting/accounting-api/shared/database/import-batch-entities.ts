@@ -0,0 +1,70 @@
+/**
+ * Import Batch Entities
+ *
+ * A record of every file import into a client's books, so a bad import can be
+ * traced and rolled back as a whole:
+ * - importBatches: one row per import with the source file hash, the mapping
+ *   used, who ran it, row counts and row errors; the mapping is offered again
+ *   for the next import from the same source
+ * - importBatchRecords: the journal entries and transactions the batch created
+ */
+
+import { pgTable, serial, integer, text, timestamp, date, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const importBatches = pgTable("import_batches", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  // general_ledger | journal_entries | transactions
+  source: text("source").notNull(),
+  // Where the file came from (bank account, source system export layout)
+  sourceName: text("source_name"),
+  fileName: text("file_name"),
+  // SHA-256 of the uploaded file, or of the submitted rows when no file was sent
+  fileHash: text("file_hash").notNull(),
+  // Column and account mapping used, as JSON text
+  mapping: text("mapping"),
+  rowCount: integer("row_count").notNull().default(0),
+  importedCount: integer("imported_count").notNull().default(0),
+  skippedCount: integer("skipped_count").notNull().default(0),
+  failedCount: integer("failed_count").notNull().default(0),
+  duplicateCount: integer("duplicate_count").notNull().default(0),
+  // Row errors as a JSON array of { rowNumber, message, errorType }
+  errors: text("errors"),
+  // importing | completed | failed | rolled_back
+  status: text("status").notNull().default("importing"),
+  earliestDate: date("earliest_date"),
+  latestDate: date("latest_date"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  completedAt: timestamp("completed_at"),
+  rolledBackBy: integer("rolled_back_by").references(() => users.id),
+  rolledBackAt: timestamp("rolled_back_at"),
+  rollbackReason: text("rollback_reason"),
+}, (table) => ({
+  clientIdx: index("import_batches_client_idx").on(table.clientId, table.createdAt),
+  sourceIdx: index("import_batches_source_idx").on(table.clientId, table.source, table.sourceName),
+}));
+
+export const importBatchRecords = pgTable("import_batch_records", {
+  id: serial("id").primaryKey(),
+  batchId: integer("batch_id").notNull().references(() => importBatches.id, { onDelete: "cascade" }),
+  // journal_entry | transaction
+  recordType: text("record_type").notNull(),
+  recordId: integer("record_id").notNull(),
+  recordDate: date("record_date"),
+}, (table) => ({
+  batchIdx: index("import_batch_records_batch_idx").on(table.batchId),
+}));
+
+export const insertImportBatchSchema = createInsertSchema(importBatches).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ImportBatch = typeof importBatches.$inferSelect;
+export type InsertImportBatch = z.infer<typeof insertImportBatchSchema>;
+export type ImportBatchRecord = typeof importBatchRecords.$inferSelect;
@@ -0,0 +1,62 @@
+/**
+ * Import Mapping Profile Entities
+ *
+ * Named column mappings for bank and source system file exports, stored per
+ * firm so the same layout is not remapped every month:
+ * - a profile is recognised by the header row of an uploaded file and carries
+ *   the column mapping, header row offset, amount layout, date format and
+ *   decimal separator of that export
+ * - profiles without a client are shared across all of the firm's clients
+ */
+
+import { pgTable, serial, integer, text, timestamp, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const importMappingProfiles = pgTable("import_mapping_profiles", {
+  id: serial("id").primaryKey(),
+  firmId: integer("firm_id").notNull().references(() => firms.id, { onDelete: "cascade" }),
+  // Only offered for this client's files; null shares the profile across the firm
+  clientId: integer("client_id").references(() => clients.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  // transactions | general_ledger
+  source: text("source").notNull(),
+  // Bank or source system the export comes from
+  institution: text("institution"),
+  // Normalized header cells joined with "|", for exact matches
+  headerSignature: text("header_signature").notNull(),
+  // Header row as exported, as a JSON array
+  headers: text("headers").notNull(),
+  // Rows above the header row (bank name, account number, blank lines)
+  headerRowOffset: integer("header_row_offset").notNull().default(0),
+  // Target field -> source header, as JSON text
+  columnMapping: text("column_mapping").notNull(),
+  // signed | debit_credit
+  amountMode: text("amount_mode").notNull().default("signed"),
+  // positive-out | positive-in, for signed amounts
+  signConvention: text("sign_convention").notNull().default("positive-out"),
+  // auto | YYYY-MM-DD | MM/DD/YYYY | DD/MM/YYYY | DD.MM.YYYY | YYYYMMDD
+  dateFormat: text("date_format").notNull().default("auto"),
+  // "." or ","
+  decimalSeparator: text("decimal_separator").notNull().default("."),
+  useCount: integer("use_count").notNull().default(0),
+  lastUsedAt: timestamp("last_used_at"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  firmSourceIdx: index("import_mapping_profiles_firm_source_idx").on(table.firmId, table.source),
+  signatureIdx: index("import_mapping_profiles_signature_idx").on(table.firmId, table.headerSignature),
+}));
+
+export const insertImportMappingProfileSchema = createInsertSchema(importMappingProfiles).omit({
+  id: true,
+  useCount: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ImportMappingProfile = typeof importMappingProfiles.$inferSelect;
+export type InsertImportMappingProfile = z.infer<typeof insertImportMappingProfileSchema>;
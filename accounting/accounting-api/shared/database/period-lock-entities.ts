@@ -0,0 +1,57 @@
+/**
+ * Period Lock Entities
+ *
+ * Per-client accounting period locks and the audit trail of every lock
+ * change. A client has at most one lock row:
+ * - closedThroughDate: hard lock, nobody may write on or before this date
+ * - softLockDate: staff lock, only manager roles may write on or before it
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const clientPeriodLocks = pgTable("client_period_locks", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().unique().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  closedThroughDate: date("closed_through_date"),
+  softLockDate: date("soft_lock_date"),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const periodLockAuditLog = pgTable("period_lock_audit_log", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  // lock | reopen | year_end_close
+  action: text("action").notNull(),
+  previousClosedThroughDate: date("previous_closed_through_date"),
+  newClosedThroughDate: date("new_closed_through_date"),
+  previousSoftLockDate: date("previous_soft_lock_date"),
+  newSoftLockDate: date("new_soft_lock_date"),
+  reason: text("reason"),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("period_lock_audit_client_idx").on(table.clientId),
+}));
+
+export const insertClientPeriodLockSchema = createInsertSchema(clientPeriodLocks).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertPeriodLockAuditLogSchema = createInsertSchema(periodLockAuditLog).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ClientPeriodLock = typeof clientPeriodLocks.$inferSelect;
+export type InsertClientPeriodLock = z.infer<typeof insertClientPeriodLockSchema>;
+export type PeriodLockAuditLog = typeof periodLockAuditLog.$inferSelect;
+export type InsertPeriodLockAuditLog = z.infer<typeof insertPeriodLockAuditLogSchema>;
@@ -0,0 +1,61 @@
+/**
+ * Receipt Match Entities
+ *
+ * Links between captured receipts and the bank or card transactions they pay:
+ * - receiptMatches: one row per receipt with the fields read by OCR (vendor,
+ *   date, total and sales tax by type), its match state and the transaction
+ *   it is attached to as evidence. Receipts without a transaction yet wait in
+ *   the "awaiting transaction" queue and are tried again as transactions
+ *   arrive.
+ */
+
+import { pgTable, serial, integer, text, timestamp, decimal, date, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, users } from "./core-entities";
+
+export const receiptMatches = pgTable("receipt_matches", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // Id of the stored receipt file
+  receiptId: text("receipt_id").notNull(),
+  fileName: text("file_name"),
+  vendor: text("vendor"),
+  receiptDate: date("receipt_date"),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }),
+  subtotalAmount: decimal("subtotal_amount", { precision: 15, scale: 2 }),
+  gstAmount: decimal("gst_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  hstAmount: decimal("hst_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  pstAmount: decimal("pst_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  qstAmount: decimal("qst_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  // Tax printed without saying which tax it is
+  otherTaxAmount: decimal("other_tax_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  // awaiting_transaction | matched | dismissed
+  status: text("status").notNull().default("awaiting_transaction"),
+  transactionId: integer("transaction_id"),
+  // auto | manual
+  matchMethod: text("match_method"),
+  matchScore: integer("match_score"),
+  // JSON array of the best candidates from the last attempt, for review
+  candidates: text("candidates"),
+  // Tax amount written to the transaction when it was matched; cleared again on unmatch
+  itcPrefilledAmount: decimal("itc_prefilled_amount", { precision: 15, scale: 2 }),
+  lastAttemptAt: timestamp("last_attempt_at"),
+  matchedBy: integer("matched_by").references(() => users.id),
+  matchedAt: timestamp("matched_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  receiptUnique: unique("receipt_matches_receipt_unique").on(table.clientId, table.receiptId),
+  statusIdx: index("receipt_matches_status_idx").on(table.clientId, table.status),
+  transactionIdx: index("receipt_matches_transaction_idx").on(table.transactionId),
+}));
+
+export const insertReceiptMatchSchema = createInsertSchema(receiptMatches).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type ReceiptMatch = typeof receiptMatches.$inferSelect;
+export type InsertReceiptMatch = z.infer<typeof insertReceiptMatchSchema>;
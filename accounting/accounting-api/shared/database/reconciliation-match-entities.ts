@@ -0,0 +1,101 @@
+/**
+ * Reconciliation Match Entities
+ *
+ * Matching engine state for bank reconciliation sessions:
+ * - reconciliationMatchSettings: per-client tolerances (amount, date window,
+ *   minimum confidence, group size) used when proposing matches
+ * - reconciliationMatches: accepted 1:1, 1:N and N:1 matches with the
+ *   confidence and explanation shown when they were accepted
+ * - reconciliationMatchLinks: statement items and book transactions in a match
+ * - payeeAliases: statement payee text learned from accepted matches, mapped to
+ *   the payee used in the books
+ */
+
+import { pgTable, serial, integer, text, timestamp, decimal, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const reconciliationMatchSettings = pgTable("reconciliation_match_settings", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().unique().references(() => clients.id, { onDelete: "cascade" }),
+  // Largest difference between statement and book totals still treated as a match
+  amountTolerance: decimal("amount_tolerance", { precision: 15, scale: 2 }).notNull().default("0.00"),
+  dateWindowDays: integer("date_window_days").notNull().default(5),
+  // Proposals below this confidence (0-100) are not returned
+  minConfidence: integer("min_confidence").notNull().default(50),
+  // Most transactions combined into one side of a 1:N or N:1 match
+  maxGroupSize: integer("max_group_size").notNull().default(5),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const reconciliationMatches = pgTable("reconciliation_matches", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  // one_to_one | one_to_many (one statement line, several book transactions) | many_to_one
+  matchType: text("match_type").notNull(),
+  confidence: integer("confidence").notNull(),
+  // Reasons shown with the proposal, one per line
+  explanation: text("explanation"),
+  statementTotal: decimal("statement_total", { precision: 15, scale: 2 }).notNull(),
+  bookTotal: decimal("book_total", { precision: 15, scale: 2 }).notNull(),
+  acceptedBy: integer("accepted_by").references(() => users.id),
+  acceptedAt: timestamp("accepted_at").defaultNow().notNull(),
+}, (table) => ({
+  sessionIdx: index("reconciliation_matches_session_idx").on(table.sessionId),
+}));
+
+export const reconciliationMatchLinks = pgTable("reconciliation_match_links", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => reconciliationMatches.id, { onDelete: "cascade" }),
+  // Exactly one of the two is set
+  reconciliationItemId: integer("reconciliation_item_id"),
+  transactionId: integer("transaction_id"),
+}, (table) => ({
+  matchIdx: index("reconciliation_match_links_match_idx").on(table.matchId),
+  transactionIdx: index("reconciliation_match_links_transaction_idx").on(table.transactionId),
+}));
+
+export const payeeAliases = pgTable("payee_aliases", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // Normalized statement payee text, e.g. "amzn mktp ca"
+  alias: text("alias").notNull(),
+  // Payee as recorded in the books
+  payeeName: text("payee_name").notNull(),
+  timesConfirmed: integer("times_confirmed").notNull().default(1),
+  lastConfirmedAt: timestamp("last_confirmed_at").defaultNow().notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientAliasUnique: unique("payee_aliases_client_alias_unique").on(table.clientId, table.alias),
+}));
+
+export const insertReconciliationMatchSettingsSchema = createInsertSchema(reconciliationMatchSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertReconciliationMatchSchema = createInsertSchema(reconciliationMatches).omit({
+  id: true,
+  acceptedAt: true,
+});
+
+export const insertPayeeAliasSchema = createInsertSchema(payeeAliases).omit({
+  id: true,
+  timesConfirmed: true,
+  lastConfirmedAt: true,
+  createdAt: true,
+});
+
+export type ReconciliationMatchSettings = typeof reconciliationMatchSettings.$inferSelect;
+export type InsertReconciliationMatchSettings = z.infer<typeof insertReconciliationMatchSettingsSchema>;
+export type ReconciliationMatch = typeof reconciliationMatches.$inferSelect;
+export type InsertReconciliationMatch = z.infer<typeof insertReconciliationMatchSchema>;
+export type ReconciliationMatchLink = typeof reconciliationMatchLinks.$inferSelect;
+export type PayeeAlias = typeof payeeAliases.$inferSelect;
+export type InsertPayeeAlias = z.infer<typeof insertPayeeAliasSchema>;
@@ -0,0 +1,105 @@
+/**
+ * Reconciliation Report Entities
+ *
+ * Finalized bank reconciliations:
+ * - reconciliationReports: locked snapshot of a session's reconciliation
+ *   (statement balance, outstanding items, book balance) taken when it was
+ *   finalized; a reopened snapshot is kept for history
+ * - reconciliationReportItems: outstanding cheques, deposits in transit and
+ *   unrecorded statement items listed on the report
+ * - reconciliationAuditEvents: finalize and reopen history for each session
+ */
+
+import { pgTable, serial, integer, text, timestamp, decimal, date, index } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const reconciliationReports = pgTable("reconciliation_reports", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  accountId: integer("account_id").notNull(),
+  accountName: text("account_name"),
+  periodStart: date("period_start").notNull(),
+  periodEnd: date("period_end").notNull(),
+  statementBalance: decimal("statement_balance", { precision: 15, scale: 2 }).notNull(),
+  depositsInTransitTotal: decimal("deposits_in_transit_total", { precision: 15, scale: 2 }).notNull(),
+  outstandingChequesTotal: decimal("outstanding_cheques_total", { precision: 15, scale: 2 }).notNull(),
+  adjustedBankBalance: decimal("adjusted_bank_balance", { precision: 15, scale: 2 }).notNull(),
+  bookBalance: decimal("book_balance", { precision: 15, scale: 2 }).notNull(),
+  // Net of statement items not yet recorded in the books (bank fees, interest)
+  unrecordedTotal: decimal("unrecorded_total", { precision: 15, scale: 2 }).notNull().default("0.00"),
+  adjustedBookBalance: decimal("adjusted_book_balance", { precision: 15, scale: 2 }).notNull(),
+  difference: decimal("difference", { precision: 15, scale: 2 }).notNull().default("0.00"),
+  // finalized | reopened
+  status: text("status").notNull().default("finalized"),
+  finalizedBy: integer("finalized_by").references(() => users.id),
+  finalizedAt: timestamp("finalized_at").defaultNow().notNull(),
+  reopenedBy: integer("reopened_by").references(() => users.id),
+  reopenedAt: timestamp("reopened_at"),
+  reopenReason: text("reopen_reason"),
+}, (table) => ({
+  sessionIdx: index("reconciliation_reports_session_idx").on(table.sessionId),
+  accountIdx: index("reconciliation_reports_account_idx").on(table.clientId, table.accountId, table.periodEnd),
+}));
+
+export const reconciliationReportItems = pgTable("reconciliation_report_items", {
+  id: serial("id").primaryKey(),
+  reportId: integer("report_id").notNull().references(() => reconciliationReports.id, { onDelete: "cascade" }),
+  // outstanding_cheque | deposit_in_transit | unrecorded
+  itemType: text("item_type").notNull(),
+  // Book transaction for outstanding items, statement line for unrecorded items
+  transactionId: integer("transaction_id"),
+  reconciliationItemId: integer("reconciliation_item_id"),
+  itemDate: date("item_date").notNull(),
+  description: text("description"),
+  reference: text("reference"),
+  // Signed as on the bank statement: negative is money out
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  // Earlier report the item was already outstanding on
+  carriedFromReportId: integer("carried_from_report_id"),
+}, (table) => ({
+  reportIdx: index("reconciliation_report_items_report_idx").on(table.reportId),
+  transactionIdx: index("reconciliation_report_items_transaction_idx").on(table.transactionId),
+}));
+
+export const reconciliationAuditEvents = pgTable("reconciliation_audit_events", {
+  id: serial("id").primaryKey(),
+  sessionId: integer("session_id").notNull(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  reportId: integer("report_id").references(() => reconciliationReports.id),
+  // finalized | reopened
+  action: text("action").notNull(),
+  reason: text("reason"),
+  details: text("details"),
+  userId: integer("user_id").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  sessionIdx: index("reconciliation_audit_events_session_idx").on(table.sessionId),
+}));
+
+export const insertReconciliationReportSchema = createInsertSchema(reconciliationReports).omit({
+  id: true,
+  finalizedAt: true,
+  reopenedBy: true,
+  reopenedAt: true,
+  reopenReason: true,
+});
+
+export const insertReconciliationReportItemSchema = createInsertSchema(reconciliationReportItems).omit({
+  id: true,
+});
+
+export const insertReconciliationAuditEventSchema = createInsertSchema(reconciliationAuditEvents).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type ReconciliationReport = typeof reconciliationReports.$inferSelect;
+export type InsertReconciliationReport = z.infer<typeof insertReconciliationReportSchema>;
+export type ReconciliationReportItem = typeof reconciliationReportItems.$inferSelect;
+export type InsertReconciliationReportItem = z.infer<typeof insertReconciliationReportItemSchema>;
+export type ReconciliationAuditEvent = typeof reconciliationAuditEvents.$inferSelect;
+export type InsertReconciliationAuditEvent = z.infer<typeof insertReconciliationAuditEventSchema>;
@@ -0,0 +1,123 @@
+/**
+ * Recurring Invoice Entities
+ *
+ * Subscription billing for a client's customers (rent, retainers, memberships):
+ * - recurringInvoiceProfiles: customer, schedule, end date, payment terms, tax
+ *   and whether generated invoices are emailed automatically
+ * - recurringInvoiceProfileLines: the invoice lines billed each cycle
+ * - recurringInvoicePriceChanges: new line rates that take effect on a future
+ *   date, so rent increases can be entered ahead of time
+ * - recurringInvoiceRuns: one row per billing cycle with the invoice and AR
+ *   entry generated for the customer, or why the cycle was skipped
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, boolean, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const recurringInvoiceProfiles = pgTable("recurring_invoice_profiles", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  name: text("name").notNull(),
+  // monthly | quarterly | annually
+  frequency: text("frequency").notNull().default("monthly"),
+  // Day of month to invoice on; null invoices on the last day of the month
+  dayOfMonth: integer("day_of_month"),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  nextRunDate: date("next_run_date"),
+  // Days from the invoice date to the due date
+  paymentTermsDays: integer("payment_terms_days").notNull().default(30),
+  // Sales tax rate as a fraction (0.13 for 13% HST); 0 when exempt
+  taxRate: decimal("tax_rate", { precision: 7, scale: 5 }).notNull().default("0"),
+  // Sales tax payable account; found by name when not set
+  taxAccountId: integer("tax_account_id"),
+  // Accounts receivable account; found by name when not set
+  arAccountId: integer("ar_account_id"),
+  templateId: integer("template_id"),
+  notes: text("notes"),
+  // Email each generated invoice to the customer
+  autoSend: boolean("auto_send").notNull().default(false),
+  // active | paused | ended
+  status: text("status").notNull().default("active"),
+  invoicesGenerated: integer("invoices_generated").notNull().default(0),
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("recurring_invoice_profiles_client_idx").on(table.clientId),
+  customerIdx: index("recurring_invoice_profiles_customer_idx").on(table.clientId, table.customerId),
+  dueIdx: index("recurring_invoice_profiles_due_idx").on(table.status, table.nextRunDate),
+}));
+
+export const recurringInvoiceProfileLines = pgTable("recurring_invoice_profile_lines", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => recurringInvoiceProfiles.id, { onDelete: "cascade" }),
+  description: text("description").notNull(),
+  quantity: decimal("quantity", { precision: 15, scale: 4 }).notNull().default("1"),
+  rate: decimal("rate", { precision: 15, scale: 2 }).notNull(),
+  // Revenue account credited for the line
+  accountId: integer("account_id").notNull(),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => ({
+  profileIdx: index("recurring_invoice_profile_lines_profile_idx").on(table.profileId),
+}));
+
+export const recurringInvoicePriceChanges = pgTable("recurring_invoice_price_changes", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => recurringInvoiceProfiles.id, { onDelete: "cascade" }),
+  lineId: integer("line_id").notNull().references(() => recurringInvoiceProfileLines.id, { onDelete: "cascade" }),
+  // Billing cycles dated on or after this date use the new rate
+  effectiveDate: date("effective_date").notNull(),
+  rate: decimal("rate", { precision: 15, scale: 2 }).notNull(),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  lineEffectiveUnique: unique("recurring_invoice_price_changes_line_unique").on(table.lineId, table.effectiveDate),
+}));
+
+export const recurringInvoiceRuns = pgTable("recurring_invoice_runs", {
+  id: serial("id").primaryKey(),
+  profileId: integer("profile_id").notNull().references(() => recurringInvoiceProfiles.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  customerId: integer("customer_id").notNull(),
+  occurrenceDate: date("occurrence_date").notNull(),
+  // generated | skipped | skipped_locked
+  status: text("status").notNull(),
+  invoiceId: integer("invoice_id"),
+  invoiceNumber: text("invoice_number"),
+  journalEntryId: integer("journal_entry_id"),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }),
+  sentAt: timestamp("sent_at"),
+  message: text("message"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  occurrenceUnique: unique("recurring_invoice_runs_occurrence_unique").on(table.profileId, table.occurrenceDate),
+  customerIdx: index("recurring_invoice_runs_customer_idx").on(table.clientId, table.customerId),
+}));
+
+export const insertRecurringInvoiceProfileSchema = createInsertSchema(recurringInvoiceProfiles).omit({
+  id: true,
+  invoicesGenerated: true,
+  lastRunAt: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRecurringInvoiceProfileLineSchema = createInsertSchema(recurringInvoiceProfileLines).omit({
+  id: true,
+});
+
+export type RecurringInvoiceProfile = typeof recurringInvoiceProfiles.$inferSelect;
+export type InsertRecurringInvoiceProfile = z.infer<typeof insertRecurringInvoiceProfileSchema>;
+export type RecurringInvoiceProfileLine = typeof recurringInvoiceProfileLines.$inferSelect;
+export type InsertRecurringInvoiceProfileLine = z.infer<typeof insertRecurringInvoiceProfileLineSchema>;
+export type RecurringInvoicePriceChange = typeof recurringInvoicePriceChanges.$inferSelect;
+export type RecurringInvoiceRun = typeof recurringInvoiceRuns.$inferSelect;
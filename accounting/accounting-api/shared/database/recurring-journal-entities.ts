@@ -0,0 +1,90 @@
+/**
+ * Recurring Journal Entities
+ *
+ * Templates for journal entries that are re-keyed every period (accruals,
+ * prepaid amortization, management fees):
+ * - recurringJournalTemplates: schedule, end condition and auto-reverse flag
+ * - recurringJournalTemplateLines: the debit/credit lines posted each occurrence
+ * - recurringJournalPostings: one row per scheduled occurrence, with the posted
+ *   entry and its reversal, or the reason it was skipped
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, boolean, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const recurringJournalTemplates = pgTable("recurring_journal_templates", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  name: text("name").notNull(),
+  description: text("description").notNull(),
+  // monthly | quarterly | fiscal_year_end
+  frequency: text("frequency").notNull().default("monthly"),
+  // Day of month to post on; null posts on the last day of the month
+  dayOfMonth: integer("day_of_month"),
+  startDate: date("start_date").notNull(),
+  endDate: date("end_date"),
+  maxOccurrences: integer("max_occurrences"),
+  occurrencesPosted: integer("occurrences_posted").notNull().default(0),
+  nextRunDate: date("next_run_date"),
+  // Post a reversing entry on the first day of the next period
+  autoReverse: boolean("auto_reverse").notNull().default(false),
+  isActive: boolean("is_active").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  lastError: text("last_error"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("recurring_journal_templates_client_idx").on(table.clientId),
+  dueIdx: index("recurring_journal_templates_due_idx").on(table.isActive, table.nextRunDate),
+}));
+
+export const recurringJournalTemplateLines = pgTable("recurring_journal_template_lines", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull().references(() => recurringJournalTemplates.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull(),
+  debitAmount: decimal("debit_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  creditAmount: decimal("credit_amount", { precision: 15, scale: 2 }).notNull().default("0"),
+  memo: text("memo"),
+  sortOrder: integer("sort_order").notNull().default(0),
+}, (table) => ({
+  templateIdx: index("recurring_journal_template_lines_template_idx").on(table.templateId),
+}));
+
+export const recurringJournalPostings = pgTable("recurring_journal_postings", {
+  id: serial("id").primaryKey(),
+  templateId: integer("template_id").notNull().references(() => recurringJournalTemplates.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  occurrenceDate: date("occurrence_date").notNull(),
+  // posted | skipped_locked
+  status: text("status").notNull(),
+  journalEntryId: integer("journal_entry_id"),
+  reversalJournalEntryId: integer("reversal_journal_entry_id"),
+  reversalDate: date("reversal_date"),
+  message: text("message"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  occurrenceUnique: unique("recurring_journal_postings_occurrence_unique").on(table.templateId, table.occurrenceDate),
+}));
+
+export const insertRecurringJournalTemplateSchema = createInsertSchema(recurringJournalTemplates).omit({
+  id: true,
+  occurrencesPosted: true,
+  lastRunAt: true,
+  lastError: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertRecurringJournalTemplateLineSchema = createInsertSchema(recurringJournalTemplateLines).omit({
+  id: true,
+});
+
+export type RecurringJournalTemplate = typeof recurringJournalTemplates.$inferSelect;
+export type InsertRecurringJournalTemplate = z.infer<typeof insertRecurringJournalTemplateSchema>;
+export type RecurringJournalTemplateLine = typeof recurringJournalTemplateLines.$inferSelect;
+export type InsertRecurringJournalTemplateLine = z.infer<typeof insertRecurringJournalTemplateLineSchema>;
+export type RecurringJournalPosting = typeof recurringJournalPostings.$inferSelect;
@@ -0,0 +1,77 @@
+/**
+ * Transfer Entities
+ *
+ * Inter-account transfer detection across a client's bank and credit card feeds:
+ * - transferDetectionSettings: per-firm date window and default internal accounts
+ * - transferInternalAccounts: accounts chosen as internal for a client; when a
+ *   client has none, its bank, cash and (optionally) credit card accounts are used
+ * - transferPairs: accepted transfers (both halves, or one half posted against a
+ *   chosen account while the other side has no feed) and dismissed proposals
+ */
+
+import { pgTable, serial, integer, text, timestamp, decimal, date, boolean, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const transferDetectionSettings = pgTable("transfer_detection_settings", {
+  id: serial("id").primaryKey(),
+  firmId: integer("firm_id").notNull().unique().references(() => firms.id, { onDelete: "cascade" }),
+  // Most days allowed between the two halves of a transfer
+  dateWindowDays: integer("date_window_days").notNull().default(3),
+  // Whether credit card accounts count as internal when a client has no explicit list
+  includeCreditCards: boolean("include_credit_cards").notNull().default(true),
+  updatedBy: integer("updated_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const transferInternalAccounts = pgTable("transfer_internal_accounts", {
+  id: serial("id").primaryKey(),
+  firmId: integer("firm_id").references(() => firms.id),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  accountId: integer("account_id").notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientAccountUnique: unique("transfer_internal_accounts_client_account_unique").on(table.clientId, table.accountId),
+}));
+
+export const transferPairs = pgTable("transfer_pairs", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id),
+  // Money-out half; null when only the receiving feed had the transfer
+  fromTransactionId: integer("from_transaction_id"),
+  // Money-in half; null when only the paying feed had the transfer
+  toTransactionId: integer("to_transaction_id"),
+  fromAccountId: integer("from_account_id").notNull(),
+  toAccountId: integer("to_account_id").notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  transferDate: date("transfer_date").notNull(),
+  // posted | dismissed
+  status: text("status").notNull().default("posted"),
+  journalEntryId: integer("journal_entry_id"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("transfer_pairs_client_idx").on(table.clientId, table.status),
+  fromTransactionIdx: index("transfer_pairs_from_transaction_idx").on(table.fromTransactionId),
+  toTransactionIdx: index("transfer_pairs_to_transaction_idx").on(table.toTransactionId),
+}));
+
+export const insertTransferDetectionSettingsSchema = createInsertSchema(transferDetectionSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export const insertTransferPairSchema = createInsertSchema(transferPairs).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type TransferDetectionSettings = typeof transferDetectionSettings.$inferSelect;
+export type InsertTransferDetectionSettings = z.infer<typeof insertTransferDetectionSettingsSchema>;
+export type TransferInternalAccount = typeof transferInternalAccounts.$inferSelect;
+export type TransferPair = typeof transferPairs.$inferSelect;
+export type InsertTransferPair = z.infer<typeof insertTransferPairSchema>;
@@ -0,0 +1,135 @@
+/**
+ * Vendor Payment Run Entities
+ *
+ * Paying many vendor bills in one batch:
+ * - vendorBankDetails: a vendor's Canadian bank account for EFT payments
+ * - eftOriginatorSettings: the client's CPA-005 originator details issued by
+ *   its bank, and the last file creation number used
+ * - vendorPaymentRuns: one batch, paid from one bank account on one date,
+ *   with the CPA-005 file it produced (if any vendor was paid by EFT)
+ * - vendorPaymentRunPayments: one payment per vendor in a run, by cheque or
+ *   EFT, with its journal entry
+ * - vendorPaymentRunBills: the bills each payment settles and by how much
+ */
+
+import { pgTable, serial, integer, text, date, timestamp, decimal, index, unique } from "drizzle-orm/pg-core";
+import { createInsertSchema } from "drizzle-zod";
+import { z } from "zod";
+import { clients, firms, users } from "./core-entities";
+
+export const vendorBankDetails = pgTable("vendor_bank_details", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  vendorId: integer("vendor_id").notNull(),
+  // 3-digit institution, 5-digit transit (branch), up to 12-digit account
+  institutionNumber: text("institution_number").notNull(),
+  transitNumber: text("transit_number").notNull(),
+  accountNumber: text("account_number").notNull(),
+  accountHolderName: text("account_holder_name"),
+  // Where remittance advice is sent; falls back to the vendor's email
+  remittanceEmail: text("remittance_email"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  vendorUnique: unique("vendor_bank_details_vendor_unique").on(table.clientId, table.vendorId),
+}));
+
+export const eftOriginatorSettings = pgTable("eft_originator_settings", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  // 10-character originator ID assigned by the bank
+  originatorId: text("originator_id").notNull(),
+  // Names shown on the payee's bank statement (15 and 30 characters)
+  shortName: text("short_name").notNull(),
+  longName: text("long_name").notNull(),
+  // 5-digit destination data centre of the bank receiving the file
+  destinationDataCentre: text("destination_data_centre").notNull(),
+  // Account that rejected payments are returned to
+  returnInstitutionNumber: text("return_institution_number").notNull(),
+  returnTransitNumber: text("return_transit_number").notNull(),
+  returnAccountNumber: text("return_account_number").notNull(),
+  // Each file needs a new number (1-9999) for the originator
+  lastFileCreationNumber: integer("last_file_creation_number").notNull().default(0),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => ({
+  clientUnique: unique("eft_originator_settings_client_unique").on(table.clientId),
+}));
+
+export const vendorPaymentRuns = pgTable("vendor_payment_runs", {
+  id: serial("id").primaryKey(),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  firmId: integer("firm_id").references(() => firms.id, { onDelete: "cascade" }),
+  runNumber: text("run_number").notNull(),
+  paymentDate: date("payment_date").notNull(),
+  // Bank account credited and AP account debited by every payment
+  bankAccountId: integer("bank_account_id").notNull(),
+  apAccountId: integer("ap_account_id").notNull(),
+  // Book balance of the bank account when the run was generated, and the cap used
+  bankBalance: decimal("bank_balance", { precision: 15, scale: 2 }),
+  amountCap: decimal("amount_cap", { precision: 15, scale: 2 }),
+  totalAmount: decimal("total_amount", { precision: 15, scale: 2 }).notNull(),
+  chequeCount: integer("cheque_count").notNull().default(0),
+  eftCount: integer("eft_count").notNull().default(0),
+  eftFileCreationNumber: integer("eft_file_creation_number"),
+  eftFileName: text("eft_file_name"),
+  eftFileContent: text("eft_file_content"),
+  // posted | voided
+  status: text("status").notNull().default("posted"),
+  voidedAt: timestamp("voided_at"),
+  voidedBy: integer("voided_by").references(() => users.id),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+}, (table) => ({
+  clientIdx: index("vendor_payment_runs_client_idx").on(table.clientId, table.paymentDate),
+  numberUnique: unique("vendor_payment_runs_number_unique").on(table.clientId, table.runNumber),
+}));
+
+export const vendorPaymentRunPayments = pgTable("vendor_payment_run_payments", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => vendorPaymentRuns.id, { onDelete: "cascade" }),
+  clientId: integer("client_id").notNull().references(() => clients.id, { onDelete: "cascade" }),
+  vendorId: integer("vendor_id").notNull(),
+  vendorName: text("vendor_name").notNull(),
+  // cheque | eft
+  method: text("method").notNull(),
+  chequeId: integer("cheque_id"),
+  chequeNumber: text("cheque_number"),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  journalEntryId: integer("journal_entry_id"),
+  voidJournalEntryId: integer("void_journal_entry_id"),
+  remittanceEmail: text("remittance_email"),
+  remittanceSentAt: timestamp("remittance_sent_at"),
+  // posted | voided
+  status: text("status").notNull().default("posted"),
+}, (table) => ({
+  runIdx: index("vendor_payment_run_payments_run_idx").on(table.runId),
+}));
+
+export const vendorPaymentRunBills = pgTable("vendor_payment_run_bills", {
+  id: serial("id").primaryKey(),
+  runId: integer("run_id").notNull().references(() => vendorPaymentRuns.id, { onDelete: "cascade" }),
+  paymentId: integer("payment_id").notNull().references(() => vendorPaymentRunPayments.id, { onDelete: "cascade" }),
+  billId: integer("bill_id").notNull(),
+  billNumber: text("bill_number"),
+  billDate: date("bill_date"),
+  dueDate: date("due_date"),
+  billTotal: decimal("bill_total", { precision: 15, scale: 2 }).notNull(),
+  amount: decimal("amount", { precision: 15, scale: 2 }).notNull(),
+  // Bill status before the run, restored when the run is voided
+  previousStatus: text("previous_status"),
+}, (table) => ({
+  billIdx: index("vendor_payment_run_bills_bill_idx").on(table.billId),
+}));
+
+export const insertVendorBankDetailsSchema = createInsertSchema(vendorBankDetails).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type VendorBankDetails = typeof vendorBankDetails.$inferSelect;
+export type InsertVendorBankDetails = z.infer<typeof insertVendorBankDetailsSchema>;
+export type EftOriginatorSettings = typeof eftOriginatorSettings.$inferSelect;
+export type VendorPaymentRun = typeof vendorPaymentRuns.$inferSelect;
+export type VendorPaymentRunPayment = typeof vendorPaymentRunPayments.$inferSelect;
+export type VendorPaymentRunBill = typeof vendorPaymentRunBills.$inferSelect;
@@ -0,0 +1,14 @@
+import path from "path";
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      "@shared": path.resolve(__dirname, "shared"),
+    },
+  },
+  test: {
+    include: ["server/**/*.test.ts"],
+    environment: "node",
+  },
+});
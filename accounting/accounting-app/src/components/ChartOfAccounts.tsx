@@ -69,6 +69,15 @@ import {
   SelectValue,
 } from "./ui/select";
 
+// Cash-flow statement classification of balance sheet accounts (indirect method)
+const CASH_FLOW_CATEGORY_LABELS: Record<string, string> = {
+  cash: 'Cash',
+  operating: 'Operating',
+  non_cash: 'Non-cash add-back',
+  investing: 'Investing',
+  financing: 'Financing',
+};
+
 interface ChartOfAccountsProps {
   clientId: string;
   showTitle?: boolean;
@@ -346,6 +355,35 @@ export function ChartOfAccounts({ clientId, showTitle = true, compact = false }:
     }
   });
 
+  // Cash-flow categories (balance sheet accounts only; P&L accounts flow through net income)
+  const { data: cashFlowCategories = [] } = useQuery<any[]>({
+    queryKey: [`/api/cash-flow/${clientId}/accounts`],
+    enabled: !!clientId,
+  });
+
+  const cashFlowCategoryByAccount = React.useMemo(() => {
+    const map = new Map<number, any>();
+    cashFlowCategories.forEach((entry: any) => map.set(entry.accountId, entry));
+    return map;
+  }, [cashFlowCategories]);
+
+  const updateCashFlowCategoryMutation = useMutation({
+    mutationFn: async ({ accountId, category }: { accountId: number; category: string | null }) => {
+      const response = await apiRequest('PUT', `/api/cash-flow/${clientId}/accounts/${accountId}`, { category });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/cash-flow/${clientId}/accounts`] });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error updating cash-flow category",
+        description: error.message || "Failed to update cash-flow category",
+        variant: "destructive",
+      });
+    }
+  });
+
   // Delete account mutation
   const deleteAccountMutation = useMutation({
     mutationFn: async (id: number) => {
@@ -713,7 +751,7 @@ export function ChartOfAccounts({ clientId, showTitle = true, compact = false }:
         <Card>
           <CardContent className="p-0">
             <div className="w-full overflow-x-auto">
-              <Table className="min-w-[900px]">
+              <Table className="min-w-[1060px]">
               <TableHeader>
                 <TableRow>
                   <TableHead className="w-12">
@@ -776,6 +814,7 @@ export function ChartOfAccounts({ clientId, showTitle = true, compact = false }:
                       {sortField !== 'subtype' && <ArrowUpDown className="h-4 w-4 opacity-50" />}
                     </div>
                   </TableHead>
+                  <TableHead>Cash Flow</TableHead>
                   <TableHead>Description</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead className="text-right">Actions</TableHead>
@@ -869,6 +908,33 @@ export function ChartOfAccounts({ clientId, showTitle = true, compact = false }:
                         }}
                       />
                     </TableCell>
+                    <TableCell>
+                      {cashFlowCategoryByAccount.has(account.id) ? (
+                        <Select
+                          value={cashFlowCategoryByAccount.get(account.id).isDefault ? 'default' : cashFlowCategoryByAccount.get(account.id).category}
+                          onValueChange={(value) => updateCashFlowCategoryMutation.mutate({
+                            accountId: account.id,
+                            category: value === 'default' ? null : value,
+                          })}
+                        >
+                          <SelectTrigger className="w-40 text-sm" data-testid={`select-cash-flow-${account.id}`}>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="default">
+                              Auto ({CASH_FLOW_CATEGORY_LABELS[cashFlowCategoryByAccount.get(account.id).defaultCategory] || 'Operating'})
+                            </SelectItem>
+                            {Object.entries(CASH_FLOW_CATEGORY_LABELS).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      ) : (
+                        <span className="text-sm text-muted-foreground">
+                          {['asset', 'liability', 'equity'].includes(account.type) ? '-' : 'Net income'}
+                        </span>
+                      )}
+                    </TableCell>
                     <TableCell className="text-muted-foreground max-w-xs truncate">
                       {account.description || '-'}
                     </TableCell>
@@ -0,0 +1,822 @@
+import React, { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { queryClient } from "@/lib/queryClient";
+import { apiConfig } from "@/lib/api-config";
+import { useToast } from "@/hooks/use-toast";
+import {
+  Card,
+  CardContent,
+  CardHeader,
+  CardTitle,
+  CardDescription,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Edit, Trash2, ArrowUp, ArrowDown, Layers, X } from "lucide-react";
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+
+const selectClassName =
+  "flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2 disabled:cursor-not-allowed disabled:opacity-50";
+
+const CONDITION_FIELDS = [
+  { value: "description", label: "Description" },
+  { value: "payee", label: "Payee" },
+  { value: "amount", label: "Amount" },
+  { value: "direction", label: "Direction" },
+  { value: "bank_account", label: "Bank account" },
+  { value: "day_of_month", label: "Day of month" },
+] as const;
+
+const OPERATOR_LABELS: Record<string, string> = {
+  contains: "contains",
+  not_contains: "does not contain",
+  equals: "is",
+  starts_with: "starts with",
+  ends_with: "ends with",
+  between: "is between",
+  gte: "is at least",
+  lte: "is at most",
+};
+
+// Mirrors the operators the server accepts for each field
+const FIELD_OPERATORS: Record<string, string[]> = {
+  description: ["contains", "not_contains", "equals", "starts_with", "ends_with"],
+  payee: ["contains", "not_contains", "equals", "starts_with", "ends_with"],
+  amount: ["equals", "between", "gte", "lte"],
+  direction: ["equals"],
+  bank_account: ["equals"],
+  day_of_month: ["equals", "between", "gte", "lte"],
+};
+
+const conditionSchema = z.object({
+  field: z.enum(["description", "payee", "amount", "direction", "bank_account", "day_of_month"]),
+  operator: z.string().min(1),
+  value: z.string().min(1, "Value is required"),
+  valueTo: z.string().optional(),
+});
+
+const splitSchema = z.object({
+  accountId: z.string().min(1, "Select an account"),
+  splitType: z.enum(["percent", "fixed"]),
+  amount: z.string().min(1, "Amount is required"),
+  memo: z.string().optional(),
+});
+
+const compoundRuleFormSchema = z.object({
+  name: z.string().min(1, "Rule name is required"),
+  description: z.string().optional(),
+  conditionLogic: z.enum(["all", "any"]),
+  stopProcessing: z.boolean(),
+  isActive: z.boolean(),
+  conditions: z.array(conditionSchema).min(1, "Add at least one condition"),
+  splits: z.array(splitSchema),
+  projectId: z.string().optional(),
+  locationId: z.string().optional(),
+  classId: z.string().optional(),
+  payeeContactId: z.string().optional(),
+  excludeAsTransfer: z.boolean(),
+});
+
+type CompoundRuleFormData = z.infer<typeof compoundRuleFormSchema>;
+
+const emptyRule: CompoundRuleFormData = {
+  name: "",
+  description: "",
+  conditionLogic: "all",
+  stopProcessing: true,
+  isActive: true,
+  conditions: [{ field: "description", operator: "contains", value: "", valueTo: "" }],
+  splits: [{ accountId: "", splitType: "percent", amount: "100", memo: "" }],
+  projectId: "",
+  locationId: "",
+  classId: "",
+  payeeContactId: "",
+  excludeAsTransfer: false,
+};
+
+/** Starting values for a compound rule converted from a legacy pattern rule */
+export function compoundRuleFromLegacy(rule: any): Partial<CompoundRuleFormData> {
+  const operator = rule.match_type === "exact" ? "equals" : rule.match_type || "contains";
+  return {
+    name: rule.name,
+    description: rule.description || "",
+    conditions: [{ field: "description", operator, value: rule.pattern || "", valueTo: "" }],
+    splits: rule.account_id
+      ? [{ accountId: String(rule.account_id), splitType: "percent", amount: "100", memo: "" }]
+      : emptyRule.splits,
+  };
+}
+
+function toPayload(clientId: number, data: CompoundRuleFormData) {
+  const optionalId = (value?: string) => (value ? parseInt(value) : null);
+  return {
+    clientId,
+    name: data.name,
+    description: data.description || null,
+    conditionLogic: data.conditionLogic,
+    stopProcessing: data.stopProcessing,
+    isActive: data.isActive,
+    conditions: data.conditions.map((condition) => ({
+      field: condition.field,
+      operator: condition.operator,
+      value: condition.value,
+      valueTo: condition.operator === "between" ? condition.valueTo || null : null,
+    })),
+    splits: data.excludeAsTransfer
+      ? []
+      : data.splits.map((split) => ({
+          accountId: parseInt(split.accountId),
+          splitType: split.splitType,
+          amount: parseFloat(split.amount),
+          memo: split.memo || null,
+        })),
+    projectId: optionalId(data.projectId),
+    locationId: optionalId(data.locationId),
+    classId: optionalId(data.classId),
+    payeeContactId: optionalId(data.payeeContactId),
+    payeeContactType: data.payeeContactId ? "vendor" : null,
+    excludeAsTransfer: data.excludeAsTransfer,
+  };
+}
+
+interface CompoundRulesCardProps {
+  clientId: number;
+  accounts: any[];
+  /** Legacy rule to convert; opens the editor prefilled when set */
+  convertFrom?: any;
+  /** Called with the legacy rule once its compound replacement is saved */
+  onConverted?: (legacyRule: any) => void;
+}
+
+export default function CompoundRulesCard({
+  clientId,
+  accounts,
+  convertFrom,
+  onConverted,
+}: CompoundRulesCardProps) {
+  const { toast } = useToast();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<any>(null);
+  const [isConverting, setIsConverting] = useState(false);
+
+  const form = useForm<CompoundRuleFormData>({
+    resolver: zodResolver(compoundRuleFormSchema),
+    defaultValues: emptyRule,
+  });
+  const conditionFields = useFieldArray({ control: form.control, name: "conditions" });
+  const splitFields = useFieldArray({ control: form.control, name: "splits" });
+
+  const token = localStorage.getItem("authToken");
+  const headers: HeadersInit = {
+    'Content-Type': 'application/json'
+  };
+  if (token) {
+    headers["Authorization"] = `Bearer ${token}`;
+  }
+
+  const { data: rulesData, isLoading } = useQuery({
+    queryKey: ["/api/rules/compound", clientId],
+    queryFn: () =>
+      fetch(apiConfig.buildUrl(`/api/rules/compound?clientId=${clientId}`), {
+        headers,
+        credentials: 'include'
+      }).then((res) => res.json()),
+    refetchOnWindowFocus: false,
+    staleTime: 30000,
+  });
+
+  const { data: projects = [] } = useQuery<any[]>({
+    queryKey: ['/api/projects', clientId],
+    queryFn: async () => {
+      const res = await fetch(apiConfig.buildUrl(`/api/projects/${clientId}`), { credentials: 'include', headers });
+      const json = await res.json();
+      return json.data || [];
+    }
+  });
+
+  const { data: locations = [] } = useQuery<any[]>({
+    queryKey: [`/api/locations/${clientId}`],
+    queryFn: async () => {
+      const res = await fetch(apiConfig.buildUrl(`/api/locations/${clientId}`), { credentials: 'include', headers });
+      const json = await res.json();
+      return json.data || [];
+    }
+  });
+
+  const { data: classes = [] } = useQuery<any[]>({
+    queryKey: [`/api/classes/${clientId}`],
+    queryFn: async () => {
+      const res = await fetch(apiConfig.buildUrl(`/api/classes/${clientId}`), { credentials: 'include', headers });
+      const json = await res.json();
+      return json.data || [];
+    }
+  });
+
+  const { data: vendors = [] } = useQuery<any[]>({
+    queryKey: ['/api/vendors', clientId],
+    queryFn: async () => {
+      const res = await fetch(apiConfig.buildUrl(`/api/vendors?clientId=${clientId}`), { credentials: 'include', headers });
+      const json = await res.json();
+      return json.data || [];
+    }
+  });
+
+  const rules: any[] = rulesData?.rules || [];
+  const bankAccounts = accounts.filter((account: any) =>
+    ["bank", "cash", "credit_card"].includes(account.subtype || account.type) || /bank|chequing|checking|savings|credit card/i.test(account.name)
+  );
+
+  const sendJson = async (url: string, method: string, body?: unknown) => {
+    const res = await fetch(apiConfig.buildUrl(url), {
+      method,
+      headers,
+      credentials: 'include',
+      body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = await res.json();
+    if (!res.ok) {
+      throw new Error(data.message || data.error || "Request failed");
+    }
+    return data;
+  };
+
+  const closeDialog = () => {
+    setIsDialogOpen(false);
+    setSelectedRule(null);
+    setIsConverting(false);
+    form.reset(emptyRule);
+  };
+
+  const saveRuleMutation = useMutation({
+    mutationFn: (data: CompoundRuleFormData) =>
+      selectedRule
+        ? sendJson(`/api/rules/compound/${selectedRule.id}`, "PUT", toPayload(clientId, data))
+        : sendJson("/api/rules/compound", "POST", toPayload(clientId, data)),
+    onSuccess: () => {
+      toast({ title: selectedRule ? "Rule updated successfully!" : "Rule created successfully!" });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules/compound"] });
+      if (isConverting) onConverted?.(convertFrom);
+      closeDialog();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (ruleId: number) => sendJson(`/api/rules/compound/${ruleId}?clientId=${clientId}`, "DELETE"),
+    onSuccess: () => {
+      toast({ title: "Rule deleted successfully!" });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules/compound"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to delete rule", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const reorderMutation = useMutation({
+    mutationFn: (ruleIds: number[]) => sendJson("/api/rules/compound/priorities", "PUT", { clientId, ruleIds }),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/rules/compound"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reorder rules", description: error.message, variant: "destructive" });
+    },
+  });
+
+  // Open the editor prefilled from a legacy pattern rule
+  React.useEffect(() => {
+    if (!convertFrom) return;
+    setSelectedRule(null);
+    form.reset({ ...emptyRule, ...compoundRuleFromLegacy(convertFrom) });
+    setIsConverting(true);
+    setIsDialogOpen(true);
+  }, [convertFrom]);
+
+  const handleCreate = () => {
+    setSelectedRule(null);
+    setIsConverting(false);
+    form.reset(emptyRule);
+    setIsDialogOpen(true);
+  };
+
+  const handleEdit = (rule: any) => {
+    setSelectedRule(rule);
+    setIsConverting(false);
+    form.reset({
+      name: rule.name,
+      description: rule.description || "",
+      conditionLogic: rule.conditionLogic,
+      stopProcessing: rule.stopProcessing,
+      isActive: rule.isActive,
+      conditions: rule.conditions.map((condition: any) => ({
+        field: condition.field,
+        operator: condition.operator,
+        value: condition.value,
+        valueTo: condition.valueTo || "",
+      })),
+      splits: rule.splits.map((split: any) => ({
+        accountId: String(split.accountId),
+        splitType: split.splitType,
+        amount: String(parseFloat(split.amount)),
+        memo: split.memo || "",
+      })),
+      projectId: rule.projectId ? String(rule.projectId) : "",
+      locationId: rule.locationId ? String(rule.locationId) : "",
+      classId: rule.classId ? String(rule.classId) : "",
+      payeeContactId: rule.payeeContactId ? String(rule.payeeContactId) : "",
+      excludeAsTransfer: rule.excludeAsTransfer,
+    });
+    setIsDialogOpen(true);
+  };
+
+  const moveRule = (index: number, offset: number) => {
+    const ruleIds = rules.map((rule) => rule.id);
+    const [moved] = ruleIds.splice(index, 1);
+    ruleIds.splice(index + offset, 0, moved);
+    reorderMutation.mutate(ruleIds);
+  };
+
+  const accountName = (accountId: number) =>
+    accounts.find((account: any) => account.id === accountId)?.name || `Account ${accountId}`;
+
+  const describeCondition = (condition: any) => {
+    const label = CONDITION_FIELDS.find((field) => field.value === condition.field)?.label || condition.field;
+    const value =
+      condition.field === "bank_account"
+        ? accountName(parseInt(condition.value))
+        : condition.operator === "between"
+          ? `${condition.value} and ${condition.valueTo}`
+          : condition.value;
+    return `${label} ${OPERATOR_LABELS[condition.operator] || condition.operator} ${value}`;
+  };
+
+  const describeActions = (rule: any) => {
+    const actions: string[] = [];
+    if (rule.excludeAsTransfer) actions.push("Exclude as transfer");
+    for (const split of rule.splits) {
+      const amount = parseFloat(split.amount);
+      actions.push(
+        `${accountName(split.accountId)} ${split.splitType === "percent" ? `${amount}%` : `$${amount.toFixed(2)}`}`
+      );
+    }
+    if (rule.projectId) actions.push(`Project: ${projects.find((p: any) => p.id === rule.projectId)?.name || rule.projectId}`);
+    if (rule.locationId) actions.push(`Location: ${locations.find((l: any) => l.id === rule.locationId)?.name || rule.locationId}`);
+    if (rule.classId) actions.push(`Class: ${classes.find((c: any) => c.id === rule.classId)?.name || rule.classId}`);
+    if (rule.payeeContactId) actions.push(`Payee: ${vendors.find((v: any) => v.id === rule.payeeContactId)?.name || rule.payeeContactId}`);
+    return actions;
+  };
+
+  const excludeAsTransfer = form.watch("excludeAsTransfer");
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle>Compound Rules</CardTitle>
+          <CardDescription>
+            Multi-condition rules with splits and tags, evaluated top to bottom before pattern rules
+          </CardDescription>
+        </div>
+        <Button size="sm" onClick={handleCreate}>
+          <Plus className="w-4 h-4 mr-2" />
+          New Compound Rule
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="space-y-4">
+            {[1, 2].map((i) => (
+              <Skeleton key={i} className="h-16" />
+            ))}
+          </div>
+        ) : rules.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-20">Order</TableHead>
+                <TableHead>Rule Name</TableHead>
+                <TableHead>Conditions</TableHead>
+                <TableHead>Actions</TableHead>
+                <TableHead>Matches</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rules.map((rule: any, index: number) => (
+                <TableRow key={rule.id}>
+                  <TableCell>
+                    <div className="flex items-center gap-1">
+                      <span className="text-sm text-muted-foreground w-4">{index + 1}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === 0 || reorderMutation.isPending}
+                        onClick={() => moveRule(index, -1)}
+                      >
+                        <ArrowUp className="w-3 h-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={index === rules.length - 1 || reorderMutation.isPending}
+                        onClick={() => moveRule(index, 1)}
+                      >
+                        <ArrowDown className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <p className="font-medium">{rule.name}</p>
+                    {rule.description && (
+                      <p className="text-sm text-muted-foreground">{rule.description}</p>
+                    )}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {rule.conditions.map((condition: any, conditionIndex: number) => (
+                        <React.Fragment key={condition.id}>
+                          {conditionIndex > 0 && (
+                            <span className="text-xs text-muted-foreground uppercase">
+                              {rule.conditionLogic === "any" ? "or" : "and"}
+                            </span>
+                          )}
+                          <Badge variant="outline" className="text-xs">
+                            {describeCondition(condition)}
+                          </Badge>
+                        </React.Fragment>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-wrap gap-1">
+                      {describeActions(rule).map((action) => (
+                        <Badge key={action} variant="secondary" className="text-xs">
+                          {action}
+                        </Badge>
+                      ))}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant="outline">{rule.matchCount || 0}</Badge>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={rule.isActive ? "default" : "secondary"}>
+                        {rule.isActive ? "Active" : "Inactive"}
+                      </Badge>
+                      {rule.stopProcessing && (
+                        <Badge variant="outline" className="text-xs">Stop</Badge>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center gap-2">
+                      <Button variant="ghost" size="sm" onClick={() => handleEdit(rule)}>
+                        <Edit className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => deleteRuleMutation.mutate(rule.id)}
+                        disabled={deleteRuleMutation.isPending}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        ) : (
+          <div className="text-center py-8">
+            <Layers className="w-10 h-10 text-muted-foreground mx-auto mb-3" />
+            <p className="text-muted-foreground">
+              No compound rules yet. Combine conditions, split across accounts and tag transactions.
+            </p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={(open) => (open ? setIsDialogOpen(true) : closeDialog())}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedRule ? "Edit Compound Rule" : isConverting ? "Convert to Compound Rule" : "New Compound Rule"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit((data) => saveRuleMutation.mutate(data))} className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="name"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Rule Name</FormLabel>
+                      <FormControl>
+                        <Input placeholder="e.g., Monthly rent" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="description"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Description</FormLabel>
+                      <FormControl>
+                        <Input placeholder="Optional" {...field} />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              {/* Conditions */}
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <FormField
+                    control={form.control}
+                    name="conditionLogic"
+                    render={({ field }) => (
+                      <FormItem className="flex items-center gap-2 space-y-0">
+                        <FormLabel className="text-base">Match</FormLabel>
+                        <FormControl>
+                          <select value={field.value} onChange={field.onChange} className={`${selectClassName} w-48`}>
+                            <option value="all">all conditions (AND)</option>
+                            <option value="any">any condition (OR)</option>
+                          </select>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => conditionFields.append({ field: "description", operator: "contains", value: "", valueTo: "" })}
+                  >
+                    <Plus className="w-4 h-4 mr-1" />
+                    Condition
+                  </Button>
+                </div>
+
+                {conditionFields.fields.map((item, index) => {
+                  const field = form.watch(`conditions.${index}.field`);
+                  const operator = form.watch(`conditions.${index}.operator`);
+                  return (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-start">
+                      <select
+                        className={`${selectClassName} col-span-3`}
+                        {...form.register(`conditions.${index}.field`, {
+                          onChange: (e) => {
+                            form.setValue(`conditions.${index}.operator`, FIELD_OPERATORS[e.target.value][0]);
+                            form.setValue(`conditions.${index}.value`, e.target.value === "direction" ? "debit" : "");
+                          },
+                        })}
+                      >
+                        {CONDITION_FIELDS.map((option) => (
+                          <option key={option.value} value={option.value}>
+                            {option.label}
+                          </option>
+                        ))}
+                      </select>
+                      <select className={`${selectClassName} col-span-3`} {...form.register(`conditions.${index}.operator`)}>
+                        {(FIELD_OPERATORS[field] || []).map((op) => (
+                          <option key={op} value={op}>
+                            {OPERATOR_LABELS[op]}
+                          </option>
+                        ))}
+                      </select>
+                      <div className={operator === "between" ? "col-span-2" : "col-span-5"}>
+                        {field === "direction" ? (
+                          <select className={selectClassName} {...form.register(`conditions.${index}.value`)}>
+                            <option value="debit">Money out (debit)</option>
+                            <option value="credit">Money in (credit)</option>
+                          </select>
+                        ) : field === "bank_account" ? (
+                          <select className={selectClassName} {...form.register(`conditions.${index}.value`)}>
+                            <option value="">Select bank account</option>
+                            {(bankAccounts.length > 0 ? bankAccounts : accounts).map((account: any) => (
+                              <option key={account.id} value={String(account.id)}>
+                                {account.name} ({account.number})
+                              </option>
+                            ))}
+                          </select>
+                        ) : (
+                          <Input
+                            type={["amount", "day_of_month"].includes(field) ? "number" : "text"}
+                            step={field === "amount" ? "0.01" : "1"}
+                            placeholder={field === "day_of_month" ? "1-31" : "Value"}
+                            {...form.register(`conditions.${index}.value`)}
+                          />
+                        )}
+                      </div>
+                      {operator === "between" && (
+                        <Input
+                          className="col-span-3"
+                          type="number"
+                          step={field === "amount" ? "0.01" : "1"}
+                          placeholder="and"
+                          {...form.register(`conditions.${index}.valueTo`)}
+                        />
+                      )}
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="col-span-1"
+                        disabled={conditionFields.fields.length === 1}
+                        onClick={() => conditionFields.remove(index)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+                <FormMessage>{form.formState.errors.conditions?.message}</FormMessage>
+              </div>
+
+              {/* Splits */}
+              <FormField
+                control={form.control}
+                name="excludeAsTransfer"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">Exclude as transfer</FormLabel>
+                      <FormDescription>
+                        Matching transactions are excluded instead of categorized
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              {!excludeAsTransfer && (
+                <div className="space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <FormLabel className="text-base">Split across accounts</FormLabel>
+                      <p className="text-sm text-muted-foreground">
+                        Fixed amounts come off first; percentages share the rest and must total 100%
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      variant="outline"
+                      size="sm"
+                      onClick={() => splitFields.append({ accountId: "", splitType: "percent", amount: "", memo: "" })}
+                    >
+                      <Plus className="w-4 h-4 mr-1" />
+                      Split
+                    </Button>
+                  </div>
+                  {splitFields.fields.map((item, index) => (
+                    <div key={item.id} className="grid grid-cols-12 gap-2 items-start">
+                      <select className={`${selectClassName} col-span-5`} {...form.register(`splits.${index}.accountId`)}>
+                        <option value="">Select account</option>
+                        {accounts.map((account: any) => (
+                          <option key={account.id} value={String(account.id)}>
+                            {account.name} ({account.number})
+                          </option>
+                        ))}
+                      </select>
+                      <select className={`${selectClassName} col-span-2`} {...form.register(`splits.${index}.splitType`)}>
+                        <option value="percent">%</option>
+                        <option value="fixed">$</option>
+                      </select>
+                      <Input className="col-span-2" type="number" step="0.01" {...form.register(`splits.${index}.amount`)} />
+                      <Input className="col-span-2" placeholder="Memo" {...form.register(`splits.${index}.memo`)} />
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="col-span-1"
+                        onClick={() => splitFields.remove(index)}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {/* Tags and payee */}
+              <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+                {([
+                  ["projectId", "Project", projects],
+                  ["locationId", "Location", locations],
+                  ["classId", "Class", classes],
+                  ["payeeContactId", "Payee", vendors],
+                ] as const).map(([name, label, options]) => (
+                  <FormField
+                    key={name}
+                    control={form.control}
+                    name={name}
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>{label}</FormLabel>
+                        <FormControl>
+                          <select value={field.value || ""} onChange={field.onChange} className={selectClassName}>
+                            <option value="">None</option>
+                            {options.map((option: any) => (
+                              <option key={option.id} value={String(option.id)}>
+                                {option.name || option.displayName}
+                              </option>
+                            ))}
+                          </select>
+                        </FormControl>
+                      </FormItem>
+                    )}
+                  />
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="stopProcessing"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Stop processing</FormLabel>
+                        <FormDescription>Later rules are skipped when this one matches</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+                <FormField
+                  control={form.control}
+                  name="isActive"
+                  render={({ field }) => (
+                    <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                      <div className="space-y-0.5">
+                        <FormLabel className="text-base">Active Rule</FormLabel>
+                        <FormDescription>Inactive rules are not applied</FormDescription>
+                      </div>
+                      <FormControl>
+                        <Switch checked={field.value} onCheckedChange={field.onChange} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={closeDialog}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={saveRuleMutation.isPending}>
+                  {selectedRule ? "Update Rule" : "Create Rule"}
+                </Button>
+              </DialogFooter>
+            </form>
+          </Form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -20,6 +20,7 @@ import {
   Users,
   FileCheck,
   Building,
+  Layers,
   Moon,
   Sun,
   Bell,
@@ -104,7 +105,9 @@ export function ModernSidebar({
         { id: "accounts", label: "Chart of Accounts", icon: FileText },
         { id: "journal-entries", label: "Journal Entries", icon: FileText },
         { id: "transaction-manager", label: "Transaction Manager", icon: CreditCard },
+        { id: "fixed-assets", label: "Fixed Assets", icon: Building },
         { id: "reporting", label: "Financial Reports", icon: BarChart3 },
+        { id: "consolidation", label: "Consolidation", icon: Layers },
       ]
     },
     {
@@ -35,6 +35,7 @@ import {
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 import ReceiptClassificationPanel from './ReceiptClassificationPanel';
+import ReceiptMatchQueue from './ReceiptMatchQueue';
 import { apiConfig } from "@/lib/api-config";
 import { 
 
@@ -660,6 +661,9 @@ export default function ReceiptManager({ clientId, transactionId, onReceiptMatch
           )}
         </CardContent>
       </Card>
+
+      {/* Matching to bank and card transactions */}
+      {!transactionId && <ReceiptMatchQueue clientId={clientId} receipts={receipts} />}
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,292 @@
+/**
+ * Receipt Match Queue
+ *
+ * Sends processed receipts' OCR fields for matching against the client's
+ * unreconciled transactions, and shows the outcome:
+ * - receipts awaiting their transaction, with the closest candidates to attach
+ * - receipts attached to a transaction, with the GST/HST that prefilled its
+ *   input tax credit
+ */
+
+import { useEffect, useRef } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Clock, Link, RefreshCw, Unlink, XCircle } from 'lucide-react';
+
+export interface ReceiptMatchCandidate {
+  transactionId: number;
+  date: string;
+  description: string;
+  amount: number;
+  score: number;
+  reasons: string[];
+}
+
+export interface ReceiptMatchRecord {
+  id: number;
+  receiptId: string;
+  fileName: string | null;
+  vendor: string | null;
+  receiptDate: string | null;
+  totalAmount: string | null;
+  gstAmount: string;
+  hstAmount: string;
+  pstAmount: string;
+  qstAmount: string;
+  otherTaxAmount: string;
+  status: 'awaiting_transaction' | 'matched' | 'dismissed';
+  transactionId: number | null;
+  matchMethod: 'auto' | 'manual' | null;
+  matchScore: number | null;
+  itcPrefilledAmount: string | null;
+  candidates: ReceiptMatchCandidate[];
+  inputTaxCredit: number;
+}
+
+interface ProcessedReceipt {
+  id: string;
+  filename: string;
+  processingStatus: string;
+  extractedData?: any;
+}
+
+interface ReceiptMatchQueueProps {
+  clientId: number;
+  // Receipts from the receipt list; processed ones are sent for matching once
+  receipts: ProcessedReceipt[];
+}
+
+const formatMoney = (value: string | number | null) =>
+  value === null ? '-' : `$${Number(value).toFixed(2)}`;
+
+export default function ReceiptMatchQueue({ clientId, receipts }: ReceiptMatchQueueProps) {
+  const { toast } = useToast();
+  const submitted = useRef(new Set<string>());
+  const matchesKey = [`/api/receipt-matching/${clientId}/receipts`];
+
+  const { data, isLoading } = useQuery<{ receipts: ReceiptMatchRecord[] }>({
+    queryKey: matchesKey,
+    enabled: !!clientId,
+  });
+  const records = data?.receipts || [];
+  const awaiting = records.filter(record => record.status === 'awaiting_transaction');
+  const matched = records.filter(record => record.status === 'matched');
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: matchesKey });
+    queryClient.invalidateQueries({ queryKey: ['/api/transactions', clientId] });
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith(`/api/receipt-matching/${clientId}/transactions/`),
+    });
+  };
+  const onError = (error: Error) => {
+    toast({ title: 'Receipt matching failed', description: error.message, variant: 'destructive' });
+  };
+
+  const recordMutation = useMutation({
+    mutationFn: (toRecord: ProcessedReceipt[]) =>
+      apiRequest('POST', `/api/receipt-matching/${clientId}/receipts`, {
+        receipts: toRecord.map(receipt => ({
+          receiptId: String(receipt.id),
+          fileName: receipt.filename,
+          extractedData: receipt.extractedData || null,
+        })),
+      }).then(res => res.json()),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const retryMutation = useMutation({
+    mutationFn: () => apiRequest('POST', `/api/receipt-matching/${clientId}/match-awaiting`).then(res => res.json()),
+    onSuccess: (result: { matched: number; awaiting: number }) => {
+      toast({
+        title: 'Receipts checked',
+        description: `${result.matched} matched, ${result.awaiting} still awaiting a transaction`,
+      });
+      onChanged();
+    },
+    onError,
+  });
+
+  const matchMutation = useMutation({
+    mutationFn: ({ receiptId, transactionId }: { receiptId: string; transactionId: number }) =>
+      apiRequest('POST', `/api/receipt-matching/${clientId}/receipts/${encodeURIComponent(receiptId)}/match`, {
+        transactionId,
+      }).then(res => res.json()),
+    onSuccess: (record: ReceiptMatchRecord) => {
+      toast({
+        title: 'Receipt attached',
+        description: record.itcPrefilledAmount
+          ? `Input tax credit of ${formatMoney(record.itcPrefilledAmount)} prefilled on the transaction`
+          : 'Receipt attached to the transaction as evidence',
+      });
+      onChanged();
+    },
+    onError,
+  });
+
+  const unmatchMutation = useMutation({
+    mutationFn: (receiptId: string) =>
+      apiRequest('POST', `/api/receipt-matching/${clientId}/receipts/${encodeURIComponent(receiptId)}/unmatch`).then(res => res.json()),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (receiptId: string) =>
+      apiRequest('POST', `/api/receipt-matching/${clientId}/receipts/${encodeURIComponent(receiptId)}/dismiss`).then(res => res.json()),
+    onSuccess: onChanged,
+    onError,
+  });
+
+  // Send newly processed receipts for matching
+  useEffect(() => {
+    if (isLoading || recordMutation.isPending) return;
+    const known = new Set(records.map(record => record.receiptId));
+    const fresh = receipts.filter(receipt =>
+      receipt.processingStatus === 'processed' &&
+      receipt.extractedData &&
+      !known.has(String(receipt.id)) &&
+      !submitted.current.has(String(receipt.id))
+    );
+    if (fresh.length === 0) return;
+    fresh.forEach(receipt => submitted.current.add(String(receipt.id)));
+    recordMutation.mutate(fresh);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [receipts, records, isLoading]);
+
+  const taxSummary = (record: ReceiptMatchRecord) => {
+    const parts = [
+      ['GST', record.gstAmount],
+      ['HST', record.hstAmount],
+      ['PST', record.pstAmount],
+      ['QST', record.qstAmount],
+      ['Tax', record.otherTaxAmount],
+    ].filter(([, amount]) => Number(amount) > 0);
+    return parts.length ? parts.map(([label, amount]) => `${label} ${formatMoney(amount)}`).join(', ') : 'No tax read';
+  };
+
+  const receiptHeading = (record: ReceiptMatchRecord) => (
+    <div>
+      <div className="font-medium">{record.vendor || record.fileName || 'Receipt'}</div>
+      <div className="text-sm text-muted-foreground">
+        {record.receiptDate || 'No date read'} · {formatMoney(record.totalAmount)} · {taxSummary(record)}
+      </div>
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle>Receipt Matching</CardTitle>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => retryMutation.mutate()}
+          disabled={retryMutation.isPending || awaiting.length === 0}
+        >
+          <RefreshCw className={`h-4 w-4 mr-2 ${retryMutation.isPending ? 'animate-spin' : ''}`} />
+          Check Again
+        </Button>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue="awaiting">
+          <TabsList>
+            <TabsTrigger value="awaiting">Awaiting Transaction ({awaiting.length})</TabsTrigger>
+            <TabsTrigger value="matched">Matched ({matched.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="awaiting" className="space-y-3">
+            {awaiting.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No receipts are waiting for a transaction.</p>
+            ) : awaiting.map(record => (
+              <div key={record.id} className="border rounded p-3 space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  {receiptHeading(record)}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => dismissMutation.mutate(record.receiptId)}
+                    disabled={dismissMutation.isPending}
+                    title="No transaction will come for this receipt"
+                  >
+                    <XCircle className="h-4 w-4 mr-1" />
+                    Dismiss
+                  </Button>
+                </div>
+                {!record.receiptDate || !record.totalAmount ? (
+                  <p className="text-xs text-orange-700">The date or total could not be read, so this receipt cannot be matched automatically.</p>
+                ) : record.candidates.length === 0 ? (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <Clock className="h-3 w-3" />
+                    No transaction for this amount yet; it will be matched when one is imported.
+                  </p>
+                ) : (
+                  <div className="space-y-1">
+                    {record.candidates.map(candidate => (
+                      <div key={candidate.transactionId} className="flex items-center justify-between text-sm bg-muted/40 rounded px-2 py-1">
+                        <div>
+                          <span className="font-medium">{candidate.description}</span>
+                          <span className="text-muted-foreground ml-2">
+                            {candidate.date} · {formatMoney(Math.abs(candidate.amount))}
+                          </span>
+                          <Badge variant="outline" className="ml-2" title={candidate.reasons.join('\n')}>
+                            {candidate.score}%
+                          </Badge>
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => matchMutation.mutate({ receiptId: record.receiptId, transactionId: candidate.transactionId })}
+                          disabled={matchMutation.isPending}
+                        >
+                          <Link className="h-4 w-4 mr-1" />
+                          Attach
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            ))}
+          </TabsContent>
+
+          <TabsContent value="matched" className="space-y-2">
+            {matched.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No receipts have been matched yet.</p>
+            ) : matched.map(record => (
+              <div key={record.id} className="border rounded p-3 flex items-start justify-between gap-2">
+                <div className="space-y-1">
+                  {receiptHeading(record)}
+                  <div className="flex items-center gap-2 text-xs">
+                    <Badge variant={record.matchMethod === 'auto' ? 'secondary' : 'default'}>
+                      {record.matchMethod === 'auto' ? `Auto-matched (${record.matchScore}%)` : 'Matched manually'}
+                    </Badge>
+                    <span className="text-muted-foreground">Transaction #{record.transactionId}</span>
+                    {record.itcPrefilledAmount && (
+                      <span className="text-green-700">ITC prefilled {formatMoney(record.itcPrefilledAmount)}</span>
+                    )}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => unmatchMutation.mutate(record.receiptId)}
+                  disabled={unmatchMutation.isPending}
+                >
+                  <Unlink className="h-4 w-4 mr-1" />
+                  Unmatch
+                </Button>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -15,6 +15,7 @@ import { Progress } from '@/components/ui/progress';
 import { Separator } from '@/components/ui/separator';
 import { FileDropZone } from '@/components/FileDropZone';
 import { apiConfig } from "@/lib/api-config";
+import { useLocation } from 'wouter';
 import { 
 
   Upload, 
@@ -51,6 +52,7 @@ interface ReconciliationItem {
 export default function ReconciliationTab({ clientId }: ReconciliationTabProps) {
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const [, setLocation] = useLocation();
   const [selectedAccount, setSelectedAccount] = useState<string>('');
   const [reconciliationPeriod, setReconciliationPeriod] = useState('current-month');
   const [statementBalance, setStatementBalance] = useState('');
@@ -78,25 +80,6 @@ export default function ReconciliationTab({ clientId }: ReconciliationTabProps)
     queryFn: () => fetch(apiConfig.buildUrl(`/api/reconciliation/stats?clientId=${clientId}`)).then(res => res.json()),
   });
 
-  // Auto-match mutation
-  const autoMatchMutation = useMutation({
-    mutationFn: () => fetch('/api/reconciliation/auto-match', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ clientId, accountId: selectedAccount, period: reconciliationPeriod })
-    }).then(res => res.json()),
-    onSuccess: (data) => {
-      toast({ 
-        title: `Auto-matched ${data.matchedCount} transactions`,
-        description: "Review and approve the suggested matches"
-      });
-      refetchReconciliation();
-    },
-    onError: () => {
-      toast({ title: "Failed to auto-match transactions", variant: "destructive" });
-    }
-  });
-
   // Complete reconciliation mutation
   const completeReconciliationMutation = useMutation({
     mutationFn: () => fetch(apiConfig.buildUrl('/api/reconciliation/complete'), {
@@ -212,12 +195,10 @@ export default function ReconciliationTab({ clientId }: ReconciliationTabProps)
             <Upload className="w-4 h-4 mr-2" />
             Import Statement
           </Button>
-          <Button 
-            onClick={() => autoMatchMutation.mutate()} 
-            disabled={autoMatchMutation.isPending || !selectedAccount}
-          >
+          {/* Matching runs per statement session, with tolerances and reviewable proposals */}
+          <Button onClick={() => setLocation(`/reconcile/${clientId}`)}>
             <Bot className="w-4 h-4 mr-2" />
-            Auto-Match
+            Match Review
           </Button>
           <Button 
             onClick={() => completeReconciliationMutation.mutate()} 
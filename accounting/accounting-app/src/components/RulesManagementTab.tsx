@@ -62,10 +62,12 @@ import {
   Settings,
   TrendingUp,
   Activity,
+  Layers,
 } from "lucide-react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
+import CompoundRulesCard from "./CompoundRulesCard";
 
 interface RulesManagementTabProps {
   clientId: number;
@@ -107,6 +109,8 @@ export default function RulesManagementTab({
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedRule, setSelectedRule] = useState<any>(null);
   const [isRecommendationsOpen, setIsRecommendationsOpen] = useState(false);
+  const [convertRule, setConvertRule] = useState<any>(null);
+  const [applyPreview, setApplyPreview] = useState<any>(null);
 
   const form = useForm<RuleFormData>({
     resolver: zodResolver(ruleFormSchema),
@@ -244,6 +248,21 @@ export default function RulesManagementTab({
     },
   });
 
+  // Dry run of the compound rules, shown for review before anything is posted
+  const previewRulesMutation = useMutation({
+    mutationFn: () =>
+      fetch(apiConfig.buildUrl("/api/rules/apply"), {
+        method: "POST",
+        headers,
+        credentials: 'include',
+        body: JSON.stringify({ clientId, dryRun: true }),
+      }).then((res) => res.json()),
+    onSuccess: (data: any) => setApplyPreview(data),
+    onError: () => {
+      toast({ title: "Failed to preview rules", variant: "destructive" });
+    },
+  });
+
   // Apply rules mutation with auto-classification
   const applyRulesMutation = useMutation({
     mutationFn: () => {
@@ -273,11 +292,15 @@ export default function RulesManagementTab({
     },
     onSuccess: (data: any) => {
       console.log("🔥 APPLY RULES SUCCESS:", data);
+      // The response comes from the pattern rules; compound rules were posted first
+      const compoundCount = applyPreview?.matchedCount || 0;
+      setApplyPreview(null);
       toast({
-        title: `Auto-classified ${data.appliedCount || 0} transactions!`,
+        title: `Auto-classified ${(data.appliedCount || 0) + compoundCount} transactions!`,
         description: "Rules applied and journal entries created automatically.",
       });
       queryClient.invalidateQueries({ queryKey: ["/api/rules"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/rules/compound"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
     },
     onError: (error: any) => {
@@ -373,8 +396,8 @@ export default function RulesManagementTab({
             Get AI Suggestions
           </Button>
           <Button
-            onClick={() => applyRulesMutation.mutate()}
-            disabled={applyRulesMutation.isPending}
+            onClick={() => previewRulesMutation.mutate()}
+            disabled={previewRulesMutation.isPending || applyRulesMutation.isPending}
           >
             <Play className="w-4 h-4 mr-2" />
             Apply Rules
@@ -446,11 +469,21 @@ export default function RulesManagementTab({
         </TabsList>
 
         <TabsContent value="rules" className="space-y-6">
+          <CompoundRulesCard
+            clientId={clientId}
+            accounts={accounts}
+            convertFrom={convertRule}
+            onConverted={(legacyRule) => {
+              deleteRuleMutation.mutate(legacyRule.id);
+              setConvertRule(null);
+            }}
+          />
+
           <Card>
             <CardHeader>
-              <CardTitle>Transaction Rules</CardTitle>
+              <CardTitle>Pattern Rules</CardTitle>
               <CardDescription>
-                Manage automatic categorization rules for your transactions
+                Single-pattern rules, applied after compound rules to whatever is still uncategorized
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -555,6 +588,14 @@ export default function RulesManagementTab({
                               >
                                 <Edit className="w-4 h-4" />
                               </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                title="Convert to compound rule"
+                                onClick={() => setConvertRule({ ...rule })}
+                              >
+                                <Layers className="w-4 h-4" />
+                              </Button>
                               <Button
                                 variant="ghost"
                                 size="sm"
@@ -881,6 +922,102 @@ export default function RulesManagementTab({
         </DialogContent>
       </Dialog>
 
+      {/* Apply Rules Preview Dialog */}
+      <Dialog
+        open={!!applyPreview}
+        onOpenChange={(open) => !open && setApplyPreview(null)}
+      >
+        <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Review Rule Changes</DialogTitle>
+          </DialogHeader>
+
+          {applyPreview && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                Compound rules would change {applyPreview.matchedCount} of{" "}
+                {applyPreview.transactionsEvaluated} uncategorized transactions
+                {applyPreview.skippedCount > 0 &&
+                  ` (${applyPreview.skippedCount} skipped)`}
+                . Pattern rules then run on the rest.
+              </p>
+
+              {applyPreview.rules?.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {applyPreview.rules.map((summary: any) => (
+                    <Badge key={summary.ruleId} variant="outline">
+                      {summary.name}: {summary.matchCount}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+
+              {applyPreview.changes?.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Date</TableHead>
+                      <TableHead>Description</TableHead>
+                      <TableHead className="text-right">Amount</TableHead>
+                      <TableHead>Rules</TableHead>
+                      <TableHead>Change</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {applyPreview.changes.map((change: any) => (
+                      <TableRow key={change.transactionId}>
+                        <TableCell className="whitespace-nowrap">{change.date}</TableCell>
+                        <TableCell>{change.description}</TableCell>
+                        <TableCell className="text-right">
+                          {change.direction === "debit" ? "-" : ""}$
+                          {change.amount.toFixed(2)}
+                        </TableCell>
+                        <TableCell>
+                          {change.matchedRules.map((rule: any) => rule.name).join(", ")}
+                        </TableCell>
+                        <TableCell>
+                          {change.skippedReason ? (
+                            <span className="text-sm text-destructive">
+                              {change.skippedReason}
+                            </span>
+                          ) : change.excludeAsTransfer ? (
+                            <Badge variant="secondary">Exclude as transfer</Badge>
+                          ) : (
+                            <div className="space-y-1 text-sm">
+                              {change.allocations.map((allocation: any) => (
+                                <div key={allocation.accountId}>
+                                  {allocation.accountName}: ${allocation.amount.toFixed(2)}
+                                </div>
+                              ))}
+                              {change.allocations.length === 0 && (
+                                <span className="text-muted-foreground">Tags only</span>
+                              )}
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplyPreview(null)}>
+              Cancel
+            </Button>
+            <Button
+              onClick={() => applyRulesMutation.mutate()}
+              disabled={applyRulesMutation.isPending}
+            >
+              <Play className="w-4 h-4 mr-2" />
+              Apply Rules
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* AI Recommendations Dialog */}
       <Dialog
         open={isRecommendationsOpen}
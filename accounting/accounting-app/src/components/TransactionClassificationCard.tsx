@@ -16,8 +16,9 @@ import { Alert, AlertDescription } from '@/components/ui/alert';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
-import { useQueryClient } from '@tanstack/react-query';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
 import { apiConfig } from "@/lib/api-config";
+import type { ReceiptMatchRecord } from "@/components/ReceiptMatchQueue";
 import { AccountDropdown } from '@/components/ui/AccountDropdown';
 import { 
 
@@ -142,6 +143,13 @@ export default function TransactionClassificationCard({
   const isMoneyOut = editedTransaction.creditAmount > 0 || editedTransaction.amount < 0;
   const transactionAmount = Math.abs(editedTransaction.debitAmount || editedTransaction.creditAmount || editedTransaction.amount || 0);
 
+  // Receipt attached to this transaction; its GST/HST replaces the rate-based split
+  const { data: receiptMatchData } = useQuery<{ receipts: ReceiptMatchRecord[] }>({
+    queryKey: [`/api/receipt-matching/${clientId}/transactions/${transaction.id}`],
+    enabled: !!clientId && !!transaction.id,
+  });
+  const matchedReceipt = receiptMatchData?.receipts?.[0] || null;
+
   // Load supporting data
   useEffect(() => {
     loadSupportingData();
@@ -213,7 +221,7 @@ export default function TransactionClassificationCard({
     // Note: This effect depends on editedTransaction.id to ensure it runs when switching transactions
     // even if the tax code is the same as the previous transaction
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [editedTransaction.taxCode, transactionAmount, taxSettings.length, isLoadingTaxSettings, editedTransaction.id]);
+  }, [editedTransaction.taxCode, transactionAmount, taxSettings.length, isLoadingTaxSettings, editedTransaction.id, matchedReceipt?.id]);
 
   // Load split data when transaction ID is available
   useEffect(() => {
@@ -1151,8 +1159,12 @@ export default function TransactionClassificationCard({
     console.log('🧮 calculateHST called - taxCode:', taxCode, 'selectedTaxSetting:', selectedTaxSetting, 'transactionAmount:', transactionAmount);
     
     if (selectedTaxSetting && selectedTaxSetting.rate > 0 && transactionAmount > 0) {
+      // The tax printed on a matched receipt beats a calculation from the rate
+      const receiptTax = matchedReceipt && matchedReceipt.inputTaxCredit > 0 && matchedReceipt.inputTaxCredit < transactionAmount
+        ? matchedReceipt.inputTaxCredit
+        : null;
       // Tax inclusive calculation (most common for Canadian businesses)
-      const netAmount = transactionAmount / (1 + selectedTaxSetting.rate);
+      const netAmount = receiptTax !== null ? transactionAmount - receiptTax : transactionAmount / (1 + selectedTaxSetting.rate);
       const taxAmount = transactionAmount - netAmount;
       
       console.log('🧮 HST Calculation:', {
@@ -1168,7 +1180,10 @@ export default function TransactionClassificationCard({
         hstAccountId: selectedTaxSetting.accountId,
         hstAccountName: selectedTaxSetting.name,
         taxRate: selectedTaxSetting.rate,
-        taxName: selectedTaxSetting.name
+        taxName: selectedTaxSetting.name,
+        fromReceipt: receiptTax !== null,
+        receiptGstAmount: receiptTax !== null ? parseFloat(matchedReceipt!.gstAmount) : undefined,
+        receiptHstAmount: receiptTax !== null ? parseFloat(matchedReceipt!.hstAmount) : undefined
       });
     } else if (taxCode === 'exempt') {
       console.log('🧮 Tax code is exempt, clearing HST calculation');
@@ -2456,6 +2471,12 @@ export default function TransactionClassificationCard({
               <div className="flex items-center gap-2 mb-2">
                 <Calculator className="h-4 w-4 text-blue-600" />
                 <span className="font-medium text-blue-800">HST Calculation</span>
+                {hstCalculation.fromReceipt && (
+                  <Badge variant="outline" className="text-xs">
+                    <Receipt className="h-3 w-3 mr-1" />
+                    From receipt
+                  </Badge>
+                )}
               </div>
               <div className="grid grid-cols-3 gap-2 text-sm">
                 <div className="text-center">
@@ -2471,6 +2492,11 @@ export default function TransactionClassificationCard({
                   <div className="font-medium text-xs">{hstCalculation.hstAccountName}</div>
                 </div>
               </div>
+              {hstCalculation.fromReceipt && (
+                <div className="text-xs text-muted-foreground mt-2">
+                  Input tax credit from {matchedReceipt?.vendor || 'the matched receipt'}: GST ${hstCalculation.receiptGstAmount?.toFixed(2)}, HST ${hstCalculation.receiptHstAmount?.toFixed(2)}
+                </div>
+              )}
             </div>
           )}
 
@@ -8,11 +8,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
 import { AccountDropdown } from "@/components/ui/AccountDropdown";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
-import { Plus, Upload, FileText, Calculator, Search, Filter, Calendar, ChevronDown, ChevronUp, Edit3, Trash2, DollarSign, Building, Users, TrendingUp, TrendingDown, X, AlertTriangle, History } from "lucide-react";
+import { Plus, Upload, FileText, Calculator, Search, Filter, Calendar, ChevronDown, ChevronUp, Edit3, Trash2, DollarSign, Building, Users, TrendingUp, TrendingDown, X, AlertTriangle, History, MessageCircleQuestion } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { useAuth } from "@/hooks/use-auth";
 import { apiRequest } from "@/lib/queryClient";
 import { apiConfig } from "@/lib/api-config";
+import { AskClientDialog, clientQuestionsKey, type AskClientTransaction } from "@/components/client-questions/AskClientDialog";
+import { ClientQuestionsPanel, type ClientQuestion } from "@/components/client-questions/ClientQuestionsPanel";
 
 // Utility function to format IDs to 5 digits
 const formatIdToFiveDigits = (id: number | string): string => {
@@ -53,6 +55,8 @@ interface TransactionGroup {
   totalDebit: string;
   totalCredit: string;
   isBalanced: boolean;
+  // Bank or imported transaction the entry was posted from
+  sourceTransactionId: number | null;
   transactions: Transaction[];
 }
 
@@ -65,6 +69,7 @@ export default function TransactionLedger({ clientId, showAllEntries = false }:
   const [editingDescription, setEditingDescription] = useState<string>('');
   const [editingDate, setEditingDate] = useState<string>('');
   const [historyEntryId, setHistoryEntryId] = useState<number | null>(null);
+  const [askClientFor, setAskClientFor] = useState<AskClientTransaction[]>([]);
   const [accountSearch, setAccountSearch] = useState("");
   const [filterAccount, setFilterAccount] = useState<string>("");
   const [filterType, setFilterType] = useState<string>("");
@@ -427,6 +432,17 @@ export default function TransactionLedger({ clientId, showAllEntries = false }:
 
   const accounts = accountsData?.accounts || [];
 
+  // Questions asked to the client, to flag entries still waiting on an answer
+  const { data: questionsData } = useQuery<{ questions: ClientQuestion[] }>({
+    queryKey: clientQuestionsKey(clientId),
+    enabled: !!clientId
+  });
+  const pendingQuestions = new Map(
+    (questionsData?.questions || [])
+      .filter(question => question.status === 'open' || question.status === 'answered')
+      .map(question => [question.transactionId, question])
+  );
+
   // Fetch audit history for selected journal entry
   const { data: historyData } = useQuery({
     queryKey: [`/api/journal-entries/${historyEntryId}/history`, historyEntryId],
@@ -504,6 +520,7 @@ export default function TransactionLedger({ clientId, showAllEntries = false }:
       totalDebit: totalDebit.toString(),
       totalCredit: totalCredit.toString(),
       isBalanced: Math.abs(totalDebit - totalCredit) < 0.01,
+      sourceTransactionId: entry.sourceTransactionId ?? null,
       transactions: lines.map((line: any) => ({
         id: line.id,
         transactionGroupId: formatIdToFiveDigits(entry.id),
@@ -711,6 +728,8 @@ export default function TransactionLedger({ clientId, showAllEntries = false }:
         </div>
       </div>
 
+      <ClientQuestionsPanel clientId={clientId} accounts={accounts} />
+
       {/* Compact Filters */}
       <div className="flex flex-wrap items-center gap-3 p-4 bg-gray-50 rounded-lg border">
         <div className="flex-1 min-w-[200px]">
@@ -848,6 +867,11 @@ export default function TransactionLedger({ clientId, showAllEntries = false }:
                           group.isBalanced ? 'bg-green-500' : 'bg-red-500'
                         }`} />
                         <span className="font-medium text-gray-900">{group.description}</span>
+                        {group.sourceTransactionId && pendingQuestions.has(group.sourceTransactionId) && (
+                          <span className="text-xs px-2 py-0.5 rounded bg-amber-100 text-amber-800">
+                            {pendingQuestions.get(group.sourceTransactionId)!.status === 'answered' ? 'Client answered' : 'Asked client'}
+                          </span>
+                        )}
                       </div>
                     </div>
                     <div className="w-24 text-right text-sm font-mono text-green-600">
@@ -857,6 +881,26 @@ export default function TransactionLedger({ clientId, showAllEntries = false }:
                       {formatCurrency(group.totalCredit)}
                     </div>
                     <div className="w-24 flex items-center gap-1">
+                      {group.sourceTransactionId && (
+                        <Button 
+                          variant="ghost" 
+                          size="sm" 
+                          className="h-6 w-6 p-0"
+                          disabled={pendingQuestions.has(group.sourceTransactionId)}
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            setAskClientFor([{
+                              id: group.sourceTransactionId!,
+                              description: group.description,
+                              date: group.transactionDate,
+                              amount: group.totalDebit
+                            }]);
+                          }}
+                          title="Ask client about this transaction"
+                        >
+                          <MessageCircleQuestion className="h-3 w-3" />
+                        </Button>
+                      )}
                       <Button 
                         variant="ghost" 
                         size="sm" 
@@ -1170,6 +1214,12 @@ export default function TransactionLedger({ clientId, showAllEntries = false }:
         />
       )}
       
+      <AskClientDialog
+        clientId={clientId}
+        transactions={askClientFor}
+        onClose={() => setAskClientFor([])}
+      />
+
       {/* History Dialog */}
       <Dialog open={historyEntryId !== null} onOpenChange={() => setHistoryEntryId(null)}>
         <DialogContent className="max-w-4xl max-h-[80vh] overflow-y-auto">
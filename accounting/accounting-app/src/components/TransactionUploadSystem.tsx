@@ -1,6 +1,7 @@
 /**
  * Intelligent Transaction Upload System
- * Account-specific CSV/Excel upload with automatic field detection and mapping
+ * Account-specific CSV/Excel upload with automatic field detection and mapping.
+ * OFX/QFX/QBO and CAMT statements arrive pre-mapped with FITIDs for duplicate detection.
  */
 
 import React, { useState, useRef } from 'react';
@@ -11,11 +12,23 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
 import { Upload, FileSpreadsheet, CheckCircle, AlertTriangle, Edit3, Download, Zap } from 'lucide-react';
 import { useQuery, useMutation } from '@tanstack/react-query';
 import { apiRequest, queryClient } from '@/lib/queryClient';
 import { useToast } from '@/hooks/use-toast';
 import { apiConfig } from '@/lib/api-config';
+import { hashFile } from '@/lib/file-hash';
+import { parseAmount, parseDateWithFormat, resolveProfileColumns } from '@/lib/import-format';
+import {
+  MappingProfilePanel,
+  DEFAULT_PROFILE_SETTINGS,
+  type MappingProfile,
+  type MappingProfileSettings,
+  type ProfileDetection
+} from '@/components/import/MappingProfilePanel';
 
 interface TransactionUploadSystemProps {
   clientId: string;
@@ -31,11 +44,32 @@ interface ParsedTransaction {
   amount: number;
   debitAmount?: number;
   creditAmount?: number;
+  fitId?: string;
+  isDuplicate?: boolean;
   originalData: any;
   isValid: boolean;
   errors: string[];
 }
 
+interface StatementSummary {
+  format: string;
+  accountNumber?: string;
+  currency?: string;
+  periodStart?: string;
+  periodEnd?: string;
+  openingBalance?: number;
+  closingBalance?: number;
+  transactionCount: number;
+}
+
+interface DuplicateScreenSummary {
+  total: number;
+  accepted: number;
+  skippedDuplicates: number;
+  queuedForReview: number;
+  forced: number;
+}
+
 interface ColumnMapping {
   date: number | null;
   description: number | null;
@@ -45,6 +79,24 @@ interface ColumnMapping {
   creditAmount: number | null;
 }
 
+interface SavedImportMapping {
+  headers: string[];
+  columnMapping: ColumnMapping;
+  amountDirection: 'positive-in' | 'positive-out';
+}
+
+const EMPTY_COLUMN_MAPPING: ColumnMapping = {
+  date: null,
+  description: null,
+  description2: null,
+  amount: null,
+  debitAmount: null,
+  creditAmount: null
+};
+
+// Import history keys saved mappings by the account the statement was uploaded to
+const mappingSourceName = (accountId: number | string) => `account-${accountId}`;
+
 export default function TransactionUploadSystem({ clientId, accounts, onUploadComplete }: TransactionUploadSystemProps) {
   const [selectedAccount, setSelectedAccount] = useState<any>(null);
   const [uploadFile, setUploadFile] = useState<File | null>(null);
@@ -60,6 +112,15 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
     creditAmount: null
   });
   const [amountDirection, setAmountDirection] = useState<'positive-in' | 'positive-out'>('positive-out');
+  const [statementSummary, setStatementSummary] = useState<StatementSummary | null>(null);
+  const [fitIdColumn, setFitIdColumn] = useState<number | null>(null);
+  const [duplicateFitIds, setDuplicateFitIds] = useState<string[]>([]);
+  const [forceDuplicates, setForceDuplicates] = useState(false);
+  const [forceReason, setForceReason] = useState('');
+  // Header row and everything below it as the server returned them
+  const [fileRows, setFileRows] = useState<any[][]>([]);
+  const [mappingProfile, setMappingProfile] = useState<ProfileDetection | null>(null);
+  const [profileSettings, setProfileSettings] = useState<MappingProfileSettings>(DEFAULT_PROFILE_SETTINGS);
   const [showMappingDialog, setShowMappingDialog] = useState(false);
   const [showReviewDialog, setShowReviewDialog] = useState(false);
   const [processing, setProcessing] = useState(false);
@@ -85,10 +146,13 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
         body: formData,
         credentials: 'include'
       });
-      if (!response.ok) throw new Error('Failed to parse file');
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.message || 'Failed to parse file');
+      }
       return response.json();
     },
-    onSuccess: (data) => {
+    onSuccess: async (data) => {
       console.log('File parse response:', data);
       setHeaders(data.headers || []);
       setParsedData(data.rows);
@@ -105,12 +169,47 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
       
       console.log('Applied server mapping suggestions:', serverMapping);
       setColumnMapping(serverMapping);
+      setFileRows([data.headers || [], ...(data.rows || [])]);
+
+      // A saved profile recognised from the header row has already been applied by the server
+      const detection: ProfileDetection | null = data.mappingProfile ?? null;
+      setMappingProfile(detection);
+      if (detection?.autoApplied) {
+        setProfileSettings({
+          dateFormat: detection.profile.dateFormat,
+          decimalSeparator: detection.profile.decimalSeparator,
+          headerRowOffset: detection.headerRowOffset
+        });
+        setAmountDirection(detection.profile.signConvention);
+      } else {
+        setProfileSettings(DEFAULT_PROFILE_SETTINGS);
+      }
+
+      // Reuse the mapping of the last import into this account when the file has the same layout
+      if (!data.statement && selectedAccount && !detection?.autoApplied) {
+        const saved = await apiRequest(
+          'GET',
+          `/api/import-batches/${clientId}/mapping?source=transactions&sourceName=${encodeURIComponent(mappingSourceName(selectedAccount.id))}`
+        )
+          .then(res => res.json())
+          .then(result => result.lastMapping?.mapping as SavedImportMapping | undefined)
+          .catch(() => undefined);
+        if (saved?.columnMapping && JSON.stringify(saved.headers) === JSON.stringify(data.headers || [])) {
+          setColumnMapping(saved.columnMapping);
+          setAmountDirection(saved.amountDirection || 'positive-out');
+          toast({ title: "Mapping reused", description: "Columns are mapped the same way as the last import into this account" });
+        }
+      }
+
+      setStatementSummary(data.statement ?? null);
+      setFitIdColumn(data.suggestions?.fitId ?? null);
+      setDuplicateFitIds(data.duplicateFitIds || []);
       setShowMappingDialog(true);
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "File parsing failed",
-        description: "Please check your file format and try again",
+        description: error.message || "Please check your file format and try again",
         variant: "destructive"
       });
     }
@@ -121,34 +220,59 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
   // Transaction import mutation
   const importTransactionsMutation = useMutation({
     mutationFn: async (transactions: ParsedTransaction[]) => {
-      const response = await apiRequest('POST', '/api/simple/bulk-import', {
-        clientId,
+      const rows = transactions.map(t => ({
+        date: t.date,
+        description: t.description + (t.description2 ? ` ${t.description2}` : ''),
+        debitAmount: t.debitAmount || 0,
+        creditAmount: t.creditAmount || 0,
+        category: 'Uncategorized',
         accountId: selectedAccount.id,
-        isBankStatement,
-        transactions: transactions.map(t => ({
-          date: t.date,
-          description: t.description + (t.description2 ? ` ${t.description2}` : ''),
-          debitAmount: t.debitAmount || 0,
-          creditAmount: t.creditAmount || 0,
-          category: 'Uncategorized',
-          accountId: selectedAccount.id,
-          importedFrom: uploadFile?.name
-        }))
-      });
-      return response.json();
+        referenceNumber: t.fitId,
+        importedFrom: uploadFile?.name
+      }));
+
+      // Imported as one batch so it shows in import history and can be rolled back.
+      // Repeats of ledger transactions are skipped or held for duplicate review.
+      const result = await apiRequest('POST', `/api/import-batches/${clientId}/transactions`, {
+        accountId: selectedAccount.id,
+        rows,
+        batch: {
+          fileName: uploadFile?.name,
+          fileHash: uploadFile ? await hashFile(uploadFile) : undefined,
+          sourceName: mappingSourceName(selectedAccount.id),
+          mapping: { headers, columnMapping, amountDirection }
+        },
+        force: forceDuplicates ? { reason: forceReason.trim() } : undefined
+      }).then(res => res.json());
+
+      return {
+        ...(result.duplicates as DuplicateScreenSummary),
+        accepted: result.batch.importedCount,
+        failed: result.errors.length
+      };
     },
-    onSuccess: () => {
+    onSuccess: (summary) => {
+      // Rows already dropped as known FITIDs count as skipped too
+      const skipped = summary.skippedDuplicates + (forceDuplicates ? 0 : parsedTransactions.filter(t => t.isDuplicate).length);
+      const notes = [
+        skipped > 0 ? `${skipped} skipped as duplicates` : '',
+        summary.queuedForReview > 0 ? `${summary.queuedForReview} held for duplicate review` : '',
+        summary.forced > 0 ? `${summary.forced} duplicates force imported` : '',
+        summary.failed > 0 ? `${summary.failed} failed, see import history` : ''
+      ].filter(Boolean);
       toast({
         title: "Transactions imported successfully",
-        description: `Imported ${parsedTransactions.length} transactions to ${selectedAccount.name}`
+        description: `Imported ${summary.accepted} transactions to ${selectedAccount.name}${notes.length ? ` (${notes.join(', ')})` : ''}`
       });
+      queryClient.invalidateQueries({ queryKey: [`/api/duplicates/${clientId}/queue`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/import-batches/${clientId}`] });
       resetUploadState();
       onUploadComplete();
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Import failed",
-        description: "Please review the transactions and try again",
+        description: error.message || "Please review the transactions and try again",
         variant: "destructive"
       });
     }
@@ -246,7 +370,9 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
       let date = '';
       if (columnMapping.date !== null) {
         const rawDate = row[columnMapping.date];
-        date = normalizeDate(rawDate);
+        date = profileSettings.dateFormat === 'auto'
+          ? normalizeDate(rawDate)
+          : parseDateWithFormat(rawDate, profileSettings.dateFormat);
         if (!date) {
           errors.push('Invalid date format');
         }
@@ -274,8 +400,8 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
         const debitValue = row[columnMapping.debitAmount];
         const creditValue = row[columnMapping.creditAmount];
         
-        let rawDebit = debitValue && debitValue !== '' ? parseFloat(debitValue.toString().replace(/[,$]/g, '')) || 0 : 0;
-        let rawCredit = creditValue && creditValue !== '' ? parseFloat(creditValue.toString().replace(/[,$]/g, '')) || 0 : 0;
+        let rawDebit = parseAmount(debitValue, profileSettings.decimalSeparator);
+        let rawCredit = parseAmount(creditValue, profileSettings.decimalSeparator);
         
         // Handle bank statement reversal if checkbox is checked
         if (isBankStatement) {
@@ -292,7 +418,7 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
         amount = debitAmount > 0 ? debitAmount : -creditAmount;
       } else if (columnMapping.amount !== null) {
         // Single amount column - use amountDirection setting
-        amount = parseFloat(row[columnMapping.amount].toString().replace(/[,$]/g, '')) || 0;
+        amount = parseAmount(row[columnMapping.amount], profileSettings.decimalSeparator);
         
         if (amountDirection === 'positive-out') {
           // Bank statement logic: Positive = Money Out (expenses/debits)
@@ -317,6 +443,13 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
         errors.push('No amount columns mapped');
       }
 
+      // Statement lines whose FITID is already in the ledger are skipped
+      const fitId = fitIdColumn !== null ? String(row[fitIdColumn] || '') || undefined : undefined;
+      const isDuplicate = !!fitId && duplicateFitIds.includes(fitId);
+      if (isDuplicate) {
+        errors.push('Already imported');
+      }
+
       return {
         id: `temp-${index}`,
         date,
@@ -325,6 +458,8 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
         amount,
         debitAmount,
         creditAmount,
+        fitId,
+        isDuplicate,
         originalData: row,
         isValid: errors.length === 0,
         errors
@@ -418,14 +553,28 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
     const formData = new FormData();
     formData.append('file', file);
     formData.append('clientId', clientId);
+    formData.append('accountId', selectedAccount.id.toString());
     
     parseFileMutation.mutate(formData);
   };
 
+  // Lines flagged only as already imported can be forced in with a reason
+  const importableTransactions = parsedTransactions.filter(
+    t => t.isValid || (forceDuplicates && t.isDuplicate && t.errors.length === 1)
+  );
+
   const resetUploadState = () => {
     setUploadFile(null);
     setParsedData([]);
     setParsedTransactions([]);
+    setStatementSummary(null);
+    setFitIdColumn(null);
+    setDuplicateFitIds([]);
+    setForceDuplicates(false);
+    setForceReason('');
+    setFileRows([]);
+    setMappingProfile(null);
+    setProfileSettings(DEFAULT_PROFILE_SETTINGS);
     setColumnMapping({
       date: null,
       description: null,
@@ -443,6 +592,43 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
 
 
 
+  // Rows the server trimmed above a recognised header row are not sent back
+  const receivedHeaderOffset = mappingProfile?.autoApplied ? mappingProfile.headerRowOffset : 0;
+
+  // Re-read the file with the header row moved down past a bank's preamble lines
+  const moveHeaderRow = (headerRowOffset: number): string[] => {
+    const index = Math.min(Math.max(headerRowOffset - receivedHeaderOffset, 0), Math.max(fileRows.length - 2, 0));
+    const nextHeaders = (fileRows[index] || []).map((cell: any) => String(cell ?? '').trim());
+    const nextRows = fileRows.slice(index + 1);
+    setHeaders(nextHeaders);
+    setParsedData(nextRows);
+    setProfileSettings(prev => ({ ...prev, headerRowOffset: receivedHeaderOffset + index }));
+    return nextHeaders;
+  };
+
+  const handleProfileSettingsChange = (settings: MappingProfileSettings) => {
+    setProfileSettings(settings);
+    if (settings.headerRowOffset !== profileSettings.headerRowOffset) {
+      const nextHeaders = moveHeaderRow(settings.headerRowOffset);
+      setColumnMapping(detectColumns(nextHeaders, []));
+    }
+  };
+
+  const applyMappingProfile = (profile: MappingProfile) => {
+    const profileHeaders = profile.headerRowOffset !== profileSettings.headerRowOffset
+      ? moveHeaderRow(profile.headerRowOffset)
+      : headers;
+    setColumnMapping({ ...EMPTY_COLUMN_MAPPING, ...resolveProfileColumns(profile.columnMapping, profileHeaders) });
+    setAmountDirection(profile.signConvention);
+  };
+
+  // Field -> header of its column, as saved in a profile
+  const mappedHeaders = Object.fromEntries(
+    Object.entries(columnMapping)
+      .filter(([, index]) => index !== null && headers[index] !== undefined)
+      .map(([field, index]) => [field, headers[index as number]])
+  );
+
   return (
     <div className="space-y-6">
       {/* Account Selection */}
@@ -496,17 +682,17 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
               className="flex items-center gap-2"
             >
               <Upload className="h-4 w-4" />
-              {parseFileMutation.isPending ? 'Processing...' : 'Upload CSV/Excel File'}
+              {parseFileMutation.isPending ? 'Processing...' : 'Upload Statement File'}
             </Button>
             <input
               ref={fileInputRef}
               type="file"
-              accept=".csv,.xlsx,.xls"
+              accept=".csv,.xlsx,.xls,.ofx,.qfx,.qbo,.xml"
               onChange={handleFileUpload}
               className="hidden"
             />
             <span className="text-sm text-muted-foreground">
-              Supports CSV, Excel (.xlsx, .xls) with intelligent field detection
+              Supports CSV, Excel (.xlsx, .xls), OFX/QFX, QuickBooks Web Connect (.qbo) and CAMT.053 XML
             </span>
           </div>
         </CardContent>
@@ -533,8 +719,51 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
               </div>
             </div>
             
+            {statementSummary && (
+              <div className="p-3 bg-green-50 rounded-lg border text-sm">
+                <div className="font-medium text-green-800">
+                  {statementSummary.format.toUpperCase()} statement
+                  {statementSummary.accountNumber && ` for account ${statementSummary.accountNumber}`}
+                  {statementSummary.currency && ` (${statementSummary.currency})`}
+                </div>
+                <div className="text-xs text-green-700 mt-1 space-x-3">
+                  {statementSummary.periodStart && statementSummary.periodEnd && (
+                    <span>Period: {statementSummary.periodStart} to {statementSummary.periodEnd}</span>
+                  )}
+                  {statementSummary.openingBalance !== undefined && (
+                    <span>Opening: ${statementSummary.openingBalance.toFixed(2)}</span>
+                  )}
+                  {statementSummary.closingBalance !== undefined && (
+                    <span>Closing: ${statementSummary.closingBalance.toFixed(2)}</span>
+                  )}
+                </div>
+                {duplicateFitIds.length > 0 && (
+                  <div className="text-xs text-orange-700 mt-1">
+                    {duplicateFitIds.length} transaction{duplicateFitIds.length === 1 ? ' was' : 's were'} already imported and will be skipped
+                  </div>
+                )}
+              </div>
+            )}
+
             {parsedData.length > 0 && (
               <>
+                {!statementSummary && (
+                  <MappingProfilePanel
+                    clientId={clientId}
+                    source="transactions"
+                    headers={headers}
+                    detection={mappingProfile}
+                    settings={profileSettings}
+                    onSettingsChange={handleProfileSettingsChange}
+                    onApplyProfile={applyMappingProfile}
+                    columnMapping={mappedHeaders}
+                    amountMode={columnMapping.debitAmount !== null && columnMapping.creditAmount !== null ? 'debit_credit' : 'signed'}
+                    signConvention={amountDirection}
+                    defaultInstitution={selectedAccount?.name}
+                    maxHeaderRowOffset={receivedHeaderOffset + Math.min(14, Math.max(fileRows.length - 2, 0))}
+                  />
+                )}
+
                 <div className="grid grid-cols-2 gap-4">
                   <div>
                     <label className="text-sm font-medium">Date Column</label>
@@ -723,21 +952,53 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
                 <p className="text-sm text-muted-foreground">
                   {parsedTransactions.filter(t => t.isValid).length} transactions will be imported to {selectedAccount?.name || 'Selected Account'}
                 </p>
+                {parsedTransactions.some(t => t.isDuplicate) && !forceDuplicates && (
+                  <p className="text-sm text-orange-600">
+                    {parsedTransactions.filter(t => t.isDuplicate).length} already imported transactions skipped
+                  </p>
+                )}
+                <p className="text-xs text-muted-foreground">
+                  Lines that look like transactions already in the ledger are held for duplicate review instead of being posted
+                </p>
               </div>
               <div className="flex gap-2">
                 <Button variant="outline" onClick={() => setShowReviewDialog(false)}>
                   Cancel
                 </Button>
                 <Button 
-                  onClick={() => importTransactionsMutation.mutate(parsedTransactions.filter(t => t.isValid))}
-                  disabled={parsedTransactions.filter(t => t.isValid).length === 0 || importTransactionsMutation.isPending}
+                  onClick={() => importTransactionsMutation.mutate(importableTransactions)}
+                  disabled={
+                    importableTransactions.length === 0 ||
+                    (forceDuplicates && !forceReason.trim()) ||
+                    importTransactionsMutation.isPending
+                  }
                   className="bg-blue-600 hover:bg-blue-700"
                 >
-                  {importTransactionsMutation.isPending ? 'Importing...' : `Import ${parsedTransactions.filter(t => t.isValid).length} Transactions`}
+                  {importTransactionsMutation.isPending ? 'Importing...' : `Import ${importableTransactions.length} Transactions`}
                 </Button>
               </div>
             </div>
 
+            <div className="space-y-2 rounded-lg border p-3">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="force-duplicates"
+                  checked={forceDuplicates}
+                  onCheckedChange={(checked) => setForceDuplicates(checked === true)}
+                />
+                <Label htmlFor="force-duplicates" className="text-sm">
+                  Force import duplicates
+                </Label>
+              </div>
+              {forceDuplicates && (
+                <Input
+                  value={forceReason}
+                  onChange={(e) => setForceReason(e.target.value)}
+                  placeholder="Reason (e.g. bank reissued the statement with corrected lines)"
+                />
+              )}
+            </div>
+
             <Table>
               <TableHeader>
                 <TableRow>
@@ -748,7 +1009,7 @@ export default function TransactionUploadSystem({ clientId, accounts, onUploadCo
                 </TableRow>
               </TableHeader>
               <TableBody>
-                {parsedTransactions.filter(t => t.isValid).map((transaction) => (
+                {importableTransactions.map((transaction) => (
                   <TableRow key={transaction.id}>
                     <TableCell className="text-sm">{transaction.date}</TableCell>
                     <TableCell className="text-sm max-w-96">
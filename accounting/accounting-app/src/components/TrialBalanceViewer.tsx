@@ -34,13 +34,14 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import {
-import { apiConfig } from "@/lib/api-config";
   Select,
   SelectContent,
   SelectItem,
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { apiConfig } from "@/lib/api-config";
+import GeneralLedgerModal from "@/components/financial/GeneralLedgerModal";
 
 interface TrialBalanceEntry {
   accountId: number;
@@ -88,6 +89,7 @@ export function TrialBalanceViewer({ clientId, binderId }: TrialBalanceViewerPro
   const [editBalance, setEditBalance] = useState<string>('');
   const [showGroupingRules, setShowGroupingRules] = useState(false);
   const [activeTab, setActiveTab] = useState('data');
+  const [drillDownEntry, setDrillDownEntry] = useState<TrialBalanceEntry | null>(null);
   
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -341,7 +343,14 @@ export function TrialBalanceViewer({ clientId, binderId }: TrialBalanceViewerPro
                     {entry.accountNumber || '-'}
                   </TableCell>
                   <TableCell className="font-medium">
-                    {entry.accountName}
+                    <button
+                      type="button"
+                      className="text-left hover:underline hover:text-blue-600"
+                      onClick={() => setDrillDownEntry(entry)}
+                      data-testid={`drill-down-${entry.accountId}`}
+                    >
+                      {entry.accountName}
+                    </button>
                   </TableCell>
                   <TableCell>
                     <Badge 
@@ -390,6 +399,19 @@ export function TrialBalanceViewer({ clientId, binderId }: TrialBalanceViewerPro
           </AlertDescription>
         </Alert>
       )}
+
+      {drillDownEntry && (
+        <GeneralLedgerModal
+          isOpen={!!drillDownEntry}
+          onClose={() => setDrillDownEntry(null)}
+          accountId={drillDownEntry.accountId}
+          accountName={drillDownEntry.accountName}
+          accountNumber={drillDownEntry.accountNumber || ''}
+          accountType={drillDownEntry.accountType}
+          clientId={clientId}
+          endDate={selectedDate}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
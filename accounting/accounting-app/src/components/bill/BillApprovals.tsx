@@ -0,0 +1,618 @@
+/**
+ * Bill Approvals
+ *
+ * Approval of vendor bills before payment: the client's approval chain
+ * (levels with a threshold and named approvers, e.g. Controller from $5,000
+ * and Owner from $25,000), the queue of bills awaiting approval with
+ * approve / reject / resubmit, and the audit trail of every decision. Bills
+ * pending or rejected here cannot be paid or have a cheque issued.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { CheckCircle, History, Pencil, Plus, RotateCcw, Save, Trash2, XCircle } from "lucide-react";
+
+export type BillApprovalStatus = "not_required" | "pending" | "approved" | "rejected";
+
+export interface RequiredLevel {
+  level: number;
+  name: string;
+  minAmount: number;
+  approverUserIds: number[];
+}
+
+export interface BillApprovalState {
+  approvalStatus: BillApprovalStatus;
+  approvalId: number | null;
+  requiredLevels: RequiredLevel[];
+  approvedLevels: number;
+  currentLevelName: string | null;
+  approverUserIds: number[];
+  canDecide: boolean;
+  submittedAt: string | null;
+  decidedAt: string | null;
+}
+
+export interface ApprovalBill extends BillApprovalState {
+  billId: number;
+  billNumber: string | null;
+  vendorName: string | null;
+  billDate: string | null;
+  dueDate: string | null;
+  totalAmount: number;
+  balanceDue: number;
+  billStatus: string;
+}
+
+export interface BillApprovalEvent {
+  id: number;
+  billId: number;
+  billNumber?: string | null;
+  action: "submitted" | "approved" | "rejected" | "resubmitted" | "reset";
+  level: number | null;
+  levelName: string | null;
+  amount: string | null;
+  comment: string | null;
+  userName: string | null;
+  via: "app" | "portal" | "system";
+  createdAt: string;
+}
+
+interface ApprovalLevel {
+  id: number;
+  level: number;
+  name: string;
+  minAmount: string;
+  approverUserIds: number[];
+}
+
+interface Approver {
+  id: number;
+  name: string;
+  email: string;
+  role: string;
+  isClientUser: boolean;
+}
+
+interface LevelForm {
+  name: string;
+  minAmount: string;
+  approverUserIds: number[];
+}
+
+interface BillApprovalsProps {
+  clientId: number | null;
+}
+
+type Decision = { bill: ApprovalBill; action: "approve" | "reject" | "resubmit" };
+
+// Under the bills key so anything that refreshes bills refreshes their approval state too
+export const approvalStatusesKey = (clientId: number | null) => ["bills", clientId, "approval-statuses"];
+
+export const APPROVAL_BADGES: Record<BillApprovalStatus, { label: string; className: string }> = {
+  not_required: { label: "No approval needed", className: "bg-gray-100 text-gray-700" },
+  pending: { label: "Awaiting approval", className: "bg-amber-100 text-amber-800" },
+  approved: { label: "Approved", className: "bg-green-100 text-green-800" },
+  rejected: { label: "Rejected", className: "bg-red-100 text-red-800" },
+};
+
+export const EVENT_LABELS: Record<BillApprovalEvent["action"], string> = {
+  submitted: "Submitted for approval",
+  approved: "Approved",
+  rejected: "Rejected",
+  resubmitted: "Resubmitted",
+  reset: "Approval restarted",
+};
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string | null) => (value ? format(new Date(`${value.slice(0, 10)}T00:00:00`), "MMM d, yyyy") : "—");
+
+// Controller then owner, the chain most clients start from
+const starterLevels = (): LevelForm[] => [
+  { name: "Controller", minAmount: "5000", approverUserIds: [] },
+  { name: "Owner", minAmount: "25000", approverUserIds: [] },
+];
+
+export function ApprovalHistoryDialog({
+  title,
+  events,
+  open,
+  onOpenChange,
+}: {
+  title: string;
+  events: BillApprovalEvent[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+        </DialogHeader>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No approval activity yet.</p>
+        ) : (
+          <div className="space-y-3 max-h-96 overflow-y-auto">
+            {events.map((event) => (
+              <div key={event.id} className="border-l-2 pl-3 text-sm">
+                <div className="font-medium">
+                  {EVENT_LABELS[event.action]}
+                  {event.levelName && ` · ${event.levelName}`}
+                </div>
+                <div className="text-muted-foreground">
+                  {format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}
+                  {" · "}
+                  {event.userName || "System"}
+                  {event.via === "portal" && " (client portal)"}
+                  {event.amount && ` · $${formatCurrency(parseFloat(event.amount))}`}
+                </div>
+                {event.comment && <div className="mt-1">{event.comment}</div>}
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+export default function BillApprovals({ clientId }: BillApprovalsProps) {
+  const { toast } = useToast();
+  const [levelsForm, setLevelsForm] = useState<LevelForm[] | null>(null);
+  const [statusFilter, setStatusFilter] = useState<BillApprovalStatus | "all">("pending");
+  const [decision, setDecision] = useState<Decision | null>(null);
+  const [comment, setComment] = useState("");
+  const [historyBill, setHistoryBill] = useState<ApprovalBill | null>(null);
+
+  const chainKey = [`/api/bill-approvals/${clientId}/chain`];
+  const billsKey = [`/api/bill-approvals/${clientId}/bills`, statusFilter];
+  const auditKey = [`/api/bill-approvals/${clientId}/audit`];
+
+  const { data: chain = [] } = useQuery<ApprovalLevel[]>({
+    queryKey: chainKey,
+    queryFn: () => apiRequest("GET", `/api/bill-approvals/${clientId}/chain`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: approvers = [] } = useQuery<Approver[]>({
+    queryKey: [`/api/bill-approvals/${clientId}/approvers`],
+    queryFn: () => apiRequest("GET", `/api/bill-approvals/${clientId}/approvers`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: approvalBills = [], isLoading } = useQuery<ApprovalBill[]>({
+    queryKey: billsKey,
+    queryFn: () =>
+      apiRequest(
+        "GET",
+        `/api/bill-approvals/${clientId}/bills${statusFilter !== "all" ? `?status=${statusFilter}` : ""}`
+      ).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: audit = [] } = useQuery<BillApprovalEvent[]>({
+    queryKey: auditKey,
+    queryFn: () => apiRequest("GET", `/api/bill-approvals/${clientId}/audit`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: history = [] } = useQuery<BillApprovalEvent[]>({
+    queryKey: [`/api/bill-approvals/${clientId}/history`, historyBill?.billId],
+    queryFn: () =>
+      apiRequest("GET", `/api/bill-approvals/${clientId}/bills/${historyBill?.billId}/history`).then((res) => res.json()),
+    enabled: !!clientId && !!historyBill,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: chainKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/bill-approvals/${clientId}/bills`] });
+    queryClient.invalidateQueries({ queryKey: auditKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/bill-approvals/${clientId}/history`] });
+    queryClient.invalidateQueries({ queryKey: approvalStatusesKey(clientId) });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveChainMutation = useMutation({
+    mutationFn: (levels: LevelForm[]) =>
+      apiRequest("PUT", `/api/bill-approvals/${clientId}/chain`, {
+        levels: levels.map((level) => ({
+          name: level.name.trim(),
+          minAmount: parseFloat(level.minAmount),
+          approverUserIds: level.approverUserIds,
+        })),
+      }).then((res) => res.json()),
+    onSuccess: () => {
+      refresh();
+      setLevelsForm(null);
+      toast({ title: "Approval chain saved" });
+    },
+    onError: onError("Could not save approval chain"),
+  });
+
+  const decisionMutation = useMutation({
+    mutationFn: ({ bill, action }: Decision) =>
+      apiRequest("POST", `/api/bill-approvals/${clientId}/bills/${bill.billId}/${action}`, {
+        comment: comment.trim() || null,
+      }).then((res) => res.json()),
+    onSuccess: (_result, { action }) => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["bills", clientId] });
+      setDecision(null);
+      setComment("");
+      toast({ title: action === "approve" ? "Bill approved" : action === "reject" ? "Bill rejected" : "Bill resubmitted" });
+    },
+    onError: onError("Could not record the decision"),
+  });
+
+  const approverName = (userId: number) => approvers.find((approver) => approver.id === userId)?.name || `User ${userId}`;
+
+  const updateLevel = (index: number, changes: Partial<LevelForm>) => {
+    setLevelsForm((current) => current && current.map((level, i) => (i === index ? { ...level, ...changes } : level)));
+  };
+
+  const toggleApprover = (index: number, userId: number, checked: boolean) => {
+    const level = levelsForm?.[index];
+    if (!level) return;
+    updateLevel(index, {
+      approverUserIds: checked
+        ? [...level.approverUserIds, userId]
+        : level.approverUserIds.filter((id) => id !== userId),
+    });
+  };
+
+  const editChain = () => {
+    setLevelsForm(
+      chain.length > 0
+        ? chain.map((level) => ({
+            name: level.name,
+            minAmount: parseFloat(level.minAmount).toString(),
+            approverUserIds: level.approverUserIds,
+          }))
+        : starterLevels()
+    );
+  };
+
+  const levelsFormValid =
+    !!levelsForm &&
+    levelsForm.every(
+      (level, index) =>
+        level.name.trim() &&
+        level.minAmount !== "" &&
+        parseFloat(level.minAmount) >= 0 &&
+        level.approverUserIds.length > 0 &&
+        (index === 0 || parseFloat(level.minAmount) > parseFloat(levelsForm[index - 1].minAmount))
+    );
+
+  if (!clientId) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">Select a client to manage bill approvals.</CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Approval Chain</CardTitle>
+            <CardDescription>
+              Bills at or above a level's threshold need that level's approval, and every level below it, before they
+              can be paid. Approvers can be your staff or the client's portal users.
+            </CardDescription>
+          </div>
+          {!levelsForm && (
+            <Button variant="outline" onClick={editChain}>
+              <Pencil className="h-4 w-4 mr-2" />
+              {chain.length > 0 ? "Edit Chain" : "Set Up Approvals"}
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {levelsForm ? (
+            <div className="space-y-4">
+              {levelsForm.map((level, index) => (
+                <div key={index} className="border rounded-lg p-4 space-y-3">
+                  <div className="grid grid-cols-6 gap-3 items-end">
+                    <div className="col-span-1 text-sm font-medium pb-2">Level {index + 1}</div>
+                    <div className="col-span-2">
+                      <Label>Name</Label>
+                      <Input value={level.name} onChange={(e) => updateLevel(index, { name: e.target.value })} />
+                    </div>
+                    <div className="col-span-2">
+                      <Label>Bills from ($)</Label>
+                      <Input
+                        type="number"
+                        min={0}
+                        step="0.01"
+                        value={level.minAmount}
+                        onChange={(e) => updateLevel(index, { minAmount: e.target.value })}
+                      />
+                    </div>
+                    <div className="flex justify-end">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setLevelsForm(levelsForm.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                  <div>
+                    <Label>Approvers</Label>
+                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2 mt-2">
+                      {approvers.map((approver) => (
+                        <label key={approver.id} className="flex items-center space-x-2 text-sm">
+                          <Checkbox
+                            checked={level.approverUserIds.includes(approver.id)}
+                            onCheckedChange={(checked) => toggleApprover(index, approver.id, checked === true)}
+                          />
+                          <span>
+                            {approver.name}
+                            {approver.isClientUser && <span className="text-muted-foreground"> (client)</span>}
+                          </span>
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                </div>
+              ))}
+              {levelsForm.length > 1 &&
+                levelsForm.some((level, index) => index > 0 && parseFloat(level.minAmount) <= parseFloat(levelsForm[index - 1].minAmount)) && (
+                  <p className="text-sm text-red-600">Each level's threshold must be higher than the one before it.</p>
+                )}
+              <div className="flex justify-between">
+                <Button
+                  variant="outline"
+                  disabled={levelsForm.length >= 5}
+                  onClick={() => setLevelsForm([...levelsForm, { name: "", minAmount: "", approverUserIds: [] }])}
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Add Level
+                </Button>
+                <div className="space-x-2">
+                  <Button variant="outline" onClick={() => setLevelsForm(null)}>
+                    Cancel
+                  </Button>
+                  <Button
+                    disabled={!levelsFormValid || saveChainMutation.isPending}
+                    onClick={() => levelsForm && saveChainMutation.mutate(levelsForm)}
+                  >
+                    <Save className="h-4 w-4 mr-2" />
+                    Save Chain
+                  </Button>
+                </div>
+              </div>
+              {levelsForm.length === 0 && (
+                <p className="text-sm text-muted-foreground">Saving with no levels turns bill approval off for this client.</p>
+              )}
+            </div>
+          ) : chain.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Bill approval is off: any bill can be paid once entered.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Level</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="text-right">Bills from</TableHead>
+                  <TableHead>Approvers</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {chain.map((level) => (
+                  <TableRow key={level.id}>
+                    <TableCell>{level.level}</TableCell>
+                    <TableCell className="font-medium">{level.name}</TableCell>
+                    <TableCell className="text-right">${formatCurrency(parseFloat(level.minAmount))}</TableCell>
+                    <TableCell>{level.approverUserIds.map(approverName).join(", ")}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle>Bills</CardTitle>
+            <CardDescription>Approve or reject bills at the level waiting on you.</CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as BillApprovalStatus | "all")}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="pending">Awaiting approval</SelectItem>
+              <SelectItem value="rejected">Rejected</SelectItem>
+              <SelectItem value="approved">Approved</SelectItem>
+              <SelectItem value="all">All open bills</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading bills...</p>
+          ) : approvalBills.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No bills to show.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bill</TableHead>
+                  <TableHead>Vendor</TableHead>
+                  <TableHead>Due</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Progress</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {approvalBills.map((bill) => (
+                  <TableRow key={bill.billId}>
+                    <TableCell className="font-medium">{bill.billNumber || `#${bill.billId}`}</TableCell>
+                    <TableCell>{bill.vendorName || "—"}</TableCell>
+                    <TableCell>{formatDate(bill.dueDate)}</TableCell>
+                    <TableCell className="text-right">${formatCurrency(bill.totalAmount)}</TableCell>
+                    <TableCell>
+                      <Badge className={APPROVAL_BADGES[bill.approvalStatus].className}>
+                        {APPROVAL_BADGES[bill.approvalStatus].label}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">
+                      {bill.requiredLevels.length > 0 &&
+                        bill.requiredLevels
+                          .map((level, index) => `${level.name}${index < bill.approvedLevels ? " ✓" : ""}`)
+                          .join(" → ")}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      {bill.approvalStatus === "pending" && bill.canDecide && (
+                        <>
+                          <Button size="sm" onClick={() => setDecision({ bill, action: "approve" })}>
+                            <CheckCircle className="h-4 w-4 mr-1" />
+                            Approve
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => setDecision({ bill, action: "reject" })}>
+                            <XCircle className="h-4 w-4 mr-1" />
+                            Reject
+                          </Button>
+                        </>
+                      )}
+                      {bill.approvalStatus === "rejected" && (
+                        <Button size="sm" variant="outline" onClick={() => setDecision({ bill, action: "resubmit" })}>
+                          <RotateCcw className="h-4 w-4 mr-1" />
+                          Resubmit
+                        </Button>
+                      )}
+                      {bill.approvalStatus !== "not_required" && (
+                        <Button size="sm" variant="ghost" onClick={() => setHistoryBill(bill)}>
+                          <History className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Audit Trail</CardTitle>
+          <CardDescription>Every submission, decision and restart, newest first.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {audit.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No approval activity yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>When</TableHead>
+                  <TableHead>Bill</TableHead>
+                  <TableHead>Action</TableHead>
+                  <TableHead>Level</TableHead>
+                  <TableHead>By</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Comment</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {audit.map((event) => (
+                  <TableRow key={event.id}>
+                    <TableCell className="whitespace-nowrap">{format(new Date(event.createdAt), "MMM d, yyyy h:mm a")}</TableCell>
+                    <TableCell>{event.billNumber || `#${event.billId}`}</TableCell>
+                    <TableCell>{EVENT_LABELS[event.action]}</TableCell>
+                    <TableCell>{event.levelName || "—"}</TableCell>
+                    <TableCell>
+                      {event.userName || "System"}
+                      {event.via === "portal" && <span className="text-muted-foreground"> (portal)</span>}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {event.amount ? `$${formatCurrency(parseFloat(event.amount))}` : "—"}
+                    </TableCell>
+                    <TableCell className="max-w-xs truncate">{event.comment || ""}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog
+        open={!!decision}
+        onOpenChange={(open) => {
+          if (!open) {
+            setDecision(null);
+            setComment("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {decision?.action === "approve" ? "Approve" : decision?.action === "reject" ? "Reject" : "Resubmit"} bill{" "}
+              {decision?.bill.billNumber || `#${decision?.bill.billId}`}
+            </DialogTitle>
+            <DialogDescription>
+              {decision?.bill.vendorName} · ${formatCurrency(decision?.bill.totalAmount || 0)}
+              {decision?.action !== "resubmit" && decision?.bill.currentLevelName && ` · ${decision.bill.currentLevelName} level`}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="approval-comment">
+              {decision?.action === "reject" ? "Reason (required)" : "Comment (optional)"}
+            </Label>
+            <Textarea id="approval-comment" rows={3} value={comment} onChange={(e) => setComment(e.target.value)} />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDecision(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant={decision?.action === "reject" ? "destructive" : "default"}
+              disabled={decisionMutation.isPending || (decision?.action === "reject" && !comment.trim())}
+              onClick={() => decision && decisionMutation.mutate(decision)}
+            >
+              {decision?.action === "approve" ? "Approve" : decision?.action === "reject" ? "Reject" : "Resubmit"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <ApprovalHistoryDialog
+        title={`Approval history · ${historyBill?.billNumber || `#${historyBill?.billId}`}`}
+        events={history}
+        open={!!historyBill}
+        onOpenChange={(open) => !open && setHistoryBill(null)}
+      />
+    </div>
+  );
+}
@@ -59,6 +59,7 @@ import {
   dateToUserTimezoneString,
 } from "@/lib/timezone-utils";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { APPROVAL_BADGES, approvalStatusesKey, type BillApprovalState } from "@/components/bill/BillApprovals";
 import { startOfMonth, endOfMonth, subMonths, startOfQuarter, endOfQuarter, startOfYear, endOfYear, subQuarters, subYears } from "date-fns";
 
 const billSchema = z.object({
@@ -496,6 +497,24 @@ export default function BillManagement({ clientId }: BillManagementProps) {
     enabled: !!clientId,
   });
 
+  // Approval state of bills that need approval; unapproved bills cannot be paid
+  const { data: approvalStatuses = {} } = useQuery<Record<number, BillApprovalState>>({
+    queryKey: approvalStatusesKey(clientId),
+    queryFn: () => apiRequest("GET", `/api/bill-approvals/${clientId}/statuses`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const paymentBlockedReason = (bill: any): string | null => {
+    const approval = approvalStatuses[bill.id];
+    if (approval?.approvalStatus === "pending") {
+      return approval.currentLevelName ? `Awaiting ${approval.currentLevelName} approval` : "Awaiting approval";
+    }
+    if (approval?.approvalStatus === "rejected") {
+      return "Bill was rejected; resubmit it for approval first";
+    }
+    return null;
+  };
+
   // Get date range based on preset
   const getDateRange = (preset: string) => {
     const now = new Date();
@@ -2195,6 +2214,11 @@ export default function BillManagement({ clientId }: BillManagementProps) {
                       <Badge className={getStatusColor(bill.status)}>
                         {bill.status}
                       </Badge>
+                      {approvalStatuses[bill.id] && approvalStatuses[bill.id].approvalStatus !== "approved" && bill.status !== "paid" && (
+                        <Badge className={`ml-1 ${APPROVAL_BADGES[approvalStatuses[bill.id].approvalStatus].className}`}>
+                          {APPROVAL_BADGES[approvalStatuses[bill.id].approvalStatus].label}
+                        </Badge>
+                      )}
                     </TableCell>
                     <TableCell>
                       <div className="flex space-x-2">
@@ -2217,11 +2241,11 @@ export default function BillManagement({ clientId }: BillManagementProps) {
                           variant="ghost"
                           size="sm"
                           onClick={() => handleRecordPayment(bill)}
-                          disabled={bill.status === "paid"}
+                          disabled={bill.status === "paid" || !!paymentBlockedReason(bill)}
                           title={
                             bill.status === "paid"
                               ? "Bill is already paid"
-                              : "Record Payment"
+                              : paymentBlockedReason(bill) || "Record Payment"
                           }
                         >
                           <DollarSign className="h-4 w-4" />
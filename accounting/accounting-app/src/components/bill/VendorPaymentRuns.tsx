@@ -0,0 +1,931 @@
+/**
+ * Vendor Payment Runs
+ *
+ * Pays many vendor bills in one go: pick outstanding bills by due date and
+ * vendor, let the run propose amounts up to the bank balance (or a cap), then
+ * generate it. Each vendor gets one cheque, numbered in sequence, or an EFT
+ * credit in a CPA-005 file when its bank details are on file. Runs can be
+ * voided, which reverses the entries and reopens the bills.
+ */
+
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { format } from "date-fns";
+import { Ban, Calculator, Download, Eye, FileText, Loader2, Mail, Play, Save, Trash2 } from "lucide-react";
+import { approvalStatusesKey } from "@/components/bill/BillApprovals";
+
+type PaymentMethod = "cheque" | "eft";
+
+interface ProposedBill {
+  billId: number;
+  billNumber: string | null;
+  vendorId: number;
+  vendorName: string;
+  billDate: string | null;
+  dueDate: string | null;
+  totalAmount: number;
+  balanceDue: number;
+  approvalStatus: string;
+  payable: boolean;
+  hasBankDetails: boolean;
+  proposedAmount: number;
+  method: PaymentMethod;
+}
+
+interface Proposal {
+  bankBalance: number;
+  amountCap: number;
+  totalProposed: number;
+  remainingAfterRun: number;
+  eftEnabled: boolean;
+  bills: ProposedBill[];
+}
+
+interface RunBill {
+  id: number;
+  billId: number;
+  billNumber: string | null;
+  billDate: string | null;
+  billTotal: string;
+  amount: string;
+}
+
+interface RunPayment {
+  id: number;
+  vendorId: number;
+  vendorName: string;
+  method: PaymentMethod;
+  chequeId: number | null;
+  chequeNumber: string | null;
+  amount: string;
+  remittanceEmail: string | null;
+  remittanceSentAt: string | null;
+  status: "posted" | "voided";
+  bills: RunBill[];
+}
+
+interface PaymentRun {
+  id: number;
+  runNumber: string;
+  paymentDate: string;
+  bankAccountId: number;
+  totalAmount: string;
+  chequeCount: number;
+  eftCount: number;
+  eftFileName: string | null;
+  status: "posted" | "voided";
+  createdAt: string;
+  payments?: RunPayment[];
+}
+
+interface EftSettingsForm {
+  originatorId: string;
+  shortName: string;
+  longName: string;
+  destinationDataCentre: string;
+  returnInstitutionNumber: string;
+  returnTransitNumber: string;
+  returnAccountNumber: string;
+}
+
+interface VendorBankDetails {
+  vendorId: number;
+  vendorName: string;
+  institutionNumber: string;
+  transitNumber: string;
+  accountNumber: string;
+  accountHolderName: string | null;
+  remittanceEmail: string | null;
+}
+
+interface BankDetailsForm {
+  vendorId: string;
+  institutionNumber: string;
+  transitNumber: string;
+  accountNumber: string;
+  accountHolderName: string;
+  remittanceEmail: string;
+}
+
+interface VendorPaymentRunsProps {
+  clientId: number | null;
+}
+
+const emptyEftSettings: EftSettingsForm = {
+  originatorId: "",
+  shortName: "",
+  longName: "",
+  destinationDataCentre: "",
+  returnInstitutionNumber: "",
+  returnTransitNumber: "",
+  returnAccountNumber: "",
+};
+
+const emptyBankDetails: BankDetailsForm = {
+  vendorId: "",
+  institutionNumber: "",
+  transitNumber: "",
+  accountNumber: "",
+  accountHolderName: "",
+  remittanceEmail: "",
+};
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatDate = (value: string | null) => (value ? format(new Date(`${value.slice(0, 10)}T00:00:00`), "MMM d, yyyy") : "—");
+
+const today = () => format(new Date(), "yyyy-MM-dd");
+
+async function downloadFile(url: string, fileName: string) {
+  const response = await apiRequest("GET", url);
+  const blobUrl = window.URL.createObjectURL(await response.blob());
+  const link = document.createElement("a");
+  link.href = blobUrl;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  window.URL.revokeObjectURL(blobUrl);
+}
+
+export default function VendorPaymentRuns({ clientId }: VendorPaymentRunsProps) {
+  const { toast } = useToast();
+  const [bankAccountId, setBankAccountId] = useState("");
+  const [paymentDate, setPaymentDate] = useState(today());
+  const [dueOnOrBefore, setDueOnOrBefore] = useState(today());
+  const [vendorFilter, setVendorFilter] = useState("all");
+  const [amountCap, setAmountCap] = useState("");
+  const [firstChequeNumber, setFirstChequeNumber] = useState("");
+  const [proposal, setProposal] = useState<Proposal | null>(null);
+  // Amounts to pay by bill id; a bill is in the run when it has an entry
+  const [amounts, setAmounts] = useState<Record<number, string>>({});
+  const [viewRunId, setViewRunId] = useState<number | null>(null);
+  const [voidRun, setVoidRun] = useState<PaymentRun | null>(null);
+  const [eftForm, setEftForm] = useState<EftSettingsForm | null>(null);
+  const [bankForm, setBankForm] = useState<BankDetailsForm | null>(null);
+
+  const runsKey = [`/api/payment-runs/${clientId}/runs`];
+  const eftSettingsKey = [`/api/payment-runs/${clientId}/eft-settings`];
+  const bankDetailsKey = [`/api/payment-runs/${clientId}/vendor-bank-details`];
+
+  const { data: accounts = [] } = useQuery<any[]>({
+    queryKey: ["accounts", clientId],
+    queryFn: async () => {
+      const result = await apiRequest("GET", `/api/accounts/${clientId}`).then((res) => res.json());
+      return result.accounts || result.data || [];
+    },
+    enabled: !!clientId,
+  });
+
+  const { data: vendors = [] } = useQuery<any[]>({
+    queryKey: ["/api/crm/vendors", clientId],
+    queryFn: async () => {
+      const result = await apiRequest("GET", `/api/crm/vendors?clientId=${clientId}`).then((res) => res.json());
+      return result.data || [];
+    },
+    enabled: !!clientId,
+  });
+
+  const { data: runs = [] } = useQuery<PaymentRun[]>({
+    queryKey: runsKey,
+    queryFn: () => apiRequest("GET", `/api/payment-runs/${clientId}/runs`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: viewedRun } = useQuery<PaymentRun>({
+    queryKey: [`/api/payment-runs/${clientId}/runs`, viewRunId],
+    queryFn: () => apiRequest("GET", `/api/payment-runs/${clientId}/runs/${viewRunId}`).then((res) => res.json()),
+    enabled: !!clientId && !!viewRunId,
+  });
+
+  const { data: eftSettings } = useQuery<(EftSettingsForm & { lastFileCreationNumber: number }) | null>({
+    queryKey: eftSettingsKey,
+    queryFn: () => apiRequest("GET", `/api/payment-runs/${clientId}/eft-settings`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: bankDetails = [] } = useQuery<VendorBankDetails[]>({
+    queryKey: bankDetailsKey,
+    queryFn: () => apiRequest("GET", `/api/payment-runs/${clientId}/vendor-bank-details`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const bankAccounts = useMemo(
+    () =>
+      accounts.filter(
+        (account: any) => account.type === "asset" && (account.subtype === "bank" || account.subtype === "banklink")
+      ),
+    [accounts]
+  );
+
+  const selectedBills = (proposal?.bills || []).filter((bill) => amounts[bill.billId] !== undefined);
+  const runTotal = selectedBills.reduce((sum, bill) => sum + (parseFloat(amounts[bill.billId]) || 0), 0);
+  const cap = proposal?.amountCap ?? 0;
+  const overCap = runTotal > cap + 0.005;
+  const vendorCount = new Set(selectedBills.map((bill) => bill.vendorId)).size;
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const proposeMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/payment-runs/${clientId}/propose`, {
+        bankAccountId: parseInt(bankAccountId),
+        paymentDate,
+        dueOnOrBefore: dueOnOrBefore || undefined,
+        vendorIds: vendorFilter !== "all" ? [parseInt(vendorFilter)] : undefined,
+        amountCap: amountCap ? parseFloat(amountCap) : null,
+      }).then((res) => res.json()),
+    onSuccess: (result: Proposal) => {
+      setProposal(result);
+      setAmounts(
+        Object.fromEntries(
+          result.bills.filter((bill) => bill.proposedAmount > 0).map((bill) => [bill.billId, bill.proposedAmount.toFixed(2)])
+        )
+      );
+    },
+    onError: onError("Could not propose payments"),
+  });
+
+  const generateMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/payment-runs/${clientId}/runs`, {
+        bankAccountId: parseInt(bankAccountId),
+        paymentDate,
+        amountCap: proposal?.amountCap ?? null,
+        firstChequeNumber: firstChequeNumber ? parseInt(firstChequeNumber) : null,
+        payments: selectedBills.map((bill) => ({ billId: bill.billId, amount: parseFloat(amounts[bill.billId]) || 0 })),
+      }).then((res) => res.json()),
+    onSuccess: (run: PaymentRun) => {
+      refreshAfterRun();
+      setProposal(null);
+      setAmounts({});
+      setFirstChequeNumber("");
+      setViewRunId(run.id);
+      toast({
+        title: `Payment run ${run.runNumber} generated`,
+        description: `${run.chequeCount} cheque(s) and ${run.eftCount} EFT payment(s) totalling $${formatCurrency(parseFloat(run.totalAmount))}.`,
+      });
+    },
+    onError: onError("Could not generate payment run"),
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: (run: PaymentRun) =>
+      apiRequest("POST", `/api/payment-runs/${clientId}/runs/${run.id}/void`).then((res) => res.json()),
+    onSuccess: (run: PaymentRun) => {
+      refreshAfterRun();
+      setVoidRun(null);
+      toast({ title: `Payment run ${run.runNumber} voided`, description: "Payments reversed and bills reopened." });
+    },
+    onError: onError("Could not void payment run"),
+  });
+
+  const emailMutation = useMutation({
+    mutationFn: ({ runId, paymentIds }: { runId: number; paymentIds?: number[] }) =>
+      apiRequest("POST", `/api/payment-runs/${clientId}/runs/${runId}/email-remittances`, { paymentIds }).then((res) =>
+        res.json()
+      ),
+    onSuccess: (results: Array<{ vendorName: string; status: string }>) => {
+      queryClient.invalidateQueries({ queryKey: runsKey });
+      const sent = results.filter((result) => result.status === "sent").length;
+      const missing = results.filter((result) => result.status === "no_email").map((result) => result.vendorName);
+      const failed = results.filter((result) => result.status === "failed").map((result) => result.vendorName);
+      toast({
+        title: `${sent} remittance advice(s) sent`,
+        description: [
+          missing.length ? `No email on file: ${missing.join(", ")}.` : "",
+          failed.length ? `Failed: ${failed.join(", ")}.` : "",
+        ]
+          .filter(Boolean)
+          .join(" ") || undefined,
+        variant: failed.length ? "destructive" : undefined,
+      });
+    },
+    onError: onError("Could not email remittance advice"),
+  });
+
+  const saveEftMutation = useMutation({
+    mutationFn: (form: EftSettingsForm) =>
+      apiRequest("PUT", `/api/payment-runs/${clientId}/eft-settings`, form).then((res) => res.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: eftSettingsKey });
+      setEftForm(null);
+      toast({ title: "EFT settings saved" });
+    },
+    onError: onError("Could not save EFT settings"),
+  });
+
+  const saveBankMutation = useMutation({
+    mutationFn: ({ vendorId, ...form }: BankDetailsForm) =>
+      apiRequest("PUT", `/api/payment-runs/${clientId}/vendor-bank-details/${vendorId}`, {
+        ...form,
+        accountHolderName: form.accountHolderName.trim() || null,
+        remittanceEmail: form.remittanceEmail.trim() || null,
+      }).then((res) => res.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bankDetailsKey });
+      setBankForm(null);
+      toast({ title: "Vendor bank details saved" });
+    },
+    onError: onError("Could not save vendor bank details"),
+  });
+
+  const deleteBankMutation = useMutation({
+    mutationFn: (vendorId: number) =>
+      apiRequest("DELETE", `/api/payment-runs/${clientId}/vendor-bank-details/${vendorId}`).then((res) => res.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: bankDetailsKey });
+      toast({ title: "Vendor bank details removed" });
+    },
+    onError: onError("Could not remove vendor bank details"),
+  });
+
+  function refreshAfterRun() {
+    queryClient.invalidateQueries({ queryKey: runsKey });
+    queryClient.invalidateQueries({ queryKey: ["bills", clientId] });
+    queryClient.invalidateQueries({ queryKey: approvalStatusesKey(clientId) });
+    queryClient.invalidateQueries({ queryKey: ["accounts", clientId] });
+  }
+
+  const toggleBill = (bill: ProposedBill, checked: boolean) => {
+    if (checked) {
+      setAmounts({ ...amounts, [bill.billId]: bill.balanceDue.toFixed(2) });
+    } else {
+      const { [bill.billId]: _removed, ...rest } = amounts;
+      setAmounts(rest);
+    }
+  };
+
+  const download = (url: string, fileName: string) =>
+    downloadFile(url, fileName).catch((error: Error) =>
+      toast({ title: "Download failed", description: error.message, variant: "destructive" })
+    );
+
+  const viewRemittance = async (runId: number, paymentId: number) => {
+    try {
+      const response = await apiRequest("GET", `/api/payment-runs/${clientId}/runs/${runId}/payments/${paymentId}/remittance`);
+      const blobUrl = window.URL.createObjectURL(new Blob([await response.text()], { type: "text/html" }));
+      window.open(blobUrl, "_blank");
+    } catch (error: any) {
+      toast({ title: "Could not open remittance advice", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (!clientId) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">Select a client to run vendor payments.</CardContent>
+      </Card>
+    );
+  }
+
+  const invalidAmount = selectedBills.some((bill) => {
+    const amount = parseFloat(amounts[bill.billId]);
+    return !(amount > 0) || amount > bill.balanceDue + 0.005;
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>New Payment Run</CardTitle>
+          <CardDescription>
+            Bills are proposed oldest due date first, up to the bank balance or the cap you set. Bills awaiting
+            approval are listed but cannot be paid.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-1">
+              <Label>Pay from</Label>
+              <Select value={bankAccountId} onValueChange={setBankAccountId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Bank account" />
+                </SelectTrigger>
+                <SelectContent>
+                  {bankAccounts.map((account: any) => (
+                    <SelectItem key={account.id} value={String(account.id)}>
+                      {account.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-run-date">Payment date</Label>
+              <Input id="payment-run-date" type="date" value={paymentDate} onChange={(e) => setPaymentDate(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-run-due">Due on or before</Label>
+              <Input id="payment-run-due" type="date" value={dueOnOrBefore} onChange={(e) => setDueOnOrBefore(e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label>Vendor</Label>
+              <Select value={vendorFilter} onValueChange={setVendorFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All vendors</SelectItem>
+                  {vendors.map((vendor: any) => (
+                    <SelectItem key={vendor.id} value={String(vendor.id)}>
+                      {vendor.vendorName || vendor.companyName || vendor.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="payment-run-cap">Cap</Label>
+              <Input
+                id="payment-run-cap"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amountCap}
+                onChange={(e) => setAmountCap(e.target.value)}
+                placeholder="Bank balance"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end">
+            <Button
+              variant="outline"
+              disabled={!bankAccountId || !paymentDate || proposeMutation.isPending}
+              onClick={() => proposeMutation.mutate()}
+            >
+              {proposeMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Calculator className="h-4 w-4 mr-2" />}
+              Propose payments
+            </Button>
+          </div>
+
+          {proposal && (
+            <>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Bank balance</div>
+                  <div className="font-semibold">${formatCurrency(proposal.bankBalance)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Cap</div>
+                  <div className="font-semibold">${formatCurrency(proposal.amountCap)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">This run</div>
+                  <div className={`font-semibold ${overCap ? "text-red-600" : ""}`}>${formatCurrency(runTotal)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Balance after run</div>
+                  <div className="font-semibold">${formatCurrency(proposal.bankBalance - runTotal)}</div>
+                </div>
+              </div>
+
+              {proposal.bills.length === 0 ? (
+                <p className="text-sm text-muted-foreground py-6 text-center">No outstanding bills match these filters.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-10" />
+                      <TableHead>Vendor</TableHead>
+                      <TableHead>Bill</TableHead>
+                      <TableHead>Due</TableHead>
+                      <TableHead className="text-right">Balance due</TableHead>
+                      <TableHead>Method</TableHead>
+                      <TableHead className="text-right w-36">Pay</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {proposal.bills.map((bill) => {
+                      const included = amounts[bill.billId] !== undefined;
+                      return (
+                        <TableRow key={bill.billId} className={bill.payable ? "" : "opacity-60"}>
+                          <TableCell>
+                            <Checkbox
+                              checked={included}
+                              disabled={!bill.payable}
+                              onCheckedChange={(checked) => toggleBill(bill, checked === true)}
+                            />
+                          </TableCell>
+                          <TableCell>{bill.vendorName}</TableCell>
+                          <TableCell>
+                            {bill.billNumber || `#${bill.billId}`}
+                            {!bill.payable && (
+                              <Badge className="ml-2 bg-amber-100 text-amber-800">
+                                {bill.approvalStatus === "rejected" ? "Rejected" : "Awaiting approval"}
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>{formatDate(bill.dueDate)}</TableCell>
+                          <TableCell className="text-right">${formatCurrency(bill.balanceDue)}</TableCell>
+                          <TableCell>
+                            <Badge variant="outline">{bill.method === "eft" ? "EFT" : "Cheque"}</Badge>
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Input
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              className="text-right"
+                              disabled={!included}
+                              value={amounts[bill.billId] ?? ""}
+                              onChange={(e) => setAmounts({ ...amounts, [bill.billId]: e.target.value })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              )}
+
+              <div className="flex flex-wrap items-end justify-between gap-4">
+                <div className="space-y-1">
+                  <Label htmlFor="payment-run-cheque">First cheque number</Label>
+                  <Input
+                    id="payment-run-cheque"
+                    type="number"
+                    min="1"
+                    className="w-40"
+                    value={firstChequeNumber}
+                    onChange={(e) => setFirstChequeNumber(e.target.value)}
+                    placeholder={String(
+                      bankAccounts.find((account: any) => String(account.id) === bankAccountId)?.nextChequeNumber || 1001
+                    )}
+                  />
+                </div>
+                <div className="flex items-center gap-4">
+                  {overCap && <span className="text-sm text-red-600">The run is over the cap.</span>}
+                  <span className="text-sm text-muted-foreground">
+                    {selectedBills.length} bill(s) · {vendorCount} vendor(s)
+                  </span>
+                  <Button
+                    disabled={selectedBills.length === 0 || overCap || invalidAmount || generateMutation.isPending}
+                    onClick={() => generateMutation.mutate()}
+                  >
+                    {generateMutation.isPending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Play className="h-4 w-4 mr-2" />}
+                    Generate run
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payment Runs</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No payment runs yet.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Run</TableHead>
+                  <TableHead>Payment date</TableHead>
+                  <TableHead>Payments</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map((run) => (
+                  <TableRow key={run.id}>
+                    <TableCell className="font-medium">{run.runNumber}</TableCell>
+                    <TableCell>{formatDate(run.paymentDate)}</TableCell>
+                    <TableCell>
+                      {run.chequeCount} cheque(s) · {run.eftCount} EFT
+                    </TableCell>
+                    <TableCell className="text-right">${formatCurrency(parseFloat(run.totalAmount))}</TableCell>
+                    <TableCell>
+                      <Badge className={run.status === "voided" ? "bg-red-100 text-red-800" : "bg-green-100 text-green-800"}>
+                        {run.status === "voided" ? "Voided" : "Posted"}
+                      </Badge>
+                    </TableCell>
+                    <TableCell className="text-right space-x-1">
+                      <Button variant="ghost" size="sm" onClick={() => setViewRunId(run.id)}>
+                        <Eye className="h-4 w-4" />
+                      </Button>
+                      {run.eftFileName && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => download(`/api/payment-runs/${clientId}/runs/${run.id}/eft-file`, run.eftFileName!)}
+                        >
+                          <Download className="h-4 w-4" />
+                        </Button>
+                      )}
+                      {run.status === "posted" && (
+                        <Button variant="ghost" size="sm" onClick={() => setVoidRun(run)}>
+                          <Ban className="h-4 w-4" />
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>EFT Setup</CardTitle>
+          <CardDescription>
+            Vendors with bank details on file are paid by EFT in a CPA-005 file for upload to the bank. Everyone else
+            gets a cheque.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="flex items-start justify-between gap-4">
+            <div className="text-sm">
+              {eftSettings ? (
+                <>
+                  <div className="font-medium">
+                    Originator {eftSettings.originatorId} · {eftSettings.longName}
+                  </div>
+                  <div className="text-muted-foreground">
+                    Data centre {eftSettings.destinationDataCentre} · returns to {eftSettings.returnInstitutionNumber}-
+                    {eftSettings.returnTransitNumber} · last file #{eftSettings.lastFileCreationNumber}
+                  </div>
+                </>
+              ) : (
+                <span className="text-muted-foreground">EFT is not set up; every vendor will be paid by cheque.</span>
+              )}
+            </div>
+            <Button variant="outline" size="sm" onClick={() => setEftForm(eftSettings ? { ...eftSettings } : emptyEftSettings)}>
+              {eftSettings ? "Edit originator" : "Set up EFT"}
+            </Button>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <h4 className="font-medium">Vendor bank details</h4>
+              <Button variant="outline" size="sm" onClick={() => setBankForm(emptyBankDetails)}>
+                Add bank details
+              </Button>
+            </div>
+            {bankDetails.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No vendor bank details on file.</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Vendor</TableHead>
+                    <TableHead>Institution / transit</TableHead>
+                    <TableHead>Account</TableHead>
+                    <TableHead>Remittance email</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bankDetails.map((details) => (
+                    <TableRow key={details.vendorId}>
+                      <TableCell>{details.vendorName}</TableCell>
+                      <TableCell>
+                        {details.institutionNumber} / {details.transitNumber}
+                      </TableCell>
+                      <TableCell>{details.accountNumber}</TableCell>
+                      <TableCell>{details.remittanceEmail || "—"}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          disabled={deleteBankMutation.isPending}
+                          onClick={() => deleteBankMutation.mutate(details.vendorId)}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!viewRunId} onOpenChange={(open) => !open && setViewRunId(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>Payment run {viewedRun?.runNumber}</DialogTitle>
+            <DialogDescription>
+              {viewedRun && `${formatDate(viewedRun.paymentDate)} · $${formatCurrency(parseFloat(viewedRun.totalAmount))}`}
+              {viewedRun?.status === "voided" && " · voided"}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-3 max-h-[28rem] overflow-y-auto">
+            {viewedRun?.payments?.map((payment) => (
+              <div key={payment.id} className="border rounded-lg p-3 text-sm space-y-2">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">
+                      {payment.vendorName} · ${formatCurrency(parseFloat(payment.amount))}
+                    </div>
+                    <div className="text-muted-foreground">
+                      {payment.method === "cheque" ? `Cheque #${payment.chequeNumber}` : "EFT"}
+                      {payment.status === "voided" && " · voided"}
+                      {payment.remittanceSentAt && ` · remittance sent ${format(new Date(payment.remittanceSentAt), "MMM d, yyyy")}`}
+                    </div>
+                  </div>
+                  <div className="flex gap-1">
+                    <Button variant="ghost" size="sm" onClick={() => viewRemittance(viewedRun.id, payment.id)}>
+                      <FileText className="h-4 w-4 mr-1" />
+                      Remittance
+                    </Button>
+                    {payment.chequeId && payment.status === "posted" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() =>
+                          download(`/api/cheque/${payment.chequeId}/pdf?clientId=${clientId}`, `cheque-${payment.chequeNumber}.pdf`)
+                        }
+                      >
+                        <Download className="h-4 w-4 mr-1" />
+                        Cheque
+                      </Button>
+                    )}
+                    {payment.status === "posted" && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        disabled={!payment.remittanceEmail || emailMutation.isPending}
+                        title={payment.remittanceEmail || "No email on file"}
+                        onClick={() => emailMutation.mutate({ runId: viewedRun.id, paymentIds: [payment.id] })}
+                      >
+                        <Mail className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+                <div className="text-muted-foreground">
+                  {payment.bills
+                    .map((bill) => `${bill.billNumber || `#${bill.billId}`} $${formatCurrency(parseFloat(bill.amount))}`)
+                    .join(" · ")}
+                </div>
+              </div>
+            ))}
+          </div>
+          <DialogFooter>
+            {viewedRun?.status === "posted" && (
+              <Button
+                variant="outline"
+                disabled={emailMutation.isPending}
+                onClick={() => emailMutation.mutate({ runId: viewedRun.id })}
+              >
+                <Mail className="h-4 w-4 mr-2" />
+                Email all remittances
+              </Button>
+            )}
+            <Button onClick={() => setViewRunId(null)}>Close</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!voidRun} onOpenChange={(open) => !open && setVoidRun(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Void payment run {voidRun?.runNumber}?</DialogTitle>
+            <DialogDescription>
+              Every payment's journal entry is reversed, its cheques are voided and the bills are reopened. An EFT file
+              already sent to the bank must be recalled with the bank separately.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setVoidRun(null)}>
+              Cancel
+            </Button>
+            <Button
+              variant="destructive"
+              disabled={voidMutation.isPending}
+              onClick={() => voidRun && voidMutation.mutate(voidRun)}
+            >
+              {voidMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Void run
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!eftForm} onOpenChange={(open) => !open && setEftForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>EFT originator</DialogTitle>
+            <DialogDescription>The CPA-005 details issued by the client's bank.</DialogDescription>
+          </DialogHeader>
+          {eftForm && (
+            <div className="grid grid-cols-2 gap-3">
+              {(
+                [
+                  ["originatorId", "Originator ID"],
+                  ["destinationDataCentre", "Destination data centre"],
+                  ["shortName", "Short name (15)"],
+                  ["longName", "Long name (30)"],
+                  ["returnInstitutionNumber", "Return institution"],
+                  ["returnTransitNumber", "Return transit"],
+                  ["returnAccountNumber", "Return account"],
+                ] as Array<[keyof EftSettingsForm, string]>
+              ).map(([field, label]) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`eft-${field}`}>{label}</Label>
+                  <Input
+                    id={`eft-${field}`}
+                    value={eftForm[field]}
+                    onChange={(e) => setEftForm({ ...eftForm, [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEftForm(null)}>
+              Cancel
+            </Button>
+            <Button disabled={saveEftMutation.isPending} onClick={() => eftForm && saveEftMutation.mutate(eftForm)}>
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!bankForm} onOpenChange={(open) => !open && setBankForm(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Vendor bank details</DialogTitle>
+            <DialogDescription>Saving details for a vendor that already has them replaces them.</DialogDescription>
+          </DialogHeader>
+          {bankForm && (
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1 col-span-2">
+                <Label>Vendor</Label>
+                <Select value={bankForm.vendorId} onValueChange={(vendorId) => setBankForm({ ...bankForm, vendorId })}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select vendor" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {vendors.map((vendor: any) => (
+                      <SelectItem key={vendor.id} value={String(vendor.id)}>
+                        {vendor.vendorName || vendor.companyName || vendor.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {(
+                [
+                  ["institutionNumber", "Institution (3 digits)"],
+                  ["transitNumber", "Transit (5 digits)"],
+                  ["accountNumber", "Account number"],
+                  ["accountHolderName", "Account holder"],
+                  ["remittanceEmail", "Remittance email"],
+                ] as Array<[Exclude<keyof BankDetailsForm, "vendorId">, string]>
+              ).map(([field, label]) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`bank-${field}`}>{label}</Label>
+                  <Input
+                    id={`bank-${field}`}
+                    value={bankForm[field]}
+                    onChange={(e) => setBankForm({ ...bankForm, [field]: e.target.value })}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setBankForm(null)}>
+              Cancel
+            </Button>
+            <Button
+              disabled={!bankForm?.vendorId || saveBankMutation.isPending}
+              onClick={() => bankForm && saveBankMutation.mutate(bankForm)}
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -34,6 +34,11 @@ import {
 import { useToast } from "@/hooks/use-toast";
 import { SectionAIHelper } from "./SectionAIHelper";
 import { apiConfig } from "@/lib/api-config";
+import GeneralLedgerModal from "@/components/financial/GeneralLedgerModal";
+import {
+  exportReconciliationReport,
+  type BankReconciliationReport,
+} from "@/components/reconciliation/ReconciliationReportPanel";
 
 interface CashAccount {
   accountId: number;
@@ -54,6 +59,7 @@ interface CashSectionData {
   lastReconcileDate?: string;
   auditRisks: string[];
   recommendedProcedures: string[];
+  bankReconciliations?: BankReconciliationReport[];
 }
 
 interface CashSectionProps {
@@ -62,6 +68,7 @@ interface CashSectionProps {
 
 export function CashSection({ clientId }: CashSectionProps) {
   const [workingPapers, setWorkingPapers] = useState<any>(null);
+  const [drillDownAccount, setDrillDownAccount] = useState<CashAccount | null>(null);
   const { toast } = useToast();
   const queryClient = useQueryClient();
 
@@ -238,6 +245,72 @@ export function CashSection({ clientId }: CashSectionProps) {
         </Card>
       )}
 
+      {/* Finalized Bank Reconciliations */}
+      {cashData?.bankReconciliations && cashData.bankReconciliations.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Calculator className="w-5 h-5" />
+              Bank Reconciliations
+            </CardTitle>
+            <CardDescription>
+              Latest finalized reconciliation for each bank account
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Account</TableHead>
+                  <TableHead>Period End</TableHead>
+                  <TableHead className="text-right">Statement Balance</TableHead>
+                  <TableHead className="text-right">Outstanding Items</TableHead>
+                  <TableHead className="text-right">Adjusted Book Balance</TableHead>
+                  <TableHead className="text-right">Working Paper</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {cashData.bankReconciliations.map((report) => (
+                  <TableRow key={report.reportId ?? report.sessionId}>
+                    <TableCell className="font-medium">{report.accountName}</TableCell>
+                    <TableCell>{report.periodEnd}</TableCell>
+                    <TableCell className="text-right">
+                      ${report.statementBalance.toLocaleString('en-CA', { minimumFractionDigits: 2 })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {report.depositsInTransit.length + report.outstandingCheques.length}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      ${report.adjustedBookBalance.toLocaleString('en-CA', { minimumFractionDigits: 2 })}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-2">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => exportReconciliationReport(report, 'pdf', 'Company')}
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          PDF
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => exportReconciliationReport(report, 'excel', 'Company')}
+                        >
+                          <Download className="w-4 h-4 mr-2" />
+                          Excel
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Cash Accounts Table */}
       {cashData?.cashAccounts && cashData.cashAccounts.length > 0 && (
         <Card>
@@ -266,7 +339,14 @@ export function CashSection({ clientId }: CashSectionProps) {
                       {account.accountNumber || '-'}
                     </TableCell>
                     <TableCell className="font-medium">
-                      {account.accountName}
+                      <button
+                        type="button"
+                        className="text-left hover:underline hover:text-blue-600"
+                        onClick={() => setDrillDownAccount(account)}
+                        data-testid={`drill-down-${account.accountId}`}
+                      >
+                        {account.accountName}
+                      </button>
                     </TableCell>
                     <TableCell>
                       <Badge variant="secondary">{account.subtype}</Badge>
@@ -344,6 +424,19 @@ export function CashSection({ clientId }: CashSectionProps) {
           </CardContent>
         </Card>
       </div>
+
+      {drillDownAccount && (
+        <GeneralLedgerModal
+          isOpen={!!drillDownAccount}
+          onClose={() => setDrillDownAccount(null)}
+          accountId={drillDownAccount.accountId}
+          accountName={drillDownAccount.accountName}
+          accountNumber={drillDownAccount.accountNumber || ''}
+          accountType={drillDownAccount.accountType || 'asset'}
+          clientId={clientId}
+          endDate={new Date().toISOString().split('T')[0]}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
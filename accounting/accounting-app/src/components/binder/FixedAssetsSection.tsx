@@ -0,0 +1,268 @@
+// BINDER: Property, Plant & Equipment Section Component
+// Fixed asset continuity, CCA schedule and the generated working paper from the asset register
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Building,
+  FileText,
+  Download,
+  RefreshCw,
+  Calculator,
+  CheckCircle
+} from "lucide-react";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { apiConfig } from "@/lib/api-config";
+import type { FixedAssetContinuity } from "@/lib/types";
+
+interface WorkingPaperFile {
+  fileName: string;
+  type: string;
+  size: number;
+  url: string;
+}
+
+interface FixedAssetsSectionProps {
+  clientId: number;
+}
+
+const formatAmount = (value: number | undefined) =>
+  (value || 0).toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function FixedAssetsSection({ clientId }: FixedAssetsSectionProps) {
+  const [yearDate, setYearDate] = useState(new Date().toISOString().split("T")[0]);
+  const [workingPapers, setWorkingPapers] = useState<WorkingPaperFile[]>([]);
+  const { toast } = useToast();
+
+  const { data: continuity, isLoading, refetch } = useQuery<FixedAssetContinuity>({
+    queryKey: [`/api/fixed-assets/${clientId}/schedule-8`, yearDate],
+    queryFn: () =>
+      apiRequest("GET", `/api/fixed-assets/${clientId}/schedule-8?date=${yearDate}`).then(res => res.json()),
+  });
+
+  const attachMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/fixed-assets/${clientId}/working-paper/attach`, { date: yearDate }).then(res => res.json()),
+    onSuccess: (data: { files: WorkingPaperFile[] }) => {
+      setWorkingPapers(data.files);
+      toast({ title: "Working paper generated", description: data.files[0]?.fileName });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not generate working paper", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-32 w-full" />
+        <Skeleton className="h-64 w-full" />
+      </div>
+    );
+  }
+
+  const book = continuity?.book;
+  const schedule8 = continuity?.schedule8;
+
+  return (
+    <div className="space-y-6">
+      {/* PP&E Summary */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Building className="w-5 h-5" />
+                Property, Plant & Equipment
+              </CardTitle>
+              <CardDescription>
+                {continuity
+                  ? `Fixed asset register for the tax year ${continuity.taxYear.start} to ${continuity.taxYear.end}`
+                  : "Fixed asset register"}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Input type="date" value={yearDate} onChange={(e) => setYearDate(e.target.value)} className="w-40" />
+              <Button variant="outline" size="sm" onClick={() => refetch()}>
+                <RefreshCw className="w-4 h-4" />
+              </Button>
+              <Button size="sm" onClick={() => attachMutation.mutate()} disabled={attachMutation.isPending}>
+                <FileText className="w-4 h-4 mr-2" />
+                Generate Working Paper
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="text-center p-4 bg-blue-50 rounded-lg">
+              <div className="text-2xl font-bold text-blue-600">${formatAmount(book?.totals.closingCost)}</div>
+              <div className="text-sm text-gray-600">Closing Cost</div>
+            </div>
+            <div className="text-center p-4 bg-orange-50 rounded-lg">
+              <div className="text-2xl font-bold text-orange-600">${formatAmount(book?.totals.depreciation)}</div>
+              <div className="text-sm text-gray-600">Book Depreciation</div>
+            </div>
+            <div className="text-center p-4 bg-green-50 rounded-lg">
+              <div className="text-2xl font-bold text-green-600">${formatAmount(book?.totals.netBookValue)}</div>
+              <div className="text-sm text-gray-600">Net Book Value</div>
+            </div>
+            <div className="text-center p-4 bg-purple-50 rounded-lg">
+              <div className="text-2xl font-bold text-purple-600">${formatAmount(schedule8?.totals.cca)}</div>
+              <div className="text-sm text-gray-600">CCA Claimed</div>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Generated working papers */}
+      {workingPapers.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CheckCircle className="w-5 h-5 text-green-600" />
+              Working Papers
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {workingPapers.map((file) => (
+              <div key={file.fileName} className="border rounded-lg p-4 flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <FileText className="w-4 h-4 text-blue-600" />
+                  <span className="font-medium">{file.fileName}</span>
+                  <Badge variant="secondary">{file.type}</Badge>
+                  <span className="text-xs text-gray-500">{(file.size / 1024).toFixed(1)} KB</span>
+                </div>
+                <Button size="sm" variant="outline" onClick={() => window.open(apiConfig.buildUrl(file.url), "_blank")}>
+                  <Download className="w-4 h-4 mr-2" />
+                  Download
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Fixed Asset Roll-forward */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building className="w-5 h-5" />
+            Fixed Asset Roll-forward
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {book && book.rows.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Asset</TableHead>
+                  <TableHead>Class</TableHead>
+                  <TableHead className="text-right">Opening Cost</TableHead>
+                  <TableHead className="text-right">Additions</TableHead>
+                  <TableHead className="text-right">Disposals</TableHead>
+                  <TableHead className="text-right">Depreciation</TableHead>
+                  <TableHead className="text-right">Closing Accum.</TableHead>
+                  <TableHead className="text-right">NBV</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {book.rows.map((row) => (
+                  <TableRow key={row.assetId}>
+                    <TableCell className="font-medium">{row.name}</TableCell>
+                    <TableCell>{row.ccaClass}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.openingCost)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.additions)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.disposals)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.depreciation)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.closingAccumulated)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.netBookValue)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold border-t-2">
+                  <TableCell colSpan={2}>Total</TableCell>
+                  <TableCell className="text-right">{formatAmount(book.totals.openingCost)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(book.totals.additions)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(book.totals.disposals)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(book.totals.depreciation)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(book.totals.closingAccumulated)}</TableCell>
+                  <TableCell className="text-right">{formatAmount(book.totals.netBookValue)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-gray-600 text-sm">No assets in the register for this year. Add them under Books → Fixed Assets.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* CCA Schedule */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Calculator className="w-5 h-5" />
+            CCA Schedule (T2 Schedule 8)
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {schedule8 && schedule8.rows.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Class</TableHead>
+                  <TableHead className="text-right">Opening UCC</TableHead>
+                  <TableHead className="text-right">Additions</TableHead>
+                  <TableHead className="text-right">Proceeds</TableHead>
+                  <TableHead className="text-right">Recapture / Terminal Loss</TableHead>
+                  <TableHead className="text-right">CCA</TableHead>
+                  <TableHead className="text-right">Closing UCC</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {schedule8.rows.map((row) => (
+                  <TableRow key={row.classKey}>
+                    <TableCell className="font-medium">
+                      {row.ccaClass} <span className="text-xs text-gray-500">({row.rate}%)</span>
+                      {row.assetId && <div className="text-xs text-gray-500">{row.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(row.openingUcc)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.additions)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.proceeds)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.recapture > 0 && <span className="text-red-600">{formatAmount(row.recapture)} recapture</span>}
+                      {row.terminalLoss > 0 && <span className="text-orange-600">{formatAmount(row.terminalLoss)} terminal loss</span>}
+                      {row.recapture === 0 && row.terminalLoss === 0 && "-"}
+                    </TableCell>
+                    <TableCell className="text-right">{formatAmount(row.cca)}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.closingUcc)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-gray-600 text-sm">No CCA classes for this year.</p>
+          )}
+          {continuity && (
+            <div className="mt-4 text-sm text-gray-600">
+              Book-to-tax adjustment (Schedule 1): <span className="font-semibold">{formatAmount(continuity.bookToTax.netAdjustment)}</span>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -12,6 +12,7 @@ import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
 import { useToast } from '@/hooks/use-toast';
 import { apiRequest } from '@/lib/queryClient';
 import { apiConfig } from "@/lib/api-config";
+import GeneralLedgerModal from "@/components/financial/GeneralLedgerModal";
 
 interface InventoryAccount {
   accountId: number;
@@ -63,6 +64,7 @@ export function InventorySection({ binderId, clientId, sectionId }: InventorySec
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [activeTab, setActiveTab] = useState('overview');
+  const [drillDownAccount, setDrillDownAccount] = useState<InventoryAccount | null>(null);
   const [tarsPrompt, setTarsPrompt] = useState('');
   const [selectedAnalysisType, setSelectedAnalysisType] = useState<TarsAnalysis['analysisType']>('inventory_rollforward');
 
@@ -231,7 +233,14 @@ export function InventorySection({ binderId, clientId, sectionId }: InventorySec
                   {inventoryData.map((account: InventoryAccount) => (
                     <div key={account.accountId} className="flex items-center justify-between p-3 border rounded">
                       <div>
-                        <div className="font-medium">{account.accountName}</div>
+                        <button
+                          type="button"
+                          className="font-medium text-left hover:underline hover:text-blue-600"
+                          onClick={() => setDrillDownAccount(account)}
+                          data-testid={`drill-down-${account.accountId}`}
+                        >
+                          {account.accountName}
+                        </button>
                         <div className="text-sm text-gray-500">Account ID: {account.accountId}</div>
                       </div>
                       <div className="text-right">
@@ -435,6 +444,19 @@ export function InventorySection({ binderId, clientId, sectionId }: InventorySec
           </Card>
         </TabsContent>
       </Tabs>
+
+      {drillDownAccount && (
+        <GeneralLedgerModal
+          isOpen={!!drillDownAccount}
+          onClose={() => setDrillDownAccount(null)}
+          accountId={drillDownAccount.accountId}
+          accountName={drillDownAccount.accountName}
+          accountNumber={''}
+          accountType={'asset'}
+          clientId={clientId}
+          endDate={new Date().toISOString().split('T')[0]}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
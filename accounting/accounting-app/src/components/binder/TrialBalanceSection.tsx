@@ -23,6 +23,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { apiConfig } from "@/lib/api-config";
+import GeneralLedgerModal from "@/components/financial/GeneralLedgerModal";
 import { 
   Calculator, 
   Database, 
@@ -63,6 +64,7 @@ export function TrialBalanceSection({ clientId, binderId }: TrialBalanceSectionP
   const [editingAccount, setEditingAccount] = useState<number | null>(null);
   const [editBalance, setEditBalance] = useState('');
   const [showGroupingDialog, setShowGroupingDialog] = useState(false);
+  const [drillDownAccount, setDrillDownAccount] = useState<TrialBalanceEntry | null>(null);
 
   const { toast } = useToast();
   const queryClient = useQueryClient();
@@ -326,7 +328,14 @@ export function TrialBalanceSection({ clientId, binderId }: TrialBalanceSectionP
                             {entry.accountNumber || entry.accountId}
                           </TableCell>
                           <TableCell className="font-medium">
-                            {entry.accountName}
+                            <button
+                              type="button"
+                              className="text-left hover:underline hover:text-blue-600"
+                              onClick={() => setDrillDownAccount(entry)}
+                              data-testid={`drill-down-${entry.accountId}`}
+                            >
+                              {entry.accountName}
+                            </button>
                             {entry.isEdited && (
                               <Badge variant="secondary" className="ml-2 text-xs">Edited</Badge>
                             )}
@@ -437,7 +446,13 @@ export function TrialBalanceSection({ clientId, binderId }: TrialBalanceSectionP
                          account.accountName.toLowerCase().includes('receivable')))
                       .map(account => (
                         <div key={account.accountId} className="flex justify-between text-sm py-1">
-                          <span>{account.accountName}</span>
+                          <button
+                            type="button"
+                            className="text-left hover:underline hover:text-blue-600"
+                            onClick={() => setDrillDownAccount(account)}
+                          >
+                            {account.accountName}
+                          </button>
                           <span className="font-mono">{formatCurrency(account.balance || account.netBalance || 0)}</span>
                         </div>
                       ))}
@@ -453,7 +468,13 @@ export function TrialBalanceSection({ clientId, binderId }: TrialBalanceSectionP
                          account.accountName.toLowerCase().includes('tax')))
                       .map(account => (
                         <div key={account.accountId} className="flex justify-between text-sm py-1">
-                          <span>{account.accountName}</span>
+                          <button
+                            type="button"
+                            className="text-left hover:underline hover:text-blue-600"
+                            onClick={() => setDrillDownAccount(account)}
+                          >
+                            {account.accountName}
+                          </button>
                           <span className="font-mono">{formatCurrency(account.balance || account.netBalance || 0)}</span>
                         </div>
                       ))}
@@ -466,7 +487,13 @@ export function TrialBalanceSection({ clientId, binderId }: TrialBalanceSectionP
                       .filter(account => account.accountType === 'income')
                       .map(account => (
                         <div key={account.accountId} className="flex justify-between text-sm py-1">
-                          <span>{account.accountName}</span>
+                          <button
+                            type="button"
+                            className="text-left hover:underline hover:text-blue-600"
+                            onClick={() => setDrillDownAccount(account)}
+                          >
+                            {account.accountName}
+                          </button>
                           <span className="font-mono">{formatCurrency(Math.abs(account.balance || account.netBalance || 0))}</span>
                         </div>
                       ))}
@@ -479,7 +506,13 @@ export function TrialBalanceSection({ clientId, binderId }: TrialBalanceSectionP
                       .filter(account => account.accountType === 'expense')
                       .map(account => (
                         <div key={account.accountId} className="flex justify-between text-sm py-1">
-                          <span>{account.accountName}</span>
+                          <button
+                            type="button"
+                            className="text-left hover:underline hover:text-blue-600"
+                            onClick={() => setDrillDownAccount(account)}
+                          >
+                            {account.accountName}
+                          </button>
                           <span className="font-mono">{formatCurrency(account.balance || account.netBalance || 0)}</span>
                         </div>
                       ))}
@@ -579,6 +612,19 @@ export function TrialBalanceSection({ clientId, binderId }: TrialBalanceSectionP
           </Card>
         </TabsContent>
       </Tabs>
+
+      {drillDownAccount && (
+        <GeneralLedgerModal
+          isOpen={!!drillDownAccount}
+          onClose={() => setDrillDownAccount(null)}
+          accountId={drillDownAccount.accountId}
+          accountName={drillDownAccount.accountName}
+          accountNumber={drillDownAccount.accountNumber || ''}
+          accountType={drillDownAccount.accountType}
+          clientId={clientId}
+          endDate={selectedDate}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
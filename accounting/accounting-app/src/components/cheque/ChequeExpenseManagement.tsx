@@ -25,6 +25,7 @@ import { CHEQUE_FIELD_DEFINITIONS } from '@/components/template-editor/FieldPale
 import { TemplateField } from '@/components/template-editor/TemplateCanvas';
 import { getCurrentDateString } from '@/lib/date-utils';
 import { AllAccountDropdown } from '@/components/ui/AccountDropdown';
+import { approvalStatusesKey, type BillApprovalState } from '@/components/bill/BillApprovals';
 
 const chequeLineSchema = z.object({
   description: z.string().min(1, 'Description is required'),
@@ -227,6 +228,17 @@ export default function ChequeExpenseManagement({ clientId }: ChequeExpenseManag
   
   const vendorBills = vendorBillsResponse?.data || [];
 
+  // Bills awaiting approval (or rejected) cannot be paid by cheque
+  const { data: approvalStatuses = {} } = useQuery<Record<number, BillApprovalState>>({
+    queryKey: approvalStatusesKey(clientId),
+    enabled: !!clientId,
+    queryFn: () => apiRequest(`/api/bill-approvals/${clientId}/statuses`, { method: 'GET' }).then(res => res.json()),
+  });
+  const isBillPayable = (bill: any) => {
+    const status = approvalStatuses[bill.id]?.approvalStatus;
+    return status !== 'pending' && status !== 'rejected';
+  };
+
   // Fetch all accounts from chart of accounts
   const { data: allAccounts = [] } = useQuery({
     queryKey: ['accounts/all', clientId],
@@ -934,6 +946,8 @@ export default function ChequeExpenseManagement({ clientId }: ChequeExpenseManag
                   .reduce((sum: number, bill: any) => sum + parseFloat(bill.balanceDue || 0), 0);
                 
                 const handleBillToggle = (billId: number) => {
+                  const toggled = vendorBills.find((bill: any) => bill.id === billId);
+                  if (toggled && !isBillPayable(toggled) && !selectedBillIds.has(billId)) return;
                   const newSelected = new Set(selectedBillIds);
                   if (newSelected.has(billId)) {
                     newSelected.delete(billId);
@@ -988,21 +1002,31 @@ export default function ChequeExpenseManagement({ clientId }: ChequeExpenseManag
                       {vendorBills.map((bill: any) => (
                         <div 
                           key={bill.id} 
-                          className={`flex items-center gap-3 p-2 rounded cursor-pointer transition-colors ${
-                            selectedBillIds.has(bill.id) ? 'bg-blue-50 border border-blue-200' : 'bg-gray-50 hover:bg-gray-100'
+                          className={`flex items-center gap-3 p-2 rounded transition-colors ${
+                            !isBillPayable(bill)
+                              ? 'bg-gray-50 opacity-60 cursor-not-allowed'
+                              : selectedBillIds.has(bill.id) ? 'bg-blue-50 border border-blue-200 cursor-pointer' : 'bg-gray-50 hover:bg-gray-100 cursor-pointer'
                           }`}
                           onClick={() => handleBillToggle(bill.id)}
                         >
                           <input
                             type="checkbox"
                             checked={selectedBillIds.has(bill.id)}
+                            disabled={!isBillPayable(bill) && !selectedBillIds.has(bill.id)}
                             onChange={() => handleBillToggle(bill.id)}
                             className="h-4 w-4 rounded border-gray-300 text-blue-600 focus:ring-blue-500"
                             onClick={(e) => e.stopPropagation()}
                           />
                           <div className="flex-1">
                             <div className="flex justify-between items-center">
-                              <span className="font-medium">{bill.billNumber}</span>
+                              <span className="font-medium">
+                                {bill.billNumber}
+                                {!isBillPayable(bill) && (
+                                  <Badge className="ml-2 bg-amber-100 text-amber-800">
+                                    {approvalStatuses[bill.id]?.approvalStatus === 'rejected' ? 'Rejected' : 'Awaiting approval'}
+                                  </Badge>
+                                )}
+                              </span>
                               <span className="text-lg font-semibold">${bill.balanceDue}</span>
                             </div>
                             {bill.description && (
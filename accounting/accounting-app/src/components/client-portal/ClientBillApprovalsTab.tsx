@@ -0,0 +1,154 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, History, Loader2, XCircle } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  ApprovalHistoryDialog,
+  type ApprovalBill,
+  type BillApprovalEvent,
+} from "@/components/bill/BillApprovals";
+
+export const portalBillApprovalsKey = ["/api/bill-approvals/portal/bills"];
+
+interface ClientBillApprovalsTabProps {
+  bills: ApprovalBill[];
+}
+
+type Decision = { billId: number; action: "approve" | "reject" };
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default function ClientBillApprovalsTab({ bills }: ClientBillApprovalsTabProps) {
+  const [comments, setComments] = useState<Record<number, string>>({});
+  const [historyBill, setHistoryBill] = useState<ApprovalBill | null>(null);
+  const [history, setHistory] = useState<BillApprovalEvent[]>([]);
+
+  const decisionMutation = useMutation({
+    mutationFn: ({ billId, action }: Decision) =>
+      apiRequest("POST", `/api/bill-approvals/portal/bills/${billId}/${action}`, {
+        comment: comments[billId]?.trim() || null,
+      }).then((res) => res.json()),
+    onSuccess: (_result, { billId, action }) => {
+      const { [billId]: _sent, ...rest } = comments;
+      setComments(rest);
+      queryClient.invalidateQueries({ queryKey: portalBillApprovalsKey });
+      toast({
+        title: action === "approve" ? "Bill approved" : "Bill rejected",
+        description: "Your accounting team has been notified.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to record your decision",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const showHistory = async (bill: ApprovalBill) => {
+    try {
+      const response = await apiRequest("GET", `/api/bill-approvals/portal/bills/${bill.billId}/history`);
+      setHistory(await response.json());
+      setHistoryBill(bill);
+    } catch (error: any) {
+      toast({ title: "Failed to load history", description: error.message, variant: "destructive" });
+    }
+  };
+
+  if (bills.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <CheckCircle className="h-10 w-10 mx-auto mb-3 text-green-500" />
+          <p>No bills are waiting for your approval.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Bills Awaiting Your Approval</CardTitle>
+          <CardDescription>
+            These bills will not be paid until they are approved. Give a reason if you reject one.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {bills.map((bill) => {
+            const comment = comments[bill.billId] || "";
+            const isSending = decisionMutation.isPending && decisionMutation.variables?.billId === bill.billId;
+            return (
+              <div key={bill.billId} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-start justify-between gap-2">
+                  <div>
+                    <div className="font-medium">
+                      {bill.vendorName || "Vendor"} · Bill {bill.billNumber || `#${bill.billId}`}
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {bill.billDate && format(new Date(`${bill.billDate.slice(0, 10)}T00:00:00`), "MMM d, yyyy")}
+                      {bill.dueDate && ` · due ${format(new Date(`${bill.dueDate.slice(0, 10)}T00:00:00`), "MMM d, yyyy")}`}
+                      {bill.currentLevelName && ` · ${bill.currentLevelName} approval`}
+                    </div>
+                  </div>
+                  <div className="text-lg font-semibold">${formatCurrency(bill.totalAmount)}</div>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor={`bill-comment-${bill.billId}`}>Comment</Label>
+                  <Textarea
+                    id={`bill-comment-${bill.billId}`}
+                    rows={2}
+                    value={comment}
+                    onChange={(e) => setComments({ ...comments, [bill.billId]: e.target.value })}
+                    placeholder="Required when rejecting"
+                  />
+                </div>
+                <div className="flex justify-between">
+                  <Button variant="ghost" size="sm" onClick={() => showHistory(bill)}>
+                    <History className="h-4 w-4 mr-2" />
+                    History
+                  </Button>
+                  <div className="flex gap-2">
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={!comment.trim() || isSending}
+                      onClick={() => decisionMutation.mutate({ billId: bill.billId, action: "reject" })}
+                    >
+                      <XCircle className="h-4 w-4 mr-2" />
+                      Reject
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isSending}
+                      onClick={() => decisionMutation.mutate({ billId: bill.billId, action: "approve" })}
+                    >
+                      {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <CheckCircle className="h-4 w-4 mr-2" />}
+                      Approve
+                    </Button>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <ApprovalHistoryDialog
+        title={`Approval history · Bill ${historyBill?.billNumber || `#${historyBill?.billId}`}`}
+        events={history}
+        open={!!historyBill}
+        onOpenChange={(open) => !open && setHistoryBill(null)}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,239 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { CheckCircle, HelpCircle, Loader2, Paperclip, Send } from "lucide-react";
+import { format } from "date-fns";
+import { toast } from "@/hooks/use-toast";
+import { queryClient } from "@/lib/queryClient";
+import { apiConfig } from "@/lib/api-config";
+import { openQuestionAttachment, type ClientQuestion } from "@/components/client-questions/ClientQuestionsPanel";
+
+export const portalQuestionsKey = ["/api/client-questions/portal/questions"];
+
+interface ClientQuestionsTabProps {
+  questions: ClientQuestion[];
+}
+
+interface AnswerDraft {
+  description: string;
+  categoryHint: string;
+  file: File | null;
+}
+
+const emptyDraft: AnswerDraft = { description: "", categoryHint: "", file: null };
+
+export default function ClientQuestionsTab({ questions }: ClientQuestionsTabProps) {
+  const [drafts, setDrafts] = useState<Record<number, AnswerDraft>>({});
+  const [editing, setEditing] = useState<Set<number>>(new Set());
+
+  const draftFor = (question: ClientQuestion): AnswerDraft =>
+    drafts[question.id] || {
+      description: question.answerDescription || "",
+      categoryHint: question.answerCategoryHint || "",
+      file: null,
+    };
+  const updateDraft = (question: ClientQuestion, changes: Partial<AnswerDraft>) =>
+    setDrafts({ ...drafts, [question.id]: { ...draftFor(question), ...changes } });
+
+  const answerMutation = useMutation({
+    mutationFn: async ({ questionId, draft }: { questionId: number; draft: AnswerDraft }) => {
+      const formData = new FormData();
+      formData.append("description", draft.description.trim());
+      if (draft.categoryHint.trim()) formData.append("categoryHint", draft.categoryHint.trim());
+      if (draft.file) formData.append("attachment", draft.file);
+
+      const response = await fetch(apiConfig.buildUrl(`/api/client-questions/portal/questions/${questionId}/answer`), {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+        headers: {
+          "Authorization": `Bearer ${localStorage.getItem("authToken")}`
+        }
+      });
+      const result = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(result.message || result.error || "Failed to send answer");
+      return result;
+    },
+    onSuccess: (_result, { questionId }) => {
+      const { [questionId]: _sent, ...rest } = drafts;
+      setDrafts(rest);
+      const nextEditing = new Set(editing);
+      nextEditing.delete(questionId);
+      setEditing(nextEditing);
+      queryClient.invalidateQueries({ queryKey: portalQuestionsKey });
+      toast({
+        title: "Answer sent",
+        description: "Your accounting team has been notified.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Failed to send answer",
+        description: error.message || "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const open = questions.filter((question) => question.status === "open");
+  const answered = questions.filter((question) => question.status === "answered");
+
+  if (questions.length === 0) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center text-muted-foreground">
+          <CheckCircle className="h-10 w-10 mx-auto mb-3 text-green-500" />
+          <p>No questions from your accountant right now.</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const renderQuestion = (question: ClientQuestion) => {
+    const draft = draftFor(question);
+    const isAnswering = question.status === "open" || editing.has(question.id);
+    const isSending = answerMutation.isPending && answerMutation.variables?.questionId === question.id;
+
+    return (
+      <div key={question.id} className="border rounded-lg p-4 space-y-3">
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <div className="font-medium">{question.transaction?.description || "Transaction"}</div>
+            {question.transaction && (
+              <div className="text-sm text-muted-foreground">
+                {question.transaction.date && format(new Date(`${question.transaction.date}T00:00:00`), "MMM d, yyyy")}
+                {" · "}${Math.abs(question.transaction.amount).toFixed(2)}
+              </div>
+            )}
+          </div>
+          {question.status === "answered" && (
+            <Badge className="bg-green-100 text-green-800">Answered</Badge>
+          )}
+        </div>
+        <div className="flex items-start gap-2 text-sm bg-blue-50 rounded p-2">
+          <HelpCircle className="h-4 w-4 mt-0.5 text-blue-600 shrink-0" />
+          <span>{question.question}</span>
+        </div>
+
+        {isAnswering ? (
+          <div className="space-y-3">
+            <div className="space-y-1">
+              <Label htmlFor={`answer-${question.id}`}>What was this for?</Label>
+              <Textarea
+                id={`answer-${question.id}`}
+                value={draft.description}
+                onChange={(e) => updateDraft(question, { description: e.target.value })}
+                placeholder="e.g. Printer paper and toner for the office"
+                rows={2}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`category-${question.id}`}>Category (optional)</Label>
+                <Input
+                  id={`category-${question.id}`}
+                  value={draft.categoryHint}
+                  onChange={(e) => updateDraft(question, { categoryHint: e.target.value })}
+                  placeholder="e.g. Office supplies"
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor={`receipt-${question.id}`}>Receipt (optional)</Label>
+                <Input
+                  id={`receipt-${question.id}`}
+                  type="file"
+                  accept="image/*,application/pdf"
+                  onChange={(e) => updateDraft(question, { file: e.target.files?.[0] || null })}
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              {question.status === "answered" && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => {
+                    const nextEditing = new Set(editing);
+                    nextEditing.delete(question.id);
+                    setEditing(nextEditing);
+                  }}
+                >
+                  Cancel
+                </Button>
+              )}
+              <Button
+                size="sm"
+                onClick={() => answerMutation.mutate({ questionId: question.id, draft })}
+                disabled={!draft.description.trim() || isSending}
+              >
+                {isSending ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <Send className="h-4 w-4 mr-2" />}
+                Send Answer
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="space-y-2 text-sm">
+            <div>
+              <span className="text-muted-foreground">Your answer: </span>
+              {question.answerDescription}
+              {question.answerCategoryHint && (
+                <Badge variant="outline" className="ml-2">{question.answerCategoryHint}</Badge>
+              )}
+            </div>
+            <div className="flex items-center justify-between">
+              {question.hasAttachment ? (
+                <Button
+                  variant="link"
+                  size="sm"
+                  className="h-auto p-0"
+                  onClick={() => openQuestionAttachment(`/api/client-questions/portal/questions/${question.id}/attachment`)}
+                >
+                  <Paperclip className="h-3 w-3 mr-1" />
+                  {question.answerAttachmentName || "Attachment"}
+                </Button>
+              ) : <span />}
+              <Button variant="outline" size="sm" onClick={() => setEditing(new Set(editing).add(question.id))}>
+                Change Answer
+              </Button>
+            </div>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Questions from Your Accountant</CardTitle>
+          <CardDescription>
+            Tell us what these transactions were for so we can record them correctly
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {open.length === 0 ? (
+            <p className="text-sm text-muted-foreground">All questions answered. Thank you!</p>
+          ) : open.map(renderQuestion)}
+        </CardContent>
+      </Card>
+
+      {answered.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Answered</CardTitle>
+            <CardDescription>Waiting for your accountant; you can still change an answer</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {answered.map(renderQuestion)}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
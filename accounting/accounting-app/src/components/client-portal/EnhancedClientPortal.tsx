@@ -49,6 +49,8 @@ import {
 import { format, formatDistanceToNow, startOfMonth, endOfMonth, startOfYear, endOfYear } from "date-fns";
 import ClientFinancialAI from "./ClientFinancialAI";
 import ClientChatInterface from "./ClientChatInterface";
+import ClientQuestionsTab, { portalQuestionsKey } from "./ClientQuestionsTab";
+import ClientBillApprovalsTab, { portalBillApprovalsKey } from "./ClientBillApprovalsTab";
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -259,12 +261,53 @@ export default function EnhancedClientPortal() {
     retry: false,
   });
 
+  // Get questions from the accounting team about transactions
+  const { data: questionsData } = useQuery({
+    queryKey: portalQuestionsKey,
+    queryFn: async () => {
+      try {
+        const response = await fetch('/api/client-questions/portal/questions', { 
+          credentials: 'include' 
+        });
+        if (!response.ok) throw new Error('Failed to fetch questions');
+        return await response.json();
+      } catch (error) {
+        console.error('Error fetching questions:', error);
+        return { questions: [] };
+      }
+    },
+    enabled: !!user?.clientId,
+    retry: false,
+  });
+
+  // Get vendor bills waiting for this user's approval
+  const { data: billApprovalsData } = useQuery({
+    queryKey: portalBillApprovalsKey,
+    queryFn: async () => {
+      try {
+        const response = await fetch('/api/bill-approvals/portal/bills', { 
+          credentials: 'include' 
+        });
+        if (!response.ok) throw new Error('Failed to fetch bill approvals');
+        return await response.json();
+      } catch (error) {
+        console.error('Error fetching bill approvals:', error);
+        return { bills: [] };
+      }
+    },
+    enabled: !!user?.clientId,
+    retry: false,
+  });
+
   const client = clientData?.client;
   const projects = projectsData?.projects || [];
   const invoices = invoicesData?.invoices || [];
   const invoiceSummary = invoicesData?.summary || {};
   const documents = documentsData?.documents || [];
   const activities = activityData?.activities || [];
+  const questions = questionsData?.questions || [];
+  const openQuestionCount = questions.filter((question: any) => question.status === 'open').length;
+  const billApprovals = billApprovalsData?.bills || [];
 
   const formatCurrency = (amount: number) => {
     return new Intl.NumberFormat('en-CA', {
@@ -455,7 +498,7 @@ export default function EnhancedClientPortal() {
 
         {/* Main Tabs */}
         <Tabs defaultValue="overview" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-9">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="financial">
               <BarChart3 className="h-4 w-4 mr-1" />
@@ -473,6 +516,12 @@ export default function EnhancedClientPortal() {
             <TabsTrigger value="communication">
               Messages
             </TabsTrigger>
+            <TabsTrigger value="questions">
+              Questions{openQuestionCount > 0 && ` (${openQuestionCount})`}
+            </TabsTrigger>
+            <TabsTrigger value="approvals">
+              Approvals{billApprovals.length > 0 && ` (${billApprovals.length})`}
+            </TabsTrigger>
             <TabsTrigger value="profile">
               Profile
             </TabsTrigger>
@@ -925,6 +974,16 @@ export default function EnhancedClientPortal() {
             />
           </TabsContent>
           
+          {/* Questions Tab */}
+          <TabsContent value="questions" className="space-y-6">
+            <ClientQuestionsTab questions={questions} />
+          </TabsContent>
+          
+          {/* Bill Approvals Tab */}
+          <TabsContent value="approvals" className="space-y-6">
+            <ClientBillApprovalsTab bills={billApprovals} />
+          </TabsContent>
+          
           {/* Profile Tab */}
           <TabsContent value="profile" className="space-y-6">
             <Card>
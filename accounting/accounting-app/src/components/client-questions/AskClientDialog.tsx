@@ -0,0 +1,115 @@
+import { useEffect, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, MessageCircleQuestion } from "lucide-react";
+
+export interface AskClientTransaction {
+  id: number;
+  description: string;
+  date?: string | null;
+  amount?: number | string | null;
+}
+
+interface AskClientDialogProps {
+  clientId: number | string;
+  // Transactions to ask about; the dialog is open while this is non-empty
+  transactions: AskClientTransaction[];
+  onClose: () => void;
+}
+
+const DEFAULT_QUESTION = "What was this transaction for? Please upload the receipt if you have it.";
+
+export const clientQuestionsKey = (clientId: number | string) => [`/api/client-questions/${clientId}/questions`];
+
+export function AskClientDialog({ clientId, transactions, onClose }: AskClientDialogProps) {
+  const { toast } = useToast();
+  const [question, setQuestion] = useState(DEFAULT_QUESTION);
+  const open = transactions.length > 0;
+
+  useEffect(() => {
+    if (open) setQuestion(DEFAULT_QUESTION);
+  }, [open]);
+
+  const askMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/client-questions/${clientId}/questions`, {
+        transactionIds: transactions.map((transaction) => transaction.id),
+        question: question.trim(),
+      }).then((res) => res.json()),
+    onSuccess: (result: { asked: unknown[]; skipped: number[] }) => {
+      toast({
+        title: "Question sent to client",
+        description: result.skipped.length
+          ? `${result.asked.length} asked; ${result.skipped.length} already had an open question`
+          : `The client will see ${result.asked.length === 1 ? "the question" : `${result.asked.length} questions`} in their portal`,
+      });
+      queryClient.invalidateQueries({ queryKey: clientQuestionsKey(clientId) });
+      onClose();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not ask client", description: error.message, variant: "destructive" });
+    },
+  });
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <MessageCircleQuestion className="h-5 w-5" />
+            Ask Client
+          </DialogTitle>
+          <DialogDescription>
+            The client is notified and can answer from their portal with a description or a receipt.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3 py-2">
+          <div className="max-h-32 overflow-y-auto space-y-1 text-sm">
+            {transactions.map((transaction) => (
+              <div key={transaction.id} className="flex justify-between gap-2 bg-muted/40 rounded px-2 py-1">
+                <span className="truncate">{transaction.description || `Transaction #${transaction.id}`}</span>
+                <span className="text-muted-foreground whitespace-nowrap">
+                  {transaction.date}
+                  {transaction.amount !== undefined && transaction.amount !== null &&
+                    ` · $${Math.abs(Number(transaction.amount)).toFixed(2)}`}
+                </span>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="client-question">Question</Label>
+            <Textarea
+              id="client-question"
+              value={question}
+              onChange={(e) => setQuestion(e.target.value)}
+              rows={3}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>
+            Cancel
+          </Button>
+          <Button onClick={() => askMutation.mutate()} disabled={!question.trim() || askMutation.isPending}>
+            {askMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Send Question
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,266 @@
+/**
+ * Client Questions Panel
+ *
+ * Staff view of the questions asked to a client about their transactions:
+ * open questions still waiting for the client, and answered ones to classify.
+ * Answered transactions are classified in bulk (one categorization per
+ * transaction) and their questions resolved once classified.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CheckCircle, Loader2, MessageCircleQuestion, Paperclip, XCircle } from "lucide-react";
+import { clientQuestionsKey } from "./AskClientDialog";
+
+export interface ClientQuestion {
+  id: number;
+  transactionId: number;
+  question: string;
+  status: "open" | "answered" | "resolved" | "cancelled";
+  answerDescription: string | null;
+  answerCategoryHint: string | null;
+  answerAttachmentName: string | null;
+  hasAttachment: boolean;
+  answeredAt: string | null;
+  reminderCount: number;
+  createdAt: string;
+  transaction: {
+    id: number;
+    date: string | null;
+    description: string;
+    amount: number;
+    accountId: number | null;
+  } | null;
+}
+
+interface ClientQuestionsPanelProps {
+  clientId: number | string;
+  accounts: { id: number; name: string; accountNumber?: string }[];
+}
+
+export async function openQuestionAttachment(url: string) {
+  const response = await apiRequest("GET", url);
+  const blob = await response.blob();
+  window.open(URL.createObjectURL(blob), "_blank");
+}
+
+export function ClientQuestionsPanel({ clientId, accounts }: ClientQuestionsPanelProps) {
+  const { toast } = useToast();
+  const [accountChoices, setAccountChoices] = useState<Record<number, number>>({});
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+
+  const { data } = useQuery<{ questions: ClientQuestion[] }>({
+    queryKey: clientQuestionsKey(clientId),
+    enabled: !!clientId,
+  });
+  const questions = data?.questions || [];
+  const open = questions.filter((question) => question.status === "open");
+  const answered = questions.filter((question) => question.status === "answered");
+
+  const accountFor = (question: ClientQuestion) =>
+    accountChoices[question.id] ?? question.transaction?.accountId ?? undefined;
+
+  const onChanged = () => {
+    queryClient.invalidateQueries({ queryKey: clientQuestionsKey(clientId) });
+    queryClient.invalidateQueries({ queryKey: [`/api/journal-entries/${clientId}`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions", clientId] });
+  };
+
+  const cancelMutation = useMutation({
+    mutationFn: (questionId: number) =>
+      apiRequest("POST", `/api/client-questions/${clientId}/questions/${questionId}/cancel`).then((res) => res.json()),
+    onSuccess: onChanged,
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel question", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const classifyMutation = useMutation({
+    mutationFn: async (toClassify: ClientQuestion[]) => {
+      const classified: { questionId: number; accountId: number }[] = [];
+      const failed: string[] = [];
+      for (const question of toClassify) {
+        const accountId = accountFor(question)!;
+        try {
+          await apiRequest("PATCH", `/api/transactions/${question.transactionId}`, { accountId });
+          classified.push({ questionId: question.id, accountId });
+        } catch (error) {
+          failed.push(`${question.transaction?.description || `#${question.transactionId}`}: ${(error as Error).message}`);
+        }
+      }
+      if (classified.length > 0) {
+        await apiRequest("POST", `/api/client-questions/${clientId}/resolve`, { resolutions: classified });
+      }
+      return { classified: classified.length, failed };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: `${result.classified} transactions classified`,
+        description: result.failed.length ? `Not classified: ${result.failed.join("; ")}` : undefined,
+        variant: result.failed.length ? "destructive" : undefined,
+      });
+      setSelected(new Set());
+      onChanged();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Classification failed", description: error.message, variant: "destructive" });
+      onChanged();
+    },
+  });
+
+  if (open.length === 0 && answered.length === 0) return null;
+
+  const toClassify = answered.filter((question) => selected.has(question.id));
+  const readyToClassify = toClassify.length > 0 && toClassify.every((question) => accountFor(question));
+
+  const toggle = (questionId: number, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(questionId);
+    else next.delete(questionId);
+    setSelected(next);
+  };
+
+  const transactionLine = (question: ClientQuestion) => (
+    <div className="text-sm">
+      <span className="font-medium">{question.transaction?.description || `Transaction #${question.transactionId}`}</span>
+      {question.transaction && (
+        <span className="text-muted-foreground ml-2">
+          {question.transaction.date} · ${Math.abs(question.transaction.amount).toFixed(2)}
+        </span>
+      )}
+    </div>
+  );
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="flex items-center gap-2 text-lg">
+          <MessageCircleQuestion className="h-5 w-5" />
+          Client Questions
+        </CardTitle>
+        <CardDescription>Transactions waiting on the client, and answers ready to classify</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Tabs defaultValue={answered.length > 0 ? "answered" : "open"}>
+          <TabsList>
+            <TabsTrigger value="answered">Answered ({answered.length})</TabsTrigger>
+            <TabsTrigger value="open">Waiting on Client ({open.length})</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="answered" className="space-y-2">
+            {answered.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No answers to classify.</p>
+            ) : (
+              <>
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={selected.size > 0 && selected.size === answered.length}
+                      onCheckedChange={(checked) =>
+                        setSelected(checked ? new Set(answered.map((question) => question.id)) : new Set())
+                      }
+                    />
+                    Select all
+                  </label>
+                  <Button
+                    size="sm"
+                    onClick={() => classifyMutation.mutate(toClassify)}
+                    disabled={!readyToClassify || classifyMutation.isPending}
+                    title={toClassify.length > 0 && !readyToClassify ? "Choose an account for every selected transaction" : undefined}
+                  >
+                    {classifyMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                    )}
+                    Classify Selected ({toClassify.length})
+                  </Button>
+                </div>
+                {answered.map((question) => (
+                  <div key={question.id} className="border rounded p-3 flex items-start gap-3">
+                    <Checkbox
+                      checked={selected.has(question.id)}
+                      onCheckedChange={(checked) => toggle(question.id, !!checked)}
+                      className="mt-1"
+                    />
+                    <div className="flex-1 space-y-1">
+                      {transactionLine(question)}
+                      <div className="text-sm bg-muted/40 rounded px-2 py-1">
+                        {question.answerDescription}
+                        {question.answerCategoryHint && (
+                          <Badge variant="outline" className="ml-2">{question.answerCategoryHint}</Badge>
+                        )}
+                      </div>
+                      {question.hasAttachment && (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0"
+                          onClick={() =>
+                            openQuestionAttachment(`/api/client-questions/${clientId}/questions/${question.id}/attachment`)
+                          }
+                        >
+                          <Paperclip className="h-3 w-3 mr-1" />
+                          {question.answerAttachmentName || "Attachment"}
+                        </Button>
+                      )}
+                    </div>
+                    <Select
+                      value={accountFor(question)?.toString() || ""}
+                      onValueChange={(value) => setAccountChoices({ ...accountChoices, [question.id]: parseInt(value) })}
+                    >
+                      <SelectTrigger className="w-56 h-9">
+                        <SelectValue placeholder="Choose account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {accounts.map((account) => (
+                          <SelectItem key={account.id} value={account.id.toString()}>
+                            {account.accountNumber ? `${account.accountNumber} - ${account.name}` : account.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </>
+            )}
+          </TabsContent>
+
+          <TabsContent value="open" className="space-y-2">
+            {open.length === 0 ? (
+              <p className="text-sm text-muted-foreground py-4 text-center">No questions are waiting on the client.</p>
+            ) : open.map((question) => (
+              <div key={question.id} className="border rounded p-3 flex items-start justify-between gap-2">
+                <div className="space-y-1">
+                  {transactionLine(question)}
+                  <div className="text-sm text-muted-foreground">{question.question}</div>
+                  <div className="text-xs text-muted-foreground">
+                    Asked {new Date(question.createdAt).toLocaleDateString()}
+                    {question.reminderCount > 0 && ` · ${question.reminderCount} reminder${question.reminderCount === 1 ? "" : "s"} sent`}
+                  </div>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => cancelMutation.mutate(question.id)}
+                  disabled={cancelMutation.isPending}
+                >
+                  <XCircle className="h-4 w-4 mr-1" />
+                  Cancel
+                </Button>
+              </div>
+            ))}
+          </TabsContent>
+        </Tabs>
+      </CardContent>
+    </Card>
+  );
+}
@@ -31,9 +31,16 @@ interface AgingRow {
   thirtyDays: number;   // 31-60 days
   sixtyDays: number;    // 61-90 days  
   ninetyDays: number;   // 90+ days
+  unappliedCredit: number; // payments and credit notes not yet applied
   totalBalance: number;
 }
 
+interface UnappliedCredit {
+  customerId: number;
+  customerName: string;
+  remaining: number;
+}
+
 export default function AccountsReceivableAging({ clientId, asOfDate = new Date().toISOString().split('T')[0] }: AccountsReceivableAgingProps) {
   const { toast } = useToast();
   const [showDetailed, setShowDetailed] = useState<boolean>(false);
@@ -69,7 +76,51 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
     refetchOnMount: 'always' // Always refetch when component mounts
   });
 
-  const agingData = agingResponse?.data || [];
+  // Unapplied payments and credit notes, netted against each customer's balance.
+  // The aging rows carry each invoice's current balance, so the credit is
+  // taken as it stands now too; credit as of a past date would count payments
+  // applied since then twice.
+  const { data: unappliedCredits = [] } = useQuery<UnappliedCredit[]>({
+    queryKey: ['/api/customer-payments/credits', clientId],
+    queryFn: async () => {
+      const response = await apiRequest('GET', `/api/customer-payments/${clientId}/credits`);
+      return response.json();
+    },
+    enabled: !!clientId,
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  const agingData: AgingRow[] = (() => {
+    const credits = new Map<number, { customerName: string; amount: number }>();
+    unappliedCredits.forEach((credit) => {
+      const existing = credits.get(credit.customerId);
+      credits.set(credit.customerId, {
+        customerName: credit.customerName,
+        amount: (existing?.amount || 0) + credit.remaining
+      });
+    });
+
+    const rows: AgingRow[] = (agingResponse?.data || []).map((row: AgingRow) => {
+      const credit = credits.get(row.customerId)?.amount || 0;
+      credits.delete(row.customerId);
+      return { ...row, unappliedCredit: credit, totalBalance: row.totalBalance - credit };
+    });
+    // Customers with credit but no open invoices
+    credits.forEach((credit, customerId) => {
+      rows.push({
+        customerId,
+        customerName: credit.customerName,
+        current: 0,
+        thirtyDays: 0,
+        sixtyDays: 0,
+        ninetyDays: 0,
+        unappliedCredit: credit.amount,
+        totalBalance: -credit.amount
+      });
+    });
+    return rows;
+  })();
 
   // Fetch detailed invoices for a specific customer
   const { data: detailedInvoices } = useQuery({
@@ -172,20 +223,20 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
       const worksheet = workbook.addWorksheet('AR Aging Report');
 
       // Add title
-      worksheet.mergeCells('A1:F1');
+      worksheet.mergeCells('A1:G1');
       const titleCell = worksheet.getCell('A1');
       titleCell.value = 'Accounts Receivable Aging Report';
       titleCell.font = { bold: true, size: 16 };
       titleCell.alignment = { horizontal: 'center' };
 
       // Add date
-      worksheet.mergeCells('A2:F2');
+      worksheet.mergeCells('A2:G2');
       const dateCell = worksheet.getCell('A2');
       dateCell.value = `As of ${new Date(asOfDate).toLocaleDateString()}`;
       dateCell.alignment = { horizontal: 'center' };
 
       // Add headers
-      const headers = ['Customer', 'Current (0-30)', '31-60 Days', '61-90 Days', '90+ Days', 'Total Balance'];
+      const headers = ['Customer', 'Current (0-30)', '31-60 Days', '61-90 Days', '90+ Days', 'Unapplied Credits', 'Total Balance'];
       const headerRow = worksheet.addRow(headers);
       headerRow.eachCell((cell) => {
         cell.font = { bold: true, color: { argb: 'FFFFFFFF' } };
@@ -211,6 +262,7 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
           row.thirtyDays,
           row.sixtyDays,
           row.ninetyDays,
+          -row.unappliedCredit,
           row.totalBalance
         ]);
         
@@ -236,6 +288,7 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
         totals.thirtyDays,
         totals.sixtyDays,
         totals.ninetyDays,
+        -totals.unappliedCredit,
         totals.totalBalance
       ]);
       
@@ -266,6 +319,7 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
         { width: 18 },
         { width: 18 },
         { width: 18 },
+        { width: 18 },
         { width: 18 }
       ];
 
@@ -339,9 +393,10 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
       thirtyDays: acc.thirtyDays + row.thirtyDays,
       sixtyDays: acc.sixtyDays + row.sixtyDays,
       ninetyDays: acc.ninetyDays + row.ninetyDays,
+      unappliedCredit: acc.unappliedCredit + row.unappliedCredit,
       totalBalance: acc.totalBalance + row.totalBalance
     }),
-    { current: 0, thirtyDays: 0, sixtyDays: 0, ninetyDays: 0, totalBalance: 0 }
+    { current: 0, thirtyDays: 0, sixtyDays: 0, ninetyDays: 0, unappliedCredit: 0, totalBalance: 0 }
   );
 
   if (!clientId) {
@@ -393,6 +448,7 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
                   <TableHead className="text-right">31-60 Days</TableHead>
                   <TableHead className="text-right">61-90 Days</TableHead>
                   <TableHead className="text-right">90+ Days</TableHead>
+                  <TableHead className="text-right">Unapplied Credits</TableHead>
                   <TableHead className="text-right">Total Balance</TableHead>
                 </TableRow>
               </TableHeader>
@@ -436,9 +492,12 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
                             : '-'
                           }
                         </TableCell>
+                        <TableCell className="text-right">
+                          {row.unappliedCredit > 0 ? `($${formatCurrency(row.unappliedCredit)})` : '-'}
+                        </TableCell>
                         <TableCell className="text-right font-medium">
                           <span className={row.totalBalance > 0 ? 'text-green-600' : 'text-gray-600'}>
-                            ${formatCurrency(Math.abs(row.totalBalance))}
+                            {row.totalBalance < 0 ? `($${formatCurrency(Math.abs(row.totalBalance))})` : `$${formatCurrency(row.totalBalance)}`}
                           </span>
                         </TableCell>
                       </TableRow>
@@ -446,7 +505,7 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
                       {/* Detailed invoice breakdown */}
                       {showDetailed && isExpanded && (
                         <TableRow className="bg-muted/30">
-                          <TableCell colSpan={7} className="p-0">
+                          <TableCell colSpan={8} className="p-0">
                             <div className="px-4 py-3">
                               <div className="text-sm font-semibold mb-2">Invoice Details:</div>
                               {invoiceDetails.length > 0 ? (
@@ -576,6 +635,9 @@ export default function AccountsReceivableAging({ clientId, asOfDate = new Date(
                   <TableCell className="text-right font-bold text-red-600">
                     ${formatCurrency(totals.ninetyDays)}
                   </TableCell>
+                  <TableCell className="text-right font-bold">
+                    {totals.unappliedCredit > 0 ? `($${formatCurrency(totals.unappliedCredit)})` : '-'}
+                  </TableCell>
                   <TableCell className="text-right font-bold text-green-600">
                     ${formatCurrency(totals.totalBalance)}
                   </TableCell>
@@ -0,0 +1,847 @@
+/**
+ * Dunning Management
+ *
+ * Collections for a client's overdue invoices: dunning sequences (steps at N
+ * days overdue, each with a document template, optional statement and late
+ * fee), today's dry-run report of who would get what, customers excluded or
+ * on hold, and the log of every step taken with its send status. Due steps
+ * are taken daily by the server scheduler; "Send now" takes them immediately.
+ */
+
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { AccountDropdown } from "@/components/ui/AccountDropdown";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { apiConfig } from "@/lib/api-config";
+import { getDocumentTemplates, type DocumentTemplate } from "@/lib/api/document-templates";
+import { ArrowLeft, Ban, Mail, PauseCircle, Pencil, Plus, Save, Send, Trash2 } from "lucide-react";
+
+type LateFeeType = "none" | "flat" | "percent";
+
+interface DunningStep {
+  id?: number;
+  name: string;
+  daysOverdue: number | string;
+  templateId: number | null;
+  emailSubject: string;
+  includeStatement: boolean;
+  lateFeeType: LateFeeType;
+  lateFeeValue: string | null;
+  lateFeeAccountId: number | null;
+}
+
+interface DunningSequence {
+  id: number;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+  steps: DunningStep[];
+}
+
+interface SequenceForm {
+  id?: number;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+  steps: DunningStep[];
+}
+
+interface OverdueInvoice {
+  invoiceId: number;
+  invoiceNumber: string;
+  dueDate: string;
+  daysOverdue: number;
+  balance: number;
+}
+
+interface PlannedAction {
+  customerId: number;
+  customerName: string;
+  email: string | null;
+  stepId: number;
+  stepName: string;
+  invoices: OverdueInvoice[];
+  amountOverdue: number;
+  includeStatement: boolean;
+  lateFeeAmount: number;
+  status?: string;
+  error?: string | null;
+}
+
+interface DunningReport {
+  asOfDate: string;
+  dryRun: boolean;
+  actions: PlannedAction[];
+  skipped: { customerId: number; customerName: string; reason: string; amountOverdue: number }[];
+}
+
+interface CustomerSetting {
+  customerId: number;
+  customerName: string;
+  excluded: boolean;
+  holdUntil: string | null;
+  reason: string | null;
+  sequenceId: number | null;
+}
+
+interface DunningAction {
+  id: number;
+  customerId: number;
+  stepName: string;
+  invoices: OverdueInvoice[];
+  amountOverdue: string;
+  status: "sent" | "failed" | "no_email";
+  recipient: string | null;
+  subject: string | null;
+  body: string | null;
+  lateFeeAmount: string | null;
+  error: string | null;
+  createdAt: string;
+}
+
+interface Customer {
+  id: number;
+  name: string;
+  companyName?: string;
+}
+
+interface DunningManagementProps {
+  clientId: number;
+}
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const emptyStep = (daysOverdue: number, name: string, emailSubject: string): DunningStep => ({
+  name,
+  daysOverdue,
+  templateId: null,
+  emailSubject,
+  includeStatement: false,
+  lateFeeType: "none",
+  lateFeeValue: null,
+  lateFeeAccountId: null,
+});
+
+// Friendly at 7 days, firmer at 30, statement and late fee at 60
+const starterForm = (): SequenceForm => ({
+  name: "Standard collections",
+  isDefault: true,
+  isActive: true,
+  steps: [
+    emptyStep(7, "Friendly reminder", "Friendly reminder: payment past due"),
+    emptyStep(30, "Second notice", "Second notice: {{amountOverdue}} overdue"),
+    {
+      ...emptyStep(60, "Final notice", "Final notice: statement and late fee"),
+      includeStatement: true,
+      lateFeeType: "percent",
+      lateFeeValue: "2",
+    },
+  ],
+});
+
+const STATUS_BADGES: Record<DunningAction["status"], { label: string; className: string }> = {
+  sent: { label: "Sent", className: "bg-green-100 text-green-800" },
+  failed: { label: "Failed", className: "bg-red-100 text-red-800" },
+  no_email: { label: "No email on file", className: "bg-amber-100 text-amber-800" },
+};
+
+export default function DunningManagement({ clientId }: DunningManagementProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<SequenceForm | null>(null);
+  const [logCustomerId, setLogCustomerId] = useState("all");
+  const [holdForm, setHoldForm] = useState({ customerId: "", mode: "hold", holdUntil: "", reason: "", sequenceId: "default" });
+
+  const sequencesKey = [`/api/dunning/${clientId}/sequences`];
+  const reportKey = [`/api/dunning/${clientId}/dry-run`];
+  const settingsKey = [`/api/dunning/${clientId}/customers`];
+  const logKey = [`/api/dunning/${clientId}/log`, logCustomerId];
+
+  const { data: sequences = [] } = useQuery<DunningSequence[]>({
+    queryKey: sequencesKey,
+    queryFn: () => apiRequest("GET", `/api/dunning/${clientId}/sequences`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: report, isLoading: reportLoading } = useQuery<DunningReport>({
+    queryKey: reportKey,
+    queryFn: () => apiRequest("GET", `/api/dunning/${clientId}/dry-run`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: settings = [] } = useQuery<CustomerSetting[]>({
+    queryKey: settingsKey,
+    queryFn: () => apiRequest("GET", `/api/dunning/${clientId}/customers`).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: log = [] } = useQuery<DunningAction[]>({
+    queryKey: logKey,
+    queryFn: () =>
+      apiRequest(
+        "GET",
+        `/api/dunning/${clientId}/log${logCustomerId !== "all" ? `?customerId=${logCustomerId}` : ""}`
+      ).then((res) => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: templates = [] } = useQuery<DocumentTemplate[]>({
+    queryKey: ["document-templates", clientId, "all"],
+    queryFn: () => getDocumentTemplates(undefined, clientId),
+    enabled: !!clientId && !!form,
+  });
+
+  // Same customer list as the Sales tab
+  const { data: customers = [] } = useQuery({
+    queryKey: ["customers", clientId],
+    queryFn: async () => {
+      const token = localStorage.getItem("authToken");
+      const headers: Record<string, string> = {};
+      if (token) {
+        headers["Authorization"] = `Bearer ${token}`;
+      }
+      const response = await fetch(apiConfig.buildUrl(`/api/crm/contacts/${clientId}`), {
+        credentials: "include",
+        headers,
+      });
+      if (!response.ok) throw new Error("Failed to fetch customers");
+      const result = await response.json();
+      return result.data.filter((contact: any) =>
+        contact.contactType === "customer" || contact.contactType === "both"
+      ) as Customer[];
+    },
+    enabled: !!clientId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: sequencesKey });
+    queryClient.invalidateQueries({ queryKey: reportKey });
+    queryClient.invalidateQueries({ queryKey: settingsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/dunning/${clientId}/log`] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (current: SequenceForm) => {
+      const payload = {
+        name: current.name.trim(),
+        isDefault: current.isDefault,
+        isActive: current.isActive,
+        steps: current.steps.map((step) => ({
+          id: step.id ?? null,
+          name: step.name.trim(),
+          daysOverdue: parseInt(String(step.daysOverdue)),
+          templateId: step.templateId,
+          emailSubject: step.emailSubject.trim(),
+          includeStatement: step.includeStatement,
+          lateFeeType: step.lateFeeType,
+          lateFeeValue: step.lateFeeType !== "none" ? parseFloat(step.lateFeeValue || "0") : null,
+          lateFeeAccountId: step.lateFeeType !== "none" ? step.lateFeeAccountId : null,
+        })),
+      };
+      const res = current.id
+        ? await apiRequest("PUT", `/api/dunning/${clientId}/sequences/${current.id}`, payload)
+        : await apiRequest("POST", `/api/dunning/${clientId}/sequences`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      setForm(null);
+      toast({ title: "Dunning sequence saved" });
+    },
+    onError: onError("Could not save dunning sequence"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (sequenceId: number) =>
+      apiRequest("DELETE", `/api/dunning/${clientId}/sequences/${sequenceId}`).then((res) => res.json()),
+    onSuccess: refresh,
+    onError: onError("Could not delete dunning sequence"),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/dunning/${clientId}/run`, {}).then((res) => res.json()),
+    onSuccess: (result: DunningReport) => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ["invoices", clientId] });
+      queryClient.invalidateQueries({ queryKey: ["all-invoices", clientId] });
+      queryClient.invalidateQueries({ queryKey: ["customer-statement"] });
+      const sent = result.actions.filter((action) => action.status === "sent").length;
+      const failed = result.actions.filter((action) => action.status === "failed").length;
+      toast({
+        title: "Dunning sent",
+        description: `${sent} sent, ${failed} failed, ${result.actions.length - sent - failed} without an email address.`,
+        variant: failed ? "destructive" : undefined,
+      });
+    },
+    onError: onError("Could not run dunning"),
+  });
+
+  const settingMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/dunning/${clientId}/customers/${holdForm.customerId}`, {
+        excluded: holdForm.mode === "exclude",
+        holdUntil: holdForm.mode === "hold" ? holdForm.holdUntil : null,
+        reason: holdForm.reason || null,
+        sequenceId: holdForm.sequenceId !== "default" ? parseInt(holdForm.sequenceId) : null,
+      }).then((res) => res.json()),
+    onSuccess: () => {
+      refresh();
+      setHoldForm({ customerId: "", mode: "hold", holdUntil: "", reason: "", sequenceId: "default" });
+      toast({ title: "Customer dunning updated" });
+    },
+    onError: onError("Could not update customer"),
+  });
+
+  const clearSettingMutation = useMutation({
+    mutationFn: (customerId: number) =>
+      apiRequest("DELETE", `/api/dunning/${clientId}/customers/${customerId}`).then((res) => res.json()),
+    onSuccess: refresh,
+    onError: onError("Could not update customer"),
+  });
+
+  const updateStep = (index: number, changes: Partial<DunningStep>) => {
+    setForm((current) => {
+      if (!current) return current;
+      return { ...current, steps: current.steps.map((step, i) => (i === index ? { ...step, ...changes } : step)) };
+    });
+  };
+
+  const customerLabel = (customerId: number) => {
+    const customer = customers.find((candidate) => candidate.id === customerId);
+    return customer ? customer.companyName || customer.name : `Customer ${customerId}`;
+  };
+
+  const holdFormValid =
+    !!holdForm.customerId && (holdForm.mode !== "hold" || !!holdForm.holdUntil || holdForm.sequenceId !== "default");
+
+  if (form) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>{form.id ? "Edit Dunning Sequence" : "New Dunning Sequence"}</CardTitle>
+          <CardDescription>
+            Each step is taken once per invoice when it reaches the step's days overdue. Message text comes from the
+            step's template; it can use {"{{customerName}}"}, {"{{amountOverdue}}"}, {"{{daysOverdue}}"},
+            {" {{invoiceList}}"}, {"{{lateFee}}"}, {"{{statement}}"}, {"{{clientName}}"} and {"{{date}}"}.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-3 gap-4 items-end">
+            <div>
+              <Label htmlFor="dunning-name">Name</Label>
+              <Input id="dunning-name" value={form.name} onChange={(e) => setForm({ ...form, name: e.target.value })} />
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="dunning-default"
+                checked={form.isDefault}
+                onCheckedChange={(checked) => setForm({ ...form, isDefault: checked })}
+              />
+              <Label htmlFor="dunning-default">Default for all customers</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="dunning-active"
+                checked={form.isActive}
+                onCheckedChange={(checked) => setForm({ ...form, isActive: checked })}
+              />
+              <Label htmlFor="dunning-active">Active</Label>
+            </div>
+          </div>
+
+          {form.steps.map((step, index) => (
+            <div key={step.id ?? `new-${index}`} className="border rounded-lg p-4 space-y-3">
+              <div className="grid grid-cols-6 gap-3">
+                <div>
+                  <Label>Days overdue</Label>
+                  <Input
+                    type="number"
+                    min={1}
+                    value={step.daysOverdue}
+                    onChange={(e) => updateStep(index, { daysOverdue: e.target.value })}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Label>Step name</Label>
+                  <Input value={step.name} onChange={(e) => updateStep(index, { name: e.target.value })} />
+                </div>
+                <div className="col-span-3">
+                  <Label>Template</Label>
+                  <Select
+                    value={step.templateId ? step.templateId.toString() : "standard"}
+                    onValueChange={(value) => updateStep(index, { templateId: value === "standard" ? null : parseInt(value) })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="standard">Standard past-due notice</SelectItem>
+                      {templates.map((template) => (
+                        <SelectItem key={template.id} value={template.id.toString()}>
+                          {template.name} ({template.documentType})
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+              <div>
+                <Label>Email subject</Label>
+                <Input value={step.emailSubject} onChange={(e) => updateStep(index, { emailSubject: e.target.value })} />
+              </div>
+              <div className="grid grid-cols-6 gap-3 items-end">
+                <div className="flex items-center space-x-2 col-span-2">
+                  <Switch
+                    checked={step.includeStatement}
+                    onCheckedChange={(checked) => updateStep(index, { includeStatement: checked })}
+                  />
+                  <Label>Include statement</Label>
+                </div>
+                <div>
+                  <Label>Late fee</Label>
+                  <Select
+                    value={step.lateFeeType}
+                    onValueChange={(value) => updateStep(index, { lateFeeType: value as LateFeeType })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">None</SelectItem>
+                      <SelectItem value="flat">Flat amount</SelectItem>
+                      <SelectItem value="percent">% of overdue</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                {step.lateFeeType !== "none" && (
+                  <>
+                    <div>
+                      <Label>{step.lateFeeType === "flat" ? "Amount" : "Percent"}</Label>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min={0}
+                        value={step.lateFeeValue || ""}
+                        onChange={(e) => updateStep(index, { lateFeeValue: e.target.value })}
+                      />
+                    </div>
+                    <div className="col-span-2">
+                      <Label>Late fee income account</Label>
+                      <AccountDropdown
+                        clientId={clientId}
+                        value={step.lateFeeAccountId ? step.lateFeeAccountId.toString() : ""}
+                        onValueChange={(value) => updateStep(index, { lateFeeAccountId: parseInt(value) })}
+                        placeholder="Select account"
+                        compact={true}
+                        showAccountNumbers={true}
+                      />
+                    </div>
+                  </>
+                )}
+              </div>
+              <div className="flex justify-end">
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  disabled={form.steps.length <= 1}
+                  onClick={() => setForm({ ...form, steps: form.steps.filter((_, i) => i !== index) })}
+                >
+                  <Trash2 className="h-4 w-4 mr-1" />
+                  Remove step
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => {
+              const lastDays = Math.max(0, ...form.steps.map((step) => parseInt(String(step.daysOverdue)) || 0));
+              setForm({ ...form, steps: [...form.steps, emptyStep(lastDays + 30, "", "Payment past due")] });
+            }}
+          >
+            <Plus className="h-4 w-4 mr-1" />
+            Add Step
+          </Button>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setForm(null)}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+            <Button onClick={() => saveMutation.mutate(form)} disabled={!form.name.trim() || saveMutation.isPending}>
+              <Save className="h-4 w-4 mr-1" />
+              {saveMutation.isPending ? "Saving..." : "Save Sequence"}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Today's Dunning</CardTitle>
+              <CardDescription>
+                Dry run: who would be sent what today{report ? ` (as of ${report.asOfDate})` : ""}
+              </CardDescription>
+            </div>
+            <Button
+              onClick={() => {
+                if (confirm("Send today's dunning notices and charge the late fees listed?")) runMutation.mutate();
+              }}
+              disabled={!report || report.actions.length === 0 || runMutation.isPending}
+            >
+              <Send className="h-4 w-4 mr-1" />
+              {runMutation.isPending ? "Sending..." : "Send Now"}
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {reportLoading ? (
+            <div className="text-sm text-gray-500">Checking overdue invoices...</div>
+          ) : !report || report.actions.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">
+              {sequences.length === 0 ? "Set up a dunning sequence to start collecting." : "Nothing due today."}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Step</TableHead>
+                  <TableHead>Invoices</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                  <TableHead className="text-right">Late fee</TableHead>
+                  <TableHead>Send to</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.actions.map((action) => (
+                  <TableRow key={`${action.customerId}-${action.stepId}`}>
+                    <TableCell className="font-medium">{action.customerName}</TableCell>
+                    <TableCell>
+                      {action.stepName}
+                      {action.includeStatement && <Badge variant="outline" className="ml-2 text-xs">+ statement</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {action.invoices.map((invoice) => (
+                        <div key={invoice.invoiceId}>
+                          {invoice.invoiceNumber}
+                          <span className="text-gray-500"> · {invoice.daysOverdue} days</span>
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(action.amountOverdue)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {action.lateFeeAmount > 0 ? formatCurrency(action.lateFeeAmount) : "—"}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {action.email || <span className="text-amber-700">No email on file</span>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          {report && report.skipped.length > 0 && (
+            <div className="rounded-md border p-3">
+              <div className="text-sm font-medium mb-2">Not sent (excluded or on hold)</div>
+              {report.skipped.map((customer) => (
+                <div key={customer.customerId} className="flex justify-between text-sm">
+                  <span>
+                    {customer.customerName}
+                    <span className="text-gray-500"> · {customer.reason}</span>
+                  </span>
+                  <span className="font-mono">{formatCurrency(customer.amountOverdue)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Dunning Sequences</CardTitle>
+              <CardDescription>Steps taken as invoices become more overdue</CardDescription>
+            </div>
+            <Button variant="outline" onClick={() => setForm(sequences.length === 0 ? starterForm() : { ...starterForm(), name: "", isDefault: false })}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Sequence
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {sequences.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">No dunning sequences yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Steps</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sequences.map((sequence) => (
+                  <TableRow key={sequence.id}>
+                    <TableCell className="font-medium">
+                      {sequence.name}
+                      {sequence.isDefault && <Badge variant="secondary" className="ml-2 text-xs">Default</Badge>}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {sequence.steps.map((step) => (
+                        <div key={step.id}>
+                          {step.daysOverdue} days: {step.name}
+                          {step.lateFeeType !== "none" && <span className="text-gray-500"> · late fee</span>}
+                        </div>
+                      ))}
+                    </TableCell>
+                    <TableCell>
+                      {sequence.isActive ? <Badge variant="secondary">Active</Badge> : <Badge variant="outline">Inactive</Badge>}
+                    </TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button size="sm" variant="ghost" title="Edit" onClick={() => setForm({ ...sequence })}>
+                        <Pencil className="h-4 w-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Delete"
+                        disabled={deleteMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`Delete dunning sequence "${sequence.name}"? The dunning log is kept.`)) {
+                            deleteMutation.mutate(sequence.id);
+                          }
+                        }}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Exclusions and Holds</CardTitle>
+          <CardDescription>Customers who are never dunned, paused until a date, or on a different sequence</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-6 gap-3 items-end">
+            <div className="col-span-2">
+              <Label>Customer</Label>
+              <Select value={holdForm.customerId} onValueChange={(value) => setHoldForm({ ...holdForm, customerId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map((customer) => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                      {customer.companyName || customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Dunning</Label>
+              <Select value={holdForm.mode} onValueChange={(value) => setHoldForm({ ...holdForm, mode: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="hold">Hold until</SelectItem>
+                  <SelectItem value="exclude">Exclude</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            {holdForm.mode === "hold" ? (
+              <div>
+                <Label>Until</Label>
+                <Input
+                  type="date"
+                  value={holdForm.holdUntil}
+                  onChange={(e) => setHoldForm({ ...holdForm, holdUntil: e.target.value })}
+                />
+              </div>
+            ) : (
+              <div />
+            )}
+            <div>
+              <Label>Reason</Label>
+              <Input value={holdForm.reason} onChange={(e) => setHoldForm({ ...holdForm, reason: e.target.value })} />
+            </div>
+            <Button onClick={() => settingMutation.mutate()} disabled={!holdFormValid || settingMutation.isPending}>
+              <Save className="h-4 w-4 mr-1" />
+              Save
+            </Button>
+          </div>
+          {sequences.length > 1 && (
+            <div className="w-1/3">
+              <Label>Sequence for this customer</Label>
+              <Select value={holdForm.sequenceId} onValueChange={(value) => setHoldForm({ ...holdForm, sequenceId: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Client default</SelectItem>
+                  {sequences.map((sequence) => (
+                    <SelectItem key={sequence.id} value={sequence.id.toString()}>{sequence.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
+          {settings.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Dunning</TableHead>
+                  <TableHead>Reason</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {settings.map((setting) => (
+                  <TableRow key={setting.customerId}>
+                    <TableCell className="font-medium">{setting.customerName}</TableCell>
+                    <TableCell className="text-sm">
+                      {setting.excluded ? (
+                        <span className="flex items-center"><Ban className="h-4 w-4 mr-1 text-red-600" />Excluded</span>
+                      ) : setting.holdUntil ? (
+                        <span className="flex items-center"><PauseCircle className="h-4 w-4 mr-1 text-amber-600" />On hold until {setting.holdUntil}</span>
+                      ) : (
+                        "Active"
+                      )}
+                      {setting.sequenceId && (
+                        <div className="text-xs text-gray-500">
+                          Sequence: {sequences.find((sequence) => sequence.id === setting.sequenceId)?.name || setting.sequenceId}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-sm">{setting.reason || "—"}</TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Back to normal dunning"
+                        disabled={clearSettingMutation.isPending}
+                        onClick={() => clearSettingMutation.mutate(setting.customerId)}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Dunning Log</CardTitle>
+              <CardDescription>Every notice sent to a customer, with its send status</CardDescription>
+            </div>
+            <Select value={logCustomerId} onValueChange={setLogCustomerId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All customers</SelectItem>
+                {customers.map((customer) => (
+                  <SelectItem key={customer.id} value={customer.id.toString()}>
+                    {customer.companyName || customer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {log.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">No dunning notices sent yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Step</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                  <TableHead className="text-right">Late fee</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {log.map((action) => {
+                  const badge = STATUS_BADGES[action.status];
+                  return (
+                    <TableRow key={action.id}>
+                      <TableCell className="text-sm">{new Date(action.createdAt).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-sm">{customerLabel(action.customerId)}</TableCell>
+                      <TableCell className="text-sm" title={action.body || undefined}>
+                        {action.stepName}
+                        <div className="text-xs text-gray-500">
+                          {action.invoices.map((invoice) => invoice.invoiceNumber).join(", ")}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {formatCurrency(parseFloat(action.amountOverdue))}
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">
+                        {action.lateFeeAmount ? formatCurrency(parseFloat(action.lateFeeAmount)) : "—"}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <Badge className={badge.className}>
+                          {action.status === "sent" && <Mail className="h-3 w-3 mr-1" />}
+                          {badge.label}
+                        </Badge>
+                        {action.recipient && <div className="text-xs text-gray-500">{action.recipient}</div>}
+                        {action.error && <div className="text-xs text-red-600">{action.error}</div>}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,5 +1,11 @@
-import { CheckCircle, AlertCircle } from "lucide-react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { useLocation } from "wouter";
+import { CheckCircle, AlertCircle, Landmark, RefreshCw, KeyRound } from "lucide-react";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Card, CardContent } from "@/components/ui/card";
 import { Progress } from "@/components/ui/progress";
@@ -9,6 +15,123 @@ interface IntegrationStatusProps {
   metrics: any;
 }
 
+type ConnectionHealth = "healthy" | "degraded" | "error" | "reauth_required" | "disabled";
+
+interface BankFeedSyncRun {
+  id: number;
+  status: "running" | "success" | "error";
+  startedAt: string;
+  importedCount: number;
+  errorMessage: string | null;
+}
+
+interface BankFeedConnectionHealth {
+  id: number;
+  clientId: number;
+  institutionName: string | null;
+  status: ConnectionHealth;
+  consecutiveFailures: number;
+  lastError: string | null;
+  lastSuccessfulSyncAt: string | null;
+  nextSyncAt: string | null;
+  totalTransactionsSynced: number;
+  recentRuns: BankFeedSyncRun[];
+}
+
+const healthLabels: Record<ConnectionHealth, { label: string; className: string }> = {
+  healthy: { label: "Healthy", className: "bg-green-100 text-green-800" },
+  degraded: { label: "Retrying", className: "bg-yellow-100 text-yellow-800" },
+  error: { label: "Failing", className: "bg-red-100 text-red-800" },
+  reauth_required: { label: "Reconnect needed", className: "bg-red-100 text-red-800" },
+  disabled: { label: "Paused", className: "bg-neutral-200 text-neutral-700" },
+};
+
+const timeAgo = (value: string | null) =>
+  value ? formatDistanceToNow(new Date(value), { addSuffix: true }) : "never";
+
+function BankFeedHealth() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const { data, isLoading } = useQuery<{ counts: Record<ConnectionHealth, number>; connections: BankFeedConnectionHealth[] }>({
+    queryKey: ["/api/bank-feed-sync/health"],
+  });
+
+  const syncMutation = useMutation({
+    mutationFn: (connection: BankFeedConnectionHealth) =>
+      apiRequest("POST", `/api/bank-feed-sync/${connection.clientId}/connections/${connection.id}/sync`).then((res) => res.json()),
+    onSuccess: (result: { run: BankFeedSyncRun }) => {
+      toast({
+        title: result.run.status === "success" ? "Bank feed synced" : "Bank feed sync failed",
+        description:
+          result.run.status === "success"
+            ? `${result.run.importedCount} new transactions imported`
+            : result.run.errorMessage || undefined,
+        variant: result.run.status === "success" ? "default" : "destructive",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/bank-feed-sync/health"] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Bank feed sync failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading) {
+    return <Skeleton className="h-16 w-full" />;
+  }
+
+  const connections = data?.connections || [];
+  if (connections.length === 0) {
+    return <p className="text-sm text-neutral-500">No bank feeds connected.</p>;
+  }
+
+  return (
+    <div className="space-y-2">
+      {connections.map((connection) => {
+        const health = healthLabels[connection.status] || healthLabels.error;
+        return (
+          <div key={connection.id} className="bg-neutral-100 p-3 rounded-lg flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2">
+                <Landmark className="h-4 w-4 text-neutral-500" />
+                <span className="font-medium text-neutral-900">{connection.institutionName || "Bank feed"}</span>
+                <Badge className={health.className}>{health.label}</Badge>
+              </div>
+              <p className="mt-1 text-xs text-neutral-500">
+                Last successful sync {timeAgo(connection.lastSuccessfulSyncAt)}
+                {" · "}
+                {connection.totalTransactionsSynced} transactions synced
+                {connection.nextSyncAt && connection.status !== "healthy" && ` · next retry ${timeAgo(connection.nextSyncAt)}`}
+              </p>
+              {connection.lastError && (
+                <p className="mt-1 text-xs text-red-700 truncate" title={connection.lastError}>
+                  {connection.consecutiveFailures > 1 ? `Failed ${connection.consecutiveFailures} times: ` : ""}
+                  {connection.lastError}
+                </p>
+              )}
+            </div>
+            {connection.status === "reauth_required" ? (
+              <Button size="sm" variant="outline" onClick={() => setLocation("/bank-feeds")}>
+                <KeyRound className="h-4 w-4 mr-1" />
+                Reconnect
+              </Button>
+            ) : connection.status !== "disabled" ? (
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => syncMutation.mutate(connection)}
+                disabled={syncMutation.isPending}
+              >
+                <RefreshCw className="h-4 w-4 mr-1" />
+                Sync now
+              </Button>
+            ) : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
 export default function IntegrationStatus({ isLoading, metrics }: IntegrationStatusProps) {
   const mockIntegrations = [
     {
@@ -106,6 +229,9 @@ export default function IntegrationStatus({ isLoading, metrics }: IntegrationSta
               ))
           }
         </div>
+
+        <h3 className="text-base font-medium text-neutral-900 mt-6 mb-3">Bank Feeds</h3>
+        <BankFeedHealth />
       </CardContent>
     </Card>
   );
@@ -1,6 +1,8 @@
 import { useState } from "react";
 import { BankFeedsList } from "./BankFeedsList";
 import { BankTransactionsList } from "./BankTransactionsList";
+import { TransferMatchingCard } from "./TransferMatchingCard";
+import { DuplicateReviewQueue } from "./DuplicateReviewQueue";
 import { Card, CardContent } from "@/components/ui/card";
 
 interface BankFeedsTabProps {
@@ -42,6 +44,14 @@ export default function BankFeedsTab({
         />
       </div>
       
+      <div className="mb-6">
+        <TransferMatchingCard clientId={clientId} onTransfersChanged={refetchTransactions} />
+      </div>
+
+      <div className="mb-6">
+        <DuplicateReviewQueue clientId={clientId} onTransactionsChanged={refetchTransactions} />
+      </div>
+
       <div className="mb-6">
         <BankTransactionsList 
           clientId={clientId}
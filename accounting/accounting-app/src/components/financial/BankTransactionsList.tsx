@@ -18,7 +18,8 @@ import {
   Loader2,
   RefreshCw,
   ArrowUpDown,
-  CopyPlus
+  CopyPlus,
+  MessageCircleQuestion
 } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
@@ -49,6 +50,8 @@ import {
 } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { format } from "date-fns";
+import { AskClientDialog, clientQuestionsKey, type AskClientTransaction } from "@/components/client-questions/AskClientDialog";
+import type { ClientQuestion } from "@/components/client-questions/ClientQuestionsPanel";
 
 interface BankTransactionsListProps {
   clientId: string;
@@ -76,6 +79,7 @@ export function BankTransactionsList({
   const [selectedTransaction, setSelectedTransaction] = useState<any>(null);
   const [selectedAccountId, setSelectedAccountId] = useState<number | null>(null);
   const [createTransactionMode, setCreateTransactionMode] = useState(false);
+  const [askClientFor, setAskClientFor] = useState<AskClientTransaction[]>([]);
 
   // Fetch bank transactions
   const { 
@@ -95,6 +99,17 @@ export function BankTransactionsList({
     queryKey: [`/api/bank-feeds/${clientId}`],
     enabled: !!clientId,
   });
+
+  // Questions asked to the client about ledger transactions
+  const { data: questionsData } = useQuery<{ questions: ClientQuestion[] }>({
+    queryKey: clientQuestionsKey(clientId),
+    enabled: !!clientId,
+  });
+  const pendingQuestions = new Map(
+    (questionsData?.questions || [])
+      .filter((question) => question.status === "open" || question.status === "answered")
+      .map((question) => [question.transactionId, question])
+  );
   
   // Format amount for display with currency symbol
   const formatAmount = (amount: number) => {
@@ -494,9 +509,16 @@ export function BankTransactionsList({
                       )}
                       
                       {transaction.source === 'manual' && (
-                        <Badge variant="success" className="bg-green-100 text-green-800 hover:bg-green-100">
-                          <CheckCircle className="h-3 w-3 mr-1" /> Processed
-                        </Badge>
+                        pendingQuestions.has(transaction.id) ? (
+                          <Badge variant="outline" className="bg-amber-100 text-amber-800 hover:bg-amber-100">
+                            <MessageCircleQuestion className="h-3 w-3 mr-1" />
+                            {pendingQuestions.get(transaction.id)!.status === "answered" ? "Client Answered" : "Asked Client"}
+                          </Badge>
+                        ) : (
+                          <Badge variant="success" className="bg-green-100 text-green-800 hover:bg-green-100">
+                            <CheckCircle className="h-3 w-3 mr-1" /> Processed
+                          </Badge>
+                        )
                       )}
                     </TableCell>
                     <TableCell>
@@ -531,6 +553,21 @@ export function BankTransactionsList({
                           </Button>
                         </div>
                       )}
+                      {transaction.source === 'manual' && !pendingQuestions.has(transaction.id) && (
+                        <Button 
+                          variant="ghost" 
+                          size="sm"
+                          onClick={() => setAskClientFor([{
+                            id: transaction.id,
+                            description: transaction.description,
+                            date: format(new Date(transaction.date), 'MMM d, yyyy'),
+                            amount: transaction.amount,
+                          }])}
+                        >
+                          <MessageCircleQuestion className="h-4 w-4 mr-1" /> 
+                          Ask Client
+                        </Button>
+                      )}
                     </TableCell>
                   </TableRow>
                 );
@@ -540,6 +577,12 @@ export function BankTransactionsList({
         )}
       </CardContent>
 
+      <AskClientDialog
+        clientId={clientId}
+        transactions={askClientFor}
+        onClose={() => setAskClientFor([])}
+      />
+
       {/* Dialog for categorizing/creating transactions */}
       <Dialog open={showMatchDialog} onOpenChange={setShowMatchDialog}>
         <DialogContent className="sm:max-w-md">
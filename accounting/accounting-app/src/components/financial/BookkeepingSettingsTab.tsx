@@ -37,6 +37,8 @@ import { CalendarIcon, Loader2, UserPlus, Users } from "lucide-react";
 import { apiRequest } from "@/lib/queryClient";
 import { queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
+import PeriodLockSettings from "./PeriodLockSettings";
+import CurrencySettings from "./CurrencySettings";
 
 // This is our form schema
 const bookkeepingSettingsSchema = z.object({
@@ -705,6 +707,12 @@ export default function BookkeepingSettingsTab({ clientId }: { clientId: string
             </CardContent>
           </Card>
 
+          {/* Period Lock Section */}
+          <PeriodLockSettings clientId={clientId} />
+
+          {/* Currency Section */}
+          <CurrencySettings clientId={clientId} />
+
           {/* User Management Section */}
           <Card>
             <CardHeader>
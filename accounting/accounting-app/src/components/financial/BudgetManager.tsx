@@ -0,0 +1,420 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, addMonths, parseISO } from "date-fns";
+import { Calculator, Upload, Trash2, Pencil, Plus, Loader2, ArrowLeft, Save } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { Budget, BudgetLine } from "@/lib/types";
+
+const SOURCE_LABELS: Record<string, string> = {
+  manual: "Manual",
+  prior_year: "Prior year",
+  excel: "Excel import",
+};
+
+// Income statement accounts are edited in the grid; balance sheet budgets come from prior year or import
+const GRID_ACCOUNT_TYPES = ["income", "other_income", "cost_of_sales", "expense", "other_expense"];
+
+interface BudgetManagerProps {
+  clientId: string;
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+/**
+ * Create, import and edit a client's budgets (by account and month). Budgets
+ * are compared against actuals on the P&L and Balance Sheet in ReportsTab.
+ */
+export default function BudgetManager({ clientId, isOpen, onClose }: BudgetManagerProps) {
+  const { toast } = useToast();
+  const fileRef = useRef<HTMLInputElement>(null);
+  const nextYearStart = format(new Date(new Date().getFullYear() + 1, 0, 1), "yyyy-MM");
+
+  const [name, setName] = useState("");
+  const [startMonth, setStartMonth] = useState(nextYearStart);
+  const [growthPercent, setGrowthPercent] = useState("0");
+  const [splitBy, setSplitBy] = useState<string>("none");
+  const [editingBudgetId, setEditingBudgetId] = useState<number | null>(null);
+  // Grid amounts keyed by `${accountId}:${periodMonth}`
+  const [gridAmounts, setGridAmounts] = useState<Record<string, string>>({});
+
+  const budgetsKey = [`/api/budgets/${clientId}`];
+
+  const { data: budgets = [] } = useQuery<Budget[]>({
+    queryKey: budgetsKey,
+    queryFn: () => apiRequest("GET", `/api/budgets/${clientId}`).then(res => res.json()),
+    enabled: isOpen && !!clientId,
+  });
+
+  const { data: accountsData } = useQuery<any>({
+    queryKey: [`/api/accounts/${clientId}`],
+    queryFn: () => apiRequest("GET", `/api/accounts/${clientId}`).then(res => res.json()),
+    enabled: isOpen && !!clientId,
+  });
+
+  const { data: editingBudget, isLoading: isLoadingBudget } = useQuery<Budget & { lines: BudgetLine[] }>({
+    queryKey: [`/api/budgets/${clientId}/${editingBudgetId}`],
+    queryFn: () => apiRequest("GET", `/api/budgets/${clientId}/${editingBudgetId}`).then(res => res.json()),
+    enabled: isOpen && !!editingBudgetId,
+  });
+
+  const gridAccounts = useMemo(() => {
+    const accounts: any[] = Array.isArray(accountsData?.accounts) ? accountsData.accounts : [];
+    return accounts.filter((account) => GRID_ACCOUNT_TYPES.includes(account.type));
+  }, [accountsData]);
+
+  const months = useMemo(() => {
+    if (!editingBudget) return [];
+    const start = parseISO(editingBudget.startDate);
+    return Array.from({ length: editingBudget.months }, (_, index) => format(addMonths(start, index), "yyyy-MM-01"));
+  }, [editingBudget]);
+
+  // Lines split by a dimension, or on balance sheet accounts, are kept as they are when the grid is saved
+  const preservedLines = useMemo(() => {
+    if (!editingBudget) return [];
+    const gridAccountIds = new Set(gridAccounts.map((account) => account.id));
+    return editingBudget.lines.filter(
+      (line) => line.projectId || line.locationId || line.classId || !gridAccountIds.has(line.accountId)
+    );
+  }, [editingBudget, gridAccounts]);
+
+  useEffect(() => {
+    if (!editingBudget) return;
+    const amounts: Record<string, string> = {};
+    for (const line of editingBudget.lines) {
+      if (line.projectId || line.locationId || line.classId) continue;
+      amounts[`${line.accountId}:${line.periodMonth}`] = line.amount;
+    }
+    setGridAmounts(amounts);
+  }, [editingBudget]);
+
+  const invalidateBudgets = () => {
+    queryClient.invalidateQueries({ queryKey: budgetsKey });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const budgetName = () => name.trim() || `Budget ${startMonth.slice(0, 4)}`;
+
+  const createBlankMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/budgets/${clientId}`, { name: budgetName(), startDate: `${startMonth}-01` }).then(res => res.json()),
+    onSuccess: (budget: Budget) => {
+      invalidateBudgets();
+      setEditingBudgetId(budget.id);
+      setName("");
+    },
+    onError: showError("Could not create budget"),
+  });
+
+  const priorYearMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/budgets/${clientId}/from-prior-year`, {
+        name: budgetName(),
+        startDate: `${startMonth}-01`,
+        growthPercent: parseFloat(growthPercent) || 0,
+        splitBy: splitBy === "none" ? null : splitBy,
+      }).then(res => res.json()),
+    onSuccess: (data) => {
+      invalidateBudgets();
+      setName("");
+      toast({ title: "Budget created", description: `${data.lines} budget lines from prior-year actuals` });
+    },
+    onError: showError("Could not create budget from prior year"),
+  });
+
+  const importMutation = useMutation({
+    mutationFn: (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      if (name.trim()) formData.append("name", name.trim());
+      return apiRequest("POST", `/api/budgets/${clientId}/import`, undefined, { body: formData }).then(res => res.json());
+    },
+    onSuccess: (data) => {
+      invalidateBudgets();
+      setName("");
+      toast({
+        title: "Budget imported",
+        description: `${data.lines} budget lines imported` + (data.errors?.length ? `, ${data.errors.length} rows skipped` : ""),
+      });
+    },
+    onError: showError("Budget import failed"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (budgetId: number) => apiRequest("DELETE", `/api/budgets/${clientId}/${budgetId}`).then(res => res.json()),
+    onSuccess: invalidateBudgets,
+    onError: showError("Could not delete budget"),
+  });
+
+  const saveLinesMutation = useMutation({
+    mutationFn: () => {
+      const gridAccountIds = new Set(gridAccounts.map((account) => account.id));
+      const gridLines = Object.entries(gridAmounts)
+        .map(([key, amount]) => {
+          const [accountId, periodMonth] = key.split(":");
+          return { accountId: parseInt(accountId), periodMonth, amount: parseFloat(amount) };
+        })
+        .filter((line) => line.amount && gridAccountIds.has(line.accountId));
+      const lines = [
+        ...preservedLines.map((line) => ({ ...line, amount: parseFloat(line.amount) })),
+        ...gridLines,
+      ];
+      return apiRequest("PUT", `/api/budgets/${clientId}/${editingBudgetId}/lines`, { lines }).then(res => res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/budgets/${clientId}/${editingBudgetId}`] });
+      invalidateBudgets();
+      toast({ title: "Budget saved" });
+    },
+    onError: showError("Could not save budget"),
+  });
+
+  const setAmount = (accountId: number, month: string, value: string) => {
+    setGridAmounts((current) => ({ ...current, [`${accountId}:${month}`]: value }));
+  };
+
+  // Spread the first month's amount across the rest of the year
+  const fillRow = (accountId: number) => {
+    const first = gridAmounts[`${accountId}:${months[0]}`];
+    if (!first) return;
+    setGridAmounts((current) => {
+      const next = { ...current };
+      months.forEach((month) => (next[`${accountId}:${month}`] = first));
+      return next;
+    });
+  };
+
+  const rowTotal = (accountId: number) =>
+    months.reduce((sum, month) => sum + (parseFloat(gridAmounts[`${accountId}:${month}`]) || 0), 0);
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Calculator className="h-5 w-5" />
+            {editingBudget ? editingBudget.name : "Budgets"}
+          </DialogTitle>
+          <DialogDescription>
+            {editingBudget
+              ? "Monthly amounts per income statement account. Income as positive revenue, expenses as positive cost."
+              : "Budgets by account and month. Pick one on the P&L or Balance Sheet to add budget and variance columns."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!editingBudgetId && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-4 gap-3 items-end">
+              <div>
+                <Label htmlFor="budget-name">Name</Label>
+                <Input
+                  id="budget-name"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder={`Budget ${startMonth.slice(0, 4)}`}
+                />
+              </div>
+              <div>
+                <Label htmlFor="budget-start">First month</Label>
+                <Input id="budget-start" type="month" value={startMonth} onChange={(e) => setStartMonth(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="budget-growth">Growth % over prior year</Label>
+                <Input
+                  id="budget-growth"
+                  type="number"
+                  step="0.1"
+                  value={growthPercent}
+                  onChange={(e) => setGrowthPercent(e.target.value)}
+                />
+              </div>
+              <div>
+                <Label>Split by</Label>
+                <Select value={splitBy} onValueChange={setSplitBy}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Account only</SelectItem>
+                    <SelectItem value="projectId">Project</SelectItem>
+                    <SelectItem value="locationId">Location</SelectItem>
+                    <SelectItem value="classId">Class</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={() => priorYearMutation.mutate()} disabled={priorYearMutation.isPending}>
+                {priorYearMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Calculator className="h-4 w-4 mr-1" />}
+                From Prior-Year Actuals
+              </Button>
+              <Button variant="outline" onClick={() => fileRef.current?.click()} disabled={importMutation.isPending}>
+                {importMutation.isPending ? <Loader2 className="h-4 w-4 mr-1 animate-spin" /> : <Upload className="h-4 w-4 mr-1" />}
+                Import Excel
+              </Button>
+              <Button variant="outline" onClick={() => createBlankMutation.mutate()} disabled={createBlankMutation.isPending}>
+                <Plus className="h-4 w-4 mr-1" />
+                Blank Budget
+              </Button>
+              <input
+                ref={fileRef}
+                type="file"
+                accept=".xlsx,.xls,.csv"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) importMutation.mutate(file);
+                  e.target.value = "";
+                }}
+              />
+            </div>
+            <p className="text-xs text-gray-500">
+              Excel layout: an Account Number (or Account) column, optional Project ID / Location ID / Class ID columns,
+              then one column per month headed like 2025-01 or Jan 2025.
+            </p>
+
+            {budgets.length === 0 ? (
+              <div className="text-sm text-gray-500 text-center py-6">No budgets yet.</div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Source</TableHead>
+                    <TableHead>Notes</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {budgets.map((budget) => (
+                    <TableRow key={budget.id}>
+                      <TableCell className="font-medium">{budget.name}</TableCell>
+                      <TableCell className="text-sm">
+                        {format(parseISO(budget.startDate), "MMM yyyy")} &ndash;{" "}
+                        {format(addMonths(parseISO(budget.startDate), budget.months - 1), "MMM yyyy")}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{SOURCE_LABELS[budget.source] || budget.source}</Badge>
+                      </TableCell>
+                      <TableCell className="text-xs text-gray-500">{budget.notes}</TableCell>
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button size="sm" variant="ghost" title="Edit amounts" onClick={() => setEditingBudgetId(budget.id)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Delete"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete budget "${budget.name}"?`)) deleteMutation.mutate(budget.id);
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {editingBudgetId && (
+          isLoadingBudget || !editingBudget ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-gray-400" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {preservedLines.length > 0 && (
+                <p className="text-xs text-gray-500">
+                  {preservedLines.length} lines split by project/location/class or on balance sheet accounts are kept as imported.
+                </p>
+              )}
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="min-w-[200px]">Account</TableHead>
+                      {months.map((month) => (
+                        <TableHead key={month} className="text-right min-w-[90px]">
+                          {format(parseISO(month), "MMM yy")}
+                        </TableHead>
+                      ))}
+                      <TableHead className="text-right min-w-[100px]">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {gridAccounts.map((account) => (
+                      <TableRow key={account.id}>
+                        <TableCell className="text-sm">
+                          <button
+                            type="button"
+                            className="text-left hover:underline"
+                            title="Copy the first month across the year"
+                            onClick={() => fillRow(account.id)}
+                          >
+                            {account.accountNumber ? `${account.accountNumber} · ` : ""}{account.name}
+                          </button>
+                        </TableCell>
+                        {months.map((month) => (
+                          <TableCell key={month} className="p-1">
+                            <Input
+                              type="number"
+                              step="0.01"
+                              className="h-8 text-right text-xs"
+                              value={gridAmounts[`${account.id}:${month}`] ?? ""}
+                              onChange={(e) => setAmount(account.id, month, e.target.value)}
+                            />
+                          </TableCell>
+                        ))}
+                        <TableCell className="text-right font-mono text-sm">{rowTotal(account.id).toFixed(2)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )
+        )}
+
+        <DialogFooter>
+          {editingBudgetId ? (
+            <>
+              <Button variant="outline" onClick={() => setEditingBudgetId(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <Button onClick={() => saveLinesMutation.mutate()} disabled={saveLinesMutation.isPending || !editingBudget}>
+                <Save className="h-4 w-4 mr-1" />
+                {saveLinesMutation.isPending ? "Saving..." : "Save Budget"}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={onClose}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,1090 @@
+import { Fragment, useEffect, useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, startOfYear } from "date-fns";
+import { Layers, Plus, Pencil, Trash2, Loader2, FileSpreadsheet, FileText, Wand2, AlertTriangle, X } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { exportConsolidatedStatement as exportStatementToExcel } from "@/lib/excel-export";
+import { exportConsolidatedStatement as exportStatementToPDF } from "@/lib/pdf-export";
+import type {
+  ClientGroup,
+  ConsolidationAccount,
+  ConsolidationMemberAccounts,
+  ConsolidatedReport,
+  IntercompanyRule,
+} from "@/lib/types";
+
+const SECTION_OPTIONS = [
+  { value: "current_assets", label: "Current Assets" },
+  { value: "fixed_assets", label: "Fixed Assets" },
+  { value: "other_assets", label: "Other Assets" },
+  { value: "current_liabilities", label: "Current Liabilities" },
+  { value: "long_term_liabilities", label: "Long-Term Liabilities" },
+  { value: "equity", label: "Equity" },
+  { value: "income", label: "Income" },
+  { value: "cost_of_sales", label: "Cost of Sales" },
+  { value: "expense", label: "Expenses" },
+  { value: "other_income", label: "Other Income" },
+  { value: "other_expense", label: "Other Expenses" },
+];
+
+// Report totals shown after a section, in order
+const TOTALS_AFTER_SECTION: Record<string, Array<{ key: string; label: string }>> = {
+  other_assets: [{ key: "totalAssets", label: "Total Assets" }],
+  long_term_liabilities: [{ key: "totalLiabilities", label: "Total Liabilities" }],
+  equity: [
+    { key: "totalEquity", label: "Total Equity" },
+    { key: "totalLiabilitiesAndEquity", label: "Total Liabilities & Equity" },
+  ],
+  cost_of_sales: [{ key: "grossProfit", label: "Gross Profit" }],
+  other_expense: [{ key: "netIncome", label: "Net Income" }],
+};
+
+const NONE = "none";
+
+interface ConsolidationTabProps {
+  clientId: string;
+}
+
+interface GroupForm {
+  name: string;
+  description: string;
+  members: Array<{ clientId: number; label: string }>;
+}
+
+interface LineForm {
+  code: string;
+  name: string;
+  section: string;
+}
+
+interface RuleForm {
+  name: string;
+  differenceAccountId: string;
+  isActive: boolean;
+  notes: string;
+  accounts: Array<{ clientId: string; accountId: string }>;
+}
+
+const emptyRuleForm = (): RuleForm => ({
+  name: "",
+  differenceAccountId: NONE,
+  isActive: true,
+  notes: "",
+  accounts: [
+    { clientId: "", accountId: "" },
+    { clientId: "", accountId: "" },
+  ],
+});
+
+const formatAmount = (value: number | undefined) => {
+  const amount = value || 0;
+  const formatted = Math.abs(amount).toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return amount < 0 ? `(${formatted})` : formatted;
+};
+
+const accountLabel = (account: { accountNumber?: string | null; code?: string | null; name: string }) => {
+  const number = account.accountNumber ?? account.code;
+  return `${number ? `${number} · ` : ""}${account.name}`;
+};
+
+/**
+ * Statement rows for export: section headings, account lines, section
+ * totals and the report totals, with amounts passed through `cell`
+ */
+const buildStatementRows = (report: ConsolidatedReport, cell: (amount: number) => any): any[][] => {
+  const rows: any[][] = [];
+  const blank = report.columns.map(() => "");
+
+  for (const section of report.sections) {
+    if (section.rows.length > 0) {
+      rows.push([section.label, ...blank]);
+      for (const row of section.rows) {
+        rows.push([`  ${accountLabel(row)}`, ...report.columns.map((column) => cell(row.amounts[column.key]))]);
+      }
+      rows.push([`Total ${section.label}`, ...report.columns.map((column) => cell(section.totals[column.key]))]);
+    }
+    for (const total of TOTALS_AFTER_SECTION[section.key] || []) {
+      const amounts = report.totals[total.key];
+      if (amounts) rows.push([total.label, ...report.columns.map((column) => cell(amounts[column.key]))]);
+    }
+  }
+  return rows;
+};
+
+/**
+ * Consolidated statements for client groups: group members, the common chart
+ * and account mapping, intercompany elimination rules, and the consolidated
+ * Balance Sheet / Profit & Loss with Excel and PDF export.
+ */
+export default function ConsolidationTab({ clientId }: ConsolidationTabProps) {
+  const { toast } = useToast();
+  const today = format(new Date(), "yyyy-MM-dd");
+
+  const [groupId, setGroupId] = useState<number | null>(null);
+  const [groupDialog, setGroupDialog] = useState<"new" | "edit" | null>(null);
+  const [groupForm, setGroupForm] = useState<GroupForm>({ name: "", description: "", members: [] });
+  const [reportType, setReportType] = useState<"balance-sheet" | "profit-loss">("balance-sheet");
+  const [asOfDate, setAsOfDate] = useState(today);
+  const [startDate, setStartDate] = useState(format(startOfYear(new Date()), "yyyy-MM-dd"));
+  const [endDate, setEndDate] = useState(today);
+  const [editingLine, setEditingLine] = useState<ConsolidationAccount | "new" | null>(null);
+  const [lineForm, setLineForm] = useState<LineForm>({ code: "", name: "", section: "current_assets" });
+  const [mappingClientId, setMappingClientId] = useState<string>("");
+  const [editingRule, setEditingRule] = useState<IntercompanyRule | "new" | null>(null);
+  const [ruleForm, setRuleForm] = useState<RuleForm>(emptyRuleForm());
+
+  const { data: groups = [], isLoading: isLoadingGroups } = useQuery<ClientGroup[]>({
+    queryKey: ["/api/consolidation/groups"],
+    queryFn: () => apiRequest("GET", "/api/consolidation/groups").then(res => res.json()),
+  });
+
+  const { data: clients = [] } = useQuery<any[]>({
+    queryKey: ["/api/clients"],
+  });
+
+  const { data: group } = useQuery<ClientGroup>({
+    queryKey: [`/api/consolidation/groups/${groupId}`],
+    queryFn: () => apiRequest("GET", `/api/consolidation/groups/${groupId}`).then(res => res.json()),
+    enabled: !!groupId,
+  });
+
+  const { data: memberAccounts = [] } = useQuery<ConsolidationMemberAccounts[]>({
+    queryKey: [`/api/consolidation/groups/${groupId}/mappings`],
+    queryFn: () => apiRequest("GET", `/api/consolidation/groups/${groupId}/mappings`).then(res => res.json()),
+    enabled: !!groupId,
+  });
+
+  const reportQuery = reportType === "balance-sheet" ? `date=${asOfDate}` : `startDate=${startDate}&endDate=${endDate}`;
+  const {
+    data: report,
+    isFetching: isLoadingReport,
+    error: reportError,
+  } = useQuery<ConsolidatedReport>({
+    queryKey: [`/api/consolidation/groups/${groupId}/${reportType}`, reportQuery],
+    queryFn: () => apiRequest("GET", `/api/consolidation/groups/${groupId}/${reportType}?${reportQuery}`).then(res => res.json()),
+    enabled: !!groupId && (group?.members.length ?? 0) > 0,
+  });
+
+  // Default to a group the selected client belongs to
+  useEffect(() => {
+    if (groupId || groups.length === 0) return;
+    const clientGroup = groups.find((candidate) => candidate.members.some((member) => String(member.clientId) === clientId));
+    setGroupId((clientGroup || groups[0]).id);
+  }, [groups, groupId, clientId]);
+
+  const chart = group?.accounts || [];
+  const rules = group?.rules || [];
+  const mappingMember = memberAccounts.find((member) => String(member.clientId) === mappingClientId) || memberAccounts[0];
+  const chartById = useMemo(() => new Map(chart.map((line) => [line.id, line])), [chart]);
+  const memberAccountById = useMemo(() => {
+    const result = new Map<number, { clientLabel: string; account: ConsolidationMemberAccounts["accounts"][number] }>();
+    for (const member of memberAccounts) {
+      for (const account of member.accounts) result.set(account.id, { clientLabel: member.label, account });
+    }
+    return result;
+  }, [memberAccounts]);
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/consolidation/groups"] });
+    queryClient.invalidateQueries({ queryKey: [`/api/consolidation/groups/${groupId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/consolidation/groups/${groupId}/mappings`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/consolidation/groups/${groupId}/balance-sheet`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/consolidation/groups/${groupId}/profit-loss`] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveGroupMutation = useMutation({
+    mutationFn: async () => {
+      const members = groupForm.members.map((member) => ({ clientId: member.clientId, label: member.label || null }));
+      if (groupDialog === "new") {
+        return apiRequest("POST", "/api/consolidation/groups", {
+          name: groupForm.name,
+          description: groupForm.description || null,
+          members,
+        }).then(res => res.json());
+      }
+      await apiRequest("PUT", `/api/consolidation/groups/${groupId}`, {
+        name: groupForm.name,
+        description: groupForm.description || null,
+      });
+      await apiRequest("PUT", `/api/consolidation/groups/${groupId}/members`, { members });
+      return { id: groupId };
+    },
+    onSuccess: (saved: { id: number }) => {
+      setGroupId(saved.id);
+      invalidate();
+      setGroupDialog(null);
+      toast({ title: "Group saved" });
+    },
+    onError: showError("Could not save group"),
+  });
+
+  const deleteGroupMutation = useMutation({
+    mutationFn: () => apiRequest("DELETE", `/api/consolidation/groups/${groupId}`).then(res => res.json()),
+    onSuccess: () => {
+      setGroupId(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/consolidation/groups"] });
+    },
+    onError: showError("Could not delete group"),
+  });
+
+  const saveLineMutation = useMutation({
+    mutationFn: () => {
+      const payload = { code: lineForm.code || null, name: lineForm.name, section: lineForm.section };
+      return editingLine && editingLine !== "new"
+        ? apiRequest("PUT", `/api/consolidation/groups/${groupId}/accounts/${editingLine.id}`, payload).then(res => res.json())
+        : apiRequest("POST", `/api/consolidation/groups/${groupId}/accounts`, { ...payload, sortOrder: chart.length }).then(res => res.json());
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditingLine(null);
+    },
+    onError: showError("Could not save line"),
+  });
+
+  const deleteLineMutation = useMutation({
+    mutationFn: (lineId: number) =>
+      apiRequest("DELETE", `/api/consolidation/groups/${groupId}/accounts/${lineId}`).then(res => res.json()),
+    onSuccess: () => invalidate(),
+    onError: showError("Could not delete line"),
+  });
+
+  const mapMutation = useMutation({
+    mutationFn: (mapping: { clientId: number; accountId: number; consolidationAccountId: number | null }) =>
+      apiRequest("PUT", `/api/consolidation/groups/${groupId}/mappings`, { mappings: [mapping] }).then(res => res.json()),
+    onSuccess: () => invalidate(),
+    onError: showError("Could not map account"),
+  });
+
+  const autoMapMutation = useMutation({
+    mutationFn: () => apiRequest("POST", `/api/consolidation/groups/${groupId}/mappings/auto`).then(res => res.json()),
+    onSuccess: (result: { created: number; mapped: number; unmatched: number }) => {
+      invalidate();
+      toast({
+        title: "Accounts mapped",
+        description:
+          (result.created ? `${result.created} common chart lines created from the first entity. ` : "") +
+          `${result.mapped} accounts mapped, ${result.unmatched} left to map by hand.`,
+      });
+    },
+    onError: showError("Could not auto-map accounts"),
+  });
+
+  const saveRuleMutation = useMutation({
+    mutationFn: () => {
+      const payload = {
+        name: ruleForm.name,
+        differenceAccountId: ruleForm.differenceAccountId === NONE ? null : parseInt(ruleForm.differenceAccountId),
+        isActive: ruleForm.isActive,
+        notes: ruleForm.notes || null,
+        accounts: ruleForm.accounts
+          .filter((account) => account.clientId && account.accountId)
+          .map((account) => ({ clientId: parseInt(account.clientId), accountId: parseInt(account.accountId) })),
+      };
+      return editingRule && editingRule !== "new"
+        ? apiRequest("PUT", `/api/consolidation/groups/${groupId}/rules/${editingRule.id}`, payload).then(res => res.json())
+        : apiRequest("POST", `/api/consolidation/groups/${groupId}/rules`, payload).then(res => res.json());
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditingRule(null);
+    },
+    onError: showError("Could not save elimination rule"),
+  });
+
+  const deleteRuleMutation = useMutation({
+    mutationFn: (ruleId: number) =>
+      apiRequest("DELETE", `/api/consolidation/groups/${groupId}/rules/${ruleId}`).then(res => res.json()),
+    onSuccess: () => invalidate(),
+    onError: showError("Could not delete elimination rule"),
+  });
+
+  const openGroupDialog = (mode: "new" | "edit") => {
+    setGroupForm(
+      mode === "edit" && group
+        ? {
+            name: group.name,
+            description: group.description || "",
+            members: group.members.map((member) => ({
+              clientId: member.clientId,
+              label: member.label === member.clientName ? "" : member.label,
+            })),
+          }
+        : { name: "", description: "", members: [] }
+    );
+    setGroupDialog(mode);
+  };
+
+  const toggleMember = (memberClientId: number, checked: boolean) => {
+    setGroupForm((current) => ({
+      ...current,
+      members: checked
+        ? [...current.members, { clientId: memberClientId, label: "" }]
+        : current.members.filter((member) => member.clientId !== memberClientId),
+    }));
+  };
+
+  const openLineEditor = (line: ConsolidationAccount | "new") => {
+    setLineForm(line === "new" ? { code: "", name: "", section: "current_assets" } : { code: line.code || "", name: line.name, section: line.section });
+    setEditingLine(line);
+  };
+
+  const openRuleEditor = (rule: IntercompanyRule | "new") => {
+    setRuleForm(
+      rule === "new"
+        ? emptyRuleForm()
+        : {
+            name: rule.name,
+            differenceAccountId: rule.differenceAccountId ? String(rule.differenceAccountId) : NONE,
+            isActive: rule.isActive,
+            notes: rule.notes || "",
+            accounts: rule.accounts.map((account) => ({ clientId: String(account.clientId), accountId: String(account.accountId) })),
+          }
+    );
+    setEditingRule(rule);
+  };
+
+  const setRuleAccount = (index: number, field: "clientId" | "accountId", value: string) => {
+    setRuleForm((current) => ({
+      ...current,
+      accounts: current.accounts.map((account, i) =>
+        i === index ? { ...account, [field]: value, ...(field === "clientId" ? { accountId: "" } : {}) } : account
+      ),
+    }));
+  };
+
+  const exportStatement = async (target: "excel" | "pdf") => {
+    if (!report) return;
+    const title = `Consolidated ${report.reportType === "balance_sheet" ? "Balance Sheet" : "Profit & Loss"} - ${report.group.name}`;
+    const headers = ["Account", ...report.columns.map((column) => column.label)];
+    const statementTable = {
+      headers,
+      rows: buildStatementRows(report, target === "excel" ? (amount) => amount || 0 : formatAmount),
+    };
+    const eliminationRows = report.eliminations.flatMap((elimination) =>
+      elimination.lines.map((line) => [
+        elimination.name,
+        line.entity || "Difference",
+        accountLabel({ accountNumber: line.accountNumber, name: line.accountName }),
+        line.line,
+        target === "excel" ? line.debit : formatAmount(line.debit),
+        target === "excel" ? line.credit : formatAmount(line.credit),
+      ])
+    );
+    const summary =
+      report.reportType === "balance_sheet"
+        ? [
+            { label: "Total Assets", value: formatAmount(report.totals.totalAssets?.consolidated) },
+            { label: "Total Liabilities & Equity", value: formatAmount(report.totals.totalLiabilitiesAndEquity?.consolidated) },
+          ]
+        : [
+            { label: "Gross Profit", value: formatAmount(report.totals.grossProfit?.consolidated) },
+            { label: "Net Income", value: formatAmount(report.totals.netIncome?.consolidated) },
+          ];
+    const data = {
+      title,
+      statementTable,
+      eliminationsTable: eliminationRows.length
+        ? { headers: ["Rule", "Entity", "Account", "Line", "Debit", "Credit"], rows: eliminationRows }
+        : undefined,
+      summary,
+    };
+    const dateRange = { startDate: report.startDate || report.endDate, endDate: report.endDate };
+
+    try {
+      if (target === "excel") {
+        await exportStatementToExcel(data, { name: report.group.name }, dateRange);
+      } else {
+        await exportStatementToPDF(data, { name: report.group.name }, dateRange);
+      }
+    } catch (error) {
+      showError("Export failed")(error as Error);
+    }
+  };
+
+  const unbookedDifferences = report?.eliminations.filter((elimination) => elimination.difference !== 0 && !elimination.differenceBooked) || [];
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Layers className="h-6 w-6" />
+            Consolidation
+          </h2>
+          <p className="text-gray-600">Consolidated statements for related entities, with intercompany eliminations</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {groups.length > 0 && (
+            <Select value={groupId ? String(groupId) : ""} onValueChange={(value) => setGroupId(parseInt(value))}>
+              <SelectTrigger className="w-64">
+                <SelectValue placeholder="Select a group" />
+              </SelectTrigger>
+              <SelectContent>
+                {groups.map((candidate) => (
+                  <SelectItem key={candidate.id} value={String(candidate.id)}>
+                    {candidate.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {group && (
+            <>
+              <Button variant="outline" size="sm" onClick={() => openGroupDialog("edit")}>
+                <Pencil className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  if (confirm(`Delete the group "${group.name}"? Mappings and elimination rules are deleted with it.`)) {
+                    deleteGroupMutation.mutate();
+                  }
+                }}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </>
+          )}
+          <Button onClick={() => openGroupDialog("new")}>
+            <Plus className="h-4 w-4 mr-2" />
+            New Group
+          </Button>
+        </div>
+      </div>
+
+      {isLoadingGroups ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-6 w-6 animate-spin" />
+        </div>
+      ) : !group ? (
+        <Card>
+          <CardContent className="p-8 text-center text-gray-600">
+            No client groups yet. Create a group with the holdco, opcos and any management company to consolidate them.
+          </CardContent>
+        </Card>
+      ) : (
+        <Tabs defaultValue="statements">
+          <TabsList>
+            <TabsTrigger value="statements">Statements</TabsTrigger>
+            <TabsTrigger value="mapping">Account Mapping</TabsTrigger>
+            <TabsTrigger value="eliminations">Eliminations</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="statements" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-end justify-between gap-4 flex-wrap">
+                  <div className="flex items-end gap-3">
+                    <div className="space-y-1">
+                      <Label>Statement</Label>
+                      <Select value={reportType} onValueChange={(value) => setReportType(value as "balance-sheet" | "profit-loss")}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="balance-sheet">Balance Sheet</SelectItem>
+                          <SelectItem value="profit-loss">Profit & Loss</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {reportType === "balance-sheet" ? (
+                      <div className="space-y-1">
+                        <Label>As of</Label>
+                        <Input type="date" value={asOfDate} onChange={(e) => setAsOfDate(e.target.value)} className="w-40" />
+                      </div>
+                    ) : (
+                      <>
+                        <div className="space-y-1">
+                          <Label>From</Label>
+                          <Input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} className="w-40" />
+                        </div>
+                        <div className="space-y-1">
+                          <Label>To</Label>
+                          <Input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} className="w-40" />
+                        </div>
+                      </>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => exportStatement("excel")} disabled={!report}>
+                      <FileSpreadsheet className="h-4 w-4 mr-2" />
+                      Excel
+                    </Button>
+                    <Button variant="outline" size="sm" onClick={() => exportStatement("pdf")} disabled={!report}>
+                      <FileText className="h-4 w-4 mr-2" />
+                      PDF
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {group.members.length === 0 ? (
+                  <p className="text-sm text-gray-600">Add clients to this group to consolidate them.</p>
+                ) : isLoadingReport ? (
+                  <div className="flex justify-center p-8">
+                    <Loader2 className="h-6 w-6 animate-spin" />
+                  </div>
+                ) : reportError ? (
+                  <p className="text-sm text-red-600">{(reportError as Error).message}</p>
+                ) : report ? (
+                  <>
+                    {(report.unmappedAccounts.length > 0 || unbookedDifferences.length > 0) && (
+                      <div className="rounded-md border border-amber-300 bg-amber-50 p-3 text-sm text-amber-800 space-y-1">
+                        {report.unmappedAccounts.length > 0 && (
+                          <div className="flex items-center gap-2">
+                            <AlertTriangle className="h-4 w-4" />
+                            {report.unmappedAccounts.length} account(s) with balances are not mapped to the common chart and are shown
+                            on "Unmapped" lines.
+                          </div>
+                        )}
+                        {unbookedDifferences.map((elimination) => (
+                          <div key={elimination.ruleId} className="flex items-center gap-2">
+                            <AlertTriangle className="h-4 w-4" />
+                            {elimination.name}: intercompany balances differ by {formatAmount(elimination.difference)} and the rule has
+                            no difference line.
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    <div className="overflow-x-auto">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Account</TableHead>
+                            {report.columns.map((column) => (
+                              <TableHead key={column.key} className="text-right whitespace-nowrap">
+                                {column.label}
+                              </TableHead>
+                            ))}
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {report.sections.map((section) => (
+                            <Fragment key={section.key}>
+                              {section.rows.length > 0 && (
+                                <>
+                                  <TableRow className="bg-gray-50">
+                                    <TableCell colSpan={report.columns.length + 1} className="font-semibold">
+                                      {section.label}
+                                    </TableCell>
+                                  </TableRow>
+                                  {section.rows.map((row) => (
+                                    <TableRow key={row.key}>
+                                      <TableCell className={`pl-6 ${row.unmapped ? "text-amber-700" : ""}`}>{accountLabel(row)}</TableCell>
+                                      {report.columns.map((column) => (
+                                        <TableCell
+                                          key={column.key}
+                                          className={`text-right ${column.key === "consolidated" ? "font-medium" : ""}`}
+                                        >
+                                          {formatAmount(row.amounts[column.key])}
+                                        </TableCell>
+                                      ))}
+                                    </TableRow>
+                                  ))}
+                                  <TableRow className="font-semibold">
+                                    <TableCell>Total {section.label}</TableCell>
+                                    {report.columns.map((column) => (
+                                      <TableCell key={column.key} className="text-right">
+                                        {formatAmount(section.totals[column.key])}
+                                      </TableCell>
+                                    ))}
+                                  </TableRow>
+                                </>
+                              )}
+                              {(TOTALS_AFTER_SECTION[section.key] || []).map((total) => (
+                                <TableRow key={total.key} className="font-bold border-t-2">
+                                  <TableCell>{total.label}</TableCell>
+                                  {report.columns.map((column) => (
+                                    <TableCell key={column.key} className="text-right">
+                                      {formatAmount(report.totals[total.key]?.[column.key])}
+                                    </TableCell>
+                                  ))}
+                                </TableRow>
+                              ))}
+                            </Fragment>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  </>
+                ) : null}
+              </CardContent>
+            </Card>
+
+            {report && report.eliminations.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Elimination Entries</CardTitle>
+                  <CardDescription>Intercompany balances reversed on consolidation</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rule</TableHead>
+                        <TableHead>Entity</TableHead>
+                        <TableHead>Account</TableHead>
+                        <TableHead className="text-right">Debit</TableHead>
+                        <TableHead className="text-right">Credit</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {report.eliminations.flatMap((elimination) =>
+                        elimination.lines.map((line, index) => (
+                          <TableRow key={`${elimination.ruleId}-${index}`}>
+                            <TableCell>{index === 0 ? elimination.name : ""}</TableCell>
+                            <TableCell>{line.entity || <Badge variant="secondary">Difference</Badge>}</TableCell>
+                            <TableCell>{accountLabel({ accountNumber: line.accountNumber, name: line.accountName })}</TableCell>
+                            <TableCell className="text-right">{line.debit ? formatAmount(line.debit) : ""}</TableCell>
+                            <TableCell className="text-right">{line.credit ? formatAmount(line.credit) : ""}</TableCell>
+                          </TableRow>
+                        ))
+                      )}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="mapping" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Common Chart</CardTitle>
+                    <CardDescription>The lines every entity's accounts roll up to on the consolidated statements</CardDescription>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" size="sm" onClick={() => autoMapMutation.mutate()} disabled={autoMapMutation.isPending}>
+                      <Wand2 className="h-4 w-4 mr-2" />
+                      Auto-map
+                    </Button>
+                    <Button size="sm" onClick={() => openLineEditor("new")}>
+                      <Plus className="h-4 w-4 mr-2" />
+                      Add Line
+                    </Button>
+                  </div>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {chart.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    No common chart yet. Auto-map creates one from the first entity's chart of accounts and maps the others by
+                    account number and name.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Code</TableHead>
+                        <TableHead>Name</TableHead>
+                        <TableHead>Section</TableHead>
+                        <TableHead className="w-24" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {chart.map((line) => (
+                        <TableRow key={line.id}>
+                          <TableCell>{line.code}</TableCell>
+                          <TableCell>{line.name}</TableCell>
+                          <TableCell>{SECTION_OPTIONS.find((option) => option.value === line.section)?.label || line.section}</TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => openLineEditor(line)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => deleteLineMutation.mutate(line.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+
+            {memberAccounts.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <div className="flex items-center justify-between">
+                    <CardTitle>Entity Accounts</CardTitle>
+                    <Select value={mappingMember ? String(mappingMember.clientId) : ""} onValueChange={setMappingClientId}>
+                      <SelectTrigger className="w-64">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {memberAccounts.map((member) => (
+                          <SelectItem key={member.clientId} value={String(member.clientId)}>
+                            {member.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </CardHeader>
+                <CardContent>
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Account</TableHead>
+                        <TableHead>Type</TableHead>
+                        <TableHead>Common Chart Line</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {mappingMember?.accounts.map((account) => {
+                        const isBalanceSheet = ["asset", "liability", "equity"].includes(account.type);
+                        const options = chart.filter((line) =>
+                          ["current_assets", "fixed_assets", "other_assets", "current_liabilities", "long_term_liabilities", "equity"].includes(line.section) === isBalanceSheet
+                        );
+                        return (
+                          <TableRow key={account.id}>
+                            <TableCell>{accountLabel(account)}</TableCell>
+                            <TableCell className="capitalize">{account.type.replace(/_/g, " ")}</TableCell>
+                            <TableCell>
+                              <Select
+                                value={account.consolidationAccountId ? String(account.consolidationAccountId) : NONE}
+                                onValueChange={(value) =>
+                                  mapMutation.mutate({
+                                    clientId: mappingMember.clientId,
+                                    accountId: account.id,
+                                    consolidationAccountId: value === NONE ? null : parseInt(value),
+                                  })
+                                }
+                              >
+                                <SelectTrigger className="w-72">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  <SelectItem value={NONE}>Not mapped</SelectItem>
+                                  {options.map((line) => (
+                                    <SelectItem key={line.id} value={String(line.id)}>
+                                      {accountLabel(line)}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+
+          <TabsContent value="eliminations" className="space-y-4">
+            <Card>
+              <CardHeader>
+                <div className="flex items-center justify-between">
+                  <div>
+                    <CardTitle>Intercompany Elimination Rules</CardTitle>
+                    <CardDescription>
+                      Designated intercompany accounts are reversed on consolidation; any difference between them goes to the
+                      rule's difference line
+                    </CardDescription>
+                  </div>
+                  <Button size="sm" onClick={() => openRuleEditor("new")} disabled={group.members.length < 2}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add Rule
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent>
+                {rules.length === 0 ? (
+                  <p className="text-sm text-gray-600">
+                    No elimination rules. Add one per intercompany relationship, e.g. Holdco "Due from Opco" against Opco "Due to
+                    Holdco", or management fee income against management fee expense.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Rule</TableHead>
+                        <TableHead>Designated Accounts</TableHead>
+                        <TableHead>Difference Line</TableHead>
+                        <TableHead className="w-24" />
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {rules.map((rule) => (
+                        <TableRow key={rule.id}>
+                          <TableCell>
+                            <div className="font-medium">{rule.name}</div>
+                            {!rule.isActive && <Badge variant="secondary">Inactive</Badge>}
+                          </TableCell>
+                          <TableCell className="text-sm">
+                            {rule.accounts.map((designated) => {
+                              const known = memberAccountById.get(designated.accountId);
+                              return (
+                                <div key={designated.accountId}>
+                                  {known ? `${known.clientLabel}: ${accountLabel(known.account)}` : `Account ${designated.accountId}`}
+                                </div>
+                              );
+                            })}
+                          </TableCell>
+                          <TableCell>
+                            {rule.differenceAccountId ? accountLabel(chartById.get(rule.differenceAccountId) || { name: "-" }) : "None"}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            <Button variant="ghost" size="sm" onClick={() => openRuleEditor(rule)}>
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => deleteRuleMutation.mutate(rule.id)}>
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+        </Tabs>
+      )}
+
+      {/* Group editor */}
+      <Dialog open={!!groupDialog} onOpenChange={(open) => !open && setGroupDialog(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{groupDialog === "new" ? "New Client Group" : "Edit Client Group"}</DialogTitle>
+            <DialogDescription>Entities appear as columns on the consolidated statements in the order selected.</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <Label>Name</Label>
+              <Input value={groupForm.name} onChange={(e) => setGroupForm({ ...groupForm, name: e.target.value })} />
+            </div>
+            <div className="space-y-1">
+              <Label>Description</Label>
+              <Textarea
+                value={groupForm.description}
+                onChange={(e) => setGroupForm({ ...groupForm, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Entities</Label>
+              <div className="max-h-64 overflow-y-auto border rounded-md p-2 space-y-2">
+                {clients.map((client) => {
+                  const member = groupForm.members.find((candidate) => candidate.clientId === client.id);
+                  return (
+                    <div key={client.id} className="flex items-center gap-2">
+                      <Checkbox checked={!!member} onCheckedChange={(checked) => toggleMember(client.id, !!checked)} />
+                      <span className="flex-1 text-sm">{client.name}</span>
+                      {member && (
+                        <Input
+                          className="h-8 w-36"
+                          placeholder="Column label"
+                          value={member.label}
+                          onChange={(e) =>
+                            setGroupForm((current) => ({
+                              ...current,
+                              members: current.members.map((candidate) =>
+                                candidate.clientId === client.id ? { ...candidate, label: e.target.value } : candidate
+                              ),
+                            }))
+                          }
+                        />
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setGroupDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveGroupMutation.mutate()} disabled={!groupForm.name || saveGroupMutation.isPending}>
+              {saveGroupMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Common chart line editor */}
+      <Dialog open={!!editingLine} onOpenChange={(open) => !open && setEditingLine(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingLine === "new" ? "Add Common Chart Line" : "Edit Common Chart Line"}</DialogTitle>
+          </DialogHeader>
+          <div className="grid grid-cols-3 gap-3">
+            <div className="space-y-1">
+              <Label>Code</Label>
+              <Input value={lineForm.code} onChange={(e) => setLineForm({ ...lineForm, code: e.target.value })} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label>Name</Label>
+              <Input value={lineForm.name} onChange={(e) => setLineForm({ ...lineForm, name: e.target.value })} />
+            </div>
+            <div className="space-y-1 col-span-3">
+              <Label>Section</Label>
+              <Select value={lineForm.section} onValueChange={(value) => setLineForm({ ...lineForm, section: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SECTION_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingLine(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveLineMutation.mutate()} disabled={!lineForm.name || saveLineMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Elimination rule editor */}
+      <Dialog open={!!editingRule} onOpenChange={(open) => !open && setEditingRule(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{editingRule === "new" ? "Add Elimination Rule" : "Edit Elimination Rule"}</DialogTitle>
+            <DialogDescription>
+              Designate the intercompany accounts on each side. Their balances are reversed in the Eliminations column.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-1">
+                <Label>Name</Label>
+                <Input value={ruleForm.name} onChange={(e) => setRuleForm({ ...ruleForm, name: e.target.value })} />
+              </div>
+              <div className="space-y-1">
+                <Label>Difference line</Label>
+                <Select
+                  value={ruleForm.differenceAccountId}
+                  onValueChange={(value) => setRuleForm({ ...ruleForm, differenceAccountId: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={NONE}>None (report the difference)</SelectItem>
+                    {chart.map((line) => (
+                      <SelectItem key={line.id} value={String(line.id)}>
+                        {accountLabel(line)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Designated accounts</Label>
+              {ruleForm.accounts.map((designated, index) => {
+                const member = memberAccounts.find((candidate) => String(candidate.clientId) === designated.clientId);
+                return (
+                  <div key={index} className="flex items-center gap-2">
+                    <Select value={designated.clientId} onValueChange={(value) => setRuleAccount(index, "clientId", value)}>
+                      <SelectTrigger className="w-48">
+                        <SelectValue placeholder="Entity" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {memberAccounts.map((candidate) => (
+                          <SelectItem key={candidate.clientId} value={String(candidate.clientId)}>
+                            {candidate.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={designated.accountId}
+                      onValueChange={(value) => setRuleAccount(index, "accountId", value)}
+                      disabled={!member}
+                    >
+                      <SelectTrigger className="flex-1">
+                        <SelectValue placeholder="Account" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {member?.accounts.map((account) => (
+                          <SelectItem key={account.id} value={String(account.id)}>
+                            {accountLabel(account)}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setRuleForm({ ...ruleForm, accounts: ruleForm.accounts.filter((_, i) => i !== index) })}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  </div>
+                );
+              })}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setRuleForm({ ...ruleForm, accounts: [...ruleForm.accounts, { clientId: "", accountId: "" }] })}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Add Account
+              </Button>
+            </div>
+            <div className="space-y-1">
+              <Label>Notes</Label>
+              <Textarea value={ruleForm.notes} onChange={(e) => setRuleForm({ ...ruleForm, notes: e.target.value })} rows={2} />
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch checked={ruleForm.isActive} onCheckedChange={(checked) => setRuleForm({ ...ruleForm, isActive: checked })} />
+              <Label>Active</Label>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingRule(null)}>
+              Cancel
+            </Button>
+            <Button onClick={() => saveRuleMutation.mutate()} disabled={!ruleForm.name || saveRuleMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,438 @@
+import { useEffect, useRef, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Coins, Upload, RefreshCw, Loader2 } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { ClientCurrencySettings, DocumentCurrency, ExchangeRate, FxAdjustment } from "@/lib/types";
+
+const CURRENCIES = ["CAD", "USD", "EUR", "GBP", "AUD", "JPY", "CHF", "MXN"];
+
+/**
+ * Home currency, FX gain/loss accounts, foreign-currency accounts, the
+ * currency of foreign invoices and bills, firm exchange rates (CSV import)
+ * and period-end revaluation for a client.
+ */
+export default function CurrencySettings({ clientId }: { clientId: string }) {
+  const { toast } = useToast();
+  const rateFileRef = useRef<HTMLInputElement>(null);
+  const [homeCurrency, setHomeCurrency] = useState("CAD");
+  const [realizedFxAccountId, setRealizedFxAccountId] = useState<string>("none");
+  const [unrealizedFxAccountId, setUnrealizedFxAccountId] = useState<string>("none");
+  const [revaluationDate, setRevaluationDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [documentType, setDocumentType] = useState<"invoice" | "bill">("invoice");
+  const [documentId, setDocumentId] = useState("");
+  const [documentCurrency, setDocumentCurrency] = useState("USD");
+  const [documentDate, setDocumentDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [documentRate, setDocumentRate] = useState("");
+
+  const { data: settings } = useQuery<ClientCurrencySettings>({
+    queryKey: [`/api/currency/${clientId}/settings`],
+    queryFn: () => apiRequest("GET", `/api/currency/${clientId}/settings`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: accountsData } = useQuery<any>({
+    queryKey: [`/api/accounts/${clientId}`],
+    queryFn: () => apiRequest("GET", `/api/accounts/${clientId}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: rates = [] } = useQuery<ExchangeRate[]>({
+    queryKey: ["/api/currency/rates"],
+    queryFn: () => apiRequest("GET", "/api/currency/rates").then(res => res.json()),
+  });
+
+  const { data: adjustments = [] } = useQuery<FxAdjustment[]>({
+    queryKey: [`/api/currency/${clientId}/adjustments`],
+    queryFn: () => apiRequest("GET", `/api/currency/${clientId}/adjustments`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: documents = [] } = useQuery<DocumentCurrency[]>({
+    queryKey: [`/api/currency/${clientId}/documents`],
+    queryFn: () => apiRequest("GET", `/api/currency/${clientId}/documents`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const accounts: any[] = Array.isArray(accountsData?.accounts) ? accountsData.accounts : [];
+  const monetaryAccounts = accounts.filter((account) => account.type === "asset" || account.type === "liability");
+  const accountCurrency = (accountId: number) =>
+    settings?.accountCurrencies?.find((row) => row.accountId === accountId)?.currency || settings?.homeCurrency || "CAD";
+
+  useEffect(() => {
+    if (!settings) return;
+    setHomeCurrency(settings.homeCurrency);
+    setRealizedFxAccountId(settings.realizedFxAccountId?.toString() || "none");
+    setUnrealizedFxAccountId(settings.unrealizedFxAccountId?.toString() || "none");
+  }, [settings]);
+
+  const invalidateSettings = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/currency/${clientId}/settings`] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/currency/${clientId}/settings`, {
+        homeCurrency,
+        realizedFxAccountId: realizedFxAccountId === "none" ? null : parseInt(realizedFxAccountId),
+        unrealizedFxAccountId: unrealizedFxAccountId === "none" ? null : parseInt(unrealizedFxAccountId),
+      }).then(res => res.json()),
+    onSuccess: () => {
+      invalidateSettings();
+      toast({ title: "Currency settings saved" });
+    },
+    onError: showError("Could not save currency settings"),
+  });
+
+  const accountCurrencyMutation = useMutation({
+    mutationFn: ({ accountId, currency }: { accountId: number; currency: string }) =>
+      apiRequest("PUT", `/api/currency/${clientId}/accounts/${accountId}`, { currency }).then(res => res.json()),
+    onSuccess: invalidateSettings,
+    onError: showError("Could not update account currency"),
+  });
+
+  const documentCurrencyMutation = useMutation({
+    mutationFn: (values: { documentType: string; documentId: number; currency: string | null; documentDate: string; exchangeRate?: number }) =>
+      apiRequest("PUT", `/api/currency/${clientId}/documents/${values.documentType}/${values.documentId}`, {
+        currency: values.currency,
+        documentDate: values.documentDate,
+        exchangeRate: values.exchangeRate,
+      }).then(res => res.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/currency/${clientId}/documents`] });
+      setDocumentId("");
+      setDocumentRate("");
+    },
+    onError: showError("Could not update document currency"),
+  });
+
+  const importRatesMutation = useMutation({
+    mutationFn: (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      formData.append("toCurrency", homeCurrency);
+      return apiRequest("POST", "/api/currency/rates/import", undefined, { body: formData }).then(res => res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/currency/rates"] });
+      toast({
+        title: "Exchange rates imported",
+        description: `${data.imported} rates imported` + (data.errors?.length ? `, ${data.errors.length} rows skipped` : ""),
+      });
+    },
+    onError: showError("Rate import failed"),
+  });
+
+  const revaluationMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/currency/${clientId}/revaluations`, { asOfDate: revaluationDate }).then(res => res.json()),
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/currency/${clientId}/adjustments`] });
+      toast({
+        title: "Revaluation posted",
+        description: data.amount
+          ? `Unrealized ${data.amount > 0 ? "gain" : "loss"} of $${Math.abs(data.amount).toFixed(2)}, reversed on ${data.adjustment?.reversalDate}`
+          : "Foreign currency balances are already at the closing rate",
+      });
+    },
+    onError: showError("Revaluation failed"),
+  });
+
+  const accountSelect = (value: string, onChange: (value: string) => void, id: string) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger id={id}>
+        <SelectValue placeholder="Select account" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value="none">Not set</SelectItem>
+        {accounts
+          .filter((account) => ["income", "expense", "other_income", "other_expense"].includes(account.type))
+          .map((account) => (
+            <SelectItem key={account.id} value={account.id.toString()}>
+              {account.accountNumber ? `${account.accountNumber} - ` : ""}{account.name}
+            </SelectItem>
+          ))}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Coins className="h-5 w-5" />
+          Currencies
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Foreign-currency accounts, exchange rates and FX gain/loss
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="home-currency">Home currency</Label>
+            <Select value={homeCurrency} onValueChange={setHomeCurrency}>
+              <SelectTrigger id="home-currency">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((code) => (
+                  <SelectItem key={code} value={code}>{code}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="realized-fx-account">Realized FX gain/loss</Label>
+            {accountSelect(realizedFxAccountId, setRealizedFxAccountId, "realized-fx-account")}
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="unrealized-fx-account">Unrealized FX gain/loss</Label>
+            {accountSelect(unrealizedFxAccountId, setUnrealizedFxAccountId, "unrealized-fx-account")}
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <Button type="button" onClick={() => saveSettingsMutation.mutate()} disabled={saveSettingsMutation.isPending}>
+            {saveSettingsMutation.isPending && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Save Currency Settings
+          </Button>
+        </div>
+
+        {monetaryAccounts.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Account currencies</h4>
+            <div className="divide-y rounded-lg border">
+              {monetaryAccounts.map((account) => (
+                <div key={account.id} className="p-3 text-sm flex items-center justify-between gap-4">
+                  <span>
+                    {account.accountNumber ? `${account.accountNumber} - ` : ""}{account.name}
+                  </span>
+                  <Select
+                    value={accountCurrency(account.id)}
+                    onValueChange={(currency) => accountCurrencyMutation.mutate({ accountId: account.id, currency })}
+                  >
+                    <SelectTrigger className="w-28">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {CURRENCIES.map((code) => (
+                        <SelectItem key={code} value={code}>{code}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Foreign-currency invoices and bills</h4>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3 items-end">
+            <div className="space-y-2">
+              <Label htmlFor="document-type">Document</Label>
+              <Select value={documentType} onValueChange={(value) => setDocumentType(value as "invoice" | "bill")}>
+                <SelectTrigger id="document-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="invoice">Invoice</SelectItem>
+                  <SelectItem value="bill">Bill</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-id">ID</Label>
+              <Input id="document-id" type="number" min="1" value={documentId} onChange={(e) => setDocumentId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-currency">Currency</Label>
+              <Select value={documentCurrency} onValueChange={setDocumentCurrency}>
+                <SelectTrigger id="document-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((code) => (
+                    <SelectItem key={code} value={code}>{code}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-date">Document date</Label>
+              <Input id="document-date" type="date" value={documentDate} onChange={(e) => setDocumentDate(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="document-rate">Rate</Label>
+              <Input
+                id="document-rate"
+                type="number"
+                step="0.000001"
+                placeholder="From rates"
+                value={documentRate}
+                onChange={(e) => setDocumentRate(e.target.value)}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() =>
+                documentCurrencyMutation.mutate({
+                  documentType,
+                  documentId: parseInt(documentId),
+                  currency: documentCurrency,
+                  documentDate,
+                  exchangeRate: documentRate ? parseFloat(documentRate) : undefined,
+                })
+              }
+              disabled={!documentId || !documentDate || documentCurrencyMutation.isPending}
+            >
+              Save
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Payments on these documents post the realized gain or loss against the rate on the document date.
+          </p>
+          {documents.length > 0 && (
+            <div className="divide-y rounded-lg border">
+              {documents.map((document) => (
+                <div key={document.id} className="px-3 py-2 text-sm flex items-center justify-between gap-4">
+                  <span>
+                    {document.documentType} #{document.documentId}
+                  </span>
+                  <span>{document.documentDate}</span>
+                  <span className="font-mono">
+                    {document.currency} @ {parseFloat(document.exchangeRate).toFixed(6)}
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() =>
+                      documentCurrencyMutation.mutate({
+                        documentType: document.documentType,
+                        documentId: document.documentId,
+                        currency: null,
+                        documentDate: document.documentDate,
+                      })
+                    }
+                    disabled={documentCurrencyMutation.isPending}
+                  >
+                    Remove
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium">Exchange rates</h4>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => rateFileRef.current?.click()}
+              disabled={importRatesMutation.isPending}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importRatesMutation.isPending ? "Importing..." : "Import CSV"}
+            </Button>
+            <input
+              ref={rateFileRef}
+              type="file"
+              accept=".csv"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importRatesMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+          </div>
+          <p className="text-xs text-muted-foreground">
+            CSV columns: date, from, to, rate (e.g. 2024-12-31,USD,CAD,1.4389). Rates are shared by all clients of the firm.
+          </p>
+          {rates.length > 0 && (
+            <div className="divide-y rounded-lg border max-h-48 overflow-y-auto">
+              {rates.slice(0, 50).map((rate) => (
+                <div key={rate.id} className="px-3 py-2 text-sm flex justify-between">
+                  <span>{rate.rateDate}</span>
+                  <span>{rate.fromCurrency}/{rate.toCurrency}</span>
+                  <span className="font-mono">{parseFloat(rate.rate).toFixed(6)}</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h4 className="font-medium">Period-end revaluation</h4>
+          <div className="flex items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="revaluation-date">Revalue as of</Label>
+              <Input
+                id="revaluation-date"
+                type="date"
+                value={revaluationDate}
+                onChange={(e) => setRevaluationDate(e.target.value)}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={() => revaluationMutation.mutate()}
+              disabled={!revaluationDate || revaluationMutation.isPending}
+            >
+              <RefreshCw className={`h-4 w-4 mr-2 ${revaluationMutation.isPending ? "animate-spin" : ""}`} />
+              Run Revaluation
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Restates foreign-currency bank, receivable and payable balances at the closing rate. The entry reverses the next day.
+          </p>
+          {adjustments.length > 0 && (
+            <div className="divide-y rounded-lg border">
+              {adjustments.slice(0, 10).map((adjustment) => (
+                <div key={adjustment.id} className="px-3 py-2 text-sm flex items-center justify-between gap-4">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={adjustment.kind === "realized" ? "default" : "secondary"}>
+                      {adjustment.kind === "realized" ? "Realized" : "Unrealized"}
+                    </Badge>
+                    <span>{adjustment.entryDate}</span>
+                    {adjustment.documentType && (
+                      <span className="text-muted-foreground">
+                        {adjustment.documentType} #{adjustment.documentId}
+                      </span>
+                    )}
+                  </div>
+                  <span className={`font-mono ${parseFloat(adjustment.amount) < 0 ? "text-red-600" : "text-green-600"}`}>
+                    {parseFloat(adjustment.amount).toFixed(2)}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,227 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Copy, Download, Trash2 } from "lucide-react";
+
+interface MatchedTransaction {
+  id: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+interface DuplicateReviewItem {
+  id: number;
+  source: "import" | "feed" | "manual";
+  transactionDate: string;
+  description: string;
+  amount: number;
+  fitId: string | null;
+  matchType: "fitid" | "fingerprint" | "similar";
+  createdAt: string;
+  matchedTransaction: MatchedTransaction | null;
+}
+
+interface DuplicateOverride {
+  id: number;
+  source: string;
+  description: string | null;
+  amount: string | null;
+  reason: string;
+  createdAt: string;
+}
+
+const SOURCE_LABELS: Record<DuplicateReviewItem["source"], string> = {
+  import: "Statement import",
+  feed: "Bank feed",
+  manual: "Manual entry",
+};
+
+const MATCH_LABELS: Record<DuplicateReviewItem["matchType"], string> = {
+  fitid: "Same bank ID",
+  fingerprint: "Same date, amount and description",
+  similar: "Similar description within a few days",
+};
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface DuplicateReviewQueueProps {
+  clientId: number | string;
+  onTransactionsChanged?: () => void;
+}
+
+export function DuplicateReviewQueue({ clientId, onTransactionsChanged }: DuplicateReviewQueueProps) {
+  const { toast } = useToast();
+  const [forceItem, setForceItem] = useState<DuplicateReviewItem | null>(null);
+  const [forceReason, setForceReason] = useState("");
+  const [showOverrides, setShowOverrides] = useState(false);
+
+  const queueKey = [`/api/duplicates/${clientId}/queue`];
+  const overridesKey = [`/api/duplicates/${clientId}/overrides`];
+
+  const { data: queueData, isLoading } = useQuery<{ items: DuplicateReviewItem[] }>({
+    queryKey: queueKey,
+    enabled: !!clientId,
+  });
+
+  const { data: overridesData } = useQuery<{ overrides: DuplicateOverride[] }>({
+    queryKey: overridesKey,
+    enabled: !!clientId && showOverrides,
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const forceMutation = useMutation({
+    mutationFn: ({ itemId, reason }: { itemId: number; reason: string }) =>
+      apiRequest('POST', `/api/duplicates/${clientId}/queue/${itemId}/import`, { reason }).then(res => res.json()),
+    onSuccess: () => {
+      toast({ title: "Transaction imported", description: "The override and its reason were logged" });
+      setForceItem(null);
+      setForceReason("");
+      queryClient.invalidateQueries({ queryKey: queueKey });
+      queryClient.invalidateQueries({ queryKey: overridesKey });
+      queryClient.invalidateQueries({ queryKey: [`/api/bank-transactions/${clientId}`] });
+      onTransactionsChanged?.();
+    },
+    onError: onError("Failed to import transaction"),
+  });
+
+  const discardMutation = useMutation({
+    mutationFn: (itemId: number) =>
+      apiRequest('POST', `/api/duplicates/${clientId}/queue/${itemId}/discard`).then(res => res.json()),
+    onSuccess: () => {
+      toast({ title: "Duplicate discarded" });
+      queryClient.invalidateQueries({ queryKey: queueKey });
+    },
+    onError: onError("Failed to discard transaction"),
+  });
+
+  const items = queueData?.items || [];
+  const overrides = overridesData?.overrides || [];
+  const isBusy = forceMutation.isPending || discardMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Copy className="h-5 w-5" />
+              Suspected Duplicates
+              {items.length > 0 && <Badge variant="secondary">{items.length}</Badge>}
+            </CardTitle>
+            <CardDescription>
+              Imported, synced or entered transactions that look like ones already in the ledger. They are not posted until imported here.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={() => setShowOverrides(current => !current)}>
+            {showOverrides ? "Hide Override Log" : "Override Log"}
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : items.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No suspected duplicates waiting for review</p>
+        ) : (
+          <div className="space-y-3">
+            {items.map((item) => (
+              <div key={item.id} className="border rounded-lg p-3 space-y-2">
+                <div className="flex items-center justify-between gap-2">
+                  <div className="flex items-center gap-2 flex-wrap">
+                    <span className="font-medium">{formatAmount(item.amount)}</span>
+                    <span className="text-sm">{item.transactionDate} · {item.description}</span>
+                    <Badge variant="outline">{SOURCE_LABELS[item.source] || item.source}</Badge>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => setForceItem(item)} disabled={isBusy}>
+                      <Download className="h-4 w-4 mr-1" />
+                      Import Anyway
+                    </Button>
+                    <Button size="sm" variant="ghost" onClick={() => discardMutation.mutate(item.id)} disabled={isBusy}>
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Discard
+                    </Button>
+                  </div>
+                </div>
+                {item.matchedTransaction && (
+                  <p className="text-xs text-muted-foreground">
+                    {MATCH_LABELS[item.matchType]}: {item.matchedTransaction.date} · {item.matchedTransaction.description} ·{" "}
+                    {formatAmount(item.matchedTransaction.amount)}
+                    {item.matchedTransaction.reference ? ` · Ref ${item.matchedTransaction.reference}` : ""}
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+
+        {showOverrides && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Forced Imports</h4>
+            {overrides.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No duplicates have been forced in</p>
+            ) : (
+              overrides.slice(0, 20).map((override) => (
+                <div key={override.id} className="text-sm border-b py-1">
+                  {new Date(override.createdAt).toLocaleDateString()} · {override.description || "Transaction"}
+                  {override.amount ? ` · ${formatAmount(parseFloat(override.amount))}` : ""}
+                  <span className="text-muted-foreground"> · {override.reason}</span>
+                </div>
+              ))
+            )}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={!!forceItem} onOpenChange={(open) => !open && setForceItem(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Import Suspected Duplicate</DialogTitle>
+            <DialogDescription>
+              The transaction will be posted even though it resembles one already in the ledger. The reason is kept in the override log.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="duplicate-force-reason">Reason</Label>
+            <Textarea
+              id="duplicate-force-reason"
+              value={forceReason}
+              onChange={(e) => setForceReason(e.target.value)}
+              placeholder="e.g. Two separate purchases for the same amount on the same day"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setForceItem(null)}>Cancel</Button>
+            <Button
+              onClick={() => forceItem && forceMutation.mutate({ itemId: forceItem.id, reason: forceReason.trim() })}
+              disabled={!forceReason.trim() || forceMutation.isPending}
+            >
+              {forceMutation.isPending ? "Importing..." : "Import"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,921 @@
+import { useMemo, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format, endOfMonth, subMonths } from "date-fns";
+import { Building, Plus, Pencil, Trash2, Loader2, Download, Calculator, LogOut, AlertTriangle } from "lucide-react";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { FixedAsset, DepreciationPlanPeriod, FixedAssetContinuity, Schedule8Row } from "@/lib/types";
+
+const CCA_RULE_LABELS: Record<string, string> = {
+  half_year: "Half-year rule",
+  aiip: "Accelerated (AIIP)",
+  none: "No first-year rule",
+};
+
+const BOOK_METHOD_LABELS: Record<string, string> = {
+  straight_line: "Straight-line",
+  declining_balance: "Declining balance",
+  none: "Not depreciated",
+};
+
+const NONE = "none";
+
+interface FixedAssetsTabProps {
+  clientId: string;
+}
+
+interface AssetForm {
+  assetNumber: string;
+  name: string;
+  description: string;
+  acquisitionDate: string;
+  cost: string;
+  ccaClass: string;
+  ccaRate: string;
+  ccaRule: string;
+  bookMethod: string;
+  usefulLifeMonths: string;
+  bookRate: string;
+  salvageValue: string;
+  openingAccumulatedDepreciation: string;
+  openingDepreciationDate: string;
+  assetAccountId: string;
+  accumulatedDepreciationAccountId: string;
+  depreciationExpenseAccountId: string;
+  notes: string;
+}
+
+const emptyForm = (): AssetForm => ({
+  assetNumber: "",
+  name: "",
+  description: "",
+  acquisitionDate: format(new Date(), "yyyy-MM-dd"),
+  cost: "",
+  ccaClass: "8",
+  ccaRate: "",
+  ccaRule: "half_year",
+  bookMethod: "straight_line",
+  usefulLifeMonths: "60",
+  bookRate: "",
+  salvageValue: "0",
+  openingAccumulatedDepreciation: "0",
+  openingDepreciationDate: "",
+  assetAccountId: NONE,
+  accumulatedDepreciationAccountId: NONE,
+  depreciationExpenseAccountId: NONE,
+  notes: "",
+});
+
+const toForm = (asset: FixedAsset): AssetForm => ({
+  assetNumber: asset.assetNumber || "",
+  name: asset.name,
+  description: asset.description || "",
+  acquisitionDate: asset.acquisitionDate,
+  cost: asset.cost,
+  ccaClass: asset.ccaClass,
+  ccaRate: String(parseFloat(asset.ccaRate)),
+  ccaRule: asset.ccaRule,
+  bookMethod: asset.bookMethod,
+  usefulLifeMonths: asset.usefulLifeMonths ? String(asset.usefulLifeMonths) : "",
+  bookRate: asset.bookRate ? String(parseFloat(asset.bookRate)) : "",
+  salvageValue: asset.salvageValue,
+  openingAccumulatedDepreciation: asset.openingAccumulatedDepreciation,
+  openingDepreciationDate: asset.openingDepreciationDate || "",
+  assetAccountId: asset.assetAccountId ? String(asset.assetAccountId) : NONE,
+  accumulatedDepreciationAccountId: asset.accumulatedDepreciationAccountId ? String(asset.accumulatedDepreciationAccountId) : NONE,
+  depreciationExpenseAccountId: asset.depreciationExpenseAccountId ? String(asset.depreciationExpenseAccountId) : NONE,
+  notes: asset.notes || "",
+});
+
+const formatAmount = (value: number | string | null | undefined) =>
+  (typeof value === "string" ? parseFloat(value) || 0 : value || 0).toLocaleString("en-CA", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+
+const accountIdOrNull = (value: string) => (value === NONE ? null : parseInt(value));
+
+/**
+ * Fixed asset register for a client: assets with CCA class and book
+ * depreciation settings, monthly depreciation posting, disposals and the
+ * T2 Schedule 8 CCA continuity with the working paper download.
+ */
+export default function FixedAssetsTab({ clientId }: FixedAssetsTabProps) {
+  const { toast } = useToast();
+  const lastMonthEnd = format(endOfMonth(subMonths(new Date(), 1)), "yyyy-MM-dd");
+
+  const [editingAsset, setEditingAsset] = useState<FixedAsset | "new" | null>(null);
+  const [form, setForm] = useState<AssetForm>(emptyForm());
+  const [disposingAsset, setDisposingAsset] = useState<FixedAsset | null>(null);
+  const [disposal, setDisposal] = useState({ disposalDate: format(new Date(), "yyyy-MM-dd"), proceeds: "0", proceedsAccountId: NONE, gainLossAccountId: NONE });
+  const [showDepreciation, setShowDepreciation] = useState(false);
+  const [throughDate, setThroughDate] = useState(lastMonthEnd);
+  const [taxYearDate, setTaxYearDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [editingClassYear, setEditingClassYear] = useState<Schedule8Row | null>(null);
+  const [classYearValues, setClassYearValues] = useState({ openingUcc: "", ccaClaimed: "" });
+
+  const assetsKey = [`/api/fixed-assets/${clientId}`];
+  const scheduleKey = [`/api/fixed-assets/${clientId}/schedule-8`, taxYearDate];
+
+  const { data: assets = [], isLoading } = useQuery<FixedAsset[]>({
+    queryKey: assetsKey,
+    queryFn: () => apiRequest("GET", `/api/fixed-assets/${clientId}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: ccaClasses = [] } = useQuery<Array<{ ccaClass: string; rate: number; description: string }>>({
+    queryKey: ["/api/fixed-assets/cca-classes"],
+    queryFn: () => apiRequest("GET", "/api/fixed-assets/cca-classes").then(res => res.json()),
+  });
+
+  const { data: accountsData } = useQuery<any>({
+    queryKey: [`/api/accounts/${clientId}`],
+    queryFn: () => apiRequest("GET", `/api/accounts/${clientId}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: continuity, isLoading: isLoadingSchedule } = useQuery<FixedAssetContinuity>({
+    queryKey: scheduleKey,
+    queryFn: () =>
+      apiRequest("GET", `/api/fixed-assets/${clientId}/schedule-8?date=${taxYearDate}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: depreciationPlan = [], isFetching: isLoadingPlan } = useQuery<DepreciationPlanPeriod[]>({
+    queryKey: [`/api/fixed-assets/${clientId}/depreciation/preview`, throughDate],
+    queryFn: () =>
+      apiRequest("GET", `/api/fixed-assets/${clientId}/depreciation/preview?through=${throughDate}`).then(res => res.json()),
+    enabled: showDepreciation && !!throughDate,
+  });
+
+  const accounts: any[] = useMemo(
+    () => (Array.isArray(accountsData?.accounts) ? accountsData.accounts : []),
+    [accountsData]
+  );
+  const assetAccounts = accounts.filter((account) => account.type === "asset");
+  const expenseAccounts = accounts.filter((account) => ["expense", "cost_of_sales", "other_expense"].includes(account.type));
+  const accountLabel = (account: any) => `${account.accountNumber ? `${account.accountNumber} · ` : ""}${account.name}`;
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: assetsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/fixed-assets/${clientId}/schedule-8`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/fixed-assets/${clientId}/depreciation/preview`] });
+  };
+
+  const showError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: () => {
+      const payload = {
+        assetNumber: form.assetNumber || null,
+        name: form.name,
+        description: form.description || null,
+        acquisitionDate: form.acquisitionDate,
+        cost: parseFloat(form.cost),
+        ccaClass: form.ccaClass.trim(),
+        ccaRate: form.ccaRate ? parseFloat(form.ccaRate) : null,
+        ccaRule: form.ccaRule,
+        bookMethod: form.bookMethod,
+        usefulLifeMonths: form.usefulLifeMonths ? parseInt(form.usefulLifeMonths) : null,
+        bookRate: form.bookRate ? parseFloat(form.bookRate) : null,
+        salvageValue: parseFloat(form.salvageValue) || 0,
+        openingAccumulatedDepreciation: parseFloat(form.openingAccumulatedDepreciation) || 0,
+        openingDepreciationDate: form.openingDepreciationDate || null,
+        assetAccountId: accountIdOrNull(form.assetAccountId),
+        accumulatedDepreciationAccountId: accountIdOrNull(form.accumulatedDepreciationAccountId),
+        depreciationExpenseAccountId: accountIdOrNull(form.depreciationExpenseAccountId),
+        notes: form.notes || null,
+      };
+      return editingAsset && editingAsset !== "new"
+        ? apiRequest("PUT", `/api/fixed-assets/${clientId}/${editingAsset.id}`, payload).then(res => res.json())
+        : apiRequest("POST", `/api/fixed-assets/${clientId}`, payload).then(res => res.json());
+    },
+    onSuccess: () => {
+      invalidate();
+      setEditingAsset(null);
+      toast({ title: "Asset saved" });
+    },
+    onError: showError("Could not save asset"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (assetId: number) => apiRequest("DELETE", `/api/fixed-assets/${clientId}/${assetId}`).then(res => res.json()),
+    onSuccess: () => invalidate(),
+    onError: showError("Could not delete asset"),
+  });
+
+  const disposeMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/fixed-assets/${clientId}/${disposingAsset!.id}/dispose`, {
+        disposalDate: disposal.disposalDate,
+        proceeds: parseFloat(disposal.proceeds) || 0,
+        proceedsAccountId: accountIdOrNull(disposal.proceedsAccountId),
+        gainLossAccountId: accountIdOrNull(disposal.gainLossAccountId),
+      }).then(res => res.json()),
+    onSuccess: (asset: FixedAsset) => {
+      invalidate();
+      setDisposingAsset(null);
+      toast({
+        title: "Disposal recorded",
+        description: asset.disposalJournalEntryId ? "The disposal entry was posted." : "The register was updated; no entry was posted.",
+      });
+    },
+    onError: showError("Could not record disposal"),
+  });
+
+  const postDepreciationMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("POST", `/api/fixed-assets/${clientId}/depreciation/post`, { through: throughDate }).then(res => res.json()),
+    onSuccess: (result: { posted: any[]; skipped: any[] }) => {
+      invalidate();
+      setShowDepreciation(false);
+      toast({
+        title: "Depreciation posted",
+        description: `${result.posted.length} journal entr${result.posted.length === 1 ? "y" : "ies"} posted` +
+          (result.skipped.length ? `; ${result.skipped.length} locked month(s) caught up in the next open month` : ""),
+      });
+    },
+    onError: showError("Could not post depreciation"),
+  });
+
+  const classYearMutation = useMutation({
+    mutationFn: () =>
+      apiRequest("PUT", `/api/fixed-assets/${clientId}/cca-class-years`, {
+        ccaClass: editingClassYear!.classKey,
+        taxYearEnd: continuity!.taxYear.end,
+        openingUcc: classYearValues.openingUcc === "" ? null : parseFloat(classYearValues.openingUcc),
+        ccaClaimed: classYearValues.ccaClaimed === "" ? null : parseFloat(classYearValues.ccaClaimed),
+      }).then(res => res.json()),
+    onSuccess: () => {
+      invalidate();
+      setEditingClassYear(null);
+    },
+    onError: showError("Could not save class year"),
+  });
+
+  const downloadWorkingPaper = async () => {
+    try {
+      const response = await apiRequest("GET", `/api/fixed-assets/${clientId}/working-paper?date=${taxYearDate}`);
+      const blob = await response.blob();
+      const url = window.URL.createObjectURL(blob);
+      const a = document.createElement("a");
+      a.href = url;
+      a.download = `fixed-assets-${continuity?.taxYear.end || taxYearDate}.xlsx`;
+      a.click();
+      window.URL.revokeObjectURL(url);
+    } catch (error) {
+      showError("Could not download working paper")(error as Error);
+    }
+  };
+
+  const openEditor = (asset: FixedAsset | "new") => {
+    setForm(asset === "new" ? emptyForm() : toForm(asset));
+    setEditingAsset(asset);
+  };
+
+  const setField = (field: keyof AssetForm) => (value: string) => setForm((current) => ({ ...current, [field]: value }));
+
+  const onClassChange = (value: string) => {
+    const known = ccaClasses.find((ccaClass) => ccaClass.ccaClass === value);
+    setForm((current) => ({ ...current, ccaClass: value, ccaRate: known ? String(known.rate) : current.ccaRate }));
+  };
+
+  const renderAccountSelect = (value: string, onChange: (value: string) => void, options: any[]) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue placeholder="Select account" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={NONE}>None</SelectItem>
+        {options.map((account) => (
+          <SelectItem key={account.id} value={String(account.id)}>
+            {accountLabel(account)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const activeAssets = assets.filter((asset) => asset.status === "active");
+  const totalCost = activeAssets.reduce((sum, asset) => sum + parseFloat(asset.cost), 0);
+  const totalNetBookValue = activeAssets.reduce((sum, asset) => sum + (asset.netBookValue || 0), 0);
+  const planTotal = depreciationPlan.filter((period) => !period.locked).reduce((sum, period) => sum + period.total, 0);
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-2xl font-bold flex items-center gap-2">
+            <Building className="h-6 w-6" />
+            Fixed Assets
+          </h2>
+          <p className="text-gray-600">Asset register with book depreciation and CCA (T2 Schedule 8)</p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={() => setShowDepreciation(true)}>
+            <Calculator className="h-4 w-4 mr-1" />
+            Post Depreciation
+          </Button>
+          <Button onClick={() => openEditor("new")}>
+            <Plus className="h-4 w-4 mr-1" />
+            Add Asset
+          </Button>
+        </div>
+      </div>
+
+      <Tabs defaultValue="register">
+        <TabsList>
+          <TabsTrigger value="register">Register</TabsTrigger>
+          <TabsTrigger value="schedule-8">CCA Schedule 8</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="register" className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-gray-600">Active assets</div>
+                <div className="text-2xl font-bold">{activeAssets.length}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-gray-600">Cost</div>
+                <div className="text-2xl font-bold">${formatAmount(totalCost)}</div>
+              </CardContent>
+            </Card>
+            <Card>
+              <CardContent className="p-4">
+                <div className="text-sm text-gray-600">Net book value</div>
+                <div className="text-2xl font-bold">${formatAmount(totalNetBookValue)}</div>
+              </CardContent>
+            </Card>
+          </div>
+
+          <Card>
+            <CardContent className="p-0">
+              {isLoading ? (
+                <div className="p-6 text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline mr-2" />
+                  Loading assets...
+                </div>
+              ) : assets.length === 0 ? (
+                <div className="p-6 text-center text-gray-500">No fixed assets yet. Add an asset to start the register.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Asset</TableHead>
+                      <TableHead>Class</TableHead>
+                      <TableHead>Acquired</TableHead>
+                      <TableHead className="text-right">Cost</TableHead>
+                      <TableHead className="text-right">Accum. Dep.</TableHead>
+                      <TableHead className="text-right">NBV</TableHead>
+                      <TableHead>Book Method</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead></TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {assets.map((asset) => (
+                      <TableRow key={asset.id}>
+                        <TableCell>
+                          <div className="font-medium">{asset.name}</div>
+                          {asset.assetNumber && <div className="text-xs text-gray-500">#{asset.assetNumber}</div>}
+                        </TableCell>
+                        <TableCell>
+                          {asset.ccaClass} <span className="text-xs text-gray-500">({parseFloat(asset.ccaRate)}%)</span>
+                        </TableCell>
+                        <TableCell>{asset.acquisitionDate}</TableCell>
+                        <TableCell className="text-right">{formatAmount(asset.cost)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(asset.accumulatedDepreciation)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(asset.netBookValue)}</TableCell>
+                        <TableCell>
+                          <div className="text-sm">{BOOK_METHOD_LABELS[asset.bookMethod]}</div>
+                          {asset.depreciatedThrough && (
+                            <div className="text-xs text-gray-500">Through {asset.depreciatedThrough}</div>
+                          )}
+                        </TableCell>
+                        <TableCell>
+                          {asset.status === "disposed" ? (
+                            <Badge variant="secondary">Disposed {asset.disposalDate}</Badge>
+                          ) : (
+                            <Badge variant="outline">Active</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button variant="ghost" size="sm" onClick={() => openEditor(asset)}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          {asset.status === "active" && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              title="Dispose"
+                              onClick={() => {
+                                setDisposal({ disposalDate: format(new Date(), "yyyy-MM-dd"), proceeds: "0", proceedsAccountId: NONE, gainLossAccountId: NONE });
+                                setDisposingAsset(asset);
+                              }}
+                            >
+                              <LogOut className="h-4 w-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => {
+                              if (confirm(`Delete ${asset.name}?`)) deleteMutation.mutate(asset.id);
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4 text-red-500" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="schedule-8" className="space-y-4">
+          <div className="flex items-end justify-between">
+            <div className="flex items-end gap-3">
+              <div>
+                <Label htmlFor="tax-year-date">Tax year containing</Label>
+                <Input id="tax-year-date" type="date" value={taxYearDate} onChange={(e) => setTaxYearDate(e.target.value)} />
+              </div>
+              {continuity && (
+                <div className="text-sm text-gray-600 pb-2">
+                  {continuity.taxYear.start} to {continuity.taxYear.end}
+                </div>
+              )}
+            </div>
+            <Button variant="outline" onClick={downloadWorkingPaper}>
+              <Download className="h-4 w-4 mr-1" />
+              Working Paper
+            </Button>
+          </div>
+
+          <Card>
+            <CardHeader>
+              <CardTitle>CCA Continuity</CardTitle>
+              <CardDescription>
+                Column numbers follow the T2 Schedule 8. Click a class to enter an opening UCC from a prior schedule or a CCA claim below the maximum.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              {isLoadingSchedule ? (
+                <div className="text-center text-gray-500">
+                  <Loader2 className="h-5 w-5 animate-spin inline mr-2" />
+                  Building schedule...
+                </div>
+              ) : !continuity || continuity.schedule8.rows.length === 0 ? (
+                <div className="text-center text-gray-500">No CCA classes for this tax year.</div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Class (1)</TableHead>
+                      <TableHead className="text-right">Opening UCC (2)</TableHead>
+                      <TableHead className="text-right">Additions (3)</TableHead>
+                      <TableHead className="text-right">Proceeds (6)</TableHead>
+                      <TableHead className="text-right">UCC (7)</TableHead>
+                      <TableHead className="text-right">AIIP Adj. (10)</TableHead>
+                      <TableHead className="text-right">Half-Year Adj. (11)</TableHead>
+                      <TableHead className="text-right">Reduced UCC (12)</TableHead>
+                      <TableHead className="text-right">Rate (13)</TableHead>
+                      <TableHead className="text-right">Recapture (14)</TableHead>
+                      <TableHead className="text-right">Terminal Loss (15)</TableHead>
+                      <TableHead className="text-right">CCA (16)</TableHead>
+                      <TableHead className="text-right">Closing UCC (17)</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {continuity.schedule8.rows.map((row) => (
+                      <TableRow
+                        key={row.classKey}
+                        className="cursor-pointer hover:bg-gray-50"
+                        onClick={() => {
+                          setClassYearValues({ openingUcc: "", ccaClaimed: row.claimOverridden ? String(row.cca) : "" });
+                          setEditingClassYear(row);
+                        }}
+                      >
+                        <TableCell>
+                          <div className="font-medium">{row.ccaClass}</div>
+                          <div className="text-xs text-gray-500">{row.description}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(row.openingUcc)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.additions)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.proceeds)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.uccAfterAdditions)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.aiipAdjustment)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.halfYearAdjustment)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.reducedUcc)}</TableCell>
+                        <TableCell className="text-right">{row.rate}%</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.recapture)}</TableCell>
+                        <TableCell className="text-right">{formatAmount(row.terminalLoss)}</TableCell>
+                        <TableCell className="text-right">
+                          {formatAmount(row.cca)}
+                          {row.claimOverridden && (
+                            <div className="text-xs text-amber-600">max {formatAmount(row.maximumCca)}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatAmount(row.closingUcc)}</TableCell>
+                      </TableRow>
+                    ))}
+                    <TableRow className="font-semibold border-t-2">
+                      <TableCell>Total</TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.openingUcc)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.additions)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.proceeds)}</TableCell>
+                      <TableCell colSpan={3}></TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.reducedUcc)}</TableCell>
+                      <TableCell></TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.recapture)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.terminalLoss)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.cca)}</TableCell>
+                      <TableCell className="text-right">{formatAmount(continuity.schedule8.totals.closingUcc)}</TableCell>
+                    </TableRow>
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+
+          {continuity && (
+            <Card>
+              <CardHeader>
+                <CardTitle>Book-to-Tax Differences</CardTitle>
+                <CardDescription>Carried to the T2 Schedule 1</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm">
+                  <div>
+                    <div className="text-gray-600">Book depreciation (add back)</div>
+                    <div className="font-semibold">{formatAmount(continuity.bookToTax.bookDepreciation)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-600">Recapture (add)</div>
+                    <div className="font-semibold">{formatAmount(continuity.bookToTax.recapture)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-600">CCA (deduct)</div>
+                    <div className="font-semibold">{formatAmount(continuity.bookToTax.cca)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-600">Terminal loss (deduct)</div>
+                    <div className="font-semibold">{formatAmount(continuity.bookToTax.terminalLoss)}</div>
+                  </div>
+                  <div>
+                    <div className="text-gray-600">Net adjustment</div>
+                    <div className="font-semibold">{formatAmount(continuity.bookToTax.netAdjustment)}</div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {/* Asset editor */}
+      <Dialog open={!!editingAsset} onOpenChange={(open) => !open && setEditingAsset(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingAsset === "new" ? "Add Fixed Asset" : "Edit Fixed Asset"}</DialogTitle>
+            <DialogDescription>Tax (CCA) and book depreciation are tracked separately.</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="col-span-2">
+                <Label htmlFor="asset-name">Name</Label>
+                <Input id="asset-name" value={form.name} onChange={(e) => setField("name")(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="asset-number">Asset #</Label>
+                <Input id="asset-number" value={form.assetNumber} onChange={(e) => setField("assetNumber")(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="asset-acquired">Acquisition date</Label>
+                <Input id="asset-acquired" type="date" value={form.acquisitionDate} onChange={(e) => setField("acquisitionDate")(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="asset-cost">Cost</Label>
+                <Input id="asset-cost" type="number" step="0.01" value={form.cost} onChange={(e) => setField("cost")(e.target.value)} />
+              </div>
+              <div>
+                <Label htmlFor="asset-salvage">Salvage value</Label>
+                <Input id="asset-salvage" type="number" step="0.01" value={form.salvageValue} onChange={(e) => setField("salvageValue")(e.target.value)} />
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Tax (CCA)</h4>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Class</Label>
+                  <Select value={form.ccaClass} onValueChange={onClassChange}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ccaClasses.map((ccaClass) => (
+                        <SelectItem key={ccaClass.ccaClass} value={ccaClass.ccaClass}>
+                          Class {ccaClass.ccaClass} · {ccaClass.description}
+                        </SelectItem>
+                      ))}
+                      {!ccaClasses.some((ccaClass) => ccaClass.ccaClass === form.ccaClass) && (
+                        <SelectItem value={form.ccaClass}>Class {form.ccaClass}</SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="asset-cca-rate">Rate %</Label>
+                  <Input
+                    id="asset-cca-rate"
+                    type="number"
+                    step="0.01"
+                    value={form.ccaRate}
+                    placeholder={String(ccaClasses.find((ccaClass) => ccaClass.ccaClass === form.ccaClass)?.rate ?? "")}
+                    onChange={(e) => setField("ccaRate")(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label>First-year rule</Label>
+                  <Select value={form.ccaRule} onValueChange={setField("ccaRule")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(CCA_RULE_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Book depreciation</h4>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Method</Label>
+                  <Select value={form.bookMethod} onValueChange={setField("bookMethod")}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(BOOK_METHOD_LABELS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {form.bookMethod === "straight_line" && (
+                  <div>
+                    <Label htmlFor="asset-life">Useful life (months)</Label>
+                    <Input id="asset-life" type="number" value={form.usefulLifeMonths} onChange={(e) => setField("usefulLifeMonths")(e.target.value)} />
+                  </div>
+                )}
+                {form.bookMethod === "declining_balance" && (
+                  <div>
+                    <Label htmlFor="asset-book-rate">Annual rate %</Label>
+                    <Input id="asset-book-rate" type="number" step="0.01" value={form.bookRate} onChange={(e) => setField("bookRate")(e.target.value)} />
+                  </div>
+                )}
+                <div></div>
+                <div>
+                  <Label htmlFor="asset-opening-accum">Accum. dep. before register</Label>
+                  <Input
+                    id="asset-opening-accum"
+                    type="number"
+                    step="0.01"
+                    value={form.openingAccumulatedDepreciation}
+                    onChange={(e) => setField("openingAccumulatedDepreciation")(e.target.value)}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="asset-opening-date">Depreciated through</Label>
+                  <Input
+                    id="asset-opening-date"
+                    type="date"
+                    value={form.openingDepreciationDate}
+                    onChange={(e) => setField("openingDepreciationDate")(e.target.value)}
+                  />
+                </div>
+              </div>
+            </div>
+
+            <div>
+              <h4 className="font-medium mb-2">Accounts</h4>
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <Label>Asset (cost)</Label>
+                  {renderAccountSelect(form.assetAccountId, setField("assetAccountId"), assetAccounts)}
+                </div>
+                <div>
+                  <Label>Accumulated depreciation</Label>
+                  {renderAccountSelect(form.accumulatedDepreciationAccountId, setField("accumulatedDepreciationAccountId"), assetAccounts)}
+                </div>
+                <div>
+                  <Label>Depreciation expense</Label>
+                  {renderAccountSelect(form.depreciationExpenseAccountId, setField("depreciationExpenseAccountId"), expenseAccounts)}
+                </div>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Depreciation is only posted for assets with both a depreciation expense and an accumulated depreciation account.
+              </p>
+            </div>
+
+            <div>
+              <Label htmlFor="asset-notes">Notes</Label>
+              <Textarea id="asset-notes" rows={2} value={form.notes} onChange={(e) => setField("notes")(e.target.value)} />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingAsset(null)}>Cancel</Button>
+            <Button onClick={() => saveMutation.mutate()} disabled={!form.name || !form.cost || saveMutation.isPending}>
+              {saveMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Disposal */}
+      <Dialog open={!!disposingAsset} onOpenChange={(open) => !open && setDisposingAsset(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Dispose of {disposingAsset?.name}</DialogTitle>
+            <DialogDescription>
+              Choose a proceeds account and a gain/loss account to post the disposal entry. Proceeds above cost are a capital gain; recapture or terminal loss shows on the CCA schedule.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="disposal-date">Disposal date</Label>
+              <Input
+                id="disposal-date"
+                type="date"
+                value={disposal.disposalDate}
+                onChange={(e) => setDisposal((current) => ({ ...current, disposalDate: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="disposal-proceeds">Proceeds</Label>
+              <Input
+                id="disposal-proceeds"
+                type="number"
+                step="0.01"
+                value={disposal.proceeds}
+                onChange={(e) => setDisposal((current) => ({ ...current, proceeds: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Proceeds account</Label>
+              {renderAccountSelect(disposal.proceedsAccountId, (value) => setDisposal((current) => ({ ...current, proceedsAccountId: value })), assetAccounts)}
+            </div>
+            <div>
+              <Label>Gain/loss account</Label>
+              {renderAccountSelect(disposal.gainLossAccountId, (value) => setDisposal((current) => ({ ...current, gainLossAccountId: value })), accounts)}
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDisposingAsset(null)}>Cancel</Button>
+            <Button onClick={() => disposeMutation.mutate()} disabled={disposeMutation.isPending}>
+              {disposeMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Record Disposal
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Depreciation posting */}
+      <Dialog open={showDepreciation} onOpenChange={setShowDepreciation}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Post Depreciation</DialogTitle>
+            <DialogDescription>
+              One journal entry per month end. Depreciation for months in a locked period is caught up in the first open month.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="w-48">
+            <Label htmlFor="depreciation-through">Through</Label>
+            <Input id="depreciation-through" type="date" value={throughDate} onChange={(e) => setThroughDate(e.target.value)} />
+          </div>
+          {isLoadingPlan ? (
+            <div className="text-center text-gray-500">
+              <Loader2 className="h-5 w-5 animate-spin inline mr-2" />
+              Calculating...
+            </div>
+          ) : depreciationPlan.length === 0 ? (
+            <div className="text-center text-gray-500 py-4">Depreciation is up to date.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Month end</TableHead>
+                  <TableHead className="text-right">Assets</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {depreciationPlan.map((period) => (
+                  <TableRow key={period.periodEnd} className={period.locked ? "text-gray-400" : ""}>
+                    <TableCell>
+                      {period.periodEnd}
+                      {period.locked && (
+                        <span className="ml-2 text-xs text-amber-600 inline-flex items-center gap-1" title={period.lockMessage || ""}>
+                          <AlertTriangle className="h-3 w-3" />
+                          Locked
+                        </span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">{period.lines.length}</TableCell>
+                    <TableCell className="text-right">{formatAmount(period.total)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setShowDepreciation(false)}>Cancel</Button>
+            <Button
+              onClick={() => postDepreciationMutation.mutate()}
+              disabled={planTotal <= 0 || postDepreciationMutation.isPending}
+            >
+              {postDepreciationMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+              Post ${formatAmount(planTotal)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Opening UCC / CCA claimed for a class */}
+      <Dialog open={!!editingClassYear} onOpenChange={(open) => !open && setEditingClassYear(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              Class {editingClassYear?.ccaClass}
+              {editingClassYear?.assetId ? ` · ${editingClassYear.description}` : ""} · {continuity?.taxYear.end}
+            </DialogTitle>
+            <DialogDescription>
+              Leave opening UCC blank to roll forward from the prior year, and CCA claimed blank to claim the maximum ({formatAmount(editingClassYear?.maximumCca)}).
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="class-opening-ucc">Opening UCC</Label>
+              <Input
+                id="class-opening-ucc"
+                type="number"
+                step="0.01"
+                value={classYearValues.openingUcc}
+                placeholder={formatAmount(editingClassYear?.openingUcc)}
+                onChange={(e) => setClassYearValues((current) => ({ ...current, openingUcc: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="class-cca-claimed">CCA claimed</Label>
+              <Input
+                id="class-cca-claimed"
+                type="number"
+                step="0.01"
+                value={classYearValues.ccaClaimed}
+                onChange={(e) => setClassYearValues((current) => ({ ...current, ccaClaimed: e.target.value }))}
+              />
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditingClassYear(null)}>Cancel</Button>
+            <Button onClick={() => classYearMutation.mutate()} disabled={classYearMutation.isPending}>
+              Save
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -9,7 +9,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { ScrollArea } from '@/components/ui/scroll-area';
-import { Loader2, X } from 'lucide-react';
+import { ExternalLink, Loader2, X } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
@@ -22,29 +22,64 @@ interface GeneralLedgerModalProps {
   accountName: string;
   accountNumber: string;
   accountType: string;
-  clientId: string;
-  startDate: string;
+  clientId: string | number;
+  // Omitted for as-of reports such as the trial balance: all activity up to endDate
+  startDate?: string;
   endDate: string;
   isBalanceSheetDrillDown?: boolean; // NEW: Indicates if this is from Balance Sheet drill-down
+  // Dimension filters of the report line being drilled into
+  projectId?: string | number | null;
+  locationId?: string | number | null;
+  classId?: string | number | null;
 }
 
-interface JournalEntry {
-  id: number;
+interface SourceDocument {
+  type: string;
+  id: number | string;
+  label: string;
+  url: string;
+  importedFrom?: string | null;
+}
+
+interface DrillDownLine {
+  lineId: number;
+  journalEntryId: number;
+  entryNumber: string | null;
   entryDate: string;
   description: string;
-  referenceNumber: string;
-  lines: JournalLine[];
+  memo: string | null;
+  reference: string | null;
+  debit: number;
+  credit: number;
+  runningBalance: number;
+  source: SourceDocument;
 }
 
-interface JournalLine {
-  id: number;
-  accountId: number;
-  description: string;
-  debitAmount: string;
-  creditAmount: string;
-  memo: string;
+interface DrillDownResponse {
+  openingBalance: number;
+  totalDebits: number;
+  totalCredits: number;
+  closingBalance: number;
+  lines: DrillDownLine[];
 }
 
+const SOURCE_TYPE_LABELS: Record<string, string> = {
+  bank_transaction: 'Bank',
+  bill: 'Bill',
+  invoice: 'Invoice',
+  cheque: 'Cheque',
+  payroll_run: 'Payroll',
+  import_batch: 'Import',
+  fixed_asset: 'Fixed asset',
+  recurring_journal: 'Recurring',
+  fx_adjustment: 'FX',
+  journal_entry: 'Journal',
+};
+
+// Report dimension selects use 'all' for no filter
+const isDimensionSet = (value?: string | number | null) =>
+  value !== undefined && value !== null && value !== '' && value !== 'all';
+
 export default function GeneralLedgerModal({
   isOpen,
   onClose,
@@ -56,8 +91,10 @@ export default function GeneralLedgerModal({
   startDate,
   endDate,
   isBalanceSheetDrillDown = false,
+  projectId,
+  locationId,
+  classId,
 }: GeneralLedgerModalProps) {
-  const [runningBalance, setRunningBalance] = useState(0);
   const [page, setPage] = useState(0);
   const [pageSize] = useState(50); // QuickBooks-style pagination
 
@@ -72,7 +109,7 @@ export default function GeneralLedgerModal({
   };
 
   // Determine if account normally has debit balance (assets, expenses) or credit balance (liabilities, equity, income)
-  const isDebitNormal = accountType === 'asset' || accountType === 'expense' || accountType === 'cost_of_sales';
+  const isDebitNormal = accountType === 'asset' || accountType === 'expense' || accountType === 'cost_of_sales' || accountType === 'other_expense';
 
   const token = localStorage.getItem('authToken');
   const headers: HeadersInit = {
@@ -81,50 +118,35 @@ export default function GeneralLedgerModal({
   if (token) {
     headers['Authorization'] = `Bearer ${token}`;
   }
-  // For Balance Sheet drill-downs, fetch the opening balance (cumulative to startDate)
-  const { data: openingBalanceData } = useQuery({
-    queryKey: [`/api/accounts/${clientId}/${accountId}/balance`, { date: startDate, isBalanceSheetDrillDown }],
-    queryFn: async () => {
-      if (!isBalanceSheetDrillDown) return { balance: 0 };
-      
-      const response = await fetch(apiConfig.buildUrl(`/api/accounts/${clientId}/${accountId}/balance?date=${startDate}`), {
-        credentials: 'include',
-        headers
-      });
-      if (!response.ok) throw new Error('Failed to fetch opening balance');
-      return response.json();
-    },
-    enabled: isBalanceSheetDrillDown
-  });
 
-  // Fetch journal entries for this account with pagination and server-side filtering
-  const { data: journalData, isLoading, error } = useQuery({
-    queryKey: [`/api/journal-entries/${clientId}`, { accountId, startDate, endDate, page, pageSize }],
+  useEffect(() => {
+    setPage(0);
+  }, [accountId, startDate, endDate, projectId, locationId, classId]);
+
+  // Journal-entry lines behind the balance with their source documents.
+  // Balance sheet accounts open with the balance at startDate.
+  const { data: drillDown, isLoading, error } = useQuery<DrillDownResponse>({
+    queryKey: [`/api/drill-down/${clientId}/accounts/${accountId}`, { startDate, endDate, projectId, locationId, classId }],
     queryFn: async () => {
-      const params = new URLSearchParams({
-        limit: pageSize.toString(),
-        offset: (page * pageSize).toString(),
-        startDate,
-        endDate,
-        accountId: accountId.toString(), // Server-side account filtering for performance
-      });
-      
-      const response = await fetch(apiConfig.buildUrl(`/api/journal-entries/${clientId}?${params}`), {
+      const params = new URLSearchParams({ endDate });
+      if (startDate) params.set('startDate', startDate);
+      if (isDimensionSet(projectId)) params.set('projectId', String(projectId));
+      if (isDimensionSet(locationId)) params.set('locationId', String(locationId));
+      if (isDimensionSet(classId)) params.set('classId', String(classId));
+
+      const response = await fetch(apiConfig.buildUrl(`/api/drill-down/${clientId}/accounts/${accountId}?${params}`), {
         credentials: 'include',
         headers
       });
-      
+
       if (!response.ok) {
         if (response.status === 401) {
           throw new Error('Authentication required. Please log in to view journal entries.');
         }
         throw new Error(`Failed to fetch journal entries: ${response.status} ${response.statusText}`);
       }
-      
-      const data = await response.json();
-      
-      // Server-side filtering means we don't need client-side filtering anymore
-      return data;
+
+      return response.json();
     },
     enabled: isOpen && !!clientId && !!accountId,
     retry: (failureCount: number, error: any) => {
@@ -136,44 +158,23 @@ export default function GeneralLedgerModal({
     },
   });
 
-  // Extract entries and metadata from paginated response
-  const journalEntries = journalData?.entries || [];
-  const totalEntries = journalData?.metadata?.total || 0;
-  const hasNextPage = journalData?.metadata?.hasMore || false;
+  const lines = drillDown?.lines || [];
+  const openingBalance = drillDown?.openingBalance || 0;
+  const closingBalance = drillDown?.closingBalance || 0;
+  const totalEntries = lines.length;
+  const pageLines = lines.slice(page * pageSize, (page + 1) * pageSize);
+  const hasNextPage = (page + 1) * pageSize < totalEntries;
 
-  // Calculate running balance
-  const transactions = journalEntries?.flatMap((entry: JournalEntry) => 
-    entry.lines
-      .filter((line: JournalLine) => line.accountId === accountId)
-      .map((line: JournalLine) => ({
-        date: entry.entryDate,
-        description: entry.description || line.description,
-        reference: entry.referenceNumber,
-        debit: parseFloat(line.debitAmount || '0'),
-        credit: parseFloat(line.creditAmount || '0'),
-        memo: line.memo,
-        entryId: entry.id
-      }))
-  ) || [];
+  const formatBalance = (amount: number) => (
+    <>
+      {formatCurrency(Math.abs(amount))}
+      {!isDebitNormal && amount < 0 && ' DR'}
+      {isDebitNormal && amount < 0 && ' CR'}
+    </>
+  );
 
-  // Calculate running balance for each transaction
-  // For Balance Sheet drill-downs, start with the opening balance (cumulative to startDate)
-  // For General Ledger, start with 0 (period calculation)
-  let balance = isBalanceSheetDrillDown ? (openingBalanceData?.balance || 0) : 0;
-  const transactionsWithBalance = transactions.map((transaction: any) => {
-    // For debit-normal accounts: balance increases with debits, decreases with credits
-    // For credit-normal accounts: balance increases with credits, decreases with debits
-    if (isDebitNormal) {
-      balance += transaction.debit - transaction.credit;
-    } else {
-      balance += transaction.credit - transaction.debit;
-    }
-    
-    return {
-      ...transaction,
-      runningBalance: balance
-    };
-  });
+  const formatDate = (date: string) =>
+    format(new Date(`${date}T00:00:00`), 'MMM dd, yyyy');
 
   return (
     <Dialog open={isOpen} onOpenChange={onClose}>
@@ -195,9 +196,9 @@ export default function GeneralLedgerModal({
                   <div className="flex items-center gap-2">
                     <Badge variant="secondary">{accountType}</Badge>
                     <span className="text-sm text-muted-foreground">
-                      {isBalanceSheetDrillDown 
-                        ? `Balance Sheet Drill-down: ${format(new Date(startDate), 'MMM dd, yyyy')} - ${format(new Date(endDate), 'MMM dd, yyyy')}` 
-                        : `${format(new Date(startDate), 'MMM dd, yyyy')} - ${format(new Date(endDate), 'MMM dd, yyyy')}`
+                      {startDate
+                        ? `${isBalanceSheetDrillDown ? 'Balance Sheet Drill-down: ' : ''}${formatDate(startDate)} - ${formatDate(endDate)}`
+                        : `As of ${formatDate(endDate)}`
                       }
                     </span>
                   </div>
@@ -235,70 +236,93 @@ export default function GeneralLedgerModal({
                     <TableHead className="w-[110px] px-4 py-3">Date</TableHead>
                     <TableHead className="w-[120px] px-4 py-3">Reference</TableHead>
                     <TableHead className="px-4 py-3">Description</TableHead>
+                    <TableHead className="w-[220px] px-4 py-3">Source</TableHead>
                     <TableHead className="w-[120px] text-right px-4 py-3">Debit</TableHead>
                     <TableHead className="w-[120px] text-right px-4 py-3">Credit</TableHead>
                     <TableHead className="w-[140px] text-right px-4 py-3">Balance</TableHead>
                   </TableRow>
                 </TableHeader>
                 <TableBody>
-                  {transactionsWithBalance.length === 0 ? (
+                  {openingBalance !== 0 && page === 0 && (
+                    <TableRow className="bg-muted/20">
+                      <TableCell colSpan={6} className="px-4 py-3 font-medium">
+                        Opening balance{startDate ? ` at ${formatDate(startDate)}` : ''}
+                      </TableCell>
+                      <TableCell className="text-right font-mono font-semibold px-4 py-3">
+                        {formatBalance(openingBalance)}
+                      </TableCell>
+                    </TableRow>
+                  )}
+                  {lines.length === 0 ? (
                     <TableRow>
-                      <TableCell colSpan={6} className="text-center text-muted-foreground py-12 px-4">
+                      <TableCell colSpan={7} className="text-center text-muted-foreground py-12 px-4">
                         No transactions found for this account in the selected date range
                       </TableCell>
                     </TableRow>
                   ) : (
-                    transactionsWithBalance.map((transaction, index) => (
+                    pageLines.map((line, index) => (
                       <TableRow 
-                        key={`${transaction.entryId}-${index}`}
+                        key={line.lineId}
                         className="hover:bg-muted/50"
                         data-testid={`transaction-row-${index}`}
                       >
                         <TableCell className="font-mono text-sm px-2 py-3">
                           {(() => {
                             // Parse YYYY-MM-DD format directly to avoid timezone conversion issues
-                            const [year, month, day] = transaction.date.split('-');
+                            const [year, month, day] = line.entryDate.split('-');
                             return `${month}/${day}/${year}`;
                           })()}
                         </TableCell>
                         <TableCell className="font-mono text-sm px-4 py-3">
-                          {transaction.reference || '-'}
+                          {line.reference || line.entryNumber || '-'}
                         </TableCell>
                         <TableCell className="text-sm px-4 py-3">
                           <div>
-                            <div className="font-medium">{transaction.description}</div>
-                            {transaction.memo && (
-                              <div className="text-xs text-muted-foreground mt-1 leading-relaxed">{transaction.memo}</div>
+                            <div className="font-medium">{line.description}</div>
+                            {line.memo && (
+                              <div className="text-xs text-muted-foreground mt-1 leading-relaxed">{line.memo}</div>
                             )}
                           </div>
                         </TableCell>
+                        <TableCell className="text-sm px-4 py-3">
+                          <a
+                            href={line.source.url}
+                            className="flex items-center gap-2 hover:underline"
+                            data-testid={`source-link-${index}`}
+                          >
+                            <Badge variant="outline" className="text-xs shrink-0">
+                              {SOURCE_TYPE_LABELS[line.source.type] || line.source.type}
+                            </Badge>
+                            <span className="truncate">{line.source.label}</span>
+                            <ExternalLink className="h-3 w-3 shrink-0 text-muted-foreground" />
+                          </a>
+                          {line.source.importedFrom && (
+                            <div className="text-xs text-muted-foreground mt-1">Imported from {line.source.importedFrom}</div>
+                          )}
+                        </TableCell>
                         <TableCell className="text-right font-mono px-4 py-3">
-                          {transaction.debit > 0 ? formatCurrency(transaction.debit) : '-'}
+                          {line.debit > 0 ? formatCurrency(line.debit) : '-'}
                         </TableCell>
                         <TableCell className="text-right font-mono px-4 py-3">
-                          {transaction.credit > 0 ? formatCurrency(transaction.credit) : '-'}
+                          {line.credit > 0 ? formatCurrency(line.credit) : '-'}
                         </TableCell>
                         <TableCell className="text-right font-mono font-semibold px-4 py-3">
-                          {formatCurrency(Math.abs(transaction.runningBalance))}
-                          {!isDebitNormal && transaction.runningBalance < 0 && ' DR'}
-                          {isDebitNormal && transaction.runningBalance < 0 && ' CR'}
+                          {formatBalance(line.runningBalance)}
                         </TableCell>
                       </TableRow>
                     ))
                   )}
-                  {transactionsWithBalance.length > 0 && (
+                  {lines.length > 0 && (
                     <TableRow className="font-semibold border-t-2 bg-muted/30">
-                      <TableCell colSpan={3} className="px-4 py-4 font-bold">Total</TableCell>
+                      <TableCell colSpan={4} className="px-4 py-4 font-bold">Total</TableCell>
                       <TableCell className="text-right px-4 py-4 font-mono">
-                        {formatCurrency(transactions.reduce((sum, t) => sum + t.debit, 0))}
+                        {formatCurrency(drillDown?.totalDebits || 0)}
                       </TableCell>
                       <TableCell className="text-right px-4 py-4 font-mono">
-                        {formatCurrency(transactions.reduce((sum, t) => sum + t.credit, 0))}
+                        {formatCurrency(drillDown?.totalCredits || 0)}
                       </TableCell>
                       <TableCell className="text-right px-4 py-4 font-mono font-bold">
-                        {formatCurrency(Math.abs(balance))}
-                        {!isDebitNormal && balance < 0 && ' DR'}
-                        {isDebitNormal && balance < 0 && ' CR'}
+                        {formatBalance(closingBalance)}
                       </TableCell>
                     </TableRow>
                   )}
@@ -308,13 +332,8 @@ export default function GeneralLedgerModal({
               {/* Pagination Controls */}
               {!isLoading && !error && totalEntries > 0 && (
                 <div className="flex items-center justify-between mt-4 px-4 py-3 border-t">
-                  <div className="flex items-center gap-4">
-                    <div className="text-sm text-muted-foreground">
-                      Showing {(page * pageSize) + 1}-{Math.min((page + 1) * pageSize, totalEntries)} of {totalEntries} entries
-                    </div>
-                    <Badge variant="outline" className="text-xs">
-                      {journalData?.metadata?.queryTime || 'N/A'} response time
-                    </Badge>
+                  <div className="text-sm text-muted-foreground">
+                    Showing {(page * pageSize) + 1}-{Math.min((page + 1) * pageSize, totalEntries)} of {totalEntries} lines
                   </div>
                   <div className="flex items-center gap-2">
                     <Button
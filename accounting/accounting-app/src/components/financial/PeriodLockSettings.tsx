@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Lock, LockOpen, Loader2, History } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+
+interface PeriodLock {
+  clientId: number;
+  closedThroughDate: string | null;
+  softLockDate: string | null;
+  updatedAt: string | null;
+}
+
+interface PeriodLockAuditEntry {
+  id: number;
+  action: "lock" | "reopen" | "year_end_close";
+  previousClosedThroughDate: string | null;
+  newClosedThroughDate: string | null;
+  previousSoftLockDate: string | null;
+  newSoftLockDate: string | null;
+  reason: string | null;
+  userId: number | null;
+  createdAt: string;
+}
+
+const actionLabels: Record<PeriodLockAuditEntry["action"], string> = {
+  lock: "Locked",
+  reopen: "Reopened",
+  year_end_close: "Year-end close",
+};
+
+/**
+ * Closed-through and staff soft-lock dates for a client's books.
+ * Moving a date back is a reopen: the server requires a manager role and a reason.
+ */
+export default function PeriodLockSettings({ clientId }: { clientId: string }) {
+  const { toast } = useToast();
+  const [closedThroughDate, setClosedThroughDate] = useState("");
+  const [softLockDate, setSoftLockDate] = useState("");
+  const [reason, setReason] = useState("");
+
+  const { data: lock, isLoading } = useQuery<PeriodLock>({
+    queryKey: [`/api/period-locks/${clientId}`],
+    queryFn: () => apiRequest("GET", `/api/period-locks/${clientId}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: auditLog = [] } = useQuery<PeriodLockAuditEntry[]>({
+    queryKey: [`/api/period-locks/${clientId}/audit`],
+    queryFn: () => apiRequest("GET", `/api/period-locks/${clientId}/audit`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  useEffect(() => {
+    setClosedThroughDate(lock?.closedThroughDate || "");
+    setSoftLockDate(lock?.softLockDate || "");
+  }, [lock?.closedThroughDate, lock?.softLockDate]);
+
+  const isReopen =
+    (!!lock?.closedThroughDate && (!closedThroughDate || closedThroughDate < lock.closedThroughDate)) ||
+    (!!lock?.softLockDate && (!softLockDate || softLockDate < lock.softLockDate));
+
+  const saveLockMutation = useMutation({
+    mutationFn: async () => {
+      const payload = {
+        closedThroughDate: closedThroughDate || null,
+        softLockDate: softLockDate || null,
+        reason: reason || undefined,
+      };
+      const res = isReopen
+        ? await apiRequest("POST", `/api/period-locks/${clientId}/reopen`, payload)
+        : await apiRequest("PUT", `/api/period-locks/${clientId}`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/period-locks/${clientId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/period-locks/${clientId}/audit`] });
+      setReason("");
+      toast({
+        title: isReopen ? "Period reopened" : "Period lock saved",
+        description: isReopen
+          ? "The reopen has been recorded in the audit log."
+          : "Entries in the locked period can no longer be changed.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not update period lock",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const formatDate = (value: string | null) =>
+    value ? format(new Date(`${value}T12:00:00`), "MMM d, yyyy") : "Open";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Lock className="h-5 w-5" />
+          Period Locks
+        </CardTitle>
+        <p className="text-sm text-muted-foreground mt-1">
+          Prevent journal entries, transactions and imports from changing filed periods
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Loader2 className="h-4 w-4 animate-spin" />
+            Loading period locks...
+          </div>
+        ) : (
+          <>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="closed-through-date">Books closed through</Label>
+                <Input
+                  id="closed-through-date"
+                  type="date"
+                  value={closedThroughDate}
+                  onChange={(e) => setClosedThroughDate(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  No one can post or edit on or before this date. Currently: {formatDate(lock?.closedThroughDate ?? null)}
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="soft-lock-date">Locked for staff through</Label>
+                <Input
+                  id="soft-lock-date"
+                  type="date"
+                  value={softLockDate}
+                  onChange={(e) => setSoftLockDate(e.target.value)}
+                />
+                <p className="text-xs text-muted-foreground">
+                  Only managers can post or edit on or before this date. Currently: {formatDate(lock?.softLockDate ?? null)}
+                </p>
+              </div>
+            </div>
+
+            {isReopen && (
+              <div className="space-y-2">
+                <Label htmlFor="reopen-reason">Reason for reopening</Label>
+                <Textarea
+                  id="reopen-reason"
+                  placeholder="e.g. Adjusting entry requested by reviewer after T2 amendment"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+            )}
+
+            <div className="flex justify-end">
+              <Button
+                type="button"
+                variant={isReopen ? "destructive" : "default"}
+                disabled={saveLockMutation.isPending || (isReopen && !reason.trim())}
+                onClick={() => saveLockMutation.mutate()}
+                className="flex items-center gap-2"
+              >
+                {saveLockMutation.isPending ? (
+                  <Loader2 className="h-4 w-4 animate-spin" />
+                ) : isReopen ? (
+                  <LockOpen className="h-4 w-4" />
+                ) : (
+                  <Lock className="h-4 w-4" />
+                )}
+                {isReopen ? "Reopen Period" : "Save Lock Dates"}
+              </Button>
+            </div>
+          </>
+        )}
+
+        {auditLog.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium flex items-center gap-2">
+              <History className="h-4 w-4" />
+              Lock History
+            </h4>
+            <div className="divide-y rounded-lg border">
+              {auditLog.map((entry) => (
+                <div key={entry.id} className="p-3 text-sm flex items-start justify-between gap-4">
+                  <div>
+                    <div className="flex items-center gap-2">
+                      <Badge variant={entry.action === "reopen" ? "destructive" : "secondary"}>
+                        {actionLabels[entry.action] || entry.action}
+                      </Badge>
+                      <span className="text-muted-foreground">
+                        Closed: {formatDate(entry.previousClosedThroughDate)} → {formatDate(entry.newClosedThroughDate)}
+                        {" · "}
+                        Staff: {formatDate(entry.previousSoftLockDate)} → {formatDate(entry.newSoftLockDate)}
+                      </span>
+                    </div>
+                    {entry.reason && <p className="mt-1">{entry.reason}</p>}
+                  </div>
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {format(new Date(entry.createdAt), "MMM d, yyyy h:mm a")}
+                  </span>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
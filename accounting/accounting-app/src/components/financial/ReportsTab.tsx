@@ -33,6 +33,9 @@ import { Table as DataTable, TableBody, TableCell, TableHead, TableHeader, Table
 import GeneralLedgerModal from "./GeneralLedgerModal";
 import AccountsPayableAging from "../vendor/AccountsPayableAging";
 import AccountsReceivableAging from "../crm/AccountsReceivableAging";
+import ReportBarChart from "../reports/ReportBarChart";
+import BudgetManager from "./BudgetManager";
+import type { BudgetComparison } from "@/lib/types";
 import { apiConfig } from "@/lib/api-config";
 import { useSelectedClient } from "@/contexts/SelectedClientContext";
 
@@ -89,6 +92,9 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
   const [periodType, setPeriodType] = useState<'single' | 'monthly' | 'quarterly' | 'yearly'>('single');
   const [columnarData, setColumnarData] = useState<any>(null);
   const [cashFlowMethod, setCashFlowMethod] = useState<'direct' | 'indirect'>('indirect');
+  const [presentationCurrency, setPresentationCurrency] = useState<string>('home');
+  const [selectedBudgetId, setSelectedBudgetId] = useState<string>('none');
+  const [showBudgetManager, setShowBudgetManager] = useState(false);
   const [agingAsOfDate, setAgingAsOfDate] = useState<string>(
     new Date().toISOString().split('T')[0] // Today
   );
@@ -130,6 +136,16 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
     enabled: !!clientId
   });
 
+  // Budgets for budget-vs-actual columns on the P&L and Balance Sheet
+  const { data: budgets = [] } = useQuery<any[]>({
+    queryKey: [`/api/budgets/${clientId}`],
+    enabled: !!clientId && ['profit-loss', 'balance-sheet'].includes(selectedTemplate),
+    queryFn: async () => {
+      const res = await fetch(apiConfig.buildUrl(`/api/budgets/${clientId}`), { credentials: 'include', headers });
+      return res.ok ? res.json() : [];
+    }
+  });
+
   // Fetch dimension data for P&L filtering
   const { data: projects = [] } = useQuery<any[]>({
     queryKey: ['/api/projects', clientId],
@@ -417,6 +433,72 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
     }).format(num);
   };
 
+  // Budget vs actual columns (present when the report was generated with a budget)
+  const showBudget = !!reportData?.budgetComparison;
+
+  const renderBudgetHeaders = () => (
+    <>
+      <TableHead className="text-right">Budget</TableHead>
+      <TableHead className="text-right">Variance</TableHead>
+      <TableHead className="text-right">Var %</TableHead>
+    </>
+  );
+
+  const renderBudgetBlankCells = () => (
+    <>
+      <TableCell></TableCell>
+      <TableCell></TableCell>
+      <TableCell></TableCell>
+    </>
+  );
+
+  // favorable: 'higher' for income lines, 'lower' for costs; omitted for balance sheet lines
+  const renderBudgetCells = (
+    comparison?: BudgetComparison,
+    favorable?: 'higher' | 'lower'
+  ) => {
+    const variance = comparison?.variance || 0;
+    const isFavorable = favorable === 'higher' ? variance > 0 : variance < 0;
+    const varianceClass = !favorable || variance === 0 ? '' : isFavorable ? 'text-green-600' : 'text-red-600';
+    return (
+      <>
+        <TableCell className="text-right text-muted-foreground">{formatCurrency(comparison?.amount || 0)}</TableCell>
+        <TableCell className={cn("text-right", varianceClass)}>{formatCurrency(variance)}</TableCell>
+        <TableCell className={cn("text-right", varianceClass)}>
+          {comparison?.variancePercent != null ? `${comparison.variancePercent.toFixed(1)}%` : '—'}
+        </TableCell>
+      </>
+    );
+  };
+
+  const budgetChartData = (() => {
+    if (!showBudget) return [];
+    if (selectedTemplate === 'profit-loss' && !reportData.isColumnar) {
+      return [
+        { name: 'Income', Actual: reportData.income?.total || 0, Budget: reportData.income?.budget?.amount || 0 },
+        { name: 'Cost of Sales', Actual: reportData.costOfSales?.total || 0, Budget: reportData.costOfSales?.budget?.amount || 0 },
+        { name: 'Expenses', Actual: reportData.expenses?.total || 0, Budget: reportData.expenses?.budget?.amount || 0 },
+        { name: 'Net Income', Actual: reportData.netIncome || 0, Budget: reportData.budgetComparison.netIncome?.amount || 0 },
+      ];
+    }
+    if (selectedTemplate === 'profit-loss' && reportData.isColumnar) {
+      // One bar pair per period, excluding the trailing Total column
+      return (reportData.periods || []).slice(0, -1).map((period: string, index: number) => ({
+        name: period,
+        Actual: reportData.netIncomes?.[index] || 0,
+        Budget: reportData.budgetComparison.netIncomeAmounts?.[index] || 0,
+      }));
+    }
+    if (selectedTemplate === 'balance-sheet') {
+      return [
+        { name: 'Assets', Actual: reportData.totals?.totalAssets || 0, Budget: reportData.budgetComparison.totalAssets?.amount || 0 },
+        { name: 'Liabilities', Actual: reportData.totals?.totalLiabilities || 0, Budget: reportData.budgetComparison.totalLiabilities?.amount || 0 },
+        { name: 'Equity', Actual: reportData.totals?.totalEquity || 0, Budget: reportData.budgetComparison.totalEquity?.amount || 0 },
+      ];
+    }
+    return [];
+  })();
+
   // Update date range when preset changes
   useEffect(() => {
     if (!showCustomDate) {
@@ -521,6 +603,18 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
           throw new Error("Unsupported report type");
       }
 
+      // Balance sheet, P&L and trial balance can be translated for presentation
+      const currencyParam = presentationCurrency !== 'home' &&
+        ['balance-sheet', 'profit-loss', 'trial-balance'].includes(selectedTemplate)
+        ? `&presentationCurrency=${presentationCurrency}`
+        : '';
+      endpoint += currencyParam;
+
+      // Budget columns apply to the current period only
+      if (selectedBudgetId !== 'none' && ['balance-sheet', 'profit-loss'].includes(selectedTemplate)) {
+        endpoint += `&budgetId=${selectedBudgetId}`;
+      }
+
       const token = localStorage.getItem('authToken');
       const headers: HeadersInit = {
         'Content-Type': 'application/json'
@@ -568,6 +662,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
         }
 
         if (priorEndpoint) {
+          priorEndpoint += currencyParam;
           try {
             const priorResponse = await fetch(apiConfig.buildUrl(priorEndpoint), {
               credentials: 'include',
@@ -2069,6 +2164,45 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
               </div>
             )}
 
+            {['balance-sheet', 'profit-loss'].includes(selectedTemplate) && (
+              <div>
+                <Label className="text-sm font-medium">Budget</Label>
+                <div className="flex items-center gap-1">
+                  <Select value={selectedBudgetId} onValueChange={setSelectedBudgetId}>
+                    <SelectTrigger className="w-44">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="none">No budget</SelectItem>
+                      {budgets.map((budget: any) => (
+                        <SelectItem key={budget.id} value={budget.id.toString()}>{budget.name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="ghost" size="sm" onClick={() => setShowBudgetManager(true)} disabled={!clientId}>
+                    Manage
+                  </Button>
+                </div>
+              </div>
+            )}
+
+            {['balance-sheet', 'profit-loss', 'trial-balance'].includes(selectedTemplate) && (
+              <div>
+                <Label className="text-sm font-medium">Presentation Currency</Label>
+                <Select value={presentationCurrency} onValueChange={setPresentationCurrency}>
+                  <SelectTrigger className="w-32">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="home">Home</SelectItem>
+                    {['CAD', 'USD', 'EUR', 'GBP'].map((code) => (
+                      <SelectItem key={code} value={code}>{code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             {/* Generate Button */}
             <Button 
               onClick={generateReport}
@@ -2197,6 +2331,12 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                 </span>
               )}
             </div>
+            {reportData?.presentationCurrency && (
+              <div className="text-xs text-blue-600 mt-1">
+                Presented in {reportData.presentationCurrency.currency} at {reportData.presentationCurrency.rate.toFixed(6)} per {reportData.presentationCurrency.homeCurrency}
+                {reportData.presentationCurrency.rateDate && ` (rate of ${reportData.presentationCurrency.rateDate})`}
+              </div>
+            )}
             {bookkeepingSettings?.fiscalYearEndMonth && (
               <div className="text-xs text-blue-600 mt-1 space-y-1">
                 <div>
@@ -2231,6 +2371,19 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                 </div>
               </CardHeader>
               <CardContent>
+                {/* Budget vs Actual chart */}
+                {budgetChartData.length > 0 && (
+                  <div className="mb-6">
+                    <ReportBarChart
+                      data={budgetChartData}
+                      xKey="name"
+                      dataKeys={['Actual', 'Budget']}
+                      title={`Budget vs Actual — ${reportData.budgetComparison.name}`}
+                      height={260}
+                    />
+                  </div>
+                )}
+
                 {/* Balance Sheet Display */}
                 {selectedTemplate === 'balance-sheet' && reportData && reportData.assets && (
                   <div className="space-y-6">
@@ -2246,6 +2399,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableHead className="text-right">Prior Period</TableHead>
                             )}
+                            {showBudget && renderBudgetHeaders()}
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -2253,6 +2407,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             <TableCell className="font-medium">Current Assets</TableCell>
                             <TableCell></TableCell>
                             {priorPeriodData && <TableCell></TableCell>}
+                            {showBudget && renderBudgetBlankCells()}
                           </TableRow>
                           {(reportData.assets.currentAssets?.accounts || []).map((asset: any) => {
                             const priorAsset = priorPeriodData?.assets?.currentAssets?.accounts?.find((a: any) => a.id === asset.id);
@@ -2278,6 +2433,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                                 {priorPeriodData && (
                                   <TableCell className="text-right">{formatCurrency(priorAsset?.balance || 0)}</TableCell>
                                 )}
+                                {showBudget && renderBudgetCells(asset.budget)}
                               </TableRow>
                             );
                           })}
@@ -2287,11 +2443,13 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.assets?.currentAssets?.total || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.assets?.currentAssets?.budget)}
                           </TableRow>
                           <TableRow>
                             <TableCell className="font-medium">Fixed Assets</TableCell>
                             <TableCell></TableCell>
                             {priorPeriodData && <TableCell></TableCell>}
+                            {showBudget && renderBudgetBlankCells()}
                           </TableRow>
                           {(reportData.assets.fixedAssets?.accounts || []).map((asset: any) => {
                             const priorAsset = priorPeriodData?.assets?.fixedAssets?.accounts?.find((a: any) => a.id === asset.id);
@@ -2317,6 +2475,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                                 {priorPeriodData && (
                                   <TableCell className="text-right">{formatCurrency(priorAsset?.balance || 0)}</TableCell>
                                 )}
+                                {showBudget && renderBudgetCells(asset.budget)}
                               </TableRow>
                             );
                           })}
@@ -2326,6 +2485,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.assets?.fixedAssets?.total || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.assets?.fixedAssets?.budget)}
                           </TableRow>
                           <TableRow className="font-bold border-t">
                             <TableCell>TOTAL ASSETS</TableCell>
@@ -2333,6 +2493,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.assets?.total || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.assets?.budget)}
                           </TableRow>
                         </TableBody>
                       </DataTable>
@@ -2350,6 +2511,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableHead className="text-right">Prior Period</TableHead>
                             )}
+                            {showBudget && renderBudgetHeaders()}
                           </TableRow>
                         </TableHeader>
                         <TableBody>
@@ -2357,6 +2519,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             <TableCell className="font-medium">Current Liabilities</TableCell>
                             <TableCell></TableCell>
                             {priorPeriodData && <TableCell></TableCell>}
+                            {showBudget && renderBudgetBlankCells()}
                           </TableRow>
                           {(reportData.liabilities.currentLiabilities?.accounts || []).map((liability: any) => {
                             const priorLiability = priorPeriodData?.liabilities?.currentLiabilities?.accounts?.find((l: any) => l.id === liability.id);
@@ -2382,6 +2545,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                                 {priorPeriodData && (
                                   <TableCell className="text-right">{formatCurrency(priorLiability?.balance || 0)}</TableCell>
                                 )}
+                                {showBudget && renderBudgetCells(liability.budget)}
                               </TableRow>
                             );
                           })}
@@ -2391,11 +2555,13 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.liabilities?.currentLiabilities?.total || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.liabilities?.currentLiabilities?.budget)}
                           </TableRow>
                           <TableRow>
                             <TableCell className="font-medium">Long-term Liabilities</TableCell>
                             <TableCell></TableCell>
                             {priorPeriodData && <TableCell></TableCell>}
+                            {showBudget && renderBudgetBlankCells()}
                           </TableRow>
                           {(reportData.liabilities.longTermLiabilities?.accounts || []).map((liability: any) => {
                             const priorLiability = priorPeriodData?.liabilities?.longTermLiabilities?.accounts?.find((l: any) => l.id === liability.id);
@@ -2421,6 +2587,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                                 {priorPeriodData && (
                                   <TableCell className="text-right">{formatCurrency(priorLiability?.balance || 0)}</TableCell>
                                 )}
+                                {showBudget && renderBudgetCells(liability.budget)}
                               </TableRow>
                             );
                           })}
@@ -2430,6 +2597,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.liabilities?.longTermLiabilities?.total || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.liabilities?.longTermLiabilities?.budget)}
                           </TableRow>
                           <TableRow className="font-bold">
                             <TableCell>TOTAL LIABILITIES</TableCell>
@@ -2437,11 +2605,13 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.liabilities?.total || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.liabilities?.budget)}
                           </TableRow>
                           <TableRow>
                             <TableCell className="font-medium">Equity</TableCell>
                             <TableCell></TableCell>
                             {priorPeriodData && <TableCell></TableCell>}
+                            {showBudget && renderBudgetBlankCells()}
                           </TableRow>
                           {(reportData.equity.accounts || []).map((equity: any) => {
                             // Smart matching for equity accounts across periods
@@ -2484,6 +2654,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                                 {priorPeriodData && (
                                   <TableCell className="text-right">{formatCurrency(priorEquity?.balance || 0)}</TableCell>
                                 )}
+                                {showBudget && renderBudgetCells(equity.budget)}
                               </TableRow>
                             );
                           })}
@@ -2493,6 +2664,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.equity?.total || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.equity?.budget)}
                           </TableRow>
                           <TableRow className="font-bold border-t">
                             <TableCell>TOTAL LIABILITIES AND EQUITY</TableCell>
@@ -2500,6 +2672,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                             {priorPeriodData && (
                               <TableCell className="text-right">{formatCurrency(priorPeriodData?.totals?.totalLiabilitiesAndEquity || 0)}</TableCell>
                             )}
+                            {showBudget && renderBudgetCells(reportData.budgetComparison?.totalLiabilitiesAndEquity)}
                           </TableRow>
                         </TableBody>
                       </DataTable>
@@ -2636,6 +2809,29 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                               </TableCell>
                             ))}
                           </TableRow>
+
+                          {/* Budget comparison */}
+                          {reportData.budgetComparison && (
+                            <>
+                              <TableRow className="text-muted-foreground">
+                                <TableCell>Budgeted Net Income</TableCell>
+                                {reportData.budgetComparison.netIncomeAmounts?.map((amount: number, index: number) => (
+                                  <TableCell key={index} className="text-right">{formatCurrency(amount || 0)}</TableCell>
+                                ))}
+                              </TableRow>
+                              <TableRow>
+                                <TableCell>Variance</TableCell>
+                                {reportData.budgetComparison.netIncomeVariances?.map((variance: number, index: number) => (
+                                  <TableCell
+                                    key={index}
+                                    className={cn("text-right", variance > 0 && "text-green-600", variance < 0 && "text-red-600")}
+                                  >
+                                    {formatCurrency(variance || 0)}
+                                  </TableCell>
+                                ))}
+                              </TableRow>
+                            </>
+                          )}
                         </TableBody>
                       </DataTable>
                     ) : (
@@ -2651,6 +2847,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                               {priorPeriodData && (
                                 <TableHead className="text-right">Prior Period</TableHead>
                               )}
+                              {showBudget && renderBudgetHeaders()}
                             </TableRow>
                           </TableHeader>
                       <TableBody>
@@ -2658,6 +2855,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                           <TableCell className="font-medium">INCOME</TableCell>
                           <TableCell></TableCell>
                           {priorPeriodData && <TableCell></TableCell>}
+                          {showBudget && renderBudgetBlankCells()}
                         </TableRow>
                         {(reportData.income.accounts || []).map((income: any) => {
                           const priorIncome = priorPeriodData?.income?.accounts?.find((i: any) => i.id === income.id);
@@ -2683,6 +2881,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                               {priorPeriodData && (
                                 <TableCell className="text-right">{formatCurrency(priorIncome?.balance || 0)}</TableCell>
                               )}
+                              {showBudget && renderBudgetCells(income.budget, 'higher')}
                             </TableRow>
                           );
                         })}
@@ -2692,6 +2891,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                           {priorPeriodData && (
                             <TableCell className="text-right">{formatCurrency(priorPeriodData?.income?.total || 0)}</TableCell>
                           )}
+                          {showBudget && renderBudgetCells(reportData.income?.budget, 'higher')}
                         </TableRow>
                         
                         {/* Cost of Sales Section */}
@@ -2699,6 +2899,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                           <TableCell className="font-medium">COST OF SALES</TableCell>
                           <TableCell></TableCell>
                           {priorPeriodData && <TableCell></TableCell>}
+                          {showBudget && renderBudgetBlankCells()}
                         </TableRow>
                         {(reportData.costOfSales?.accounts || []).map((cost: any) => {
                           const priorCost = priorPeriodData?.costOfSales?.accounts?.find((c: any) => c.id === cost.id);
@@ -2724,6 +2925,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                               {priorPeriodData && (
                                 <TableCell className="text-right">{formatCurrency(priorCost?.balance || 0)}</TableCell>
                               )}
+                              {showBudget && renderBudgetCells(cost.budget, 'lower')}
                             </TableRow>
                           );
                         })}
@@ -2733,6 +2935,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                           {priorPeriodData && (
                             <TableCell className="text-right">{formatCurrency(priorPeriodData?.costOfSales?.total || 0)}</TableCell>
                           )}
+                          {showBudget && renderBudgetCells(reportData.costOfSales?.budget, 'lower')}
                         </TableRow>
                         
                         {/* Gross Profit */}
@@ -2742,12 +2945,14 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                           {priorPeriodData && (
                             <TableCell className="text-right">{formatCurrency(priorPeriodData?.grossProfit || 0)}</TableCell>
                           )}
+                          {showBudget && renderBudgetCells(reportData.budgetComparison?.grossProfit, 'higher')}
                         </TableRow>
                         
                         <TableRow>
                           <TableCell className="font-medium">OPERATING EXPENSES</TableCell>
                           <TableCell></TableCell>
                           {priorPeriodData && <TableCell></TableCell>}
+                          {showBudget && renderBudgetBlankCells()}
                         </TableRow>
                         {(reportData.expenses.accounts || []).map((expense: any) => {
                           const priorExpense = priorPeriodData?.expenses?.accounts?.find((e: any) => e.id === expense.id);
@@ -2773,6 +2978,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                               {priorPeriodData && (
                                 <TableCell className="text-right">{formatCurrency(priorExpense?.balance || 0)}</TableCell>
                               )}
+                              {showBudget && renderBudgetCells(expense.budget, 'lower')}
                             </TableRow>
                           );
                         })}
@@ -2782,6 +2988,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                           {priorPeriodData && (
                             <TableCell className="text-right">{formatCurrency(priorPeriodData?.expenses?.total || 0)}</TableCell>
                           )}
+                          {showBudget && renderBudgetCells(reportData.expenses?.budget, 'lower')}
                         </TableRow>
                         <TableRow className="font-bold border-t">
                           <TableCell>NET INCOME</TableCell>
@@ -2789,6 +2996,7 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                           {priorPeriodData && (
                             <TableCell className="text-right">{formatCurrency(priorPeriodData?.netIncome || 0)}</TableCell>
                           )}
+                          {showBudget && renderBudgetCells(reportData.budgetComparison?.netIncome, 'higher')}
                         </TableRow>
                       </TableBody>
                     </DataTable>
@@ -2931,6 +3139,31 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
                         </TableRow>
                       </TableBody>
                     </DataTable>
+
+                    {/* Indirect method: net change must equal the movement of the cash accounts */}
+                    {reportData.reconciliation && (
+                      <div
+                        className={`rounded-md border p-3 text-sm ${
+                          reportData.reconciliation.isReconciled
+                            ? 'border-green-200 bg-green-50 text-green-800'
+                            : 'border-red-200 bg-red-50 text-red-800'
+                        }`}
+                      >
+                        {reportData.reconciliation.isReconciled ? (
+                          <span>
+                            Reconciled: net change in cash agrees to the movement of{' '}
+                            {reportData.reconciliation.cashAccounts?.length || 0} cash account(s).
+                          </span>
+                        ) : (
+                          <span>
+                            Not reconciled: computed change {formatCurrency(reportData.reconciliation.computedChange)} vs. cash
+                            account movement {formatCurrency(reportData.reconciliation.cashMovement)} (difference{' '}
+                            {formatCurrency(reportData.reconciliation.difference)}). Check the cash-flow categories in the
+                            Chart of Accounts.
+                          </span>
+                        )}
+                      </div>
+                    )}
                   </div>
                 )}
 
@@ -3145,6 +3378,17 @@ export default function ReportsTab({ clientId }: ReportsTabProps) {
           startDate={format(effectiveDateRange.from, 'yyyy-MM-dd')}
           endDate={format(effectiveDateRange.to, 'yyyy-MM-dd')}
           isBalanceSheetDrillDown={selectedTemplate === 'balance-sheet'}
+          projectId={selectedProjectId}
+          locationId={selectedLocationId}
+          classId={selectedClassId}
+        />
+      )}
+
+      {clientId && (
+        <BudgetManager
+          clientId={clientId}
+          isOpen={showBudgetManager}
+          onClose={() => setShowBudgetManager(false)}
         />
       )}
     </div>
@@ -0,0 +1,462 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Switch } from "@/components/ui/switch";
+import { Skeleton } from "@/components/ui/skeleton";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ArrowLeftRight, Check, Link as LinkIcon, Loader2, Settings, Undo2, X } from "lucide-react";
+
+interface FeedTransaction {
+  transactionId: number;
+  accountId: number;
+  accountName: string;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+interface TransferProposal {
+  key: string;
+  from: FeedTransaction;
+  to: FeedTransaction;
+  amount: number;
+  daysApart: number;
+  reasons: string[];
+  alternativeCount: number;
+}
+
+interface TransferSettings {
+  dateWindowDays: number;
+  includeCreditCards: boolean;
+}
+
+interface DetectionResult {
+  settings: TransferSettings;
+  proposals: TransferProposal[];
+  counterparts: { pairId: number; transfer: any; transaction: FeedTransaction }[];
+  unmatchedHalves: FeedTransaction[];
+  internalAccountCount: number;
+}
+
+interface InternalAccount {
+  id: number;
+  name: string;
+  accountNumber: string | null;
+  type: string;
+  subtype: string | null;
+  isInternal: boolean;
+}
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+interface TransferMatchingCardProps {
+  clientId: number | string;
+  onTransfersChanged?: () => void;
+}
+
+export function TransferMatchingCard({ clientId, onTransfersChanged }: TransferMatchingCardProps) {
+  const { toast } = useToast();
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [settingsDraft, setSettingsDraft] = useState<TransferSettings | null>(null);
+  const [internalDraft, setInternalDraft] = useState<number[]>([]);
+  const [counterpartAccounts, setCounterpartAccounts] = useState<Record<number, string>>({});
+
+  const proposalsKey = [`/api/transfers/${clientId}/proposals`];
+  const internalKey = [`/api/transfers/${clientId}/internal-accounts`];
+
+  const { data: detection, isLoading, refetch, isFetching } = useQuery<DetectionResult>({
+    queryKey: proposalsKey,
+    enabled: !!clientId,
+  });
+
+  const { data: transfersData } = useQuery<{ transfers: any[] }>({
+    queryKey: [`/api/transfers/${clientId}`],
+    enabled: !!clientId,
+  });
+
+  const { data: internalData } = useQuery<{ isExplicit: boolean; accounts: InternalAccount[] }>({
+    queryKey: internalKey,
+    enabled: !!clientId,
+  });
+
+  const { data: settings } = useQuery<TransferSettings>({
+    queryKey: ['/api/transfers/settings'],
+  });
+
+  useEffect(() => {
+    if (!isSettingsOpen) return;
+    if (settings) setSettingsDraft(settings);
+    if (internalData) {
+      setInternalDraft(internalData.accounts.filter(account => account.isInternal).map(account => account.id));
+    }
+  }, [isSettingsOpen]);
+
+  const refreshTransfers = () => {
+    queryClient.invalidateQueries({ queryKey: proposalsKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/transfers/${clientId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/bank-transactions/${clientId}`] });
+    onTransfersChanged?.();
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const acceptMutation = useMutation({
+    mutationFn: async (proposals: TransferProposal[]) => {
+      for (const proposal of proposals) {
+        await apiRequest('POST', `/api/transfers/${clientId}/accept`, {
+          fromTransactionId: proposal.from.transactionId,
+          toTransactionId: proposal.to.transactionId,
+        });
+      }
+      return proposals.length;
+    },
+    onSuccess: (count: number) => {
+      toast({ title: count === 1 ? "Transfer posted" : `${count} transfers posted` });
+      refreshTransfers();
+    },
+    onError: onError("Failed to post transfer"),
+  });
+
+  const dismissMutation = useMutation({
+    mutationFn: (proposal: TransferProposal) =>
+      apiRequest('POST', `/api/transfers/${clientId}/dismiss`, {
+        fromTransactionId: proposal.from.transactionId,
+        toTransactionId: proposal.to.transactionId,
+      }).then(res => res.json()),
+    onSuccess: () => refreshTransfers(),
+    onError: onError("Failed to dismiss proposal"),
+  });
+
+  const linkMutation = useMutation({
+    mutationFn: ({ pairId, transactionId }: { pairId: number; transactionId: number }) =>
+      apiRequest('POST', `/api/transfers/${clientId}/${pairId}/link`, { transactionId }).then(res => res.json()),
+    onSuccess: () => {
+      toast({ title: "Transfer completed", description: "The other half was linked to the existing transfer entry" });
+      refreshTransfers();
+    },
+    onError: onError("Failed to link transfer"),
+  });
+
+  const oneSidedMutation = useMutation({
+    mutationFn: ({ transactionId, counterpartAccountId }: { transactionId: number; counterpartAccountId: number }) =>
+      apiRequest('POST', `/api/transfers/${clientId}/one-sided`, { transactionId, counterpartAccountId }).then(res => res.json()),
+    onSuccess: () => {
+      toast({ title: "Transfer posted", description: "The other half will be offered for linking when it arrives" });
+      refreshTransfers();
+    },
+    onError: onError("Failed to post transfer"),
+  });
+
+  const undoMutation = useMutation({
+    mutationFn: (pairId: number) =>
+      apiRequest('DELETE', `/api/transfers/${clientId}/${pairId}`).then(res => res.json()),
+    onSuccess: () => {
+      toast({ title: "Transfer removed", description: "Both halves are back in the categorization queue" });
+      refreshTransfers();
+    },
+    onError: onError("Failed to remove transfer"),
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: async () => {
+      if (settingsDraft) {
+        await apiRequest('PUT', '/api/transfers/settings', settingsDraft);
+      }
+      const current = internalAccounts.map(account => account.id).sort((a, b) => a - b);
+      const selected = [...internalDraft].sort((a, b) => a - b);
+      if (current.join(",") !== selected.join(",")) {
+        await apiRequest('PUT', `/api/transfers/${clientId}/internal-accounts`, { accountIds: internalDraft });
+      }
+    },
+    onSuccess: () => {
+      toast({ title: "Transfer settings saved" });
+      setIsSettingsOpen(false);
+      queryClient.invalidateQueries({ queryKey: ['/api/transfers/settings'] });
+      queryClient.invalidateQueries({ queryKey: internalKey });
+      queryClient.invalidateQueries({ queryKey: proposalsKey });
+    },
+    onError: onError("Failed to save transfer settings"),
+  });
+
+  const accountsById = new Map((internalData?.accounts || []).map(account => [account.id, account]));
+  const internalAccounts = (internalData?.accounts || []).filter(account => account.isInternal);
+  const proposals = detection?.proposals || [];
+  const counterparts = detection?.counterparts || [];
+  const unmatchedHalves = detection?.unmatchedHalves || [];
+  const transfers = transfersData?.transfers || [];
+  const isBusy = acceptMutation.isPending || dismissMutation.isPending || linkMutation.isPending
+    || oneSidedMutation.isPending || undoMutation.isPending;
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ArrowLeftRight className="h-5 w-5" />
+              Transfers Between Accounts
+            </CardTitle>
+            <CardDescription>
+              Equal and opposite transactions on the client's own accounts within{" "}
+              {detection?.settings.dateWindowDays ?? settings?.dateWindowDays ?? 3} day(s), posted as a single transfer
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              {isFetching ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : <ArrowLeftRight className="h-4 w-4 mr-2" />}
+              Find Transfers
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setIsSettingsOpen(true)}>
+              <Settings className="h-4 w-4 mr-2" />
+              Settings
+            </Button>
+            {proposals.length > 1 && (
+              <Button size="sm" onClick={() => acceptMutation.mutate(proposals)} disabled={isBusy}>
+                <Check className="h-4 w-4 mr-2" />
+                Accept All ({proposals.length})
+              </Button>
+            )}
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : detection && detection.internalAccountCount < 2 ? (
+          <p className="text-sm text-muted-foreground">
+            Mark at least two accounts as internal in Settings to detect transfers.
+          </p>
+        ) : (
+          <>
+            {proposals.length === 0 && counterparts.length === 0 && unmatchedHalves.length === 0 && (
+              <p className="text-sm text-muted-foreground">No transfers waiting for review</p>
+            )}
+
+            {proposals.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium">Proposed Transfers</h4>
+                {proposals.map((proposal) => (
+                  <div key={proposal.key} className="border rounded-lg p-3 space-y-2">
+                    <div className="flex items-center justify-between gap-2">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{formatAmount(proposal.amount)}</span>
+                        <span className="text-sm">
+                          {proposal.from.accountName} → {proposal.to.accountName}
+                        </span>
+                        {proposal.alternativeCount > 0 && (
+                          <Badge variant="outline">{proposal.alternativeCount} other possible match(es)</Badge>
+                        )}
+                      </div>
+                      <div className="flex gap-2">
+                        <Button size="sm" onClick={() => acceptMutation.mutate([proposal])} disabled={isBusy}>
+                          <Check className="h-4 w-4 mr-1" />
+                          Accept
+                        </Button>
+                        <Button size="sm" variant="ghost" onClick={() => dismissMutation.mutate(proposal)} disabled={isBusy}>
+                          <X className="h-4 w-4 mr-1" />
+                          Not a Transfer
+                        </Button>
+                      </div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                      <div>{proposal.from.date} · {proposal.from.description} · {formatAmount(proposal.from.amount)}</div>
+                      <div>{proposal.to.date} · {proposal.to.description} · {formatAmount(proposal.to.amount)}</div>
+                    </div>
+                    <p className="text-xs text-muted-foreground">{proposal.reasons.join(" · ")}</p>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {counterparts.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium">Second Halves of Posted Transfers</h4>
+                {counterparts.map(({ pairId, transfer, transaction }) => (
+                  <div key={pairId} className="border rounded-lg p-3 flex items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium">{formatAmount(transaction.amount)}</span>{" "}
+                      {transaction.date} · {transaction.description} · {transaction.accountName}
+                      <p className="text-xs text-muted-foreground">
+                        Completes the transfer posted on {transfer.transferDate} from{" "}
+                        {accountsById.get(transfer.fromAccountId)?.name || "another account"}
+                      </p>
+                    </div>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => linkMutation.mutate({ pairId, transactionId: transaction.transactionId })}
+                      disabled={isBusy}
+                    >
+                      <LinkIcon className="h-4 w-4 mr-1" />
+                      Link
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {unmatchedHalves.length > 0 && (
+              <div className="space-y-3">
+                <h4 className="font-medium">Transfers Without a Matching Half</h4>
+                <p className="text-xs text-muted-foreground">
+                  Post these against the other account now; when its feed imports the other half it will be offered for linking.
+                </p>
+                {unmatchedHalves.map((transaction) => (
+                  <div key={transaction.transactionId} className="border rounded-lg p-3 flex items-center justify-between gap-2">
+                    <div className="text-sm">
+                      <span className="font-medium">{formatAmount(transaction.amount)}</span>{" "}
+                      {transaction.date} · {transaction.description} · {transaction.accountName}
+                    </div>
+                    <div className="flex gap-2 items-center">
+                      <Select
+                        value={counterpartAccounts[transaction.transactionId] || ""}
+                        onValueChange={(value) =>
+                          setCounterpartAccounts(current => ({ ...current, [transaction.transactionId]: value }))
+                        }
+                      >
+                        <SelectTrigger className="w-48 h-9">
+                          <SelectValue placeholder={transaction.amount < 0 ? "Transfer to..." : "Transfer from..."} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(internalData?.accounts || [])
+                            .filter(account => account.id !== transaction.accountId)
+                            .map(account => (
+                              <SelectItem key={account.id} value={String(account.id)}>{account.name}</SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      <Button
+                        size="sm"
+                        onClick={() =>
+                          oneSidedMutation.mutate({
+                            transactionId: transaction.transactionId,
+                            counterpartAccountId: parseInt(counterpartAccounts[transaction.transactionId]),
+                          })
+                        }
+                        disabled={!counterpartAccounts[transaction.transactionId] || isBusy}
+                      >
+                        Post Transfer
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+          </>
+        )}
+
+        {transfers.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="font-medium">Recent Transfers</h4>
+            {transfers.slice(0, 10).map((transfer) => (
+              <div key={transfer.id} className="flex items-center justify-between text-sm border-b py-1">
+                <div>
+                  {transfer.transferDate} · {formatAmount(parseFloat(transfer.amount))} ·{" "}
+                  {accountsById.get(transfer.fromAccountId)?.name || `Account ${transfer.fromAccountId}`} →{" "}
+                  {accountsById.get(transfer.toAccountId)?.name || `Account ${transfer.toAccountId}`}
+                  {(!transfer.fromTransactionId || !transfer.toTransactionId) && (
+                    <Badge variant="outline" className="ml-2">Awaiting other half</Badge>
+                  )}
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => undoMutation.mutate(transfer.id)} disabled={isBusy}>
+                  <Undo2 className="h-4 w-4 mr-1" />
+                  Undo
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Transfer Detection Settings</DialogTitle>
+            <DialogDescription>
+              The date window and credit card default apply to every client of the firm. Internal accounts apply to this client.
+            </DialogDescription>
+          </DialogHeader>
+          {settingsDraft && (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 gap-4 items-end">
+                <div className="space-y-1">
+                  <Label htmlFor="transfer-window">Date window (days)</Label>
+                  <Input
+                    id="transfer-window"
+                    type="number"
+                    min={0}
+                    max={30}
+                    value={settingsDraft.dateWindowDays}
+                    onChange={(e) => setSettingsDraft({ ...settingsDraft, dateWindowDays: parseInt(e.target.value) || 0 })}
+                  />
+                </div>
+                <div className="flex items-center gap-2">
+                  <Switch
+                    checked={settingsDraft.includeCreditCards}
+                    onCheckedChange={(checked) => setSettingsDraft({ ...settingsDraft, includeCreditCards: checked })}
+                  />
+                  <Label>Credit cards are internal by default</Label>
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Internal accounts for this client</Label>
+                <div className="max-h-64 overflow-y-auto border rounded p-2 space-y-1">
+                  {(internalData?.accounts || []).map(account => (
+                    <label key={account.id} className="flex items-center gap-2 text-sm">
+                      <Checkbox
+                        checked={internalDraft.includes(account.id)}
+                        onCheckedChange={(checked) =>
+                          setInternalDraft(current =>
+                            checked ? [...current, account.id] : current.filter(id => id !== account.id)
+                          )
+                        }
+                      />
+                      {account.accountNumber ? `${account.accountNumber} · ` : ""}{account.name}
+                      {account.subtype && <span className="text-xs text-muted-foreground">({account.subtype})</span>}
+                    </label>
+                  ))}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  {internalData?.isExplicit
+                    ? "This client uses its own list. Clear every box to return to the firm defaults."
+                    : `Using the firm defaults (${internalAccounts.length} account(s)). Changing the selection saves a list for this client.`}
+                </p>
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSettingsOpen(false)}>Cancel</Button>
+            <Button onClick={() => saveSettingsMutation.mutate()} disabled={saveSettingsMutation.isPending}>
+              {saveSettingsMutation.isPending ? "Saving..." : "Save"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,257 @@
+/**
+ * Import History Component
+ *
+ * Every general ledger, journal entry and bank transaction import for a
+ * client, with its file, mapping, row counts and errors, and rollback of a
+ * whole import
+ */
+
+import { Fragment, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { ChevronDown, ChevronRight, History, RotateCcw } from 'lucide-react';
+
+interface ImportRowError {
+  rowNumber: number | null;
+  message: string;
+  errorType: string;
+}
+
+interface ImportBatch {
+  id: number;
+  source: 'general_ledger' | 'journal_entries' | 'transactions';
+  sourceName: string | null;
+  fileName: string | null;
+  fileHash: string;
+  mapping: unknown;
+  rowCount: number;
+  importedCount: number;
+  skippedCount: number;
+  failedCount: number;
+  duplicateCount: number;
+  errors: ImportRowError[];
+  status: 'importing' | 'completed' | 'failed' | 'rolled_back';
+  earliestDate: string | null;
+  latestDate: string | null;
+  createdBy: number | null;
+  createdAt: string;
+  rolledBackAt: string | null;
+  rollbackReason: string | null;
+}
+
+const SOURCE_LABELS: Record<ImportBatch['source'], string> = {
+  general_ledger: 'General ledger',
+  journal_entries: 'Journal entries',
+  transactions: 'Bank transactions',
+};
+
+const STATUS_BADGES: Record<ImportBatch['status'], { label: string; variant: 'default' | 'secondary' | 'destructive' | 'outline' }> = {
+  importing: { label: 'Importing', variant: 'secondary' },
+  completed: { label: 'Completed', variant: 'default' },
+  failed: { label: 'Stopped', variant: 'destructive' },
+  rolled_back: { label: 'Rolled back', variant: 'outline' },
+};
+
+interface ImportHistoryProps {
+  clientId: number | string;
+  onRolledBack?: () => void;
+}
+
+export function ImportHistory({ clientId, onRolledBack }: ImportHistoryProps) {
+  const { toast } = useToast();
+  const [expandedId, setExpandedId] = useState<number | null>(null);
+  const [rollbackBatch, setRollbackBatch] = useState<ImportBatch | null>(null);
+  const [reason, setReason] = useState('');
+
+  const historyKey = [`/api/import-batches/${clientId}`];
+  const { data, isLoading } = useQuery<{ batches: ImportBatch[] }>({
+    queryKey: historyKey,
+    enabled: !!clientId,
+  });
+
+  const rollbackMutation = useMutation({
+    mutationFn: ({ batchId, reason }: { batchId: number; reason: string }) =>
+      apiRequest('POST', `/api/import-batches/${clientId}/${batchId}/rollback`, { reason }).then(res => res.json()),
+    onSuccess: (result: { deletedJournalEntries: number; deletedTransactions: number }) => {
+      toast({
+        title: 'Import rolled back',
+        description: `Removed ${result.deletedJournalEntries} journal entries and ${result.deletedTransactions} transactions`,
+      });
+      setRollbackBatch(null);
+      setReason('');
+      queryClient.invalidateQueries({ queryKey: historyKey });
+      queryClient.invalidateQueries({ queryKey: ['/api/transactions', clientId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/transactions/${clientId}`] });
+      queryClient.invalidateQueries({ queryKey: ['/api/journal-entries', clientId] });
+      queryClient.invalidateQueries({ queryKey: [`/api/journal-entries/${clientId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/bank-transactions/${clientId}`] });
+      onRolledBack?.();
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Rollback failed', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const batches = data?.batches || [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <History className="h-5 w-5" />
+          Import History
+        </CardTitle>
+        <CardDescription>
+          Each import can be rolled back as a whole by a manager, unless any of it falls in a locked period
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Skeleton className="h-24 w-full" />
+        ) : batches.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No imports yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-8" />
+                <TableHead>Imported</TableHead>
+                <TableHead>Source</TableHead>
+                <TableHead>File</TableHead>
+                <TableHead className="text-right">Rows</TableHead>
+                <TableHead className="text-right">Created</TableHead>
+                <TableHead className="text-right">Skipped / Failed</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {batches.map((batch) => {
+                const isExpanded = expandedId === batch.id;
+                const status = STATUS_BADGES[batch.status] || STATUS_BADGES.completed;
+                return (
+                  <Fragment key={batch.id}>
+                    <TableRow>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 w-6 p-0"
+                          onClick={() => setExpandedId(isExpanded ? null : batch.id)}
+                        >
+                          {isExpanded ? <ChevronDown className="h-4 w-4" /> : <ChevronRight className="h-4 w-4" />}
+                        </Button>
+                      </TableCell>
+                      <TableCell className="text-sm">{new Date(batch.createdAt).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{SOURCE_LABELS[batch.source] || batch.source}</TableCell>
+                      <TableCell className="text-sm max-w-48 truncate">{batch.fileName || '—'}</TableCell>
+                      <TableCell className="text-right text-sm">{batch.rowCount}</TableCell>
+                      <TableCell className="text-right text-sm">{batch.importedCount}</TableCell>
+                      <TableCell className="text-right text-sm">
+                        {batch.skippedCount} / {batch.failedCount}
+                      </TableCell>
+                      <TableCell>
+                        <Badge variant={status.variant}>{status.label}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(batch.status === 'completed' || batch.status === 'failed') && batch.importedCount > 0 && (
+                          <Button size="sm" variant="outline" onClick={() => setRollbackBatch(batch)}>
+                            <RotateCcw className="h-4 w-4 mr-1" />
+                            Roll Back
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                    {isExpanded && (
+                      <TableRow>
+                        <TableCell colSpan={9} className="bg-muted/40">
+                          <div className="space-y-2 text-sm">
+                            <div className="grid grid-cols-2 gap-2 text-muted-foreground">
+                              <div>
+                                Dates: {batch.earliestDate ? `${batch.earliestDate} to ${batch.latestDate}` : '—'}
+                              </div>
+                              <div>Duplicates: {batch.duplicateCount}</div>
+                              <div className="truncate">File hash: {batch.fileHash}</div>
+                              {batch.sourceName && <div>Source: {batch.sourceName}</div>}
+                            </div>
+                            {batch.status === 'rolled_back' && (
+                              <p>
+                                Rolled back {batch.rolledBackAt ? new Date(batch.rolledBackAt).toLocaleString() : ''}: {batch.rollbackReason}
+                              </p>
+                            )}
+                            {batch.mapping != null && (
+                              <details>
+                                <summary className="cursor-pointer">Mapping used</summary>
+                                <pre className="text-xs whitespace-pre-wrap max-h-48 overflow-y-auto">
+                                  {JSON.stringify(batch.mapping, null, 2)}
+                                </pre>
+                              </details>
+                            )}
+                            {batch.errors.length > 0 && (
+                              <div className="space-y-1">
+                                <p className="font-medium">Errors ({batch.errors.length})</p>
+                                {batch.errors.slice(0, 50).map((error, index) => (
+                                  <div key={index} className="text-xs flex gap-2">
+                                    {error.rowNumber !== null && <span>Row {error.rowNumber}</span>}
+                                    <Badge variant="outline" className="text-xs">{error.errorType}</Badge>
+                                    <span>{error.message}</span>
+                                  </div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </Fragment>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={!!rollbackBatch} onOpenChange={(open) => !open && setRollbackBatch(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Roll Back Import</DialogTitle>
+            <DialogDescription>
+              Deletes the {rollbackBatch?.importedCount} records this import created
+              {rollbackBatch?.fileName ? ` from ${rollbackBatch.fileName}` : ''}, and any entries posted from its
+              transactions since. Nothing is deleted if any of it is in a locked period.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="import-rollback-reason">Reason</Label>
+            <Textarea
+              id="import-rollback-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Debit and credit columns were mapped the wrong way round"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRollbackBatch(null)}>Cancel</Button>
+            <Button
+              variant="destructive"
+              onClick={() => rollbackBatch && rollbackMutation.mutate({ batchId: rollbackBatch.id, reason: reason.trim() })}
+              disabled={!reason.trim() || rollbackMutation.isPending}
+            >
+              {rollbackMutation.isPending ? 'Rolling back...' : 'Roll Back'}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
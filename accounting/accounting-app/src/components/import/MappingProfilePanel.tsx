@@ -0,0 +1,292 @@
+/**
+ * Mapping Profile Panel
+ *
+ * Shown above a file import's column mapper: which saved profile was
+ * recognised from the header row and how confidently, the file's date format,
+ * decimal separator and header row, and saving the current mapping as a
+ * profile for the next file from the same bank or system
+ */
+
+import { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import { DATE_FORMAT_OPTIONS, type DecimalSeparator, type ImportDateFormat } from '@/lib/import-format';
+
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Bookmark, CheckCircle, HelpCircle, Save } from 'lucide-react';
+
+export type MappingProfileSource = 'transactions' | 'general_ledger';
+
+export interface MappingProfile {
+  id: number;
+  name: string;
+  source: MappingProfileSource;
+  clientId: number | null;
+  institution: string | null;
+  headers: string[];
+  headerRowOffset: number;
+  columnMapping: Record<string, string>;
+  amountMode: 'signed' | 'debit_credit';
+  signConvention: 'positive-out' | 'positive-in';
+  dateFormat: ImportDateFormat;
+  decimalSeparator: DecimalSeparator;
+  shared: boolean;
+}
+
+export interface ProfileDetection {
+  profile: MappingProfile;
+  confidence: number;
+  autoApplied: boolean;
+  headerRowOffset: number;
+  headers: string[];
+  columns: Record<string, number | null>;
+}
+
+export interface MappingProfileSettings {
+  dateFormat: ImportDateFormat;
+  decimalSeparator: DecimalSeparator;
+  // Rows above the header row in the file as uploaded
+  headerRowOffset: number;
+}
+
+export const DEFAULT_PROFILE_SETTINGS: MappingProfileSettings = {
+  dateFormat: 'auto',
+  decimalSeparator: '.',
+  headerRowOffset: 0,
+};
+
+interface MappingProfilePanelProps {
+  clientId: number | string;
+  source: MappingProfileSource;
+  headers: string[];
+  detection: ProfileDetection | null;
+  settings: MappingProfileSettings;
+  onSettingsChange: (settings: MappingProfileSettings) => void;
+  onApplyProfile: (profile: MappingProfile) => void;
+  // Target field -> header of the column currently mapped to it
+  columnMapping: Record<string, string>;
+  amountMode?: MappingProfile['amountMode'];
+  signConvention?: MappingProfile['signConvention'];
+  defaultInstitution?: string;
+  // Header row can only be moved when the mapper has the file's leading rows
+  maxHeaderRowOffset?: number;
+}
+
+const formatConfidence = (confidence: number) => `${Math.round(confidence * 100)}% match`;
+
+export function MappingProfilePanel({
+  clientId,
+  source,
+  headers,
+  detection,
+  settings,
+  onSettingsChange,
+  onApplyProfile,
+  columnMapping,
+  amountMode,
+  signConvention,
+  defaultInstitution,
+  maxHeaderRowOffset,
+}: MappingProfilePanelProps) {
+  const { toast } = useToast();
+  const [showSave, setShowSave] = useState(false);
+  const [name, setName] = useState('');
+  const [institution, setInstitution] = useState(defaultInstitution || '');
+  const [shareWithClients, setShareWithClients] = useState(true);
+
+  const profilesKey = [`/api/mapping-profiles?source=${source}&clientId=${clientId}`];
+  const { data } = useQuery<{ profiles: MappingProfile[] }>({
+    queryKey: profilesKey,
+    enabled: !!clientId,
+  });
+  const profiles = data?.profiles || [];
+
+  const saveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', '/api/mapping-profiles', {
+        name: name.trim(),
+        source,
+        clientId: shareWithClients ? null : Number(clientId),
+        institution: institution.trim() || null,
+        headers,
+        headerRowOffset: settings.headerRowOffset,
+        columnMapping,
+        amountMode,
+        signConvention,
+        dateFormat: settings.dateFormat,
+        decimalSeparator: settings.decimalSeparator,
+      }).then(res => res.json()),
+    onSuccess: (profile: MappingProfile) => {
+      toast({
+        title: 'Mapping profile saved',
+        description: `Files with this header row will be mapped with "${profile.name}"`,
+      });
+      setShowSave(false);
+      setName('');
+      queryClient.invalidateQueries({ queryKey: profilesKey });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Failed to save mapping profile', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const applyProfile = (profile: MappingProfile) => {
+    onSettingsChange({ ...settings, dateFormat: profile.dateFormat, decimalSeparator: profile.decimalSeparator });
+    onApplyProfile(profile);
+  };
+
+  return (
+    <div className="p-3 rounded-lg border space-y-3">
+      {detection?.autoApplied ? (
+        <div className="flex items-center gap-2 text-sm text-green-800">
+          <CheckCircle className="h-4 w-4" />
+          Mapped with saved profile <strong>{detection.profile.name}</strong>
+          <Badge variant="secondary">{formatConfidence(detection.confidence)}</Badge>
+        </div>
+      ) : detection ? (
+        <div className="flex items-center justify-between gap-2 text-sm text-orange-800">
+          <div className="flex items-center gap-2">
+            <HelpCircle className="h-4 w-4" />
+            Closest saved profile is <strong>{detection.profile.name}</strong>
+            <Badge variant="outline">{formatConfidence(detection.confidence)}</Badge>
+            - check the mapping below
+          </div>
+          <Button size="sm" variant="outline" onClick={() => applyProfile(detection.profile)}>
+            Apply Anyway
+          </Button>
+        </div>
+      ) : (
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          <Bookmark className="h-4 w-4" />
+          No saved profile matches this file. Map the columns below and save them as a profile for next time.
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Saved profile</Label>
+          <Select
+            value=""
+            onValueChange={(value) => {
+              const profile = profiles.find(p => p.id.toString() === value);
+              if (profile) applyProfile(profile);
+            }}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue placeholder={profiles.length ? 'Apply a profile' : 'None saved'} />
+            </SelectTrigger>
+            <SelectContent>
+              {profiles.map(profile => (
+                <SelectItem key={profile.id} value={profile.id.toString()}>
+                  {profile.name}
+                  {profile.institution ? ` (${profile.institution})` : ''}
+                  {profile.shared ? '' : ' - this client only'}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Date format</Label>
+          <Select
+            value={settings.dateFormat}
+            onValueChange={(value) => onSettingsChange({ ...settings, dateFormat: value as ImportDateFormat })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {DATE_FORMAT_OPTIONS.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Decimal separator</Label>
+          <Select
+            value={settings.decimalSeparator}
+            onValueChange={(value) => onSettingsChange({ ...settings, decimalSeparator: value as DecimalSeparator })}
+          >
+            <SelectTrigger className="h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value=".">Point (1,234.56)</SelectItem>
+              <SelectItem value=",">Comma (1.234,56)</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {maxHeaderRowOffset !== undefined && (
+          <div className="space-y-1">
+            <Label className="text-xs">Rows above header</Label>
+            <Input
+              type="number"
+              className="h-8"
+              min={0}
+              max={maxHeaderRowOffset}
+              value={settings.headerRowOffset}
+              onChange={(e) =>
+                onSettingsChange({
+                  ...settings,
+                  headerRowOffset: Math.min(Math.max(parseInt(e.target.value) || 0, 0), maxHeaderRowOffset),
+                })
+              }
+            />
+          </div>
+        )}
+      </div>
+
+      {showSave ? (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3 items-end">
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="mapping-profile-name">Profile name</Label>
+            <Input
+              id="mapping-profile-name"
+              className="h-8"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. RBC business chequing CSV"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs" htmlFor="mapping-profile-institution">Bank or system</Label>
+            <Input
+              id="mapping-profile-institution"
+              className="h-8"
+              value={institution}
+              onChange={(e) => setInstitution(e.target.value)}
+            />
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <label className="flex items-center gap-2 text-xs">
+              <Checkbox checked={shareWithClients} onCheckedChange={(checked) => setShareWithClients(checked === true)} />
+              Share with all clients
+            </label>
+            <div className="flex gap-2">
+              <Button size="sm" variant="ghost" onClick={() => setShowSave(false)}>Cancel</Button>
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={!name.trim() || Object.keys(columnMapping).length === 0 || saveMutation.isPending}
+              >
+                {saveMutation.isPending ? 'Saving...' : 'Save'}
+              </Button>
+            </div>
+          </div>
+        </div>
+      ) : (
+        <Button size="sm" variant="outline" onClick={() => setShowSave(true)} disabled={headers.length === 0}>
+          <Save className="h-4 w-4 mr-1" />
+          Save Mapping as Profile
+        </Button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,1075 @@
+/**
+ * CUSTOMER PAYMENTS
+ *
+ * Receivables settlement for a client's customers: receive one payment and
+ * allocate it across many open invoices, issue credit notes, apply or refund
+ * unapplied credit (overpayments and credit notes), and the payment and
+ * credit note history where applications can be taken back off an invoice
+ * and documents voided. Customer statements and AR aging are built from the
+ * same allocations.
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { AccountDropdown } from '@/components/ui/AccountDropdown';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiConfig } from '@/lib/api-config';
+import { getCurrentDateString } from '@/lib/date-utils';
+import { ArrowLeft, Ban, FileMinus, HandCoins, ListChecks, Save, Undo2, X } from 'lucide-react';
+
+type PaymentMethod = 'cash' | 'cheque' | 'e_transfer' | 'eft' | 'credit_card' | 'other';
+type CreditSource = 'payment' | 'credit_note';
+
+const PAYMENT_METHODS: { value: PaymentMethod; label: string }[] = [
+  { value: 'e_transfer', label: 'E-transfer' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'eft', label: 'EFT' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'credit_card', label: 'Credit card' },
+  { value: 'other', label: 'Other' },
+];
+
+interface OpenInvoice {
+  id: number;
+  invoiceNumber: string;
+  customerId: number;
+  issueDate: string | null;
+  dueDate: string | null;
+  amountDue: number;
+  amountPaid: number;
+  balance: number;
+}
+
+interface Application {
+  id: number;
+  invoiceId: number;
+  invoiceNumber: string;
+  amount: number;
+  appliedDate: string;
+}
+
+interface Payment {
+  id: number;
+  customerId: number;
+  customerName: string;
+  paymentDate: string;
+  amount: string;
+  method: PaymentMethod;
+  reference: string | null;
+  applications: Application[];
+  unapplied: number;
+}
+
+interface CreditNote {
+  id: number;
+  customerId: number;
+  customerName: string;
+  creditNoteNumber: string;
+  issueDate: string;
+  invoiceNumber: string | null;
+  reason: string | null;
+  total: string;
+  applications: Application[];
+  unapplied: number;
+}
+
+interface AvailableCredit {
+  source: CreditSource;
+  sourceId: number;
+  customerId: number;
+  customerName: string;
+  date: string;
+  reference: string;
+  total: number;
+  applied: number;
+  refunded: number;
+  remaining: number;
+}
+
+interface Customer {
+  id: number;
+  name: string;
+  companyName?: string;
+}
+
+interface CustomerPaymentsProps {
+  clientId: number;
+}
+
+interface PaymentForm {
+  customerId: string;
+  paymentDate: string;
+  amount: string;
+  method: PaymentMethod;
+  reference: string;
+  depositAccountId: string;
+  memo: string;
+}
+
+interface CreditNoteForm {
+  customerId: string;
+  issueDate: string;
+  invoiceId: string;
+  reason: string;
+  description: string;
+  amount: string;
+  accountId: string;
+  taxAmount: string;
+  taxAccountId: string;
+  applyToInvoice: boolean;
+}
+
+interface RefundForm {
+  amount: string;
+  refundDate: string;
+  bankAccountId: string;
+  method: PaymentMethod;
+  reference: string;
+}
+
+type Allocations = Record<number, string>;
+
+const formatCurrency = (amount: number): string =>
+  amount.toLocaleString('en-US', { style: 'currency', currency: 'USD' });
+
+const roundAmount = (value: number): number => Math.round(value * 100) / 100;
+
+const allocationTotal = (allocations: Allocations): number =>
+  roundAmount(Object.values(allocations).reduce((sum, value) => sum + (parseFloat(value) || 0), 0));
+
+const allocationList = (allocations: Allocations) =>
+  Object.entries(allocations)
+    .map(([invoiceId, value]) => ({ invoiceId: parseInt(invoiceId), amount: roundAmount(parseFloat(value) || 0) }))
+    .filter(allocation => allocation.amount > 0);
+
+// Fill the oldest invoices first with the amount available
+const allocateOldestFirst = (invoices: OpenInvoice[], available: number): Allocations => {
+  const allocations: Allocations = {};
+  let remaining = roundAmount(available);
+  for (const invoice of invoices) {
+    if (remaining <= 0) break;
+    const amount = Math.min(invoice.balance, remaining);
+    allocations[invoice.id] = amount.toFixed(2);
+    remaining = roundAmount(remaining - amount);
+  }
+  return allocations;
+};
+
+const emptyPaymentForm = (): PaymentForm => ({
+  customerId: '',
+  paymentDate: getCurrentDateString(),
+  amount: '',
+  method: 'e_transfer',
+  reference: '',
+  depositAccountId: '',
+  memo: '',
+});
+
+const emptyCreditNoteForm = (): CreditNoteForm => ({
+  customerId: '',
+  issueDate: getCurrentDateString(),
+  invoiceId: 'none',
+  reason: '',
+  description: '',
+  amount: '',
+  accountId: '',
+  taxAmount: '',
+  taxAccountId: '',
+  applyToInvoice: true,
+});
+
+function AllocationTable({
+  invoices,
+  allocations,
+  available,
+  onChange,
+}: {
+  invoices: OpenInvoice[];
+  allocations: Allocations;
+  available: number;
+  onChange: (allocations: Allocations) => void;
+}) {
+  if (invoices.length === 0) {
+    return <div className="text-sm text-gray-500 text-center py-4">No open invoices for this customer.</div>;
+  }
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-end space-x-2">
+        <Button size="sm" variant="outline" onClick={() => onChange(allocateOldestFirst(invoices, available))} disabled={available <= 0}>
+          <ListChecks className="h-4 w-4 mr-1" />
+          Apply Oldest First
+        </Button>
+        <Button size="sm" variant="ghost" onClick={() => onChange({})}>
+          Clear
+        </Button>
+      </div>
+      <Table>
+        <TableHeader>
+          <TableRow>
+            <TableHead>Invoice</TableHead>
+            <TableHead>Due</TableHead>
+            <TableHead className="text-right">Amount</TableHead>
+            <TableHead className="text-right">Open Balance</TableHead>
+            <TableHead className="text-right w-40">Apply</TableHead>
+          </TableRow>
+        </TableHeader>
+        <TableBody>
+          {invoices.map(invoice => (
+            <TableRow key={invoice.id}>
+              <TableCell className="font-medium">{invoice.invoiceNumber}</TableCell>
+              <TableCell className="text-sm">{invoice.dueDate || '—'}</TableCell>
+              <TableCell className="text-right font-mono">{formatCurrency(invoice.amountDue)}</TableCell>
+              <TableCell className="text-right font-mono">{formatCurrency(invoice.balance)}</TableCell>
+              <TableCell className="text-right">
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  max={invoice.balance}
+                  className="text-right"
+                  value={allocations[invoice.id] || ''}
+                  onChange={(e) => onChange({ ...allocations, [invoice.id]: e.target.value })}
+                />
+              </TableCell>
+            </TableRow>
+          ))}
+        </TableBody>
+      </Table>
+    </div>
+  );
+}
+
+export default function CustomerPayments({ clientId }: CustomerPaymentsProps) {
+  const { toast } = useToast();
+  const [mode, setMode] = useState<'list' | 'receive' | 'credit-note'>('list');
+  const [customerFilter, setCustomerFilter] = useState('all');
+  const [paymentForm, setPaymentForm] = useState<PaymentForm>(emptyPaymentForm());
+  const [paymentAllocations, setPaymentAllocations] = useState<Allocations>({});
+  const [creditNoteForm, setCreditNoteForm] = useState<CreditNoteForm>(emptyCreditNoteForm());
+  const [applyTarget, setApplyTarget] = useState<AvailableCredit | null>(null);
+  const [applyAllocations, setApplyAllocations] = useState<Allocations>({});
+  const [refundTarget, setRefundTarget] = useState<AvailableCredit | null>(null);
+  const [refundForm, setRefundForm] = useState<RefundForm | null>(null);
+
+  const filterQuery = customerFilter !== 'all' ? `?customerId=${customerFilter}` : '';
+
+  // Same customer list as the Sales tab
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers', clientId],
+    queryFn: async () => {
+      const token = localStorage.getItem('authToken');
+      const headers: Record<string, string> = {};
+      if (token) {
+        headers["Authorization"] = `Bearer ${token}`;
+      }
+      const response = await fetch(apiConfig.buildUrl(`/api/crm/contacts/${clientId}`), {
+        credentials: 'include',
+        headers,
+      });
+      if (!response.ok) throw new Error('Failed to fetch customers');
+      const result = await response.json();
+      return result.data.filter((contact: any) =>
+        contact.contactType === 'customer' || contact.contactType === 'both'
+      ) as Customer[];
+    },
+    enabled: !!clientId,
+  });
+
+  // Open invoices for whichever customer is being paid or credited
+  const invoiceCustomerId =
+    mode === 'receive' ? paymentForm.customerId
+    : mode === 'credit-note' ? creditNoteForm.customerId
+    : applyTarget ? applyTarget.customerId.toString()
+    : '';
+  const { data: openInvoices = [] } = useQuery<OpenInvoice[]>({
+    queryKey: ['customer-open-invoices', clientId, invoiceCustomerId],
+    queryFn: () =>
+      apiRequest('GET', `/api/customer-payments/${clientId}/open-invoices?customerId=${invoiceCustomerId}`).then(res => res.json()),
+    enabled: !!clientId && !!invoiceCustomerId,
+  });
+
+  const { data: credits = [] } = useQuery<AvailableCredit[]>({
+    queryKey: ['customer-credits', clientId, customerFilter],
+    queryFn: () => apiRequest('GET', `/api/customer-payments/${clientId}/credits${filterQuery}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: payments = [] } = useQuery<Payment[]>({
+    queryKey: ['customer-payments', clientId, customerFilter],
+    queryFn: () => apiRequest('GET', `/api/customer-payments/${clientId}/payments${filterQuery}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: creditNotes = [] } = useQuery<CreditNote[]>({
+    queryKey: ['credit-notes', clientId, customerFilter],
+    queryFn: () => apiRequest('GET', `/api/customer-payments/${clientId}/credit-notes${filterQuery}`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: ['customer-open-invoices', clientId] });
+    queryClient.invalidateQueries({ queryKey: ['customer-credits', clientId] });
+    queryClient.invalidateQueries({ queryKey: ['customer-payments', clientId] });
+    queryClient.invalidateQueries({ queryKey: ['credit-notes', clientId] });
+    queryClient.invalidateQueries({ queryKey: ['invoices', clientId] });
+    queryClient.invalidateQueries({ queryKey: ['all-invoices', clientId] });
+    queryClient.invalidateQueries({ queryKey: ['/api/crm/customers/aging-report'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/customer-payments/credits'] });
+    queryClient.invalidateQueries({ queryKey: ['customer-statement'] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const receiveMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', `/api/customer-payments/${clientId}/payments`, {
+        customerId: parseInt(paymentForm.customerId),
+        paymentDate: paymentForm.paymentDate,
+        amount: parseFloat(paymentForm.amount),
+        method: paymentForm.method,
+        reference: paymentForm.reference.trim() || null,
+        depositAccountId: parseInt(paymentForm.depositAccountId),
+        memo: paymentForm.memo.trim() || null,
+        allocations: allocationList(paymentAllocations),
+      }).then(res => res.json()),
+    onSuccess: (result: { unapplied: number }) => {
+      refresh();
+      setMode('list');
+      setPaymentForm(emptyPaymentForm());
+      setPaymentAllocations({});
+      toast({
+        title: 'Payment recorded',
+        description: result.unapplied > 0 ? `${formatCurrency(result.unapplied)} kept as unapplied credit.` : undefined,
+      });
+    },
+    onError: onError('Could not record payment'),
+  });
+
+  const creditNoteMutation = useMutation({
+    mutationFn: () => {
+      const taxAmount = parseFloat(creditNoteForm.taxAmount) || 0;
+      return apiRequest('POST', `/api/customer-payments/${clientId}/credit-notes`, {
+        customerId: parseInt(creditNoteForm.customerId),
+        issueDate: creditNoteForm.issueDate,
+        invoiceId: creditNoteForm.invoiceId !== 'none' ? parseInt(creditNoteForm.invoiceId) : null,
+        reason: creditNoteForm.reason.trim() || null,
+        lines: [{
+          description: creditNoteForm.description.trim(),
+          amount: parseFloat(creditNoteForm.amount),
+          accountId: parseInt(creditNoteForm.accountId),
+        }],
+        taxAmount,
+        taxAccountId: taxAmount > 0 ? parseInt(creditNoteForm.taxAccountId) : null,
+        applyToInvoice: creditNoteForm.invoiceId !== 'none' && creditNoteForm.applyToInvoice,
+      }).then(res => res.json());
+    },
+    onSuccess: (note: { creditNoteNumber: string }) => {
+      refresh();
+      setMode('list');
+      setCreditNoteForm(emptyCreditNoteForm());
+      toast({ title: `Credit note ${note.creditNoteNumber} issued` });
+    },
+    onError: onError('Could not issue credit note'),
+  });
+
+  const applyMutation = useMutation({
+    mutationFn: (target: AvailableCredit) =>
+      apiRequest('POST', `/api/customer-payments/${clientId}/credits/apply`, {
+        source: target.source,
+        sourceId: target.sourceId,
+        allocations: allocationList(applyAllocations),
+      }).then(res => res.json()),
+    onSuccess: () => {
+      refresh();
+      setApplyTarget(null);
+      setApplyAllocations({});
+      toast({ title: 'Credit applied' });
+    },
+    onError: onError('Could not apply credit'),
+  });
+
+  const refundMutation = useMutation({
+    mutationFn: ({ target, form }: { target: AvailableCredit; form: RefundForm }) =>
+      apiRequest('POST', `/api/customer-payments/${clientId}/credits/refund`, {
+        source: target.source,
+        sourceId: target.sourceId,
+        amount: parseFloat(form.amount),
+        refundDate: form.refundDate,
+        bankAccountId: parseInt(form.bankAccountId),
+        method: form.method,
+        reference: form.reference.trim() || null,
+      }).then(res => res.json()),
+    onSuccess: () => {
+      refresh();
+      setRefundTarget(null);
+      setRefundForm(null);
+      toast({ title: 'Refund recorded' });
+    },
+    onError: onError('Could not record refund'),
+  });
+
+  const unapplyMutation = useMutation({
+    mutationFn: (applicationId: number) =>
+      apiRequest('DELETE', `/api/customer-payments/${clientId}/applications/${applicationId}`).then(res => res.json()),
+    onSuccess: refresh,
+    onError: onError('Could not remove application'),
+  });
+
+  const voidMutation = useMutation({
+    mutationFn: ({ source, id }: { source: CreditSource; id: number }) =>
+      apiRequest(
+        'POST',
+        `/api/customer-payments/${clientId}/${source === 'payment' ? 'payments' : 'credit-notes'}/${id}/void`
+      ).then(res => res.json()),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Voided' });
+    },
+    onError: onError('Could not void'),
+  });
+
+  const customerOptions = customers.map(customer => (
+    <SelectItem key={customer.id} value={customer.id.toString()}>
+      {customer.companyName || customer.name}
+    </SelectItem>
+  ));
+
+  const renderApplications = (applications: Application[]) =>
+    applications.length === 0 ? (
+      <span className="text-gray-500">—</span>
+    ) : (
+      applications.map(application => (
+        <div key={application.id} className="flex items-center">
+          {application.invoiceNumber} {formatCurrency(application.amount)}
+          <Button
+            size="sm"
+            variant="ghost"
+            className="h-5 w-5 p-0 ml-1"
+            title="Take off this invoice"
+            disabled={unapplyMutation.isPending}
+            onClick={() => {
+              if (confirm(`Take ${formatCurrency(application.amount)} back off ${application.invoiceNumber}?`)) {
+                unapplyMutation.mutate(application.id);
+              }
+            }}
+          >
+            <X className="h-3 w-3" />
+          </Button>
+        </div>
+      ))
+    );
+
+  if (mode === 'receive') {
+    const amount = roundAmount(parseFloat(paymentForm.amount) || 0);
+    const allocated = allocationTotal(paymentAllocations);
+    const overAllocated =
+      allocated > amount ||
+      openInvoices.some(invoice => (parseFloat(paymentAllocations[invoice.id]) || 0) > invoice.balance);
+    const canSave =
+      !!paymentForm.customerId && amount > 0 && !!paymentForm.depositAccountId && !!paymentForm.paymentDate && !overAllocated;
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>Receive Payment</CardTitle>
+          <CardDescription>
+            Allocate one payment across the customer's open invoices. Anything not allocated is kept as unapplied credit.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label>Customer</Label>
+              <Select
+                value={paymentForm.customerId}
+                onValueChange={(value) => {
+                  setPaymentForm({ ...paymentForm, customerId: value });
+                  setPaymentAllocations({});
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>{customerOptions}</SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Payment date</Label>
+              <Input
+                type="date"
+                value={paymentForm.paymentDate}
+                onChange={(e) => setPaymentForm({ ...paymentForm, paymentDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Amount received</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min={0}
+                value={paymentForm.amount}
+                onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Method</Label>
+              <Select
+                value={paymentForm.method}
+                onValueChange={(value) => setPaymentForm({ ...paymentForm, method: value as PaymentMethod })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PAYMENT_METHODS.map(method => (
+                    <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Reference</Label>
+              <Input
+                placeholder="Cheque or confirmation number"
+                value={paymentForm.reference}
+                onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Deposit to</Label>
+              <AccountDropdown
+                clientId={clientId}
+                value={paymentForm.depositAccountId}
+                onValueChange={(value) => setPaymentForm({ ...paymentForm, depositAccountId: value })}
+                placeholder="Select bank account"
+                compact={true}
+                showAccountNumbers={true}
+              />
+            </div>
+          </div>
+
+          {paymentForm.customerId && (
+            <AllocationTable
+              invoices={openInvoices}
+              allocations={paymentAllocations}
+              available={amount}
+              onChange={setPaymentAllocations}
+            />
+          )}
+
+          <div className="flex justify-end">
+            <div className="w-72 space-y-1 text-sm">
+              <div className="flex justify-between"><span>Amount received</span><span className="font-mono">{formatCurrency(amount)}</span></div>
+              <div className="flex justify-between"><span>Applied to invoices</span><span className="font-mono">{formatCurrency(allocated)}</span></div>
+              <div className={`flex justify-between font-medium ${overAllocated ? 'text-red-600' : ''}`}>
+                <span>{overAllocated ? 'Over-allocated' : 'Unapplied credit'}</span>
+                <span className="font-mono">{formatCurrency(Math.abs(roundAmount(amount - allocated)))}</span>
+              </div>
+            </div>
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setMode('list')}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+            <Button onClick={() => receiveMutation.mutate()} disabled={!canSave || receiveMutation.isPending}>
+              <Save className="h-4 w-4 mr-1" />
+              {receiveMutation.isPending ? 'Saving...' : 'Record Payment'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  if (mode === 'credit-note') {
+    const amount = roundAmount(parseFloat(creditNoteForm.amount) || 0);
+    const taxAmount = roundAmount(parseFloat(creditNoteForm.taxAmount) || 0);
+    const canSave =
+      !!creditNoteForm.customerId &&
+      !!creditNoteForm.description.trim() &&
+      amount > 0 &&
+      !!creditNoteForm.accountId &&
+      (taxAmount === 0 || !!creditNoteForm.taxAccountId);
+
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle>New Credit Note</CardTitle>
+          <CardDescription>
+            Reduces the customer's receivable. Credit not applied to an invoice stays available to apply later or refund.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div>
+              <Label>Customer</Label>
+              <Select
+                value={creditNoteForm.customerId}
+                onValueChange={(value) => setCreditNoteForm({ ...creditNoteForm, customerId: value, invoiceId: 'none' })}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>{customerOptions}</SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Date</Label>
+              <Input
+                type="date"
+                value={creditNoteForm.issueDate}
+                onChange={(e) => setCreditNoteForm({ ...creditNoteForm, issueDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Credits invoice</Label>
+              <Select
+                value={creditNoteForm.invoiceId}
+                onValueChange={(value) => setCreditNoteForm({ ...creditNoteForm, invoiceId: value })}
+                disabled={!creditNoteForm.customerId}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No specific invoice</SelectItem>
+                  {openInvoices.map(invoice => (
+                    <SelectItem key={invoice.id} value={invoice.id.toString()}>
+                      {invoice.invoiceNumber} ({formatCurrency(invoice.balance)} open)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="col-span-2">
+              <Label>Description</Label>
+              <Input
+                placeholder="e.g. Returned goods, pricing adjustment"
+                value={creditNoteForm.description}
+                onChange={(e) => setCreditNoteForm({ ...creditNoteForm, description: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Amount (before tax)</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min={0}
+                value={creditNoteForm.amount}
+                onChange={(e) => setCreditNoteForm({ ...creditNoteForm, amount: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Income account to reduce</Label>
+              <AccountDropdown
+                clientId={clientId}
+                value={creditNoteForm.accountId}
+                onValueChange={(value) => setCreditNoteForm({ ...creditNoteForm, accountId: value })}
+                placeholder="Select account"
+                compact={true}
+                showAccountNumbers={true}
+              />
+            </div>
+            <div>
+              <Label>Sales tax</Label>
+              <Input
+                type="number"
+                step="0.01"
+                min={0}
+                value={creditNoteForm.taxAmount}
+                onChange={(e) => setCreditNoteForm({ ...creditNoteForm, taxAmount: e.target.value })}
+              />
+            </div>
+            {taxAmount > 0 && (
+              <div>
+                <Label>Sales tax account</Label>
+                <AccountDropdown
+                  clientId={clientId}
+                  value={creditNoteForm.taxAccountId}
+                  onValueChange={(value) => setCreditNoteForm({ ...creditNoteForm, taxAccountId: value })}
+                  placeholder="Select account"
+                  compact={true}
+                  showAccountNumbers={true}
+                />
+              </div>
+            )}
+            <div className="col-span-3">
+              <Label>Reason</Label>
+              <Input
+                value={creditNoteForm.reason}
+                onChange={(e) => setCreditNoteForm({ ...creditNoteForm, reason: e.target.value })}
+              />
+            </div>
+          </div>
+
+          {creditNoteForm.invoiceId !== 'none' && (
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="credit-note-apply"
+                checked={creditNoteForm.applyToInvoice}
+                onCheckedChange={(checked) => setCreditNoteForm({ ...creditNoteForm, applyToInvoice: checked })}
+              />
+              <Label htmlFor="credit-note-apply">Apply to the invoice now</Label>
+            </div>
+          )}
+
+          <div className="flex justify-between items-center">
+            <div className="text-sm font-medium">Total credit: {formatCurrency(roundAmount(amount + taxAmount))}</div>
+            <div className="space-x-2">
+              <Button variant="outline" onClick={() => setMode('list')}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <Button onClick={() => creditNoteMutation.mutate()} disabled={!canSave || creditNoteMutation.isPending}>
+                <Save className="h-4 w-4 mr-1" />
+                {creditNoteMutation.isPending ? 'Saving...' : 'Issue Credit Note'}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const applyAllocated = allocationTotal(applyAllocations);
+  const refundAmount = refundForm ? roundAmount(parseFloat(refundForm.amount) || 0) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-between items-center">
+        <Select value={customerFilter} onValueChange={setCustomerFilter}>
+          <SelectTrigger className="w-64">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All customers</SelectItem>
+            {customerOptions}
+          </SelectContent>
+        </Select>
+        <div className="space-x-2">
+          <Button variant="outline" onClick={() => setMode('credit-note')}>
+            <FileMinus className="h-4 w-4 mr-1" />
+            New Credit Note
+          </Button>
+          <Button
+            onClick={() => {
+              setPaymentForm({ ...emptyPaymentForm(), customerId: customerFilter !== 'all' ? customerFilter : '' });
+              setPaymentAllocations({});
+              setMode('receive');
+            }}
+          >
+            <HandCoins className="h-4 w-4 mr-1" />
+            Receive Payment
+          </Button>
+        </div>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Unapplied Credits</CardTitle>
+          <CardDescription>Overpayments and credit notes not yet applied to an invoice or refunded</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {credits.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">No unapplied credits.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Source</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead className="text-right">Original</TableHead>
+                  <TableHead className="text-right">Available</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {credits.map(credit => (
+                  <TableRow key={`${credit.source}-${credit.sourceId}`}>
+                    <TableCell className="font-medium">{credit.customerName}</TableCell>
+                    <TableCell className="text-sm">{credit.reference}</TableCell>
+                    <TableCell className="text-sm">{credit.date}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(credit.total)}</TableCell>
+                    <TableCell className="text-right font-mono font-medium">{formatCurrency(credit.remaining)}</TableCell>
+                    <TableCell className="text-right space-x-1 whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => {
+                          setApplyTarget(credit);
+                          setApplyAllocations({});
+                        }}
+                      >
+                        Apply
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => {
+                          setRefundTarget(credit);
+                          setRefundForm({
+                            amount: credit.remaining.toFixed(2),
+                            refundDate: getCurrentDateString(),
+                            bankAccountId: '',
+                            method: 'cheque',
+                            reference: '',
+                          });
+                        }}
+                      >
+                        <Undo2 className="h-4 w-4 mr-1" />
+                        Refund
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payments Received</CardTitle>
+          <CardDescription>Each payment with the invoices it paid</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {payments.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">No payments received yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Method</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Applied to</TableHead>
+                  <TableHead className="text-right">Unapplied</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {payments.map(payment => (
+                  <TableRow key={payment.id}>
+                    <TableCell className="text-sm">{payment.paymentDate}</TableCell>
+                    <TableCell className="font-medium">{payment.customerName}</TableCell>
+                    <TableCell className="text-sm">
+                      {PAYMENT_METHODS.find(method => method.value === payment.method)?.label}
+                      {payment.reference && <div className="text-xs text-gray-500">{payment.reference}</div>}
+                    </TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(parseFloat(payment.amount))}</TableCell>
+                    <TableCell className="text-sm">{renderApplications(payment.applications)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {payment.unapplied > 0 ? formatCurrency(payment.unapplied) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Void payment"
+                        disabled={voidMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`Void this ${formatCurrency(parseFloat(payment.amount))} payment? Its invoices will be reopened.`)) {
+                            voidMutation.mutate({ source: 'payment', id: payment.id });
+                          }
+                        }}
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Credit Notes</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {creditNotes.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">No credit notes issued yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Number</TableHead>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Applied to</TableHead>
+                  <TableHead className="text-right">Unapplied</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {creditNotes.map(note => (
+                  <TableRow key={note.id}>
+                    <TableCell className="font-medium">
+                      {note.creditNoteNumber}
+                      {note.invoiceNumber && <Badge variant="outline" className="ml-2 text-xs">{note.invoiceNumber}</Badge>}
+                      {note.reason && <div className="text-xs text-gray-500">{note.reason}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{note.issueDate}</TableCell>
+                    <TableCell className="text-sm">{note.customerName}</TableCell>
+                    <TableCell className="text-right font-mono">{formatCurrency(parseFloat(note.total))}</TableCell>
+                    <TableCell className="text-sm">{renderApplications(note.applications)}</TableCell>
+                    <TableCell className="text-right font-mono">
+                      {note.unapplied > 0 ? formatCurrency(note.unapplied) : '—'}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        title="Void credit note"
+                        disabled={voidMutation.isPending}
+                        onClick={() => {
+                          if (confirm(`Void credit note ${note.creditNoteNumber}?`)) {
+                            voidMutation.mutate({ source: 'credit_note', id: note.id });
+                          }
+                        }}
+                      >
+                        <Ban className="h-4 w-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!applyTarget} onOpenChange={(open) => !open && setApplyTarget(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>
+              Apply {applyTarget?.reference} ({applyTarget ? formatCurrency(applyTarget.remaining) : ''} available)
+            </DialogTitle>
+          </DialogHeader>
+          {applyTarget && (
+            <AllocationTable
+              invoices={openInvoices}
+              allocations={applyAllocations}
+              available={applyTarget.remaining}
+              onChange={setApplyAllocations}
+            />
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplyTarget(null)}>Cancel</Button>
+            <Button
+              onClick={() => applyTarget && applyMutation.mutate(applyTarget)}
+              disabled={
+                !applyTarget ||
+                applyAllocated <= 0 ||
+                applyAllocated > applyTarget.remaining ||
+                applyMutation.isPending
+              }
+            >
+              Apply {formatCurrency(applyAllocated)}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!refundTarget} onOpenChange={(open) => !open && setRefundTarget(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Refund {refundTarget?.reference}</DialogTitle>
+          </DialogHeader>
+          {refundTarget && refundForm && (
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label>Amount (up to {formatCurrency(refundTarget.remaining)})</Label>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min={0}
+                  value={refundForm.amount}
+                  onChange={(e) => setRefundForm({ ...refundForm, amount: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Date</Label>
+                <Input
+                  type="date"
+                  value={refundForm.refundDate}
+                  onChange={(e) => setRefundForm({ ...refundForm, refundDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Method</Label>
+                <Select
+                  value={refundForm.method}
+                  onValueChange={(value) => setRefundForm({ ...refundForm, method: value as PaymentMethod })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAYMENT_METHODS.map(method => (
+                      <SelectItem key={method.value} value={method.value}>{method.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Reference</Label>
+                <Input
+                  value={refundForm.reference}
+                  onChange={(e) => setRefundForm({ ...refundForm, reference: e.target.value })}
+                />
+              </div>
+              <div className="col-span-2">
+                <Label>Paid from</Label>
+                <AccountDropdown
+                  clientId={clientId}
+                  value={refundForm.bankAccountId}
+                  onValueChange={(value) => setRefundForm({ ...refundForm, bankAccountId: value })}
+                  placeholder="Select bank account"
+                  compact={true}
+                  showAccountNumbers={true}
+                />
+              </div>
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRefundTarget(null)}>Cancel</Button>
+            <Button
+              onClick={() => refundTarget && refundForm && refundMutation.mutate({ target: refundTarget, form: refundForm })}
+              disabled={
+                !refundTarget ||
+                !refundForm?.bankAccountId ||
+                refundAmount <= 0 ||
+                refundAmount > refundTarget.remaining ||
+                refundMutation.isPending
+              }
+            >
+              Record Refund
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
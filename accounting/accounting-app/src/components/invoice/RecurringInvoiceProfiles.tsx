@@ -0,0 +1,992 @@
+/**
+ * RECURRING INVOICE PROFILES
+ *
+ * Subscription billing for a client's customers: recurring invoice profiles
+ * (schedule, end date, terms, tax, auto-send, lines), price changes scheduled
+ * for a future date, a preview of next month's billing run where a single
+ * cycle can be skipped, pausing a customer's profile, and billing history.
+ * Due invoices are generated by the server scheduler; "Run now" generates
+ * anything already due.
+ */
+
+import React, { useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AccountDropdown } from '@/components/ui/AccountDropdown';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { apiConfig } from '@/lib/api-config';
+import { getCurrentDateString } from '@/lib/date-utils';
+import { Plus, Trash2, Pencil, Play, Pause, Repeat, Lock, ArrowLeft, Save, SkipForward, Undo2, Mail } from 'lucide-react';
+
+type Frequency = 'monthly' | 'quarterly' | 'annually';
+type ProfileStatus = 'active' | 'paused' | 'ended';
+
+interface ProfileLine {
+  id: number;
+  description: string;
+  quantity: string;
+  rate: string;
+  accountId: number;
+}
+
+interface PriceChange {
+  id: number;
+  lineId: number;
+  effectiveDate: string;
+  rate: string;
+}
+
+interface RecurringProfile {
+  id: number;
+  customerId: number;
+  customerName: string | null;
+  name: string;
+  frequency: Frequency;
+  dayOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+  nextRunDate: string | null;
+  paymentTermsDays: number;
+  taxRate: string;
+  notes: string | null;
+  autoSend: boolean;
+  status: ProfileStatus;
+  invoicesGenerated: number;
+  lastError: string | null;
+  lines: ProfileLine[];
+  priceChanges: PriceChange[];
+}
+
+interface BillingRun {
+  id: number;
+  profileId: number;
+  customerId: number;
+  occurrenceDate: string;
+  status: 'generated' | 'skipped' | 'skipped_locked';
+  invoiceNumber: string | null;
+  totalAmount: string | null;
+  sentAt: string | null;
+  message: string | null;
+}
+
+interface PreviewOccurrence {
+  profileId: number;
+  profileName: string;
+  customerId: number;
+  customerName: string | null;
+  date: string;
+  lines: { lineId: number; description: string; amount: number; priceChangeId: number | null }[];
+  subtotal: number;
+  taxAmount: number;
+  total: number;
+  status: 'scheduled' | 'skipped' | 'paused' | 'locked';
+  message: string | null;
+  autoSend: boolean;
+}
+
+interface MonthPreview {
+  month: string;
+  occurrences: PreviewOccurrence[];
+  totals: { invoices: number; subtotal: number; taxAmount: number; total: number };
+}
+
+interface Customer {
+  id: number;
+  name: string;
+  companyName?: string;
+  email?: string;
+}
+
+interface LineForm {
+  id?: number;
+  description: string;
+  quantity: string;
+  rate: string;
+  accountId: number;
+}
+
+interface ProfileForm {
+  id?: number;
+  customerId: string;
+  name: string;
+  frequency: Frequency;
+  dayOfMonth: string;
+  startDate: string;
+  endDate: string;
+  paymentTermsDays: string;
+  taxPercent: string;
+  notes: string;
+  autoSend: boolean;
+  lines: LineForm[];
+}
+
+interface RecurringInvoiceProfilesProps {
+  clientId: number;
+}
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  annually: 'Annually',
+};
+
+const emptyLine = (): LineForm => ({ description: '', quantity: '1', rate: '', accountId: 0 });
+
+const emptyForm = (): ProfileForm => ({
+  customerId: '',
+  name: '',
+  frequency: 'monthly',
+  dayOfMonth: '1',
+  startDate: getCurrentDateString(),
+  endDate: '',
+  paymentTermsDays: '30',
+  taxPercent: '13',
+  notes: '',
+  autoSend: false,
+  lines: [emptyLine()],
+});
+
+const toForm = (profile: RecurringProfile): ProfileForm => ({
+  id: profile.id,
+  customerId: profile.customerId.toString(),
+  name: profile.name,
+  frequency: profile.frequency,
+  dayOfMonth: profile.dayOfMonth ? profile.dayOfMonth.toString() : '',
+  startDate: profile.startDate,
+  endDate: profile.endDate || '',
+  paymentTermsDays: profile.paymentTermsDays.toString(),
+  taxPercent: (parseFloat(profile.taxRate) * 100).toString(),
+  notes: profile.notes || '',
+  autoSend: profile.autoSend,
+  lines: profile.lines.map(line => ({
+    id: line.id,
+    description: line.description,
+    quantity: parseFloat(line.quantity).toString(),
+    rate: line.rate,
+    accountId: line.accountId,
+  })),
+});
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const nextMonth = () => {
+  const now = new Date();
+  const next = new Date(now.getFullYear(), now.getMonth() + 1, 1);
+  return `${next.getFullYear()}-${String(next.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const STATUS_BADGES: Record<PreviewOccurrence['status'], { label: string; className: string }> = {
+  scheduled: { label: 'Will invoice', className: 'bg-green-100 text-green-800' },
+  skipped: { label: 'Skipped', className: 'bg-gray-100 text-gray-700' },
+  paused: { label: 'Paused', className: 'bg-amber-100 text-amber-800' },
+  locked: { label: 'Locked period', className: 'bg-red-100 text-red-800' },
+};
+
+export default function RecurringInvoiceProfiles({ clientId }: RecurringInvoiceProfilesProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<ProfileForm | null>(null);
+  const [previewMonth, setPreviewMonth] = useState(nextMonth());
+  const [historyCustomerId, setHistoryCustomerId] = useState('all');
+  const [priceChange, setPriceChange] = useState({ lineId: '', effectiveDate: '', rate: '' });
+
+  const profilesKey = [`/api/recurring-invoices/${clientId}/profiles`];
+  const previewKey = [`/api/recurring-invoices/${clientId}/preview`, previewMonth];
+  const runsKey = [`/api/recurring-invoices/${clientId}/runs`, historyCustomerId];
+
+  const { data: profiles = [], isLoading } = useQuery<RecurringProfile[]>({
+    queryKey: profilesKey,
+    queryFn: () => apiRequest('GET', `/api/recurring-invoices/${clientId}/profiles`).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  const { data: preview } = useQuery<MonthPreview>({
+    queryKey: previewKey,
+    queryFn: () =>
+      apiRequest('GET', `/api/recurring-invoices/${clientId}/preview?month=${previewMonth}`).then(res => res.json()),
+    enabled: !!clientId && /^\d{4}-\d{2}$/.test(previewMonth),
+  });
+
+  const { data: runs = [] } = useQuery<BillingRun[]>({
+    queryKey: runsKey,
+    queryFn: () =>
+      apiRequest(
+        'GET',
+        `/api/recurring-invoices/${clientId}/runs${historyCustomerId !== 'all' ? `?customerId=${historyCustomerId}` : ''}`
+      ).then(res => res.json()),
+    enabled: !!clientId,
+  });
+
+  // Same customer list as the Sales tab
+  const { data: customers = [] } = useQuery({
+    queryKey: ['customers', clientId],
+    queryFn: async () => {
+      const token = localStorage.getItem('authToken');
+      const headers: Record<string, string> = {};
+      if (token) {
+        headers["Authorization"] = `Bearer ${token}`;
+      }
+      const response = await fetch(apiConfig.buildUrl(`/api/crm/contacts/${clientId}`), {
+        credentials: 'include',
+        headers,
+      });
+      if (!response.ok) throw new Error('Failed to fetch customers');
+      const result = await response.json();
+      return result.data.filter((contact: any) =>
+        contact.contactType === 'customer' || contact.contactType === 'both'
+      ) as Customer[];
+    },
+    enabled: !!clientId,
+  });
+
+  const editingProfile = form?.id ? profiles.find(profile => profile.id === form.id) : undefined;
+  const subtotal = form
+    ? form.lines.reduce((sum, line) => sum + (parseFloat(line.quantity) || 0) * (parseFloat(line.rate) || 0), 0)
+    : 0;
+  const taxAmount = form ? subtotal * ((parseFloat(form.taxPercent) || 0) / 100) : 0;
+
+  const refresh = () => {
+    queryClient.invalidateQueries({ queryKey: profilesKey });
+    queryClient.invalidateQueries({ queryKey: [`/api/recurring-invoices/${clientId}/preview`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/recurring-invoices/${clientId}/runs`] });
+  };
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: 'destructive' });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async (current: ProfileForm) => {
+      const payload = {
+        customerId: parseInt(current.customerId),
+        name: current.name.trim(),
+        frequency: current.frequency,
+        dayOfMonth: current.dayOfMonth ? parseInt(current.dayOfMonth) : null,
+        startDate: current.startDate,
+        endDate: current.endDate || null,
+        paymentTermsDays: parseInt(current.paymentTermsDays) || 0,
+        taxRate: (parseFloat(current.taxPercent) || 0) / 100,
+        notes: current.notes || null,
+        autoSend: current.autoSend,
+        lines: current.lines
+          .filter(line => line.description.trim() && line.accountId > 0)
+          .map(line => ({
+            id: line.id ?? null,
+            description: line.description.trim(),
+            quantity: parseFloat(line.quantity) || 1,
+            rate: parseFloat(line.rate) || 0,
+            accountId: line.accountId,
+          })),
+      };
+      const res = current.id
+        ? await apiRequest('PUT', `/api/recurring-invoices/${clientId}/profiles/${current.id}`, payload)
+        : await apiRequest('POST', `/api/recurring-invoices/${clientId}/profiles`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Recurring invoice saved', description: 'Invoices will be generated on schedule.' });
+      setForm(null);
+    },
+    onError: onError('Could not save recurring invoice'),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (profileId: number) =>
+      apiRequest('DELETE', `/api/recurring-invoices/${clientId}/profiles/${profileId}`).then(res => res.json()),
+    onSuccess: () => {
+      refresh();
+      toast({ title: 'Recurring invoice deleted', description: 'Invoices already generated were kept.' });
+    },
+    onError: onError('Could not delete recurring invoice'),
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: ({ profileId, action }: { profileId: number; action: 'pause' | 'resume' }) =>
+      apiRequest('POST', `/api/recurring-invoices/${clientId}/profiles/${profileId}/${action}`, {}).then(res => res.json()),
+    onSuccess: (profile: RecurringProfile) => {
+      refresh();
+      toast({
+        title: profile.status === 'paused' ? 'Billing paused' : 'Billing resumed',
+        description: profile.status === 'paused'
+          ? 'No invoices are generated until the profile is resumed.'
+          : `Next invoice on ${profile.nextRunDate || '—'}.`,
+      });
+    },
+    onError: onError('Could not change billing status'),
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (profileId: number) =>
+      apiRequest('POST', `/api/recurring-invoices/${clientId}/profiles/${profileId}/run`, {}).then(res => res.json()),
+    onSuccess: (result: { generated: any[]; skipped: any[]; error: string | null }) => {
+      refresh();
+      queryClient.invalidateQueries({ queryKey: ['invoices', clientId] });
+      queryClient.invalidateQueries({ queryKey: ['all-invoices', clientId] });
+      queryClient.invalidateQueries({ queryKey: ['journal-entries', clientId] });
+      queryClient.invalidateQueries({ queryKey: ['customer-statement'] });
+      toast({
+        title: result.error ? 'Recurring invoice failed' : 'Recurring invoice run',
+        description: result.error || `${result.generated.length} generated, ${result.skipped.length} skipped.`,
+        variant: result.error ? 'destructive' : undefined,
+      });
+    },
+    onError: onError('Could not run recurring invoice'),
+  });
+
+  const skipMutation = useMutation({
+    mutationFn: ({ profileId, date, skip }: { profileId: number; date: string; skip: boolean }) =>
+      (skip
+        ? apiRequest('POST', `/api/recurring-invoices/${clientId}/profiles/${profileId}/skip`, { occurrenceDate: date })
+        : apiRequest('DELETE', `/api/recurring-invoices/${clientId}/profiles/${profileId}/skip/${date}`)
+      ).then(res => res.json()),
+    onSuccess: refresh,
+    onError: onError('Could not update billing cycle'),
+  });
+
+  const priceChangeMutation = useMutation({
+    mutationFn: (profileId: number) =>
+      apiRequest('POST', `/api/recurring-invoices/${clientId}/profiles/${profileId}/price-changes`, {
+        lineId: parseInt(priceChange.lineId),
+        effectiveDate: priceChange.effectiveDate,
+        rate: parseFloat(priceChange.rate),
+      }).then(res => res.json()),
+    onSuccess: () => {
+      refresh();
+      setPriceChange({ lineId: '', effectiveDate: '', rate: '' });
+      toast({ title: 'Price change scheduled' });
+    },
+    onError: onError('Could not schedule price change'),
+  });
+
+  const deletePriceChangeMutation = useMutation({
+    mutationFn: ({ profileId, changeId }: { profileId: number; changeId: number }) =>
+      apiRequest('DELETE', `/api/recurring-invoices/${clientId}/profiles/${profileId}/price-changes/${changeId}`)
+        .then(res => res.json()),
+    onSuccess: refresh,
+    onError: onError('Could not delete price change'),
+  });
+
+  const updateForm = (changes: Partial<ProfileForm>) => {
+    setForm(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateLine = (index: number, changes: Partial<LineForm>) => {
+    setForm(current => {
+      if (!current) return current;
+      const lines = current.lines.map((line, i) => (i === index ? { ...line, ...changes } : line));
+      return { ...current, lines };
+    });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.customerId || !form.name.trim()) {
+      toast({ title: 'Missing details', description: 'Customer and name are required.', variant: 'destructive' });
+      return;
+    }
+    if (!form.lines.some(line => line.description.trim() && line.accountId > 0)) {
+      toast({
+        title: 'Missing lines',
+        description: 'Add at least one line with a description and revenue account.',
+        variant: 'destructive',
+      });
+      return;
+    }
+    saveMutation.mutate(form);
+  };
+
+  const customerLabel = (customerId: number) => {
+    const customer = customers.find(candidate => candidate.id === customerId);
+    return customer ? customer.companyName || customer.name : `Customer #${customerId}`;
+  };
+
+  const lineDescription = (profile: RecurringProfile | undefined, lineId: number) =>
+    profile?.lines.find(line => line.id === lineId)?.description || `Line #${lineId}`;
+
+  if (form) {
+    return (
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <Repeat className="h-5 w-5" />
+            <span>{form.id ? 'Edit Recurring Invoice' : 'New Recurring Invoice'}</span>
+          </CardTitle>
+          <CardDescription>
+            Each cycle creates an invoice and posts it to accounts receivable. Dates in a locked period are skipped.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Customer</Label>
+              <Select value={form.customerId} onValueChange={(value) => updateForm({ customerId: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select customer" />
+                </SelectTrigger>
+                <SelectContent>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id.toString()}>
+                      {customer.companyName || customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="recurring-invoice-name">Name</Label>
+              <Input
+                id="recurring-invoice-name"
+                value={form.name}
+                onChange={(e) => updateForm({ name: e.target.value })}
+                placeholder="e.g. Monthly rent - Unit 4"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <Label>Frequency</Label>
+              <Select value={form.frequency} onValueChange={(value) => updateForm({ frequency: value as Frequency })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map(frequency => (
+                    <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="recurring-invoice-day">Day of month</Label>
+              <Input
+                id="recurring-invoice-day"
+                type="number"
+                min={1}
+                max={31}
+                value={form.dayOfMonth}
+                onChange={(e) => updateForm({ dayOfMonth: e.target.value })}
+                placeholder="Last day"
+              />
+            </div>
+            <div>
+              <Label htmlFor="recurring-invoice-start">Start date</Label>
+              <Input
+                id="recurring-invoice-start"
+                type="date"
+                value={form.startDate}
+                onChange={(e) => updateForm({ startDate: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="recurring-invoice-end">End date (optional)</Label>
+              <Input
+                id="recurring-invoice-end"
+                type="date"
+                value={form.endDate}
+                onChange={(e) => updateForm({ endDate: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4 items-end">
+            <div>
+              <Label htmlFor="recurring-invoice-terms">Payment terms (days)</Label>
+              <Input
+                id="recurring-invoice-terms"
+                type="number"
+                min={0}
+                value={form.paymentTermsDays}
+                onChange={(e) => updateForm({ paymentTermsDays: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label htmlFor="recurring-invoice-tax">Sales tax %</Label>
+              <Input
+                id="recurring-invoice-tax"
+                type="number"
+                min={0}
+                step="0.001"
+                value={form.taxPercent}
+                onChange={(e) => updateForm({ taxPercent: e.target.value })}
+              />
+            </div>
+            <div className="flex items-center space-x-2 col-span-2">
+              <Switch
+                id="recurring-invoice-send"
+                checked={form.autoSend}
+                onCheckedChange={(checked) => updateForm({ autoSend: checked })}
+              />
+              <Label htmlFor="recurring-invoice-send">Email each invoice to the customer automatically</Label>
+            </div>
+          </div>
+
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead className="w-1/3">Description</TableHead>
+                <TableHead className="w-1/4">Revenue account</TableHead>
+                <TableHead className="text-right w-24">Qty</TableHead>
+                <TableHead className="text-right w-32">Rate</TableHead>
+                <TableHead className="text-right w-32">Amount</TableHead>
+                <TableHead className="w-10"></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {form.lines.map((line, index) => (
+                <TableRow key={line.id ?? `new-${index}`}>
+                  <TableCell>
+                    <Input value={line.description} onChange={(e) => updateLine(index, { description: e.target.value })} />
+                  </TableCell>
+                  <TableCell>
+                    <AccountDropdown
+                      clientId={clientId}
+                      value={line.accountId > 0 ? line.accountId.toString() : ''}
+                      onValueChange={(value) => updateLine(index, { accountId: parseInt(value) })}
+                      placeholder="Select account"
+                      compact={true}
+                      showAccountNumbers={true}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      className="text-right"
+                      value={line.quantity}
+                      onChange={(e) => updateLine(index, { quantity: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      className="text-right"
+                      value={line.rate}
+                      onChange={(e) => updateLine(index, { rate: e.target.value })}
+                    />
+                  </TableCell>
+                  <TableCell className="text-right font-mono text-sm">
+                    {formatAmount((parseFloat(line.quantity) || 0) * (parseFloat(line.rate) || 0))}
+                  </TableCell>
+                  <TableCell>
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      disabled={form.lines.length <= 1}
+                      onClick={() => updateForm({ lines: form.lines.filter((_, i) => i !== index) })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </TableCell>
+                </TableRow>
+              ))}
+              <TableRow>
+                <TableCell colSpan={3}>
+                  <Button size="sm" variant="outline" onClick={() => updateForm({ lines: [...form.lines, emptyLine()] })}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Add Line
+                  </Button>
+                </TableCell>
+                <TableCell className="text-right text-sm text-gray-500">
+                  Tax {formatAmount(taxAmount)}
+                </TableCell>
+                <TableCell className="text-right font-mono font-medium">{formatAmount(subtotal + taxAmount)}</TableCell>
+                <TableCell></TableCell>
+              </TableRow>
+            </TableBody>
+          </Table>
+
+          <div>
+            <Label htmlFor="recurring-invoice-notes">Invoice notes</Label>
+            <Textarea
+              id="recurring-invoice-notes"
+              rows={2}
+              value={form.notes}
+              onChange={(e) => updateForm({ notes: e.target.value })}
+            />
+          </div>
+
+          {editingProfile && (
+            <div className="rounded-md border p-3 space-y-3">
+              <div className="text-sm font-medium">Scheduled price changes</div>
+              {editingProfile.priceChanges.length === 0 ? (
+                <div className="text-sm text-gray-500">No price changes scheduled.</div>
+              ) : (
+                <div className="space-y-1">
+                  {editingProfile.priceChanges.map(change => (
+                    <div key={change.id} className="flex items-center justify-between text-sm">
+                      <span>
+                        {lineDescription(editingProfile, change.lineId)} &rarr; {formatAmount(parseFloat(change.rate))}
+                        <span className="text-gray-500"> from {change.effectiveDate}</span>
+                      </span>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        disabled={deletePriceChangeMutation.isPending}
+                        onClick={() => deletePriceChangeMutation.mutate({ profileId: editingProfile.id, changeId: change.id })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+              <div className="grid grid-cols-4 gap-2 items-end">
+                <div className="col-span-2">
+                  <Label>Line</Label>
+                  <Select value={priceChange.lineId} onValueChange={(value) => setPriceChange({ ...priceChange, lineId: value })}>
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select line" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {editingProfile.lines.map(line => (
+                        <SelectItem key={line.id} value={line.id.toString()}>{line.description}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div>
+                  <Label htmlFor="price-change-date">Effective</Label>
+                  <Input
+                    id="price-change-date"
+                    type="date"
+                    value={priceChange.effectiveDate}
+                    onChange={(e) => setPriceChange({ ...priceChange, effectiveDate: e.target.value })}
+                  />
+                </div>
+                <div className="flex gap-2">
+                  <Input
+                    type="number"
+                    step="0.01"
+                    placeholder="New rate"
+                    value={priceChange.rate}
+                    onChange={(e) => setPriceChange({ ...priceChange, rate: e.target.value })}
+                  />
+                  <Button
+                    size="sm"
+                    disabled={
+                      !priceChange.lineId || !priceChange.effectiveDate || priceChange.rate === '' ||
+                      priceChangeMutation.isPending
+                    }
+                    onClick={() => priceChangeMutation.mutate(editingProfile.id)}
+                  >
+                    <Plus className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button variant="outline" onClick={() => setForm(null)}>
+              <ArrowLeft className="h-4 w-4 mr-1" />
+              Back
+            </Button>
+            <Button onClick={handleSave} disabled={saveMutation.isPending}>
+              <Save className="h-4 w-4 mr-1" />
+              {saveMutation.isPending ? 'Saving...' : 'Save Recurring Invoice'}
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Repeat className="h-5 w-5" />
+                <span>Recurring Invoices</span>
+              </CardTitle>
+              <CardDescription>Subscription billing generated automatically on schedule</CardDescription>
+            </div>
+            <Button onClick={() => setForm(emptyForm())}>
+              <Plus className="h-4 w-4 mr-1" />
+              New Recurring Invoice
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="text-sm text-gray-500">Loading recurring invoices...</div>
+          ) : profiles.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-8">
+              No recurring invoices yet. Set one up for rent, retainers or memberships.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Schedule</TableHead>
+                  <TableHead>Next invoice</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {profiles.map(profile => {
+                  const amount = profile.lines.reduce(
+                    (sum, line) => sum + parseFloat(line.quantity) * parseFloat(line.rate),
+                    0
+                  );
+                  return (
+                    <TableRow key={profile.id}>
+                      <TableCell>
+                        <div className="font-medium">{profile.customerName || customerLabel(profile.customerId)}</div>
+                        <div className="text-xs text-gray-500">{profile.name}</div>
+                        {profile.lastError && <div className="text-xs text-red-600 mt-1">{profile.lastError}</div>}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {FREQUENCY_LABELS[profile.frequency]}
+                        {profile.autoSend && (
+                          <Badge variant="outline" className="ml-2 text-xs">
+                            <Mail className="h-3 w-3 mr-1" />
+                            Auto-send
+                          </Badge>
+                        )}
+                        <div className="text-xs text-gray-500">
+                          {profile.endDate ? `until ${profile.endDate}` : 'no end date'}
+                          {profile.priceChanges.length > 0 && ` · ${profile.priceChanges.length} price change(s)`}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">{profile.status === 'ended' ? '—' : profile.nextRunDate || '—'}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAmount(amount)}</TableCell>
+                      <TableCell>
+                        {profile.status === 'active' ? (
+                          <Badge variant="secondary">Active</Badge>
+                        ) : (
+                          <Badge variant="outline">{profile.status === 'paused' ? 'Paused' : 'Ended'}</Badge>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right space-x-1 whitespace-nowrap">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Generate anything due now"
+                          disabled={profile.status !== 'active' || runMutation.isPending}
+                          onClick={() => runMutation.mutate(profile.id)}
+                        >
+                          <Play className="h-4 w-4" />
+                        </Button>
+                        {profile.status !== 'ended' && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title={profile.status === 'paused' ? 'Resume billing' : 'Pause billing'}
+                            disabled={statusMutation.isPending}
+                            onClick={() =>
+                              statusMutation.mutate({
+                                profileId: profile.id,
+                                action: profile.status === 'paused' ? 'resume' : 'pause',
+                              })
+                            }
+                          >
+                            {profile.status === 'paused' ? <Repeat className="h-4 w-4" /> : <Pause className="h-4 w-4" />}
+                          </Button>
+                        )}
+                        <Button size="sm" variant="ghost" title="Edit" onClick={() => setForm(toForm(profile))}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          title="Delete"
+                          disabled={deleteMutation.isPending}
+                          onClick={() => {
+                            if (confirm(`Delete recurring invoice "${profile.name}"? Invoices already generated are kept.`)) {
+                              deleteMutation.mutate(profile.id);
+                            }
+                          }}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Billing Run Preview</CardTitle>
+              <CardDescription>Invoices the scheduler will generate in the month, at the prices in effect then</CardDescription>
+            </div>
+            <Input
+              type="month"
+              className="w-44"
+              value={previewMonth}
+              onChange={(e) => setPreviewMonth(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {!preview || preview.occurrences.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">Nothing scheduled for this month.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Subtotal</TableHead>
+                  <TableHead className="text-right">Tax</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead className="text-right"></TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {preview.occurrences.map(occurrence => {
+                  const badge = STATUS_BADGES[occurrence.status];
+                  const repriced = occurrence.lines.some(line => line.priceChangeId);
+                  return (
+                    <TableRow key={`${occurrence.profileId}-${occurrence.date}`}>
+                      <TableCell className="text-sm">{occurrence.date}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{occurrence.customerName || customerLabel(occurrence.customerId)}</div>
+                        <div className="text-xs text-gray-500">
+                          {occurrence.profileName}
+                          {repriced && <Badge variant="outline" className="ml-2 text-xs">New price</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAmount(occurrence.subtotal)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAmount(occurrence.taxAmount)}</TableCell>
+                      <TableCell className="text-right font-mono text-sm">{formatAmount(occurrence.total)}</TableCell>
+                      <TableCell>
+                        <Badge className={badge.className} title={occurrence.message || undefined}>
+                          {occurrence.status === 'locked' && <Lock className="h-3 w-3 mr-1" />}
+                          {badge.label}
+                        </Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {(occurrence.status === 'scheduled' || occurrence.status === 'skipped') && (
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            disabled={skipMutation.isPending}
+                            onClick={() =>
+                              skipMutation.mutate({
+                                profileId: occurrence.profileId,
+                                date: occurrence.date,
+                                skip: occurrence.status === 'scheduled',
+                              })
+                            }
+                          >
+                            {occurrence.status === 'scheduled' ? (
+                              <>
+                                <SkipForward className="h-4 w-4 mr-1" />
+                                Skip
+                              </>
+                            ) : (
+                              <>
+                                <Undo2 className="h-4 w-4 mr-1" />
+                                Restore
+                              </>
+                            )}
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+                <TableRow>
+                  <TableCell colSpan={2} className="font-medium">
+                    {preview.totals.invoices} invoice{preview.totals.invoices === 1 ? '' : 's'}
+                  </TableCell>
+                  <TableCell className="text-right font-mono font-medium">{formatAmount(preview.totals.subtotal)}</TableCell>
+                  <TableCell className="text-right font-mono font-medium">{formatAmount(preview.totals.taxAmount)}</TableCell>
+                  <TableCell className="text-right font-mono font-medium">{formatAmount(preview.totals.total)}</TableCell>
+                  <TableCell colSpan={2}></TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex justify-between items-center">
+            <div>
+              <CardTitle>Billing History</CardTitle>
+              <CardDescription>Invoices generated and cycles skipped, by customer</CardDescription>
+            </div>
+            <Select value={historyCustomerId} onValueChange={setHistoryCustomerId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All customers</SelectItem>
+                {customers.map(customer => (
+                  <SelectItem key={customer.id} value={customer.id.toString()}>
+                    {customer.companyName || customer.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {runs.length === 0 ? (
+            <div className="text-sm text-gray-500 text-center py-6">No billing history yet.</div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Date</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Invoice</TableHead>
+                  <TableHead className="text-right">Total</TableHead>
+                  <TableHead>Result</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {runs.map(run => (
+                  <TableRow key={run.id}>
+                    <TableCell className="text-sm">{run.occurrenceDate}</TableCell>
+                    <TableCell className="text-sm">{customerLabel(run.customerId)}</TableCell>
+                    <TableCell className="text-sm">{run.invoiceNumber || '—'}</TableCell>
+                    <TableCell className="text-right font-mono text-sm">
+                      {run.totalAmount ? formatAmount(parseFloat(run.totalAmount)) : '—'}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {run.status === 'generated' ? (
+                        <Badge variant="secondary">{run.sentAt ? 'Generated & emailed' : 'Generated'}</Badge>
+                      ) : (
+                        <Badge variant="outline">{run.status === 'skipped' ? 'Skipped' : 'Skipped (locked)'}</Badge>
+                      )}
+                      {run.message && <div className="text-xs text-gray-500 mt-1">{run.message}</div>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
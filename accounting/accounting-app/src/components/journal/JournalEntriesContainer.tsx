@@ -10,12 +10,13 @@ import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from '@/hooks/use-toast';
-import { Plus, Upload, AlertCircle, CheckCircle } from 'lucide-react';
+import { Plus, Upload, AlertCircle, CheckCircle, Repeat } from 'lucide-react';
 
 // Modular components
 import { JournalEntryList } from './components/JournalEntryList';
 import { JournalEntryFilters, FilterOptions } from './components/JournalEntryFilters';
 import { JournalEntryEditor } from './components/JournalEntryEditor';
+import { RecurringJournalTemplates } from './components/RecurringJournalTemplates';
 import GeneralLedgerImport from './GeneralLedgerImport';
 
 // Optimized hooks
@@ -64,6 +65,7 @@ export function JournalEntriesContainer({ clientId, accounts }: JournalEntriesCo
   const [expandedEntries, setExpandedEntries] = useState<Set<number>>(new Set());
   const [showEditor, setShowEditor] = useState(false);
   const [showImport, setShowImport] = useState(false);
+  const [showRecurring, setShowRecurring] = useState(false);
   const [editingEntry, setEditingEntry] = useState<JournalEntry | null>(null);
 
   // Calculate offset based on current page and filters
@@ -321,6 +323,10 @@ export function JournalEntriesContainer({ clientId, accounts }: JournalEntriesCo
             </div>
             
             <div className="flex space-x-2">
+              <Button onClick={() => setShowRecurring(true)} variant="outline">
+                <Repeat className="h-4 w-4 mr-1" />
+                Recurring
+              </Button>
               <Button onClick={() => setShowImport(true)} variant="outline">
                 <Upload className="h-4 w-4 mr-1" />
                 Import
@@ -479,6 +485,13 @@ export function JournalEntriesContainer({ clientId, accounts }: JournalEntriesCo
         clientId={clientId}
       />
 
+      {/* Recurring Entries */}
+      <RecurringJournalTemplates
+        isOpen={showRecurring}
+        onClose={() => setShowRecurring(false)}
+        clientId={clientId}
+      />
+
       {/* Import Modal */}
       {showImport && (
         <GeneralLedgerImport
@@ -12,6 +12,15 @@ import { Upload, FileSpreadsheet, BookOpen, Eye, Check, X } from 'lucide-react';
 import GeneralLedgerImport from './GeneralLedgerImport';
 import { useJournalEntries } from './hooks/useJournalEntries';
 import { apiConfig } from '@/lib/api-config';
+import { apiRequest } from '@/lib/queryClient';
+import { hashFile } from '@/lib/file-hash';
+import { parseAmount } from '@/lib/import-format';
+import {
+  MappingProfilePanel,
+  DEFAULT_PROFILE_SETTINGS,
+  type MappingProfileSettings,
+  type ProfileDetection
+} from '@/components/import/MappingProfilePanel';
 
 interface JournalEntriesTabProps {
   clientId: number;
@@ -46,6 +55,14 @@ interface MappedEntry {
   reference?: string;
 }
 
+const IMPORT_SOURCES = {
+  journal: 'journal_entries',
+  general_ledger: 'general_ledger',
+} as const;
+
+// Files exported from the same system share a header row, so it names the source in import history
+const layoutSignature = (headers: string[]) => headers.map(header => header.trim().toLowerCase()).join('|');
+
 export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps) {
   const { toast } = useToast();
   
@@ -89,6 +106,8 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
   const [showAdvancedOptions, setShowAdvancedOptions] = useState(false);
   const [uploadData, setUploadData] = useState<UploadData | null>(null);
   const [columnMappings, setColumnMappings] = useState<Record<string, string>>({});
+  const [mappingProfile, setMappingProfile] = useState<ProfileDetection | null>(null);
+  const [profileSettings, setProfileSettings] = useState<MappingProfileSettings>(DEFAULT_PROFILE_SETTINGS);
   const [mappedEntries, setMappedEntries] = useState<MappedEntry[]>([]);
   const [showPreviewModal, setShowPreviewModal] = useState(false);
 
@@ -118,6 +137,24 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
     refetch();
   };
 
+  // Start from the mapping of the last import of a file with the same layout
+  const applyLastMapping = async (importType: UploadData['importType'], headers: string[]) => {
+    try {
+      const params = new URLSearchParams({ source: IMPORT_SOURCES[importType], sourceName: layoutSignature(headers) });
+      const response = await apiRequest('GET', `/api/import-batches/${clientId}/mapping?${params}`);
+      const { lastMapping } = await response.json();
+      if (lastMapping?.mapping) {
+        setColumnMappings(lastMapping.mapping);
+        toast({
+          title: "Mapping reused",
+          description: `Columns are mapped as in ${lastMapping.fileName || 'the last import from this source'}`,
+        });
+      }
+    } catch (error) {
+      console.error('Failed to load last import mapping:', error);
+    }
+  };
+
   // Separate upload handlers for different import types
   const handleJournalEntriesUpload = async (file: File) => {
     try {
@@ -152,6 +189,7 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
       });
       
       setColumnMappings(parseResult.columnMappings || {});
+      await applyLastMapping('journal', parseResult.headers || []);
       setShowMappingModal(true);
     } catch (error) {
       console.error('Journal entries upload error:', error);
@@ -195,7 +233,7 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
       const glColumns = ['accountCode', 'accountName', 'description', 'debit', 'credit'];
       
       glColumns.forEach(targetCol => {
-        const bestMatch = parseResult.headers.find(header => {
+        const bestMatch = (parseResult.headers || []).find(header => {
           const headerLower = header.toLowerCase();
           if (targetCol === 'accountCode') {
             return headerLower.includes('account') && (headerLower.includes('code') || headerLower.includes('number'));
@@ -217,6 +255,21 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
       });
       
       setColumnMappings(glMappings);
+
+      // A saved profile recognised from the header row replaces the guesses
+      const detection: ProfileDetection | null = parseResult.mappingProfile ?? null;
+      setMappingProfile(detection);
+      if (detection?.autoApplied) {
+        setColumnMappings(detection.profile.columnMapping);
+        setProfileSettings({
+          dateFormat: detection.profile.dateFormat,
+          decimalSeparator: detection.profile.decimalSeparator,
+          headerRowOffset: detection.headerRowOffset,
+        });
+      } else {
+        setProfileSettings({ ...DEFAULT_PROFILE_SETTINGS, headerRowOffset: detection?.headerRowOffset ?? 0 });
+        await applyLastMapping('general_ledger', parseResult.headers || []);
+      }
       setShowMappingModal(true);
     } catch (error) {
       console.error('General ledger upload error:', error);
@@ -246,7 +299,7 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
   const processMapping = () => {
     if (!uploadData) return;
 
-    const processed = uploadData.data.map(row => {
+    const processed = (uploadData.data || []).map(row => {
       if (uploadData.importType === 'journal') {
         // Journal entries format: Date, Description, Debit Account, Credit Account, Amount, Reference
         return {
@@ -263,8 +316,8 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
           accountCode: row[columnMappings.accountCode] || '',
           accountName: row[columnMappings.accountName] || '',
           description: row[columnMappings.description] || '',
-          debit: parseFloat(row[columnMappings.debit]) || 0,
-          credit: parseFloat(row[columnMappings.credit]) || 0
+          debit: parseAmount(row[columnMappings.debit], profileSettings.decimalSeparator),
+          credit: parseAmount(row[columnMappings.credit], profileSettings.decimalSeparator)
         };
       }
     });
@@ -302,13 +355,20 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
       
       let importUrl = '';
       let importData = {};
+      // Recorded in import history so the import can be rolled back and its mapping reused
+      const batch = uploadData && {
+        fileName: uploadData.file?.name || uploadData.fileName,
+        fileHash: uploadData.file ? await hashFile(uploadData.file) : undefined,
+        sourceName: layoutSignature(uploadData.headers || []),
+        mapping: columnMappings,
+      };
       
       if (uploadData?.importType === 'journal') {
         importUrl = `/api/journal-entries/${clientId}/import`;
-        importData = { entries: mappedEntries };
+        importData = { entries: mappedEntries, batch };
       } else {
         importUrl = `/api/general-ledger/${clientId}/import`;
-        importData = { entries: mappedEntries };
+        importData = { entries: mappedEntries, batch };
       }
 
       const response = await fetch(importUrl, {
@@ -669,7 +729,7 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
                         <SelectValue placeholder="Select column" />
                       </SelectTrigger>
                       <SelectContent>
-                        {uploadData?.headers.map(header => (
+                        {uploadData?.headers?.map(header => (
                           <SelectItem key={header} value={header}>{header}</SelectItem>
                         ))}
                       </SelectContent>
@@ -688,6 +748,16 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
             ) : (
               // General ledger mapping
               <>
+                <MappingProfilePanel
+                  clientId={clientId}
+                  source="general_ledger"
+                  headers={uploadData?.headers || []}
+                  detection={mappingProfile}
+                  settings={profileSettings}
+                  onSettingsChange={setProfileSettings}
+                  onApplyProfile={(profile) => setColumnMappings(profile.columnMapping)}
+                  columnMapping={columnMappings}
+                />
                 {['accountCode', 'accountName', 'description', 'debit', 'credit'].map(field => (
                   <div key={field} className="grid grid-cols-3 gap-4 items-center">
                     <Label className="font-medium capitalize">{field.replace(/([A-Z])/g, ' $1')}</Label>
@@ -699,7 +769,7 @@ export function JournalEntriesTab({ clientId, accounts }: JournalEntriesTabProps
                         <SelectValue placeholder="Select column" />
                       </SelectTrigger>
                       <SelectContent>
-                        {uploadData?.headers.map(header => (
+                        {uploadData?.headers?.map(header => (
                           <SelectItem key={header} value={header}>{header}</SelectItem>
                         ))}
                       </SelectContent>
@@ -0,0 +1,617 @@
+/**
+ * RECURRING JOURNAL TEMPLATES
+ *
+ * Manage recurring journal entries (accruals, prepaid amortization, management
+ * fees) for a client: schedule, end condition, auto-reverse flag, lines, and a
+ * preview of upcoming postings. Due occurrences are posted by the server
+ * scheduler; "Run now" posts anything already due.
+ */
+
+import React, { useEffect, useState } from 'react';
+import { useQuery, useMutation } from '@tanstack/react-query';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AccountDropdown } from '@/components/ui/AccountDropdown';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { getCurrentDateString } from '@/lib/date-utils';
+import { Plus, Trash2, Pencil, Play, Repeat, Lock, ArrowLeft, Save } from 'lucide-react';
+
+type Frequency = 'monthly' | 'quarterly' | 'fiscal_year_end';
+
+interface TemplateLine {
+  accountId: number;
+  debitAmount: string;
+  creditAmount: string;
+  memo?: string | null;
+}
+
+interface RecurringTemplate {
+  id: number;
+  name: string;
+  description: string;
+  frequency: Frequency;
+  dayOfMonth: number | null;
+  startDate: string;
+  endDate: string | null;
+  maxOccurrences: number | null;
+  occurrencesPosted: number;
+  nextRunDate: string | null;
+  autoReverse: boolean;
+  isActive: boolean;
+  lastRunAt: string | null;
+  lastError: string | null;
+  lines: TemplateLine[];
+}
+
+interface UpcomingPosting {
+  occurrence: number;
+  date: string;
+  reversalDate: string | null;
+  locked: boolean;
+  lockMessage: string | null;
+}
+
+interface TemplateForm {
+  id?: number;
+  name: string;
+  description: string;
+  frequency: Frequency;
+  dayOfMonth: string;
+  startDate: string;
+  endCondition: 'none' | 'date' | 'count';
+  endDate: string;
+  maxOccurrences: string;
+  autoReverse: boolean;
+  isActive: boolean;
+  lines: TemplateLine[];
+}
+
+interface RecurringJournalTemplatesProps {
+  isOpen: boolean;
+  onClose: () => void;
+  clientId: number;
+}
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  monthly: 'Monthly',
+  quarterly: 'Quarterly',
+  fiscal_year_end: 'Fiscal year end',
+};
+
+const emptyLine = (): TemplateLine => ({ accountId: 0, debitAmount: '', creditAmount: '', memo: '' });
+
+const emptyForm = (): TemplateForm => ({
+  name: '',
+  description: '',
+  frequency: 'monthly',
+  dayOfMonth: '',
+  startDate: getCurrentDateString(),
+  endCondition: 'none',
+  endDate: '',
+  maxOccurrences: '',
+  autoReverse: false,
+  isActive: true,
+  lines: [emptyLine(), emptyLine()],
+});
+
+const toForm = (template: RecurringTemplate): TemplateForm => ({
+  id: template.id,
+  name: template.name,
+  description: template.description,
+  frequency: template.frequency,
+  dayOfMonth: template.dayOfMonth ? template.dayOfMonth.toString() : '',
+  startDate: template.startDate,
+  endCondition: template.endDate ? 'date' : template.maxOccurrences ? 'count' : 'none',
+  endDate: template.endDate || '',
+  maxOccurrences: template.maxOccurrences ? template.maxOccurrences.toString() : '',
+  autoReverse: template.autoReverse,
+  isActive: template.isActive,
+  lines: template.lines.map(line => ({
+    accountId: line.accountId,
+    debitAmount: parseFloat(line.debitAmount) ? line.debitAmount : '',
+    creditAmount: parseFloat(line.creditAmount) ? line.creditAmount : '',
+    memo: line.memo || '',
+  })),
+});
+
+const scheduleFromForm = (form: TemplateForm) => ({
+  frequency: form.frequency,
+  dayOfMonth: form.frequency !== 'fiscal_year_end' && form.dayOfMonth ? parseInt(form.dayOfMonth) : null,
+  startDate: form.startDate,
+  endDate: form.endCondition === 'date' && form.endDate ? form.endDate : null,
+  maxOccurrences: form.endCondition === 'count' && form.maxOccurrences ? parseInt(form.maxOccurrences) : null,
+  autoReverse: form.autoReverse,
+});
+
+const formatAmount = (amount: number) =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export function RecurringJournalTemplates({ isOpen, onClose, clientId }: RecurringJournalTemplatesProps) {
+  const { toast } = useToast();
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [preview, setPreview] = useState<UpcomingPosting[]>([]);
+
+  const templatesKey = [`/api/recurring-journals/${clientId}/templates`];
+
+  const { data: templates = [], isLoading } = useQuery<RecurringTemplate[]>({
+    queryKey: templatesKey,
+    queryFn: () => apiRequest('GET', `/api/recurring-journals/${clientId}/templates`).then(res => res.json()),
+    enabled: isOpen && !!clientId,
+  });
+
+  const totalDebit = form ? form.lines.reduce((sum, line) => sum + (parseFloat(line.debitAmount) || 0), 0) : 0;
+  const totalCredit = form ? form.lines.reduce((sum, line) => sum + (parseFloat(line.creditAmount) || 0), 0) : 0;
+  const isBalanced = totalDebit > 0 && Math.abs(totalDebit - totalCredit) < 0.005;
+
+  // Refresh the upcoming-postings preview as the schedule is edited
+  const scheduleKey = form ? JSON.stringify(scheduleFromForm(form)) : '';
+  useEffect(() => {
+    if (!form || !form.startDate) {
+      setPreview([]);
+      return;
+    }
+
+    let cancelled = false;
+    apiRequest('POST', `/api/recurring-journals/${clientId}/preview`, { ...scheduleFromForm(form), count: 6 })
+      .then(res => res.json())
+      .then((upcoming: UpcomingPosting[]) => {
+        if (!cancelled) setPreview(upcoming);
+      })
+      .catch(() => {
+        if (!cancelled) setPreview([]);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [clientId, scheduleKey]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (current: TemplateForm) => {
+      const payload = {
+        ...scheduleFromForm(current),
+        name: current.name,
+        description: current.description,
+        isActive: current.isActive,
+        lines: current.lines
+          .filter(line => line.accountId > 0)
+          .map(line => ({
+            accountId: line.accountId,
+            debitAmount: parseFloat(line.debitAmount) || 0,
+            creditAmount: parseFloat(line.creditAmount) || 0,
+            memo: line.memo || null,
+          })),
+      };
+      const res = current.id
+        ? await apiRequest('PUT', `/api/recurring-journals/${clientId}/templates/${current.id}`, payload)
+        : await apiRequest('POST', `/api/recurring-journals/${clientId}/templates`, payload);
+      return res.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+      toast({ title: 'Recurring entry saved', description: 'Upcoming occurrences will be posted automatically.' });
+      setForm(null);
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not save recurring entry', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (templateId: number) =>
+      apiRequest('DELETE', `/api/recurring-journals/${clientId}/templates/${templateId}`).then(res => res.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+      toast({ title: 'Recurring entry deleted', description: 'Entries already posted were kept.' });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not delete recurring entry', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const runMutation = useMutation({
+    mutationFn: (templateId: number) =>
+      apiRequest('POST', `/api/recurring-journals/${clientId}/templates/${templateId}/run`, {}).then(res => res.json()),
+    onSuccess: (result: { posted: any[]; skipped: any[]; error: string | null }) => {
+      queryClient.invalidateQueries({ queryKey: templatesKey });
+      queryClient.invalidateQueries({ queryKey: ['journal-entries', clientId] });
+      queryClient.invalidateQueries({ queryKey: ['journal-entries-count', clientId] });
+      toast({
+        title: result.error ? 'Recurring entry failed' : 'Recurring entry run',
+        description:
+          result.error ||
+          `${result.posted.length} posted, ${result.skipped.length} skipped (locked period).`,
+        variant: result.error ? 'destructive' : undefined,
+      });
+    },
+    onError: (error: Error) => {
+      toast({ title: 'Could not run recurring entry', description: error.message, variant: 'destructive' });
+    },
+  });
+
+  const updateForm = (changes: Partial<TemplateForm>) => {
+    setForm(current => (current ? { ...current, ...changes } : current));
+  };
+
+  const updateLine = (index: number, changes: Partial<TemplateLine>) => {
+    setForm(current => {
+      if (!current) return current;
+      const lines = current.lines.map((line, i) => (i === index ? { ...line, ...changes } : line));
+      return { ...current, lines };
+    });
+  };
+
+  const handleSave = () => {
+    if (!form) return;
+    if (!form.name.trim() || !form.description.trim()) {
+      toast({ title: 'Missing details', description: 'Name and description are required.', variant: 'destructive' });
+      return;
+    }
+    if (!isBalanced) {
+      toast({ title: 'Entry not balanced', description: 'Debits must equal credits.', variant: 'destructive' });
+      return;
+    }
+    saveMutation.mutate(form);
+  };
+
+  const describeEnd = (template: RecurringTemplate) => {
+    if (template.endDate) return `until ${template.endDate}`;
+    if (template.maxOccurrences) return `${template.occurrencesPosted} of ${template.maxOccurrences}`;
+    return 'no end date';
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Repeat className="h-5 w-5" />
+            <span>{form ? (form.id ? 'Edit Recurring Entry' : 'New Recurring Entry') : 'Recurring Journal Entries'}</span>
+          </DialogTitle>
+          <DialogDescription>
+            Entries are posted automatically on schedule. Dates in a locked period are skipped, not posted.
+          </DialogDescription>
+        </DialogHeader>
+
+        {!form && (
+          <div className="space-y-4">
+            <div className="flex justify-end">
+              <Button onClick={() => setForm(emptyForm())}>
+                <Plus className="h-4 w-4 mr-1" />
+                New Recurring Entry
+              </Button>
+            </div>
+
+            {isLoading ? (
+              <div className="text-sm text-gray-500">Loading recurring entries...</div>
+            ) : templates.length === 0 ? (
+              <div className="text-sm text-gray-500 text-center py-8">
+                No recurring entries yet. Set one up for monthly accruals, amortization or fees.
+              </div>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Schedule</TableHead>
+                    <TableHead>Next posting</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {templates.map(template => {
+                    const amount = template.lines.reduce((sum, line) => sum + (parseFloat(line.debitAmount) || 0), 0);
+                    return (
+                      <TableRow key={template.id}>
+                        <TableCell>
+                          <div className="font-medium">{template.name}</div>
+                          <div className="text-xs text-gray-500">{template.description}</div>
+                          {template.lastError && (
+                            <div className="text-xs text-red-600 mt-1">{template.lastError}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-sm">
+                          {FREQUENCY_LABELS[template.frequency]}
+                          {template.autoReverse && <Badge variant="outline" className="ml-2 text-xs">Auto-reverse</Badge>}
+                          <div className="text-xs text-gray-500">{describeEnd(template)}</div>
+                        </TableCell>
+                        <TableCell className="text-sm">{template.nextRunDate || '—'}</TableCell>
+                        <TableCell className="text-right font-mono text-sm">{formatAmount(amount)}</TableCell>
+                        <TableCell>
+                          {template.isActive ? (
+                            <Badge variant="secondary">Active</Badge>
+                          ) : (
+                            <Badge variant="outline">{template.nextRunDate ? 'Paused' : 'Completed'}</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right space-x-1 whitespace-nowrap">
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Post anything due now"
+                            disabled={!template.isActive || runMutation.isPending}
+                            onClick={() => runMutation.mutate(template.id)}
+                          >
+                            <Play className="h-4 w-4" />
+                          </Button>
+                          <Button size="sm" variant="ghost" title="Edit" onClick={() => setForm(toForm(template))}>
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="ghost"
+                            title="Delete"
+                            disabled={deleteMutation.isPending}
+                            onClick={() => {
+                              if (confirm(`Delete recurring entry "${template.name}"? Entries already posted are kept.`)) {
+                                deleteMutation.mutate(template.id);
+                              }
+                            }}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        )}
+
+        {form && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              <div>
+                <Label htmlFor="recurring-name">Name</Label>
+                <Input
+                  id="recurring-name"
+                  value={form.name}
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  placeholder="e.g. Monthly rent accrual"
+                />
+              </div>
+              <div>
+                <Label htmlFor="recurring-description">Entry description</Label>
+                <Input
+                  id="recurring-description"
+                  value={form.description}
+                  onChange={(e) => updateForm({ description: e.target.value })}
+                  placeholder="Description on each posted entry"
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-4">
+              <div>
+                <Label>Frequency</Label>
+                <Select value={form.frequency} onValueChange={(value) => updateForm({ frequency: value as Frequency })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(FREQUENCY_LABELS) as Frequency[]).map(frequency => (
+                      <SelectItem key={frequency} value={frequency}>{FREQUENCY_LABELS[frequency]}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label htmlFor="recurring-day">Day of month</Label>
+                <Input
+                  id="recurring-day"
+                  type="number"
+                  min={1}
+                  max={31}
+                  value={form.dayOfMonth}
+                  disabled={form.frequency === 'fiscal_year_end'}
+                  onChange={(e) => updateForm({ dayOfMonth: e.target.value })}
+                  placeholder="Last day"
+                />
+              </div>
+              <div>
+                <Label htmlFor="recurring-start">Start date</Label>
+                <Input
+                  id="recurring-start"
+                  type="date"
+                  value={form.startDate}
+                  onChange={(e) => updateForm({ startDate: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Ends</Label>
+                <Select
+                  value={form.endCondition}
+                  onValueChange={(value) => updateForm({ endCondition: value as TemplateForm['endCondition'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Never</SelectItem>
+                    <SelectItem value="date">On a date</SelectItem>
+                    <SelectItem value="count">After a number of postings</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-4 gap-4 items-end">
+              {form.endCondition === 'date' && (
+                <div>
+                  <Label htmlFor="recurring-end">End date</Label>
+                  <Input
+                    id="recurring-end"
+                    type="date"
+                    value={form.endDate}
+                    onChange={(e) => updateForm({ endDate: e.target.value })}
+                  />
+                </div>
+              )}
+              {form.endCondition === 'count' && (
+                <div>
+                  <Label htmlFor="recurring-count">Number of postings</Label>
+                  <Input
+                    id="recurring-count"
+                    type="number"
+                    min={1}
+                    value={form.maxOccurrences}
+                    onChange={(e) => updateForm({ maxOccurrences: e.target.value })}
+                  />
+                </div>
+              )}
+              <div className="flex items-center space-x-2 col-span-2">
+                <Switch
+                  id="recurring-reverse"
+                  checked={form.autoReverse}
+                  onCheckedChange={(checked) => updateForm({ autoReverse: checked })}
+                />
+                <Label htmlFor="recurring-reverse">Reverse on first day of next period</Label>
+              </div>
+              {form.id && (
+                <div className="flex items-center space-x-2">
+                  <Switch
+                    id="recurring-active"
+                    checked={form.isActive}
+                    onCheckedChange={(checked) => updateForm({ isActive: checked })}
+                  />
+                  <Label htmlFor="recurring-active">Active</Label>
+                </div>
+              )}
+            </div>
+
+            <div>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-2/5">Account</TableHead>
+                    <TableHead>Memo</TableHead>
+                    <TableHead className="text-right w-32">Debit</TableHead>
+                    <TableHead className="text-right w-32">Credit</TableHead>
+                    <TableHead className="w-10"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {form.lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        <AccountDropdown
+                          clientId={clientId}
+                          value={line.accountId > 0 ? line.accountId.toString() : ''}
+                          onValueChange={(value) => updateLine(index, { accountId: parseInt(value) })}
+                          placeholder="Select account"
+                          compact={true}
+                          showAccountNumbers={true}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input value={line.memo || ''} onChange={(e) => updateLine(index, { memo: e.target.value })} />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          className="text-right"
+                          value={line.debitAmount}
+                          onChange={(e) => updateLine(index, { debitAmount: e.target.value, creditAmount: '' })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          className="text-right"
+                          value={line.creditAmount}
+                          onChange={(e) => updateLine(index, { creditAmount: e.target.value, debitAmount: '' })}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={form.lines.length <= 2}
+                          onClick={() => updateForm({ lines: form.lines.filter((_, i) => i !== index) })}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={2}>
+                      <Button size="sm" variant="outline" onClick={() => updateForm({ lines: [...form.lines, emptyLine()] })}>
+                        <Plus className="h-4 w-4 mr-1" />
+                        Add Line
+                      </Button>
+                    </TableCell>
+                    <TableCell className="text-right font-mono font-medium">{formatAmount(totalDebit)}</TableCell>
+                    <TableCell className="text-right font-mono font-medium">{formatAmount(totalCredit)}</TableCell>
+                    <TableCell>
+                      {!isBalanced && totalDebit + totalCredit > 0 && (
+                        <Badge variant="destructive" className="text-xs">Off</Badge>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+
+            <div className="rounded-md border p-3">
+              <div className="text-sm font-medium mb-2">Upcoming postings</div>
+              {preview.length === 0 ? (
+                <div className="text-sm text-gray-500">No postings scheduled.</div>
+              ) : (
+                <div className="space-y-1">
+                  {preview.map(posting => (
+                    <div key={posting.date} className="flex items-center justify-between text-sm">
+                      <span>
+                        #{posting.occurrence} &middot; {posting.date}
+                        {posting.reversalDate && (
+                          <span className="text-gray-500"> &rarr; reverses {posting.reversalDate}</span>
+                        )}
+                      </span>
+                      {posting.locked && (
+                        <Badge variant="outline" className="text-amber-700 border-amber-300" title={posting.lockMessage || undefined}>
+                          <Lock className="h-3 w-3 mr-1" />
+                          Locked period, will be skipped
+                        </Badge>
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {form ? (
+            <>
+              <Button variant="outline" onClick={() => setForm(null)}>
+                <ArrowLeft className="h-4 w-4 mr-1" />
+                Back
+              </Button>
+              <Button onClick={handleSave} disabled={saveMutation.isPending}>
+                <Save className="h-4 w-4 mr-1" />
+                {saveMutation.isPending ? 'Saving...' : 'Save Recurring Entry'}
+              </Button>
+            </>
+          ) : (
+            <Button variant="outline" onClick={onClose}>Close</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
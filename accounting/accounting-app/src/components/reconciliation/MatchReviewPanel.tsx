@@ -0,0 +1,408 @@
+import { useEffect, useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Skeleton } from "@/components/ui/skeleton";
+import { CheckCircle, Search, Save, Undo2, Trash2, Zap } from "lucide-react";
+
+interface MatchTolerances {
+  amountTolerance: number;
+  dateWindowDays: number;
+  minConfidence: number;
+  maxGroupSize: number;
+}
+
+interface StatementLine {
+  itemId: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+interface BookTransaction {
+  transactionId: number;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+}
+
+interface MatchProposal {
+  key: string;
+  matchType: "one_to_one" | "one_to_many" | "many_to_one";
+  confidence: number;
+  reasons: string[];
+  statementTotal: number;
+  bookTotal: number;
+  difference: number;
+  statementLines: StatementLine[];
+  bookTransactions: BookTransaction[];
+}
+
+interface ProposalResult {
+  tolerances: MatchTolerances;
+  proposals: MatchProposal[];
+  unmatchedStatementLines: StatementLine[];
+  unmatchedBookTransactions: BookTransaction[];
+}
+
+const MATCH_TYPE_LABELS: Record<MatchProposal["matchType"], string> = {
+  one_to_one: "1:1",
+  one_to_many: "1:N",
+  many_to_one: "N:1",
+};
+
+// Proposals at or above this confidence are accepted by "Accept high confidence"
+const HIGH_CONFIDENCE = 85;
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const confidenceClass = (confidence: number) =>
+  confidence >= HIGH_CONFIDENCE ? "bg-green-600" : confidence >= 65 ? "bg-blue-600" : "bg-yellow-600";
+
+interface MatchReviewPanelProps {
+  clientId: number;
+  sessionId: number;
+  isFinalized?: boolean;
+}
+
+export default function MatchReviewPanel({ clientId, sessionId, isFinalized }: MatchReviewPanelProps) {
+  const { toast } = useToast();
+  const [tolerances, setTolerances] = useState<MatchTolerances | null>(null);
+  const [result, setResult] = useState<ProposalResult | null>(null);
+
+  const { data: savedTolerances } = useQuery<MatchTolerances>({
+    queryKey: [`/api/reconciliation/match-settings/${clientId}`],
+  });
+
+  const { data: matchesData, isLoading: matchesLoading } = useQuery<{ matches: any[] }>({
+    queryKey: [`/api/reconciliation/sessions/${sessionId}/matches`],
+  });
+
+  const { data: aliasesData } = useQuery<{ aliases: any[] }>({
+    queryKey: [`/api/reconciliation/payee-aliases/${clientId}`],
+  });
+
+  useEffect(() => {
+    if (savedTolerances && !tolerances) setTolerances(savedTolerances);
+  }, [savedTolerances]);
+
+  // Proposals belong to one session
+  useEffect(() => {
+    setResult(null);
+  }, [sessionId]);
+
+  const invalidateSession = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/reconciliation/sessions/${sessionId}/matches`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/reconciliation/sessions/${sessionId}/report`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reconciliation/sessions'] });
+    queryClient.invalidateQueries({ queryKey: [`/api/reconciliation/payee-aliases/${clientId}`] });
+  };
+
+  const findMatchesMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', `/api/reconciliation/sessions/${sessionId}/match-proposals`, tolerances || {}).then(res => res.json()),
+    onSuccess: (data: ProposalResult) => {
+      setResult(data);
+      if (data.proposals.length === 0) {
+        toast({ title: "No matches found", description: "Try widening the date window or amount tolerance" });
+      }
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to find matches", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const saveSettingsMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('PUT', `/api/reconciliation/match-settings/${clientId}`, tolerances).then(res => res.json()),
+    onSuccess: () => {
+      toast({ title: "Matching tolerances saved for this client" });
+      queryClient.invalidateQueries({ queryKey: [`/api/reconciliation/match-settings/${clientId}`] });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to save tolerances", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const acceptMutation = useMutation({
+    mutationFn: async (proposals: MatchProposal[]) => {
+      for (const proposal of proposals) {
+        await apiRequest('POST', `/api/reconciliation/sessions/${sessionId}/matches`, {
+          itemIds: proposal.statementLines.map(line => line.itemId),
+          transactionIds: proposal.bookTransactions.map(transaction => transaction.transactionId),
+        });
+      }
+      return proposals;
+    },
+    onSuccess: (accepted) => {
+      const keys = new Set(accepted.map(proposal => proposal.key));
+      setResult(prev => prev && { ...prev, proposals: prev.proposals.filter(proposal => !keys.has(proposal.key)) });
+      toast({ title: `Accepted ${accepted.length} match${accepted.length === 1 ? '' : 'es'}` });
+      invalidateSession();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to accept match", description: error.message, variant: "destructive" });
+      invalidateSession();
+    }
+  });
+
+  const removeMatchMutation = useMutation({
+    mutationFn: (matchId: number) =>
+      apiRequest('DELETE', `/api/reconciliation/sessions/${sessionId}/matches/${matchId}`).then(res => res.json()),
+    onSuccess: () => {
+      toast({ title: "Match removed" });
+      invalidateSession();
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to remove match", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const deleteAliasMutation = useMutation({
+    mutationFn: (aliasId: number) =>
+      apiRequest('DELETE', `/api/reconciliation/payee-aliases/${clientId}/${aliasId}`).then(res => res.json()),
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/reconciliation/payee-aliases/${clientId}`] });
+    },
+  });
+
+  const proposals = result?.proposals || [];
+  const highConfidence = proposals.filter(proposal => proposal.confidence >= HIGH_CONFIDENCE);
+  const matches = matchesData?.matches || [];
+  const aliases = aliasesData?.aliases || [];
+
+  const updateTolerance = (field: keyof MatchTolerances, value: string) => {
+    setTolerances(prev => prev && { ...prev, [field]: value === '' ? 0 : parseFloat(value) });
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Matching Tolerances</CardTitle>
+          <CardDescription>
+            Statement lines are matched to book transactions on amount, date, cheque number, reference and payee
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {tolerances ? (
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="amountTolerance">Amount tolerance ($)</Label>
+                <Input
+                  id="amountTolerance"
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={tolerances.amountTolerance}
+                  onChange={(e) => updateTolerance('amountTolerance', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="dateWindowDays">Date window (days)</Label>
+                <Input
+                  id="dateWindowDays"
+                  type="number"
+                  min="0"
+                  max="60"
+                  value={tolerances.dateWindowDays}
+                  onChange={(e) => updateTolerance('dateWindowDays', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="minConfidence">Minimum confidence (%)</Label>
+                <Input
+                  id="minConfidence"
+                  type="number"
+                  min="0"
+                  max="100"
+                  value={tolerances.minConfidence}
+                  onChange={(e) => updateTolerance('minConfidence', e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="maxGroupSize">Max items per group</Label>
+                <Input
+                  id="maxGroupSize"
+                  type="number"
+                  min="2"
+                  max="10"
+                  value={tolerances.maxGroupSize}
+                  onChange={(e) => updateTolerance('maxGroupSize', e.target.value)}
+                />
+              </div>
+            </div>
+          ) : (
+            <Skeleton className="h-16" />
+          )}
+          <div className="flex flex-wrap gap-2">
+            <Button
+              onClick={() => findMatchesMutation.mutate()}
+              disabled={!tolerances || findMatchesMutation.isPending || isFinalized}
+            >
+              <Search className="w-4 h-4 mr-2" />
+              {findMatchesMutation.isPending ? 'Matching...' : 'Find Matches'}
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() => saveSettingsMutation.mutate()}
+              disabled={!tolerances || saveSettingsMutation.isPending}
+            >
+              <Save className="w-4 h-4 mr-2" />
+              Save as Client Default
+            </Button>
+            {highConfidence.length > 0 && (
+              <Button
+                variant="secondary"
+                onClick={() => acceptMutation.mutate(highConfidence)}
+                disabled={acceptMutation.isPending || isFinalized}
+              >
+                <Zap className="w-4 h-4 mr-2" />
+                Accept {highConfidence.length} at {HIGH_CONFIDENCE}%+
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {result && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Proposed Matches</CardTitle>
+            <CardDescription>
+              {proposals.length} proposal{proposals.length === 1 ? '' : 's'} · {result.unmatchedStatementLines.length} statement
+              line{result.unmatchedStatementLines.length === 1 ? '' : 's'} and {result.unmatchedBookTransactions.length} book
+              transaction{result.unmatchedBookTransactions.length === 1 ? '' : 's'} left without a proposal
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {proposals.map((proposal) => (
+              <div key={proposal.key} className="border rounded-lg p-4 space-y-3">
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{MATCH_TYPE_LABELS[proposal.matchType]}</Badge>
+                    <Badge className={confidenceClass(proposal.confidence)}>{proposal.confidence}% confidence</Badge>
+                    {proposal.difference !== 0 && (
+                      <span className="text-xs text-muted-foreground">Difference {formatAmount(proposal.difference)}</span>
+                    )}
+                  </div>
+                  <Button
+                    size="sm"
+                    onClick={() => acceptMutation.mutate([proposal])}
+                    disabled={acceptMutation.isPending || isFinalized}
+                  >
+                    <CheckCircle className="w-4 h-4 mr-2" />
+                    Accept
+                  </Button>
+                </div>
+
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4 text-sm">
+                  <div>
+                    <p className="font-medium mb-1">Statement ({formatAmount(proposal.statementTotal)})</p>
+                    {proposal.statementLines.map((line) => (
+                      <div key={line.itemId} className="flex justify-between text-muted-foreground">
+                        <span>{line.date} · {line.description}</span>
+                        <span>{formatAmount(line.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                  <div>
+                    <p className="font-medium mb-1">Books ({formatAmount(proposal.bookTotal)})</p>
+                    {proposal.bookTransactions.map((transaction) => (
+                      <div key={transaction.transactionId} className="flex justify-between text-muted-foreground">
+                        <span>{transaction.date} · {transaction.description}</span>
+                        <span>{formatAmount(transaction.amount)}</span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <ul className="text-xs text-muted-foreground list-disc pl-5">
+                  {proposal.reasons.map((reason) => (
+                    <li key={reason}>{reason}</li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            {proposals.length === 0 && (
+              <p className="text-center text-muted-foreground py-6">No proposals at the current tolerances</p>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Accepted Matches</CardTitle>
+          <CardDescription>Undo a match to return its statement lines to unmatched</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {matchesLoading ? (
+            <Skeleton className="h-16" />
+          ) : matches.length === 0 ? (
+            <p className="text-muted-foreground text-sm">No matches accepted in this session yet</p>
+          ) : (
+            matches.map((match) => (
+              <div key={match.id} className="flex items-start justify-between border rounded-lg p-3">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <Badge variant="outline">{MATCH_TYPE_LABELS[match.matchType as MatchProposal["matchType"]]}</Badge>
+                    <Badge className={confidenceClass(match.confidence)}>{match.confidence}%</Badge>
+                    <span className="text-sm font-medium">{formatAmount(parseFloat(match.statementTotal))}</span>
+                    <span className="text-xs text-muted-foreground">
+                      {match.itemIds.length} line{match.itemIds.length === 1 ? '' : 's'} ↔ {match.transactionIds.length} transaction{match.transactionIds.length === 1 ? '' : 's'}
+                    </span>
+                  </div>
+                  <p className="text-xs text-muted-foreground">{match.reasons.join(' · ')}</p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => removeMatchMutation.mutate(match.id)}
+                  disabled={removeMatchMutation.isPending || isFinalized}
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Payee Aliases</CardTitle>
+          <CardDescription>Learned from accepted matches; bank wording on the left is treated as the payee on the right</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {aliases.length === 0 ? (
+            <p className="text-muted-foreground text-sm">Aliases appear here as matches are accepted</p>
+          ) : (
+            <div className="space-y-2">
+              {aliases.map((alias) => (
+                <div key={alias.id} className="flex items-center justify-between text-sm">
+                  <span>
+                    <span className="font-mono">{alias.alias}</span> → <span className="font-medium">{alias.payeeName}</span>
+                    <span className="text-muted-foreground"> · confirmed {alias.timesConfirmed}×</span>
+                  </span>
+                  <Button variant="ghost" size="sm" onClick={() => deleteAliasMutation.mutate(alias.id)}>
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
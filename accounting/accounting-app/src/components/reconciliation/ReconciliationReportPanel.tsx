@@ -0,0 +1,369 @@
+import { useState } from "react";
+import { useQuery, useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { exportBankReconciliation as exportReconciliationExcel } from "@/lib/excel-export";
+import { exportBankReconciliation as exportReconciliationPDF } from "@/lib/pdf-export";
+import { Card, CardHeader, CardContent, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { AlertTriangle, CheckCircle, Download, FileSpreadsheet, Lock, Undo2 } from "lucide-react";
+
+export interface ReconciliationReportItem {
+  itemType: "outstanding_cheque" | "deposit_in_transit" | "unrecorded";
+  transactionId: number | null;
+  reconciliationItemId: number | null;
+  date: string;
+  description: string;
+  reference: string | null;
+  amount: number;
+  carriedFromReportId: number | null;
+}
+
+export interface BankReconciliationReport {
+  reportId: number | null;
+  sessionId: number;
+  clientId: number;
+  accountId: number;
+  accountName: string | null;
+  periodStart: string;
+  periodEnd: string;
+  status: string;
+  statementBalance: number;
+  depositsInTransitTotal: number;
+  outstandingChequesTotal: number;
+  adjustedBankBalance: number;
+  bookBalance: number;
+  unrecordedTotal: number;
+  adjustedBookBalance: number;
+  difference: number;
+  isBalanced: boolean;
+  unmatchedLineCount: number;
+  finalizedBy: number | null;
+  finalizedAt: string | null;
+  depositsInTransit: ReconciliationReportItem[];
+  outstandingCheques: ReconciliationReportItem[];
+  unrecordedItems: ReconciliationReportItem[];
+}
+
+const formatAmount = (amount: number) =>
+  `${amount < 0 ? "-" : ""}$${Math.abs(amount).toLocaleString("en-CA", { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const reconciliationRows = (report: BankReconciliationReport): [string, number][] => [
+  ["Balance per bank statement", report.statementBalance],
+  ["Add: deposits in transit", report.depositsInTransitTotal],
+  ["Less: outstanding cheques", -report.outstandingChequesTotal],
+  ["Adjusted bank balance", report.adjustedBankBalance],
+  ["Balance per books", report.bookBalance],
+  ["Add: unrecorded statement items", report.unrecordedTotal],
+  ["Adjusted book balance", report.adjustedBookBalance],
+  ["Difference", report.difference],
+];
+
+const itemTable = (title: string, items: ReconciliationReportItem[]) => ({
+  title,
+  headers: ["Date", "Description", "Reference", "Amount"],
+  rows: items.length > 0
+    ? items.map(item => [item.date, item.description, item.reference || "", formatAmount(item.amount)])
+    : [["", "None", "", ""]],
+});
+
+/**
+ * Exports a bank reconciliation report through the shared PDF/Excel exporters
+ */
+export async function exportReconciliationReport(
+  report: BankReconciliationReport,
+  format: "pdf" | "excel",
+  companyName: string
+) {
+  const data = {
+    title: `Bank Reconciliation - ${report.accountName || `Account ${report.accountId}`}`,
+    reconciliationTable: {
+      headers: ["", "Amount"],
+      rows: reconciliationRows(report).map(([label, amount]) => [label, formatAmount(amount)]),
+    },
+    itemTables: [
+      itemTable("Deposits in Transit", report.depositsInTransit),
+      itemTable("Outstanding Cheques", report.outstandingCheques),
+      ...(report.unrecordedItems.length > 0 ? [itemTable("Unrecorded Statement Items", report.unrecordedItems)] : []),
+    ],
+    summary: [
+      { label: "Status", value: report.status === "finalized" ? "Finalized" : "Draft" },
+      ...(report.finalizedAt ? [{ label: "Finalized", value: new Date(report.finalizedAt).toLocaleString() }] : []),
+    ],
+  };
+  const dateRange = { startDate: report.periodStart, endDate: report.periodEnd };
+
+  if (format === "pdf") {
+    await exportReconciliationPDF(data, { name: companyName }, dateRange);
+  } else {
+    await exportReconciliationExcel(data, { name: companyName }, dateRange);
+  }
+}
+
+function ItemList({ title, items }: { title: string; items: ReconciliationReportItem[] }) {
+  return (
+    <div className="space-y-2">
+      <h4 className="font-medium">{title}</h4>
+      {items.length === 0 ? (
+        <p className="text-sm text-muted-foreground">None</p>
+      ) : (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Description</TableHead>
+              <TableHead>Reference</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => (
+              <TableRow key={`${item.transactionId ?? item.reconciliationItemId}-${index}`}>
+                <TableCell>{item.date}</TableCell>
+                <TableCell>
+                  {item.description}
+                  {item.carriedFromReportId && (
+                    <Badge variant="outline" className="ml-2">Carried forward</Badge>
+                  )}
+                </TableCell>
+                <TableCell className="font-mono text-xs">{item.reference || "-"}</TableCell>
+                <TableCell className="text-right">{formatAmount(item.amount)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+    </div>
+  );
+}
+
+interface ReconciliationReportPanelProps {
+  sessionId: number;
+  companyName?: string;
+  onStatusChange?: (status: string) => void;
+}
+
+export default function ReconciliationReportPanel({ sessionId, companyName, onStatusChange }: ReconciliationReportPanelProps) {
+  const { toast } = useToast();
+  const [isReopenOpen, setIsReopenOpen] = useState(false);
+  const [reopenReason, setReopenReason] = useState("");
+
+  const { data: report, isLoading } = useQuery<BankReconciliationReport>({
+    queryKey: [`/api/reconciliation/sessions/${sessionId}/report`],
+  });
+
+  const { data: auditData } = useQuery<{ events: any[] }>({
+    queryKey: [`/api/reconciliation/sessions/${sessionId}/audit-trail`],
+  });
+
+  const refreshSession = (updated: BankReconciliationReport) => {
+    queryClient.setQueryData([`/api/reconciliation/sessions/${sessionId}/report`], updated);
+    queryClient.invalidateQueries({ queryKey: [`/api/reconciliation/sessions/${sessionId}/audit-trail`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reconciliation/sessions'] });
+    onStatusChange?.(updated.status === "finalized" ? "completed" : "in_progress");
+  };
+
+  const finalizeMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', `/api/reconciliation/sessions/${sessionId}/finalize`).then(res => res.json()),
+    onSuccess: (updated: BankReconciliationReport) => {
+      refreshSession(updated);
+      toast({ title: "Reconciliation finalized", description: "Outstanding items will carry forward to the next reconciliation" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to finalize", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const reopenMutation = useMutation({
+    mutationFn: () =>
+      apiRequest('POST', `/api/reconciliation/sessions/${sessionId}/reopen`, { reason: reopenReason }).then(res => res.json()),
+    onSuccess: (updated: BankReconciliationReport) => {
+      refreshSession(updated);
+      setIsReopenOpen(false);
+      setReopenReason("");
+      toast({ title: "Reconciliation reopened" });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Failed to reopen", description: error.message, variant: "destructive" });
+    }
+  });
+
+  const handleExport = async (format: "pdf" | "excel") => {
+    if (!report) return;
+    try {
+      await exportReconciliationReport(report, format, companyName || "Company");
+    } catch (error) {
+      toast({ title: "Export failed", description: (error as Error).message, variant: "destructive" });
+    }
+  };
+
+  if (isLoading || !report) {
+    return <Skeleton className="h-64 w-full" />;
+  }
+
+  const isFinalized = report.status === "finalized";
+  const events = auditData?.events || [];
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                Reconciliation Report
+                {isFinalized ? (
+                  <Badge className="bg-green-600"><Lock className="w-3 h-3 mr-1" />Finalized</Badge>
+                ) : (
+                  <Badge variant="outline">Draft</Badge>
+                )}
+              </CardTitle>
+              <CardDescription>
+                {report.accountName} · {report.periodStart} to {report.periodEnd}
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" onClick={() => handleExport("pdf")}>
+                <Download className="w-4 h-4 mr-2" />
+                PDF
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => handleExport("excel")}>
+                <FileSpreadsheet className="w-4 h-4 mr-2" />
+                Excel
+              </Button>
+              {isFinalized ? (
+                <Button variant="outline" size="sm" onClick={() => setIsReopenOpen(true)}>
+                  <Undo2 className="w-4 h-4 mr-2" />
+                  Undo Reconciliation
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  onClick={() => finalizeMutation.mutate()}
+                  disabled={!report.isBalanced || report.unmatchedLineCount > 0 || finalizeMutation.isPending}
+                >
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  {finalizeMutation.isPending ? "Finalizing..." : "Finalize"}
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {!isFinalized && (report.unmatchedLineCount > 0 || !report.isBalanced) && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {report.unmatchedLineCount > 0
+                  ? `${report.unmatchedLineCount} statement line(s) are still unmatched. Match them, ignore them or mark them as needing an entry before finalizing.`
+                  : `The adjusted bank and book balances differ by ${formatAmount(report.difference)}.`}
+              </AlertDescription>
+            </Alert>
+          )}
+
+          <Table>
+            <TableBody>
+              {reconciliationRows(report).map(([label, amount]) => {
+                const isTotal = label.startsWith("Adjusted") || label === "Difference";
+                return (
+                  <TableRow key={label}>
+                    <TableCell className={isTotal ? "font-semibold" : "pl-8"}>{label}</TableCell>
+                    <TableCell
+                      className={`text-right ${isTotal ? "font-semibold" : ""} ${
+                        label === "Difference" && !report.isBalanced ? "text-red-600" : ""
+                      }`}
+                    >
+                      {formatAmount(amount)}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+
+          <ItemList title="Deposits in Transit" items={report.depositsInTransit} />
+          <ItemList title="Outstanding Cheques" items={report.outstandingCheques} />
+          {report.unrecordedItems.length > 0 && (
+            <ItemList title="Unrecorded Statement Items" items={report.unrecordedItems} />
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>History</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {events.length === 0 ? (
+            <p className="text-muted-foreground text-sm">This reconciliation has not been finalized yet</p>
+          ) : (
+            <div className="space-y-2">
+              {events.map((event: any) => (
+                <div key={event.id} className="border rounded p-3 text-sm">
+                  <div className="flex items-center gap-2">
+                    <Badge variant={event.action === "reopened" ? "destructive" : "secondary"}>{event.action}</Badge>
+                    <span className="text-muted-foreground">{new Date(event.createdAt).toLocaleString()}</span>
+                  </div>
+                  {event.reason && <p className="mt-1">Reason: {event.reason}</p>}
+                  {event.details && <p className="mt-1 text-muted-foreground">{event.details}</p>}
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isReopenOpen} onOpenChange={setIsReopenOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Undo Reconciliation</DialogTitle>
+            <DialogDescription>
+              Reopens this reconciliation so matches can be changed. Only a manager can reopen, only the
+              most recent finalized reconciliation for the account, and the reason is kept in its history.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="reopen-reason">Reason</Label>
+            <Textarea
+              id="reopen-reason"
+              value={reopenReason}
+              onChange={(e) => setReopenReason(e.target.value)}
+              placeholder="e.g. Cheque 1042 was matched to the wrong deposit"
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsReopenOpen(false)}>Cancel</Button>
+            <Button
+              onClick={() => reopenMutation.mutate()}
+              disabled={!reopenReason.trim() || reopenMutation.isPending}
+            >
+              {reopenMutation.isPending ? "Reopening..." : "Reopen"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
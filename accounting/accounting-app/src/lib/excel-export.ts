@@ -443,6 +443,13 @@ function applyReportTypeFormatting(
     }
   }
 
+  // Consolidated Statements - every column after the account name is an amount
+  if (reportType.toLowerCase().includes('consolidated')) {
+    for (let col = 1; col <= range.e.c; col++) {
+      formatCurrency(worksheet, `${XLSX.utils.encode_col(col)}${dataRowStart}:${XLSX.utils.encode_col(col)}${range.e.r + 1}`);
+    }
+  }
+
   // Project Status Report
   if (reportType.toLowerCase().includes('project') || reportType.toLowerCase().includes('status')) {
     const progressCol = findColumn(['progress', 'complete', '%']);
@@ -665,3 +672,54 @@ export async function exportGenericTable(
 
   await exportReportToExcel(reportData, 'generic-table', firmInfo);
 }
+
+/**
+ * Exports a consolidated Balance Sheet or Profit & Loss (entity, eliminations
+ * and consolidated columns) to Excel
+ */
+export async function exportConsolidatedStatement(
+  data: {
+    title: string;
+    statementTable: { headers: string[]; rows: any[][] };
+    eliminationsTable?: { headers: string[]; rows: any[][] };
+    summary?: { label: string; value: string | number }[];
+  },
+  firmInfo: FirmInfo,
+  dateRange?: DateRange
+): Promise<void> {
+  const reportData: ReportData = {
+    title: data.title,
+    dateRange,
+    summary: data.summary,
+    tables: [
+      { ...data.statementTable, title: 'Statement' },
+      ...(data.eliminationsTable ? [{ ...data.eliminationsTable, title: 'Eliminations' }] : []),
+    ],
+  };
+
+  await exportReportToExcel(reportData, 'consolidated-statement', firmInfo);
+}
+
+/**
+ * Exports a bank reconciliation report (reconciliation summary, deposits in
+ * transit, outstanding cheques and unrecorded items) to Excel
+ */
+export async function exportBankReconciliation(
+  data: {
+    title: string;
+    reconciliationTable: { headers: string[]; rows: any[][] };
+    itemTables: TableData[];
+    summary?: { label: string; value: string | number }[];
+  },
+  firmInfo: FirmInfo,
+  dateRange?: DateRange
+): Promise<void> {
+  const reportData: ReportData = {
+    title: data.title,
+    dateRange,
+    summary: data.summary,
+    tables: [{ ...data.reconciliationTable, title: 'Reconciliation' }, ...data.itemTables],
+  };
+
+  await exportReportToExcel(reportData, 'bank-reconciliation', firmInfo);
+}
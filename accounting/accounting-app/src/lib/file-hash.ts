@@ -0,0 +1,10 @@
+/**
+ * SHA-256 of an uploaded file as hex, recorded on import batches so the same
+ * file can be recognized when it is imported again
+ */
+export async function hashFile(file: Blob): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest))
+    .map((byte) => byte.toString(16).padStart(2, "0"))
+    .join("");
+}
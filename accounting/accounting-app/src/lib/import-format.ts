@@ -0,0 +1,80 @@
+/**
+ * Parsing of dates, amounts and header rows in imported statement and ledger
+ * files, following the settings of a saved mapping profile
+ */
+
+export type ImportDateFormat = 'auto' | 'YYYY-MM-DD' | 'MM/DD/YYYY' | 'DD/MM/YYYY' | 'DD.MM.YYYY' | 'YYYYMMDD';
+export type DecimalSeparator = '.' | ',';
+
+export const DATE_FORMAT_OPTIONS: { value: ImportDateFormat; label: string }[] = [
+  { value: 'auto', label: 'Detect automatically' },
+  { value: 'YYYY-MM-DD', label: 'YYYY-MM-DD (2024-03-31)' },
+  { value: 'MM/DD/YYYY', label: 'MM/DD/YYYY (03/31/2024)' },
+  { value: 'DD/MM/YYYY', label: 'DD/MM/YYYY (31/03/2024)' },
+  { value: 'DD.MM.YYYY', label: 'DD.MM.YYYY (31.03.2024)' },
+  { value: 'YYYYMMDD', label: 'YYYYMMDD (20240331)' },
+];
+
+const DATE_PATTERNS: Record<Exclude<ImportDateFormat, 'auto'>, { pattern: RegExp; order: ['y' | 'm' | 'd', 'y' | 'm' | 'd', 'y' | 'm' | 'd'] }> = {
+  'YYYY-MM-DD': { pattern: /^(\d{4})[-/](\d{1,2})[-/](\d{1,2})/, order: ['y', 'm', 'd'] },
+  'MM/DD/YYYY': { pattern: /^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})/, order: ['m', 'd', 'y'] },
+  'DD/MM/YYYY': { pattern: /^(\d{1,2})[/-](\d{1,2})[/-](\d{2,4})/, order: ['d', 'm', 'y'] },
+  'DD.MM.YYYY': { pattern: /^(\d{1,2})\.(\d{1,2})\.(\d{2,4})/, order: ['d', 'm', 'y'] },
+  'YYYYMMDD': { pattern: /^(\d{4})(\d{2})(\d{2})$/, order: ['y', 'm', 'd'] },
+};
+
+/**
+ * YYYY-MM-DD for a date written in the given format, or '' when it does not fit
+ */
+export function parseDateWithFormat(value: unknown, format: Exclude<ImportDateFormat, 'auto'>): string {
+  const match = String(value ?? '').trim().match(DATE_PATTERNS[format].pattern);
+  if (!match) return '';
+
+  const parts: Record<string, number> = {};
+  DATE_PATTERNS[format].order.forEach((part, index) => {
+    parts[part] = parseInt(match[index + 1], 10);
+  });
+  if (parts.y < 100) parts.y += 2000;
+
+  const date = new Date(Date.UTC(parts.y, parts.m - 1, parts.d));
+  if (date.getUTCMonth() !== parts.m - 1 || date.getUTCDate() !== parts.d) return '';
+  return date.toISOString().slice(0, 10);
+}
+
+/**
+ * Number from an amount cell such as "1,234.56", "1.234,56", "(45.00)" or
+ * "$-12". Returns 0 for empty or unreadable cells.
+ */
+export function parseAmount(value: unknown, decimalSeparator: DecimalSeparator = '.'): number {
+  if (typeof value === 'number') return value;
+  let text = String(value ?? '').trim();
+  if (!text) return 0;
+
+  const negative = /^\(.*\)$/.test(text) || /-$/.test(text);
+  text = text.replace(/[^\d.,-]/g, '');
+  text = decimalSeparator === ','
+    ? text.replace(/\./g, '').replace(',', '.')
+    : text.replace(/,/g, '');
+  text = text.replace(/-$/, '');
+
+  const amount = parseFloat(text) || 0;
+  return negative ? -Math.abs(amount) : amount;
+}
+
+export function normalizeHeader(value: unknown): string {
+  return String(value ?? '').replace(/^\uFEFF/, '').replace(/["']/g, '').replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * Column index of each mapped field in a header row; fields whose header is
+ * not in the row are left out
+ */
+export function resolveProfileColumns(columnMapping: Record<string, string>, headers: string[]): Record<string, number> {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Record<string, number> = {};
+  for (const [field, header] of Object.entries(columnMapping)) {
+    const index = normalized.indexOf(normalizeHeader(header));
+    if (index >= 0) columns[field] = index;
+  }
+  return columns;
+}
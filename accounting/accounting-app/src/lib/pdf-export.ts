@@ -324,7 +324,7 @@ function addSummarySection(
 // Determine optimal orientation based on report type and data
 function getOptimalOrientation(reportType: string, reportData: ReportData): 'portrait' | 'landscape' {
   // Use landscape for reports with wide tables or multiple columns
-  const landscapeReports = ['financial-performance', 'time-billing', 'client-profitability'];
+  const landscapeReports = ['financial-performance', 'time-billing', 'client-profitability', 'consolidated'];
   
   if (landscapeReports.some(type => reportType.toLowerCase().includes(type))) {
     return 'landscape';
@@ -562,3 +562,50 @@ export async function exportProjectStatusReport(
 
   await exportReportToPDF(reportData, 'project-status', firmInfo);
 }
+
+export async function exportConsolidatedStatement(
+  data: {
+    title: string;
+    statementTable: { headers: string[]; rows: any[][] };
+    eliminationsTable?: { headers: string[]; rows: any[][] };
+    summary?: { label: string; value: string | number }[];
+  },
+  firmInfo: FirmInfo,
+  dateRange?: DateRange
+): Promise<void> {
+  const reportData: ReportData = {
+    title: data.title,
+    dateRange,
+    summary: data.summary,
+    tables: [
+      data.statementTable,
+      ...(data.eliminationsTable ? [{ ...data.eliminationsTable, title: 'Eliminations' }] : []),
+    ],
+  };
+
+  await exportReportToPDF(reportData, 'consolidated-statement', firmInfo);
+}
+
+/**
+ * Exports a bank reconciliation report (reconciliation summary, deposits in
+ * transit, outstanding cheques and unrecorded items) to PDF
+ */
+export async function exportBankReconciliation(
+  data: {
+    title: string;
+    reconciliationTable: { headers: string[]; rows: any[][] };
+    itemTables: TableData[];
+    summary?: { label: string; value: string | number }[];
+  },
+  firmInfo: FirmInfo,
+  dateRange?: DateRange
+): Promise<void> {
+  const reportData: ReportData = {
+    title: data.title,
+    dateRange,
+    summary: data.summary,
+    tables: [{ ...data.reconciliationTable, title: 'Reconciliation' }, ...data.itemTables],
+  };
+
+  await exportReportToPDF(reportData, 'bank-reconciliation', firmInfo);
+}
@@ -46,6 +46,8 @@ export interface Account {
   accountNumber?: string;
   type: 'asset' | 'liability' | 'equity' | 'income' | 'expense' | 'cost_of_sales' | 'other_income' | 'other_expense';
   subtype?: string;
+  // ISO currency code; absent means the client's home currency
+  currency?: string;
   isDebitNormal: boolean;
   isActive: boolean;
   createdAt: string;
@@ -60,6 +62,9 @@ export interface Transaction {
   amount: number;
   date: string;
   reference?: string;
+  currency?: string;
+  foreignAmount?: number;
+  exchangeRate?: number;
   createdAt: string;
   updatedAt: string;
 }
@@ -84,10 +89,293 @@ export interface JournalEntryLine {
   description: string;
   debitAmount: number;
   creditAmount: number;
+  currency?: string;
+  foreignAmount?: number;
+  exchangeRate?: number;
   createdAt: string;
   updatedAt: string;
 }
 
+// ============================================================================
+// CURRENCY TYPES
+// ============================================================================
+
+export interface ExchangeRate {
+  id: number;
+  firmId: number | null;
+  fromCurrency: string;
+  toCurrency: string;
+  rateDate: string;
+  rate: string;
+  source: 'csv' | 'manual';
+  createdAt: string;
+}
+
+export interface AccountCurrency {
+  accountId: number;
+  clientId: number;
+  currency: string;
+}
+
+export interface ClientCurrencySettings {
+  clientId: number;
+  homeCurrency: string;
+  realizedFxAccountId: number | null;
+  unrealizedFxAccountId: number | null;
+  accountCurrencies?: AccountCurrency[];
+}
+
+export interface DocumentCurrency {
+  id: number;
+  clientId: number;
+  documentType: 'invoice' | 'bill';
+  documentId: number;
+  currency: string;
+  exchangeRate: string;
+  documentDate: string;
+  updatedBy: number | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface FxAdjustment {
+  id: number;
+  clientId: number;
+  kind: 'realized' | 'unrealized';
+  entryDate: string;
+  documentType?: 'invoice' | 'bill' | null;
+  documentId?: number | null;
+  currency?: string | null;
+  settlementRef?: string | null;
+  amount: string;
+  journalEntryId: number | null;
+  reversalJournalEntryId: number | null;
+  reversalDate: string | null;
+  createdAt: string;
+}
+
+export interface PresentationCurrency {
+  currency: string;
+  homeCurrency: string;
+  rate: number;
+  rateDate: string | null;
+}
+
+export interface Budget {
+  id: number;
+  clientId: number;
+  name: string;
+  startDate: string;
+  months: number;
+  source: 'manual' | 'prior_year' | 'excel';
+  notes: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface BudgetLine {
+  id: number;
+  budgetId: number;
+  accountId: number;
+  projectId: number | null;
+  locationId: number | null;
+  classId: number | null;
+  periodMonth: string;
+  amount: string;
+}
+
+export interface BudgetComparison {
+  amount: number;
+  variance: number;
+  variancePercent: number | null;
+}
+
+export interface FixedAsset {
+  id: number;
+  clientId: number;
+  assetNumber: string | null;
+  name: string;
+  description: string | null;
+  acquisitionDate: string;
+  cost: string;
+  ccaClass: string;
+  ccaRate: string;
+  ccaRule: 'half_year' | 'aiip' | 'none';
+  bookMethod: 'straight_line' | 'declining_balance' | 'none';
+  usefulLifeMonths: number | null;
+  bookRate: string | null;
+  salvageValue: string;
+  openingAccumulatedDepreciation: string;
+  openingDepreciationDate: string | null;
+  assetAccountId: number | null;
+  accumulatedDepreciationAccountId: number | null;
+  depreciationExpenseAccountId: number | null;
+  status: 'active' | 'disposed';
+  disposalDate: string | null;
+  disposalProceeds: string | null;
+  disposalJournalEntryId: number | null;
+  notes: string | null;
+  accumulatedDepreciation?: number;
+  netBookValue?: number;
+  depreciatedThrough?: string | null;
+}
+
+export interface DepreciationPlanPeriod {
+  periodEnd: string;
+  locked: boolean;
+  lockMessage: string | null;
+  lines: Array<{ assetId: number; name: string; amount: number }>;
+  total: number;
+}
+
+export interface Schedule8Row {
+  ccaClass: string;
+  classKey: string;
+  assetId: number | null;
+  description: string;
+  openingUcc: number;
+  additions: number;
+  aiipAdditions: number;
+  proceeds: number;
+  uccAfterAdditions: number;
+  netAiipAdditions: number;
+  aiipAdjustment: number;
+  halfYearAdjustment: number;
+  reducedUcc: number;
+  rate: number;
+  recapture: number;
+  terminalLoss: number;
+  cca: number;
+  closingUcc: number;
+  maximumCca: number;
+  capitalGains: number;
+  claimOverridden: boolean;
+}
+
+export interface FixedAssetContinuity {
+  taxYear: { start: string; end: string };
+  schedule8: {
+    rows: Schedule8Row[];
+    totals: Record<string, number>;
+  };
+  book: {
+    rows: Array<{
+      assetId: number;
+      assetNumber: string | null;
+      name: string;
+      ccaClass: string;
+      openingCost: number;
+      additions: number;
+      disposals: number;
+      closingCost: number;
+      openingAccumulated: number;
+      depreciation: number;
+      closingAccumulated: number;
+      netBookValue: number;
+    }>;
+    totals: Record<string, number>;
+  };
+  bookToTax: {
+    bookDepreciation: number;
+    cca: number;
+    recapture: number;
+    terminalLoss: number;
+    netAdjustment: number;
+  };
+}
+
+export interface ClientGroupMember {
+  clientId: number;
+  clientName: string;
+  label: string;
+  sortOrder: number;
+}
+
+export interface ConsolidationAccount {
+  id: number;
+  groupId: number;
+  code: string | null;
+  name: string;
+  section: string;
+  sortOrder: number;
+}
+
+export interface IntercompanyRule {
+  id: number;
+  groupId: number;
+  name: string;
+  differenceAccountId: number | null;
+  isActive: boolean;
+  notes: string | null;
+  accounts: Array<{ clientId: number; accountId: number }>;
+}
+
+export interface ClientGroup {
+  id: number;
+  name: string;
+  description: string | null;
+  members: ClientGroupMember[];
+  accounts?: ConsolidationAccount[];
+  rules?: IntercompanyRule[];
+}
+
+export interface ConsolidationMemberAccounts extends ClientGroupMember {
+  accounts: Array<{
+    id: number;
+    accountNumber: string | null;
+    name: string;
+    type: string;
+    subtype: string | null;
+    consolidationAccountId: number | null;
+  }>;
+}
+
+export interface ConsolidatedReport {
+  group: { id: number; name: string };
+  reportType: "balance_sheet" | "profit_loss";
+  startDate: string | null;
+  endDate: string;
+  columns: Array<{ key: string; label: string; clientId?: number }>;
+  sections: Array<{
+    key: string;
+    label: string;
+    rows: Array<{
+      key: string;
+      code: string | null;
+      name: string;
+      unmapped?: boolean;
+      amounts: Record<string, number>;
+    }>;
+    totals: Record<string, number>;
+  }>;
+  totals: Record<string, Record<string, number>>;
+  eliminations: Array<{
+    ruleId: number;
+    name: string;
+    lines: Array<{
+      clientId: number | null;
+      entity: string | null;
+      accountId: number | null;
+      accountNumber: string | null;
+      accountName: string;
+      line: string;
+      debit: number;
+      credit: number;
+    }>;
+    difference: number;
+    differenceBooked: boolean;
+  }>;
+  unmappedAccounts: Array<{
+    clientId: number;
+    entity: string;
+    accountId: number;
+    accountNumber: string | null;
+    name: string;
+    type: string;
+    balance: number;
+  }>;
+}
+
 // ============================================================================
 // PAYROLL TYPES
 // ============================================================================
@@ -14,6 +14,7 @@ import { TrialBalanceSection } from "@/components/binder/TrialBalanceSection";
 import { CashSection } from "@/components/binder/CashSection";
 import { AccountsReceivableSection } from "@/components/binder/AccountsReceivableSection";
 import { InventorySection } from "@/components/binder/InventorySection";
+import { FixedAssetsSection } from "@/components/binder/FixedAssetsSection";
 import { SectionManager } from "@/components/binder/SectionManager";
 import { CasewareImport } from "@/components/binder/CasewareImport";
 import { apiConfig } from "@/lib/api-config";
@@ -482,6 +483,14 @@ export default function AuditBinder() {
             </div>
           )}
 
+          {activeSection === 'ppe' && (
+            <div className="space-y-6">
+              {binderData?.clientId && (
+                <FixedAssetsSection clientId={binderData.clientId} />
+              )}
+            </div>
+          )}
+
           {activeSection === 'trial-balance' && (
             <div className="space-y-6">
               <div className="flex items-center justify-between">
@@ -587,7 +596,7 @@ export default function AuditBinder() {
             </div>
           )}
 
-          {auditSections.find(s => s.id === activeSection && s.id !== 'trial-balance' && s.id !== 'cash') && (
+          {auditSections.find(s => s.id === activeSection && s.id !== 'trial-balance' && s.id !== 'cash' && s.id !== 'ppe') && (
             <div className="space-y-6">
               {(() => {
                 const section = auditSections.find(s => s.id === activeSection)!;
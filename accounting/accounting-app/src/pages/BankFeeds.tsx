@@ -3,6 +3,8 @@ import { useParams } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { Check, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
 import { PlaidLink } from "@/components/PlaidLink";
+import { TransferMatchingCard } from "@/components/financial/TransferMatchingCard";
+import { DuplicateReviewQueue } from "@/components/financial/DuplicateReviewQueue";
 
 import { Button } from "@/components/ui/button";
 import {
@@ -450,6 +452,7 @@ export default function BankFeeds() {
               </Form>
             </DialogContent>
           </Dialog>
+          </div>
         </div>
       </div>
 
@@ -589,6 +592,18 @@ export default function BankFeeds() {
         </Card>
       )}
 
+      {clientId && bankFeeds.isSuccess && bankFeeds.data.length > 0 && (
+        <div className="mt-8">
+          <TransferMatchingCard clientId={clientId} />
+        </div>
+      )}
+
+      {clientId && (
+        <div className="mt-8">
+          <DuplicateReviewQueue clientId={clientId} />
+        </div>
+      )}
+
       {/* Available Bank Accounts with 'banklink' subtype */}
       <div className="mt-8">
         <Card>
@@ -36,7 +36,7 @@ interface StatementData {
   };
   transactions: Array<{
     date: string;
-    type: string;
+    type: 'opening' | 'invoice' | 'payment' | 'credit_note' | 'refund';
     reference: string;
     description: string;
     debit: number;
@@ -45,10 +45,20 @@ interface StatementData {
     status: string;
     dueDate?: string;
   }>;
+  openInvoices: Array<{
+    id: number;
+    invoiceNumber: string;
+    dueDate: string | null;
+    amountDue: number;
+    amountPaid: number;
+    balance: number;
+  }>;
   summary: {
+    openingBalance: number;
     totalDebits: number;
     totalCredits: number;
     currentBalance: number;
+    unappliedCredit: number;
     transactionCount: number;
   };
 }
@@ -68,9 +78,11 @@ export default function CustomerStatement() {
   const { data: statementResponse, isLoading, error } = useQuery({
     queryKey: ['customer-statement', customerId, selectedClientId, appliedStartDate, appliedEndDate],
     queryFn: async () => {
-      let url = `/api/crm/customer/${customerId}/statement?clientId=${selectedClientId}`;
-      if (appliedStartDate) url += `&startDate=${appliedStartDate}`;
-      if (appliedEndDate) url += `&endDate=${appliedEndDate}`;
+      // Built from invoices, payment allocations, credit notes and refunds
+      const params = new URLSearchParams();
+      if (appliedStartDate) params.set('startDate', appliedStartDate);
+      if (appliedEndDate) params.set('endDate', appliedEndDate);
+      const url = `/api/customer-payments/${selectedClientId}/customers/${customerId}/statement?${params.toString()}`;
       
       const token = localStorage.getItem('authToken');
       const headers: HeadersInit = {};
@@ -88,7 +100,7 @@ export default function CustomerStatement() {
     refetchOnMount: 'always', // Always refetch when component mounts
   });
 
-  const statement: StatementData | null = statementResponse?.data || null;
+  const statement: StatementData | null = statementResponse || null;
 
   const handleApplyFilters = () => {
     setAppliedStartDate(startDate);
@@ -254,7 +266,7 @@ export default function CustomerStatement() {
                     <th className="text-left p-2">Reference</th>
                     <th className="text-left p-2">Description</th>
                     <th className="text-right p-2">Charges</th>
-                    <th className="text-right p-2">Payments</th>
+                    <th className="text-right p-2">Payments &amp; Credits</th>
                     <th className="text-right p-2">Balance</th>
                   </tr>
                 </thead>
@@ -268,9 +280,9 @@ export default function CustomerStatement() {
                   ) : (
                     statement.transactions.map((transaction, index) => (
                       <tr key={index} className="border-b hover:bg-gray-50">
-                        <td className="p-2">{format(new Date(transaction.date), 'MMM d, yyyy')}</td>
+                        <td className="p-2">{format(new Date(`${transaction.date}T12:00:00`), 'MMM d, yyyy')}</td>
                         <td className="p-2">{transaction.reference}</td>
-                        <td className="p-2">{transaction.description}</td>
+                        <td className={`p-2 ${transaction.type === 'opening' ? 'italic text-gray-600' : ''}`}>{transaction.description}</td>
                         <td className="p-2 text-right">
                           {transaction.debit > 0 ? formatCurrency(transaction.debit) : '—'}
                         </td>
@@ -287,18 +299,61 @@ export default function CustomerStatement() {
               </table>
             </div>
 
+            {/* Open invoices, after payments and credits applied to them */}
+            {statement.openInvoices.length > 0 && (
+              <div className="mb-6">
+                <h3 className="font-semibold mb-3">Open Invoices</h3>
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-100 border-y">
+                    <tr>
+                      <th className="text-left p-2">Invoice</th>
+                      <th className="text-left p-2">Due Date</th>
+                      <th className="text-right p-2">Amount</th>
+                      <th className="text-right p-2">Paid &amp; Credited</th>
+                      <th className="text-right p-2">Balance</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {statement.openInvoices.map((invoice) => (
+                      <tr key={invoice.id} className="border-b">
+                        <td className="p-2">{invoice.invoiceNumber}</td>
+                        <td className="p-2">
+                          {invoice.dueDate ? format(new Date(`${invoice.dueDate}T12:00:00`), 'MMM d, yyyy') : '—'}
+                        </td>
+                        <td className="p-2 text-right">{formatCurrency(invoice.amountDue)}</td>
+                        <td className="p-2 text-right">{formatCurrency(invoice.amountPaid)}</td>
+                        <td className="p-2 text-right font-medium">{formatCurrency(invoice.balance)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+
             {/* Summary */}
             <div className="border-t pt-4">
               <div className="flex justify-end">
                 <div className="w-80 space-y-2">
+                  {statement.dateRange.startDate && (
+                    <div className="flex justify-between text-sm">
+                      <span>Balance Forward:</span>
+                      <span className="font-medium">{formatCurrency(statement.summary.openingBalance)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-sm">
                     <span>Total Charges:</span>
                     <span className="font-medium">{formatCurrency(statement.summary.totalDebits)}</span>
                   </div>
                   <div className="flex justify-between text-sm">
-                    <span>Total Payments:</span>
+                    <span>Total Payments &amp; Credits:</span>
                     <span className="font-medium">{formatCurrency(statement.summary.totalCredits)}</span>
                   </div>
+                  {statement.summary.unappliedCredit > 0 && (
+                    <div className="flex justify-between text-sm text-gray-600">
+                      <span>Includes Unapplied Credit:</span>
+                      <span className="font-medium">{formatCurrency(statement.summary.unappliedCredit)}</span>
+                    </div>
+                  )}
                   <div className="flex justify-between text-lg font-bold border-t pt-2">
                     <span>Current Balance:</span>
                     <span className={statement.summary.currentBalance > 0 ? 'text-red-600' : 'text-green-600'}>
@@ -8,6 +8,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useState } from "react";
 import { toast } from "@/hooks/use-toast";
 import { NavigationVariations } from "../components/NavigationVariations";
+import IntegrationStatus from "@/components/dashboard/IntegrationStatus";
 
 interface User {
   id: number;
@@ -346,6 +347,8 @@ export default function Dashboard() {
           </Card>
         </div>
 
+        <IntegrationStatus isLoading={metricsLoading} metrics={metrics} />
+
         {/* Recent Clients */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 w-full max-w-full">
           <Card>
@@ -4,6 +4,8 @@ import VendorManagement from "@/components/vendor/VendorManagement";
 import BillManagement from "@/components/bill/BillManagement";
 import ExpenseOverview from "@/components/dashboard/ExpenseOverview";
 import ChequeExpenseManagement from "@/components/cheque/ChequeExpenseManagement";
+import BillApprovals from "@/components/bill/BillApprovals";
+import VendorPaymentRuns from "@/components/bill/VendorPaymentRuns";
 
 interface ExpenseManagementProps {
   selectedClient?: number;
@@ -39,11 +41,13 @@ export default function ExpenseManagement({ selectedClient }: ExpenseManagementP
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="vendors">Vendors</TabsTrigger>
           <TabsTrigger value="bills">Purchases</TabsTrigger>
+          <TabsTrigger value="approvals">Approvals</TabsTrigger>
           <TabsTrigger value="cheques">Cheques</TabsTrigger>
+          <TabsTrigger value="payment-runs">Payment Runs</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-4">
@@ -58,9 +62,17 @@ export default function ExpenseManagement({ selectedClient }: ExpenseManagementP
           <BillManagement clientId={selectedClientId} />
         </TabsContent>
 
+        <TabsContent value="approvals" className="space-y-4">
+          <BillApprovals clientId={selectedClientId} />
+        </TabsContent>
+
         <TabsContent value="cheques" className="space-y-4">
           <ChequeExpenseManagement clientId={selectedClientId} />
         </TabsContent>
+
+        <TabsContent value="payment-runs" className="space-y-4">
+          <VendorPaymentRuns clientId={selectedClientId} />
+        </TabsContent>
       </Tabs>
     </div>
   );
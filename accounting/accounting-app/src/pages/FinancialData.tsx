@@ -2277,7 +2277,17 @@ export default function FinancialData() {
           taxable: !!newTransactionFormData.taxId
         });
         
-        if (transactionResponse.ok) {
+        if (transactionResponse.status === 202) {
+          // Looks like a transaction already in the ledger; held in the duplicate review queue
+          const held = await transactionResponse.json();
+          queryClient.invalidateQueries({ queryKey: [`/api/duplicates/${selectedClient}/queue`] });
+          toast({
+            title: "Held for duplicate review",
+            description: held.message,
+          });
+          resetTransactionForm();
+          setShowNewTransactionDialog(false);
+        } else if (transactionResponse.ok) {
           // Refresh transactions
           queryClient.invalidateQueries({ queryKey: [`/api/transactions/${selectedClient}`] });
           queryClient.invalidateQueries({ queryKey: [`/api/bookkeeping-summary/${selectedClient}`] });
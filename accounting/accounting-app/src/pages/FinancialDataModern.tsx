@@ -5,6 +5,8 @@ import { ModernSidebar } from "@/components/ModernSidebar";
 import ReportsTab from "@/components/financial/ReportsTab";
 
 import BookkeepingSettingsTab from "@/components/financial/BookkeepingSettingsTab";
+import FixedAssetsTab from "@/components/financial/FixedAssetsTab";
+import ConsolidationTab from "@/components/financial/ConsolidationTab";
 import { MiltonChat } from "@/components/MiltonChat";
 import IncomeManagement from "@/pages/IncomeManagement";
 import ExpenseManagement from "@/pages/ExpenseManagement";
@@ -219,9 +221,13 @@ export default function FinancialDataModern() {
             </div>
           </div>
         ) : <div className="p-4 text-center text-gray-500">Please select a client</div>;
+      case "fixed-assets":
+        return selectedClient ? <FixedAssetsTab clientId={selectedClient} /> : <div className="p-4 text-center text-gray-500">Please select a client</div>;
       case "reporting":
       case "reports":
         return selectedClient ? <ReportsTab clientId={selectedClient} /> : <div className="p-4 text-center text-gray-500">Please select a client</div>;
+      case "consolidation":
+        return selectedClient ? <ConsolidationTab clientId={selectedClient} /> : <div className="p-4 text-center text-gray-500">Please select a client</div>;
       case "bookkeeping-settings":
         return selectedClient ? <BookkeepingSettingsTab clientId={selectedClient} /> : <div className="p-4 text-center text-gray-500">Please select a client</div>;
       case "milton-ai":
@@ -14,6 +14,7 @@ import { cn } from "@/lib/utils";
 import AccountsReceivableAging from "@/components/crm/AccountsReceivableAging";
 import AccountsPayableAging from "@/components/vendor/AccountsPayableAging";
 import { apiConfig } from "@/lib/api-config";
+import GeneralLedgerModal from "@/components/financial/GeneralLedgerModal";
 
 interface TrialBalanceAccount {
   id: number;
@@ -47,21 +48,39 @@ interface TrialBalanceData {
   };
 }
 
+// Prior-year column returned when a report is requested with compare=prior_year
+interface PriorComparison {
+  amount: number;
+  change: number;
+  changePercent: number | null;
+  percentOfRevenue?: number | null;
+  totalAssetsPercent?: number | null;
+}
+
+interface ReportSection {
+  accounts: any[];
+  total: number;
+  comparative?: PriorComparison;
+  percentOfRevenue?: number | null;
+  totalAssetsPercent?: number | null;
+}
+
 interface BalanceSheetData {
   assets: {
-    currentAssets: { accounts: any[]; total: number };
-    fixedAssets: { accounts: any[]; total: number };
+    currentAssets: ReportSection;
+    fixedAssets: ReportSection;
     total: number;
+    comparative?: PriorComparison;
+    totalAssetsPercent?: number | null;
   };
   liabilities: {
-    currentLiabilities: { accounts: any[]; total: number };
-    longTermLiabilities: { accounts: any[]; total: number };
-    total: number;
-  };
-  equity: {
-    accounts: any[];
+    currentLiabilities: ReportSection;
+    longTermLiabilities: ReportSection;
     total: number;
+    comparative?: PriorComparison;
+    totalAssetsPercent?: number | null;
   };
+  equity: ReportSection;
   totals: {
     totalAssets: number;
     totalLiabilities: number;
@@ -69,16 +88,50 @@ interface BalanceSheetData {
   };
   isBalanced: boolean;
   netIncome: number;
+  comparative?: {
+    asOfDate: string;
+    totalLiabilitiesAndEquity: PriorComparison;
+  };
 }
 
 interface ProfitLossData {
-  income: { accounts: any[]; total: number };
-  expenses: { accounts: any[]; total: number };
-  costOfSales: { accounts: any[]; total: number };
+  income: ReportSection;
+  expenses: ReportSection;
+  costOfSales: ReportSection;
   grossProfit: number;
   netIncome: number;
+  period?: { startDate: string; endDate: string };
+  comparative?: {
+    period: { startDate: string; endDate: string };
+    grossProfit: PriorComparison;
+    netIncome: PriorComparison;
+  };
+  commonSize?: {
+    grossProfitPercent: number | null;
+    netIncomePercent: number | null;
+  };
+}
+
+// Report line being drilled into; startDate is omitted for as-of reports
+interface DrillDownTarget {
+  id: number;
+  name: string;
+  accountNumber: string;
+  type: string;
+  startDate?: string;
+  endDate: string;
 }
 
+// Trial balance groups to account types
+const TRIAL_BALANCE_ACCOUNT_TYPES: Record<string, string> = {
+  assets: "asset",
+  liabilities: "liability",
+  equity: "equity",
+  income: "income",
+  expenses: "expense",
+  costOfSales: "cost_of_sales",
+};
+
 export default function FinancialReports() {
   const [selectedClient, setSelectedClient] = useState<string>("");
   const [reportType, setReportType] = useState<"trial-balance" | "balance-sheet" | "profit-loss" | "journal-entries" | "general-ledger" | "accounts-receivable" | "accounts-payable">("trial-balance");
@@ -101,6 +154,14 @@ export default function FinancialReports() {
   const [selectedLocationId, setSelectedLocationId] = useState<string>("all");
   const [selectedClassId, setSelectedClassId] = useState<string>("all");
 
+  // Comparative / common-size columns (Balance Sheet and P&L)
+  const [compareMode, setCompareMode] = useState<"none" | "prior_year">("none");
+  const [commonSize, setCommonSize] = useState<boolean>(false);
+  const [plPeriod, setPlPeriod] = useState<"custom" | "trailing12">("custom");
+
+  // Account drill-down to the journal lines and source documents behind a balance
+  const [drillDownAccount, setDrillDownAccount] = useState<DrillDownTarget | null>(null);
+
   // Fetch clients
   const { data: clients = [] } = useQuery<any[]>({
     queryKey: ['/api/clients'],
@@ -141,7 +202,7 @@ export default function FinancialReports() {
 
   // Fetch report data (skip for aging reports as they fetch their own data)
   const { data: reportData, isLoading: isLoadingReport, refetch: refetchReport, error } = useQuery<any>({
-    queryKey: [`/api/reports/${reportType}/${selectedClient}`, reportType, selectedClient, asOfDate, startDate, endDate, selectedProjectId, selectedLocationId, selectedClassId],
+    queryKey: [`/api/reports/${reportType}/${selectedClient}`, reportType, selectedClient, asOfDate, startDate, endDate, selectedProjectId, selectedLocationId, selectedClassId, compareMode, commonSize, plPeriod],
     enabled: !!selectedClient && reportType !== 'accounts-receivable' && reportType !== 'accounts-payable',
     queryFn: async () => {
       if (!selectedClient) return null;
@@ -161,6 +222,12 @@ export default function FinancialReports() {
       } else {
         url += `?date=${asOfDate.toISOString().split('T')[0]}`;
       }
+
+      if (reportType === 'balance-sheet' || reportType === 'profit-loss') {
+        if (compareMode !== 'none') url += `&compare=${compareMode}`;
+        if (commonSize) url += `&commonSize=true`;
+        if (reportType === 'profit-loss' && plPeriod === 'trailing12') url += `&period=trailing12`;
+      }
       
       console.log('🔍 Fetching report from URL:', url);
       
@@ -202,6 +269,71 @@ export default function FinancialReports() {
     }).format(amount);
   };
 
+  const formatPercent = (value: number | null | undefined) => {
+    return value === null || value === undefined ? '—' : `${value.toFixed(1)}%`;
+  };
+
+  const showComparative = compareMode === 'prior_year';
+
+  // Amount followed by the optional common-size %, prior-year, $ change and % change columns
+  const renderFigures = (amount: number, comparative?: PriorComparison, percent?: number | null, priorPercent?: number | null) => (
+    <span className="flex gap-4 tabular-nums">
+      <span className="w-32 text-right">{formatCurrency(amount)}</span>
+      {commonSize && <span className="w-16 text-right text-gray-500">{formatPercent(percent)}</span>}
+      {showComparative && (
+        <>
+          <span className="w-32 text-right text-gray-600">{formatCurrency(comparative?.amount || 0)}</span>
+          {commonSize && <span className="w-16 text-right text-gray-500">{formatPercent(priorPercent)}</span>}
+          <span className="w-32 text-right">{formatCurrency(comparative?.change || 0)}</span>
+          <span className="w-16 text-right">{formatPercent(comparative?.changePercent)}</span>
+        </>
+      )}
+    </span>
+  );
+
+  // Account name that opens the drill-down for the report line
+  const renderAccountName = (account: any, type: string, range: { startDate?: string; endDate: string }, className = "pl-4") => (
+    <button
+      type="button"
+      className={cn(className, "text-left hover:underline hover:text-blue-600")}
+      onClick={() => setDrillDownAccount({
+        id: account.id,
+        name: account.name,
+        accountNumber: account.accountNumber || '',
+        type: account.type || type,
+        ...range,
+      })}
+      data-testid={`drill-down-${account.id}`}
+    >
+      {account.name}
+    </button>
+  );
+
+  // P&L drill-downs cover the period the report was run for (trailing twelve months included)
+  const profitLossRange = (data: ProfitLossData) =>
+    data.period ?? { startDate: format(startDate, 'yyyy-MM-dd'), endDate: format(endDate, 'yyyy-MM-dd') };
+
+  const renderFigureHeaders = (currentLabel: string, priorLabel: string) => {
+    if (!showComparative && !commonSize) return null;
+    return (
+      <div className="flex justify-between text-xs font-medium text-gray-500 pb-2 border-b mb-2">
+        <span />
+        <span className="flex gap-4">
+          <span className="w-32 text-right">{currentLabel}</span>
+          {commonSize && <span className="w-16 text-right">%</span>}
+          {showComparative && (
+            <>
+              <span className="w-32 text-right">{priorLabel}</span>
+              {commonSize && <span className="w-16 text-right">%</span>}
+              <span className="w-32 text-right">$ Change</span>
+              <span className="w-16 text-right">% Change</span>
+            </>
+          )}
+        </span>
+      </div>
+    );
+  };
+
   // Date parsing utility to handle common formats
   const parseDate = (dateStr: string): Date | null => {
     if (!dateStr.trim()) return null;
@@ -374,7 +506,7 @@ export default function FinancialReports() {
                   {accounts.map((account: TrialBalanceAccount) => (
                     <div key={account.id} className="flex justify-between items-center py-2 border-b">
                       <div>
-                        <p className="font-medium">{account.name}</p>
+                        {renderAccountName(account, TRIAL_BALANCE_ACCOUNT_TYPES[type], { endDate: format(asOfDate, 'yyyy-MM-dd') }, "font-medium")}
                         <p className="text-sm text-gray-500">{account.accountNumber}</p>
                       </div>
                       <div className="text-right">
@@ -429,14 +561,15 @@ export default function FinancialReports() {
             <CardTitle>Assets</CardTitle>
           </CardHeader>
           <CardContent>
+            {renderFigureHeaders(format(asOfDate, 'MMM d, yyyy'), data.comparative ? format(parseISO(data.comparative.asOfDate), 'MMM d, yyyy') : 'Prior Year')}
             <div className="space-y-4">
               <div>
                 <h4 className="font-medium mb-2">Current Assets</h4>
                 {data.assets.currentAssets.accounts.length > 0 ? (
                   data.assets.currentAssets.accounts.map((account: any) => (
                     <div key={account.id} className="flex justify-between py-1">
-                      <span className="pl-4">{account.name}</span>
-                      <span>{formatCurrency(account.balance)}</span>
+                      {renderAccountName(account, 'asset', { endDate: format(asOfDate, 'yyyy-MM-dd') })}
+                      {renderFigures(account.balance, account.comparative, account.totalAssetsPercent, account.comparative?.totalAssetsPercent)}
                     </div>
                   ))
                 ) : (
@@ -447,7 +580,7 @@ export default function FinancialReports() {
                 )}
                 <div className="flex justify-between font-medium pt-2 border-t">
                   <span>Total Current Assets</span>
-                  <span>{formatCurrency(data.assets.currentAssets.total)}</span>
+                  {renderFigures(data.assets.currentAssets.total, data.assets.currentAssets.comparative, data.assets.currentAssets.totalAssetsPercent, data.assets.currentAssets.comparative?.totalAssetsPercent)}
                 </div>
               </div>
               
@@ -456,8 +589,8 @@ export default function FinancialReports() {
                 {data.assets.fixedAssets.accounts.length > 0 ? (
                   data.assets.fixedAssets.accounts.map((account: any) => (
                     <div key={account.id} className="flex justify-between py-1">
-                      <span className="pl-4">{account.name}</span>
-                      <span>{formatCurrency(account.balance)}</span>
+                      {renderAccountName(account, 'asset', { endDate: format(asOfDate, 'yyyy-MM-dd') })}
+                      {renderFigures(account.balance, account.comparative, account.totalAssetsPercent, account.comparative?.totalAssetsPercent)}
                     </div>
                   ))
                 ) : (
@@ -468,13 +601,13 @@ export default function FinancialReports() {
                 )}
                 <div className="flex justify-between font-medium pt-2 border-t">
                   <span>Total Fixed Assets</span>
-                  <span>{formatCurrency(data.assets.fixedAssets.total)}</span>
+                  {renderFigures(data.assets.fixedAssets.total, data.assets.fixedAssets.comparative, data.assets.fixedAssets.totalAssetsPercent, data.assets.fixedAssets.comparative?.totalAssetsPercent)}
                 </div>
               </div>
               
               <div className="flex justify-between font-bold text-lg pt-2 border-t-2">
                 <span>TOTAL ASSETS</span>
-                <span>{formatCurrency(data.assets.total)}</span>
+                {renderFigures(data.assets.total, data.assets.comparative, data.assets.totalAssetsPercent, data.assets.comparative?.totalAssetsPercent)}
               </div>
             </div>
           </CardContent>
@@ -485,14 +618,15 @@ export default function FinancialReports() {
             <CardTitle>Liabilities & Equity</CardTitle>
           </CardHeader>
           <CardContent>
+            {renderFigureHeaders(format(asOfDate, 'MMM d, yyyy'), data.comparative ? format(parseISO(data.comparative.asOfDate), 'MMM d, yyyy') : 'Prior Year')}
             <div className="space-y-4">
               <div>
                 <h4 className="font-medium mb-2">Current Liabilities</h4>
                 {data.liabilities.currentLiabilities.accounts.length > 0 ? (
                   data.liabilities.currentLiabilities.accounts.map((account: any) => (
                     <div key={`current-liability-${account.id}`} className="flex justify-between py-1">
-                      <span className="pl-4">{account.name}</span>
-                      <span>{formatCurrency(account.balance)}</span>
+                      {renderAccountName(account, 'liability', { endDate: format(asOfDate, 'yyyy-MM-dd') })}
+                      {renderFigures(account.balance, account.comparative, account.totalAssetsPercent, account.comparative?.totalAssetsPercent)}
                     </div>
                   ))
                 ) : (
@@ -503,7 +637,7 @@ export default function FinancialReports() {
                 )}
                 <div className="flex justify-between font-medium pt-2 border-t">
                   <span>Total Current Liabilities</span>
-                  <span>{formatCurrency(data.liabilities.currentLiabilities.total)}</span>
+                  {renderFigures(data.liabilities.currentLiabilities.total, data.liabilities.currentLiabilities.comparative, data.liabilities.currentLiabilities.totalAssetsPercent, data.liabilities.currentLiabilities.comparative?.totalAssetsPercent)}
                 </div>
               </div>
               
@@ -512,8 +646,8 @@ export default function FinancialReports() {
                 {data.liabilities.longTermLiabilities.accounts.length > 0 ? (
                   data.liabilities.longTermLiabilities.accounts.map((account: any) => (
                     <div key={`longterm-liability-${account.id}`} className="flex justify-between py-1">
-                      <span className="pl-4">{account.name}</span>
-                      <span>{formatCurrency(account.balance)}</span>
+                      {renderAccountName(account, 'liability', { endDate: format(asOfDate, 'yyyy-MM-dd') })}
+                      {renderFigures(account.balance, account.comparative, account.totalAssetsPercent, account.comparative?.totalAssetsPercent)}
                     </div>
                   ))
                 ) : (
@@ -524,13 +658,13 @@ export default function FinancialReports() {
                 )}
                 <div className="flex justify-between font-medium pt-2 border-t">
                   <span>Total Long-term Liabilities</span>
-                  <span>{formatCurrency(data.liabilities.longTermLiabilities.total)}</span>
+                  {renderFigures(data.liabilities.longTermLiabilities.total, data.liabilities.longTermLiabilities.comparative, data.liabilities.longTermLiabilities.totalAssetsPercent, data.liabilities.longTermLiabilities.comparative?.totalAssetsPercent)}
                 </div>
               </div>
               
               <div className="flex justify-between font-bold text-lg pt-2 border-t-2">
                 <span>TOTAL LIABILITIES</span>
-                <span>{formatCurrency(data.liabilities.total)}</span>
+                {renderFigures(data.liabilities.total, data.liabilities.comparative, data.liabilities.totalAssetsPercent, data.liabilities.comparative?.totalAssetsPercent)}
               </div>
               
               <div>
@@ -538,8 +672,8 @@ export default function FinancialReports() {
                 {data.equity.accounts.length > 0 ? (
                   data.equity.accounts.map((account: any) => (
                     <div key={`equity-${account.id}`} className="flex justify-between py-1">
-                      <span className="pl-4">{account.name}</span>
-                      <span>{formatCurrency(account.balance)}</span>
+                      {renderAccountName(account, 'equity', { endDate: format(asOfDate, 'yyyy-MM-dd') })}
+                      {renderFigures(account.balance, account.comparative, account.totalAssetsPercent, account.comparative?.totalAssetsPercent)}
                     </div>
                   ))
                 ) : (
@@ -550,13 +684,18 @@ export default function FinancialReports() {
                 )}
                 <div className="flex justify-between font-medium pt-2 border-t">
                   <span>Total Equity</span>
-                  <span>{formatCurrency(data.equity.total)}</span>
+                  {renderFigures(data.equity.total, data.equity.comparative, data.equity.totalAssetsPercent, data.equity.comparative?.totalAssetsPercent)}
                 </div>
               </div>
               
               <div className="flex justify-between font-bold text-lg pt-2 border-t-2">
                 <span>TOTAL LIABILITIES & EQUITY</span>
-                <span>{formatCurrency(data.totals.totalLiabilities + data.totals.totalEquity)}</span>
+                {renderFigures(
+                  data.totals.totalLiabilities + data.totals.totalEquity,
+                  data.comparative?.totalLiabilitiesAndEquity,
+                  commonSize ? 100 : null,
+                  commonSize ? 100 : null
+                )}
               </div>
             </div>
           </CardContent>
@@ -685,7 +824,7 @@ export default function FinancialReports() {
                     <tr key={account.id} className="border-b">
                       <td className="p-2">
                         <div>
-                          <p className="font-medium">{account.name}</p>
+                          {renderAccountName(account, account.type, { startDate: format(startDate, 'yyyy-MM-dd'), endDate: format(endDate, 'yyyy-MM-dd') }, "font-medium")}
                           <p className="text-gray-500">{account.accountNumber}</p>
                         </div>
                       </td>
@@ -742,21 +881,32 @@ export default function FinancialReports() {
       <Card>
         <CardHeader>
           <CardTitle>Profit & Loss Statement</CardTitle>
+          {data.period?.startDate && data.period?.endDate && (
+            <CardDescription>
+              {format(parseISO(data.period.startDate), 'MMM d, yyyy')} – {format(parseISO(data.period.endDate), 'MMM d, yyyy')}
+            </CardDescription>
+          )}
         </CardHeader>
         <CardContent>
+          {renderFigureHeaders(
+            'Current',
+            data.comparative
+              ? `${format(parseISO(data.comparative.period.startDate), 'MMM yyyy')} – ${format(parseISO(data.comparative.period.endDate), 'MMM yyyy')}`
+              : 'Prior Year'
+          )}
           <div className="space-y-6">
             {/* Income Section */}
             <div>
               <h3 className="font-bold text-lg mb-3">REVENUE</h3>
               {data.income.accounts.map((account: any) => (
                 <div key={account.id} className="flex justify-between py-1">
-                  <span className="pl-4">{account.name}</span>
-                  <span>{formatCurrency(account.balance)}</span>
+                  {renderAccountName(account, 'income', profitLossRange(data))}
+                  {renderFigures(account.balance, account.comparative, account.percentOfRevenue, account.comparative?.percentOfRevenue)}
                 </div>
               ))}
               <div className="flex justify-between font-bold pt-2 border-t">
                 <span>Total Revenue</span>
-                <span>{formatCurrency(data.income.total)}</span>
+                {renderFigures(data.income.total, data.income.comparative, data.income.percentOfRevenue, data.income.comparative?.percentOfRevenue)}
               </div>
             </div>
 
@@ -766,17 +916,17 @@ export default function FinancialReports() {
                 <h3 className="font-bold text-lg mb-3">COST OF SALES</h3>
                 {data.costOfSales.accounts.map((account: any) => (
                   <div key={account.id} className="flex justify-between py-1">
-                    <span className="pl-4">{account.name}</span>
-                    <span>{formatCurrency(account.balance)}</span>
+                    {renderAccountName(account, 'cost_of_sales', profitLossRange(data))}
+                    {renderFigures(account.balance, account.comparative, account.percentOfRevenue, account.comparative?.percentOfRevenue)}
                   </div>
                 ))}
                 <div className="flex justify-between font-bold pt-2 border-t">
                   <span>Total Cost of Sales</span>
-                  <span>{formatCurrency(data.costOfSales.total)}</span>
+                  {renderFigures(data.costOfSales.total, data.costOfSales.comparative, data.costOfSales.percentOfRevenue, data.costOfSales.comparative?.percentOfRevenue)}
                 </div>
                 <div className="flex justify-between font-bold text-lg pt-2 border-t-2">
                   <span>GROSS PROFIT</span>
-                  <span>{formatCurrency(data.grossProfit)}</span>
+                  {renderFigures(data.grossProfit, data.comparative?.grossProfit, data.commonSize?.grossProfitPercent, data.comparative?.grossProfit.percentOfRevenue)}
                 </div>
               </div>
             )}
@@ -786,13 +936,13 @@ export default function FinancialReports() {
               <h3 className="font-bold text-lg mb-3">EXPENSES</h3>
               {data.expenses.accounts.map((account: any) => (
                 <div key={account.id} className="flex justify-between py-1">
-                  <span className="pl-4">{account.name}</span>
-                  <span>{formatCurrency(account.balance)}</span>
+                  {renderAccountName(account, 'expense', profitLossRange(data))}
+                  {renderFigures(account.balance, account.comparative, account.percentOfRevenue, account.comparative?.percentOfRevenue)}
                 </div>
               ))}
               <div className="flex justify-between font-bold pt-2 border-t">
                 <span>Total Expenses</span>
-                <span>{formatCurrency(data.expenses.total)}</span>
+                {renderFigures(data.expenses.total, data.expenses.comparative, data.expenses.percentOfRevenue, data.expenses.comparative?.percentOfRevenue)}
               </div>
             </div>
 
@@ -800,7 +950,7 @@ export default function FinancialReports() {
             <div className="flex justify-between font-bold text-xl pt-4 border-t-2">
               <span>NET INCOME</span>
               <span className={data.netIncome >= 0 ? 'text-green-600' : 'text-red-600'}>
-                {formatCurrency(data.netIncome)}
+                {renderFigures(data.netIncome, data.comparative?.netIncome, data.commonSize?.netIncomePercent, data.comparative?.netIncome.percentOfRevenue)}
               </span>
             </div>
           </div>
@@ -1006,6 +1156,7 @@ export default function FinancialReports() {
               </div>
               
               {(reportType === 'profit-loss' || reportType === 'journal-entries' || reportType === 'general-ledger') ? (
+                <>
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-3">
                     <Label>Start Date</Label>
@@ -1147,6 +1298,7 @@ export default function FinancialReports() {
                     </div>
                   </div>
                 )}
+                </>
               ) : (
                 <div className="max-w-md space-y-3">
                   <Label>As of Date</Label>
@@ -1190,6 +1342,57 @@ export default function FinancialReports() {
                   </p>
                 </div>
               )}
+
+              {/* Comparative / common-size options */}
+              {(reportType === 'balance-sheet' || reportType === 'profit-loss') && (
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4 pt-6 border-t">
+                  <div>
+                    <Label htmlFor="compareMode">Compare</Label>
+                    <Select value={compareMode} onValueChange={(value: any) => setCompareMode(value)}>
+                      <SelectTrigger data-testid="select-compare-mode">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">No comparison</SelectItem>
+                        <SelectItem value="prior_year">Prior year ($ and % change)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div>
+                    <Label htmlFor="commonSize">Common Size</Label>
+                    <Select value={commonSize ? 'on' : 'off'} onValueChange={(value) => setCommonSize(value === 'on')}>
+                      <SelectTrigger data-testid="select-common-size">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="off">Amounts only</SelectItem>
+                        <SelectItem value="on">
+                          {reportType === 'profit-loss' ? '% of revenue' : '% of total assets'}
+                        </SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  {reportType === 'profit-loss' && (
+                    <div>
+                      <Label htmlFor="plPeriod">Period</Label>
+                      <Select value={plPeriod} onValueChange={(value: any) => setPlPeriod(value)}>
+                        <SelectTrigger data-testid="select-pl-period">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="custom">Start and end date</SelectItem>
+                          <SelectItem value="trailing12">Last 12 months (trailing)</SelectItem>
+                        </SelectContent>
+                      </Select>
+                      {plPeriod === 'trailing12' && (
+                        <p className="text-xs text-gray-500 mt-1">Twelve months ending on the end date; start date is ignored.</p>
+                      )}
+                    </div>
+                  )}
+                </div>
+              )}
             </div>
           </div>
         </CardContent>
@@ -1272,6 +1475,24 @@ export default function FinancialReports() {
           </CardContent>
         </Card>
       )}
+
+      {drillDownAccount && selectedClient && (
+        <GeneralLedgerModal
+          isOpen={!!drillDownAccount}
+          onClose={() => setDrillDownAccount(null)}
+          accountId={drillDownAccount.id}
+          accountName={drillDownAccount.name}
+          accountNumber={drillDownAccount.accountNumber}
+          accountType={drillDownAccount.type}
+          clientId={selectedClient}
+          startDate={drillDownAccount.startDate}
+          endDate={drillDownAccount.endDate}
+          isBalanceSheetDrillDown={reportType === 'balance-sheet'}
+          projectId={selectedProjectId}
+          locationId={selectedLocationId}
+          classId={selectedClassId}
+        />
+      )}
     </div>
   );
 }
\ No newline at end of file
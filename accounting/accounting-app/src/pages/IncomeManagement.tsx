@@ -10,6 +10,9 @@ import { DollarSign, Receipt, FileText, TrendingUp, Users, Calendar, Plus, Edit,
 import { useToast } from "@/hooks/use-toast";
 import CustomerManagement from "@/components/crm/CustomerManagement";
 import InvoiceManagement from "@/components/invoice/InvoiceManagement";
+import RecurringInvoiceProfiles from "@/components/invoice/RecurringInvoiceProfiles";
+import CustomerPayments from "@/components/invoice/CustomerPayments";
+import DunningManagement from "@/components/crm/DunningManagement";
 import IncomeOverview from "@/components/dashboard/IncomeOverview";
 import { getDocumentTemplates, deleteDocumentTemplate, type DocumentTemplate } from "@/lib/api/document-templates";
 import { useLocation } from 'wouter';
@@ -83,10 +86,13 @@ export default function IncomeManagement({ selectedClient }: IncomeManagementPro
       </div>
 
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-4">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-7">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="customers">Customers</TabsTrigger>
           <TabsTrigger value="invoices">Sales</TabsTrigger>
+          <TabsTrigger value="payments">Payments</TabsTrigger>
+          <TabsTrigger value="recurring">Recurring</TabsTrigger>
+          <TabsTrigger value="collections">Collections</TabsTrigger>
           <TabsTrigger value="templates">Templates</TabsTrigger>
         </TabsList>
 
@@ -118,6 +124,18 @@ export default function IncomeManagement({ selectedClient }: IncomeManagementPro
           </Card>
         </TabsContent>
 
+        <TabsContent value="payments" className="space-y-4">
+          {selectedClientId && <CustomerPayments clientId={selectedClientId} />}
+        </TabsContent>
+
+        <TabsContent value="recurring" className="space-y-4">
+          {selectedClientId && <RecurringInvoiceProfiles clientId={selectedClientId} />}
+        </TabsContent>
+
+        <TabsContent value="collections" className="space-y-4">
+          {selectedClientId && <DunningManagement clientId={selectedClientId} />}
+        </TabsContent>
+
         <TabsContent value="templates" className="space-y-4">
           <Card>
             <CardHeader>
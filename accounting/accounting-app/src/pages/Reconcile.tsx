@@ -47,6 +47,8 @@ import {
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Skeleton } from "@/components/ui/skeleton";
 import { Progress } from "@/components/ui/progress";
+import MatchReviewPanel from "@/components/reconciliation/MatchReviewPanel";
+import ReconciliationReportPanel from "@/components/reconciliation/ReconciliationReportPanel";
 
 interface ReconciliationSession {
   id: number;
@@ -90,7 +92,8 @@ export default function Reconcile() {
   const [selectedSession, setSelectedSession] = useState<ReconciliationSession | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [isUploadOpen, setIsUploadOpen] = useState(false);
-  const [uploadType, setUploadType] = useState<'excel' | 'pdf'>('excel');
+  const [activeTab, setActiveTab] = useState('overview');
+  const [uploadType, setUploadType] = useState<'excel' | 'pdf' | 'statement'>('excel');
   const [formData, setFormData] = useState({
     name: '',
     description: '',
@@ -158,22 +161,26 @@ export default function Reconcile() {
     }
   });
 
-  // Auto-match mutation
-  const autoMatchMutation = useMutation({
-    mutationFn: (sessionId: number) => apiRequest('/api/reconciliation/auto-match', {
-      method: 'POST',
-      body: JSON.stringify({ sessionId }),
-      headers: { 'Content-Type': 'application/json' }
-    }),
+  // Structured statement (OFX/QFX/QBO/CAMT) import - also seeds the session's period and ending balance
+  const importStatementMutation = useMutation({
+    mutationFn: ({ sessionId, formData }: { sessionId: number; formData: FormData }) =>
+      apiRequest('POST', `/api/reconciliation/sessions/${sessionId}/import-statement`, undefined, {
+        body: formData
+      }).then(res => res.json()),
     onSuccess: (data) => {
-      toast({ 
-        title: "Auto-matching completed!",
-        description: `Matched ${data.matchedCount} of ${data.totalItems} items`
+      toast({
+        title: "Statement imported successfully!",
+        description: `Loaded ${data.extractedCount} transactions` +
+          (data.duplicateCount ? `, ${data.duplicateCount} already in this session` : '') +
+          (data.statement?.closingBalance !== undefined
+            ? `. Statement ending balance set to $${data.statement.closingBalance.toFixed(2)}`
+            : '')
       });
       queryClient.invalidateQueries({ queryKey: ['/api/reconciliation/sessions'] });
+      setIsUploadOpen(false);
     },
-    onError: () => {
-      toast({ title: "Auto-matching failed", variant: "destructive" });
+    onError: (error: Error) => {
+      toast({ title: "Failed to import statement", description: error.message, variant: "destructive" });
     }
   });
 
@@ -210,9 +217,14 @@ export default function Reconcile() {
 
     const formData = new FormData();
     formData.append('statement', file);
-    formData.append('sessionId', selectedSession.id.toString());
 
-    uploadStatementMutation.mutate(formData);
+    if (/\.(ofx|qfx|qbo|xml)$/i.test(file.name)) {
+      importStatementMutation.mutate({ sessionId: selectedSession.id, formData });
+    } else {
+      formData.append('sessionId', selectedSession.id.toString());
+      uploadStatementMutation.mutate(formData);
+    }
+    event.target.value = '';
   };
 
   const getStatusColor = (status: string) => {
@@ -383,10 +395,12 @@ export default function Reconcile() {
         {/* Session Details */}
         <div className="lg:col-span-2">
           {selectedSession ? (
-            <Tabs defaultValue="overview" className="space-y-6">
+            <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
               <TabsList>
                 <TabsTrigger value="overview">Overview</TabsTrigger>
                 <TabsTrigger value="items">Items</TabsTrigger>
+                <TabsTrigger value="matching">Matching</TabsTrigger>
+                <TabsTrigger value="report">Report</TabsTrigger>
                 <TabsTrigger value="actions">Actions</TabsTrigger>
               </TabsList>
 
@@ -544,17 +558,44 @@ export default function Reconcile() {
                 </Card>
               </TabsContent>
 
+              <TabsContent value="matching" className="space-y-6">
+                <MatchReviewPanel
+                  clientId={currentClientId}
+                  sessionId={selectedSession.id}
+                  isFinalized={selectedSession.status === 'completed'}
+                />
+              </TabsContent>
+
+              <TabsContent value="report" className="space-y-6">
+                <ReconciliationReportPanel
+                  sessionId={selectedSession.id}
+                  onStatusChange={(status) => setSelectedSession({ ...selectedSession, status })}
+                />
+              </TabsContent>
+
               <TabsContent value="actions" className="space-y-6">
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <Card>
                     <CardHeader>
                       <CardTitle>Upload Statement</CardTitle>
                       <CardDescription>
-                        Upload Excel, CSV, or PDF bank statements
+                        Upload OFX/QFX, QBO, CAMT.053, Excel, CSV, or PDF bank statements
                       </CardDescription>
                     </CardHeader>
                     <CardContent className="space-y-4">
-                      <div className="grid grid-cols-2 gap-4">
+                      <div className="grid grid-cols-3 gap-4">
+                        <Button
+                          variant="outline"
+                          className="h-24 flex flex-col"
+                          onClick={() => {
+                            setUploadType('statement');
+                            fileInputRef.current?.click();
+                          }}
+                        >
+                          <FileText className="w-8 h-8 mb-2" />
+                          OFX/QBO/CAMT
+                        </Button>
+
                         <Button
                           variant="outline"
                           className="h-24 flex flex-col"
@@ -583,7 +624,10 @@ export default function Reconcile() {
                       <input
                         ref={fileInputRef}
                         type="file"
-                        accept={uploadType === 'excel' ? '.xlsx,.xls,.csv' : '.pdf'}
+                        accept={
+                          uploadType === 'statement' ? '.ofx,.qfx,.qbo,.xml' :
+                          uploadType === 'excel' ? '.xlsx,.xls,.csv' : '.pdf'
+                        }
                         onChange={handleFileUpload}
                         className="hidden"
                       />
@@ -592,19 +636,18 @@ export default function Reconcile() {
 
                   <Card>
                     <CardHeader>
-                      <CardTitle>AI Auto-Match</CardTitle>
+                      <CardTitle>Match Transactions</CardTitle>
                       <CardDescription>
-                        Automatically match statement items with book transactions
+                        Review 1:1, one-to-many and many-to-one match proposals with confidence scores
                       </CardDescription>
                     </CardHeader>
                     <CardContent>
                       <Button
-                        onClick={() => autoMatchMutation.mutate(selectedSession.id)}
-                        disabled={autoMatchMutation.isPending}
+                        onClick={() => setActiveTab('matching')}
                         className="w-full"
                       >
                         <Zap className="w-4 h-4 mr-2" />
-                        {autoMatchMutation.isPending ? 'Matching...' : 'Run Auto-Match'}
+                        Review Matches
                       </Button>
                     </CardContent>
                   </Card>
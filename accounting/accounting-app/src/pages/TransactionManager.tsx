@@ -52,6 +52,7 @@ import RulesManagementTab from "@/components/RulesManagementTab";
 import Reconcile from "@/pages/Reconcile";
 import ChequeUploadManager from "@/components/cheque/ChequeUploadManager";
 import JournalEntriesTab from "@/components/journal/JournalEntriesTab";
+import { ImportHistory } from "@/components/import/ImportHistory";
 import RuleCreationDialog from "@/components/RuleCreationDialog";
 import { apiConfig } from "@/lib/api-config";
 
@@ -1609,7 +1610,7 @@ export default function TransactionManager({
           className="flex-1 min-h-0 flex flex-col w-full max-w-none min-w-0"
         >
           <div className="flex-shrink-0 border-b bg-background">
-            <TabsList className="grid w-full grid-cols-6 h-6 sm:h-7">
+            <TabsList className="grid w-full grid-cols-7 h-6 sm:h-7">
               <TabsTrigger
                 value="bank-transactions"
                 className="text-xs px-1 py-0.5"
@@ -1648,6 +1649,10 @@ export default function TransactionManager({
                 <span className="hidden sm:inline">Reconcile</span>
                 <span className="sm:hidden">✅</span>
               </TabsTrigger>
+              <TabsTrigger value="imports" className="text-xs px-1 py-0.5">
+                <span className="hidden sm:inline">Imports</span>
+                <span className="sm:hidden">🕘</span>
+              </TabsTrigger>
             </TabsList>
           </div>
 
@@ -2492,6 +2497,10 @@ export default function TransactionManager({
           <TabsContent value="reconcile" className="p-0">
             <Reconcile />
           </TabsContent>
+
+          <TabsContent value="imports" className="p-3">
+            <ImportHistory clientId={clientId} />
+          </TabsContent>
         </Tabs>
       </div>
 